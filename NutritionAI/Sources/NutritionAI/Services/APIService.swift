@@ -735,44 +735,60 @@ public class APIService: ObservableObject {
         }
     }
 
-    /// Fetch all meals for the current user
+    /// Fetch all meals for the current user, following the pages of GET /api/meals
     func fetchMeals() async throws -> [CloudMeal] {
-        guard let url = URL(string: "\(settings.backendURL)/api/meals") else {
-            throw APIError.invalidURL
-        }
-        
-        var request = URLRequest(url: url)
-        request.httpMethod = "GET"
-        await addAuthHeader(to: &request)
-        
-        let (data, response) = try await session.data(for: request)
-        
-        guard let httpResponse = response as? HTTPURLResponse else {
-            throw APIError.invalidResponse
-        }
-        
-        if httpResponse.statusCode == 401 {
-            handleUnauthorized()
-            throw APIError.unauthorized
-        }
-        
-        if httpResponse.statusCode == 200 {
+        var meals: [CloudMeal] = []
+        var cursor: String? = nil
+
+        repeat {
+            guard var components = URLComponents(string: "\(settings.backendURL)/api/meals") else {
+                throw APIError.invalidURL
+            }
+            components.queryItems = [URLQueryItem(name: "limit", value: "100")]
+            if let cursor = cursor {
+                components.queryItems?.append(URLQueryItem(name: "cursor", value: cursor))
+            }
+            guard let url = components.url else {
+                throw APIError.invalidURL
+            }
+
+            var request = URLRequest(url: url)
+            request.httpMethod = "GET"
+            await addAuthHeader(to: &request)
+
+            let (data, response) = try await session.data(for: request)
+
+            guard let httpResponse = response as? HTTPURLResponse else {
+                throw APIError.invalidResponse
+            }
+
+            if httpResponse.statusCode == 401 {
+                handleUnauthorized()
+                throw APIError.unauthorized
+            }
+
+            guard httpResponse.statusCode == 200 else {
+                if let errorResponse = try? JSONDecoder().decode(ErrorResponse.self, from: data) {
+                    throw APIError.serverError(errorResponse.error)
+                }
+                throw APIError.serverError("Failed to fetch meals")
+            }
+
             let decoder = JSONDecoder()
             decoder.dateDecodingStrategy = .iso8601
             let mealsResponse = try decoder.decode(CloudMealsResponse.self, from: data)
-            return mealsResponse.meals
-        } else {
-            if let errorResponse = try? JSONDecoder().decode(ErrorResponse.self, from: data) {
-                throw APIError.serverError(errorResponse.error)
-            }
-            throw APIError.serverError("Failed to fetch meals")
-        }
+            meals.append(contentsOf: mealsResponse.meals)
+            cursor = mealsResponse.nextCursor
+        } while cursor != nil
+
+        return meals
     }
 }
 
 // Helper struct for cloud meals response
 public struct CloudMealsResponse: Codable {
     public let meals: [CloudMeal]
+    public let nextCursor: String?
 }
 
 public struct CloudMeal: Codable {
@@ -0,0 +1,192 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import Fastify from 'fastify';
+import { authRoutes } from '../routes/auth.js';
+import { accountRoutes } from '../routes/account.js';
+import { setDb } from '../services/database.js';
+import { InMemoryDatabase } from '../services/memoryDatabase.js';
+import { setMailer } from '../services/mailer.js';
+import type { MailMessage } from '../services/mailer.js';
+import { AnalysisQueue, setAnalysisQueue } from '../services/analysisQueue.js';
+
+let db: InMemoryDatabase;
+let sent: MailMessage[];
+
+beforeEach(() => {
+  db = new InMemoryDatabase();
+  setDb(db);
+  sent = [];
+  setMailer({ name: 'console', send: async message => { sent.push(message); } });
+  setAnalysisQueue(new AnalysisQueue());
+});
+
+afterEach(() => {
+  setMailer(null);
+  setAnalysisQueue(null);
+});
+
+async function buildServer() {
+  const server = Fastify();
+  await server.register(authRoutes);
+  await server.register(accountRoutes);
+  return server;
+}
+
+async function register(server: Awaited<ReturnType<typeof buildServer>>, email = 'user@example.com') {
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/auth/register',
+    payload: { email, password: 'password123', name: 'User' }
+  });
+  assert.strictEqual(response.statusCode, 201);
+  return response.json();
+}
+
+function login(server: Awaited<ReturnType<typeof buildServer>>, email: string, password: string) {
+  return server.inject({ method: 'POST', url: '/api/auth/login', payload: { email, password } });
+}
+
+// The token from the verification link in the email sent to an address
+function verifyToken(to: string): string {
+  const match = [...sent].reverse()
+    .filter(m => m.to === to)
+    .map(m => m.text.match(/[?&]verify=([^\s&]+)/))
+    .find(Boolean);
+  assert.ok(match, `no verification link sent to ${to}`);
+  return decodeURIComponent(match[1]);
+}
+
+test('PUT /api/auth/password - checks the current password and ends other sessions', async () => {
+  const server = await buildServer();
+  const registered = await register(server);
+  const headers = { authorization: `Bearer ${registered.token}` };
+
+  const wrong = await server.inject({
+    method: 'PUT',
+    url: '/api/auth/password',
+    headers,
+    payload: { currentPassword: 'not-my-password', newPassword: 'new-password' }
+  });
+  assert.strictEqual(wrong.statusCode, 400);
+
+  const tooShort = await server.inject({
+    method: 'PUT',
+    url: '/api/auth/password',
+    headers,
+    payload: { currentPassword: 'password123', newPassword: 'short' }
+  });
+  assert.strictEqual(tooShort.statusCode, 400);
+
+  const changed = await server.inject({
+    method: 'PUT',
+    url: '/api/auth/password',
+    headers,
+    payload: { currentPassword: 'password123', newPassword: 'new-password' }
+  });
+  assert.strictEqual(changed.statusCode, 200);
+  const session = changed.json();
+  assert.ok(session.token && session.refreshToken);
+
+  assert.strictEqual((await login(server, 'user@example.com', 'password123')).statusCode, 401);
+  assert.strictEqual((await login(server, 'user@example.com', 'new-password')).statusCode, 200);
+
+  const newRefresh = await server.inject({ method: 'POST', url: '/api/auth/refresh', payload: { refreshToken: session.refreshToken } });
+  assert.strictEqual(newRefresh.statusCode, 200);
+  const oldRefresh = await server.inject({ method: 'POST', url: '/api/auth/refresh', payload: { refreshToken: registered.refreshToken } });
+  assert.strictEqual(oldRefresh.statusCode, 401);
+});
+
+test('PUT /api/auth/email - changes the address once the new one is verified', async () => {
+  const server = await buildServer();
+  const registered = await register(server);
+  const headers = { authorization: `Bearer ${registered.token}` };
+
+  const wrongPassword = await server.inject({
+    method: 'PUT',
+    url: '/api/auth/email',
+    headers,
+    payload: { email: 'new@example.com', password: 'not-my-password' }
+  });
+  assert.strictEqual(wrongPassword.statusCode, 400);
+
+  const requested = await server.inject({
+    method: 'PUT',
+    url: '/api/auth/email',
+    headers,
+    payload: { email: 'new@example.com', password: 'password123' }
+  });
+  assert.strictEqual(requested.statusCode, 202);
+  assert.ok(sent.some(m => m.to === 'user@example.com' && /being changed/.test(m.subject)));
+
+  // Nothing changes until the link is followed
+  assert.strictEqual((await db.findUserById(registered.user.id))?.email, 'user@example.com');
+
+  const verified = await server.inject({ method: 'POST', url: '/api/auth/verify-email', payload: { token: verifyToken('new@example.com') } });
+  assert.strictEqual(verified.statusCode, 200);
+  assert.strictEqual(verified.json().email, 'new@example.com');
+
+  const user = await db.findUserById(registered.user.id);
+  assert.strictEqual(user?.email, 'new@example.com');
+  assert.strictEqual(user?.emailVerified, true);
+  assert.strictEqual((await login(server, 'new@example.com', 'password123')).statusCode, 200);
+  assert.strictEqual((await login(server, 'user@example.com', 'password123')).statusCode, 401);
+
+  // The registration link was for the old address
+  const stale = await server.inject({ method: 'POST', url: '/api/auth/verify-email', payload: { token: verifyToken('user@example.com') } });
+  assert.strictEqual(stale.statusCode, 400);
+});
+
+test('PUT /api/auth/email - refuses addresses that belong to another account', async () => {
+  const server = await buildServer();
+  const registered = await register(server);
+  const headers = { authorization: `Bearer ${registered.token}` };
+  await register(server, 'taken@example.com');
+
+  const taken = await server.inject({
+    method: 'PUT',
+    url: '/api/auth/email',
+    headers,
+    payload: { email: 'taken@example.com', password: 'password123' }
+  });
+  assert.strictEqual(taken.statusCode, 409);
+
+  // Someone registers the address while the link is waiting to be followed
+  await server.inject({ method: 'PUT', url: '/api/auth/email', headers, payload: { email: 'late@example.com', password: 'password123' } });
+  const token = verifyToken('late@example.com');
+  await register(server, 'late@example.com');
+
+  const conflict = await server.inject({ method: 'POST', url: '/api/auth/verify-email', payload: { token } });
+  assert.strictEqual(conflict.statusCode, 409);
+  assert.strictEqual((await db.findUserById(registered.user.id))?.email, 'user@example.com');
+});
+
+test('DELETE /api/account - erases the account and everything it owns', async () => {
+  const server = await buildServer();
+  const registered = await register(server);
+  const headers = { authorization: `Bearer ${registered.token}` };
+  const userId = registered.user.id;
+  await db.createMealAnalysis({ userId, imageUrl: '', thumbnail: 'data:image/jpeg;base64,AAAA', nutritionData: { foods: [], totals: {} } });
+  await db.createKetoneLog({ userId, timestamp: new Date(), ketoneLevel: 1.2, measurementType: 'blood', notes: null });
+
+  const account = await server.inject({ method: 'GET', url: '/api/account', headers });
+  assert.strictEqual(account.statusCode, 200);
+  assert.strictEqual(account.json().email, 'user@example.com');
+
+  const missingPassword = await server.inject({ method: 'DELETE', url: '/api/account', headers, payload: {} });
+  assert.strictEqual(missingPassword.statusCode, 400);
+  const wrongPassword = await server.inject({ method: 'DELETE', url: '/api/account', headers, payload: { password: 'not-my-password' } });
+  assert.strictEqual(wrongPassword.statusCode, 400);
+
+  const deleted = await server.inject({ method: 'DELETE', url: '/api/account', headers, payload: { password: 'password123' } });
+  assert.strictEqual(deleted.statusCode, 200);
+
+  assert.strictEqual(await db.findUserById(userId), null);
+  assert.deepStrictEqual(await db.findMealAnalysesByUserId(userId), []);
+  assert.deepStrictEqual(await db.findKetoneLogsByUser(userId), []);
+  assert.strictEqual((await login(server, 'user@example.com', 'password123')).statusCode, 401);
+
+  const refresh = await server.inject({ method: 'POST', url: '/api/auth/refresh', payload: { refreshToken: registered.refreshToken } });
+  assert.strictEqual(refresh.statusCode, 401);
+  const gone = await server.inject({ method: 'GET', url: '/api/account', headers });
+  assert.strictEqual(gone.statusCode, 404);
+});
@@ -0,0 +1,214 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Fastify from 'fastify';
+import { authRoutes } from '../routes/auth.js';
+import { setDb } from '../services/database.js';
+import { InMemoryDatabase } from '../services/memoryDatabase.js';
+import { setMailer, FileMailer, resolveMailerProvider } from '../services/mailer.js';
+import type { MailMessage } from '../services/mailer.js';
+import { hashToken } from '../services/auth.js';
+
+let db: InMemoryDatabase;
+let sent: MailMessage[];
+
+beforeEach(() => {
+  db = new InMemoryDatabase();
+  setDb(db);
+  sent = [];
+  setMailer({ name: 'console', send: async message => { sent.push(message); } });
+});
+
+afterEach(() => {
+  setMailer(null);
+});
+
+async function buildServer() {
+  const server = Fastify();
+  await server.register(authRoutes);
+  return server;
+}
+
+async function register(server: Awaited<ReturnType<typeof buildServer>>) {
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/auth/register',
+    payload: { email: 'user@example.com', password: 'password123', name: 'User' }
+  });
+  assert.strictEqual(response.statusCode, 201);
+  return response.json();
+}
+
+// Reset links are sent after the response; wait until `count` emails are out
+async function mailSent(count: number) {
+  for (let i = 0; i < 100 && sent.length < count; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  assert.strictEqual(sent.length, count);
+}
+
+// The token from the link in the most recent email
+function linkToken(param: 'verify' | 'reset'): string {
+  const match = sent[sent.length - 1].text.match(new RegExp(`[?&]${param}=([^\\s&]+)`));
+  assert.ok(match, `no ${param} link in the email`);
+  return decodeURIComponent(match[1]);
+}
+
+test('POST /api/auth/register - emails a verification link that works once', async () => {
+  const server = await buildServer();
+  const registered = await register(server);
+
+  assert.strictEqual(registered.user.emailVerified, false);
+  assert.strictEqual(sent.length, 1);
+  assert.strictEqual(sent[0].to, 'user@example.com');
+
+  const token = linkToken('verify');
+  const verified = await server.inject({ method: 'POST', url: '/api/auth/verify-email', payload: { token } });
+  assert.strictEqual(verified.statusCode, 200);
+  assert.strictEqual((await db.findUserById(registered.user.id))?.emailVerified, true);
+
+  const again = await server.inject({ method: 'POST', url: '/api/auth/verify-email', payload: { token } });
+  assert.strictEqual(again.statusCode, 400);
+
+  const resend = await server.inject({
+    method: 'POST',
+    url: '/api/auth/resend-verification',
+    headers: { authorization: `Bearer ${registered.token}` }
+  });
+  assert.strictEqual(resend.statusCode, 400);
+});
+
+test('POST /api/auth/resend-verification - replaces the previous link', async () => {
+  const server = await buildServer();
+  const registered = await register(server);
+  const first = linkToken('verify');
+
+  const resend = await server.inject({
+    method: 'POST',
+    url: '/api/auth/resend-verification',
+    headers: { authorization: `Bearer ${registered.token}` }
+  });
+  assert.strictEqual(resend.statusCode, 200);
+  assert.strictEqual(sent.length, 2);
+
+  const stale = await server.inject({ method: 'POST', url: '/api/auth/verify-email', payload: { token: first } });
+  assert.strictEqual(stale.statusCode, 400);
+  const current = await server.inject({ method: 'POST', url: '/api/auth/verify-email', payload: { token: linkToken('verify') } });
+  assert.strictEqual(current.statusCode, 200);
+});
+
+test('POST /api/auth/forgot-password and reset-password - set a new password and end sessions', async () => {
+  const server = await buildServer();
+  const registered = await register(server);
+
+  const forgot = await server.inject({ method: 'POST', url: '/api/auth/forgot-password', payload: { email: 'user@example.com' } });
+  assert.strictEqual(forgot.statusCode, 200);
+  await mailSent(2);
+  const token = linkToken('reset');
+
+  const tooShort = await server.inject({ method: 'POST', url: '/api/auth/reset-password', payload: { token, password: 'short' } });
+  assert.strictEqual(tooShort.statusCode, 400);
+
+  const reset = await server.inject({ method: 'POST', url: '/api/auth/reset-password', payload: { token, password: 'new-password' } });
+  assert.strictEqual(reset.statusCode, 200);
+
+  const reused = await server.inject({ method: 'POST', url: '/api/auth/reset-password', payload: { token, password: 'other-password' } });
+  assert.strictEqual(reused.statusCode, 400);
+
+  const oldLogin = await server.inject({ method: 'POST', url: '/api/auth/login', payload: { email: 'user@example.com', password: 'password123' } });
+  assert.strictEqual(oldLogin.statusCode, 401);
+  const newLogin = await server.inject({ method: 'POST', url: '/api/auth/login', payload: { email: 'user@example.com', password: 'new-password' } });
+  assert.strictEqual(newLogin.statusCode, 200);
+  assert.strictEqual(newLogin.json().user.emailVerified, true);
+
+  const refresh = await server.inject({ method: 'POST', url: '/api/auth/refresh', payload: { refreshToken: registered.refreshToken } });
+  assert.strictEqual(refresh.statusCode, 401);
+});
+
+test('POST /api/auth/forgot-password - answers the same for unknown addresses', async () => {
+  const server = await buildServer();
+  await register(server);
+  sent = [];
+
+  const unknown = await server.inject({ method: 'POST', url: '/api/auth/forgot-password', payload: { email: 'nobody@example.com' } });
+  const known = await server.inject({ method: 'POST', url: '/api/auth/forgot-password', payload: { email: 'user@example.com' } });
+
+  assert.strictEqual(unknown.statusCode, 200);
+  assert.deepStrictEqual(unknown.json(), known.json());
+  await mailSent(1);
+
+  // Nor when the mail server fails
+  setMailer({ name: 'console', send: async () => { throw new Error('SMTP unavailable'); } });
+  const failed = await server.inject({ method: 'POST', url: '/api/auth/forgot-password', payload: { email: 'user@example.com' } });
+  assert.strictEqual(failed.statusCode, 200);
+  assert.deepStrictEqual(failed.json(), unknown.json());
+
+  const invalid = await server.inject({ method: 'POST', url: '/api/auth/forgot-password', payload: { email: 'not-an-email' } });
+  assert.strictEqual(invalid.statusCode, 400);
+});
+
+test('POST /api/auth/reset-password - rejects expired links and verification tokens', async () => {
+  const server = await buildServer();
+  const registered = await register(server);
+
+  // A verification token can't reset a password
+  const verifyToken = linkToken('verify');
+  const wrongPurpose = await server.inject({ method: 'POST', url: '/api/auth/reset-password', payload: { token: verifyToken, password: 'new-password' } });
+  assert.strictEqual(wrongPurpose.statusCode, 400);
+
+  await db.createEmailToken({
+    id: hashToken('expired-token'),
+    userId: registered.user.id,
+    purpose: 'reset-password',
+    email: 'user@example.com',
+    expiresAt: new Date(Date.now() - 1000)
+  });
+  const expired = await server.inject({ method: 'POST', url: '/api/auth/reset-password', payload: { token: 'expired-token', password: 'new-password' } });
+  assert.strictEqual(expired.statusCode, 400);
+});
+
+test('FileMailer - writes each message as an .eml file', async () => {
+  const directory = await mkdtemp(join(tmpdir(), 'mail-'));
+  try {
+    await new FileMailer(directory, 'NutritionAI <test@example.com>').send({
+      to: 'user@example.com',
+      subject: 'Reset your password',
+      text: 'Open this link'
+    });
+
+    const files = await readdir(directory);
+    assert.strictEqual(files.length, 1);
+    assert.match(files[0], /reset-your-password\.eml$/);
+    const contents = await readFile(join(directory, files[0]), 'utf8');
+    assert.match(contents, /^From: NutritionAI <test@example.com>\r\nTo: user@example.com\r\nSubject: Reset your password/);
+    assert.match(contents, /\r\n\r\nOpen this link$/);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
+
+test('resolveMailerProvider - never falls back to the console in production', () => {
+  const saved = { NODE_ENV: process.env.NODE_ENV, MAIL_PROVIDER: process.env.MAIL_PROVIDER, SMTP_URL: process.env.SMTP_URL, SMTP_HOST: process.env.SMTP_HOST };
+  delete process.env.MAIL_PROVIDER;
+  delete process.env.SMTP_URL;
+  delete process.env.SMTP_HOST;
+  try {
+    process.env.NODE_ENV = 'development';
+    assert.strictEqual(resolveMailerProvider(), 'console');
+
+    process.env.NODE_ENV = 'production';
+    assert.throws(() => resolveMailerProvider(), /SMTP must be configured/);
+    process.env.SMTP_HOST = 'smtp.example.com';
+    assert.strictEqual(resolveMailerProvider(), 'smtp');
+    delete process.env.SMTP_HOST;
+    process.env.MAIL_PROVIDER = 'file';
+    assert.strictEqual(resolveMailerProvider(), 'file');
+  } finally {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  }
+});
@@ -0,0 +1,167 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { parseNutritionResponse, parseLabelResponse, NutritionValidationError, LabelNotFoundError } from '../utils/nutritionValidation.js';
+import { runAnalysis, AnalysisParseError } from '../services/analysisPipeline.js';
+import type { NutritionAnalyzer, AnalyzerRequest } from '../services/nutritionAnalyzer.js';
+import { createNutritionPrompt } from '../services/gemini.js';
+
+const validFood = {
+  name: 'Egg',
+  portion: '1 large',
+  nutrition: { calories: 70, protein: 6, carbs: 0.5, fat: 5, fiber: 0, sugar: 0.2 },
+  confidence: 0.9
+};
+
+// Replays a fixed sequence of responses and records the prompts it received
+class ScriptedAnalyzer implements NutritionAnalyzer {
+  readonly provider = 'scripted';
+  readonly model = 'test';
+  prompts: string[] = [];
+
+  constructor(private responses: string[]) {}
+
+  async generate(request: AnalyzerRequest): Promise<string> {
+    this.prompts.push(request.prompt);
+    return this.responses[Math.min(this.prompts.length - 1, this.responses.length - 1)];
+  }
+}
+
+test('parseNutritionResponse - coerces numeric strings and defaults optional nutrients', () => {
+  const { data, repairs } = parseNutritionResponse(JSON.stringify({
+    foods: [{ ...validFood, nutrition: { calories: '70 kcal', protein: '6g', carbs: 0.5, fat: 5 } }],
+    totals: { calories: 70, protein: 6, carbs: 0.5, fat: 5 }
+  }));
+
+  assert.strictEqual(data.foods[0].nutrition.calories, 70);
+  assert.strictEqual(data.foods[0].nutrition.protein, 6);
+  assert.strictEqual(data.foods[0].nutrition.fiber, 0);
+  assert.ok(repairs.some(r => r.type === 'coerced' && r.path === 'foods[0].nutrition.calories'));
+  assert.ok(repairs.some(r => r.type === 'defaulted' && r.path === 'totals.sugar'));
+});
+
+test('parseNutritionResponse - rejects negative and non-numeric values', () => {
+  assert.throws(
+    () => parseNutritionResponse(JSON.stringify({ foods: [{ ...validFood, nutrition: { ...validFood.nutrition, fat: -2 } }] })),
+    /must not be negative/
+  );
+  assert.throws(
+    () => parseNutritionResponse(JSON.stringify({ foods: [{ ...validFood, nutrition: { ...validFood.nutrition, protein: 'lots' } }] })),
+    NutritionValidationError
+  );
+});
+
+test('parseNutritionResponse - clamps confidence to 0-1', () => {
+  const { data, repairs } = parseNutritionResponse(JSON.stringify({
+    foods: [{ ...validFood, confidence: 1.4 }, { ...validFood, confidence: -0.2 }]
+  }));
+
+  assert.deepStrictEqual(data.foods.map(f => f.confidence), [1, 0]);
+  assert.strictEqual(repairs.filter(r => r.type === 'clamped').length, 2);
+});
+
+test('parseNutritionResponse - recomputes totals that disagree with foods', () => {
+  const { data, repairs } = parseNutritionResponse(JSON.stringify({
+    foods: [validFood, validFood],
+    totals: { calories: 500, protein: 12, carbs: 1, fat: 10, fiber: 0, sugar: 0.4 }
+  }));
+
+  assert.strictEqual(data.totals.calories, 140);
+  assert.ok(repairs.some(r => r.type === 'recomputed_totals' && r.detail.includes('calories')));
+});
+
+test('parseNutritionResponse - keeps totals within rounding tolerance', () => {
+  const { data, repairs } = parseNutritionResponse(JSON.stringify({
+    foods: [validFood],
+    totals: { calories: 70.5, protein: 6, carbs: 0.5, fat: 5, fiber: 0, sugar: 0.2 }
+  }));
+
+  assert.strictEqual(data.totals.calories, 70.5);
+  assert.strictEqual(repairs.length, 0);
+});
+
+test('parseNutritionResponse - keeps reported micronutrients and totals them', () => {
+  const { data } = parseNutritionResponse(JSON.stringify({
+    foods: [
+      { ...validFood, nutrition: { ...validFood.nutrition, sodium: '70 mg', cholesterol: 186, vitaminD: '1.1 mcg' } },
+      { ...validFood, nutrition: { ...validFood.nutrition, sodium: 70 } }
+    ]
+  }));
+
+  assert.strictEqual(data.foods[0].nutrition.vitaminD, 1.1);
+  assert.strictEqual(data.foods[1].nutrition.cholesterol, undefined);
+  assert.strictEqual(data.totals.sodium, 140);
+  assert.strictEqual(data.totals.cholesterol, 186);
+  assert.strictEqual(data.totals.potassium, undefined);
+});
+
+test('parseNutritionResponse - extracts JSON surrounded by prose', () => {
+  const text = `Here is the analysis:\n${JSON.stringify({ foods: [validFood] })}\nEnjoy!`;
+  assert.strictEqual(parseNutritionResponse(text).data.foods[0].name, 'Egg');
+});
+
+test('parseLabelResponse - scales per-serving label values by servings consumed', () => {
+  const { data, repairs } = parseLabelResponse(JSON.stringify({
+    labelFound: true,
+    productName: 'Oat Bar',
+    servingSize: '1 bar (40 g)',
+    servingsPerContainer: 6,
+    perServing: { calories: 190, protein: 4, carbs: 27, fat: 7, fiber: 3, sugar: '11g', sodium: 95 },
+    confidence: 0.99
+  }), 1.5);
+
+  assert.strictEqual(data.foods.length, 1);
+  assert.strictEqual(data.foods[0].name, 'Oat Bar');
+  assert.strictEqual(data.foods[0].portion, '1.5 × 1 bar (40 g)');
+  assert.strictEqual(data.foods[0].confidence, 0.99);
+  assert.deepStrictEqual(data.totals, { calories: 285, protein: 6, carbs: 40.5, fat: 10.5, fiber: 4.5, sugar: 16.5, sodium: 142.5 });
+  assert.strictEqual(data.label.perServing.calories, 190);
+  assert.strictEqual(data.label.servingsConsumed, 1.5);
+  assert.ok(repairs.some(r => r.type === 'coerced' && r.path === 'perServing.sugar'));
+});
+
+test('parseLabelResponse - defaults missing fields and reports missing labels', () => {
+  const { data, repairs } = parseLabelResponse(JSON.stringify({
+    perServing: { calories: 50, protein: 1, carbs: 12, fat: 0 }
+  }));
+
+  assert.strictEqual(data.foods[0].name, 'Packaged food');
+  assert.strictEqual(data.label.servingSize, '1 serving');
+  assert.strictEqual(data.totals.sodium, 0);
+  assert.strictEqual(data.foods[0].confidence, 0.95);
+  assert.ok(repairs.some(r => r.path === 'confidence'));
+
+  assert.throws(() => parseLabelResponse('{"labelFound": false}'), LabelNotFoundError);
+  assert.throws(() => parseLabelResponse('{"labelFound": true}'), NutritionValidationError);
+});
+
+test('runAnalysis - re-prompts after malformed output and records the repair', async () => {
+  const analyzer = new ScriptedAnalyzer(['not json at all', JSON.stringify({ foods: [validFood] })]);
+
+  const result = await runAnalysis(analyzer, 'PROMPT', [], 3);
+
+  assert.strictEqual(result.attempts, 2);
+  assert.strictEqual(result.repairs[0].type, 'reprompt');
+  assert.ok(analyzer.prompts[1].startsWith('PROMPT'));
+  assert.ok(analyzer.prompts[1].includes('not json at all'));
+});
+
+test('runAnalysis - gives up after the attempt limit', async () => {
+  const analyzer = new ScriptedAnalyzer(['{"foods": "nope"}']);
+
+  await assert.rejects(runAnalysis(analyzer, 'PROMPT', [], 2), (error: unknown) => {
+    assert.ok(error instanceof AnalysisParseError);
+    assert.strictEqual(error.attempts, 2);
+    return true;
+  });
+  assert.strictEqual(analyzer.prompts.length, 2);
+});
+
+test('createNutritionPrompt - asks for one consolidated result across several images', () => {
+  const single = createNutritionPrompt();
+  const multi = createNutritionPrompt(3);
+
+  assert.ok(single.startsWith('Analyze this food image'));
+  assert.ok(multi.startsWith('Analyze these 3 images of a single meal'));
+  assert.ok(multi.includes('Do not count an item twice'));
+  assert.ok(multi.includes('nutrition label'));
+});
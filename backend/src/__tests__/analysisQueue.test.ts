@@ -0,0 +1,188 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { AnalysisQueue, isValidWebhookUrl, isPrivateAddress, isPublicWebhookUrl } from '../services/analysisQueue.js';
+import type { AnalyzeResponse } from '../services/analysisPipeline.js';
+
+const result: AnalyzeResponse = {
+  foods: [],
+  totals: { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sugar: 0 },
+  timestamp: new Date().toISOString()
+};
+
+const input = { userId: 'user-1', images: [{ data: Buffer.from('img'), mimeType: 'image/jpeg' }] };
+
+test('AnalysisQueue - completes a job', async () => {
+  const queue = new AnalysisQueue({ processor: async () => result });
+
+  const job = queue.enqueue(input);
+  await queue.onIdle();
+
+  const finished = queue.getJob(job.id)!;
+  assert.strictEqual(finished.status, 'completed');
+  assert.strictEqual(finished.attempts, 1);
+  assert.deepStrictEqual(finished.result, result);
+});
+
+test('AnalysisQueue - retries overloaded and quota errors with backoff', async () => {
+  const failures = [new Error('503 Service Unavailable: model is overloaded'), new Error('429 Too Many Requests')];
+  const queue = new AnalysisQueue({
+    retryDelayMs: 1,
+    processor: async () => {
+      const failure = failures.shift();
+      if (failure) throw failure;
+      return result;
+    }
+  });
+
+  const job = queue.enqueue(input);
+  await queue.onIdle();
+
+  const finished = queue.getJob(job.id)!;
+  assert.strictEqual(finished.status, 'completed');
+  assert.strictEqual(finished.attempts, 3);
+  assert.strictEqual(finished.error, null);
+});
+
+test('AnalysisQueue - discards a user\'s jobs and waits for the running one', async () => {
+  let finishRunning: () => void = () => {};
+  const processed: string[] = [];
+  const queue = new AnalysisQueue({
+    concurrency: 1,
+    processor: async job => {
+      processed.push(job.userId!);
+      if (processed.length === 1) await new Promise<void>(resolve => { finishRunning = resolve; });
+      return result;
+    }
+  });
+
+  const running = queue.enqueue(input);
+  const queued = queue.enqueue(input);
+  const other = queue.enqueue({ ...input, userId: 'user-2' });
+
+  let discarded = false;
+  const discarding = queue.discardUserJobs('user-1').then(() => { discarded = true; });
+  await new Promise(resolve => setImmediate(resolve));
+  assert.strictEqual(discarded, false);
+
+  finishRunning();
+  await discarding;
+  await queue.onIdle();
+
+  assert.deepStrictEqual(processed, ['user-1', 'user-2']);
+  assert.strictEqual(queue.getJob(running.id), null);
+  assert.strictEqual(queue.getJob(queued.id), null);
+  assert.strictEqual(queue.getJob(other.id)?.status, 'completed');
+});
+
+test('AnalysisQueue - gives up after max attempts', async () => {
+  const queue = new AnalysisQueue({
+    retryDelayMs: 1,
+    maxAttempts: 2,
+    processor: async () => { throw new Error('503 overloaded'); }
+  });
+
+  const job = queue.enqueue(input);
+  await queue.onIdle();
+
+  const finished = queue.getJob(job.id)!;
+  assert.strictEqual(finished.status, 'failed');
+  assert.strictEqual(finished.attempts, 2);
+  assert.strictEqual(finished.error?.code, 'MODEL_OVERLOADED');
+});
+
+test('AnalysisQueue - does not retry non-transient errors', async () => {
+  const queue = new AnalysisQueue({
+    retryDelayMs: 1,
+    processor: async () => { throw new Error('something broke'); }
+  });
+
+  const job = queue.enqueue(input);
+  await queue.onIdle();
+
+  const finished = queue.getJob(job.id)!;
+  assert.strictEqual(finished.status, 'failed');
+  assert.strictEqual(finished.attempts, 1);
+  assert.strictEqual(finished.error?.error, 'Analysis failed - please try again');
+});
+
+test('AnalysisQueue - posts the outcome to the webhook', async () => {
+  const received: any[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push(JSON.parse(body));
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const queue = new AnalysisQueue({ processor: async () => result, webhookAllowedHosts: ['127.0.0.1'] });
+    const job = queue.enqueue({ ...input, webhookUrl: `http://127.0.0.1:${port}/hook` });
+    await queue.onIdle();
+
+    assert.strictEqual(received.length, 1);
+    assert.strictEqual(received[0].jobId, job.id);
+    assert.strictEqual(received[0].status, 'completed');
+  } finally {
+    server.close();
+  }
+});
+
+test('AnalysisQueue - does not deliver to private hosts and frees the slot for slow webhooks', async () => {
+  const hung: any[] = [];
+  const server = createServer(req => { hung.push(req); });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    // Without the allow-list a loopback webhook is never called
+    const strict = new AnalysisQueue({ processor: async () => result });
+    strict.enqueue({ ...input, webhookUrl: `http://127.0.0.1:${port}/hook` });
+    await strict.onIdle();
+    assert.strictEqual(hung.length, 0);
+
+    // A receiver that never answers doesn't hold up the next job, and delivery times out
+    const processed: number[] = [];
+    const queue = new AnalysisQueue({
+      concurrency: 1,
+      webhookTimeoutMs: 100,
+      webhookAllowedHosts: ['127.0.0.1'],
+      processor: async () => { processed.push(Date.now()); return result; }
+    });
+    queue.enqueue({ ...input, webhookUrl: `http://127.0.0.1:${port}/hook` });
+    const second = queue.enqueue(input);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.strictEqual(queue.getJob(second.id)?.status, 'completed');
+
+    await queue.onIdle();
+    assert.strictEqual(hung.length, 1);
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+});
+
+test('isPrivateAddress - flags loopback, private, link-local and mapped addresses', async () => {
+  for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+    assert.strictEqual(isPrivateAddress(address), true, address);
+  }
+  for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700::1111', '::ffff:8.8.8.8']) {
+    assert.strictEqual(isPrivateAddress(address), false, address);
+  }
+
+  assert.strictEqual(await isPublicWebhookUrl('http://169.254.169.254/latest/meta-data'), false);
+  assert.strictEqual(await isPublicWebhookUrl('http://localhost:3000/hook'), false);
+  assert.strictEqual(await isPublicWebhookUrl('http://8.8.8.8/hook'), true);
+  assert.strictEqual(await isPublicWebhookUrl('http://127.0.0.1/hook', ['127.0.0.1']), true);
+});
+
+test('isValidWebhookUrl - only accepts http(s) URLs', () => {
+  assert.strictEqual(isValidWebhookUrl('https://example.com/hook'), true);
+  assert.strictEqual(isValidWebhookUrl('file:///etc/passwd'), false);
+  assert.strictEqual(isValidWebhookUrl('not a url'), false);
+});
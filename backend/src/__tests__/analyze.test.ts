@@ -1,9 +1,44 @@
-import { test } from 'node:test';
+import { test, beforeEach } from 'node:test';
 import assert from 'node:assert';
 import Fastify from 'fastify';
 import cors from '@fastify/cors';
 import multipart from '@fastify/multipart';
+import sharp from 'sharp';
 import { analyzeRoutes } from '../routes/analyze.js';
+import { setDb } from '../services/database.js';
+import { InMemoryDatabase } from '../services/memoryDatabase.js';
+import { generateToken } from '../services/auth.js';
+import { AnalysisQueue, getAnalysisQueue, setAnalysisQueue } from '../services/analysisQueue.js';
+
+let db: InMemoryDatabase;
+
+beforeEach(() => {
+  db = new InMemoryDatabase();
+  setDb(db);
+  setAnalysisQueue(new AnalysisQueue({ retryDelayMs: 1 }));
+});
+
+async function buildServer() {
+  const server = Fastify();
+  await server.register(cors);
+  await server.register(multipart);
+  await server.register(analyzeRoutes);
+  return server;
+}
+
+function imageForm(model?: string, images: Buffer[] = [Buffer.from('fake-jpeg')]) {
+  const form = new FormData();
+  images.forEach((image, index) => {
+    form.append('image', new Blob([new Uint8Array(image)], { type: 'image/jpeg' }), `meal-${index}.jpg`);
+  });
+  if (model) form.append('model', model);
+  return form;
+}
+
+// A real JPEG so thumbnails can be generated
+function solidJpeg(color: string) {
+  return sharp({ create: { width: 16, height: 16, channels: 3, background: color } }).jpeg().toBuffer();
+}
 
 test('POST /api/analyze - missing file', async () => {
   const server = Fastify();
@@ -29,7 +64,7 @@ test('POST /api/analyze - invalid file type', async () => {
 
   const form = new FormData();
   const blob = new Blob(['test'], { type: 'text/plain' });
-  form.append('file', blob, 'test.txt');
+  form.append('image', blob, 'test.txt');
 
   const response = await server.inject({
     method: 'POST',
@@ -53,7 +88,7 @@ test('POST /api/analyze - file too large', async () => {
   const largeBuffer = Buffer.alloc(6 * 1024 * 1024);
   const form = new FormData();
   const blob = new Blob([largeBuffer], { type: 'image/jpeg' });
-  form.append('file', blob, 'large.jpg');
+  form.append('image', blob, 'large.jpg');
 
   const response = await server.inject({
     method: 'POST',
@@ -65,3 +100,217 @@ test('POST /api/analyze - file too large', async () => {
   // Should fail due to Fastify multipart limits or our validation
   assert.ok(response.statusCode >= 400);
 });
+
+test('POST /api/analyze - stub provider returns fixture nutrition data', async () => {
+  const server = await buildServer();
+
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/analyze',
+    payload: imageForm('stub')
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  const body = JSON.parse(response.body);
+  assert.strictEqual(body.foods.length, 2);
+  assert.strictEqual(body.totals.calories, 335);
+  assert.strictEqual(body.id, undefined);
+});
+
+test('POST /api/analyze - stub output wrapped in code fences is parsed', async () => {
+  const server = await buildServer();
+
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/analyze',
+    payload: imageForm('stub:fenced')
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.strictEqual(JSON.parse(response.body).foods[0].name, 'Banana');
+});
+
+test('POST /api/analyze - saves analysis for authenticated users', async () => {
+  const server = await buildServer();
+  const token = generateToken({ userId: 'user-1', email: 'user@example.com' });
+
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/analyze',
+    payload: imageForm('stub'),
+    headers: { authorization: `Bearer ${token}` }
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  const body = JSON.parse(response.body);
+  const meals = await db.findMealAnalysesByUserId('user-1');
+  assert.strictEqual(meals.length, 1);
+  assert.strictEqual(meals[0].id, body.id);
+  assert.strictEqual(meals[0].nutritionData.parsing.provider, 'stub');
+  assert.strictEqual(meals[0].nutritionData.parsing.attempts, 1);
+});
+
+test('POST /api/analyze - several images produce one meal with every thumbnail', async () => {
+  const server = await buildServer();
+  const token = generateToken({ userId: 'user-1', email: 'user@example.com' });
+  const images = await Promise.all([solidJpeg('#ff0000'), solidJpeg('#00ff00')]);
+
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/analyze',
+    payload: imageForm('stub', images),
+    headers: { authorization: `Bearer ${token}` }
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.strictEqual(JSON.parse(response.body).totals.calories, 335);
+  const meals = await db.findMealAnalysesByUserId('user-1');
+  assert.strictEqual(meals.length, 1);
+  assert.strictEqual(meals[0].thumbnails.length, 2);
+  assert.ok(meals[0].thumbnails.every(thumbnail => thumbnail.startsWith('data:image/jpeg;base64,')));
+  assert.strictEqual(meals[0].thumbnail, meals[0].thumbnails[0]);
+});
+
+test('POST /api/analyze - too many images are rejected', async () => {
+  const server = await buildServer();
+  const images = Array.from({ length: 5 }, () => Buffer.from('fake-jpeg'));
+
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/analyze',
+    payload: imageForm('stub', images)
+  });
+
+  assert.strictEqual(response.statusCode, 400);
+  assert.strictEqual(JSON.parse(response.body).error, 'Too many images. Maximum is 4 per meal');
+});
+
+test('POST /api/analyze - label mode reads a nutrition label and scales by servings', async () => {
+  const server = await buildServer();
+  const token = generateToken({ userId: 'user-1', email: 'user@example.com' });
+  const form = imageForm('stub:label');
+  form.append('mode', 'label');
+  form.append('servings', '2');
+
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/analyze',
+    payload: form,
+    headers: { authorization: `Bearer ${token}` }
+  });
+
+  assert.strictEqual(response.statusCode, 200);
+  const body = JSON.parse(response.body);
+  assert.strictEqual(body.foods[0].name, 'Plain Greek Yogurt');
+  assert.strictEqual(body.foods[0].portion, '2 × 170 g');
+  assert.strictEqual(body.totals.calories, 200);
+  assert.strictEqual(body.totals.sodium, 130);
+  assert.strictEqual(body.label.perServing.protein, 17);
+
+  const [meal] = await db.findMealAnalysesByUserId('user-1');
+  assert.strictEqual(meal.nutritionData.parsing.mode, 'label');
+  assert.strictEqual(meal.nutritionData.totals.protein, 34);
+});
+
+test('POST /api/analyze - label mode without a readable label returns 422', async () => {
+  const server = await buildServer();
+  const form = imageForm('stub:nolabel');
+  form.append('mode', 'label');
+
+  const response = await server.inject({ method: 'POST', url: '/api/analyze', payload: form });
+
+  assert.strictEqual(response.statusCode, 422);
+  assert.strictEqual(JSON.parse(response.body).code, 'LABEL_NOT_FOUND');
+});
+
+test('POST /api/analyze - invalid mode and servings are rejected', async () => {
+  const server = await buildServer();
+
+  const badMode = imageForm('stub');
+  badMode.append('mode', 'receipt');
+  assert.strictEqual((await server.inject({ method: 'POST', url: '/api/analyze', payload: badMode })).statusCode, 400);
+
+  const badServings = imageForm('stub:label');
+  badServings.append('mode', 'label');
+  badServings.append('servings', '-1');
+  assert.strictEqual((await server.inject({ method: 'POST', url: '/api/analyze', payload: badServings })).statusCode, 400);
+});
+
+test('POST /api/analyze - unusable model output fails after repair attempts', async () => {
+  const server = await buildServer();
+
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/analyze',
+    payload: imageForm('stub:malformed')
+  });
+
+  assert.strictEqual(response.statusCode, 500);
+  assert.strictEqual(JSON.parse(response.body).error, 'Failed to analyze image - unable to parse nutrition data');
+});
+
+test('POST /api/analyze - unknown provider is rejected', async () => {
+  const server = await buildServer();
+
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/analyze',
+    payload: imageForm('nope:model')
+  });
+
+  assert.strictEqual(response.statusCode, 400);
+  assert.strictEqual(JSON.parse(response.body).code, 'UNKNOWN_MODEL_PROVIDER');
+});
+
+test('POST /api/analyze?async=true - returns a job that can be polled', async () => {
+  const server = await buildServer();
+  const token = generateToken({ userId: 'user-1', email: 'user@example.com' });
+  const headers = { authorization: `Bearer ${token}` };
+
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/analyze?async=true',
+    payload: imageForm('stub'),
+    headers
+  });
+
+  assert.strictEqual(response.statusCode, 202);
+  const { jobId, statusUrl } = JSON.parse(response.body);
+
+  await getAnalysisQueue().onIdle();
+
+  const poll = await server.inject({ method: 'GET', url: statusUrl, headers });
+  assert.strictEqual(poll.statusCode, 200);
+  const job = JSON.parse(poll.body);
+  assert.strictEqual(job.jobId, jobId);
+  assert.strictEqual(job.status, 'completed');
+  assert.strictEqual(job.result.totals.calories, 335);
+  assert.strictEqual((await db.findMealAnalysesByUserId('user-1'))[0].id, job.result.id);
+
+  // Other users cannot see the job
+  const otherToken = generateToken({ userId: 'user-2', email: 'other@example.com' });
+  const denied = await server.inject({ method: 'GET', url: statusUrl, headers: { authorization: `Bearer ${otherToken}` } });
+  assert.strictEqual(denied.statusCode, 404);
+});
+
+test('POST /api/analyze - async field with invalid webhook is rejected', async () => {
+  const server = await buildServer();
+  const token = generateToken({ userId: 'user-1', email: 'user@example.com' });
+  const headers = { authorization: `Bearer ${token}` };
+
+  function webhookForm(webhookUrl: string) {
+    const form = imageForm('stub');
+    form.append('async', 'true');
+    form.append('webhookUrl', webhookUrl);
+    return form;
+  }
+
+  for (const webhookUrl of ['ftp://example.com', 'http://169.254.169.254/latest/meta-data', 'http://127.0.0.1:8080/hook', 'http://[::1]/hook']) {
+    const response = await server.inject({ method: 'POST', url: '/api/analyze', headers, payload: webhookForm(webhookUrl) });
+    assert.strictEqual(response.statusCode, 400, webhookUrl);
+  }
+
+  // Guests can't register webhooks
+  const guest = await server.inject({ method: 'POST', url: '/api/analyze', payload: webhookForm('https://example.com/hook') });
+  assert.strictEqual(guest.statusCode, 401);
+});
@@ -0,0 +1,145 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import Fastify from 'fastify';
+import jwt from 'jsonwebtoken';
+import { authRoutes } from '../routes/auth.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { setDb } from '../services/database.js';
+import { InMemoryDatabase } from '../services/memoryDatabase.js';
+import { resolveJwtSecret, deleteExpiredRefreshTokens } from '../services/auth.js';
+
+let db: InMemoryDatabase;
+
+beforeEach(() => {
+  db = new InMemoryDatabase();
+  setDb(db);
+});
+
+afterEach(() => {
+  delete process.env.ACCESS_TOKEN_TTL_SECONDS;
+});
+
+async function buildServer() {
+  const server = Fastify();
+  await server.register(authRoutes);
+  server.get('/api/me', { preHandler: authMiddleware }, async request => request.user);
+  return server;
+}
+
+async function register(server: Awaited<ReturnType<typeof buildServer>>) {
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/auth/register',
+    payload: { email: 'user@example.com', password: 'password123', name: 'User' }
+  });
+  assert.strictEqual(response.statusCode, 201);
+  return response.json();
+}
+
+function refresh(server: Awaited<ReturnType<typeof buildServer>>, refreshToken: string) {
+  return server.inject({ method: 'POST', url: '/api/auth/refresh', payload: { refreshToken } });
+}
+
+test('POST /api/auth/register and login - return an access token and a refresh token', async () => {
+  process.env.ACCESS_TOKEN_TTL_SECONDS = '600';
+  const server = await buildServer();
+  const registered = await register(server);
+
+  assert.strictEqual(registered.expiresIn, 600);
+  assert.strictEqual(typeof registered.refreshToken, 'string');
+  const { exp, iat } = jwt.decode(registered.token) as { exp: number; iat: number };
+  assert.strictEqual(exp - iat, 600);
+
+  const login = await server.inject({
+    method: 'POST',
+    url: '/api/auth/login',
+    payload: { email: 'user@example.com', password: 'password123' }
+  });
+  assert.strictEqual(login.statusCode, 200);
+  assert.notStrictEqual(login.json().refreshToken, registered.refreshToken);
+
+  const me = await server.inject({ method: 'GET', url: '/api/me', headers: { authorization: `Bearer ${login.json().token}` } });
+  assert.strictEqual(me.json().email, 'user@example.com');
+});
+
+test('POST /api/auth/refresh - rotates the refresh token', async () => {
+  const server = await buildServer();
+  const { refreshToken } = await register(server);
+
+  const response = await refresh(server, refreshToken);
+  assert.strictEqual(response.statusCode, 200);
+  const session = response.json();
+  assert.ok(session.token);
+  assert.notStrictEqual(session.refreshToken, refreshToken);
+
+  const me = await server.inject({ method: 'GET', url: '/api/me', headers: { authorization: `Bearer ${session.token}` } });
+  assert.strictEqual(me.statusCode, 200);
+
+  assert.strictEqual((await refresh(server, session.refreshToken)).statusCode, 200);
+  assert.strictEqual((await refresh(server, 'not-a-token')).statusCode, 401);
+  assert.strictEqual((await server.inject({ method: 'POST', url: '/api/auth/refresh', payload: {} })).statusCode, 400);
+});
+
+test('POST /api/auth/refresh - reusing a rotated token revokes every session', async () => {
+  const server = await buildServer();
+  const { refreshToken } = await register(server);
+
+  const rotated = (await refresh(server, refreshToken)).json();
+  assert.strictEqual((await refresh(server, refreshToken)).statusCode, 401);
+
+  // The legitimate holder's newer token is gone too
+  assert.strictEqual((await refresh(server, rotated.refreshToken)).statusCode, 401);
+});
+
+test('POST /api/auth/logout - revokes one session or all of them', async () => {
+  const server = await buildServer();
+  const first = await register(server);
+  const second = (await server.inject({
+    method: 'POST',
+    url: '/api/auth/login',
+    payload: { email: 'user@example.com', password: 'password123' }
+  })).json();
+
+  const logout = await server.inject({ method: 'POST', url: '/api/auth/logout', payload: { refreshToken: first.refreshToken } });
+  assert.strictEqual(logout.statusCode, 200);
+  assert.strictEqual((await refresh(server, first.refreshToken)).statusCode, 401);
+
+  // Logging out again is harmless
+  const again = await server.inject({ method: 'POST', url: '/api/auth/logout', payload: { refreshToken: 'unknown' } });
+  assert.strictEqual(again.statusCode, 200);
+
+  const third = (await refresh(server, second.refreshToken)).json();
+  await server.inject({ method: 'POST', url: '/api/auth/logout', payload: { refreshToken: third.refreshToken, all: true } });
+  assert.strictEqual((await refresh(server, third.refreshToken)).statusCode, 401);
+  assert.strictEqual(await db.revokeRefreshTokensByUser(first.user.id), 0);
+});
+
+test('authMiddleware - answers an expired access token with 401', async () => {
+  const server = await buildServer();
+  const expired = jwt.sign({ userId: 'user-1', email: 'user@example.com', exp: Math.floor(Date.now() / 1000) - 10 }, resolveJwtSecret());
+
+  const response = await server.inject({ method: 'GET', url: '/api/me', headers: { authorization: `Bearer ${expired}` } });
+  assert.strictEqual(response.statusCode, 401);
+  assert.strictEqual(response.json().error, 'Token has expired');
+});
+
+test('deleteExpiredRefreshTokens - removes tokens past their expiry', async () => {
+  await db.createRefreshToken({ id: 'old', userId: 'user-1', expiresAt: new Date('2026-01-01T00:00:00Z') });
+  await db.createRefreshToken({ id: 'current', userId: 'user-1', expiresAt: new Date('2026-03-01T00:00:00Z') });
+
+  assert.strictEqual(await deleteExpiredRefreshTokens(new Date('2026-02-01T00:00:00Z')), 1);
+  assert.ok(await db.findRefreshToken('current'));
+});
+
+test('resolveJwtSecret - refuses missing or placeholder secrets in production', () => {
+  const secret = 'k3Yb0xH6q1Wc9sTfLr2MvN8pZa4Dg7Je';
+
+  assert.throws(() => resolveJwtSecret({ NODE_ENV: 'production' }), /JWT_SECRET/);
+  assert.throws(() => resolveJwtSecret({ NODE_ENV: 'production', JWT_SECRET: 'default-secret-key' }), /JWT_SECRET/);
+  assert.throws(() => resolveJwtSecret({ NODE_ENV: 'production', JWT_SECRET: 'your_jwt_secret_key_here' }), /JWT_SECRET/);
+  assert.throws(() => resolveJwtSecret({ NODE_ENV: 'production', JWT_SECRET: 'short' }), /at least 32/);
+  assert.strictEqual(resolveJwtSecret({ NODE_ENV: 'production', JWT_SECRET: secret }), secret);
+
+  // Development keeps working without configuration
+  assert.strictEqual(resolveJwtSecret({ NODE_ENV: 'development' }), 'default-secret-key');
+});
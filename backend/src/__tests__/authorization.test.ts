@@ -0,0 +1,173 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import Fastify from 'fastify';
+import { mealsRoutes } from '../routes/meals.js';
+import ketoneRoutes from '../routes/ketone.js';
+import profileRoutes from '../routes/profile.js';
+import progressRoutes from '../routes/progress.js';
+import { analyzeRoutes } from '../routes/analyze.js';
+import { setDb } from '../services/database.js';
+import type { UserProfile } from '../services/database.js';
+import { InMemoryDatabase } from '../services/memoryDatabase.js';
+import { AnalysisQueue, setAnalysisQueue } from '../services/analysisQueue.js';
+import { authorizeResource, canAccess, ResourceNotFoundError, AccessDeniedError } from '../services/authorization.js';
+import { generateToken } from '../services/auth.js';
+
+let db: InMemoryDatabase;
+let queue: AnalysisQueue;
+
+const profile: Omit<UserProfile, 'id' | 'createdAt' | 'updatedAt'> = {
+  userId: 'owner',
+  dietType: 'balanced',
+  dailyCalorieGoal: 2000,
+  dailyProteinGoal: 150,
+  dailyCarbsGoal: 200,
+  dailyFatGoal: 67,
+  dailyFiberGoal: null,
+  dailySugarLimit: null,
+  weight: null,
+  goalWeight: null,
+  height: null,
+  age: null,
+  gender: null,
+  activityLevel: null,
+  dietaryRestrictions: [],
+  micronutrientLimits: {},
+  timezone: 'UTC'
+};
+
+beforeEach(async () => {
+  db = new InMemoryDatabase();
+  setDb(db);
+  // Jobs stay queued: the processor never settles
+  queue = new AnalysisQueue({ processor: () => new Promise(() => {}) });
+  setAnalysisQueue(queue);
+  await db.createUserProfile(profile);
+});
+
+afterEach(() => {
+  queue.stop();
+  setAnalysisQueue(null);
+});
+
+async function buildServer() {
+  const server = Fastify();
+  await server.register(mealsRoutes);
+  await server.register(ketoneRoutes);
+  await server.register(profileRoutes);
+  await server.register(progressRoutes);
+  await server.register(analyzeRoutes);
+  return server;
+}
+
+const owner = { authorization: `Bearer ${generateToken({ userId: 'owner', email: 'owner@example.com' })}` };
+const intruder = { authorization: `Bearer ${generateToken({ userId: 'intruder', email: 'intruder@example.com' })}` };
+
+async function createMeal() {
+  return db.createMealAnalysis({
+    userId: 'owner',
+    imageUrl: '',
+    nutritionData: { foods: [], totals: { calories: 500, protein: 30, carbs: 40, fat: 20 } }
+  });
+}
+
+test('meals - another user can\'t read, edit or delete a meal', async () => {
+  const server = await buildServer();
+  const meal = await createMeal();
+  const url = `/api/meals/${meal.id}`;
+
+  const read = await server.inject({ method: 'GET', url, headers: intruder });
+  assert.strictEqual(read.statusCode, 403);
+  assert.deepStrictEqual(read.json(), { error: 'Access denied' });
+
+  const edit = await server.inject({ method: 'PUT', url, headers: intruder, payload: { mealType: 'dinner' } });
+  assert.strictEqual(edit.statusCode, 403);
+
+  const remove = await server.inject({ method: 'DELETE', url, headers: intruder });
+  assert.strictEqual(remove.statusCode, 403);
+
+  const stored = await db.findMealAnalysisById(meal.id);
+  assert.ok(stored);
+  assert.strictEqual(stored.mealType, null);
+
+  const own = await server.inject({ method: 'GET', url, headers: owner });
+  assert.strictEqual(own.statusCode, 200);
+  assert.strictEqual(own.json().id, meal.id);
+
+  const missing = await server.inject({ method: 'GET', url: '/api/meals/unknown', headers: owner });
+  assert.strictEqual(missing.statusCode, 404);
+  assert.deepStrictEqual(missing.json(), { error: 'Meal not found' });
+});
+
+test('DELETE /api/ketone/:id - only deletes the caller\'s own logs', async () => {
+  const server = await buildServer();
+  const log = await db.createKetoneLog({ userId: 'owner', timestamp: new Date(), ketoneLevel: 1.4, measurementType: 'blood', notes: null });
+
+  const refused = await server.inject({ method: 'DELETE', url: `/api/ketone/${log.id}`, headers: intruder });
+  assert.strictEqual(refused.statusCode, 403);
+  assert.ok(await db.findKetoneLogById(log.id));
+
+  const missing = await server.inject({ method: 'DELETE', url: '/api/ketone/unknown', headers: owner });
+  assert.strictEqual(missing.statusCode, 404);
+
+  const deleted = await server.inject({ method: 'DELETE', url: `/api/ketone/${log.id}`, headers: owner });
+  assert.strictEqual(deleted.statusCode, 200);
+  assert.strictEqual(await db.findKetoneLogById(log.id), null);
+});
+
+test('GET /api/analyze/jobs/:id - hides a user\'s jobs from everyone else', async () => {
+  const server = await buildServer();
+  const images = [{ data: Buffer.from('img'), mimeType: 'image/jpeg' }];
+  const job = queue.enqueue({ userId: 'owner', images });
+  const guestJob = queue.enqueue({ userId: null, images });
+
+  for (const headers of [intruder, {}]) {
+    const hidden = await server.inject({ method: 'GET', url: `/api/analyze/jobs/${job.id}`, headers });
+    assert.strictEqual(hidden.statusCode, 404);
+    assert.deepStrictEqual(hidden.json(), { error: 'Job not found' });
+  }
+
+  const own = await server.inject({ method: 'GET', url: `/api/analyze/jobs/${job.id}`, headers: owner });
+  assert.strictEqual(own.statusCode, 200);
+
+  const guest = await server.inject({ method: 'GET', url: `/api/analyze/jobs/${guestJob.id}` });
+  assert.strictEqual(guest.statusCode, 200);
+});
+
+test('profile and progress - are scoped to the caller whatever the request says', async () => {
+  const server = await buildServer();
+
+  const spoofed = await server.inject({
+    method: 'POST',
+    url: '/api/profile',
+    headers: intruder,
+    payload: { userId: 'owner', dailyCalorieGoal: 1200 }
+  });
+  assert.strictEqual(spoofed.statusCode, 200);
+  assert.strictEqual(spoofed.json().profile.userId, 'intruder');
+  assert.strictEqual((await db.findUserProfileByUserId('owner'))?.dailyCalorieGoal, 2000);
+
+  const own = await server.inject({ method: 'GET', url: '/api/profile?userId=owner', headers: intruder });
+  assert.strictEqual(own.json().profile.dailyCalorieGoal, 1200);
+
+  await createMeal();
+  const ownerProgress = await server.inject({ method: 'GET', url: '/api/progress/today', headers: owner });
+  const intruderProgress = await server.inject({ method: 'GET', url: '/api/progress/today?userId=owner', headers: intruder });
+  assert.strictEqual(ownerProgress.statusCode, 200);
+  assert.strictEqual(intruderProgress.statusCode, 200);
+  assert.notStrictEqual(ownerProgress.json().progress.totalCalories, intruderProgress.json().progress.totalCalories);
+});
+
+test('authorizeResource - refuses other users and guests, allows guest-owned jobs', async () => {
+  const meal = await createMeal();
+
+  assert.strictEqual((await authorizeResource('meal', meal.id, { userId: 'owner' })).id, meal.id);
+  await assert.rejects(authorizeResource('meal', meal.id, { userId: 'intruder' }), AccessDeniedError);
+  await assert.rejects(authorizeResource('meal', meal.id, undefined), AccessDeniedError);
+  await assert.rejects(authorizeResource('meal', 'unknown', { userId: 'owner' }), ResourceNotFoundError);
+
+  const guestJob = queue.enqueue({ userId: null, images: [] });
+  assert.ok(canAccess('analysisJob', guestJob, undefined));
+  assert.ok(canAccess('analysisJob', guestJob, { userId: 'intruder' }));
+  assert.strictEqual(canAccess('meal', { ...meal, userId: null as unknown as string }, undefined), false);
+});
@@ -0,0 +1,130 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import Fastify from 'fastify';
+import profileRoutes from '../routes/profile.js';
+import { setDb } from '../services/database.js';
+import { InMemoryDatabase } from '../services/memoryDatabase.js';
+import { DIET_TEMPLATES } from '../services/dietCompliance.js';
+import { calculateCalorieTargets, calculateBmr, CalorieTargetError } from '../services/calorieTargets.js';
+import type { CalorieTargetInput } from '../services/calorieTargets.js';
+
+const base: CalorieTargetInput = {
+  weight: 80,
+  height: 180,
+  age: 30,
+  gender: 'male',
+  activityLevel: 'moderate',
+  formula: 'mifflin-st-jeor',
+  bodyFat: 20
+};
+
+async function buildServer() {
+  setDb(new InMemoryDatabase());
+  const server = Fastify();
+  await server.register(profileRoutes);
+  return server;
+}
+
+test('calculateCalorieTargets - deficit from the rate and protein from lean mass', () => {
+  const targets = calculateCalorieTargets({ ...base, weeklyRate: -0.5 }, DIET_TEMPLATES.balanced);
+
+  // 10 × 80 + 6.25 × 180 − 5 × 30 + 5
+  assert.strictEqual(targets.bmr, 1780);
+  assert.strictEqual(targets.tdee, 2759);
+  assert.strictEqual(targets.dailyAdjustment, -550);
+  assert.strictEqual(targets.leanMass, 64);
+  assert.deepStrictEqual(
+    { calories: targets.goals.calories, protein: targets.goals.protein, fat: targets.goals.fat, carbs: targets.goals.carbs },
+    { calories: 2210, protein: 128, fat: 71, carbs: 265 }
+  );
+  assert.deepStrictEqual(targets.steps.map(step => step.key), ['leanMass', 'bmr', 'tdee', 'adjustment', 'calories', 'protein', 'fat', 'carbs']);
+  assert.match(targets.steps[1].explanation, /Mifflin-St Jeor: 10 × 80 kg \+ 6\.25 × 180 cm − 5 × 30 \+ 5 = 1780 kcal/);
+  assert.deepStrictEqual(targets.warnings, []);
+});
+
+test('calculateBmr - formulas, and a midpoint when gender is unspecified', () => {
+  const metrics = { weight: 80, height: 180, age: 30, leanMass: 64 };
+
+  assert.strictEqual(calculateBmr('mifflin-st-jeor', { ...metrics, gender: 'female' }).bmr, 1614);
+  assert.strictEqual(calculateBmr('mifflin-st-jeor', { ...metrics, gender: 'other' }).bmr, 1697);
+  assert.strictEqual(calculateBmr('harris-benedict', { ...metrics, gender: 'male' }).bmr, 1854);
+  // 370 + 21.6 × 64, whatever the gender
+  assert.strictEqual(calculateBmr('katch-mcardle', { ...metrics, gender: 'female' }).bmr, 1752);
+  assert.strictEqual(calculateBmr('katch-mcardle', { ...metrics, gender: 'male' }).bmr, 1752);
+});
+
+test('calculateCalorieTargets - Katch-McArdle needs body fat', () => {
+  assert.throws(
+    () => calculateCalorieTargets({ ...base, formula: 'katch-mcardle', bodyFat: null }, DIET_TEMPLATES.balanced),
+    CalorieTargetError
+  );
+});
+
+test('calculateCalorieTargets - safety floors slow aggressive rates', () => {
+  const small: CalorieTargetInput = {
+    weight: 50, height: 155, age: 60, gender: 'female', activityLevel: 'sedentary', formula: 'mifflin-st-jeor', weeklyRate: -1
+  };
+  const targets = calculateCalorieTargets(small, DIET_TEMPLATES.balanced);
+
+  assert.strictEqual(targets.goals.calories, 1200);
+  assert.ok(targets.weeklyRate > -0.5, `rate ${targets.weeklyRate}`);
+  assert.strictEqual(targets.warnings.length, 2);
+  assert.match(targets.warnings[0], /slowed to 0\.5 kg, 1% of body weight/);
+  assert.match(targets.steps.find(step => step.key === 'calories')!.explanation, /1200 kcal minimum/);
+
+  // Fat never drops under 0.6 g per kg of body weight, even on a high-carb split
+  assert.ok(targets.goals.fat >= 30);
+});
+
+test('calculateCalorieTargets - keeps the diet\'s carb-to-fat balance', () => {
+  const keto = calculateCalorieTargets(base, DIET_TEMPLATES.keto);
+
+  assert.strictEqual(keto.dailyAdjustment, 0);
+  assert.ok(keto.goals.carbs < 50, `carbs ${keto.goals.carbs}`);
+  assert.ok(keto.goals.fat > keto.goals.carbs * 4);
+});
+
+test('POST /api/profile/calculate-goals - explains each step', async () => {
+  const server = await buildServer();
+
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/profile/calculate-goals',
+    payload: { ...base, dietType: 'balanced', weeklyRate: -0.5, proteinPerKgLeanMass: 2.2 }
+  });
+  assert.strictEqual(response.statusCode, 200);
+  const body = response.json();
+  assert.strictEqual(body.goals.calories, 2210);
+  assert.strictEqual(body.goals.protein, 141);
+  assert.strictEqual(body.formula, 'mifflin-st-jeor');
+  assert.strictEqual(body.steps.length, 8);
+  assert.strictEqual(body.template.name, 'Balanced');
+
+  // Older clients send no formula, rate or body fat
+  const legacy = await server.inject({
+    method: 'POST',
+    url: '/api/profile/calculate-goals',
+    payload: { weight: 80, height: 180, age: 30, gender: 'male', activityLevel: 'moderate', dietType: 'keto' }
+  });
+  assert.strictEqual(legacy.statusCode, 200);
+  assert.strictEqual(legacy.json().goals.calories, 2760);
+});
+
+test('POST /api/profile/calculate-goals - rejects invalid input', async () => {
+  const server = await buildServer();
+  const valid = { ...base, dietType: 'balanced' };
+
+  for (const payload of [
+    { ...valid, weight: undefined },
+    { ...valid, formula: 'cunningham' },
+    { ...valid, formula: 'katch-mcardle', bodyFat: null },
+    { ...valid, bodyFat: 90 },
+    { ...valid, weeklyRate: -2 },
+    { ...valid, proteinPerKgLeanMass: 5 },
+    { ...valid, gender: 'unknown' },
+    { ...valid, activityLevel: 'extreme' }
+  ]) {
+    const response = await server.inject({ method: 'POST', url: '/api/profile/calculate-goals', payload });
+    assert.strictEqual(response.statusCode, 400, JSON.stringify(payload));
+  }
+});
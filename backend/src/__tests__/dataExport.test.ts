@@ -0,0 +1,252 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import Fastify from 'fastify';
+import multipart from '@fastify/multipart';
+import { unzipSync, zipSync, strFromU8, strToU8 } from 'fflate';
+import { dataExportRoutes } from '../routes/dataExport.js';
+import { setDb } from '../services/database.js';
+import type { User } from '../services/database.js';
+import { InMemoryDatabase } from '../services/memoryDatabase.js';
+import { generateToken } from '../services/auth.js';
+import { formatCsvLine } from '../utils/csv.js';
+
+let db: InMemoryDatabase;
+let source: User;
+let target: User;
+
+const thumbnail = `data:image/jpeg;base64,${Buffer.from('fake-jpeg').toString('base64')}`;
+const eatenAt = new Date('2026-03-02T12:30:00.000Z');
+const day = new Date('2026-03-02T00:00:00.000Z');
+
+beforeEach(async () => {
+  db = new InMemoryDatabase();
+  setDb(db);
+  source = await db.createUser({ email: 'source@example.com', passwordHash: 'hash', name: 'Source' });
+  target = await db.createUser({ email: 'target@example.com', passwordHash: 'hash', name: 'Target' });
+
+  await db.createUserProfile({
+    userId: source.id,
+    dietType: 'keto',
+    dailyCalorieGoal: 1800,
+    dailyProteinGoal: 110,
+    dailyCarbsGoal: 25,
+    dailyFatGoal: 140,
+    dailyFiberGoal: 20,
+    dailySugarLimit: null,
+    weight: 80,
+    goalWeight: 75,
+    height: 180,
+    age: 35,
+    gender: 'male',
+    activityLevel: 'moderate',
+    dietaryRestrictions: ['gluten-free'],
+    micronutrientLimits: { sodium: 2300 },
+    timezone: 'UTC'
+  });
+  await db.createMealAnalysis({
+    userId: source.id,
+    imageUrl: '',
+    thumbnail,
+    thumbnails: [thumbnail],
+    nutritionData: {
+      foods: [{ name: 'Eggs, "scrambled"', portion: '3 eggs', nutrition: { calories: 300, protein: 20, carbs: 2, fat: 22 }, confidence: 0.9 }],
+      totals: { calories: 300, protein: 20, carbs: 2, fat: 22 }
+    },
+    mealType: 'lunch',
+    createdAt: eatenAt
+  });
+  await db.createOrUpdateDailyProgress({
+    userId: source.id, date: day, totalCalories: 300, totalProtein: 20, totalCarbs: 2, totalFat: 22, totalFiber: 0,
+    totalSugar: 1, totalMicronutrients: {}, mealCount: 1, goalCalories: 1800, goalProtein: 110, goalCarbs: 25, goalFat: 140,
+    goalFiber: 20, goalSugar: null, micronutrientLimits: { sodium: 2300 }, isOnTrack: true, carbsCompliance: 1,
+    proteinCompliance: 0.2, fatCompliance: 0.2, dietType: 'keto'
+  });
+  await db.createKetoneLog({ userId: source.id, timestamp: eatenAt, ketoneLevel: 1.4, measurementType: 'blood', notes: 'fasted' });
+  await db.createBodyMeasurement({ userId: source.id, measuredAt: eatenAt, weight: 79.5, waist: 88, bodyFat: null, notes: null });
+});
+
+async function buildServer() {
+  const server = Fastify();
+  await server.register(multipart);
+  await server.register(dataExportRoutes);
+  return server;
+}
+
+function authHeaders(user: User) {
+  return { authorization: `Bearer ${generateToken({ userId: user.id, email: user.email })}` };
+}
+
+async function exportArchive(server: Awaited<ReturnType<typeof buildServer>>, user: User): Promise<Buffer> {
+  const response = await server.inject({ method: 'GET', url: '/api/export', headers: authHeaders(user) });
+  assert.strictEqual(response.statusCode, 200);
+  return response.rawPayload;
+}
+
+function importArchive(server: Awaited<ReturnType<typeof buildServer>>, user: User, archive: Uint8Array) {
+  const form = new FormData();
+  form.append('archive', new Blob([new Uint8Array(archive)], { type: 'application/zip' }), 'export.zip');
+  return server.inject({ method: 'POST', url: '/api/import', headers: authHeaders(user), payload: form });
+}
+
+test('GET /api/export - zips meals with thumbnails, profile, progress, ketone logs and measurements as JSON and CSV', async () => {
+  const server = await buildServer();
+  const response = await server.inject({ method: 'GET', url: '/api/export', headers: authHeaders(source) });
+
+  assert.strictEqual(response.statusCode, 200);
+  assert.strictEqual(response.headers['content-type'], 'application/zip');
+  assert.match(String(response.headers['content-disposition']), /attachment; filename="nutritionai-export-\d{4}-\d{2}-\d{2}\.zip"/);
+
+  const files = unzipSync(new Uint8Array(response.rawPayload));
+  const [meal] = await db.findMealAnalysesByUserId(source.id);
+  assert.deepStrictEqual(Object.keys(files).sort(), [
+    'body-measurements.csv', 'body-measurements.json', 'daily-progress.csv', 'daily-progress.json', 'ketone-logs.csv', 'ketone-logs.json', 'manifest.json',
+    'meals.csv', 'meals.json', 'profile.csv', 'profile.json', `thumbnails/${meal.id}-1.jpg`
+  ]);
+
+  const manifest = JSON.parse(strFromU8(files['manifest.json']));
+  assert.strictEqual(manifest.format, 'nutritionai-export');
+  assert.deepStrictEqual(manifest.counts, { meals: 1, dailyProgress: 1, ketoneLogs: 1, bodyMeasurements: 1 });
+  assert.strictEqual(Buffer.from(files[`thumbnails/${meal.id}-1.jpg`]).toString(), 'fake-jpeg');
+
+  const meals = JSON.parse(strFromU8(files['meals.json']));
+  assert.strictEqual(meals[0].createdAt, eatenAt.toISOString());
+  assert.deepStrictEqual(meals[0].thumbnails, [`thumbnails/${meal.id}-1.jpg`]);
+  assert.ok(!('userId' in meals[0]));
+
+  const mealsCsv = strFromU8(files['meals.csv']).split('\r\n');
+  assert.strictEqual(mealsCsv[0], 'id,createdAt,mealType,calories,protein,carbs,fat,fiber,sugar,foods,thumbnails');
+  assert.strictEqual(mealsCsv[1], formatCsvLine([meal.id, eatenAt.toISOString(), 'lunch', 300, 20, 2, 22, 0, 0, 'Eggs, "scrambled"', `thumbnails/${meal.id}-1.jpg`]));
+  assert.match(strFromU8(files['daily-progress.csv']).split('\r\n')[1], /^2026-03-02,300,/);
+  assert.strictEqual(strFromU8(files['ketone-logs.csv']).split('\r\n')[1], `${eatenAt.toISOString()},1.4,blood,fasted`);
+  assert.strictEqual(strFromU8(files['body-measurements.csv']).split('\r\n')[1], `${eatenAt.toISOString()},79.5,88,,`);
+});
+
+test('POST /api/import - restores an export into another account, once', async () => {
+  const server = await buildServer();
+  const archive = await exportArchive(server, source);
+
+  const first = await importArchive(server, target, archive);
+  assert.strictEqual(first.statusCode, 200);
+  assert.deepStrictEqual(first.json(), {
+    success: true,
+    meals: { imported: 1, skipped: 0 },
+    dailyProgress: { imported: 1, skipped: 0 },
+    ketoneLogs: { imported: 1, skipped: 0 },
+    bodyMeasurements: { imported: 1, skipped: 0 },
+    profile: 'created'
+  });
+
+  const [meal] = await db.findMealAnalysesByUserId(target.id);
+  assert.strictEqual(meal.createdAt.getTime(), eatenAt.getTime());
+  assert.strictEqual(meal.mealType, 'lunch');
+  assert.deepStrictEqual(meal.thumbnails, [thumbnail]);
+  assert.strictEqual(meal.thumbnail, thumbnail);
+  assert.strictEqual((await db.findUserProfileByUserId(target.id))?.dailyCalorieGoal, 1800);
+  assert.strictEqual((await db.findDailyProgressByUserAndDate(target.id, day))?.goalCalories, 1800);
+  assert.strictEqual((await db.findKetoneLogsByUser(target.id))[0].notes, 'fasted');
+  assert.strictEqual((await db.findBodyMeasurementsByUser(target.id))[0].waist, 88);
+  // The imported weigh-in is the latest, so it becomes the profile weight
+  assert.strictEqual((await db.findUserProfileByUserId(target.id))?.weight, 79.5);
+
+  const second = await importArchive(server, target, archive);
+  assert.strictEqual(second.statusCode, 200);
+  assert.deepStrictEqual(second.json().meals, { imported: 0, skipped: 1 });
+  assert.deepStrictEqual(second.json().dailyProgress, { imported: 0, skipped: 1 });
+  assert.deepStrictEqual(second.json().ketoneLogs, { imported: 0, skipped: 1 });
+  assert.deepStrictEqual(second.json().bodyMeasurements, { imported: 0, skipped: 1 });
+  assert.strictEqual((await db.findMealAnalysesByUserId(target.id)).length, 1);
+  assert.strictEqual((await db.findKetoneLogsByUser(target.id)).length, 1);
+
+  // The source account is untouched
+  assert.strictEqual((await db.findMealAnalysesByUserId(source.id)).length, 1);
+});
+
+test('POST /api/import - recalculates days the account already tracked', async () => {
+  const server = await buildServer();
+  const archive = await exportArchive(server, source);
+
+  // The target logged its own meal that day
+  await importArchive(server, target, zipSync({
+    'manifest.json': strToU8(JSON.stringify({ format: 'nutritionai-export', version: 1 })),
+    'meals.json': strToU8('[]'),
+    'profile.json': unzipSync(new Uint8Array(archive))['profile.json'],
+    'daily-progress.json': strToU8('[]'),
+    'ketone-logs.json': strToU8('[]')
+  }));
+  await db.createMealAnalysis({
+    userId: target.id,
+    imageUrl: '',
+    nutritionData: { foods: [], totals: { calories: 200, protein: 10, carbs: 5, fat: 15 } },
+    createdAt: new Date('2026-03-02T08:00:00.000Z')
+  });
+  await db.createOrUpdateDailyProgress({
+    ...(await db.findDailyProgressByUserAndDate(source.id, day))!,
+    userId: target.id,
+    totalCalories: 200,
+    mealCount: 1
+  });
+
+  const response = await importArchive(server, target, archive);
+  assert.strictEqual(response.statusCode, 200);
+  assert.deepStrictEqual(response.json().dailyProgress, { imported: 0, skipped: 1 });
+
+  const merged = await db.findDailyProgressByUserAndDate(target.id, day);
+  assert.strictEqual(merged?.mealCount, 2);
+  assert.strictEqual(merged?.totalCalories, 500);
+});
+
+test('POST /api/import - rejects files that are not exports', async () => {
+  const server = await buildServer();
+
+  const notZip = await importArchive(server, target, Buffer.from('not a zip'));
+  assert.strictEqual(notZip.statusCode, 400);
+  assert.strictEqual(notZip.json().error, 'File is not a zip archive');
+
+  const otherZip = await importArchive(server, target, zipSync({ 'notes.txt': strToU8('hello') }));
+  assert.strictEqual(otherZip.statusCode, 400);
+  assert.strictEqual(otherZip.json().error, 'Archive is missing manifest.json');
+
+  const badDate = await importArchive(server, target, zipSync({
+    'manifest.json': strToU8(JSON.stringify({ format: 'nutritionai-export', version: 1 })),
+    'meals.json': strToU8(JSON.stringify([{ createdAt: 'yesterday', nutritionData: {} }])),
+    'profile.json': strToU8('null'),
+    'daily-progress.json': strToU8('[]'),
+    'ketone-logs.json': strToU8('[]')
+  }));
+  assert.strictEqual(badDate.statusCode, 400);
+  assert.deepStrictEqual(await db.findMealAnalysesByUserId(target.id), []);
+
+  const missing = await server.inject({ method: 'POST', url: '/api/import', headers: authHeaders(target), payload: {} });
+  assert.strictEqual(missing.statusCode, 400);
+});
+
+test('POST /api/import - checks the profile and meals like the API does', async () => {
+  const server = await buildServer();
+  const files = unzipSync(new Uint8Array(await exportArchive(server, source)));
+  const profile = JSON.parse(strFromU8(files['profile.json']));
+  const meals = JSON.parse(strFromU8(files['meals.json']));
+  const withFiles = (changes: Record<string, unknown>) => zipSync({
+    ...files,
+    ...Object.fromEntries(Object.entries(changes).map(([path, value]) => [path, strToU8(JSON.stringify(value))]))
+  });
+
+  const badZone = await importArchive(server, target, withFiles({ 'profile.json': { ...profile, timezone: 'Mars/Olympus_Mons' } }));
+  assert.strictEqual(badZone.statusCode, 400);
+  assert.match(badZone.json().error, /invalid time zone/);
+
+  const badLimits = await importArchive(server, target, withFiles({ 'profile.json': { ...profile, micronutrientLimits: { sodium: -1 } } }));
+  assert.strictEqual(badLimits.statusCode, 400);
+
+  const badMeal = await importArchive(server, target, withFiles({ 'meals.json': [{ ...meals[0], nutritionData: { foods: 'eggs' } }] }));
+  assert.strictEqual(badMeal.statusCode, 400);
+  assert.match(badMeal.json().error, /meals.json item 1/);
+
+  // Nothing was written by the rejected archives
+  assert.strictEqual(await db.findUserProfileByUserId(target.id), null);
+  assert.deepStrictEqual(await db.findMealAnalysesByUserId(target.id), []);
+
+  // Another user's custom template isn't carried over
+  const custom = await importArchive(server, target, withFiles({ 'profile.json': { ...profile, dietType: 'custom-someone-elses' } }));
+  assert.strictEqual(custom.statusCode, 200);
+  assert.strictEqual((await db.findUserProfileByUserId(target.id))?.dietType, 'balanced');
+});
@@ -0,0 +1,574 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import type { DatabaseService, DietTemplate } from '../services/database.js';
+import { InMemoryDatabase } from '../services/memoryDatabase.js';
+import { SqlDatabase, createSqliteDriver } from '../services/sqlDatabase.js';
+
+/**
+ * Contract tests shared by every DatabaseService implementation
+ * that can run without network access.
+ */
+const implementations: Array<[string, () => DatabaseService]> = [
+  ['InMemoryDatabase', () => new InMemoryDatabase()],
+  ['SqlDatabase (sqlite)', () => new SqlDatabase(() => createSqliteDriver(':memory:'))]
+];
+
+const profileData = {
+  dietType: 'keto',
+  dailyCalorieGoal: 2000,
+  dailyProteinGoal: 125,
+  dailyCarbsGoal: 25,
+  dailyFatGoal: 156,
+  dailyFiberGoal: 20,
+  dailySugarLimit: null,
+  weight: 80,
+  goalWeight: 75,
+  height: 180,
+  age: 35,
+  gender: 'male',
+  activityLevel: 'moderate',
+  dietaryRestrictions: ['gluten-free'],
+  micronutrientLimits: { sodium: 2300 },
+  timezone: 'America/Los_Angeles'
+};
+
+const templateData: Omit<DietTemplate, 'id' | 'userId' | 'dietType' | 'createdAt' | 'updatedAt'> = {
+  name: 'Cutting',
+  description: 'High protein',
+  proteinRatio: 40,
+  carbsRatio: 30,
+  fatRatio: 30,
+  baselineCalories: 2000,
+  baselineProtein: 200,
+  baselineCarbs: 150,
+  baselineFat: 67,
+  carbsTolerance: 25,
+  proteinTolerance: 20,
+  fatTolerance: 30,
+  fiberMinimum: 30,
+  sugarMaximum: null,
+  rules: { fatIsFuel: false, countNetCarbs: true, netCarbsMaximum: 100, mealIdeas: ['Chicken salad'] }
+};
+
+for (const [name, create] of implementations) {
+  describe(name, () => {
+    test('creates and finds users', async () => {
+      const db = create();
+      const user = await db.createUser({ email: 'a@example.com', passwordHash: 'hash', name: 'A' });
+
+      assert.deepStrictEqual(await db.findUserById(user.id), user);
+      assert.strictEqual((await db.findUserByEmail('a@example.com'))?.id, user.id);
+      assert.strictEqual(await db.findUserByEmail('missing@example.com'), null);
+      assert.strictEqual(user.emailVerified, false);
+      assert.strictEqual(user.tier, 'free');
+      await db.disconnect();
+    });
+
+    test('updates a user\'s email, password hash and verification', async () => {
+      const db = create();
+      const user = await db.createUser({ email: 'a@example.com', passwordHash: 'hash', name: 'A' });
+
+      const updated = await db.updateUser(user.id, { passwordHash: 'new-hash', emailVerified: true });
+      assert.strictEqual(updated?.passwordHash, 'new-hash');
+      assert.strictEqual(updated?.emailVerified, true);
+      assert.deepStrictEqual(await db.findUserById(user.id), updated);
+
+      await db.updateUser(user.id, { email: 'b@example.com' });
+      assert.strictEqual((await db.findUserByEmail('b@example.com'))?.id, user.id);
+      assert.strictEqual(await db.findUserByEmail('a@example.com'), null);
+      assert.strictEqual((await db.updateUser(user.id, { tier: 'premium' }))?.tier, 'premium');
+      assert.strictEqual((await db.findUserById(user.id))?.tier, 'premium');
+      assert.strictEqual(await db.updateUser('missing', { emailVerified: true }), null);
+      await db.disconnect();
+    });
+
+    test('deletes a user with everything they own', async () => {
+      const db = create();
+      const [user, other] = await Promise.all([
+        db.createUser({ email: 'a@example.com', passwordHash: 'hash', name: 'A' }),
+        db.createUser({ email: 'b@example.com', passwordHash: 'hash', name: 'B' })
+      ]);
+      const day = new Date('2026-03-02T00:00:00.000Z');
+      const future = new Date(Date.now() + 60_000);
+
+      for (const owner of [user, other]) {
+        await db.createMealAnalysis({ userId: owner.id, imageUrl: '', thumbnail: 'thumb', nutritionData: { foods: [], totals: {} } });
+        await db.createUserProfile({ userId: owner.id, ...profileData });
+        await db.createOrUpdateDailyProgress({
+          userId: owner.id, date: day, totalCalories: 500, totalProtein: 30, totalCarbs: 10, totalFat: 40,
+          totalFiber: 5, totalSugar: 2, totalMicronutrients: {}, mealCount: 1, goalCalories: 2000, goalProtein: 125,
+          goalCarbs: 25, goalFat: 156, goalFiber: 20, goalSugar: null, micronutrientLimits: {}, isOnTrack: true,
+          carbsCompliance: 1, proteinCompliance: 1, fatCompliance: 1, dietType: 'keto'
+        });
+        await db.createWeeklySummary({
+          userId: owner.id, weekStart: day, weekEnd: new Date(day.getTime() + 6 * 86_400_000), avgCalories: 1900,
+          avgProtein: 120, avgCarbs: 30, avgFat: 140, avgFiber: 18, avgSugar: 8, totalMeals: 14, daysTracked: 7, complianceRate: 0.7
+        });
+        await db.createKetoneLog({ userId: owner.id, timestamp: day, ketoneLevel: 1.2, measurementType: 'blood', notes: null });
+        await db.createBodyMeasurement({ userId: owner.id, measuredAt: day, weight: 80, waist: null, bodyFat: null, notes: null });
+        await db.createDietTemplate({ ...templateData, userId: owner.id, dietType: `custom-${owner.id}` });
+        await db.createRefreshToken({ id: `refresh-${owner.id}`, userId: owner.id, expiresAt: future });
+        await db.createEmailToken({ id: `email-${owner.id}`, userId: owner.id, purpose: 'verify-email', email: owner.email, expiresAt: future });
+        await db.createOAuthIdentity({ userId: owner.id, provider: 'google', subject: `sub-${owner.id}`, email: owner.email });
+        await db.incrementUsage(owner.id, 'analyses', '2026-03-02');
+      }
+
+      await db.deleteUser(user.id);
+
+      assert.strictEqual(await db.findUserById(user.id), null);
+      assert.strictEqual(await db.findUserByEmail('a@example.com'), null);
+      assert.deepStrictEqual(await db.findMealAnalysesByUserId(user.id), []);
+      assert.strictEqual(await db.findUserProfileByUserId(user.id), null);
+      assert.strictEqual(await db.findDailyProgressByUserAndDate(user.id, day), null);
+      assert.deepStrictEqual(await db.findWeeklySummariesByUser(user.id, 10), []);
+      assert.deepStrictEqual(await db.findKetoneLogsByUser(user.id), []);
+      assert.deepStrictEqual(await db.findBodyMeasurementsByUser(user.id), []);
+      assert.deepStrictEqual(await db.findDietTemplatesByUser(user.id), []);
+      assert.strictEqual(await db.findRefreshToken(`refresh-${user.id}`), null);
+      assert.strictEqual(await db.consumeEmailToken(`email-${user.id}`), null);
+      assert.deepStrictEqual(await db.findOAuthIdentitiesByUser(user.id), []);
+      assert.deepStrictEqual(await db.findUsageByUser(user.id, '2026-03-02'), []);
+
+      // Other accounts are untouched
+      assert.ok(await db.findUserById(other.id));
+      assert.strictEqual((await db.findMealAnalysesByUserId(other.id)).length, 1);
+      assert.ok(await db.findUserProfileByUserId(other.id));
+      assert.ok(await db.findDailyProgressByUserAndDate(other.id, day));
+      assert.strictEqual((await db.findWeeklySummariesByUser(other.id, 10)).length, 1);
+      assert.strictEqual((await db.findKetoneLogsByUser(other.id)).length, 1);
+      assert.strictEqual((await db.findBodyMeasurementsByUser(other.id)).length, 1);
+      assert.strictEqual((await db.findDietTemplatesByUser(other.id)).length, 1);
+      assert.ok(await db.findRefreshToken(`refresh-${other.id}`));
+      assert.ok(await db.consumeEmailToken(`email-${other.id}`));
+      assert.ok(await db.findOAuthIdentity('google', `sub-${other.id}`));
+      assert.strictEqual((await db.findUsageByUser(other.id, '2026-03-02')).length, 1);
+      await db.disconnect();
+    });
+
+    test('stores, orders, updates and deletes meal analyses', async () => {
+      const db = create();
+      const nutritionData = { foods: [{ name: 'Egg', portion: '1 large' }], totals: { calories: 70, protein: 6, carbs: 0, fat: 5 } };
+      const first = await db.createMealAnalysis({ userId: 'u1', imageUrl: '', thumbnail: 'thumb', nutritionData, mealType: 'breakfast' });
+      const second = await db.createMealAnalysis({ userId: 'u1', imageUrl: '', nutritionData });
+      await db.createMealAnalysis({ userId: 'u2', imageUrl: '', nutritionData });
+
+      await db.updateMealAnalysis(first.id, { createdAt: new Date(Date.now() + 60_000) });
+      await db.updateMealAnalysis(second.id, { mealType: 'snack' });
+
+      const meals = await db.findMealAnalysesByUserId('u1');
+      assert.deepStrictEqual(meals.map(m => m.id), [first.id, second.id]);
+      assert.deepStrictEqual(meals[0].nutritionData, nutritionData);
+      assert.strictEqual(meals[0].thumbnail, 'thumb');
+      assert.strictEqual(meals[1].thumbnail, null);
+      assert.deepStrictEqual(meals.map(m => m.mealType), ['breakfast', 'snack']);
+
+      await db.deleteMealAnalysis(first.id);
+      assert.strictEqual(await db.findMealAnalysisById(first.id), null);
+      assert.strictEqual(await db.updateMealAnalysis(first.id, { thumbnail: 'x' }), null);
+      await db.disconnect();
+    });
+
+    test('queries meals with filters, sort orders and cursors', async () => {
+      const db = create();
+      const meal = (name: string, calories: number, protein: number, createdAt: string, mealType: 'breakfast' | 'lunch' | 'dinner' | null) =>
+        db.createMealAnalysis({
+          userId: 'u1',
+          imageUrl: '',
+          nutritionData: { foods: [{ name }, { name: 'Black coffee' }], totals: { calories, protein, carbs: 10, fat: 5 } },
+          mealType,
+          createdAt: new Date(createdAt)
+        });
+      const eggs = await meal('Scrambled Eggs', 300, 20, '2026-03-01T08:00:00.000Z', 'breakfast');
+      const salad = await meal('Chicken salad', 450, 35, '2026-03-01T12:30:00.000Z', 'lunch');
+      const pasta = await meal('Pasta', 700, 25, '2026-03-02T19:00:00.000Z', 'dinner');
+      const omelette = await meal('Egg omelette', 450, 30, '2026-03-03T08:00:00.000Z', null);
+      await db.createMealAnalysis({ userId: 'u2', imageUrl: '', nutritionData: { foods: [{ name: 'Eggs' }], totals: { calories: 300 } } });
+
+      const ids = (page: { meals: Array<{ id: string }> }) => page.meals.map(m => m.id);
+      const base = { userId: 'u1', sort: 'createdAt' as const, order: 'desc' as const, limit: 2 };
+
+      // Newest first, two at a time
+      const first = await db.queryMealAnalyses(base);
+      assert.deepStrictEqual(ids(first), [omelette.id, pasta.id]);
+      const second = await db.queryMealAnalyses({ ...base, cursor: first.nextCursor! });
+      assert.deepStrictEqual(ids(second), [salad.id, eggs.id]);
+      assert.strictEqual(second.nextCursor, null);
+
+      // Ties on the sort value are broken by id, so paging never skips or repeats
+      const byCalories = { ...base, sort: 'calories' as const, order: 'asc' as const, limit: 1 };
+      const seen: string[] = [];
+      let cursor;
+      do {
+        const page = await db.queryMealAnalyses({ ...byCalories, cursor });
+        seen.push(...ids(page));
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+      assert.deepStrictEqual(seen, [eggs.id, ...[salad.id, omelette.id].sort(), pasta.id]);
+
+      const filtered = (query: object) => db.queryMealAnalyses({ ...base, limit: 10, ...query }).then(ids);
+      assert.deepStrictEqual(await filtered({ from: new Date('2026-03-01T10:00:00.000Z'), to: new Date('2026-03-03T00:00:00.000Z') }), [pasta.id, salad.id]);
+      assert.deepStrictEqual(await filtered({ mealTypes: ['breakfast', 'dinner'] }), [pasta.id, eggs.id]);
+      assert.deepStrictEqual(await filtered({ macros: { calories: { min: 400, max: 500 }, protein: { min: 32 } } }), [salad.id]);
+      assert.deepStrictEqual(await filtered({ search: 'eggs' }), [omelette.id, eggs.id]);
+      assert.deepStrictEqual(await filtered({ search: 'coffee chicken' }), [salad.id]);
+      // Parts of words match on every backend
+      assert.deepStrictEqual(await filtered({ search: 'chick' }), [salad.id]);
+
+      // Edits are searchable too
+      await db.updateMealAnalysis(pasta.id, { nutritionData: { foods: [{ name: 'Egg fried rice' }], totals: { calories: 650, protein: 20, carbs: 80, fat: 20 } } });
+      assert.deepStrictEqual(await filtered({ search: 'egg', macros: { calories: { min: 600 } } }), [pasta.id]);
+      await db.disconnect();
+    });
+
+    test('stores every thumbnail of a multi-image meal', async () => {
+      const db = create();
+      const meal = await db.createMealAnalysis({ userId: 'u1', imageUrl: '', thumbnails: ['top', 'side'], nutritionData: { foods: [] } });
+      const legacy = await db.createMealAnalysis({ userId: 'u1', imageUrl: '', thumbnail: 'only', nutritionData: { foods: [] } });
+
+      const found = await db.findMealAnalysisById(meal.id);
+      assert.deepStrictEqual(found?.thumbnails, ['top', 'side']);
+      assert.strictEqual(found?.thumbnail, 'top');
+      assert.deepStrictEqual((await db.findMealAnalysisById(legacy.id))?.thumbnails, ['only']);
+      await db.disconnect();
+    });
+
+    test('creates and partially updates user profiles', async () => {
+      const db = create();
+      await db.createUserProfile({ userId: 'u1', ...profileData });
+
+      const updated = await db.updateUserProfile('u1', { dailyCalorieGoal: 1800, dietaryRestrictions: [] });
+      assert.strictEqual(updated.dailyCalorieGoal, 1800);
+      assert.strictEqual(updated.dietType, 'keto');
+      assert.deepStrictEqual(updated.dietaryRestrictions, []);
+      assert.strictEqual(updated.dailySugarLimit, null);
+      assert.deepStrictEqual(updated.micronutrientLimits, { sodium: 2300 });
+
+      const limited = await db.updateUserProfile('u1', { micronutrientLimits: { sodium: 1500, potassium: 3400 } });
+      assert.deepStrictEqual(limited.micronutrientLimits, { sodium: 1500, potassium: 3400 });
+      assert.strictEqual(limited.timezone, 'America/Los_Angeles');
+      assert.strictEqual((await db.updateUserProfile('u1', { timezone: 'Europe/Berlin' })).timezone, 'Europe/Berlin');
+
+      assert.strictEqual(updated.goalWeight, 75);
+      assert.strictEqual((await db.updateUserProfile('u1', { goalWeight: null })).goalWeight, null);
+
+      await assert.rejects(db.updateUserProfile('u2', { age: 40 }), /Profile not found/);
+
+      await db.createUserProfile({ userId: 'u3', ...profileData });
+      assert.deepStrictEqual((await db.findAllUserProfiles()).map(profile => profile.userId).sort(), ['u1', 'u3']);
+      await db.disconnect();
+    });
+
+    test('upserts and deletes daily progress by user and date', async () => {
+      const db = create();
+      const day = new Date('2026-03-02T00:00:00.000Z');
+      const progress = {
+        userId: 'u1',
+        date: day,
+        totalCalories: 500,
+        totalProtein: 30,
+        totalCarbs: 10,
+        totalFat: 40,
+        totalFiber: 5,
+        totalSugar: 2,
+        totalMicronutrients: { sodium: 640, saturatedFat: 12.5 },
+        mealCount: 1,
+        goalCalories: 2000,
+        goalProtein: 125,
+        goalCarbs: 25,
+        goalFat: 156,
+        goalFiber: 20,
+        goalSugar: null,
+        micronutrientLimits: { sodium: 2300 },
+        isOnTrack: false,
+        carbsCompliance: 1,
+        proteinCompliance: 0.3,
+        fatCompliance: 0.4,
+        dietType: 'keto'
+      };
+
+      const created = await db.createOrUpdateDailyProgress(progress);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const updated = await db.createOrUpdateDailyProgress({ ...progress, mealCount: 2, isOnTrack: true });
+      assert.strictEqual(updated.createdAt.getTime(), created.createdAt.getTime());
+      await db.createOrUpdateDailyProgress({ ...progress, date: new Date('2026-03-05T00:00:00.000Z') });
+
+      const found = await db.findDailyProgressByUserAndDate('u1', day);
+      assert.strictEqual(found?.mealCount, 2);
+      assert.strictEqual(found?.isOnTrack, true);
+      assert.strictEqual(found?.goalSugar, null);
+      assert.deepStrictEqual(found?.totalMicronutrients, { sodium: 640, saturatedFat: 12.5 });
+      assert.deepStrictEqual(found?.micronutrientLimits, { sodium: 2300 });
+
+      const range = await db.findDailyProgressByUserAndDateRange('u1', day, new Date('2026-03-04T00:00:00.000Z'));
+      assert.strictEqual(range.length, 1);
+
+      await db.deleteDailyProgress('u1', day);
+      assert.strictEqual(await db.findDailyProgressByUserAndDate('u1', day), null);
+      assert.strictEqual((await db.findDailyProgressByUserAndDateRange('u1', day, new Date('2026-03-05T00:00:00.000Z'))).length, 1);
+      await db.disconnect();
+    });
+
+    test('returns weekly summaries newest first with limit', async () => {
+      const db = create();
+      for (const weekStart of ['2026-03-02', '2026-03-09', '2026-03-16']) {
+        const start = new Date(`${weekStart}T00:00:00.000Z`);
+        await db.createWeeklySummary({
+          userId: 'u1',
+          weekStart: start,
+          weekEnd: new Date(start.getTime() + 6 * 86_400_000),
+          avgCalories: 1900,
+          avgProtein: 120,
+          avgCarbs: 30,
+          avgFat: 140,
+          avgFiber: 18,
+          avgSugar: 8,
+          totalMeals: 14,
+          daysTracked: 7,
+          complianceRate: 0.7
+        });
+      }
+
+      const summaries = await db.findWeeklySummariesByUser('u1', 2);
+      assert.deepStrictEqual(
+        summaries.map(s => s.weekStart.toISOString().split('T')[0]),
+        ['2026-03-16', '2026-03-09']
+      );
+      await db.disconnect();
+    });
+
+    test('upserts and finds food products by barcode', async () => {
+      const db = create();
+      const product = {
+        barcode: '96385074',
+        name: 'Crispbread',
+        brand: null,
+        servingSize: '2 slices (20 g)',
+        servingQuantity: 20,
+        nutrientsPer100g: { calories: 350, protein: 9, carbs: 66, fat: 1.5, fiber: 14, sugar: 1, sodium: 400 },
+        source: 'openfoodfacts'
+      };
+
+      assert.strictEqual(await db.upsertFoodProducts([product]), 1);
+      await db.upsertFoodProducts([{ ...product, name: 'Rye Crispbread' }]);
+
+      const found = await db.findFoodProductByBarcode('96385074');
+      assert.strictEqual(found?.name, 'Rye Crispbread');
+      assert.deepStrictEqual(found?.nutrientsPer100g, product.nutrientsPer100g);
+      assert.strictEqual(found?.brand, null);
+      assert.strictEqual(await db.findFoodProductByBarcode('00000000'), null);
+      await db.disconnect();
+    });
+
+    test('upserts, finds and searches reference foods', async () => {
+      const nutrientsPer100g = { calories: 52, protein: 0.3, carbs: 13.8, fat: 0.2, fiber: 2.4, sugar: 10.4, sodium: 1 };
+      const food = (id: string, description: string) => ({
+        id, description, category: null, dataType: 'sr_legacy_food', nutrientsPer100g, portions: [], source: 'usda'
+      });
+      const db = create();
+      await db.upsertReferenceFoods([
+        food('1', 'Apples, raw, with skin'),
+        food('2', 'Apples, raw'),
+        food('3', 'Apple juice, canned or bottled'),
+        food('4', 'Bananas, raw')
+      ]);
+      await db.upsertReferenceFoods([{ ...food('2', 'Apples, raw'), portions: [{ unit: 'cup', amount: 1, gramWeight: 125 }] }]);
+
+      assert.deepStrictEqual((await db.searchReferenceFoods('apple')).map(f => f.id), ['2', '1', '3']);
+      assert.deepStrictEqual((await db.searchReferenceFoods('Raw apples', 1)).map(f => f.id), ['2']);
+      assert.deepStrictEqual(await db.searchReferenceFoods('  '), []);
+      assert.deepStrictEqual((await db.findReferenceFoodById('2'))?.portions, [{ unit: 'cup', amount: 1, gramWeight: 125 }]);
+      assert.strictEqual(await db.findReferenceFoodById('9'), null);
+      await db.disconnect();
+    });
+
+    test('logs, lists and deletes ketone readings', async () => {
+      const db = create();
+      const older = await db.createKetoneLog({ userId: 'u1', timestamp: new Date('2026-03-01T08:00:00Z'), ketoneLevel: 0.4, measurementType: 'blood', notes: null });
+      const newer = await db.createKetoneLog({ userId: 'u1', timestamp: new Date('2026-03-02T08:00:00Z'), ketoneLevel: 1.2, measurementType: 'breath', notes: 'fasted' });
+
+      assert.strictEqual((await db.findRecentKetoneLog('u1'))?.id, newer.id);
+      assert.deepStrictEqual((await db.findKetoneLogsByUser('u1')).map(l => l.id), [newer.id, older.id]);
+      assert.deepStrictEqual(await db.findKetoneLogById(older.id), older);
+      assert.strictEqual(await db.findKetoneLogById('missing'), null);
+
+      await db.deleteKetoneLog(newer.id);
+      assert.strictEqual((await db.findRecentKetoneLog('u1'))?.id, older.id);
+      assert.strictEqual(await db.findRecentKetoneLog('u2'), null);
+      await db.disconnect();
+    });
+
+    test('logs, updates and deletes body measurements', async () => {
+      const db = create();
+      const later = await db.createBodyMeasurement({ userId: 'u1', measuredAt: new Date('2026-03-02T07:00:00Z'), weight: 81.2, waist: 90, bodyFat: null, notes: null });
+      const earlier = await db.createBodyMeasurement({ userId: 'u1', measuredAt: new Date('2026-03-01T07:00:00Z'), weight: 81.6, waist: null, bodyFat: 24.5, notes: 'after run' });
+      await db.createBodyMeasurement({ userId: 'u2', measuredAt: new Date('2026-03-01T07:00:00Z'), weight: 60, waist: null, bodyFat: null, notes: null });
+
+      assert.deepStrictEqual((await db.findBodyMeasurementsByUser('u1')).map(m => m.id), [earlier.id, later.id]);
+      assert.deepStrictEqual((await db.findBodyMeasurementsByUser('u1', new Date('2026-03-02T00:00:00Z'))).map(m => m.id), [later.id]);
+      assert.deepStrictEqual(await db.findBodyMeasurementById(earlier.id), earlier);
+      assert.strictEqual(await db.findBodyMeasurementById('missing'), null);
+
+      const updated = await db.updateBodyMeasurement(later.id, { weight: 81, waist: null, notes: 'corrected' });
+      assert.strictEqual(updated?.weight, 81);
+      assert.strictEqual(updated?.waist, null);
+      assert.strictEqual(updated?.notes, 'corrected');
+      assert.strictEqual(updated?.measuredAt.getTime(), later.measuredAt.getTime());
+      assert.strictEqual(await db.updateBodyMeasurement('missing', { weight: 70 }), null);
+
+      await db.deleteBodyMeasurement(earlier.id);
+      assert.deepStrictEqual((await db.findBodyMeasurementsByUser('u1')).map(m => m.id), [later.id]);
+      await db.disconnect();
+    });
+
+    test('stores, finds, updates and deletes diet templates', async () => {
+      const db = create();
+      const own = await db.createDietTemplate({ ...templateData, userId: 'u1', dietType: 'custom-1' });
+      const global = await db.createDietTemplate({ ...templateData, name: 'Carnivore', userId: null, dietType: 'carnivore' });
+      await db.createDietTemplate({ ...templateData, name: 'Another', userId: 'u1', dietType: 'custom-2' });
+      await db.createDietTemplate({ ...templateData, userId: 'u2', dietType: 'custom-3' });
+
+      assert.deepStrictEqual(await db.findDietTemplateByType('custom-1'), own);
+      assert.strictEqual(await db.findDietTemplateByType('missing'), null);
+      assert.deepStrictEqual((await db.findDietTemplatesByUser('u1')).map(t => t.name), ['Another', 'Cutting']);
+      assert.deepStrictEqual((await db.findDietTemplatesByUser(null)).map(t => t.id), [global.id]);
+      assert.strictEqual((await db.findAllDietTemplates()).length, 4);
+
+      const updated = await db.updateDietTemplate(own.id, { name: 'Lean bulk', sugarMaximum: 40, rules: { ...templateData.rules, mealIdeas: [] } });
+      assert.strictEqual(updated?.name, 'Lean bulk');
+      assert.strictEqual(updated?.sugarMaximum, 40);
+      assert.deepStrictEqual(updated?.rules.mealIdeas, []);
+      assert.strictEqual(updated?.dietType, 'custom-1');
+      assert.strictEqual(updated?.userId, 'u1');
+      assert.deepStrictEqual(await db.findDietTemplateByType('custom-1'), updated);
+      assert.strictEqual(await db.updateDietTemplate('missing', { name: 'x' }), null);
+
+      await db.deleteDietTemplate(own.id);
+      assert.strictEqual(await db.findDietTemplateByType('custom-1'), null);
+      await db.disconnect();
+    });
+
+    test('stores, revokes and expires refresh tokens', async () => {
+      const db = create();
+      const future = new Date(Date.now() + 60_000);
+      await db.createRefreshToken({ id: 'hash-1', userId: 'u1', expiresAt: future });
+      await db.createRefreshToken({ id: 'hash-2', userId: 'u1', expiresAt: future });
+      await db.createRefreshToken({ id: 'hash-3', userId: 'u2', expiresAt: new Date('2026-01-01T00:00:00Z') });
+
+      const found = await db.findRefreshToken('hash-1');
+      assert.strictEqual(found?.userId, 'u1');
+      assert.strictEqual(found?.expiresAt.getTime(), future.getTime());
+      assert.strictEqual(found?.revokedAt, null);
+      assert.strictEqual(await db.findRefreshToken('missing'), null);
+
+      // Only the first revocation counts
+      assert.strictEqual(await db.revokeRefreshToken('hash-1'), true);
+      assert.strictEqual(await db.revokeRefreshToken('hash-1'), false);
+      assert.strictEqual(await db.revokeRefreshToken('missing'), false);
+      assert.ok((await db.findRefreshToken('hash-1'))?.revokedAt instanceof Date);
+
+      assert.strictEqual(await db.revokeRefreshTokensByUser('u1'), 1);
+      assert.ok((await db.findRefreshToken('hash-2'))?.revokedAt);
+      assert.strictEqual((await db.findRefreshToken('hash-3'))?.revokedAt, null);
+
+      assert.strictEqual(await db.deleteExpiredRefreshTokens(new Date()), 1);
+      assert.strictEqual(await db.findRefreshToken('hash-3'), null);
+      assert.ok(await db.findRefreshToken('hash-1'));
+
+      await db.deleteRefreshToken('hash-1');
+      assert.strictEqual(await db.findRefreshToken('hash-1'), null);
+      await db.disconnect();
+    });
+
+    test('consumes email tokens once and deletes them by user and expiry', async () => {
+      const db = create();
+      const future = new Date(Date.now() + 60_000);
+      const token = { id: 'hash-1', userId: 'u1', purpose: 'verify-email' as const, email: 'a@example.com', expiresAt: future };
+      await db.createEmailToken(token);
+      await db.createEmailToken({ ...token, id: 'hash-2', purpose: 'reset-password' });
+      await db.createEmailToken({ ...token, id: 'hash-3', expiresAt: new Date('2026-01-01T00:00:00Z') });
+
+      const consumed = await db.consumeEmailToken('hash-1');
+      assert.strictEqual(consumed?.purpose, 'verify-email');
+      assert.strictEqual(consumed?.email, 'a@example.com');
+      assert.strictEqual(consumed?.expiresAt.getTime(), future.getTime());
+      assert.strictEqual(await db.consumeEmailToken('hash-1'), null);
+
+      assert.strictEqual(await db.deleteExpiredEmailTokens(new Date()), 1);
+      assert.strictEqual(await db.consumeEmailToken('hash-3'), null);
+
+      await db.deleteEmailTokensByUser('u1', 'verify-email');
+      assert.ok(await db.consumeEmailToken('hash-2'));
+      await db.disconnect();
+    });
+
+    test('links third-party identities once', async () => {
+      const db = create();
+      const identity = await db.createOAuthIdentity({ userId: 'u1', provider: 'google', subject: '123', email: 'a@example.com' });
+      await db.createOAuthIdentity({ userId: 'u1', provider: 'apple', subject: '123', email: 'a@example.com' });
+
+      assert.strictEqual(identity.id, 'google:123');
+      assert.deepStrictEqual(await db.findOAuthIdentity('google', '123'), identity);
+      assert.strictEqual(await db.findOAuthIdentity('google', '456'), null);
+      assert.deepStrictEqual((await db.findOAuthIdentitiesByUser('u1')).map(i => i.provider).sort(), ['apple', 'google']);
+      assert.deepStrictEqual(await db.findOAuthIdentitiesByUser('u2'), []);
+
+      // A provider account can only belong to one user
+      await assert.rejects(db.createOAuthIdentity({ userId: 'u2', provider: 'google', subject: '123', email: 'b@example.com' }));
+      assert.strictEqual((await db.findOAuthIdentity('google', '123'))?.userId, 'u1');
+      await db.disconnect();
+    });
+
+    test('counts usage per user, metric and day', async () => {
+      const db = create();
+      assert.strictEqual(await db.incrementUsage('u1', 'analyses', '2026-03-01'), 1);
+      assert.strictEqual(await db.incrementUsage('u1', 'analyses', '2026-03-02'), 1);
+      assert.strictEqual(await db.incrementUsage('u1', 'analyses', '2026-03-02', 2), 3);
+      assert.strictEqual(await db.incrementUsage('u1', 'analyses', '2026-03-02', -1), 2);
+      await db.incrementUsage('u1', 'imports', '2026-03-02');
+      await db.incrementUsage('u2', 'analyses', '2026-03-02');
+
+      const usage = await db.findUsageByUser('u1', '2026-03-02');
+      assert.deepStrictEqual(usage.map(c => [c.metric, c.count]).sort(), [['analyses', 2], ['imports', 1]]);
+      assert.deepStrictEqual(await db.findUsageByUser('u1', '2026-03-03'), []);
+
+      assert.strictEqual(await db.deleteUsageBefore('2026-03-02'), 1);
+      assert.deepStrictEqual(await db.findUsageByUser('u1', '2026-03-01'), []);
+      assert.strictEqual((await db.findUsageByUser('u1', '2026-03-02')).length, 2);
+      await db.disconnect();
+    });
+  });
+}
+
+test('SqlDatabase reports a failed connection to callers', async () => {
+  const db = new SqlDatabase(async () => { throw new Error('connection refused'); });
+  await new Promise(resolve => setImmediate(resolve));
+
+  await assert.rejects(db.findUserById('u1'), /connection refused/);
+});
+
+test('SqlDatabase adds columns missing from an existing schema', async () => {
+  const driver = await createSqliteDriver(':memory:');
+  await driver.execute(`CREATE TABLE meal_analyses (
+    id TEXT PRIMARY KEY,
+    user_id TEXT,
+    image_url TEXT NOT NULL,
+    thumbnail TEXT,
+    nutrition_data TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  )`);
+  await driver.execute(
+    'INSERT INTO meal_analyses (id, user_id, image_url, thumbnail, nutrition_data, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+    ['old', 'u1', '', 'thumb', '{"foods":[{"name":"Toast"}],"totals":{"calories":120}}', new Date().toISOString()]
+  );
+
+  const db = new SqlDatabase(async () => driver);
+  assert.deepStrictEqual((await db.findMealAnalysisById('old'))?.thumbnails, ['thumb']);
+
+  // Meals saved before the query columns existed can still be filtered
+  const page = await db.queryMealAnalyses({ userId: 'u1', search: 'toast', macros: { calories: { min: 100 } }, sort: 'calories', order: 'desc', limit: 10 });
+  assert.deepStrictEqual(page.meals.map(m => m.id), ['old']);
+
+  const meal = await db.createMealAnalysis({ userId: 'u1', imageUrl: '', thumbnails: ['a', 'b'], nutritionData: { foods: [] } });
+  assert.deepStrictEqual((await db.findMealAnalysisById(meal.id))?.thumbnails, ['a', 'b']);
+  await db.disconnect();
+});
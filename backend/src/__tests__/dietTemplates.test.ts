@@ -0,0 +1,151 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import Fastify from 'fastify';
+import { dietTemplateRoutes } from '../routes/dietTemplates.js';
+import profileRoutes from '../routes/profile.js';
+import progressRoutes from '../routes/progress.js';
+import { setDb } from '../services/database.js';
+import { InMemoryDatabase } from '../services/memoryDatabase.js';
+import { DIET_TEMPLATES, DEFAULT_DIET_RULES, calculateMacroCompliance, getNextMealSuggestions } from '../services/dietCompliance.js';
+import { parseDietTemplateInput, saveGlobalDietTemplate, resolveDietTemplate, DietTemplateError } from '../services/dietTemplates.js';
+import { generateToken } from '../services/auth.js';
+
+let db: InMemoryDatabase;
+
+beforeEach(() => {
+  db = new InMemoryDatabase();
+  setDb(db);
+});
+
+async function buildServer() {
+  const server = Fastify();
+  await server.register(dietTemplateRoutes);
+  await server.register(profileRoutes);
+  await server.register(progressRoutes);
+  return server;
+}
+
+const headers = { authorization: `Bearer ${generateToken({ userId: 'user-1', email: 'user@example.com' })}` };
+const otherHeaders = { authorization: `Bearer ${generateToken({ userId: 'user-2', email: 'other@example.com' })}` };
+
+const cutting = {
+  name: 'Cutting',
+  proteinRatio: 40,
+  carbsRatio: 30,
+  fatRatio: 30,
+  baselineCalories: 1800,
+  rules: { mealIdeas: ['Egg white omelette with spinach'] }
+};
+
+test('parseDietTemplateInput - fills defaults, derives baselines and rejects bad values', () => {
+  const fields = parseDietTemplateInput(cutting);
+  assert.strictEqual(fields.baselineProtein, 180);
+  assert.strictEqual(fields.baselineCarbs, 135);
+  assert.strictEqual(fields.baselineFat, 60);
+  assert.strictEqual(fields.carbsTolerance, DIET_TEMPLATES.balanced.carbsTolerance);
+  assert.deepStrictEqual(fields.rules, { ...DEFAULT_DIET_RULES, mealIdeas: ['Egg white omelette with spinach'] });
+
+  // Updates keep what isn't sent
+  const updated = parseDietTemplateInput({ fiberMinimum: null }, fields);
+  assert.strictEqual(updated.name, 'Cutting');
+  assert.strictEqual(updated.fiberMinimum, null);
+
+  for (const input of [
+    { ...cutting, name: '  ' },
+    { ...cutting, fatRatio: 40 },
+    { ...cutting, proteinRatio: 100, carbsRatio: 0, fatRatio: 0 },
+    { ...cutting, carbsTolerance: 0 },
+    { ...cutting, sugarMaximum: -5 },
+    { ...cutting, rules: { fatIsFuel: 'yes' } },
+    { ...cutting, rules: { netCarbsMaximum: 1000 } },
+    { ...cutting, rules: { mealIdeas: 'toast' } }
+  ]) {
+    assert.throws(() => parseDietTemplateInput(input as never), DietTemplateError, JSON.stringify(input));
+  }
+});
+
+test('compliance and suggestions follow the template rules', () => {
+  const goals = { calories: 2000, protein: 150, carbs: 100, fat: 90 };
+  const template = {
+    ...DIET_TEMPLATES.balanced,
+    dietType: 'custom-1',
+    rules: { fatIsFuel: true, countNetCarbs: true, netCarbsMaximum: 50, mealIdeas: ['Salmon with asparagus'] }
+  };
+
+  const result = calculateMacroCompliance({ calories: 2000, protein: 150, carbs: 90, fat: 40, fiber: 10 }, goals, template);
+  assert.ok(result.issues.includes('Fat intake is low for keto'));
+  assert.ok(result.issues.includes('Net carbs are over your 50g limit'));
+
+  // Fat over the goal isn't flagged when fat is the fuel
+  const highFat = calculateMacroCompliance({ calories: 2000, protein: 150, carbs: 40, fat: 150, fiber: 10 }, goals, template);
+  assert.ok(!highFat.issues.some(issue => issue.startsWith('Fat is')));
+
+  const suggestions = getNextMealSuggestions(800, 40, 20, 40, template);
+  assert.ok(suggestions.includes('Add healthy fats: avocado, olive oil, or fatty fish'));
+  assert.strictEqual(suggestions[suggestions.length - 1], 'Salmon with asparagus');
+});
+
+test('diet templates - create, list, clone, edit and delete', async () => {
+  const server = await buildServer();
+  await saveGlobalDietTemplate('carnivore', { name: 'Carnivore', proteinRatio: 35, carbsRatio: 0, fatRatio: 65 });
+
+  const created = await server.inject({ method: 'POST', url: '/api/diet-templates', headers, payload: cutting });
+  assert.strictEqual(created.statusCode, 201);
+  const { template } = created.json();
+  assert.match(template.dietType, /^custom-/);
+  assert.strictEqual(template.source, 'custom');
+
+  const invalid = await server.inject({ method: 'POST', url: '/api/diet-templates', headers, payload: { ...cutting, proteinRatio: 90 } });
+  assert.strictEqual(invalid.statusCode, 400);
+
+  const listed = (await server.inject({ method: 'GET', url: '/api/diet-templates', headers })).json().templates;
+  assert.deepStrictEqual(
+    listed.map((t: { source: string }) => t.source),
+    [...Object.keys(DIET_TEMPLATES).map(() => 'built-in'), 'global', 'custom']
+  );
+  const guestList = (await server.inject({ method: 'GET', url: '/api/diet-templates' })).json().templates;
+  assert.strictEqual(guestList.length, Object.keys(DIET_TEMPLATES).length + 1);
+
+  const clone = await server.inject({ method: 'POST', url: '/api/diet-templates/keto/clone', headers });
+  assert.strictEqual(clone.statusCode, 201);
+  assert.strictEqual(clone.json().template.name, 'Ketogenic (copy)');
+  assert.strictEqual(clone.json().template.rules.fatIsFuel, true);
+  assert.strictEqual((await server.inject({ method: 'POST', url: `/api/diet-templates/${template.dietType}/clone`, headers: otherHeaders })).statusCode, 404);
+
+  const edited = await server.inject({ method: 'PUT', url: `/api/diet-templates/${template.dietType}`, headers, payload: { name: 'Cut', fatTolerance: 15 } });
+  assert.strictEqual(edited.statusCode, 200);
+  assert.strictEqual(edited.json().template.name, 'Cut');
+  assert.strictEqual(edited.json().template.proteinRatio, 40);
+
+  // Only the owner edits a custom template; built-in and global ones are cloned instead
+  assert.strictEqual((await server.inject({ method: 'PUT', url: `/api/diet-templates/${template.dietType}`, headers: otherHeaders, payload: { name: 'Mine' } })).statusCode, 403);
+  assert.strictEqual((await server.inject({ method: 'PUT', url: '/api/diet-templates/carnivore', headers, payload: { name: 'Mine' } })).statusCode, 403);
+  assert.strictEqual((await server.inject({ method: 'DELETE', url: '/api/diet-templates/keto', headers })).statusCode, 404);
+
+  const deleted = await server.inject({ method: 'DELETE', url: `/api/diet-templates/${template.dietType}`, headers });
+  assert.strictEqual(deleted.statusCode, 200);
+  assert.strictEqual(await db.findDietTemplateByType(template.dietType), null);
+  assert.strictEqual((await resolveDietTemplate(template.dietType)).dietType, 'balanced');
+});
+
+test('profiles use custom templates for goals and suggestions', async () => {
+  const server = await buildServer();
+  const { template } = (await server.inject({ method: 'POST', url: '/api/diet-templates', headers, payload: cutting })).json();
+
+  const refused = await server.inject({ method: 'POST', url: '/api/profile', headers: otherHeaders, payload: { dietType: template.dietType } });
+  assert.strictEqual(refused.statusCode, 400);
+
+  const saved = await server.inject({ method: 'POST', url: '/api/profile', headers, payload: { dietType: template.dietType } });
+  assert.strictEqual(saved.statusCode, 200);
+  assert.strictEqual(saved.json().profile.dailyCalorieGoal, 1800);
+  assert.strictEqual(saved.json().profile.dailyProteinGoal, 180);
+  assert.strictEqual((await server.inject({ method: 'GET', url: '/api/profile', headers })).json().template.name, 'Cutting');
+
+  const today = (await server.inject({ method: 'GET', url: '/api/progress/today', headers })).json();
+  assert.strictEqual(today.template.name, 'Cutting');
+  assert.ok(today.suggestions.includes('Egg white omelette with spinach'));
+
+  // Deleting the template the profile uses moves it back to Balanced
+  await server.inject({ method: 'DELETE', url: `/api/diet-templates/${template.dietType}`, headers });
+  assert.strictEqual((await db.findUserProfileByUserId('user-1'))?.dietType, 'balanced');
+});
@@ -0,0 +1,157 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import Fastify from 'fastify';
+import profileRoutes from '../routes/profile.js';
+import { setDb } from '../services/database.js';
+import { InMemoryDatabase } from '../services/memoryDatabase.js';
+import { estimateEnergyExpenditure } from '../services/energyExpenditure.js';
+import { KCAL_PER_KG } from '../services/calorieTargets.js';
+import type { TrendPoint } from '../services/bodyMeasurements.js';
+import { generateToken } from '../services/auth.js';
+import { localDay, addDays, toDateKey } from '../utils/timezone.js';
+
+let db: InMemoryDatabase;
+
+beforeEach(async () => {
+  db = new InMemoryDatabase();
+  setDb(db);
+  await db.createUserProfile({
+    userId: 'user-1',
+    dietType: 'balanced',
+    dailyCalorieGoal: 2000,
+    dailyProteinGoal: 150,
+    dailyCarbsGoal: 200,
+    dailyFatGoal: 67,
+    dailyFiberGoal: null,
+    dailySugarLimit: null,
+    weight: 90,
+    goalWeight: null,
+    height: 180,
+    age: 35,
+    gender: 'male',
+    activityLevel: 'sedentary',
+    dietaryRestrictions: [],
+    micronutrientLimits: {},
+    timezone: 'UTC'
+  });
+});
+
+async function buildServer() {
+  const server = Fastify();
+  await server.register(profileRoutes);
+  return server;
+}
+
+const headers = { authorization: `Bearer ${generateToken({ userId: 'user-1', email: 'user@example.com' })}` };
+
+const TODAY = new Date(Date.UTC(2026, 3, 20));
+
+function intakeDays(days: number, calories: number, today: Date = TODAY) {
+  return Array.from({ length: days }, (_, i) => ({ date: addDays(today, -days + i), totalCalories: calories, mealCount: 3 }));
+}
+
+// A trend falling by `perWeek` kg every week, one point a day up to and including today
+function fallingTrend(days: number, perWeek: number): TrendPoint[] {
+  return Array.from({ length: days + 1 }, (_, i) => {
+    const weight = 90 - (perWeek / 7) * i;
+    return { date: toDateKey(addDays(TODAY, -days + i)), weight, trend: weight };
+  });
+}
+
+// Logs meals and weigh-ins for the last `days` days: steady intake and a steady loss
+async function logHistory(days: number, calories: number, perWeek: number) {
+  const today = localDay(new Date(), 'UTC');
+  for (let i = 0; i < days; i++) {
+    const date = addDays(today, -days + i);
+    await db.createOrUpdateDailyProgress({
+      userId: 'user-1', date, totalCalories: calories, totalProtein: 150, totalCarbs: 250, totalFat: 80, totalFiber: 25,
+      totalSugar: 40, totalMicronutrients: {}, mealCount: 3, goalCalories: 2000, goalProtein: 150, goalCarbs: 200, goalFat: 67,
+      goalFiber: null, goalSugar: null, micronutrientLimits: {}, isOnTrack: true, carbsCompliance: 1,
+      proteinCompliance: 1, fatCompliance: 1, dietType: 'balanced'
+    });
+    await db.createBodyMeasurement({
+      userId: 'user-1',
+      measuredAt: new Date(date.getTime() + 7 * 60 * 60 * 1000),
+      weight: 95 - (perWeek / 7) * i,
+      waist: null,
+      bodyFat: null,
+      notes: null
+    });
+  }
+}
+
+test('estimateEnergyExpenditure - intake plus the energy from weight lost', () => {
+  const estimate = estimateEnergyExpenditure(intakeDays(42, 2500), fallingTrend(42, 0.5), TODAY);
+
+  assert.ok(estimate);
+  assert.strictEqual(estimate.tdee, Math.round(2500 + (0.5 * KCAL_PER_KG) / 7));
+  assert.strictEqual(estimate.confidence, 'high');
+  assert.strictEqual(estimate.windows.length, 4);
+  assert.strictEqual(estimate.windows[0].end, '2026-04-19');
+  assert.strictEqual(estimate.windows[0].weightChange, -1);
+});
+
+test('estimateEnergyExpenditure - needs enough logged days and weigh-ins', () => {
+  // Meals on only 9 of the last 14 days
+  const sparse = intakeDays(14, 2500).filter((_, i) => i % 2 === 0 || i > 10);
+  assert.strictEqual(estimateEnergyExpenditure(sparse, fallingTrend(14, 0.5), TODAY), null);
+
+  // No weigh-in for more than 3 days before the window ends
+  const stale = fallingTrend(14, 0.5).slice(0, -5);
+  assert.strictEqual(estimateEnergyExpenditure(intakeDays(14, 2500), stale, TODAY), null);
+
+  // One full window only
+  const estimate = estimateEnergyExpenditure(intakeDays(14, 2500), fallingTrend(14, 0.5), TODAY);
+  assert.strictEqual(estimate?.confidence, 'low');
+});
+
+test('estimateEnergyExpenditure - skips unlogged days instead of counting them as zero', () => {
+  const intake = intakeDays(14, 2200).map((day, i) => (i < 3 ? { ...day, totalCalories: 0, mealCount: 0 } : day));
+  const flat = fallingTrend(14, 0);
+
+  assert.strictEqual(estimateEnergyExpenditure(intake, flat, TODAY)?.tdee, 2200);
+});
+
+test('GET /api/profile/adaptive-goals - proposes goals from measured expenditure', async () => {
+  const server = await buildServer();
+
+  const empty = await server.inject({ method: 'GET', url: '/api/profile/adaptive-goals', headers });
+  assert.strictEqual(empty.statusCode, 200);
+  assert.strictEqual(empty.json().estimate, null);
+  assert.strictEqual(empty.json().proposedGoals, null);
+  assert.ok(empty.json().formulaTdee > 0);
+
+  await logHistory(60, 2500, 0.5);
+  await db.updateUserProfile('user-1', { goalWeight: 80 });
+
+  const response = await server.inject({ method: 'GET', url: '/api/profile/adaptive-goals', headers });
+  assert.strictEqual(response.statusCode, 200);
+  const body = response.json();
+  assert.ok(Math.abs(body.estimate.tdee - 3050) < 100, `estimated ${body.estimate.tdee}`);
+  assert.strictEqual(body.direction, 'lose');
+  assert.strictEqual(body.dailyAdjustment, -550);
+  assert.strictEqual(body.proposedGoals.calories, Math.round((body.estimate.tdee - 550) / 10) * 10);
+  assert.deepStrictEqual(body.currentGoals, { calories: 2000, protein: 150, carbs: 200, fat: 67 });
+
+  const unauthenticated = await server.inject({ method: 'GET', url: '/api/profile/adaptive-goals' });
+  assert.strictEqual(unauthenticated.statusCode, 401);
+});
+
+test('POST /api/profile/adaptive-goals - applies the proposal, or 409 without enough data', async () => {
+  const server = await buildServer();
+
+  const tooEarly = await server.inject({ method: 'POST', url: '/api/profile/adaptive-goals', headers });
+  assert.strictEqual(tooEarly.statusCode, 409);
+  assert.strictEqual((await db.findUserProfileByUserId('user-1'))?.dailyCalorieGoal, 2000);
+
+  await logHistory(60, 2500, 0.5);
+  const proposed = (await server.inject({ method: 'GET', url: '/api/profile/adaptive-goals', headers })).json().proposedGoals;
+
+  const accepted = await server.inject({ method: 'POST', url: '/api/profile/adaptive-goals', headers });
+  assert.strictEqual(accepted.statusCode, 200);
+  const { profile } = accepted.json();
+  assert.strictEqual(profile.dailyCalorieGoal, proposed.calories);
+  assert.strictEqual(profile.dailyProteinGoal, proposed.protein);
+  assert.strictEqual(profile.dailyCarbsGoal, proposed.carbs);
+  assert.strictEqual(profile.dailyFatGoal, proposed.fat);
+});
@@ -0,0 +1,204 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { writeFile, mkdtemp } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Fastify from 'fastify';
+import { foodsRoutes } from '../routes/foods.js';
+import { setDb } from '../services/database.js';
+import { InMemoryDatabase } from '../services/memoryDatabase.js';
+import { importUsdaFoodData, reconcileFoods, matchReferenceFood } from '../services/foodReference.js';
+import { analyzeAndSave } from '../services/analysisPipeline.js';
+import { parsePortion, portionToGrams } from '../utils/portions.js';
+import { parseCsvLine } from '../utils/csv.js';
+
+let db: InMemoryDatabase;
+
+const broccoli = {
+  id: '170379',
+  description: 'Broccoli, raw',
+  category: 'Vegetables and Vegetable Products',
+  dataType: 'sr_legacy_food',
+  nutrientsPer100g: { calories: 34, protein: 2.8, carbs: 6.6, fat: 0.4, fiber: 2.6, sugar: 1.7, sodium: 33 },
+  portions: [{ unit: 'cup', amount: 1, gramWeight: 91, description: 'cup chopped' }],
+  source: 'usda'
+};
+
+const chicken = {
+  id: '171477',
+  description: 'Chicken, broilers or fryers, breast, meat only, cooked, grilled',
+  category: 'Poultry Products',
+  dataType: 'sr_legacy_food',
+  nutrientsPer100g: { calories: 165, protein: 31, carbs: 0, fat: 3.6, fiber: 0, sugar: 0, sodium: 74 },
+  portions: [],
+  source: 'usda'
+};
+
+beforeEach(() => {
+  db = new InMemoryDatabase();
+  setDb(db);
+});
+
+afterEach(() => {
+  delete process.env.FOOD_RECONCILIATION;
+});
+
+test('parsePortion - reads quantities, fractions, ranges and units', () => {
+  assert.deepStrictEqual(parsePortion('6 oz'), { quantity: 6, unit: 'oz', kind: 'mass' });
+  assert.deepStrictEqual(parsePortion('1 1/2 Cups'), { quantity: 1.5, unit: 'cup', kind: 'volume' });
+  assert.deepStrictEqual(parsePortion('½ cup, chopped'), { quantity: 0.5, unit: 'cup', kind: 'volume' });
+  assert.deepStrictEqual(parsePortion('2-3 slices'), { quantity: 2.5, unit: 'slice', kind: 'count' });
+  assert.deepStrictEqual(parsePortion('8 fl oz'), { quantity: 8, unit: 'fl oz', kind: 'volume' });
+  assert.deepStrictEqual(parsePortion('1 bar (40 g)'), { quantity: 40, unit: 'g', kind: 'mass' });
+  assert.deepStrictEqual(parsePortion('a tablespoon'), { quantity: 1, unit: 'tbsp', kind: 'volume' });
+  assert.strictEqual(parsePortion(''), null);
+});
+
+test('portionToGrams - converts with fixed factors and reference measures', () => {
+  const measures = [
+    { unit: 'cup', amount: 1, gramWeight: 150 },
+    { unit: 'slice', amount: 1, gramWeight: 28 },
+    { unit: 'undetermined', amount: 1, gramWeight: 118, description: '1 medium' }
+  ];
+
+  assert.strictEqual(Math.round(portionToGrams('6 oz')!), 170);
+  assert.strictEqual(portionToGrams('250 ml'), 250);
+  assert.strictEqual(portionToGrams('1/2 cup', measures), 75);
+  assert.strictEqual(portionToGrams('2 tbsp', measures), 18.75);
+  assert.strictEqual(portionToGrams('2 slices', measures), 56);
+  assert.strictEqual(portionToGrams('1 medium', measures), 118);
+  assert.strictEqual(portionToGrams('3 pieces', measures), null);
+});
+
+test('parseCsvLine - handles quoted fields and escaped quotes', () => {
+  assert.deepStrictEqual(parseCsvLine('"1","Beans, ""baked""",,x'), ['1', 'Beans, "baked"', '', 'x']);
+});
+
+test('importUsdaFoodData - builds reference foods from FoodData Central CSVs', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'usda-'));
+  await writeFile(join(dir, 'food_category.csv'), '"id","code","description"\n"11","1100","Vegetables and Vegetable Products"\n');
+  await writeFile(join(dir, 'measure_unit.csv'), '"id","name"\n"1000","cup"\n"9999","undetermined"\n');
+  await writeFile(join(dir, 'food.csv'), [
+    '"fdc_id","data_type","description","food_category_id","publication_date"',
+    '"170379","sr_legacy_food","Broccoli, raw","11","2019-04-01"',
+    '"999","branded_food","Broccoli florets","11","2019-04-01"',
+    '"170000","sr_legacy_food","Water, tap","14","2019-04-01"'
+  ].join('\n'));
+  await writeFile(join(dir, 'food_nutrient.csv'), [
+    '"id","fdc_id","nutrient_id","amount"',
+    '"1","170379","1008","34"',
+    '"2","170379","1003","2.82"',
+    '"3","170379","1005","6.64"',
+    '"4","170379","1004","0.37"',
+    '"5","170379","1079","2.6"',
+    '"6","170379","2000","1.7"',
+    '"7","170379","1093","33"',
+    '"8","170379","1162","89.2"',
+    '"9","999","1008","30"'
+  ].join('\n'));
+  await writeFile(join(dir, 'food_portion.csv'), [
+    '"id","fdc_id","seq_num","amount","measure_unit_id","portion_description","modifier","gram_weight"',
+    '"1","170379","1","1","9999","","cup chopped","91"',
+    '"2","170379","2","1","9999","","spear (about 5"" long)","31"'
+  ].join('\n'));
+
+  const summary = await importUsdaFoodData(dir, db);
+
+  // Branded foods are excluded; water has no energy value
+  assert.deepStrictEqual(summary, { imported: 1, skipped: 1 });
+  const food = await db.findReferenceFoodById('170379');
+  assert.strictEqual(food?.category, 'Vegetables and Vegetable Products');
+  assert.deepStrictEqual(food?.nutrientsPer100g, { calories: 34, protein: 2.8, carbs: 6.6, fat: 0.4, fiber: 2.6, sugar: 1.7, sodium: 33, vitaminC: 89.2 });
+  assert.deepStrictEqual(food?.portions.map(p => [p.unit, p.gramWeight]), [['cup', 91], ['spear', 31]]);
+  assert.strictEqual(portionToGrams('2 spears', food!.portions), 62);
+});
+
+test('matchReferenceFood - drops leading descriptors until a food matches', async () => {
+  await db.upsertReferenceFoods([broccoli, chicken]);
+
+  assert.strictEqual((await matchReferenceFood('Steamed broccoli', db))?.id, broccoli.id);
+  assert.strictEqual((await matchReferenceFood('Grilled chicken breast', db))?.id, chicken.id);
+  assert.strictEqual(await matchReferenceFood('Mixed green salad with vinaigrette', db), null);
+});
+
+test('matchReferenceFood - matches whole words and keeps words that name the food', async () => {
+  const eggplant = { ...broccoli, id: '1', description: 'Eggplant, raw' };
+  const peanuts = { ...broccoli, id: '2', description: 'Peanuts, all types, raw' };
+  const soup = { ...broccoli, id: '3', description: 'Soup, chicken noodle' };
+  await db.upsertReferenceFoods([eggplant, peanuts, soup]);
+
+  assert.strictEqual(await matchReferenceFood('Scrambled eggs', db), null);
+  assert.strictEqual(await matchReferenceFood('Peas', db), null);
+  assert.strictEqual(await matchReferenceFood('Pea soup', db), null);
+  assert.strictEqual((await matchReferenceFood('Roasted peanuts', db))?.id, peanuts.id);
+});
+
+test('reconcileFoods - ignores matches far from the model estimate', async () => {
+  await db.upsertReferenceFoods([broccoli]);
+
+  const food = { name: 'Broccoli', portion: '1 cup', nutrition: { calories: 250, protein: 4, carbs: 11, fat: 20, fiber: 5, sugar: 2 }, confidence: 0.7 };
+  const { data, repairs } = await reconcileFoods({ foods: [food], totals: food.nutrition }, db);
+
+  assert.strictEqual(data.foods[0].reference, undefined);
+  assert.strictEqual(data.foods[0].nutrition.calories, 250);
+  assert.deepStrictEqual(repairs, []);
+});
+
+test('reconcileFoods - corrects macros from the reference and recomputes totals', async () => {
+  await db.upsertReferenceFoods([broccoli, chicken]);
+
+  const { data, repairs } = await reconcileFoods({
+    foods: [
+      { name: 'Steamed broccoli', portion: '1 cup', nutrition: { calories: 55, protein: 4, carbs: 11, fat: 0.5, fiber: 5, sugar: 2 }, confidence: 0.85 },
+      { name: 'Grilled chicken breast', portion: '6 oz', nutrition: { calories: 280, protein: 53, carbs: 0, fat: 6, fiber: 0, sugar: 0 }, confidence: 0.9 },
+      { name: 'Dragonfruit smoothie', portion: '1 glass', nutrition: { calories: 150, protein: 2, carbs: 35, fat: 1, fiber: 3, sugar: 28 }, confidence: 0.6 }
+    ],
+    totals: { calories: 485, protein: 59, carbs: 46, fat: 7.5, fiber: 8, sugar: 30 }
+  }, db);
+
+  assert.deepStrictEqual(data.foods[0].reference, { id: broccoli.id, description: 'Broccoli, raw', grams: 91 });
+  assert.strictEqual(data.foods[0].nutrition.calories, 30.9);
+  // The chicken estimate was already within 1 of the reference, so it isn't reported as a repair
+  assert.strictEqual(data.foods[1].nutrition.calories, 280.7);
+  assert.strictEqual(data.foods[1].reference?.grams, 170.1);
+  assert.strictEqual(data.foods[2].reference, undefined);
+  assert.strictEqual(data.foods[2].nutrition.calories, 150);
+  assert.strictEqual(data.totals.calories, 461.6);
+  assert.deepStrictEqual(repairs.map(r => r.type), ['reconciled', 'recomputed_totals']);
+});
+
+test('analyzeAndSave - reconciles meal photos but not label reads, when enabled', async () => {
+  await db.upsertReferenceFoods([broccoli]);
+  const images = [{ data: Buffer.from('fake-jpeg'), mimeType: 'image/jpeg' }];
+
+  // Off by default
+  assert.strictEqual((await analyzeAndSave({ images, modelName: 'stub' })).foods[1].reference, undefined);
+
+  process.env.FOOD_RECONCILIATION = 'on';
+
+  const meal = await analyzeAndSave({ images, modelName: 'stub' });
+  assert.strictEqual(meal.foods[1].nutrition.calories, 30.9);
+  assert.strictEqual(meal.totals.calories, 310.9);
+
+  const label = await analyzeAndSave({ images, modelName: 'stub:label', mode: 'label' });
+  assert.strictEqual(label.foods[0].reference, undefined);
+});
+
+test('GET /api/foods/search - finds foods and sizes a portion', async () => {
+  await db.upsertReferenceFoods([broccoli, chicken]);
+  const server = Fastify();
+  await server.register(foodsRoutes);
+
+  const response = await server.inject({ method: 'GET', url: '/api/foods/search?q=broccoli&portion=2%20cups' });
+  assert.strictEqual(response.statusCode, 200);
+  const { foods } = JSON.parse(response.body);
+  assert.strictEqual(foods.length, 1);
+  assert.strictEqual(foods[0].portion.grams, 182);
+  assert.strictEqual(foods[0].portion.nutrition.calories, 61.9);
+
+  const byId = await server.inject({ method: 'GET', url: `/api/foods/${chicken.id}` });
+  assert.strictEqual(JSON.parse(byId.body).description, chicken.description);
+
+  assert.strictEqual((await server.inject({ method: 'GET', url: '/api/foods/search' })).statusCode, 400);
+  assert.strictEqual((await server.inject({ method: 'GET', url: '/api/foods/404' })).statusCode, 404);
+});
@@ -0,0 +1,197 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { writeFile, mkdtemp } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Fastify from 'fastify';
+import multipart from '@fastify/multipart';
+import sharp from 'sharp';
+import { foodsRoutes } from '../routes/foods.js';
+import { setDb } from '../services/database.js';
+import { InMemoryDatabase } from '../services/memoryDatabase.js';
+import { generateToken } from '../services/auth.js';
+import { parseOpenFoodFactsProduct, importOpenFoodFacts } from '../services/foodCatalog.js';
+import { isValidBarcode, barcodeCandidates, expandUpcE, decodeBarcodeImage, BarcodeError } from '../utils/barcode.js';
+
+let db: InMemoryDatabase;
+
+const yogurt = {
+  barcode: '5000112637922',
+  name: 'Greek Style Yogurt',
+  brand: 'Dairy Co',
+  servingSize: '150 g',
+  servingQuantity: 150,
+  nutrientsPer100g: { calories: 100, protein: 10, carbs: 4, fat: 5, fiber: 0, sugar: 4, sodium: 50 },
+  source: 'openfoodfacts'
+};
+
+beforeEach(async () => {
+  db = new InMemoryDatabase();
+  setDb(db);
+  await db.upsertFoodProducts([yogurt]);
+});
+
+async function buildServer() {
+  const server = Fastify();
+  await server.register(multipart);
+  await server.register(foodsRoutes);
+  return server;
+}
+
+const headers = { authorization: `Bearer ${generateToken({ userId: 'user-1', email: 'user@example.com' })}` };
+
+// Render an EAN-13 barcode as a PNG so the decoder can be exercised end to end
+const L_CODES = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+function ean13Png(code: string): Promise<Buffer> {
+  const digits = code.split('').map(Number);
+  const rCode = (d: number) => L_CODES[d].split('').map(bit => (bit === '1' ? '0' : '1')).join('');
+  const gCode = (d: number) => rCode(d).split('').reverse().join('');
+
+  let bits = '101';
+  for (let i = 1; i <= 6; i++) {
+    bits += PARITY[digits[0]][i - 1] === 'L' ? L_CODES[digits[i]] : gCode(digits[i]);
+  }
+  bits += '01010';
+  for (let i = 7; i <= 12; i++) bits += rCode(digits[i]);
+  bits += '101';
+
+  const moduleWidth = 3;
+  const quiet = 12;
+  const width = (bits.length + quiet * 2) * moduleWidth;
+  const height = 80;
+  const pixels = Buffer.alloc(width * height, 255);
+  for (let y = 0; y < height; y++) {
+    for (let i = 0; i < bits.length; i++) {
+      if (bits[i] === '1') {
+        pixels.fill(0, y * width + (quiet + i) * moduleWidth, y * width + (quiet + i + 1) * moduleWidth);
+      }
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 1 } }).png().toBuffer();
+}
+
+function imageForm(image: Buffer, fields: Record<string, string> = {}) {
+  const form = new FormData();
+  form.append('image', new Blob([new Uint8Array(image)], { type: 'image/png' }), 'barcode.png');
+  for (const [name, value] of Object.entries(fields)) form.append(name, value);
+  return form;
+}
+
+test('isValidBarcode - checks length and check digit', () => {
+  assert.strictEqual(isValidBarcode('5000112637922'), true);
+  assert.strictEqual(isValidBarcode('036000291452'), true);
+  assert.strictEqual(isValidBarcode('96385074'), true);
+  assert.strictEqual(isValidBarcode('5000112637923'), false);
+  assert.strictEqual(isValidBarcode('12345'), false);
+  assert.strictEqual(isValidBarcode('abc'), false);
+});
+
+test('barcodeCandidates and expandUpcE - cover UPC variants', () => {
+  assert.deepStrictEqual(barcodeCandidates('036000291452'), ['036000291452', '0036000291452']);
+  assert.deepStrictEqual(barcodeCandidates('0036000291452'), ['0036000291452', '036000291452']);
+  assert.strictEqual(expandUpcE('04252614'), '042100005264');
+});
+
+test('parseOpenFoodFactsProduct - maps JSONL and CSV records', () => {
+  const fromJson = parseOpenFoodFactsProduct({
+    code: '3017620422003',
+    product_name: 'Nutella',
+    brands: 'Ferrero, Nutella',
+    serving_size: '15 g',
+    serving_quantity: 15,
+    nutriments: { 'energy-kcal_100g': 539, proteins_100g: 6.3, carbohydrates_100g: 57.5, fat_100g: 30.9, sugars_100g: 56.3, sodium_100g: 0.0428 }
+  });
+  assert.strictEqual(fromJson?.brand, 'Ferrero');
+  assert.strictEqual(fromJson?.nutrientsPer100g.sodium, 42.8);
+  assert.strictEqual(fromJson?.nutrientsPer100g.fiber, 0);
+
+  // Energy only in kJ, values as CSV strings
+  const fromCsv = parseOpenFoodFactsProduct({ code: '96385074', product_name: 'Crispbread', energy_100g: '1548', proteins_100g: '9' });
+  assert.strictEqual(fromCsv?.nutrientsPer100g.calories, 370);
+  assert.strictEqual(fromCsv?.servingQuantity, null);
+
+  assert.strictEqual(parseOpenFoodFactsProduct({ code: '96385074', product_name: 'No energy' }), null);
+  assert.strictEqual(parseOpenFoodFactsProduct({ product_name: 'No code', energy_100g: 100 }), null);
+});
+
+test('importOpenFoodFacts - streams a tab-separated export', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'foods-'));
+  const file = join(dir, 'products.csv');
+  await writeFile(file, [
+    'code\tproduct_name\tbrands\tserving_size\tserving_quantity\tenergy-kcal_100g\tproteins_100g\tcarbohydrates_100g\tfat_100g\tsodium_100g',
+    '96385074\tCrispbread\tRye Co\t2 slices (20 g)\t20\t350\t9\t66\t1.5\t0.4',
+    '\tMissing code\t\t\t\t100\t1\t1\t1\t0'
+  ].join('\n'));
+
+  const summary = await importOpenFoodFacts(file, db);
+
+  assert.deepStrictEqual(summary, { imported: 1, skipped: 1 });
+  const product = await db.findFoodProductByBarcode('96385074');
+  assert.strictEqual(product?.servingSize, '2 slices (20 g)');
+  assert.strictEqual(product?.nutrientsPer100g.sodium, 400);
+});
+
+test('decodeBarcodeImage - reads an EAN-13 from an image', async () => {
+  assert.strictEqual(await decodeBarcodeImage(await ean13Png('5000112637922')), '5000112637922');
+
+  const blank = await sharp({ create: { width: 100, height: 100, channels: 3, background: '#ffffff' } }).png().toBuffer();
+  await assert.rejects(decodeBarcodeImage(blank), BarcodeError);
+});
+
+test('POST /api/foods/barcode - logs a meal from a typed code', async () => {
+  const server = await buildServer();
+
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/foods/barcode',
+    payload: { barcode: '5000 1126 37922', servings: 2 },
+    headers
+  });
+
+  assert.strictEqual(response.statusCode, 201);
+  const body = JSON.parse(response.body);
+  assert.strictEqual(body.foods[0].name, 'Dairy Co Greek Style Yogurt');
+  assert.strictEqual(body.foods[0].portion, '2 × 150 g');
+  assert.strictEqual(body.foods[0].confidence, 1);
+  assert.strictEqual(body.totals.calories, 300);
+  assert.strictEqual(body.totals.sodium, 150);
+
+  const [meal] = await db.findMealAnalysesByUserId('user-1');
+  assert.strictEqual(meal.id, body.id);
+  assert.strictEqual(meal.nutritionData.barcode.code, '5000112637922');
+});
+
+test('POST /api/foods/barcode - decodes an uploaded photo', async () => {
+  const server = await buildServer();
+
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/foods/barcode',
+    payload: imageForm(await ean13Png('5000112637922')),
+    headers
+  });
+
+  assert.strictEqual(response.statusCode, 201);
+  assert.strictEqual(JSON.parse(response.body).totals.calories, 150);
+});
+
+test('POST /api/foods/barcode - reports unreadable, invalid and unknown codes', async () => {
+  const server = await buildServer();
+  const blank = await sharp({ create: { width: 100, height: 100, channels: 3, background: '#ffffff' } }).png().toBuffer();
+
+  const unreadable = await server.inject({ method: 'POST', url: '/api/foods/barcode', payload: imageForm(blank), headers });
+  assert.strictEqual(unreadable.statusCode, 422);
+  assert.strictEqual(JSON.parse(unreadable.body).code, 'BARCODE_NOT_FOUND');
+
+  const invalid = await server.inject({ method: 'POST', url: '/api/foods/barcode', payload: { barcode: '5000112637923' }, headers });
+  assert.strictEqual(invalid.statusCode, 400);
+
+  const unknown = await server.inject({ method: 'POST', url: '/api/foods/barcode', payload: { barcode: '96385074' }, headers });
+  assert.strictEqual(unknown.statusCode, 404);
+  assert.strictEqual(JSON.parse(unknown.body).code, 'PRODUCT_NOT_FOUND');
+
+  const guest = await server.inject({ method: 'POST', url: '/api/foods/barcode', payload: { barcode: '5000112637922' } });
+  assert.strictEqual(guest.statusCode, 401);
+});
@@ -0,0 +1,306 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import Fastify from 'fastify';
+import { mealsRoutes } from '../routes/meals.js';
+import { setDb } from '../services/database.js';
+import { InMemoryDatabase } from '../services/memoryDatabase.js';
+import { generateToken } from '../services/auth.js';
+
+let db: InMemoryDatabase;
+
+beforeEach(async () => {
+  db = new InMemoryDatabase();
+  setDb(db);
+  await db.createUserProfile({
+    userId: 'user-1',
+    dietType: 'balanced',
+    dailyCalorieGoal: 2000,
+    dailyProteinGoal: 150,
+    dailyCarbsGoal: 200,
+    dailyFatGoal: 67,
+    dailyFiberGoal: null,
+    dailySugarLimit: null,
+    weight: null,
+    goalWeight: null,
+    height: null,
+    age: null,
+    gender: null,
+    activityLevel: null,
+    dietaryRestrictions: [],
+    micronutrientLimits: {},
+    timezone: 'UTC'
+  });
+});
+
+async function buildServer() {
+  const server = Fastify();
+  await server.register(mealsRoutes);
+  return server;
+}
+
+const headers = { authorization: `Bearer ${generateToken({ userId: 'user-1', email: 'user@example.com' })}` };
+
+async function todaysProgress() {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  return db.findDailyProgressByUserAndDate('user-1', today);
+}
+
+test('POST /api/meals - logs structured food items and updates progress', async () => {
+  const server = await buildServer();
+
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/meals',
+    headers,
+    payload: {
+      foods: [
+        { name: 'Oatmeal', portion: '1 cup', nutrition: { calories: 158, protein: 6, carbs: 27, fat: 3.2, fiber: 4 } },
+        { name: 'Banana', portion: '1 medium', nutrition: { calories: 105, protein: 1.3, carbs: 27, fat: 0.4, fiber: 3.1, sugar: 14 } }
+      ],
+      mealType: 'snack'
+    }
+  });
+
+  assert.strictEqual(response.statusCode, 201);
+  const meal = JSON.parse(response.body);
+  assert.strictEqual(meal.thumbnail, null);
+  assert.strictEqual(meal.mealType, 'snack');
+  assert.strictEqual(meal.foods[0].confidence, 1);
+  assert.strictEqual(meal.foods[0].nutrition.sugar, 0);
+  assert.deepStrictEqual(meal.totals, { calories: 263, protein: 7.3, carbs: 54, fat: 3.6, fiber: 7.1, sugar: 14 });
+
+  const saved = await db.findMealAnalysisById(meal.id);
+  assert.strictEqual(saved?.nutritionData.parsing.mode, 'manual');
+  assert.strictEqual((await todaysProgress())?.totalCalories, 263);
+});
+
+test('POST /api/meals - totals micronutrients and checks them against profile limits', async () => {
+  await db.updateUserProfile('user-1', { micronutrientLimits: { sodium: 1500, potassium: 3400 } });
+  const server = await buildServer();
+
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/meals',
+    headers,
+    payload: {
+      foods: [
+        { name: 'Ramen', portion: '1 bowl', nutrition: { calories: 450, protein: 12, carbs: 60, fat: 17, sodium: 1820, saturatedFat: 7.5 } },
+        { name: 'Green tea', portion: '1 cup', nutrition: { calories: 2, protein: 0, carbs: 0, fat: 0, sodium: 2 } }
+      ]
+    }
+  });
+
+  assert.strictEqual(response.statusCode, 201);
+  const meal = JSON.parse(response.body);
+  assert.strictEqual(meal.totals.sodium, 1822);
+  assert.strictEqual(meal.totals.saturatedFat, 7.5);
+
+  const progress = await todaysProgress();
+  assert.deepStrictEqual(progress?.totalMicronutrients, { sodium: 1822, saturatedFat: 7.5 });
+  assert.deepStrictEqual(progress?.micronutrientLimits, { sodium: 1500, potassium: 3400 });
+  assert.strictEqual(progress?.isOnTrack, false);
+});
+
+test('POST /api/meals - computes nutrition for reference foods', async () => {
+  await db.upsertReferenceFoods([{
+    id: '173944',
+    description: 'Bananas, raw',
+    category: 'Fruits and Fruit Juices',
+    dataType: 'sr_legacy_food',
+    nutrientsPer100g: { calories: 89, protein: 1.1, carbs: 22.8, fat: 0.3, fiber: 2.6, sugar: 12.2, sodium: 1 },
+    portions: [{ unit: 'medium', amount: 1, gramWeight: 118, description: 'medium (7" to 7-7/8" long)' }],
+    source: 'usda'
+  }]);
+  const server = await buildServer();
+
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/meals',
+    headers,
+    payload: { foods: [{ referenceId: '173944', portion: '2 medium' }], timestamp: '2026-03-01T08:30:00.000Z' }
+  });
+
+  assert.strictEqual(response.statusCode, 201);
+  const meal = JSON.parse(response.body);
+  assert.strictEqual(meal.timestamp, '2026-03-01T08:30:00.000Z');
+  // Inferred from the time in the profile's time zone (UTC)
+  assert.strictEqual(meal.mealType, 'breakfast');
+  assert.strictEqual(meal.foods[0].name, 'Bananas, raw');
+  assert.deepStrictEqual(meal.foods[0].reference, { id: '173944', description: 'Bananas, raw', grams: 236 });
+  assert.strictEqual(meal.totals.calories, 210);
+
+  const unknown = await server.inject({
+    method: 'POST',
+    url: '/api/meals',
+    headers,
+    payload: { foods: [{ referenceId: '173944', portion: '3 handfuls' }] }
+  });
+  assert.strictEqual(unknown.statusCode, 400);
+  assert.match(JSON.parse(unknown.body).error, /can't be converted to grams/);
+});
+
+test('POST /api/meals - parses a text description with the model provider', async () => {
+  const server = await buildServer();
+
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/meals',
+    headers,
+    payload: { text: '2 eggs, toast with butter, black coffee', model: 'stub:breakfast' }
+  });
+
+  assert.strictEqual(response.statusCode, 201);
+  const meal = JSON.parse(response.body);
+  assert.deepStrictEqual(meal.foods.map((food: { name: string }) => food.name), ['Scrambled eggs', 'Toast with butter', 'Black coffee']);
+  assert.strictEqual(meal.totals.calories, 294);
+
+  const saved = await db.findMealAnalysisById(meal.id);
+  assert.strictEqual(saved?.nutritionData.description, '2 eggs, toast with butter, black coffee');
+  assert.strictEqual(saved?.nutritionData.parsing.mode, 'text');
+  assert.strictEqual(saved?.nutritionData.parsing.provider, 'stub');
+  assert.strictEqual((await todaysProgress())?.mealCount, 1);
+});
+
+test('POST /api/meals - rejects invalid requests', async () => {
+  const server = await buildServer();
+  const post = (payload: object, requestHeaders: Record<string, string> = headers) =>
+    server.inject({ method: 'POST', url: '/api/meals', headers: requestHeaders, payload });
+
+  assert.strictEqual((await post({ text: 'toast' }, {})).statusCode, 401);
+  assert.strictEqual((await post({})).statusCode, 400);
+  assert.strictEqual((await post({ text: 'toast', foods: [] })).statusCode, 400);
+  assert.strictEqual((await post({ foods: [] })).statusCode, 400);
+  assert.strictEqual((await post({ text: 'x'.repeat(1001) })).statusCode, 400);
+  assert.strictEqual((await post({ text: 'toast', timestamp: 'yesterday' })).statusCode, 400);
+  assert.strictEqual((await post({ text: 'toast', mealType: 'brunch' })).statusCode, 400);
+
+  const missingNutrition = await post({ foods: [{ name: 'Toast', portion: '1 slice' }, { name: 'Jam' }] });
+  assert.strictEqual(missingNutrition.statusCode, 400);
+  assert.strictEqual(JSON.parse(missingNutrition.body).error, 'foods[0].nutrition must be an object');
+
+  const malformed = await post({ text: 'toast', model: 'stub:malformed' });
+  assert.strictEqual(malformed.statusCode, 500);
+
+  assert.strictEqual((await db.findMealAnalysesByUserId('user-1')).length, 0);
+});
+
+test('PUT /api/meals/:id - recalculates the days a meal moves between', async () => {
+  const server = await buildServer();
+  const logged = await server.inject({
+    method: 'POST',
+    url: '/api/meals',
+    headers,
+    payload: {
+      foods: [{ name: 'Pasta', portion: '1 plate', nutrition: { calories: 600, protein: 20, carbs: 90, fat: 15 } }],
+      timestamp: '2026-03-01T19:00:00.000Z'
+    }
+  });
+  const meal = JSON.parse(logged.body);
+  const march1 = new Date('2026-03-01T00:00:00.000Z');
+  const march2 = new Date('2026-03-02T00:00:00.000Z');
+  assert.strictEqual((await db.findDailyProgressByUserAndDate('user-1', march1))?.totalCalories, 600);
+
+  const edited = await server.inject({
+    method: 'PUT',
+    url: `/api/meals/${meal.id}`,
+    headers,
+    payload: { totals: { calories: 450, protein: 20, carbs: 60, fat: 12 } }
+  });
+  assert.strictEqual(edited.statusCode, 200);
+  assert.strictEqual((await db.findDailyProgressByUserAndDate('user-1', march1))?.totalCalories, 450);
+
+  const moved = await server.inject({
+    method: 'PUT',
+    url: `/api/meals/${meal.id}`,
+    headers,
+    payload: { timestamp: '2026-03-02T12:30:00.000Z' }
+  });
+  assert.strictEqual(moved.statusCode, 200);
+  assert.strictEqual(await db.findDailyProgressByUserAndDate('user-1', march1), null);
+  assert.strictEqual((await db.findDailyProgressByUserAndDate('user-1', march2))?.mealCount, 1);
+
+  // Bad edits are refused before anything is saved
+  for (const payload of [{ timestamp: 'yesterday' }, { mealType: 'brunch', timestamp: '2026-03-03T08:00:00.000Z' }]) {
+    const refused = await server.inject({ method: 'PUT', url: `/api/meals/${meal.id}`, headers, payload });
+    assert.strictEqual(refused.statusCode, 400);
+  }
+  assert.strictEqual((await db.findMealAnalysisById(meal.id))?.createdAt.toISOString(), '2026-03-02T12:30:00.000Z');
+});
+
+test('DELETE /api/meals/:id - recalculates the meal\'s day', async () => {
+  const server = await buildServer();
+  const log = (calories: number) => server.inject({
+    method: 'POST',
+    url: '/api/meals',
+    headers,
+    payload: {
+      foods: [{ name: 'Snack', portion: '1', nutrition: { calories, protein: 5, carbs: 20, fat: 5 } }],
+      timestamp: '2026-03-01T15:00:00.000Z'
+    }
+  });
+  const first = JSON.parse((await log(200)).body);
+  const second = JSON.parse((await log(150)).body);
+  const march1 = new Date('2026-03-01T00:00:00.000Z');
+
+  await server.inject({ method: 'DELETE', url: `/api/meals/${first.id}`, headers });
+  const progress = await db.findDailyProgressByUserAndDate('user-1', march1);
+  assert.strictEqual(progress?.mealCount, 1);
+  assert.strictEqual(progress?.totalCalories, 150);
+
+  await server.inject({ method: 'DELETE', url: `/api/meals/${second.id}`, headers });
+  assert.strictEqual(await db.findDailyProgressByUserAndDate('user-1', march1), null);
+});
+
+test('GET /api/meals - pages through filtered meals with a cursor', async () => {
+  await db.updateUserProfile('user-1', { timezone: 'America/New_York' });
+  const log = (name: string, calories: number, createdAt: string, mealType: 'breakfast' | 'dinner') => db.createMealAnalysis({
+    userId: 'user-1',
+    imageUrl: '',
+    nutritionData: { foods: [{ name, portion: '1', nutrition: { calories, protein: 10, carbs: 10, fat: 10 }, confidence: 1 }], totals: { calories, protein: 10, carbs: 10, fat: 10 } },
+    mealType,
+    createdAt: new Date(createdAt)
+  });
+  // 11pm on March 1st in New York is March 2nd in UTC
+  const late = await log('Pizza slice', 300, '2026-03-02T04:00:00.000Z', 'dinner');
+  const toast = await log('Toast', 150, '2026-03-02T13:00:00.000Z', 'breakfast');
+  const burger = await log('Burger', 800, '2026-03-02T23:00:00.000Z', 'dinner');
+  const server = await buildServer();
+  const list = (query: string) => server.inject({ method: 'GET', url: `/api/meals?${query}`, headers });
+
+  const first = JSON.parse((await list('limit=2')).body);
+  assert.deepStrictEqual(first.meals.map((meal: { id: string }) => meal.id), [burger.id, toast.id]);
+  assert.strictEqual(typeof first.nextCursor, 'string');
+  const second = JSON.parse((await list(`limit=2&cursor=${first.nextCursor}`)).body);
+  assert.deepStrictEqual(second.meals.map((meal: { id: string }) => meal.id), [late.id]);
+  assert.strictEqual(second.nextCursor, null);
+
+  // Whole days in the profile's time zone
+  const march1 = JSON.parse((await list('from=2026-03-01&to=2026-03-01')).body);
+  assert.deepStrictEqual(march1.meals.map((meal: { id: string }) => meal.id), [late.id]);
+
+  const filtered = JSON.parse((await list('mealType=dinner&minCalories=200&sort=calories&order=asc')).body);
+  assert.deepStrictEqual(filtered.meals.map((meal: { id: string }) => meal.id), [late.id, burger.id]);
+  const searched = JSON.parse((await list('q=pizza')).body);
+  assert.deepStrictEqual(searched.meals.map((meal: { id: string }) => meal.id), [late.id]);
+});
+
+test('GET /api/meals - rejects invalid filters', async () => {
+  const server = await buildServer();
+  const list = async (query: string) => {
+    const response = await server.inject({ method: 'GET', url: `/api/meals?${query}`, headers });
+    return { status: response.statusCode, error: JSON.parse(response.body).error };
+  };
+
+  assert.deepStrictEqual(await list('limit=0'), { status: 400, error: 'limit must be an integer from 1 to 100' });
+  assert.strictEqual((await list('cursor=nope')).status, 400);
+  assert.strictEqual((await list('sort=name')).status, 400);
+  assert.strictEqual((await list('order=up')).status, 400);
+  assert.strictEqual((await list('from=yesterday')).status, 400);
+  assert.strictEqual((await list('from=2026-03-02&to=2026-03-01')).status, 400);
+  assert.strictEqual((await list('mealType=breakfast,brunch')).status, 400);
+  assert.strictEqual((await list('minCalories=-5')).status, 400);
+  assert.deepStrictEqual(await list('minFat=20&maxFat=10'), { status: 400, error: 'minFat must not be greater than maxFat' });
+  assert.strictEqual((await list(`q=${'x'.repeat(101)}`)).status, 400);
+  assert.strictEqual((await server.inject({ method: 'GET', url: '/api/meals' })).statusCode, 401);
+});
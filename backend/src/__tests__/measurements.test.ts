@@ -0,0 +1,190 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import Fastify from 'fastify';
+import { measurementRoutes } from '../routes/measurements.js';
+import profileRoutes from '../routes/profile.js';
+import { setDb } from '../services/database.js';
+import type { BodyMeasurement } from '../services/database.js';
+import { InMemoryDatabase } from '../services/memoryDatabase.js';
+import { calculateWeightTrend, TREND_SMOOTHING } from '../services/bodyMeasurements.js';
+import { generateToken } from '../services/auth.js';
+
+let db: InMemoryDatabase;
+
+beforeEach(async () => {
+  db = new InMemoryDatabase();
+  setDb(db);
+  await db.createUserProfile({
+    userId: 'user-1',
+    dietType: 'balanced',
+    dailyCalorieGoal: 2000,
+    dailyProteinGoal: 150,
+    dailyCarbsGoal: 200,
+    dailyFatGoal: 67,
+    dailyFiberGoal: null,
+    dailySugarLimit: null,
+    weight: 85,
+    goalWeight: null,
+    height: null,
+    age: null,
+    gender: null,
+    activityLevel: null,
+    dietaryRestrictions: [],
+    micronutrientLimits: {},
+    timezone: 'UTC'
+  });
+});
+
+async function buildServer() {
+  const server = Fastify();
+  await server.register(measurementRoutes);
+  await server.register(profileRoutes);
+  return server;
+}
+
+const headers = { authorization: `Bearer ${generateToken({ userId: 'user-1', email: 'user@example.com' })}` };
+const otherHeaders = { authorization: `Bearer ${generateToken({ userId: 'user-2', email: 'other@example.com' })}` };
+
+function weighIn(date: string, weight: number): BodyMeasurement {
+  const measuredAt = new Date(`${date}T07:00:00.000Z`);
+  return { id: date, userId: 'user-1', measuredAt, weight, waist: null, bodyFat: null, notes: null, createdAt: measuredAt, updatedAt: measuredAt };
+}
+
+// A steady 0.1 kg/day loss from 90 kg starting 2026-03-01
+function steadyLoss(days: number): BodyMeasurement[] {
+  return Array.from({ length: days }, (_, day) => {
+    const date = new Date(Date.UTC(2026, 2, 1 + day)).toISOString().split('T')[0];
+    return weighIn(date, 90 - 0.1 * day);
+  });
+}
+
+test('calculateWeightTrend - smooths daily weights and averages same-day weigh-ins', () => {
+  const trend = calculateWeightTrend([
+    weighIn('2026-03-01', 80),
+    weighIn('2026-03-02', 82),
+    { ...weighIn('2026-03-02', 84), measuredAt: new Date('2026-03-02T20:00:00.000Z') },
+    weighIn('2026-03-05', 80)
+  ], 'UTC', null);
+
+  assert.deepStrictEqual(trend.points.map(point => point.date), ['2026-03-01', '2026-03-02', '2026-03-05']);
+  assert.strictEqual(trend.points[1].weight, 83);
+  assert.strictEqual(trend.points[1].trend, 80 + TREND_SMOOTHING * 3);
+  // Three days later the trend has moved as if 80 kg had been weighed each day
+  const expected = 80.3 + (1 - (1 - TREND_SMOOTHING) ** 3) * (80 - 80.3);
+  assert.strictEqual(trend.points[2].trend, Math.round(expected * 100) / 100);
+  assert.strictEqual(trend.latestWeight, 80);
+  // Less than a week of readings gives no rate
+  assert.strictEqual(trend.weeklyRate, null);
+});
+
+test('calculateWeightTrend - fits a weekly rate and projects the goal date', () => {
+  const losing = calculateWeightTrend(steadyLoss(42), 'UTC', 85);
+
+  assert.ok(losing.weeklyRate !== null && losing.weeklyRate < -0.6 && losing.weeklyRate > -0.8, `rate ${losing.weeklyRate}`);
+  assert.ok(losing.remaining !== null && losing.remaining < 0);
+  assert.strictEqual(losing.goalReached, false);
+  assert.ok(losing.projectedGoalDate && losing.projectedGoalDate > '2026-04-11');
+
+  // Moving away from the goal never reaches it
+  const away = calculateWeightTrend(steadyLoss(42), 'UTC', 95);
+  assert.strictEqual(away.projectedGoalDate, null);
+
+  const reached = calculateWeightTrend(steadyLoss(42), 'UTC', losing.trendWeight);
+  assert.strictEqual(reached.goalReached, true);
+  assert.strictEqual(reached.projectedGoalDate, '2026-04-11');
+
+  const empty = calculateWeightTrend([], 'UTC', 80);
+  assert.deepStrictEqual(empty.points, []);
+  assert.strictEqual(empty.trendWeight, null);
+  assert.strictEqual(empty.projectedGoalDate, null);
+});
+
+test('POST /api/measurements - logs measurements and keeps the profile weight current', async () => {
+  const server = await buildServer();
+
+  const logged = await server.inject({
+    method: 'POST',
+    url: '/api/measurements',
+    headers,
+    payload: { weight: 82.4, waist: 91, measuredAt: '2026-03-02T07:00:00.000Z' }
+  });
+  assert.strictEqual(logged.statusCode, 201);
+  assert.strictEqual(logged.json().weight, 82.4);
+  assert.strictEqual(logged.json().bodyFat, null);
+  assert.strictEqual((await db.findUserProfileByUserId('user-1'))?.weight, 82.4);
+
+  // An older weigh-in doesn't replace the latest
+  await server.inject({ method: 'POST', url: '/api/measurements', headers, payload: { weight: 83, measuredAt: '2026-03-01T07:00:00.000Z' } });
+  assert.strictEqual((await db.findUserProfileByUserId('user-1'))?.weight, 82.4);
+
+  const list = await server.inject({ method: 'GET', url: '/api/measurements', headers });
+  assert.deepStrictEqual(list.json().measurements.map((m: { weight: number }) => m.weight), [82.4, 83]);
+
+  const since = await server.inject({ method: 'GET', url: '/api/measurements?from=2026-03-02', headers });
+  assert.strictEqual(since.json().measurements.length, 1);
+});
+
+test('POST /api/measurements - rejects empty and out-of-range values', async () => {
+  const server = await buildServer();
+
+  for (const payload of [{}, { weight: 5 }, { bodyFat: 90 }, { waist: 'wide' }, { weight: 80, measuredAt: 'yesterday' }]) {
+    const response = await server.inject({ method: 'POST', url: '/api/measurements', headers, payload });
+    assert.strictEqual(response.statusCode, 400, JSON.stringify(payload));
+  }
+  assert.deepStrictEqual(await db.findBodyMeasurementsByUser('user-1'), []);
+});
+
+test('PUT and DELETE /api/measurements/:id - correct and remove the caller\'s own measurements', async () => {
+  const server = await buildServer();
+  const measurement = await db.createBodyMeasurement({
+    userId: 'user-1', measuredAt: new Date('2026-03-02T07:00:00.000Z'), weight: 82, waist: 90, bodyFat: null, notes: null
+  });
+  const url = `/api/measurements/${measurement.id}`;
+
+  const refused = await server.inject({ method: 'PUT', url, headers: otherHeaders, payload: { weight: 50 } });
+  assert.strictEqual(refused.statusCode, 403);
+  const refusedDelete = await server.inject({ method: 'DELETE', url, headers: otherHeaders });
+  assert.strictEqual(refusedDelete.statusCode, 403);
+
+  // Clearing every value would leave an empty measurement
+  const emptied = await server.inject({ method: 'PUT', url, headers, payload: { weight: null, waist: null } });
+  assert.strictEqual(emptied.statusCode, 400);
+
+  const updated = await server.inject({ method: 'PUT', url, headers, payload: { weight: 81.5, notes: ' scale recalibrated ' } });
+  assert.strictEqual(updated.statusCode, 200);
+  assert.strictEqual(updated.json().weight, 81.5);
+  assert.strictEqual(updated.json().waist, 90);
+  assert.strictEqual(updated.json().notes, 'scale recalibrated');
+  assert.strictEqual((await db.findUserProfileByUserId('user-1'))?.weight, 81.5);
+
+  const deleted = await server.inject({ method: 'DELETE', url, headers });
+  assert.strictEqual(deleted.statusCode, 200);
+  assert.strictEqual(await db.findBodyMeasurementById(measurement.id), null);
+
+  const missing = await server.inject({ method: 'DELETE', url, headers });
+  assert.strictEqual(missing.statusCode, 404);
+});
+
+test('GET /api/measurements/trend - reports progress toward the profile\'s goal weight', async () => {
+  const server = await buildServer();
+  for (const measurement of steadyLoss(28)) {
+    await db.createBodyMeasurement({ ...measurement, userId: 'user-1' });
+  }
+
+  const badGoal = await server.inject({ method: 'POST', url: '/api/profile', headers, payload: { goalWeight: -1 } });
+  assert.strictEqual(badGoal.statusCode, 400);
+  const goal = await server.inject({ method: 'POST', url: '/api/profile', headers, payload: { goalWeight: 80 } });
+  assert.strictEqual(goal.statusCode, 200);
+  assert.strictEqual(goal.json().profile.goalWeight, 80);
+
+  const response = await server.inject({ method: 'GET', url: '/api/measurements/trend', headers });
+  assert.strictEqual(response.statusCode, 200);
+  const trend = response.json();
+  assert.strictEqual(trend.points.length, 28);
+  assert.strictEqual(trend.goalWeight, 80);
+  assert.ok(trend.weeklyRate < 0);
+  assert.match(trend.projectedGoalDate, /^\d{4}-\d{2}-\d{2}$/);
+
+  const other = await server.inject({ method: 'GET', url: '/api/measurements/trend', headers: otherHeaders });
+  assert.deepStrictEqual(other.json().points, []);
+});
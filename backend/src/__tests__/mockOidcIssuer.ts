@@ -0,0 +1,95 @@
+/**
+ * Local OpenID Connect issuer
+ * Publishes a JWKS over HTTP on 127.0.0.1 and signs ID tokens with its key,
+ * so third-party sign-in can be exercised end to end in tests without Google
+ * or Apple.
+ */
+
+import { createServer } from 'http';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { generateKeyPairSync, randomUUID } from 'crypto';
+import type { KeyObject } from 'crypto';
+import jwt from 'jsonwebtoken';
+import type { OidcProvider } from '../services/oidc.js';
+
+export interface MockIdTokenClaims {
+  sub: string;
+  aud: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  nonce?: string;
+  iss?: string;             // Defaults to the issuer's own URL
+  iat?: number;             // Seconds since the epoch, default now
+  expiresIn?: number;       // Seconds, default 10 minutes
+}
+
+export class MockOidcIssuer {
+  readonly keyId = randomUUID();
+  private privateKey: KeyObject;
+  private publicKey: KeyObject;
+  private server: Server | null = null;
+  private baseUrl = '';
+
+  // How many times the JWKS has been served, to observe caching
+  jwksRequests = 0;
+
+  constructor() {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    this.privateKey = privateKey;
+    this.publicKey = publicKey;
+  }
+
+  get issuer(): string {
+    return this.baseUrl;
+  }
+
+  get jwksUri(): string {
+    return `${this.baseUrl}/jwks`;
+  }
+
+  async start(): Promise<this> {
+    const server = createServer((request, response) => {
+      if (request.url !== '/jwks') {
+        response.writeHead(404).end();
+        return;
+      }
+      this.jwksRequests++;
+      const jwk = { ...this.publicKey.export({ format: 'jwk' }), kid: this.keyId, use: 'sig', alg: 'RS256' };
+      response.writeHead(200, { 'content-type': 'application/json', 'cache-control': 'public, max-age=3600' });
+      response.end(JSON.stringify({ keys: [jwk] }));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    this.server = server;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+    return this;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Provider settings that trust this issuer under the given name
+   */
+  provider(name: string, clientIds: string[]): OidcProvider {
+    return { name, issuers: [this.issuer], jwksUri: this.jwksUri, clientIds };
+  }
+
+  signIdToken(claims: MockIdTokenClaims, options: { keyId?: string; privateKey?: KeyObject } = {}): string {
+    const { iss, expiresIn = 600, ...payload } = claims;
+    return jwt.sign(payload, options.privateKey ?? this.privateKey, {
+      algorithm: 'RS256',
+      keyid: options.keyId ?? this.keyId,
+      issuer: iss ?? this.issuer,
+      expiresIn
+    });
+  }
+}
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { parseModelSpec, getAnalyzer, UnknownAnalyzerError } from '../services/nutritionAnalyzer.js';
+
+test('parseModelSpec - bare Gemini model names keep selecting Gemini', () => {
+  assert.deepStrictEqual(parseModelSpec('gemini-2.5-flash'), { provider: 'gemini', model: 'gemini-2.5-flash' });
+});
+
+test('parseModelSpec - provider prefix selects provider and model', () => {
+  assert.deepStrictEqual(parseModelSpec('openai:gpt-4o-mini'), { provider: 'openai', model: 'gpt-4o-mini' });
+  assert.deepStrictEqual(parseModelSpec('ollama:llava'), { provider: 'ollama', model: 'llava' });
+  assert.deepStrictEqual(parseModelSpec('stub'), { provider: 'stub' });
+});
+
+test('parseModelSpec - missing model uses ANALYZER_PROVIDER', () => {
+  const previous = process.env.ANALYZER_PROVIDER;
+  process.env.ANALYZER_PROVIDER = 'stub';
+  try {
+    assert.deepStrictEqual(parseModelSpec(undefined), { provider: 'stub' });
+    assert.strictEqual(getAnalyzer('').provider, 'stub');
+  } finally {
+    if (previous === undefined) delete process.env.ANALYZER_PROVIDER;
+    else process.env.ANALYZER_PROVIDER = previous;
+  }
+});
+
+test('getAnalyzer - unknown provider throws', () => {
+  assert.throws(() => getAnalyzer('acme:vision'), UnknownAnalyzerError);
+});
+
+test('getAnalyzer - the stub is only offered in production when it is the configured provider', () => {
+  const previous = { NODE_ENV: process.env.NODE_ENV, ANALYZER_PROVIDER: process.env.ANALYZER_PROVIDER };
+  process.env.NODE_ENV = 'production';
+  try {
+    delete process.env.ANALYZER_PROVIDER;
+    assert.throws(() => getAnalyzer('stub'), UnknownAnalyzerError);
+    assert.throws(() => getAnalyzer('stub:breakfast'), UnknownAnalyzerError);
+
+    process.env.ANALYZER_PROVIDER = 'stub';
+    assert.strictEqual(getAnalyzer('stub:breakfast').provider, 'stub');
+  } finally {
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  }
+});
+
+test('StubAnalyzer - output is deterministic', async () => {
+  const analyzer = getAnalyzer('stub');
+  const request = { prompt: 'analyze', images: [] };
+  assert.strictEqual(await analyzer.generate(request), await analyzer.generate(request));
+});
@@ -0,0 +1,186 @@
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { generateKeyPairSync } from 'crypto';
+import Fastify from 'fastify';
+import { authRoutes } from '../routes/auth.js';
+import { accountRoutes } from '../routes/account.js';
+import { setDb } from '../services/database.js';
+import { InMemoryDatabase } from '../services/memoryDatabase.js';
+import { setMailer } from '../services/mailer.js';
+import { OidcVerifier, setOidcVerifier, resolveOidcProviders } from '../services/oidc.js';
+import { MockOidcIssuer } from './mockOidcIssuer.js';
+
+const CLIENT_ID = 'web-client';
+
+let issuer: MockOidcIssuer;
+let db: InMemoryDatabase;
+
+before(async () => {
+  issuer = await new MockOidcIssuer().start();
+  setMailer({ name: 'console', send: async () => {} });
+});
+
+after(async () => {
+  setOidcVerifier(null);
+  setMailer(null);
+  await issuer.stop();
+});
+
+beforeEach(() => {
+  db = new InMemoryDatabase();
+  setDb(db);
+  setOidcVerifier(new OidcVerifier([issuer.provider('google', [CLIENT_ID]), issuer.provider('apple', ['ios-app'])]));
+});
+
+async function buildServer() {
+  const server = Fastify();
+  await server.register(authRoutes);
+  await server.register(accountRoutes);
+  return server;
+}
+
+function signIn(server: Awaited<ReturnType<typeof buildServer>>, provider: string, payload: object) {
+  return server.inject({ method: 'POST', url: `/api/auth/oauth/${provider}`, payload });
+}
+
+test('POST /api/auth/oauth/:provider - creates an account on first sign-in and reuses it after', async () => {
+  const server = await buildServer();
+  const idToken = issuer.signIdToken({ sub: 'g-1', aud: CLIENT_ID, email: 'new@example.com', email_verified: true, name: 'New User' });
+
+  const first = await signIn(server, 'google', { idToken });
+  assert.strictEqual(first.statusCode, 201);
+  const body = first.json();
+  assert.strictEqual(body.isNewUser, true);
+  assert.deepStrictEqual({ ...body.user, id: undefined }, { id: undefined, email: 'new@example.com', name: 'New User', emailVerified: true });
+  assert.ok(body.token && body.refreshToken);
+
+  const account = await server.inject({ method: 'GET', url: '/api/account', headers: { authorization: `Bearer ${body.token}` } });
+  assert.deepStrictEqual(account.json().linkedProviders, ['google']);
+
+  // The subject identifies the user even after the provider's email changes
+  const later = issuer.signIdToken({ sub: 'g-1', aud: CLIENT_ID, email: 'renamed@example.com', email_verified: true });
+  const second = await signIn(server, 'google', { idToken: later });
+  assert.strictEqual(second.statusCode, 200);
+  assert.strictEqual(second.json().isNewUser, false);
+  assert.strictEqual(second.json().user.id, body.user.id);
+});
+
+test('POST /api/auth/oauth/:provider - links to the verified account with the same email', async () => {
+  const server = await buildServer();
+  const registered = await server.inject({
+    method: 'POST',
+    url: '/api/auth/register',
+    payload: { email: 'user@example.com', password: 'password123', name: 'User' }
+  });
+  const userId = registered.json().user.id;
+  const idToken = issuer.signIdToken({ sub: 'a-1', aud: 'ios-app', email: 'user@example.com', email_verified: 'true' });
+
+  // Nobody has shown they own the address yet
+  const unverified = await signIn(server, 'apple', { idToken });
+  assert.strictEqual(unverified.statusCode, 409);
+
+  await db.updateUser(userId, { emailVerified: true });
+  const linked = await signIn(server, 'apple', { idToken, name: 'Ignored' });
+  assert.strictEqual(linked.statusCode, 200);
+  assert.strictEqual(linked.json().user.id, userId);
+  assert.strictEqual(linked.json().user.name, 'User');
+  assert.strictEqual((await db.findOAuthIdentity('apple', 'a-1'))?.userId, userId);
+
+  // The password still works
+  const login = await server.inject({ method: 'POST', url: '/api/auth/login', payload: { email: 'user@example.com', password: 'password123' } });
+  assert.strictEqual(login.statusCode, 200);
+});
+
+test('POST /api/auth/oauth/:provider - needs a verified email to create or link an account', async () => {
+  const server = await buildServer();
+
+  for (const claims of [{ email: 'user@example.com', email_verified: false }, {}]) {
+    const idToken = issuer.signIdToken({ sub: 'g-2', aud: CLIENT_ID, ...claims });
+    const response = await signIn(server, 'google', { idToken });
+    assert.strictEqual(response.statusCode, 409);
+  }
+  assert.strictEqual(await db.findUserByEmail('user@example.com'), null);
+});
+
+test('POST /api/auth/oauth/:provider - rejects tokens that fail verification', async () => {
+  const server = await buildServer();
+  const claims = { sub: 'g-3', aud: CLIENT_ID, email: 'user@example.com', email_verified: true };
+  const { privateKey: otherKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  const rejected = [
+    issuer.signIdToken({ ...claims, aud: 'another-app' }),
+    issuer.signIdToken({ ...claims, iss: 'https://accounts.google.com' }),
+    issuer.signIdToken({ ...claims, expiresIn: -120 }),
+    issuer.signIdToken(claims, { privateKey: otherKey }),
+    issuer.signIdToken(claims, { keyId: 'unknown-key', privateKey: otherKey }),
+    'not-a-jwt'
+  ];
+  for (const idToken of rejected) {
+    const response = await signIn(server, 'google', { idToken });
+    assert.strictEqual(response.statusCode, 401, idToken);
+  }
+
+  const wrongNonce = await signIn(server, 'google', { idToken: issuer.signIdToken({ ...claims, nonce: 'a' }), nonce: 'b' });
+  assert.strictEqual(wrongNonce.statusCode, 401);
+  const rightNonce = await signIn(server, 'google', { idToken: issuer.signIdToken({ ...claims, nonce: 'a' }), nonce: 'a' });
+  assert.strictEqual(rightNonce.statusCode, 201);
+
+  assert.strictEqual((await signIn(server, 'google', {})).statusCode, 400);
+  assert.strictEqual((await signIn(server, 'github', { idToken: 'x' })).statusCode, 404);
+});
+
+test('accounts signed in through a provider confirm changes with a fresh ID token', async () => {
+  const server = await buildServer();
+  const claims = { sub: 'g-4', aud: CLIENT_ID, email: 'oauth@example.com', email_verified: true };
+  const { token } = (await signIn(server, 'google', { idToken: issuer.signIdToken(claims) })).json();
+  const headers = { authorization: `Bearer ${token}` };
+  const confirm = (url: string, method: 'PUT' | 'DELETE', payload: object) => server.inject({ method, url, headers, payload });
+
+  const email = await confirm('/api/auth/email', 'PUT', { email: 'moved@example.com', provider: 'google', idToken: issuer.signIdToken(claims) });
+  assert.strictEqual(email.statusCode, 202);
+  const password = await confirm('/api/auth/password', 'PUT', { newPassword: 'password123', provider: 'google', idToken: issuer.signIdToken(claims) });
+  assert.strictEqual(password.statusCode, 200);
+  const nextHeaders = { authorization: `Bearer ${password.json().token}` };
+
+  // Old sign-ins and other people's accounts don't count
+  const stale = issuer.signIdToken({ ...claims, iat: Math.floor(Date.now() / 1000) - 3600, expiresIn: 7200 });
+  const someoneElse = issuer.signIdToken({ ...claims, sub: 'g-5' });
+  for (const idToken of [stale, someoneElse, 'not-a-jwt']) {
+    const response = await server.inject({ method: 'DELETE', url: '/api/account', headers: nextHeaders, payload: { provider: 'google', idToken } });
+    assert.strictEqual(response.statusCode, 400, idToken);
+  }
+
+  const deleted = await server.inject({ method: 'DELETE', url: '/api/account', headers: nextHeaders, payload: { provider: 'google', idToken: issuer.signIdToken(claims) } });
+  assert.strictEqual(deleted.statusCode, 200);
+  assert.strictEqual(await db.findUserByEmail('oauth@example.com'), null);
+});
+
+test('GET /api/auth/oauth/providers - lists configured providers', async () => {
+  const server = await buildServer();
+  const response = await server.inject({ method: 'GET', url: '/api/auth/oauth/providers' });
+
+  assert.deepStrictEqual(response.json(), {
+    providers: [{ name: 'google', clientIds: [CLIENT_ID] }, { name: 'apple', clientIds: ['ios-app'] }]
+  });
+});
+
+test('OidcVerifier - caches signing keys between tokens', async () => {
+  const verifier = new OidcVerifier([issuer.provider('google', [CLIENT_ID])]);
+  const requests = issuer.jwksRequests;
+
+  for (const sub of ['1', '2', '3']) {
+    const identity = await verifier.verify('google', issuer.signIdToken({ sub, aud: CLIENT_ID }));
+    assert.strictEqual(identity.subject, sub);
+  }
+  assert.strictEqual(issuer.jwksRequests - requests, 1);
+});
+
+test('resolveOidcProviders - enables providers with client ids', () => {
+  assert.deepStrictEqual(resolveOidcProviders({}), []);
+
+  const providers = resolveOidcProviders({ GOOGLE_CLIENT_IDS: 'web, ios', APPLE_CLIENT_IDS: 'com.example.app', APPLE_JWKS_URI: 'http://localhost/keys' });
+  assert.deepStrictEqual(providers.map(p => [p.name, p.clientIds, p.jwksUri]), [
+    ['google', ['web', 'ios'], 'https://www.googleapis.com/oauth2/v3/certs'],
+    ['apple', ['com.example.app'], 'http://localhost/keys']
+  ]);
+});
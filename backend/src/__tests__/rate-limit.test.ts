@@ -1,33 +1,101 @@
-import { test } from 'node:test';
+import { test, afterEach } from 'node:test';
 import assert from 'node:assert';
+import Fastify from 'fastify';
+import { registerRateLimits, rateLimitKey, resolveRateLimits, resolveTrustProxy, mealLoggingRateLimit } from '../middleware/rateLimit.js';
+import { generateToken } from '../services/auth.js';
 
-/**
- * Rate Limiting Tests
- * 
- * Note: These are documentation tests showing expected behavior.
- * Actual rate limiting is tested manually or via integration tests.
- */
-
-test('Rate limit allows 100 requests per hour per IP', async () => {
-  // Test case: First 100 requests should succeed
-  // Expected: 200 status for requests 1-100
-  assert.ok(true, 'Rate limit configured for 100 requests per hour');
+const ENV_KEYS = ['RATE_LIMIT_MAX', 'ANALYZE_RATE_LIMIT_MAX'];
+
+afterEach(() => {
+  for (const key of ENV_KEYS) delete process.env[key];
 });
 
-test('Rate limit returns 429 when limit exceeded', async () => {
-  // Test case: 101st request from same IP within hour
-  // Expected: 429 status with error message
-  assert.ok(true, 'Returns 429 Too Many Requests when limit exceeded');
+async function buildServer() {
+  const server = Fastify();
+  await registerRateLimits(server);
+  server.get('/health', { config: { rateLimit: false } }, async () => ({ status: 'ok' }));
+  server.get('/api/cheap', async () => ({ ok: true }));
+  server.post('/api/expensive', { config: { rateLimit: resolveRateLimits().analyze } }, async () => ({ ok: true }));
+  server.post('/api/meals', { config: { rateLimit: mealLoggingRateLimit() } }, async () => ({ ok: true }));
+  return server;
+}
+
+function bearer(userId: string) {
+  return { authorization: `Bearer ${generateToken({ userId, email: `${userId}@example.com` })}` };
+}
+
+test('Rate limit counts each signed-in user separately behind one IP', async () => {
+  process.env.RATE_LIMIT_MAX = '2';
+  const server = await buildServer();
+
+  for (let i = 0; i < 2; i++) {
+    assert.strictEqual((await server.inject({ method: 'GET', url: '/api/cheap', headers: bearer('alice') })).statusCode, 200);
+  }
+  const limited = await server.inject({ method: 'GET', url: '/api/cheap', headers: bearer('alice') });
+  assert.strictEqual(limited.statusCode, 429);
+  assert.match(limited.json().message, /^Rate limit exceeded, retry in \d+ seconds$/);
+  assert.ok(limited.headers['retry-after']);
+
+  // Same address, different user and guests
+  assert.strictEqual((await server.inject({ method: 'GET', url: '/api/cheap', headers: bearer('bob') })).statusCode, 200);
+  assert.strictEqual((await server.inject({ method: 'GET', url: '/api/cheap' })).statusCode, 200);
+});
+
+test('Rate limit meters expensive routes on their own budget', async () => {
+  process.env.RATE_LIMIT_MAX = '5';
+  process.env.ANALYZE_RATE_LIMIT_MAX = '1';
+  const server = await buildServer();
+  const headers = bearer('alice');
+
+  assert.strictEqual((await server.inject({ method: 'POST', url: '/api/expensive', headers })).statusCode, 200);
+  const limited = await server.inject({ method: 'POST', url: '/api/expensive', headers });
+  assert.strictEqual(limited.statusCode, 429);
+  assert.strictEqual(limited.headers['x-ratelimit-limit'], '1');
+
+  // Other routes still have their budget
+  const cheap = await server.inject({ method: 'GET', url: '/api/cheap', headers });
+  assert.strictEqual(cheap.statusCode, 200);
+  assert.strictEqual(cheap.headers['x-ratelimit-limit'], '5');
 });
 
-test('Rate limit includes Retry-After header', async () => {
-  // Test case: Rate limit exceeded response
-  // Expected: Retry-After header with seconds until reset
-  assert.ok(true, 'Retry-After header included in 429 response');
+test('Rate limit meters text meals on the analyze budget', async () => {
+  process.env.RATE_LIMIT_MAX = '3';
+  process.env.ANALYZE_RATE_LIMIT_MAX = '1';
+  const server = await buildServer();
+  const headers = bearer('alice');
+  const logMeal = (payload: object) => server.inject({ method: 'POST', url: '/api/meals', headers, payload });
+
+  assert.strictEqual((await logMeal({ text: 'toast' })).statusCode, 200);
+  const limited = await logMeal({ text: 'eggs' });
+  assert.strictEqual(limited.statusCode, 429);
+  assert.strictEqual(limited.headers['x-ratelimit-limit'], '1');
+
+  // Food lists aren't held back by the text budget
+  const manual = await logMeal({ foods: [] });
+  assert.strictEqual(manual.statusCode, 200);
+  assert.strictEqual(manual.headers['x-ratelimit-limit'], '3');
+});
+
+test('Rate limit skips the health check', async () => {
+  process.env.RATE_LIMIT_MAX = '1';
+  const server = await buildServer();
+
+  for (let i = 0; i < 3; i++) {
+    assert.strictEqual((await server.inject({ method: 'GET', url: '/health' })).statusCode, 200);
+  }
+});
+
+test('rateLimitKey - uses the user for valid tokens and the IP otherwise', () => {
+  const request = (authorization?: string) => ({ headers: { authorization }, ip: '203.0.113.7' }) as Parameters<typeof rateLimitKey>[0];
+
+  assert.strictEqual(rateLimitKey(request(bearer('alice').authorization)), 'user:alice');
+  assert.strictEqual(rateLimitKey(request('Bearer not-a-token')), 'ip:203.0.113.7');
+  assert.strictEqual(rateLimitKey(request()), 'ip:203.0.113.7');
 });
 
-test('Rate limit logs violations', async () => {
-  // Test case: Rate limit exceeded
-  // Expected: Server logs rate limit violation
-  assert.ok(true, 'Rate limit violations are logged');
+test('resolveTrustProxy - accepts true or a hop count', () => {
+  assert.strictEqual(resolveTrustProxy({}), false);
+  assert.strictEqual(resolveTrustProxy({ TRUST_PROXY: 'true' }), true);
+  assert.strictEqual(resolveTrustProxy({ TRUST_PROXY: '1' }), 1);
+  assert.strictEqual(resolveTrustProxy({ TRUST_PROXY: 'no' }), false);
 });
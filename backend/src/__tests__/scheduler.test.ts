@@ -0,0 +1,77 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert';
+import Fastify from 'fastify';
+import { schedulerRoutes } from '../routes/scheduler.js';
+import { Scheduler, setScheduler } from '../services/scheduler.js';
+import type { ScheduleTrigger } from '../services/scheduler.js';
+
+afterEach(() => {
+  setScheduler(null);
+  delete process.env.SCHEDULER_TOKEN;
+});
+
+test('Scheduler - runs tasks when the trigger fires and stops with it', async () => {
+  let fire: () => void = () => {};
+  let stopped = false;
+  const trigger: ScheduleTrigger = callback => {
+    fire = callback;
+    return () => { stopped = true; };
+  };
+
+  const runs: Date[] = [];
+  const scheduler = new Scheduler(trigger);
+  scheduler.register('count', async now => { runs.push(now); });
+  scheduler.start();
+
+  fire();
+  await new Promise(resolve => setImmediate(resolve));
+  await scheduler.runAll();
+  assert.strictEqual(runs.length, 2);
+
+  scheduler.stop();
+  assert.strictEqual(stopped, true);
+});
+
+test('Scheduler - skips a task that is still running and survives failures', async () => {
+  let release: () => void = () => {};
+  let slowRuns = 0;
+  const scheduler = new Scheduler();
+  scheduler.register('slow', () => {
+    slowRuns++;
+    return new Promise<void>(resolve => { release = resolve; });
+  });
+  scheduler.register('broken', async () => { throw new Error('database unavailable'); });
+
+  const first = scheduler.runAll();
+  await new Promise(resolve => setImmediate(resolve));
+  assert.deepStrictEqual(await scheduler.runAll(), ['broken']);
+  release();
+  assert.deepStrictEqual(await first, ['slow', 'broken']);
+  assert.strictEqual(slowRuns, 1);
+});
+
+test('POST /api/scheduler/run - requires the scheduler token', async () => {
+  let runs = 0;
+  const scheduler = new Scheduler();
+  scheduler.register('count', async () => { runs++; });
+  setScheduler(scheduler);
+
+  const server = Fastify();
+  await server.register(schedulerRoutes);
+  const run = (token?: string) => server.inject({
+    method: 'POST',
+    url: '/api/scheduler/run',
+    headers: token ? { 'x-scheduler-token': token } : {}
+  });
+
+  assert.strictEqual((await run('secret')).statusCode, 404);
+
+  process.env.SCHEDULER_TOKEN = 'secret';
+  assert.strictEqual((await run()).statusCode, 401);
+  assert.strictEqual((await run('guess')).statusCode, 401);
+
+  const response = await run('secret');
+  assert.strictEqual(response.statusCode, 200);
+  assert.deepStrictEqual(JSON.parse(response.body), { ran: ['count'] });
+  assert.strictEqual(runs, 1);
+});
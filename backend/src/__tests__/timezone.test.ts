@@ -0,0 +1,114 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { setDb } from '../services/database.js';
+import { InMemoryDatabase } from '../services/memoryDatabase.js';
+import { updateDailyProgress, rebuildDailyProgress, getWeekStart } from '../services/progressTracking.js';
+import { localDay, startOfLocalDay, localWeekStart, isValidTimeZone, toDateKey } from '../utils/timezone.js';
+import { inferMealType } from '../utils/mealTypes.js';
+
+let db: InMemoryDatabase;
+
+beforeEach(async () => {
+  db = new InMemoryDatabase();
+  setDb(db);
+  await db.createUserProfile({
+    userId: 'user-1',
+    dietType: 'balanced',
+    dailyCalorieGoal: 2000,
+    dailyProteinGoal: 150,
+    dailyCarbsGoal: 200,
+    dailyFatGoal: 67,
+    dailyFiberGoal: null,
+    dailySugarLimit: null,
+    weight: null,
+    goalWeight: null,
+    height: null,
+    age: null,
+    gender: null,
+    activityLevel: null,
+    dietaryRestrictions: [],
+    micronutrientLimits: {},
+    timezone: 'America/Los_Angeles'
+  });
+});
+
+test('localDay - uses the calendar date in the time zone', () => {
+  // 7pm on March 1st in California is already March 2nd in UTC
+  const dinner = new Date('2026-03-02T03:00:00.000Z');
+  assert.strictEqual(toDateKey(localDay(dinner, 'America/Los_Angeles')), '2026-03-01');
+  assert.strictEqual(toDateKey(localDay(dinner, 'UTC')), '2026-03-02');
+  assert.strictEqual(toDateKey(localDay(dinner, 'Asia/Tokyo')), '2026-03-02');
+});
+
+test('startOfLocalDay - finds local midnight across DST changes', () => {
+  const la = 'America/Los_Angeles';
+  assert.strictEqual(startOfLocalDay(new Date('2026-03-01T00:00:00.000Z'), la).toISOString(), '2026-03-01T08:00:00.000Z');
+  // Clocks spring forward on March 8th, 2026; midnight is still PST
+  assert.strictEqual(startOfLocalDay(new Date('2026-03-08T00:00:00.000Z'), la).toISOString(), '2026-03-08T08:00:00.000Z');
+  assert.strictEqual(startOfLocalDay(new Date('2026-03-09T00:00:00.000Z'), la).toISOString(), '2026-03-09T07:00:00.000Z');
+});
+
+test('localWeekStart - weeks start on Monday in the user\'s time zone', () => {
+  // Sunday evening in California, Monday morning in UTC
+  const sunday = new Date('2026-03-09T02:00:00.000Z');
+  assert.strictEqual(toDateKey(localWeekStart(sunday, 'America/Los_Angeles')), '2026-03-02');
+  assert.strictEqual(toDateKey(localWeekStart(sunday, 'UTC')), '2026-03-09');
+  assert.strictEqual(toDateKey(getWeekStart(new Date('2026-03-04T12:00:00.000Z'))), '2026-03-02');
+});
+
+test('isValidTimeZone - accepts IANA names only', () => {
+  assert.strictEqual(isValidTimeZone('Europe/Berlin'), true);
+  assert.strictEqual(isValidTimeZone('Mars/Olympus_Mons'), false);
+  assert.strictEqual(isValidTimeZone(''), false);
+  assert.strictEqual(isValidTimeZone(42), false);
+});
+
+test('inferMealType - buckets by local hour', () => {
+  const la = 'America/Los_Angeles';
+  assert.strictEqual(inferMealType(new Date('2026-03-02T15:30:00.000Z'), la), 'breakfast'); // 7:30
+  assert.strictEqual(inferMealType(new Date('2026-03-02T20:00:00.000Z'), la), 'lunch');     // 12:00
+  assert.strictEqual(inferMealType(new Date('2026-03-02T23:30:00.000Z'), la), 'snack');     // 15:30
+  assert.strictEqual(inferMealType(new Date('2026-03-03T03:00:00.000Z'), la), 'dinner');    // 19:00
+  assert.strictEqual(inferMealType(new Date('2026-03-03T03:00:00.000Z'), 'UTC'), 'snack');
+});
+
+test('updateDailyProgress - counts meals in the user\'s local day', async () => {
+  const timeZone = 'America/Los_Angeles';
+  const todayStart = startOfLocalDay(localDay(new Date(), timeZone), timeZone);
+  const totals = { calories: 500, protein: 30, carbs: 50, fat: 20 };
+
+  // One minute before local midnight belongs to yesterday, even when it's the same UTC date
+  await db.createMealAnalysis({ userId: 'user-1', imageUrl: '', nutritionData: { foods: [], totals }, createdAt: new Date(todayStart.getTime() - 60_000) });
+  await db.createMealAnalysis({ userId: 'user-1', imageUrl: '', nutritionData: { foods: [], totals }, createdAt: new Date(todayStart.getTime() + 60_000) });
+
+  const progress = await updateDailyProgress('user-1');
+  assert.strictEqual(progress?.mealCount, 1);
+  assert.strictEqual(progress?.totalCalories, 500);
+  assert.strictEqual(toDateKey(progress!.date), toDateKey(localDay(new Date(), timeZone)));
+});
+
+test('rebuildDailyProgress - recalculates every local day and drops empty ones', async () => {
+  const totals = { calories: 400, protein: 25, carbs: 40, fat: 15 };
+  const march1 = new Date('2026-03-01T00:00:00.000Z');
+  const march2 = new Date('2026-03-02T00:00:00.000Z');
+
+  // 7pm and 8pm on March 1st in California, both March 2nd in UTC
+  await db.createMealAnalysis({ userId: 'user-1', imageUrl: '', nutritionData: { foods: [], totals }, createdAt: new Date('2026-03-02T03:00:00.000Z') });
+  await db.createMealAnalysis({ userId: 'user-1', imageUrl: '', nutritionData: { foods: [], totals }, createdAt: new Date('2026-03-02T04:00:00.000Z') });
+
+  // A stale row with goals recorded on the day, and one for a day with no meals
+  const stale = (await updateDailyProgress('user-1', new Date('2026-03-02T03:00:00.000Z')))!;
+  await db.createOrUpdateDailyProgress({ ...stale, totalCalories: 5, goalCalories: 1800 });
+  await db.createOrUpdateDailyProgress({ ...stale, date: march2 });
+
+  const summary = await rebuildDailyProgress('user-1');
+  assert.deepStrictEqual(summary, { daysUpdated: 1, daysRemoved: 1 });
+
+  const rebuilt = await db.findDailyProgressByUserAndDate('user-1', march1);
+  assert.strictEqual(rebuilt?.mealCount, 2);
+  assert.strictEqual(rebuilt?.totalCalories, 800);
+  // Past days keep the goal they were recorded with
+  assert.strictEqual(rebuilt?.goalCalories, 1800);
+  assert.strictEqual(await db.findDailyProgressByUserAndDate('user-1', march2), null);
+  assert.strictEqual(await rebuildDailyProgress('nobody'), null);
+});
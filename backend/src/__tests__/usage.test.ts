@@ -0,0 +1,150 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import Fastify from 'fastify';
+import multipart from '@fastify/multipart';
+import { analyzeRoutes } from '../routes/analyze.js';
+import { usageRoutes } from '../routes/usage.js';
+import { mealsRoutes } from '../routes/meals.js';
+import { setDb } from '../services/database.js';
+import { InMemoryDatabase } from '../services/memoryDatabase.js';
+import { generateToken } from '../services/auth.js';
+import { AnalysisQueue, getAnalysisQueue, setAnalysisQueue } from '../services/analysisQueue.js';
+import { getDailyAnalysisQuota, deleteOldUsage } from '../services/usage.js';
+
+let db: InMemoryDatabase;
+
+beforeEach(() => {
+  db = new InMemoryDatabase();
+  setDb(db);
+  setAnalysisQueue(new AnalysisQueue({ retryDelayMs: 1 }));
+  process.env.AI_DAILY_QUOTA_FREE = '2';
+});
+
+afterEach(() => {
+  delete process.env.AI_DAILY_QUOTA_FREE;
+});
+
+async function buildServer() {
+  const server = Fastify();
+  await server.register(multipart);
+  await server.register(analyzeRoutes);
+  await server.register(usageRoutes);
+  await server.register(mealsRoutes);
+  return server;
+}
+
+function analyze(server: Awaited<ReturnType<typeof buildServer>>, token: string | null, model = 'stub') {
+  const form = new FormData();
+  form.append('image', new Blob([new Uint8Array(Buffer.from('fake-jpeg'))], { type: 'image/jpeg' }), 'meal.jpg');
+  form.append('model', model);
+  return server.inject({
+    method: 'POST',
+    url: '/api/analyze',
+    payload: form,
+    headers: token ? { authorization: `Bearer ${token}` } : {}
+  });
+}
+
+async function signIn() {
+  const user = await db.createUser({ email: 'user@example.com', passwordHash: 'hash', name: 'User' });
+  return { user, token: generateToken({ userId: user.id, email: user.email }) };
+}
+
+test('POST /api/analyze - stops at the daily quota of the account tier', async () => {
+  const server = await buildServer();
+  const { user, token } = await signIn();
+
+  assert.strictEqual((await analyze(server, token)).statusCode, 200);
+  assert.strictEqual((await analyze(server, token)).statusCode, 200);
+
+  const over = await analyze(server, token);
+  assert.strictEqual(over.statusCode, 429);
+  assert.strictEqual(over.json().limit, 2);
+  assert.ok(Date.parse(over.json().resetsAt) > Date.now());
+  assert.ok(Number(over.headers['retry-after']) > 0);
+  assert.strictEqual((await db.findMealAnalysesByUserId(user.id)).length, 2);
+
+  // Guests aren't metered per account
+  assert.strictEqual((await analyze(server, null)).statusCode, 200);
+
+  await db.updateUser(user.id, { tier: 'premium' });
+  assert.strictEqual((await analyze(server, token)).statusCode, 200);
+});
+
+test('POST /api/analyze - failed analyses don\'t use up the quota', async () => {
+  const server = await buildServer();
+  const { token } = await signIn();
+
+  const failed = await analyze(server, token, 'stub:missing-fixture');
+  assert.ok(failed.statusCode >= 400);
+
+  const usage = await server.inject({ method: 'GET', url: '/api/usage', headers: { authorization: `Bearer ${token}` } });
+  assert.strictEqual(usage.json().analyses.used, 0);
+});
+
+test('POST /api/analyze - async jobs that finally fail are given back', async () => {
+  const server = await buildServer();
+  const { token } = await signIn();
+  const form = new FormData();
+  form.append('image', new Blob([new Uint8Array(Buffer.from('fake-jpeg'))], { type: 'image/jpeg' }), 'meal.jpg');
+  form.append('model', 'stub:missing-fixture');
+  form.append('async', 'true');
+
+  const queued = await server.inject({ method: 'POST', url: '/api/analyze', payload: form, headers: { authorization: `Bearer ${token}` } });
+  assert.strictEqual(queued.statusCode, 202);
+  await getAnalysisQueue().onIdle();
+
+  const usage = await server.inject({ method: 'GET', url: '/api/usage', headers: { authorization: `Bearer ${token}` } });
+  assert.strictEqual(usage.json().analyses.used, 0);
+});
+
+test('POST /api/meals - text meals use the quota, food lists don\'t', async () => {
+  const server = await buildServer();
+  const { token } = await signIn();
+  const headers = { authorization: `Bearer ${token}` };
+  const logMeal = (payload: object) => server.inject({ method: 'POST', url: '/api/meals', headers, payload });
+
+  assert.strictEqual((await logMeal({ foods: [{ name: 'Apple', portion: '1 medium', nutrition: { calories: 95, protein: 0, carbs: 25, fat: 0 } }] })).statusCode, 201);
+  assert.ok((await logMeal({ text: 'toast', model: 'stub:malformed' })).statusCode >= 400);
+  assert.strictEqual((await logMeal({ text: '2 eggs and toast', model: 'stub:breakfast' })).statusCode, 201);
+  assert.strictEqual((await server.inject({ method: 'GET', url: '/api/usage', headers })).json().analyses.used, 1);
+
+  await analyze(server, token);
+  const over = await logMeal({ text: 'oatmeal', model: 'stub:breakfast' });
+  assert.strictEqual(over.statusCode, 429);
+  assert.strictEqual(over.json().limit, 2);
+  assert.strictEqual((await logMeal({ foods: [{ name: 'Apple', portion: '1 medium', nutrition: { calories: 95, protein: 0, carbs: 25, fat: 0 } }] })).statusCode, 201);
+});
+
+test('GET /api/usage - reports today\'s analyses against the quota', async () => {
+  const server = await buildServer();
+  const { token } = await signIn();
+  await analyze(server, token);
+
+  const response = await server.inject({ method: 'GET', url: '/api/usage', headers: { authorization: `Bearer ${token}` } });
+  assert.strictEqual(response.statusCode, 200);
+
+  const body = response.json();
+  assert.strictEqual(body.tier, 'free');
+  assert.strictEqual(body.date, new Date().toISOString().split('T')[0]);
+  assert.deepStrictEqual(body.analyses, { used: 1, limit: 2, remaining: 1 });
+  assert.strictEqual(body.rateLimits.analyze.max, 10);
+
+  const anonymous = await server.inject({ method: 'GET', url: '/api/usage' });
+  assert.strictEqual(anonymous.statusCode, 401);
+});
+
+test('getDailyAnalysisQuota - reads the tier\'s quota from the environment', () => {
+  assert.strictEqual(getDailyAnalysisQuota('free', {}), 20);
+  assert.strictEqual(getDailyAnalysisQuota('premium', {}), 200);
+  assert.strictEqual(getDailyAnalysisQuota('premium', { AI_DAILY_QUOTA_PREMIUM: '500' }), 500);
+  assert.strictEqual(getDailyAnalysisQuota('free', { AI_DAILY_QUOTA_FREE: '0' }), 0);
+});
+
+test('deleteOldUsage - keeps the last 30 days', async () => {
+  await db.incrementUsage('u1', 'analyses', '2026-01-01');
+  await db.incrementUsage('u1', 'analyses', '2026-03-01');
+
+  assert.strictEqual(await deleteOldUsage(new Date('2026-03-15T12:00:00Z')), 1);
+  assert.strictEqual((await db.findUsageByUser('u1', '2026-03-01')).length, 1);
+});
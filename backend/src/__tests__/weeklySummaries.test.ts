@@ -0,0 +1,115 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import Fastify from 'fastify';
+import progressRoutes from '../routes/progress.js';
+import { setDb } from '../services/database.js';
+import { InMemoryDatabase } from '../services/memoryDatabase.js';
+import { generateToken } from '../services/auth.js';
+import { updateDailyProgress } from '../services/progressTracking.js';
+import { closeOutCompletedWeeks } from '../services/weeklySummaries.js';
+import { toDateKey } from '../utils/timezone.js';
+
+let db: InMemoryDatabase;
+
+beforeEach(async () => {
+  db = new InMemoryDatabase();
+  setDb(db);
+  await db.createUserProfile({
+    userId: 'user-1',
+    dietType: 'balanced',
+    dailyCalorieGoal: 2000,
+    dailyProteinGoal: 150,
+    dailyCarbsGoal: 200,
+    dailyFatGoal: 67,
+    dailyFiberGoal: null,
+    dailySugarLimit: null,
+    weight: null,
+    goalWeight: null,
+    height: null,
+    age: null,
+    gender: null,
+    activityLevel: null,
+    dietaryRestrictions: [],
+    micronutrientLimits: {},
+    timezone: 'America/Los_Angeles'
+  });
+});
+
+const headers = { authorization: `Bearer ${generateToken({ userId: 'user-1', email: 'user@example.com' })}` };
+
+async function logMeal(createdAt: string, calories: number) {
+  const totals = { calories, protein: 100, carbs: 150, fat: 60 };
+  const meal = await db.createMealAnalysis({ userId: 'user-1', imageUrl: '', nutritionData: { foods: [], totals }, createdAt: new Date(createdAt) });
+  await updateDailyProgress('user-1', meal.createdAt);
+}
+
+function weekOf(weekStart: string, avgCalories: number, complianceRate: number) {
+  const start = new Date(`${weekStart}T00:00:00.000Z`);
+  return {
+    userId: 'user-1',
+    weekStart: start,
+    weekEnd: new Date(start.getTime() + 6 * 24 * 60 * 60 * 1000),
+    avgCalories,
+    avgProtein: 100,
+    avgCarbs: 150,
+    avgFat: 60,
+    avgFiber: 0,
+    avgSugar: 0,
+    totalMeals: 7,
+    daysTracked: 7,
+    complianceRate
+  };
+}
+
+test('closeOutCompletedWeeks - stores a week once it has ended in the user\'s time zone', async () => {
+  // Monday March 2nd and Sunday evening March 8th in California
+  await logMeal('2026-03-02T20:00:00.000Z', 1800);
+  await logMeal('2026-03-09T03:00:00.000Z', 2200);
+
+  // 10pm Sunday in California: the week is still going
+  assert.deepStrictEqual(await closeOutCompletedWeeks(new Date('2026-03-09T06:00:00.000Z')), { users: 1, weeksClosed: 0 });
+  assert.strictEqual((await db.findWeeklySummariesByUser('user-1')).length, 0);
+
+  // 1am Monday in California
+  assert.deepStrictEqual(await closeOutCompletedWeeks(new Date('2026-03-09T09:00:00.000Z')), { users: 1, weeksClosed: 1 });
+  const [summary] = await db.findWeeklySummariesByUser('user-1');
+  assert.strictEqual(toDateKey(summary.weekStart), '2026-03-02');
+  assert.strictEqual(toDateKey(summary.weekEnd), '2026-03-08');
+  assert.strictEqual(summary.avgCalories, 2000);
+  assert.strictEqual(summary.daysTracked, 2);
+
+  // Already closed
+  assert.strictEqual((await closeOutCompletedWeeks(new Date('2026-03-10T09:00:00.000Z'))).weeksClosed, 0);
+});
+
+test('closeOutCompletedWeeks - catches up on weeks missed while not running', async () => {
+  await logMeal('2026-02-10T20:00:00.000Z', 1500);
+  await logMeal('2026-02-24T20:00:00.000Z', 1700);
+
+  const result = await closeOutCompletedWeeks(new Date('2026-03-04T12:00:00.000Z'));
+  assert.strictEqual(result.weeksClosed, 2);
+
+  const weeks = await db.findWeeklySummariesByUser('user-1');
+  assert.deepStrictEqual(weeks.map(week => toDateKey(week.weekStart)), ['2026-02-23', '2026-02-09']);
+});
+
+test('GET /api/progress/weeks - returns summaries with week-over-week changes', async () => {
+  await db.createWeeklySummary(weekOf('2026-02-09', 2100, 0.5));
+  await db.createWeeklySummary(weekOf('2026-02-23', 2300, 0.43));
+  await db.createWeeklySummary(weekOf('2026-03-02', 2000, 0.71));
+
+  const server = Fastify();
+  await server.register(progressRoutes);
+
+  const response = await server.inject({ method: 'GET', url: '/api/progress/weeks?limit=2', headers });
+  assert.strictEqual(response.statusCode, 200);
+  const { weeks } = JSON.parse(response.body);
+  assert.deepStrictEqual(weeks.map((week: { weekStart: string }) => week.weekStart), ['2026-03-02', '2026-02-23']);
+  assert.strictEqual(weeks[0].change.avgCalories, -300);
+  assert.strictEqual(weeks[0].change.complianceRate, 0.28);
+  // February 16th has no summary to compare with
+  assert.strictEqual(weeks[1].change, null);
+
+  assert.strictEqual((await server.inject({ method: 'GET', url: '/api/progress/weeks?limit=0', headers })).statusCode, 400);
+  assert.strictEqual((await server.inject({ method: 'GET', url: '/api/progress/weeks' })).statusCode, 401);
+});
@@ -31,8 +31,9 @@ export async function authMiddleware(
       const payload = verifyToken(token);
       request.user = payload;
     } catch (error) {
+      // 401 either way so clients know to refresh the access token
       if (error instanceof Error && error.name === 'TokenExpiredError') {
-        return reply.code(403).send({ error: 'Token has expired' });
+        return reply.code(401).send({ error: 'Token has expired' });
       }
       return reply.code(401).send({ error: 'Invalid token' });
     }
@@ -0,0 +1,47 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { authorizeResource, ResourceNotFoundError, AccessDeniedError } from '../services/authorization.js';
+import type { OwnedResources, ResourceKind } from '../services/authorization.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    ownedResource?: { kind: ResourceKind; value: OwnedResources[ResourceKind] };
+  }
+}
+
+/**
+ * PreHandler that loads the record named by a route param and refuses the
+ * request unless the caller owns it: 404 when it doesn't exist, 403 when it
+ * belongs to someone else. Runs after the auth middleware.
+ */
+export function requireOwnership(kind: ResourceKind, param: string = 'id') {
+  return async function ownershipMiddleware(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const id = (request.params as Record<string, string | undefined>)[param];
+
+    try {
+      if (!id) {
+        throw new ResourceNotFoundError(kind);
+      }
+      request.ownedResource = { kind, value: await authorizeResource(kind, id, request.user) };
+    } catch (error) {
+      if (error instanceof ResourceNotFoundError) {
+        return reply.code(404).send({ error: error.message });
+      }
+      if (error instanceof AccessDeniedError) {
+        return reply.code(403).send({ error: error.message });
+      }
+      request.log.error(error);
+      return reply.code(500).send({ error: 'Authorization failed' });
+    }
+  };
+}
+
+/**
+ * The record requireOwnership loaded for this request
+ */
+export function ownedResource<K extends ResourceKind>(request: FastifyRequest, kind: K): OwnedResources[K] {
+  const owned = request.ownedResource;
+  if (!owned || owned.kind !== kind) {
+    throw new Error(`No ${kind} was authorized for this request`);
+  }
+  return owned.value as OwnedResources[K];
+}
@@ -0,0 +1,124 @@
+/**
+ * Rate limiting
+ * Requests are counted per user when they carry a valid access token and per
+ * client IP otherwise, so people behind one address (an office NAT) don't
+ * share a budget. Expensive routes set their own, separate budget: AI
+ * analysis is limited per minute on top of the daily quota in
+ * services/usage.ts.
+ */
+
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import rateLimit from '@fastify/rate-limit';
+import type { RateLimitOptions } from '@fastify/rate-limit';
+import { verifyToken } from '../services/auth.js';
+
+export interface RateLimitBudget {
+  max: number;
+  timeWindow: number;     // Milliseconds
+}
+
+export interface RateLimits {
+  default: RateLimitBudget;
+  analyze: RateLimitBudget;
+}
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * RATE_LIMIT_MAX per RATE_LIMIT_WINDOW_MS for most routes (default 100 an
+ * hour) and ANALYZE_RATE_LIMIT_MAX per ANALYZE_RATE_LIMIT_WINDOW_MS for
+ * POST /api/analyze (default 10 a minute)
+ */
+export function resolveRateLimits(env: NodeJS.ProcessEnv = process.env): RateLimits {
+  return {
+    default: {
+      max: positiveInt(env.RATE_LIMIT_MAX, 100),
+      timeWindow: positiveInt(env.RATE_LIMIT_WINDOW_MS, 60 * 60 * 1000)
+    },
+    analyze: {
+      max: positiveInt(env.ANALYZE_RATE_LIMIT_MAX, 10),
+      timeWindow: positiveInt(env.ANALYZE_RATE_LIMIT_WINDOW_MS, 60 * 1000)
+    }
+  };
+}
+
+/**
+ * Fastify's trustProxy from TRUST_PROXY: "true", or the number of proxy hops
+ * in front of the server (1 on Cloud Run). Without it every request seems to
+ * come from the proxy's address.
+ */
+export function resolveTrustProxy(env: NodeJS.ProcessEnv = process.env): boolean | number {
+  const value = env.TRUST_PROXY;
+  if (value === 'true') return true;
+  const hops = parseInt(value || '', 10);
+  return Number.isFinite(hops) && hops > 0 ? hops : false;
+}
+
+/**
+ * The bucket a request is counted in. This runs before the route's auth
+ * middleware, so the access token is checked here; an invalid or expired one
+ * counts against the IP.
+ */
+export function rateLimitKey(request: FastifyRequest): string {
+  const token = request.headers.authorization?.replace('Bearer ', '');
+  if (token) {
+    try {
+      return `user:${verifyToken(token).userId}`;
+    } catch {
+      // Fall through to the IP
+    }
+  }
+  return `ip:${request.ip}`;
+}
+
+/**
+ * Route config for POST /api/analyze; without the plugin registered (as in
+ * route tests) it has no effect
+ */
+export function analyzeRateLimit(): RateLimitBudget {
+  return resolveRateLimits().analyze;
+}
+
+// POST /api/meals with a text description, which goes to the AI provider
+function isTextMeal(request: FastifyRequest): boolean {
+  const text = (request.body as { text?: unknown } | undefined)?.text;
+  return typeof text === 'string' && text.trim() !== '';
+}
+
+/**
+ * Route config for POST /api/meals. Text meals are counted in their own
+ * bucket with the analyze budget; food lists keep the default one. Runs as a
+ * preHandler so the body has been parsed.
+ */
+export function mealLoggingRateLimit(): RateLimitOptions {
+  const budget = (request: FastifyRequest) => isTextMeal(request) ? resolveRateLimits().analyze : resolveRateLimits().default;
+  return {
+    hook: 'preHandler',
+    keyGenerator: request => isTextMeal(request) ? `${rateLimitKey(request)}:text-meal` : rateLimitKey(request),
+    max: request => budget(request).max,
+    timeWindow: request => budget(request).timeWindow
+  };
+}
+
+export async function registerRateLimits(server: FastifyInstance): Promise<void> {
+  await server.register(rateLimit, {
+    ...resolveRateLimits().default,
+    keyGenerator: rateLimitKey,
+    errorResponseBuilder: (request, context) => {
+      return {
+        statusCode: 429,
+        error: 'Too Many Requests',
+        message: `Rate limit exceeded, retry in ${Math.ceil(context.ttl / 1000)} seconds`
+      };
+    },
+    addHeaders: {
+      'x-ratelimit-limit': true,
+      'x-ratelimit-remaining': true,
+      'x-ratelimit-reset': true,
+      'retry-after': true
+    }
+  });
+}
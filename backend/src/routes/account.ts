@@ -0,0 +1,80 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { authMiddleware } from '../middleware/auth.js';
+import { verifyPassword } from '../services/auth.js';
+import { getDb } from '../services/database.js';
+import { getAnalysisQueue } from '../services/analysisQueue.js';
+import { verifyRecentSignIn } from '../services/oauth.js';
+import { OidcError } from '../services/oidc.js';
+
+// A password, or for accounts signed in through a provider, a fresh ID token from it
+interface DeleteAccountBody {
+  password?: string;
+  provider?: string;
+  idToken?: string;
+}
+
+export async function accountRoutes(server: FastifyInstance) {
+  const db = getDb();
+
+  server.get('/api/account', { preHandler: authMiddleware }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = await db.findUserById(request.user!.userId);
+
+      if (!user) {
+        return reply.code(404).send({ error: 'User not found' });
+      }
+
+      const identities = await db.findOAuthIdentitiesByUser(user.id);
+
+      return reply.code(200).send({
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        emailVerified: user.emailVerified,
+        createdAt: user.createdAt,
+        linkedProviders: identities.map(identity => identity.provider),
+      });
+    } catch (error) {
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Failed to fetch account' });
+    }
+  });
+
+  // Delete the signed-in user and everything they own: meals (with their
+  // thumbnails), profile, progress, weekly summaries, ketone logs and sessions
+  server.delete('/api/account', { preHandler: authMiddleware }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { password, provider, idToken } = (request.body || {}) as DeleteAccountBody;
+
+      if (!idToken && (typeof password !== 'string' || !password)) {
+        return reply.code(400).send({ error: 'Password is required' });
+      }
+
+      const user = await db.findUserById(request.user!.userId);
+
+      if (!user) {
+        return reply.code(404).send({ error: 'User not found' });
+      }
+
+      // 400 rather than 401, which clients take to mean the session has ended
+      if (idToken) {
+        await verifyRecentSignIn(user, provider, idToken);
+      } else if (!(await verifyPassword(password!, user.passwordHash))) {
+        return reply.code(400).send({ error: 'Password is incorrect' });
+      }
+
+      // Stop background analyses first so none of them saves a meal afterwards
+      await getAnalysisQueue().discardUserJobs(user.id);
+      await db.deleteUser(user.id);
+
+      server.log.info({ userId: user.id }, 'Deleted account');
+      return reply.code(200).send({ success: true });
+    } catch (error) {
+      if (error instanceof OidcError) {
+        return reply.code(400).send({ error: error.message });
+      }
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Failed to delete account' });
+    }
+  });
+}
@@ -1,54 +1,26 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { initializeModel, createNutritionPrompt } from '../services/gemini.js';
 import { Buffer } from 'buffer';
-import { validateImage, ImageValidationError } from '../utils/imageValidation.js';
+import { validateImage, validateImageCount, ImageValidationError, MAX_IMAGES_PER_REQUEST } from '../utils/imageValidation.js';
+import type { AnalyzerImage } from '../services/nutritionAnalyzer.js';
+import type { AnalysisMode } from '../types/nutrition.js';
 import { optionalAuthMiddleware } from '../middleware/auth.js';
-import { getDb } from '../services/database.js';
-import { updateDailyProgress } from '../services/progressTracking.js';
-import sharp from 'sharp';
-
-interface AnalyzeResponse {
-  id?: string;
-  foods: Array<{
-    name: string;
-    portion: string;
-    nutrition: {
-      calories: number;
-      protein: number;
-      carbs: number;
-      fat: number;
-    };
-    confidence: number;
-  }>;
-  totals: {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-  };
-  timestamp: string;
-}
+import { requireOwnership, ownedResource } from '../middleware/ownership.js';
+import { analyzeRateLimit } from '../middleware/rateLimit.js';
+import { analyzeAndSave, classifyAnalysisError } from '../services/analysisPipeline.js';
+import { getAnalysisQueue } from '../services/analysisQueue.js';
+import { MEAL_TYPES, isMealType } from '../utils/mealTypes.js';
+import { consumeAnalysisQuota, refundAnalysisQuota, QuotaExceededError } from '../services/usage.js';
 
-// Create a low-res thumbnail from the image buffer
-async function createThumbnail(buffer: Buffer, mimetype: string): Promise<string> {
-  try {
-    const thumbnailBuffer = await sharp(buffer)
-      .resize(200, 200, { fit: 'cover' })
-      .jpeg({ quality: 60 })
-      .toBuffer();
-    
-    return `data:image/jpeg;base64,${thumbnailBuffer.toString('base64')}`;
-  } catch (error) {
-    console.error('Failed to create thumbnail:', error);
-    return '';
-  }
-}
+const ANALYSIS_MODES: AnalysisMode[] = ['meal', 'label'];
+const MAX_SERVINGS = 100;
 
 export async function analyzeRoutes(server: FastifyInstance) {
-  const db = getDb();
-  
   // Use optional auth - allows guests to analyze, but only saves to DB for authenticated users
-  server.post('/api/analyze', { preHandler: optionalAuthMiddleware }, async (request: FastifyRequest, reply: FastifyReply) => {
+  // Metered separately from other routes; signed-in users also have a daily quota
+  server.post('/api/analyze', { preHandler: optionalAuthMiddleware, config: { rateLimit: analyzeRateLimit() } }, async (request: FastifyRequest, reply: FastifyReply) => {
+    // When the analysis was counted against the user's quota, to give it back on failure
+    let chargedAt: Date | null = null;
+
     const timeout = setTimeout(() => {
       if (!reply.sent) {
         reply.code(408).send({ error: 'Request timeout - analysis took too long' });
@@ -56,38 +28,68 @@ export async function analyzeRoutes(server: FastifyInstance) {
     }, 30000);
 
     try {
+      if (!request.isMultipart()) {
+        clearTimeout(timeout);
+        return reply.code(400).send({ error: 'No image file provided' });
+      }
+
       console.log('Starting multipart parsing...');
       
       // Parse multipart form data - collect all parts
       const parts = request.parts();
-      let buffer: Buffer | null = null;
-      let mimetype: string = '';
+      // Several `image` parts may be sent: multiple angles of one meal, or a meal plus its label
+      const images: AnalyzerImage[] = [];
+      let imageCount = 0;
       let modelName: string | undefined;
+      let asyncMode = (request.query as { async?: string } | undefined)?.async === 'true';
+      let webhookUrl: string | undefined;
+      let mode: string = 'meal';
+      let servingsValue: string | undefined;
+      let mealTypeValue: string | undefined;
       
       for await (const part of parts) {
         console.log('Processing part:', part.fieldname, part.type);
         
-        if (part.type === 'file' && part.fieldname === 'image') {
+        if (part.type === 'file' && part.fieldname === 'image' && ++imageCount > MAX_IMAGES_PER_REQUEST) {
+          // Over the limit - count it for the error but don't buffer it
+          part.file.resume();
+        } else if (part.type === 'file' && part.fieldname === 'image') {
           // Read buffer immediately while stream is open
-          mimetype = part.mimetype;
-          buffer = await part.toBuffer();
+          const buffer: Buffer = await part.toBuffer();
+          images.push({ data: buffer, mimeType: part.mimetype });
           console.log('Image buffer size:', buffer.length);
         } else if (part.type === 'field' && part.fieldname === 'model') {
           modelName = part.value as string;
           console.log('Model from request:', modelName);
+        } else if (part.type === 'field' && part.fieldname === 'async') {
+          asyncMode = part.value === 'true';
+        } else if (part.type === 'field' && part.fieldname === 'webhookUrl') {
+          webhookUrl = (part.value as string) || undefined;
+        } else if (part.type === 'field' && part.fieldname === 'mode') {
+          mode = (part.value as string) || 'meal';
+        } else if (part.type === 'field' && part.fieldname === 'servings') {
+          servingsValue = (part.value as string) || undefined;
+        } else if (part.type === 'field' && part.fieldname === 'mealType') {
+          mealTypeValue = (part.value as string) || undefined;
+        } else if (part.type === 'file') {
+          // Drain unexpected files so the multipart stream can finish
+          part.file.resume();
         }
       }
       
-      console.log('Parsing complete. Has buffer:', !!buffer, 'Model:', modelName);
+      console.log('Parsing complete. Images:', images.length, 'Model:', modelName, 'Async:', asyncMode);
       
-      if (!buffer) {
+      if (images.length === 0) {
         clearTimeout(timeout);
         return reply.code(400).send({ error: 'No image file provided' });
       }
 
-      // Validate image
+      // Validate images
       try {
-        validateImage(mimetype, buffer.length);
+        validateImageCount(imageCount);
+        for (const image of images) {
+          validateImage(image.mimeType, image.data.length);
+        }
       } catch (error) {
         clearTimeout(timeout);
         if (error instanceof ImageValidationError) {
@@ -96,83 +98,87 @@ export async function analyzeRoutes(server: FastifyInstance) {
         throw error;
       }
 
-      // Initialize Gemini model (use client-provided model if available)
-      const model = initializeModel(modelName);
-
-      // Prepare image for Gemini
-      const imagePart = {
-        inlineData: {
-          data: buffer.toString('base64'),
-          mimeType: mimetype
-        }
-      };
-
-      // Generate content with Gemini
-      console.log('Calling Gemini with model:', modelName || 'default');
-      const prompt = createNutritionPrompt();
-      const result = await model.generateContent([prompt, imagePart]);
-      const response = result.response;
-      const text = response.text();
+      // Label mode reads a Nutrition Facts panel; servings scales its per-serving values
+      if (!ANALYSIS_MODES.includes(mode as AnalysisMode)) {
+        clearTimeout(timeout);
+        return reply.code(400).send({ error: `mode must be one of: ${ANALYSIS_MODES.join(', ')}` });
+      }
 
-      // Parse JSON response
-      let nutritionData: AnalyzeResponse;
-      try {
-        // Remove markdown code blocks if present
-        const cleanText = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-        nutritionData = JSON.parse(cleanText);
-      } catch (parseError) {
+      const servings = servingsValue === undefined ? 1 : Number(servingsValue);
+      if (!Number.isFinite(servings) || servings <= 0 || servings > MAX_SERVINGS) {
         clearTimeout(timeout);
-        server.log.error({ parseError, responseText: text }, 'Failed to parse Gemini response');
-        return reply.code(500).send({ 
-          error: 'Failed to analyze image - unable to parse nutrition data' 
-        });
+        return reply.code(400).send({ error: `servings must be a number between 0 and ${MAX_SERVINGS}` });
       }
 
-      // Validate response structure
-      if (!nutritionData.foods || !nutritionData.totals) {
+      // Without a meal type, one is inferred from the user's local time
+      if (mealTypeValue !== undefined && !isMealType(mealTypeValue)) {
         clearTimeout(timeout);
-        return reply.code(500).send({ 
-          error: 'Invalid response from analysis service' 
-        });
+        return reply.code(400).send({ error: `mealType must be one of: ${MEAL_TYPES.join(', ')}` });
       }
+      const mealType = mealTypeValue;
 
-      // Only save to database for authenticated users (not guests)
-      let savedAnalysis;
+      // Webhooks are for signed-in users, and only to hosts on the public internet
+      if (webhookUrl && asyncMode) {
+        if (!request.user) {
+          clearTimeout(timeout);
+          return reply.code(401).send({ error: 'Sign in to use webhookUrl' });
+        }
+        if (!(await getAnalysisQueue().acceptsWebhookUrl(webhookUrl))) {
+          clearTimeout(timeout);
+          return reply.code(400).send({ error: 'webhookUrl must be a public http(s) URL' });
+        }
+      }
+
+      // Only a request that will reach the AI provider counts
       if (request.user) {
+        const now = new Date();
         try {
-          // Create a thumbnail of the image for storage
-          const thumbnail = await createThumbnail(buffer!, mimetype);
-          
-          savedAnalysis = await db.createMealAnalysis({
-            userId: request.user.userId,
-            imageUrl: '',
-            thumbnail: thumbnail,
-            nutritionData: nutritionData as any,
-          });
-          console.log('Meal saved to database for user:', request.user.userId);
-
-          // Update daily progress for diet tracking
-          try {
-            await updateDailyProgress(request.user.userId);
-            console.log('Daily progress updated for user:', request.user.userId);
-          } catch (progressError) {
-            server.log.error({ progressError }, 'Failed to update daily progress');
-            // Continue - progress tracking is not critical
+          await consumeAnalysisQuota(request.user.userId, now);
+          chargedAt = now;
+        } catch (error) {
+          if (error instanceof QuotaExceededError) {
+            clearTimeout(timeout);
+            const retryAfter = Math.ceil((error.resetsAt.getTime() - now.getTime()) / 1000);
+            return reply.code(429).header('retry-after', String(retryAfter)).send({
+              error: error.message,
+              limit: error.limit,
+              resetsAt: error.resetsAt.toISOString()
+            });
           }
-        } catch (dbError) {
-          server.log.error({ dbError }, 'Failed to save analysis to database');
-          // Continue and return the analysis even if database save fails
+          throw error;
         }
-      } else {
-        console.log('Guest user - analysis not saved to database');
       }
 
-      // Add analysis ID to response if saved
-      const responseData: AnalyzeResponse = {
-        ...nutritionData,
-        timestamp: new Date().toISOString(),
-        ...(savedAnalysis && { id: savedAnalysis.id }),
-      };
+      // Async mode: hand the upload to the job queue and return immediately
+      if (asyncMode) {
+        clearTimeout(timeout);
+
+        const job = getAnalysisQueue().enqueue({
+          userId: request.user?.userId ?? null,
+          images,
+          modelName,
+          mode: mode as AnalysisMode,
+          servings,
+          mealType,
+          webhookUrl,
+          chargedAt: chargedAt ?? undefined
+        });
+
+        return reply.code(202).send({
+          jobId: job.id,
+          status: job.status,
+          statusUrl: `/api/analyze/jobs/${job.id}`
+        });
+      }
+
+      const responseData = await analyzeAndSave({
+        images,
+        modelName,
+        mode: mode as AnalysisMode,
+        servings,
+        mealType,
+        userId: request.user?.userId
+      });
 
       console.log('Analysis complete, returning response');
       clearTimeout(timeout);
@@ -181,42 +187,30 @@ export async function analyzeRoutes(server: FastifyInstance) {
     } catch (error) {
       clearTimeout(timeout);
       server.log.error(error);
-      
-      if (error instanceof Error) {
-        const errorMessage = error.message || '';
-        
-        // Check for quota exceeded
-        if (errorMessage.includes('429') || errorMessage.includes('quota') || errorMessage.includes('Too Many Requests')) {
-          return reply.code(429).send({ 
-            error: 'API quota exceeded. Please try a different AI model in Settings, or wait and try again later.',
-            code: 'QUOTA_EXCEEDED'
-          });
-        }
-        
-        // Check for model overload
-        if (errorMessage.includes('503') || errorMessage.includes('overloaded') || errorMessage.includes('Service Unavailable')) {
-          return reply.code(503).send({ 
-            error: 'AI model is temporarily overloaded. Please try again in a few seconds.',
-            code: 'MODEL_OVERLOADED'
-          });
-        }
-        
-        // Check for invalid API key
-        if (errorMessage.includes('401') || errorMessage.includes('API key')) {
-          return reply.code(500).send({ 
-            error: 'API configuration error. Please contact support.',
-            code: 'API_KEY_ERROR'
-          });
-        }
-        
-        return reply.code(500).send({ 
-          error: 'Analysis failed - please try again' 
-        });
+
+      if (chargedAt && request.user) {
+        await refundAnalysisQuota(request.user.userId, chargedAt).catch(refundError => server.log.error(refundError));
       }
-      
-      return reply.code(500).send({ 
-        error: 'An unexpected error occurred' 
-      });
+
+      const { statusCode, ...body } = classifyAnalysisError(error);
+      return reply.code(statusCode).send(body);
     }
   });
+
+  // Poll an async analysis job
+  // Jobs submitted by a signed-in user are only visible to that user
+  server.get<{ Params: { id: string } }>('/api/analyze/jobs/:id', { preHandler: [optionalAuthMiddleware, requireOwnership('analysisJob')] }, async (request, reply) => {
+    const job = ownedResource(request, 'analysisJob');
+
+    return reply.code(200).send({
+      jobId: job.id,
+      status: job.status,
+      attempts: job.attempts,
+      result: job.result,
+      error: job.error,
+      nextAttemptAt: job.nextAttemptAt?.toISOString() ?? null,
+      createdAt: job.createdAt.toISOString(),
+      updatedAt: job.updatedAt.toISOString()
+    });
+  });
 }
@@ -1,6 +1,10 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { hashPassword, verifyPassword, generateToken } from '../services/auth.js';
+import { hashPassword, verifyPassword, createSession, refreshSession, revokeSession } from '../services/auth.js';
+import { sendVerificationEmail, sendPasswordResetEmail, requestEmailChange, verifyEmail, resetPassword, EmailInUseError } from '../services/accountEmails.js';
 import { getDb } from '../services/database.js';
+import { getOidcVerifier, OidcError } from '../services/oidc.js';
+import { signInWithIdToken, verifyRecentSignIn, OAuthAccountError } from '../services/oauth.js';
+import { authMiddleware } from '../middleware/auth.js';
 
 interface RegisterBody {
   email: string;
@@ -13,6 +17,54 @@ interface LoginBody {
   password: string;
 }
 
+interface RefreshBody {
+  refreshToken: string;
+}
+
+interface LogoutBody {
+  refreshToken: string;
+  all?: boolean;
+}
+
+interface TokenBody {
+  token: string;
+}
+
+interface ForgotPasswordBody {
+  email: string;
+}
+
+interface ResetPasswordBody {
+  token: string;
+  password: string;
+}
+
+// Accounts signed in through a provider can send a fresh ID token from it
+// instead of the current password
+interface ChangePasswordBody {
+  currentPassword?: string;
+  newPassword: string;
+  provider?: string;
+  idToken?: string;
+}
+
+interface ChangeEmailBody {
+  email: string;
+  password?: string;
+  provider?: string;
+  idToken?: string;
+}
+
+interface OAuthParams {
+  provider: string;
+}
+
+interface OAuthBody {
+  idToken: string;
+  name?: string;
+  nonce?: string;
+}
+
 function validateEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
   return emailRegex.test(email);
@@ -58,18 +110,23 @@ export async function authRoutes(server: FastifyInstance) {
         name,
       });
 
-      // Generate token
-      const token = generateToken({
-        userId: user.id,
-        email: user.email,
-      });
+      // Verification doesn't block sign-in, so a mail failure shouldn't fail registration
+      try {
+        await sendVerificationEmail(user);
+      } catch (error) {
+        server.log.error(error, 'Failed to send verification email');
+      }
+
+      // Start a session
+      const session = await createSession(user);
 
       return reply.code(201).send({
-        token,
+        ...session,
         user: {
           id: user.id,
           email: user.email,
           name: user.name,
+          emailVerified: user.emailVerified,
         },
       });
     } catch (error) {
@@ -100,18 +157,16 @@ export async function authRoutes(server: FastifyInstance) {
         return reply.code(401).send({ error: 'Invalid email or password' });
       }
 
-      // Generate token
-      const token = generateToken({
-        userId: user.id,
-        email: user.email,
-      });
+      // Start a session
+      const session = await createSession(user);
 
       return reply.code(200).send({
-        token,
+        ...session,
         user: {
           id: user.id,
           email: user.email,
           name: user.name,
+          emailVerified: user.emailVerified,
         },
       });
     } catch (error) {
@@ -119,4 +174,288 @@ export async function authRoutes(server: FastifyInstance) {
       return reply.code(500).send({ error: 'Login failed' });
     }
   });
+
+  // Exchange a refresh token for a new access token and refresh token
+  server.post('/api/auth/refresh', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { refreshToken } = (request.body || {}) as RefreshBody;
+
+      if (typeof refreshToken !== 'string' || !refreshToken) {
+        return reply.code(400).send({ error: 'Refresh token is required' });
+      }
+
+      const session = await refreshSession(refreshToken);
+
+      if (!session) {
+        return reply.code(401).send({ error: 'Invalid or expired refresh token' });
+      }
+
+      return reply.code(200).send(session);
+    } catch (error) {
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Token refresh failed' });
+    }
+  });
+
+  // Revoke a refresh token; `all: true` signs the user out everywhere
+  server.post('/api/auth/logout', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { refreshToken, all } = (request.body || {}) as LogoutBody;
+
+      if (typeof refreshToken !== 'string' || !refreshToken) {
+        return reply.code(400).send({ error: 'Refresh token is required' });
+      }
+
+      await revokeSession(refreshToken, { all: all === true });
+
+      return reply.code(200).send({ success: true });
+    } catch (error) {
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Logout failed' });
+    }
+  });
+
+  // Confirm an email address from the link sent on registration
+  server.post('/api/auth/verify-email', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { token } = (request.body || {}) as TokenBody;
+
+      if (typeof token !== 'string' || !token) {
+        return reply.code(400).send({ error: 'Token is required' });
+      }
+
+      const user = await verifyEmail(token);
+
+      if (!user) {
+        return reply.code(400).send({ error: 'Invalid or expired verification link' });
+      }
+
+      return reply.code(200).send({ success: true, email: user.email });
+    } catch (error) {
+      if (error instanceof EmailInUseError) {
+        return reply.code(409).send({ error: 'That email is now used by another account' });
+      }
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Email verification failed' });
+    }
+  });
+
+  // Send a new verification link to the signed-in user
+  server.post('/api/auth/resend-verification', { preHandler: authMiddleware }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const user = await db.findUserById(request.user!.userId);
+
+      if (!user) {
+        return reply.code(404).send({ error: 'User not found' });
+      }
+
+      if (user.emailVerified) {
+        return reply.code(400).send({ error: 'Email is already verified' });
+      }
+
+      await sendVerificationEmail(user);
+
+      return reply.code(200).send({ success: true });
+    } catch (error) {
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Failed to send verification email' });
+    }
+  });
+
+  // Email a password reset link. The response is the same whether or not the
+  // address has an account, so it can't be used to find out who is registered.
+  server.post('/api/auth/forgot-password', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { email } = (request.body || {}) as ForgotPasswordBody;
+
+      if (typeof email !== 'string' || !validateEmail(email)) {
+        return reply.code(400).send({ error: 'A valid email is required' });
+      }
+
+      const user = await db.findUserByEmail(email);
+
+      // Sent after answering, so neither a mail failure nor the time it takes
+      // tells the caller whether the address has an account
+      if (user) {
+        sendPasswordResetEmail(user).catch(error => server.log.error(error, 'Failed to send password reset email'));
+      }
+
+      return reply.code(200).send({
+        success: true,
+        message: 'If an account exists for that email, a reset link has been sent',
+      });
+    } catch (error) {
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Failed to send reset email' });
+    }
+  });
+
+  // Set a new password with the token from a reset link
+  server.post('/api/auth/reset-password', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { token, password } = (request.body || {}) as ResetPasswordBody;
+
+      if (typeof token !== 'string' || !token || typeof password !== 'string') {
+        return reply.code(400).send({ error: 'Token and password are required' });
+      }
+
+      if (!validatePassword(password)) {
+        return reply.code(400).send({ error: 'Password must be at least 8 characters' });
+      }
+
+      const user = await resetPassword(token, password);
+
+      if (!user) {
+        return reply.code(400).send({ error: 'Invalid or expired reset link' });
+      }
+
+      return reply.code(200).send({ success: true });
+    } catch (error) {
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Password reset failed' });
+    }
+  });
+
+  // Change the password of the signed-in user. Every other session is signed
+  // out; the caller gets a fresh session in place of its own.
+  server.put('/api/auth/password', { preHandler: authMiddleware }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { currentPassword, newPassword, provider, idToken } = (request.body || {}) as ChangePasswordBody;
+
+      if (typeof newPassword !== 'string' || (!idToken && (typeof currentPassword !== 'string' || !currentPassword))) {
+        return reply.code(400).send({ error: 'Current and new password are required' });
+      }
+
+      if (!validatePassword(newPassword)) {
+        return reply.code(400).send({ error: 'Password must be at least 8 characters' });
+      }
+
+      const user = await db.findUserById(request.user!.userId);
+
+      if (!user) {
+        return reply.code(404).send({ error: 'User not found' });
+      }
+
+      // 400 rather than 401, which clients take to mean the session has ended
+      if (idToken) {
+        await verifyRecentSignIn(user, provider, idToken);
+      } else if (!(await verifyPassword(currentPassword!, user.passwordHash))) {
+        return reply.code(400).send({ error: 'Current password is incorrect' });
+      }
+
+      const updated = await db.updateUser(user.id, { passwordHash: await hashPassword(newPassword) });
+      await db.revokeRefreshTokensByUser(user.id);
+      const session = await createSession(updated ?? user);
+
+      return reply.code(200).send({ success: true, ...session });
+    } catch (error) {
+      if (error instanceof OidcError) {
+        return reply.code(400).send({ error: error.message });
+      }
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Password change failed' });
+    }
+  });
+
+  // Start changing the signed-in user's email. The address only changes once
+  // the link sent to it is followed.
+  server.put('/api/auth/email', { preHandler: authMiddleware }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { email, password, provider, idToken } = (request.body || {}) as ChangeEmailBody;
+
+      if (typeof email !== 'string' || !validateEmail(email)) {
+        return reply.code(400).send({ error: 'A valid email is required' });
+      }
+
+      if (!idToken && (typeof password !== 'string' || !password)) {
+        return reply.code(400).send({ error: 'Password is required' });
+      }
+
+      const user = await db.findUserById(request.user!.userId);
+
+      if (!user) {
+        return reply.code(404).send({ error: 'User not found' });
+      }
+
+      if (idToken) {
+        await verifyRecentSignIn(user, provider, idToken);
+      } else if (!(await verifyPassword(password!, user.passwordHash))) {
+        return reply.code(400).send({ error: 'Password is incorrect' });
+      }
+
+      if (email === user.email) {
+        return reply.code(400).send({ error: 'That is already your email' });
+      }
+
+      if (await db.findUserByEmail(email)) {
+        return reply.code(409).send({ error: 'User with this email already exists' });
+      }
+
+      await requestEmailChange(user, email);
+
+      return reply.code(202).send({
+        success: true,
+        message: `Follow the link sent to ${email} to finish changing your email`,
+      });
+    } catch (error) {
+      if (error instanceof OidcError) {
+        return reply.code(400).send({ error: error.message });
+      }
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Email change failed' });
+    }
+  });
+
+  // Third-party sign-in providers that are configured, with the client ids
+  // apps need to request ID tokens
+  server.get('/api/auth/oauth/providers', async (_request: FastifyRequest, reply: FastifyReply) => {
+    return reply.code(200).send({
+      providers: getOidcVerifier().listProviders().map(provider => ({
+        name: provider.name,
+        clientIds: provider.clientIds,
+      })),
+    });
+  });
+
+  // Sign in with an ID token from a provider, linking it to the account with
+  // the same verified email or creating one
+  server.post('/api/auth/oauth/:provider', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { provider } = request.params as OAuthParams;
+      const { idToken, name, nonce } = (request.body || {}) as OAuthBody;
+
+      if (!getOidcVerifier().getProvider(provider)) {
+        return reply.code(404).send({ error: `Sign-in with ${provider} is not available` });
+      }
+
+      if (typeof idToken !== 'string' || !idToken) {
+        return reply.code(400).send({ error: 'ID token is required' });
+      }
+
+      const { user, isNewUser, ...session } = await signInWithIdToken(provider, idToken, {
+        name: typeof name === 'string' ? name : undefined,
+        nonce: typeof nonce === 'string' ? nonce : undefined,
+      });
+
+      return reply.code(isNewUser ? 201 : 200).send({
+        ...session,
+        isNewUser,
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          emailVerified: user.emailVerified,
+        },
+      });
+    } catch (error) {
+      if (error instanceof OidcError) {
+        return reply.code(401).send({ error: error.message });
+      }
+      if (error instanceof OAuthAccountError) {
+        return reply.code(409).send({ error: error.message });
+      }
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Sign-in failed' });
+    }
+  });
 }
@@ -0,0 +1,63 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { authMiddleware } from '../middleware/auth.js';
+import { exportUserData, importUserData, ImportError } from '../services/dataExport.js';
+
+// Exports carry every meal photo, so they outgrow the 5MB image upload limit
+const MAX_IMPORT_BYTES = parseInt(process.env.IMPORT_MAX_BYTES || String(50 * 1024 * 1024), 10);
+
+export async function dataExportRoutes(server: FastifyInstance) {
+  // Download everything the user has logged as a zip of JSON and CSV files
+  server.get('/api/export', { preHandler: authMiddleware }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const now = new Date();
+      const archive = await exportUserData(request.user!.userId, now);
+      const filename = `nutritionai-export-${now.toISOString().split('T')[0]}.zip`;
+
+      return reply
+        .code(200)
+        .header('Content-Type', 'application/zip')
+        .header('Content-Disposition', `attachment; filename="${filename}"`)
+        .send(Buffer.from(archive));
+    } catch (error) {
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Export failed' });
+    }
+  });
+
+  // Restore an export archive (multipart field `archive`) into the signed-in
+  // account. Records already there are skipped, so importing twice is safe.
+  server.post('/api/import', { preHandler: authMiddleware }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      if (!request.isMultipart()) {
+        return reply.code(400).send({ error: 'Upload an export archive as multipart field "archive"' });
+      }
+
+      let archive: Buffer | undefined;
+      for await (const part of request.parts({ limits: { fileSize: MAX_IMPORT_BYTES } })) {
+        if (part.type === 'file' && part.fieldname === 'archive') {
+          archive = await part.toBuffer();
+        } else if (part.type === 'file') {
+          // Drain unexpected files so the multipart stream can finish
+          part.file.resume();
+        }
+      }
+
+      if (!archive) {
+        return reply.code(400).send({ error: 'Upload an export archive as multipart field "archive"' });
+      }
+
+      const summary = await importUserData(request.user!.userId, archive);
+
+      return reply.code(200).send({ success: true, ...summary });
+    } catch (error) {
+      if (error instanceof ImportError) {
+        return reply.code(400).send({ error: error.message });
+      }
+      if (error instanceof server.multipartErrors.RequestFileTooLargeError) {
+        return reply.code(413).send({ error: `Archive is larger than ${Math.round(MAX_IMPORT_BYTES / 1024 / 1024)}MB` });
+      }
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Import failed' });
+    }
+  });
+}
@@ -0,0 +1,99 @@
+import { FastifyInstance } from 'fastify';
+import { authMiddleware, optionalAuthMiddleware } from '../middleware/auth.js';
+import { requireOwnership, ownedResource } from '../middleware/ownership.js';
+import {
+  listDietTemplates,
+  createDietTemplate,
+  cloneDietTemplate,
+  updateDietTemplate,
+  deleteDietTemplate,
+  DietTemplateError,
+  DietTemplateLimitError
+} from '../services/dietTemplates.js';
+import type { DietTemplateInput } from '../services/dietTemplates.js';
+
+interface DietTemplateParams {
+  dietType: string;
+}
+
+export async function dietTemplateRoutes(server: FastifyInstance) {
+  // Built-in and global templates, plus the user's own when signed in
+  server.get('/api/diet-templates', { preHandler: optionalAuthMiddleware }, async (request, reply) => {
+    try {
+      return reply.code(200).send({ templates: await listDietTemplates(request.user?.userId ?? null) });
+    } catch (error) {
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Failed to fetch diet templates' });
+    }
+  });
+
+  // Create a custom template
+  server.post<{ Body: DietTemplateInput }>('/api/diet-templates', { preHandler: authMiddleware }, async (request, reply) => {
+    try {
+      const template = await createDietTemplate(request.user!.userId, request.body || {});
+      return reply.code(201).send({ template });
+    } catch (error) {
+      if (error instanceof DietTemplateError) {
+        return reply.code(400).send({ error: error.message });
+      }
+      if (error instanceof DietTemplateLimitError) {
+        return reply.code(409).send({ error: error.message });
+      }
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Failed to save diet template' });
+    }
+  });
+
+  // Copy a built-in, global or own template into a new custom one
+  server.post<{ Params: DietTemplateParams }>('/api/diet-templates/:dietType/clone', { preHandler: authMiddleware }, async (request, reply) => {
+    try {
+      const template = await cloneDietTemplate(request.user!.userId, request.params.dietType);
+      if (!template) {
+        return reply.code(404).send({ error: 'Diet template not found' });
+      }
+      return reply.code(201).send({ template });
+    } catch (error) {
+      if (error instanceof DietTemplateLimitError) {
+        return reply.code(409).send({ error: error.message });
+      }
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Failed to clone diet template' });
+    }
+  });
+
+  // Edit one of the user's templates
+  server.put<{ Params: DietTemplateParams; Body: DietTemplateInput }>(
+    '/api/diet-templates/:dietType',
+    { preHandler: [authMiddleware, requireOwnership('dietTemplate', 'dietType')] },
+    async (request, reply) => {
+      try {
+        const template = await updateDietTemplate(ownedResource(request, 'dietTemplate'), request.body || {});
+        if (!template) {
+          return reply.code(404).send({ error: 'Diet template not found' });
+        }
+        return reply.code(200).send({ template });
+      } catch (error) {
+        if (error instanceof DietTemplateError) {
+          return reply.code(400).send({ error: error.message });
+        }
+        server.log.error(error);
+        return reply.code(500).send({ error: 'Failed to update diet template' });
+      }
+    }
+  );
+
+  // Delete one of the user's templates; a profile using it moves to Balanced
+  server.delete<{ Params: DietTemplateParams }>(
+    '/api/diet-templates/:dietType',
+    { preHandler: [authMiddleware, requireOwnership('dietTemplate', 'dietType')] },
+    async (request, reply) => {
+      try {
+        await deleteDietTemplate(ownedResource(request, 'dietTemplate'));
+        return reply.code(200).send({ success: true });
+      } catch (error) {
+        server.log.error(error);
+        return reply.code(500).send({ error: 'Failed to delete diet template' });
+      }
+    }
+  );
+}
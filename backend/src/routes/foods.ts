@@ -0,0 +1,163 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { authMiddleware } from '../middleware/auth.js';
+import { validateImage, ImageValidationError } from '../utils/imageValidation.js';
+import { normalizeBarcode, isValidBarcode, decodeBarcodeImage, BarcodeError } from '../utils/barcode.js';
+import { logBarcodeMeal, ProductNotFoundError } from '../services/foodCatalog.js';
+import { getDb } from '../services/database.js';
+import type { ReferenceFood } from '../services/database.js';
+import { nutrientsForGrams } from '../services/foodReference.js';
+import { portionToGrams } from '../utils/portions.js';
+import { MEAL_TYPES, isMealType } from '../utils/mealTypes.js';
+
+interface BarcodeBody {
+  barcode?: string;
+  servings?: number | string;
+  mealType?: string;
+}
+
+interface SearchQuery {
+  q?: string;
+  limit?: string;
+  portion?: string;
+}
+
+const MAX_SERVINGS = 100;
+const MAX_SEARCH_RESULTS = 50;
+
+// When a portion is given, include its weight and nutrition for each food
+function toSearchResult(food: ReferenceFood, portion?: string) {
+  const { updatedAt: _updatedAt, ...result } = food;
+  if (!portion) return result;
+
+  const grams = portionToGrams(portion, food.portions);
+  return {
+    ...result,
+    portion: {
+      text: portion,
+      grams: grams === null ? null : Math.round(grams * 10) / 10,
+      nutrition: grams === null ? null : nutrientsForGrams(food, grams)
+    }
+  };
+}
+
+export async function foodsRoutes(server: FastifyInstance) {
+  // Log a packaged food by barcode - either the code itself or a photo of it
+  server.post('/api/foods/barcode', { preHandler: authMiddleware }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const userId = request.user!.userId;
+      let barcodeValue: string | undefined;
+      let servingsValue: number | string | undefined;
+      let mealTypeValue: string | undefined;
+
+      if (request.isMultipart()) {
+        for await (const part of request.parts()) {
+          if (part.type === 'file' && part.fieldname === 'image') {
+            const buffer = await part.toBuffer();
+            try {
+              validateImage(part.mimetype, buffer.length);
+            } catch (error) {
+              if (error instanceof ImageValidationError) {
+                return reply.code(400).send({ error: error.message });
+              }
+              throw error;
+            }
+            barcodeValue = await decodeBarcodeImage(buffer);
+            console.log(`[Foods] Decoded barcode ${barcodeValue} from image`);
+          } else if (part.type === 'field' && part.fieldname === 'barcode') {
+            barcodeValue = barcodeValue || (part.value as string);
+          } else if (part.type === 'field' && part.fieldname === 'servings') {
+            servingsValue = part.value as string;
+          } else if (part.type === 'field' && part.fieldname === 'mealType') {
+            mealTypeValue = (part.value as string) || undefined;
+          } else if (part.type === 'file') {
+            // Drain unexpected files so the multipart stream can finish
+            part.file.resume();
+          }
+        }
+      } else {
+        const body = (request.body || {}) as BarcodeBody;
+        barcodeValue = body.barcode;
+        servingsValue = body.servings;
+        mealTypeValue = body.mealType;
+      }
+
+      if (!barcodeValue) {
+        return reply.code(400).send({ error: 'Provide a barcode or an image of one' });
+      }
+
+      const barcode = normalizeBarcode(String(barcodeValue));
+      if (!isValidBarcode(barcode)) {
+        return reply.code(400).send({ error: 'Invalid barcode - expected an EAN-8, UPC-A or EAN-13 code' });
+      }
+
+      const servings = servingsValue === undefined || servingsValue === '' ? 1 : Number(servingsValue);
+      if (!Number.isFinite(servings) || servings <= 0 || servings > MAX_SERVINGS) {
+        return reply.code(400).send({ error: `servings must be a number between 0 and ${MAX_SERVINGS}` });
+      }
+
+      if (mealTypeValue !== undefined && !isMealType(mealTypeValue)) {
+        return reply.code(400).send({ error: `mealType must be one of: ${MEAL_TYPES.join(', ')}` });
+      }
+
+      const { meal, product } = await logBarcodeMeal({ userId, barcode, servings, mealType: mealTypeValue });
+      const nutritionData = meal.nutritionData as any;
+
+      return reply.code(201).send({
+        id: meal.id,
+        barcode: product.barcode,
+        product: {
+          name: product.name,
+          brand: product.brand,
+          servingSize: product.servingSize,
+          nutrientsPer100g: product.nutrientsPer100g
+        },
+        foods: nutritionData.foods,
+        totals: nutritionData.totals,
+        mealType: meal.mealType,
+        timestamp: meal.createdAt.toISOString()
+      });
+
+    } catch (error) {
+      if (error instanceof BarcodeError) {
+        return reply.code(422).send({ error: error.message, code: 'BARCODE_NOT_FOUND' });
+      }
+      if (error instanceof ProductNotFoundError) {
+        return reply.code(404).send({ error: error.message, code: 'PRODUCT_NOT_FOUND' });
+      }
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Failed to log barcode' });
+    }
+  });
+
+  // Search the reference food database (USDA FoodData Central)
+  server.get<{ Querystring: SearchQuery }>('/api/foods/search', async (request, reply) => {
+    const query = request.query.q?.trim();
+    if (!query) {
+      return reply.code(400).send({ error: 'Query parameter q is required' });
+    }
+
+    const limit = Math.min(Math.max(parseInt(request.query.limit || '10', 10) || 10, 1), MAX_SEARCH_RESULTS);
+
+    try {
+      const foods = await getDb().searchReferenceFoods(query, limit);
+      return reply.code(200).send({ foods: foods.map(food => toSearchResult(food, request.query.portion)) });
+    } catch (error) {
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Failed to search foods' });
+    }
+  });
+
+  // Get a reference food by id
+  server.get<{ Params: { id: string }; Querystring: SearchQuery }>('/api/foods/:id', async (request, reply) => {
+    try {
+      const food = await getDb().findReferenceFoodById(request.params.id);
+      if (!food) {
+        return reply.code(404).send({ error: 'Food not found' });
+      }
+      return reply.code(200).send(toSearchResult(food, request.query.portion));
+    } catch (error) {
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Failed to fetch food' });
+    }
+  });
+}
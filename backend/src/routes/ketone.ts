@@ -2,6 +2,7 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { getDb } from '../services/database.js';
 import { isInKetosis } from '../services/dietCompliance.js';
 import { authMiddleware } from '../middleware/auth.js';
+import { requireOwnership } from '../middleware/ownership.js';
 
 interface KetoneLogBody {
   ketoneLevel: number;
@@ -85,7 +86,7 @@ export default async function ketoneRoutes(fastify: FastifyInstance) {
   });
 
   // Delete a ketone log
-  fastify.delete<{ Params: { id: string } }>('/api/ketone/:id', { preHandler: authMiddleware }, async (
+  fastify.delete<{ Params: { id: string } }>('/api/ketone/:id', { preHandler: [authMiddleware, requireOwnership('ketoneLog')] }, async (
     request,
     reply
   ) => {
@@ -95,9 +96,11 @@ export default async function ketoneRoutes(fastify: FastifyInstance) {
 
     try {
       await db.deleteKetoneLog(id);
+      console.log(`[Ketone] Deleted log ${id} for user ${userId}`);
       return { success: true };
     } catch (error) {
-      return reply.status(404).send({ error: 'Log not found' });
+      fastify.log.error(error);
+      return reply.status(500).send({ error: 'Failed to delete log' });
     }
   });
 }
@@ -1,10 +1,24 @@
-import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { FastifyInstance } from 'fastify';
 import { authMiddleware } from '../middleware/auth.js';
+import { mealLoggingRateLimit } from '../middleware/rateLimit.js';
+import { requireOwnership, ownedResource } from '../middleware/ownership.js';
 import { getDb } from '../services/database.js';
+import type { MealAnalysis } from '../services/database.js';
+import { logManualMeal, logTextMeal, ManualMealError, MAX_DESCRIPTION_LENGTH } from '../services/mealLogging.js';
+import type { ManualFoodInput } from '../services/mealLogging.js';
+import { classifyAnalysisError } from '../services/analysisPipeline.js';
+import { consumeAnalysisQuota, refundAnalysisQuota, QuotaExceededError } from '../services/usage.js';
+import { refreshDailyProgress, getUserTimeZone } from '../services/progressTracking.js';
+import { MEAL_TYPES, isMealType } from '../utils/mealTypes.js';
+import type { MealType } from '../utils/mealTypes.js';
+import { MEAL_MACROS, MEAL_SORT_FIELDS, encodeMealCursor, decodeMealCursor } from '../utils/mealQuery.js';
+import type { MealQuery, MealSortField, NumberRange } from '../utils/mealQuery.js';
+import { startOfLocalDay, addDays } from '../utils/timezone.js';
 
 interface MealResponse {
   id: string;
   thumbnail: string | null;
+  thumbnails: string[];
   foods: Array<{
     name: string;
     portion: string;
@@ -22,68 +36,253 @@ interface MealResponse {
     carbs: number;
     fat: number;
   };
+  mealType: MealType | null;
   timestamp: string;
 }
 
+interface CreateMealBody {
+  foods?: ManualFoodInput[];
+  text?: string;
+  model?: string;
+  mealType?: string;
+  timestamp?: string;
+}
+
+interface ListMealsQuery {
+  limit?: string;
+  cursor?: string;
+  from?: string;
+  to?: string;
+  mealType?: string;
+  q?: string;
+  sort?: string;
+  order?: string;
+  [range: string]: string | undefined;  // minCalories, maxCalories, minProtein, ...
+}
+
+const INVALID_MEAL_TYPE = `mealType must be one of: ${MEAL_TYPES.join(', ')}`;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+const MAX_SEARCH_LENGTH = 100;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+class MealQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MealQueryError';
+  }
+}
+
+// "2026-03-01" is a day in the user's time zone (its end, for `to`); anything else is an exact time
+function parseBoundary(name: string, value: string, timeZone: string, endOfDay: boolean): Date {
+  if (DATE_ONLY.test(value)) {
+    const day = new Date(`${value}T00:00:00.000Z`);
+    if (!isNaN(day.getTime())) {
+      return startOfLocalDay(endOfDay ? addDays(day, 1) : day, timeZone);
+    }
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new MealQueryError(`${name} must be a date (YYYY-MM-DD) or an ISO 8601 timestamp`);
+  }
+  return date;
+}
+
+function parseNumber(name: string, value: string): number {
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number) || number < 0) {
+    throw new MealQueryError(`${name} must be a non-negative number`);
+  }
+  return number;
+}
+
+/**
+ * Turn GET /api/meals query parameters into a meal query. Dates without a
+ * time are whole days in the user's time zone; `to` is inclusive.
+ */
+function parseMealListQuery(userId: string, params: ListMealsQuery, timeZone: string): MealQuery {
+  const limit = params.limit === undefined ? DEFAULT_PAGE_SIZE : Number(params.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new MealQueryError(`limit must be an integer from 1 to ${MAX_PAGE_SIZE}`);
+  }
+
+  const sort = (params.sort ?? 'createdAt') as MealSortField;
+  if (!MEAL_SORT_FIELDS.includes(sort)) {
+    throw new MealQueryError(`sort must be one of: ${MEAL_SORT_FIELDS.join(', ')}`);
+  }
+  const order = params.order ?? 'desc';
+  if (order !== 'asc' && order !== 'desc') {
+    throw new MealQueryError('order must be asc or desc');
+  }
+
+  const query: MealQuery = { userId, sort, order, limit };
+
+  if (params.cursor !== undefined) {
+    const cursor = decodeMealCursor(params.cursor);
+    if (!cursor) throw new MealQueryError('cursor is invalid');
+    query.cursor = cursor;
+  }
+
+  if (params.from) query.from = parseBoundary('from', params.from, timeZone, false);
+  if (params.to) query.to = parseBoundary('to', params.to, timeZone, true);
+  if (query.from && query.to && query.from >= query.to) {
+    throw new MealQueryError('from must be before to');
+  }
+
+  if (params.mealType) {
+    const mealTypes = params.mealType.split(',').map(type => type.trim());
+    if (!mealTypes.every(isMealType)) throw new MealQueryError(INVALID_MEAL_TYPE);
+    query.mealTypes = mealTypes;
+  }
+
+  for (const macro of MEAL_MACROS) {
+    const suffix = macro[0].toUpperCase() + macro.slice(1);
+    const range: NumberRange = {};
+    const min = params[`min${suffix}`];
+    const max = params[`max${suffix}`];
+    if (min !== undefined) range.min = parseNumber(`min${suffix}`, min);
+    if (max !== undefined) range.max = parseNumber(`max${suffix}`, max);
+    if (range.min !== undefined && range.max !== undefined && range.min > range.max) {
+      throw new MealQueryError(`min${suffix} must not be greater than max${suffix}`);
+    }
+    if (min !== undefined || max !== undefined) {
+      query.macros = { ...query.macros, [macro]: range };
+    }
+  }
+
+  if (params.q !== undefined) {
+    const search = params.q.trim();
+    if (search.length > MAX_SEARCH_LENGTH) {
+      throw new MealQueryError(`q must be at most ${MAX_SEARCH_LENGTH} characters`);
+    }
+    if (search) query.search = search;
+  }
+
+  return query;
+}
+
+function toMealResponse(analysis: MealAnalysis): MealResponse {
+  const nutritionData = analysis.nutritionData as any;
+  return {
+    id: analysis.id,
+    thumbnail: analysis.thumbnail,
+    thumbnails: analysis.thumbnails,
+    foods: nutritionData.foods || [],
+    totals: nutritionData.totals || { calories: 0, protein: 0, carbs: 0, fat: 0 },
+    mealType: analysis.mealType,
+    timestamp: analysis.createdAt.toISOString()
+  };
+}
+
 export async function mealsRoutes(server: FastifyInstance) {
   const db = getDb();
   
-  // Get all meals for the authenticated user
-  server.get('/api/meals', { preHandler: authMiddleware }, async (request: FastifyRequest, reply: FastifyReply) => {
+  // Get a page of the authenticated user's meals, newest first unless sorted otherwise
+  server.get<{ Querystring: ListMealsQuery }>('/api/meals', { preHandler: authMiddleware }, async (request, reply) => {
     try {
       const userId = request.user!.userId;
-      console.log(`[Meals] Fetching meals for user: ${userId}`);
-      
-      const mealAnalyses = await db.findMealAnalysesByUserId(userId);
-      console.log(`[Meals] Found ${mealAnalyses.length} meals`);
-      
+
+      let query: MealQuery;
+      try {
+        query = parseMealListQuery(userId, request.query, await getUserTimeZone(userId));
+      } catch (error) {
+        if (error instanceof MealQueryError) {
+          return reply.code(400).send({ error: error.message });
+        }
+        throw error;
+      }
+
+      const page = await db.queryMealAnalyses(query);
+      console.log(`[Meals] Found ${page.meals.length} meals for user ${userId}`);
+
       // Transform to response format
-      const meals: MealResponse[] = mealAnalyses.map(analysis => {
-        const nutritionData = analysis.nutritionData as any;
-        return {
-          id: analysis.id,
-          thumbnail: analysis.thumbnail,
-          foods: nutritionData.foods || [],
-          totals: nutritionData.totals || { calories: 0, protein: 0, carbs: 0, fat: 0 },
-          timestamp: analysis.createdAt.toISOString()
-        };
+      const meals: MealResponse[] = page.meals.map(toMealResponse);
+
+      return reply.code(200).send({
+        meals,
+        nextCursor: page.nextCursor ? encodeMealCursor(page.nextCursor) : null
       });
-      
-      return reply.code(200).send({ meals });
-      
+
     } catch (error) {
       server.log.error(error);
       return reply.code(500).send({ error: 'Failed to fetch meals' });
     }
   });
   
-  // Get a single meal by ID
-  server.get<{ Params: { id: string } }>('/api/meals/:id', { preHandler: authMiddleware }, async (request, reply) => {
+  // Log a meal without a photo, from food items or a text description
+  // Text descriptions are metered like /api/analyze: the analyze rate limit and the daily quota
+  server.post<{ Body: CreateMealBody }>('/api/meals', { preHandler: authMiddleware, config: { rateLimit: mealLoggingRateLimit() } }, async (request, reply) => {
+    const userId = request.user!.userId;
+    const { foods, text, model, mealType, timestamp } = request.body || {};
+    const description = typeof text === 'string' ? text.trim() : '';
+
+    if ((foods === undefined) === (description === '')) {
+      return reply.code(400).send({ error: 'Provide either foods or a text description' });
+    }
+    if (foods !== undefined && !Array.isArray(foods)) {
+      return reply.code(400).send({ error: 'foods must be an array' });
+    }
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      return reply.code(400).send({ error: `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters` });
+    }
+
+    const createdAt = timestamp ? new Date(timestamp) : undefined;
+    if (createdAt && Number.isNaN(createdAt.getTime())) {
+      return reply.code(400).send({ error: 'timestamp must be an ISO date' });
+    }
+    if (mealType !== undefined && !isMealType(mealType)) {
+      return reply.code(400).send({ error: INVALID_MEAL_TYPE });
+    }
+
+    // When the text meal was counted against the user's quota, to give it back on failure
+    let chargedAt: Date | null = null;
+
     try {
-      const { id } = request.params;
-      const userId = request.user!.userId;
-      
-      const analysis = await db.findMealAnalysisById(id);
-      
-      if (!analysis) {
-        return reply.code(404).send({ error: 'Meal not found' });
+      if (!foods) {
+        const now = new Date();
+        try {
+          await consumeAnalysisQuota(userId, now);
+          chargedAt = now;
+        } catch (error) {
+          if (error instanceof QuotaExceededError) {
+            const retryAfter = Math.ceil((error.resetsAt.getTime() - now.getTime()) / 1000);
+            return reply.code(429).header('retry-after', String(retryAfter)).send({
+              error: error.message,
+              limit: error.limit,
+              resetsAt: error.resetsAt.toISOString()
+            });
+          }
+          throw error;
+        }
       }
-      
-      // Verify ownership
-      if (analysis.userId !== userId) {
-        return reply.code(403).send({ error: 'Access denied' });
+
+      const analysis = foods
+        ? await logManualMeal({ userId, foods, mealType, createdAt })
+        : await logTextMeal({ userId, description, modelName: model, mealType, createdAt });
+
+      return reply.code(201).send(toMealResponse(analysis));
+
+    } catch (error) {
+      if (error instanceof ManualMealError) {
+        return reply.code(400).send({ error: error.message });
       }
-      
-      const nutritionData = analysis.nutritionData as any;
-      const meal: MealResponse = {
-        id: analysis.id,
-        thumbnail: analysis.thumbnail,
-        foods: nutritionData.foods || [],
-        totals: nutritionData.totals || { calories: 0, protein: 0, carbs: 0, fat: 0 },
-        timestamp: analysis.createdAt.toISOString()
-      };
-      
-      return reply.code(200).send(meal);
+      server.log.error(error);
+
+      if (chargedAt) {
+        await refundAnalysisQuota(userId, chargedAt).catch(refundError => server.log.error(refundError));
+      }
+
+      const { statusCode, ...body } = classifyAnalysisError(error);
+      return reply.code(statusCode).send(body);
+    }
+  });
+
+  // Get a single meal by ID
+  server.get<{ Params: { id: string } }>('/api/meals/:id', { preHandler: [authMiddleware, requireOwnership('meal')] }, async (request, reply) => {
+    try {
+      return reply.code(200).send(toMealResponse(ownedResource(request, 'meal')));
       
     } catch (error) {
       server.log.error(error);
@@ -92,24 +291,21 @@ export async function mealsRoutes(server: FastifyInstance) {
   });
 
   // Delete a meal by ID
-  server.delete<{ Params: { id: string } }>('/api/meals/:id', { preHandler: authMiddleware }, async (request, reply) => {
+  server.delete<{ Params: { id: string } }>('/api/meals/:id', { preHandler: [authMiddleware, requireOwnership('meal')] }, async (request, reply) => {
     try {
       const { id } = request.params;
       const userId = request.user!.userId;
-      
-      const analysis = await db.findMealAnalysisById(id);
-      
-      if (!analysis) {
-        return reply.code(404).send({ error: 'Meal not found' });
-      }
-      
-      // Verify ownership
-      if (analysis.userId !== userId) {
-        return reply.code(403).send({ error: 'Access denied' });
-      }
+      const analysis = ownedResource(request, 'meal');
       
       await db.deleteMealAnalysis(id);
       console.log(`[Meals] Deleted meal ${id} for user ${userId}`);
+
+      try {
+        await refreshDailyProgress(userId, [analysis.createdAt]);
+      } catch (progressError) {
+        console.error('Failed to update daily progress:', progressError);
+        // Continue - progress tracking is not critical
+      }
       
       return reply.code(200).send({ success: true, message: 'Meal deleted' });
       
@@ -130,38 +326,42 @@ export async function mealsRoutes(server: FastifyInstance) {
         confidence?: number;
       }>;
       totals?: { calories: number; protein: number; carbs: number; fat: number };
+      mealType?: string;
       timestamp?: string;
     }
-  }>('/api/meals/:id', { preHandler: authMiddleware }, async (request, reply) => {
+  }>('/api/meals/:id', { preHandler: [authMiddleware, requireOwnership('meal')] }, async (request, reply) => {
     try {
       const { id } = request.params;
       const userId = request.user!.userId;
-      const { foods, totals, timestamp } = request.body;
-      
-      const analysis = await db.findMealAnalysisById(id);
-      
-      if (!analysis) {
-        return reply.code(404).send({ error: 'Meal not found' });
+      const { foods, totals, mealType, timestamp } = request.body;
+      const analysis = ownedResource(request, 'meal');
+
+      if (mealType !== undefined && !isMealType(mealType)) {
+        return reply.code(400).send({ error: INVALID_MEAL_TYPE });
       }
-      
-      // Verify ownership
-      if (analysis.userId !== userId) {
-        return reply.code(403).send({ error: 'Access denied' });
+      const createdAt = timestamp ? new Date(timestamp) : undefined;
+      if (createdAt && Number.isNaN(createdAt.getTime())) {
+        return reply.code(400).send({ error: 'timestamp must be an ISO date' });
       }
       
       // Build update data
-      const updateData: { nutritionData?: any; createdAt?: Date } = {};
+      const updateData: { nutritionData?: any; mealType?: MealType; createdAt?: Date } = {};
       
       if (foods || totals) {
         const existingNutrition = analysis.nutritionData as any;
         updateData.nutritionData = {
+          ...existingNutrition,
           foods: foods || existingNutrition.foods || [],
           totals: totals || existingNutrition.totals || { calories: 0, protein: 0, carbs: 0, fat: 0 }
         };
       }
       
-      if (timestamp) {
-        updateData.createdAt = new Date(timestamp);
+      if (mealType) {
+        updateData.mealType = mealType;
+      }
+
+      if (createdAt) {
+        updateData.createdAt = createdAt;
       }
       
       const updated = await db.updateMealAnalysis(id, updateData);
@@ -170,18 +370,17 @@ export async function mealsRoutes(server: FastifyInstance) {
         return reply.code(500).send({ error: 'Failed to update meal' });
       }
       
-      const nutritionData = updated.nutritionData as any;
-      const meal: MealResponse = {
-        id: updated.id,
-        thumbnail: updated.thumbnail,
-        foods: nutritionData.foods || [],
-        totals: nutritionData.totals || { calories: 0, protein: 0, carbs: 0, fat: 0 },
-        timestamp: updated.createdAt.toISOString()
-      };
-      
       console.log(`[Meals] Updated meal ${id} for user ${userId}`);
+
+      // Recalculate the day the meal was on and, if it moved, the day it moved to
+      try {
+        await refreshDailyProgress(userId, [analysis.createdAt, updated.createdAt]);
+      } catch (progressError) {
+        console.error('Failed to update daily progress:', progressError);
+        // Continue - progress tracking is not critical
+      }
       
-      return reply.code(200).send(meal);
+      return reply.code(200).send(toMealResponse(updated));
       
     } catch (error) {
       server.log.error(error);
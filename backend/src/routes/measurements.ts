@@ -0,0 +1,137 @@
+import { FastifyInstance } from 'fastify';
+import { authMiddleware } from '../middleware/auth.js';
+import { requireOwnership, ownedResource } from '../middleware/ownership.js';
+import { getDb } from '../services/database.js';
+import type { BodyMeasurement } from '../services/database.js';
+import { parseMeasurementInput, getWeightTrend, syncProfileWeight, MeasurementError } from '../services/bodyMeasurements.js';
+import type { MeasurementInput, MeasurementFields } from '../services/bodyMeasurements.js';
+
+interface ListMeasurementsQuery {
+  from?: string;
+}
+
+function toMeasurementResponse(measurement: BodyMeasurement) {
+  return {
+    id: measurement.id,
+    measuredAt: measurement.measuredAt.toISOString(),
+    weight: measurement.weight,
+    waist: measurement.waist,
+    bodyFat: measurement.bodyFat,
+    notes: measurement.notes
+  };
+}
+
+// Profile weight is a convenience copy; failing to update it shouldn't fail the request
+async function syncWeight(userId: string): Promise<void> {
+  try {
+    await syncProfileWeight(userId);
+  } catch (error) {
+    console.error('Failed to update profile weight:', error);
+  }
+}
+
+export async function measurementRoutes(server: FastifyInstance) {
+  const db = getDb();
+
+  // The user's measurements, newest first, optionally since a date
+  server.get<{ Querystring: ListMeasurementsQuery }>('/api/measurements', { preHandler: authMiddleware }, async (request, reply) => {
+    const { from } = request.query;
+    const since = from ? new Date(from) : undefined;
+    if (since && Number.isNaN(since.getTime())) {
+      return reply.code(400).send({ error: 'from must be an ISO date' });
+    }
+
+    try {
+      const measurements = await db.findBodyMeasurementsByUser(request.user!.userId, since);
+      return reply.code(200).send({ measurements: measurements.reverse().map(toMeasurementResponse) });
+    } catch (error) {
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Failed to fetch measurements' });
+    }
+  });
+
+  // Smoothed weight trend, weekly rate and progress toward the goal weight
+  server.get('/api/measurements/trend', { preHandler: authMiddleware }, async (request, reply) => {
+    try {
+      return reply.code(200).send(await getWeightTrend(request.user!.userId));
+    } catch (error) {
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Failed to calculate weight trend' });
+    }
+  });
+
+  // Log a weigh-in and/or measurements
+  server.post<{ Body: MeasurementInput }>('/api/measurements', { preHandler: authMiddleware }, async (request, reply) => {
+    const userId = request.user!.userId;
+
+    let fields: Partial<MeasurementFields>;
+    try {
+      fields = parseMeasurementInput(request.body || {});
+    } catch (error) {
+      if (error instanceof MeasurementError) {
+        return reply.code(400).send({ error: error.message });
+      }
+      throw error;
+    }
+
+    try {
+      const measurement = await db.createBodyMeasurement({ ...(fields as MeasurementFields), userId });
+      console.log(`[Measurements] Logged measurement ${measurement.id} for user ${userId}`);
+
+      if (measurement.weight !== null) {
+        await syncWeight(userId);
+      }
+
+      return reply.code(201).send(toMeasurementResponse(measurement));
+    } catch (error) {
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Failed to save measurement' });
+    }
+  });
+
+  // Correct a measurement
+  server.put<{ Params: { id: string }; Body: MeasurementInput }>('/api/measurements/:id', { preHandler: [authMiddleware, requireOwnership('bodyMeasurement')] }, async (request, reply) => {
+    const userId = request.user!.userId;
+    const existing = ownedResource(request, 'bodyMeasurement');
+
+    let fields: Partial<MeasurementFields>;
+    try {
+      fields = parseMeasurementInput(request.body || {}, existing);
+    } catch (error) {
+      if (error instanceof MeasurementError) {
+        return reply.code(400).send({ error: error.message });
+      }
+      throw error;
+    }
+
+    try {
+      const updated = await db.updateBodyMeasurement(existing.id, fields);
+      if (!updated) {
+        return reply.code(404).send({ error: 'Measurement not found' });
+      }
+
+      await syncWeight(userId);
+      return reply.code(200).send(toMeasurementResponse(updated));
+    } catch (error) {
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Failed to update measurement' });
+    }
+  });
+
+  // Delete a measurement
+  server.delete<{ Params: { id: string } }>('/api/measurements/:id', { preHandler: [authMiddleware, requireOwnership('bodyMeasurement')] }, async (request, reply) => {
+    const userId = request.user!.userId;
+    const { id } = request.params;
+
+    try {
+      await db.deleteBodyMeasurement(id);
+      console.log(`[Measurements] Deleted measurement ${id} for user ${userId}`);
+
+      await syncWeight(userId);
+      return reply.code(200).send({ success: true });
+    } catch (error) {
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Failed to delete measurement' });
+    }
+  });
+}
@@ -1,7 +1,21 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { getDb } from '../services/database.js';
-import { DIET_TEMPLATES, calculateRecommendedGoals } from '../services/dietCompliance.js';
+import { calculateRecommendedGoals } from '../services/dietCompliance.js';
+import { resolveDietTemplate, findAvailableDietTemplate } from '../services/dietTemplates.js';
 import { authMiddleware } from '../middleware/auth.js';
+import { ownerId } from '../services/authorization.js';
+import {
+  calculateCalorieTargets,
+  CalorieTargetError,
+  ACTIVITY_MULTIPLIERS,
+  BMR_FORMULAS,
+  MAX_WEEKLY_RATE,
+  PROTEIN_PER_KG_LEAN_MASS_RANGE
+} from '../services/calorieTargets.js';
+import type { CalorieTargetInput, BmrFormula, Gender, ActivityLevel } from '../services/calorieTargets.js';
+import { getAdaptiveGoals, acceptAdaptiveGoals, AdaptiveGoalsUnavailableError } from '../services/energyExpenditure.js';
+import { mergeMicronutrientLimits } from '../utils/micronutrients.js';
+import { isValidTimeZone, DEFAULT_TIME_ZONE } from '../utils/timezone.js';
 
 interface ProfileBody {
   dietType?: string;
@@ -12,11 +26,77 @@ interface ProfileBody {
   dailyFiberGoal?: number;
   dailySugarLimit?: number;
   weight?: number;
+  goalWeight?: number | null;  // kg; null clears it
   height?: number;
   age?: number;
-  gender?: 'male' | 'female';
-  activityLevel?: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
+  gender?: Gender;
+  activityLevel?: ActivityLevel;
   dietaryRestrictions?: string[];
+  micronutrientLimits?: Record<string, number | null>;
+  timezone?: string;
+}
+
+interface CalculateGoalsBody {
+  weight: number;
+  height: number;
+  age: number;
+  gender?: Gender;
+  activityLevel: ActivityLevel;
+  dietType: string;
+  formula?: BmrFormula;             // Defaults to Mifflin-St Jeor
+  bodyFat?: number | null;          // %
+  weeklyRate?: number;              // kg/week, negative to lose
+  proteinPerKgLeanMass?: number;
+}
+
+const isNumberIn = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+/**
+ * Check the goal calculator's inputs. Returns an error message when they're invalid.
+ */
+function parseCalculateGoalsBody(body: Partial<CalculateGoalsBody>): CalorieTargetInput | string {
+  const { weight, height, age, activityLevel, dietType } = body;
+  const gender = body.gender ?? 'other';
+  const formula = body.formula ?? 'mifflin-st-jeor';
+
+  if (!weight || !height || !age || !activityLevel || !dietType) {
+    return 'All fields are required';
+  }
+  if (!isNumberIn(weight, 20, 500) || !isNumberIn(height, 50, 300) || !isNumberIn(age, 10, 120)) {
+    return 'weight (kg), height (cm) and age must be realistic numbers';
+  }
+  if (!(activityLevel in ACTIVITY_MULTIPLIERS)) {
+    return `activityLevel must be one of ${Object.keys(ACTIVITY_MULTIPLIERS).join(', ')}`;
+  }
+  if (!['male', 'female', 'other'].includes(gender)) {
+    return 'gender must be male, female or other';
+  }
+  if (!BMR_FORMULAS.includes(formula)) {
+    return `formula must be one of ${BMR_FORMULAS.join(', ')}`;
+  }
+  if (body.bodyFat !== undefined && body.bodyFat !== null && !isNumberIn(body.bodyFat, 2, 75)) {
+    return 'bodyFat must be a percentage from 2 to 75';
+  }
+  if (body.weeklyRate !== undefined && !isNumberIn(body.weeklyRate, -MAX_WEEKLY_RATE, MAX_WEEKLY_RATE)) {
+    return `weeklyRate must be from -${MAX_WEEKLY_RATE} to ${MAX_WEEKLY_RATE} kg/week`;
+  }
+  const { min, max } = PROTEIN_PER_KG_LEAN_MASS_RANGE;
+  if (body.proteinPerKgLeanMass !== undefined && !isNumberIn(body.proteinPerKgLeanMass, min, max)) {
+    return `proteinPerKgLeanMass must be from ${min} to ${max} g`;
+  }
+
+  return {
+    weight,
+    height,
+    age,
+    gender,
+    activityLevel,
+    formula,
+    bodyFat: body.bodyFat ?? null,
+    weeklyRate: body.weeklyRate ?? 0,
+    proteinPerKgLeanMass: body.proteinPerKgLeanMass
+  };
 }
 
 export default async function profileRoutes(fastify: FastifyInstance) {
@@ -24,7 +104,7 @@ export default async function profileRoutes(fastify: FastifyInstance) {
 
   // Get user profile
   fastify.get('/api/profile', { preHandler: authMiddleware }, async (request: FastifyRequest, reply: FastifyReply) => {
-    const userId = request.user!.userId;
+    const userId = ownerId(request.user);
 
     const profile = await db.findUserProfileByUserId(userId);
 
@@ -33,7 +113,7 @@ export default async function profileRoutes(fastify: FastifyInstance) {
     }
 
     // Get the diet template for reference
-    const template = DIET_TEMPLATES[profile.dietType] || DIET_TEMPLATES.balanced;
+    const template = await resolveDietTemplate(profile.dietType);
 
     return {
       profile,
@@ -49,14 +129,38 @@ export default async function profileRoutes(fastify: FastifyInstance) {
 
   // Create or update user profile
   fastify.post<{ Body: ProfileBody }>('/api/profile', { preHandler: authMiddleware }, async (request, reply) => {
-    const userId = request.user!.userId;
+    const userId = ownerId(request.user);
 
     const body = request.body;
     const existingProfile = await db.findUserProfileByUserId(userId);
 
-    // Get diet template for default values
-    const dietType = body.dietType || existingProfile?.dietType || 'balanced';
-    const template = DIET_TEMPLATES[dietType] || DIET_TEMPLATES.balanced;
+    const micronutrientLimits = body.micronutrientLimits === undefined
+      ? existingProfile?.micronutrientLimits ?? {}
+      : mergeMicronutrientLimits(existingProfile?.micronutrientLimits ?? {}, body.micronutrientLimits);
+    if (typeof micronutrientLimits === 'string') {
+      return reply.status(400).send({ error: micronutrientLimits });
+    }
+
+    if (body.goalWeight !== undefined && body.goalWeight !== null &&
+        !(typeof body.goalWeight === 'number' && Number.isFinite(body.goalWeight) && body.goalWeight > 0)) {
+      return reply.status(400).send({ error: 'goalWeight must be a positive number or null' });
+    }
+
+    if (body.timezone !== undefined && !isValidTimeZone(body.timezone)) {
+      return reply.status(400).send({ error: 'timezone must be an IANA time zone such as "America/Los_Angeles"' });
+    }
+
+    // Get diet template for default values; a newly chosen one must be built-in, global or the user's own
+    let dietType = existingProfile?.dietType || 'balanced';
+    let template = await resolveDietTemplate(dietType);
+    if (body.dietType && body.dietType !== dietType) {
+      const chosen = await findAvailableDietTemplate(body.dietType, userId);
+      if (!chosen) {
+        return reply.status(400).send({ error: `Unknown diet type "${body.dietType}"` });
+      }
+      dietType = chosen.dietType;
+      template = chosen;
+    }
 
     // Calculate goals if physical metrics provided
     let calculatedGoals = null;
@@ -81,11 +185,14 @@ export default async function profileRoutes(fastify: FastifyInstance) {
       dailyFiberGoal: body.dailyFiberGoal ?? existingProfile?.dailyFiberGoal ?? template.fiberMinimum ?? null,
       dailySugarLimit: body.dailySugarLimit ?? existingProfile?.dailySugarLimit ?? template.sugarMaximum ?? null,
       weight: body.weight ?? existingProfile?.weight ?? null,
+      goalWeight: body.goalWeight === undefined ? existingProfile?.goalWeight ?? null : body.goalWeight,
       height: body.height ?? existingProfile?.height ?? null,
       age: body.age ?? existingProfile?.age ?? null,
       gender: body.gender ?? existingProfile?.gender ?? null,
       activityLevel: body.activityLevel ?? existingProfile?.activityLevel ?? null,
-      dietaryRestrictions: body.dietaryRestrictions ?? existingProfile?.dietaryRestrictions ?? []
+      dietaryRestrictions: body.dietaryRestrictions ?? existingProfile?.dietaryRestrictions ?? [],
+      micronutrientLimits,
+      timezone: body.timezone ?? existingProfile?.timezone ?? DEFAULT_TIME_ZONE
     };
 
     let profile;
@@ -104,56 +211,59 @@ export default async function profileRoutes(fastify: FastifyInstance) {
     };
   });
 
-  // Get all diet templates
-  fastify.get('/api/diet-templates', async (_request: FastifyRequest, _reply: FastifyReply) => {
-    // Return the templates from our in-memory definitions (faster than DB)
-    const templates = Object.values(DIET_TEMPLATES).map(t => ({
-      dietType: t.dietType,
-      name: t.name,
-      description: t.description,
-      proteinRatio: t.proteinRatio,
-      carbsRatio: t.carbsRatio,
-      fatRatio: t.fatRatio,
-      baselineCalories: t.baselineCalories,
-      baselineProtein: t.baselineProtein,
-      baselineCarbs: t.baselineCarbs,
-      baselineFat: t.baselineFat,
-      fiberMinimum: t.fiberMinimum,
-      sugarMaximum: t.sugarMaximum
-    }));
-
-    return { templates };
-  });
+  // Calculate calorie and macro goals for a target rate of weight change, explaining each step
+  fastify.post<{ Body: CalculateGoalsBody }>('/api/profile/calculate-goals', async (request, reply) => {
+    const input = parseCalculateGoalsBody(request.body ?? {});
+    if (typeof input === 'string') {
+      return reply.status(400).send({ error: input });
+    }
 
-  // Calculate recommended goals based on user metrics
-  fastify.post('/api/profile/calculate-goals', async (
-    request: FastifyRequest<{
-      Body: {
-        weight: number;
-        height: number;
-        age: number;
-        gender: 'male' | 'female';
-        activityLevel: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
-        dietType: string;
+    const template = await resolveDietTemplate(request.body.dietType);
+
+    try {
+      const targets = calculateCalorieTargets(input, template);
+
+      return {
+        ...targets,
+        template: {
+          name: template.name,
+          description: template.description
+        }
+      };
+    } catch (error) {
+      if (error instanceof CalorieTargetError) {
+        return reply.status(400).send({ error: error.message });
       }
-    }>,
-    reply: FastifyReply
-  ) => {
-    const { weight, height, age, gender, activityLevel, dietType } = request.body;
+      throw error;
+    }
+  });
 
-    if (!weight || !height || !age || !gender || !activityLevel || !dietType) {
-      return reply.status(400).send({ error: 'All fields are required' });
+  // Goals proposed from the user's measured energy expenditure
+  fastify.get('/api/profile/adaptive-goals', { preHandler: authMiddleware }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const adaptiveGoals = await getAdaptiveGoals(ownerId(request.user));
+
+    if (!adaptiveGoals) {
+      return reply.status(404).send({ error: 'Profile not found', needsSetup: true });
     }
 
-    const template = DIET_TEMPLATES[dietType] || DIET_TEMPLATES.balanced;
-    const goals = calculateRecommendedGoals(weight, height, age, gender, activityLevel, template);
+    return adaptiveGoals;
+  });
 
-    return {
-      goals,
-      template: {
-        name: template.name,
-        description: template.description
+  // Accept the proposed goals
+  fastify.post('/api/profile/adaptive-goals', { preHandler: authMiddleware }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const profile = await acceptAdaptiveGoals(ownerId(request.user));
+
+      if (!profile) {
+        return reply.status(404).send({ error: 'Profile not found', needsSetup: true });
       }
-    };
+
+      return { profile };
+    } catch (error) {
+      if (error instanceof AdaptiveGoalsUnavailableError) {
+        return reply.status(409).send({ error: error.message });
+      }
+      throw error;
+    }
   });
 }
@@ -7,15 +7,22 @@ import {
   getWeekStart,
   getRemainingBudget
 } from '../services/progressTracking.js';
-import { getNextMealSuggestions, DIET_TEMPLATES, calculateNetCarbs } from '../services/dietCompliance.js';
+import { getNextMealSuggestions, calculateNetCarbs } from '../services/dietCompliance.js';
+import { resolveDietTemplate } from '../services/dietTemplates.js';
+import { compareWeeks, getWeeklySummaryHistory } from '../services/weeklySummaries.js';
 import { authMiddleware } from '../middleware/auth.js';
+import { ownerId } from '../services/authorization.js';
+import { addDays } from '../utils/timezone.js';
+
+// A year of weekly summaries
+const MAX_WEEKS = 52;
 
 export default async function progressRoutes(fastify: FastifyInstance) {
   const db = getDb();
 
   // Get today's progress with suggestions
   fastify.get('/api/progress/today', { preHandler: authMiddleware }, async (request: FastifyRequest, reply: FastifyReply) => {
-    const userId = request.user!.userId;
+    const userId = ownerId(request.user);
 
     // Get user profile
     const profile = await db.findUserProfileByUserId(userId);
@@ -31,6 +38,7 @@ export default async function progressRoutes(fastify: FastifyInstance) {
 
     // Calculate remaining budget
     const remaining = getRemainingBudget(progress);
+    const template = await resolveDietTemplate(profile.dietType);
 
     // Get meal suggestions based on remaining budget
     const suggestions = getNextMealSuggestions(
@@ -38,11 +46,11 @@ export default async function progressRoutes(fastify: FastifyInstance) {
       remaining.protein,
       remaining.carbs,
       remaining.fat,
-      profile.dietType
+      template
     );
 
-    // Calculate net carbs for keto users
-    const netCarbs = profile.dietType === 'keto'
+    // Calculate net carbs for keto and other diets that count them
+    const netCarbs = template.rules.countNetCarbs
       ? calculateNetCarbs(progress.totalCarbs, progress.totalFiber)
       : null;
 
@@ -54,24 +62,23 @@ export default async function progressRoutes(fastify: FastifyInstance) {
       remaining,
       suggestions,
       dietType: profile.dietType,
-      template: DIET_TEMPLATES[profile.dietType] || DIET_TEMPLATES.balanced
+      template
     };
   });
 
   // Get this week's progress
   fastify.get('/api/progress/week', { preHandler: authMiddleware }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const userId = request.user!.userId;
+      const userId = ownerId(request.user);
 
       const profile = await db.findUserProfileByUserId(userId);
       if (!profile) {
         return reply.status(404).send({ error: 'Profile not set up', needsSetup: true });
       }
 
-      // Get week boundaries
-      const weekStart = getWeekStart();
-      const weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekEnd.getDate() + 6);
+      // Get week boundaries in the user's time zone
+      const weekStart = getWeekStart(new Date(), profile.timezone);
+      const weekEnd = addDays(weekStart, 6);
 
       // Get daily progress for each day
       const days = await getProgressRange(userId, weekStart, weekEnd);
@@ -79,6 +86,11 @@ export default async function progressRoutes(fastify: FastifyInstance) {
       // Calculate weekly summary
       const summary = await calculateWeeklySummary(userId, weekStart);
 
+      // Compare with last week's stored summary, once there is something to compare
+      const [lastWeek] = await db.findWeeklySummariesByUser(userId, 1);
+      const isLastWeek = lastWeek && addDays(lastWeek.weekStart, 7).getTime() === weekStart.getTime();
+      const change = summary && isLastWeek ? compareWeeks(summary, lastWeek) : null;
+
       return {
         weekStart: weekStart.toISOString().split('T')[0],
         weekEnd: weekEnd.toISOString().split('T')[0],
@@ -97,6 +109,7 @@ export default async function progressRoutes(fastify: FastifyInstance) {
           daysTracked: 0,
           complianceRate: 0
         },
+        change,
         dietType: profile.dietType
       };
     } catch (error) {
@@ -108,7 +121,7 @@ export default async function progressRoutes(fastify: FastifyInstance) {
   // Get monthly progress (last 12 weeks)
   fastify.get('/api/progress/monthly', { preHandler: authMiddleware }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const userId = request.user!.userId;
+      const userId = ownerId(request.user);
 
       const profile = await db.findUserProfileByUserId(userId);
       if (!profile) {
@@ -116,7 +129,7 @@ export default async function progressRoutes(fastify: FastifyInstance) {
       }
 
       // Get the last 12 weekly summaries
-      const weeks = await db.findWeeklySummariesByUser(userId, 12);
+      const weeks = await getWeeklySummaryHistory(userId, 12);
 
       // Calculate overall stats
       const totalWeeks = weeks.length;
@@ -158,12 +171,37 @@ export default async function progressRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Get stored weekly summaries with week-over-week changes
+  fastify.get<{ Querystring: { limit?: string } }>('/api/progress/weeks', { preHandler: authMiddleware }, async (request, reply) => {
+    try {
+      const userId = ownerId(request.user);
+
+      const limit = request.query.limit === undefined ? 12 : Number(request.query.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_WEEKS) {
+        return reply.status(400).send({ error: `limit must be an integer from 1 to ${MAX_WEEKS}` });
+      }
+
+      const weeks = await getWeeklySummaryHistory(userId, limit);
+
+      return {
+        weeks: weeks.map(w => ({
+          ...w,
+          weekStart: w.weekStart.toISOString().split('T')[0],
+          weekEnd: w.weekEnd.toISOString().split('T')[0]
+        }))
+      };
+    } catch (error) {
+      console.error('Error fetching weekly summaries:', error);
+      return reply.status(500).send({ error: 'Failed to fetch weekly summaries' });
+    }
+  });
+
   // Get progress for a specific date range
   fastify.get<{ Querystring: { start: string; end: string } }>('/api/progress/range', { preHandler: authMiddleware }, async (
     request,
     reply
   ) => {
-    const userId = request.user!.userId;
+    const userId = ownerId(request.user);
 
     const { start, end } = request.query;
     if (!start || !end) {
@@ -0,0 +1,27 @@
+import { FastifyInstance } from 'fastify';
+import { createHash, timingSafeEqual } from 'crypto';
+import { getScheduler } from '../services/scheduler.js';
+
+// Compare digests so the check takes the same time whatever the token length
+function tokensMatch(provided: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
+
+export async function schedulerRoutes(server: FastifyInstance) {
+  // Run scheduled tasks now; for an external cron when SCHEDULER_TRIGGER=external
+  server.post('/api/scheduler/run', async (request, reply) => {
+    const expected = process.env.SCHEDULER_TOKEN;
+    if (!expected) {
+      return reply.code(404).send({ error: 'Scheduler trigger is not enabled' });
+    }
+
+    const provided = request.headers['x-scheduler-token'];
+    if (typeof provided !== 'string' || !tokensMatch(provided, expected)) {
+      return reply.code(401).send({ error: 'Invalid scheduler token' });
+    }
+
+    const ran = await getScheduler().runAll();
+    return reply.code(200).send({ ran });
+  });
+}
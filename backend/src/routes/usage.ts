@@ -0,0 +1,21 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { authMiddleware } from '../middleware/auth.js';
+import { resolveRateLimits } from '../middleware/rateLimit.js';
+import { getUsageReport } from '../services/usage.js';
+
+export async function usageRoutes(server: FastifyInstance) {
+  // Today's AI analyses against the account's quota, and the request budgets
+  server.get('/api/usage', { preHandler: authMiddleware }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const report = await getUsageReport(request.user!.userId);
+
+      return reply.code(200).send({
+        ...report,
+        rateLimits: resolveRateLimits(),
+      });
+    } catch (error) {
+      server.log.error(error);
+      return reply.code(500).send({ error: 'Failed to fetch usage' });
+    }
+  });
+}
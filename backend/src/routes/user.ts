@@ -1,7 +1,9 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { authMiddleware } from '../middleware/auth.js';
 import { getDb } from '../services/database.js';
-import { DIET_TEMPLATES, calculateMacroCompliance } from '../services/dietCompliance.js';
+import { calculateMacroCompliance } from '../services/dietCompliance.js';
+import { resolveDietTemplate } from '../services/dietTemplates.js';
+import { DEFAULT_TIME_ZONE, localDay, localWeekStart } from '../utils/timezone.js';
 
 interface NutritionData {
   totals: {
@@ -25,13 +27,14 @@ export async function userRoutes(server: FastifyInstance) {
         const userId = request.user!.userId;
         server.log.info({ userId }, 'Fetching user stats');
 
-        // Get current date boundaries
+        // Get user profile for diet info and time zone
+        const profile = await db.findUserProfileByUserId(userId);
+        const timeZone = profile?.timezone || DEFAULT_TIME_ZONE;
+
+        // Get current date boundaries in the user's time zone (weeks start on Monday)
         const now = new Date();
-        const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-        
-        // Get week start (Sunday)
-        const weekStart = new Date(todayStart);
-        weekStart.setDate(weekStart.getDate() - weekStart.getDay());
+        const today = localDay(now, timeZone);
+        const weekStart = localWeekStart(now, timeZone);
 
         // Fetch all user's meal analyses
         const allMeals = await db.findMealAnalysesByUserId(userId);
@@ -39,10 +42,10 @@ export async function userRoutes(server: FastifyInstance) {
 
         // Filter meals by time periods
         const todayMeals = allMeals.filter(
-          (meal) => meal.createdAt >= todayStart
+          (meal) => localDay(meal.createdAt, timeZone).getTime() === today.getTime()
         );
         const weekMeals = allMeals.filter(
-          (meal) => meal.createdAt >= weekStart
+          (meal) => localDay(meal.createdAt, timeZone) >= weekStart
         );
 
         // Calculate stats for each period
@@ -88,13 +91,10 @@ export async function userRoutes(server: FastifyInstance) {
           allTime: calculateStats(allMeals),
         };
 
-        // Get user profile for diet info
-        const profile = await db.findUserProfileByUserId(userId);
-
         // If user has a profile, add diet goals and compliance
         let dietInfo = null;
         if (profile) {
-          const template = DIET_TEMPLATES[profile.dietType] || DIET_TEMPLATES.balanced;
+          const template = await resolveDietTemplate(profile.dietType);
 
           // Calculate today's compliance
           const todayCompliance = calculateMacroCompliance(
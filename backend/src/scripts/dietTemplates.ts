@@ -0,0 +1,68 @@
+/**
+ * Manage the global diet templates every user can choose
+ *
+ * Usage: npm run diet-templates -- list
+ *        npm run diet-templates -- import <templates.json>
+ *        npm run diet-templates -- remove <dietType>
+ *
+ * The import file is a JSON array of templates, each with a dietType and the
+ * fields the API takes (name, ratios, tolerances, fiber/sugar limits, rules).
+ * Importing a dietType that already exists updates it in place. Removing one
+ * moves the profiles that used it back to Balanced.
+ */
+
+import 'dotenv/config';
+import { readFile } from 'fs/promises';
+import { initializeFirebase } from '../services/firebase.js';
+import { getDb } from '../services/database.js';
+import { saveGlobalDietTemplate, deleteDietTemplate } from '../services/dietTemplates.js';
+import type { DietTemplateInput } from '../services/dietTemplates.js';
+
+const USAGE = 'Usage: npm run diet-templates -- <list | import <templates.json> | remove <dietType>>';
+
+const [command, argument] = process.argv.slice(2);
+if (command !== 'list' && !((command === 'import' || command === 'remove') && argument)) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+try {
+  initializeFirebase();
+} catch {
+  console.log('Firebase not initialized - will use DATABASE_PROVIDER (sqlite, postgres or memory)');
+}
+
+const db = getDb();
+
+try {
+  if (command === 'list') {
+    const templates = await db.findDietTemplatesByUser(null);
+    for (const template of templates) {
+      console.log(`${template.dietType}: ${template.name} (P${template.proteinRatio}/C${template.carbsRatio}/F${template.fatRatio})`);
+    }
+    console.log(`${templates.length} global templates`);
+  } else if (command === 'import') {
+    const templates = JSON.parse(await readFile(argument, 'utf8')) as Array<DietTemplateInput & { dietType: string }>;
+    if (!Array.isArray(templates)) {
+      throw new Error('The file must contain a JSON array of templates');
+    }
+    for (const { dietType, ...input } of templates) {
+      const { template, created } = await saveGlobalDietTemplate(String(dietType), input);
+      console.log(`${created ? 'Created' : 'Updated'} ${template.dietType}: ${template.name}`);
+    }
+  } else {
+    const template = await db.findDietTemplateByType(argument);
+    if (!template || template.userId !== null) {
+      console.error(`No global template ${argument}`);
+      process.exitCode = 1;
+    } else {
+      await deleteDietTemplate(template);
+      console.log(`Removed ${argument}`);
+    }
+  }
+} catch (error) {
+  console.error('Failed:', error);
+  process.exitCode = 1;
+} finally {
+  await db.disconnect();
+}
@@ -0,0 +1,41 @@
+/**
+ * Import an Open Food Facts dump into the food product catalog
+ *
+ * Usage: npm run import:foods -- <products.jsonl | products.csv>
+ *
+ * Writes to whichever backend DATABASE_PROVIDER selects. Re-running the
+ * import updates existing products in place.
+ */
+
+import 'dotenv/config';
+import { initializeFirebase } from '../services/firebase.js';
+import { getDb } from '../services/database.js';
+import { importOpenFoodFacts } from '../services/foodCatalog.js';
+
+const filePath = process.argv[2];
+if (!filePath) {
+  console.error('Usage: npm run import:foods -- <products.jsonl | products.csv>');
+  process.exit(1);
+}
+
+try {
+  initializeFirebase();
+} catch {
+  console.log('Firebase not initialized - will use DATABASE_PROVIDER (sqlite, postgres or memory)');
+}
+
+const db = getDb();
+const started = Date.now();
+
+try {
+  const summary = await importOpenFoodFacts(filePath, db, progress => {
+    console.log(`Imported ${progress.imported} products (${progress.skipped} skipped)...`);
+  });
+  const seconds = ((Date.now() - started) / 1000).toFixed(1);
+  console.log(`Done: ${summary.imported} products imported, ${summary.skipped} skipped in ${seconds}s`);
+} catch (error) {
+  console.error('Import failed:', error);
+  process.exitCode = 1;
+} finally {
+  await db.disconnect();
+}
@@ -0,0 +1,42 @@
+/**
+ * Import USDA FoodData Central CSVs as reference foods
+ *
+ * Usage: npm run import:usda -- <unzipped FoodData Central CSV directory> [data_type,...]
+ *
+ * Defaults to Foundation, SR Legacy and FNDDS survey foods. Re-running the
+ * import updates existing foods in place.
+ */
+
+import 'dotenv/config';
+import { initializeFirebase } from '../services/firebase.js';
+import { getDb } from '../services/database.js';
+import { importUsdaFoodData } from '../services/foodReference.js';
+
+const [directory, dataTypes] = process.argv.slice(2);
+if (!directory) {
+  console.error('Usage: npm run import:usda -- <FoodData Central CSV directory> [data_type,...]');
+  process.exit(1);
+}
+
+try {
+  initializeFirebase();
+} catch {
+  console.log('Firebase not initialized - will use DATABASE_PROVIDER (sqlite, postgres or memory)');
+}
+
+const db = getDb();
+const started = Date.now();
+
+try {
+  const summary = await importUsdaFoodData(directory, db, {
+    dataTypes: dataTypes ? dataTypes.split(',') : undefined,
+    onProgress: imported => console.log(`Imported ${imported} foods...`)
+  });
+  const seconds = ((Date.now() - started) / 1000).toFixed(1);
+  console.log(`Done: ${summary.imported} foods imported, ${summary.skipped} without energy data skipped in ${seconds}s`);
+} catch (error) {
+  console.error('Import failed:', error);
+  process.exitCode = 1;
+} finally {
+  await db.disconnect();
+}
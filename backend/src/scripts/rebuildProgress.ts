@@ -0,0 +1,43 @@
+/**
+ * Rebuild a user's daily progress from their meals
+ *
+ * Usage: npm run rebuild:progress -- <userId> [userId...]
+ *
+ * Recalculates every day that has meals in the user's time zone and removes
+ * days that no longer have any. Safe to re-run.
+ */
+
+import 'dotenv/config';
+import { initializeFirebase } from '../services/firebase.js';
+import { getDb } from '../services/database.js';
+import { rebuildDailyProgress } from '../services/progressTracking.js';
+
+const userIds = process.argv.slice(2);
+if (userIds.length === 0) {
+  console.error('Usage: npm run rebuild:progress -- <userId> [userId...]');
+  process.exit(1);
+}
+
+try {
+  initializeFirebase();
+} catch {
+  console.log('Firebase not initialized - will use DATABASE_PROVIDER (sqlite, postgres or memory)');
+}
+
+const db = getDb();
+
+try {
+  for (const userId of userIds) {
+    const summary = await rebuildDailyProgress(userId);
+    if (!summary) {
+      console.log(`Skipped ${userId}: no profile`);
+      continue;
+    }
+    console.log(`Done ${userId}: ${summary.daysUpdated} days recalculated, ${summary.daysRemoved} empty days removed`);
+  }
+} catch (error) {
+  console.error('Rebuild failed:', error);
+  process.exitCode = 1;
+} finally {
+  await db.disconnect();
+}
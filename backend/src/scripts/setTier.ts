@@ -0,0 +1,40 @@
+/**
+ * Move an account to another tier, which sets its daily AI analysis quota
+ *
+ * Usage: npm run set:tier -- <email> <free|premium>
+ */
+
+import 'dotenv/config';
+import { initializeFirebase } from '../services/firebase.js';
+import { getDb } from '../services/database.js';
+import { ACCOUNT_TIERS, isAccountTier, getDailyAnalysisQuota } from '../services/usage.js';
+
+const [email, tier] = process.argv.slice(2);
+if (!email || !isAccountTier(tier)) {
+  console.error(`Usage: npm run set:tier -- <email> <${ACCOUNT_TIERS.join('|')}>`);
+  process.exit(1);
+}
+
+try {
+  initializeFirebase();
+} catch {
+  console.log('Firebase not initialized - will use DATABASE_PROVIDER (sqlite, postgres or memory)');
+}
+
+const db = getDb();
+
+try {
+  const user = await db.findUserByEmail(email);
+  if (!user) {
+    console.error(`No account for ${email}`);
+    process.exitCode = 1;
+  } else {
+    await db.updateUser(user.id, { tier });
+    console.log(`Done ${email}: ${user.tier} -> ${tier} (${getDailyAnalysisQuota(tier)} AI analyses a day)`);
+  }
+} catch (error) {
+  console.error('Update failed:', error);
+  process.exitCode = 1;
+} finally {
+  await db.disconnect();
+}
@@ -2,33 +2,57 @@ import 'dotenv/config';
 import Fastify from 'fastify';
 import cors from '@fastify/cors';
 import multipart from '@fastify/multipart';
-import rateLimit from '@fastify/rate-limit';
 import { analyzeRoutes } from './routes/analyze.js';
 import { authRoutes } from './routes/auth.js';
+import { accountRoutes } from './routes/account.js';
 import { userRoutes } from './routes/user.js';
 import { mealsRoutes } from './routes/meals.js';
 import profileRoutes from './routes/profile.js';
+import { dietTemplateRoutes } from './routes/dietTemplates.js';
 import progressRoutes from './routes/progress.js';
 import ketoneRoutes from './routes/ketone.js';
+import { foodsRoutes } from './routes/foods.js';
+import { schedulerRoutes } from './routes/scheduler.js';
+import { dataExportRoutes } from './routes/dataExport.js';
+import { usageRoutes } from './routes/usage.js';
+import { measurementRoutes } from './routes/measurements.js';
+import { registerRateLimits, resolveTrustProxy } from './middleware/rateLimit.js';
 import { initializeFirebase } from './services/firebase.js';
+import { getDefaultProvider } from './services/nutritionAnalyzer.js';
+import { getScheduler, getSchedulerTriggerKind } from './services/scheduler.js';
+import { closeOutCompletedWeeks } from './services/weeklySummaries.js';
+import { resolveJwtSecret, deleteExpiredRefreshTokens } from './services/auth.js';
+import { deleteExpiredEmailTokens } from './services/accountEmails.js';
+import { resolveMailerProvider } from './services/mailer.js';
+import { deleteOldUsage } from './services/usage.js';
+
+// Refuse to start with a missing or placeholder signing secret, or without a
+// way to deliver account emails, in production
+try {
+  resolveJwtSecret();
+  resolveMailerProvider();
+} catch (error) {
+  console.error(`Error: ${(error as Error).message}`);
+  process.exit(1);
+}
 
 // Initialize Firebase if configured
 try {
   initializeFirebase();
 } catch (error) {
-  console.log('Firebase not initialized - will use PostgreSQL');
+  console.log('Firebase not initialized - will use DATABASE_PROVIDER (sqlite, postgres or memory)');
 }
 
-// Validate required environment variables
-if (!process.env.GEMINI_API_KEY) {
-  console.error('Error: GEMINI_API_KEY environment variable is required');
-  process.exit(1);
+// Analysis providers are resolved per request; only warn when the default one lacks credentials
+if (getDefaultProvider() === 'gemini' && !process.env.GEMINI_API_KEY) {
+  console.warn('Warning: GEMINI_API_KEY is not set - Gemini analysis requests will fail. Set ANALYZER_PROVIDER to use another provider.');
 }
 
 const PORT = process.env.PORT || 8080; // Cloud Run uses 8080 by default
 
 const server = Fastify({
-  logger: true
+  logger: true,
+  trustProxy: resolveTrustProxy()
 });
 
 await server.register(cors, {
@@ -43,35 +67,39 @@ await server.register(multipart, {
   }
 });
 
-await server.register(rateLimit, {
-  max: 100, // 100 requests
-  timeWindow: 60 * 60 * 1000, // per hour (in milliseconds)
-  errorResponseBuilder: (request, context) => {
-    return {
-      statusCode: 429,
-      error: 'Too Many Requests',
-      message: `Rate limit exceeded, retry in ${Math.ceil(context.ttl / 1000)} seconds`
-    };
-  },
-  addHeaders: {
-    'x-ratelimit-limit': true,
-    'x-ratelimit-remaining': true,
-    'x-ratelimit-reset': true,
-    'retry-after': true
-  }
-});
+// Per user (or per IP for guests), with a separate budget for AI analysis
+await registerRateLimits(server);
 
-server.get('/health', async (request, reply) => {
+server.get('/health', { config: { rateLimit: false } }, async (request, reply) => {
   return { status: 'ok' };
 });
 
 await server.register(authRoutes);
+await server.register(accountRoutes);
 await server.register(userRoutes);
 await server.register(analyzeRoutes);
 await server.register(mealsRoutes);
 await server.register(profileRoutes);
+await server.register(dietTemplateRoutes);
 await server.register(progressRoutes);
 await server.register(ketoneRoutes);
+await server.register(measurementRoutes);
+await server.register(foodsRoutes);
+await server.register(schedulerRoutes);
+await server.register(dataExportRoutes);
+await server.register(usageRoutes);
+
+// Background tasks: close out each user's week once it ends in their time zone,
+// and drop expired refresh and email tokens and old usage counts
+const scheduler = getScheduler();
+scheduler.register('weekly-summaries', closeOutCompletedWeeks);
+scheduler.register('refresh-token-cleanup', deleteExpiredRefreshTokens);
+scheduler.register('email-token-cleanup', deleteExpiredEmailTokens);
+scheduler.register('usage-cleanup', deleteOldUsage);
+scheduler.start();
+if (getSchedulerTriggerKind() === 'external' && !process.env.SCHEDULER_TOKEN) {
+  console.warn('Warning: SCHEDULER_TRIGGER is external but SCHEDULER_TOKEN is not set - scheduled tasks will never run.');
+}
 
 const start = async () => {
   try {
@@ -0,0 +1,168 @@
+/**
+ * Account Emails
+ * Email verification, password reset and email changes. Each email carries a
+ * link with a single-use token that expires; only the token's hash is stored,
+ * and sending a new link invalidates the previous one. Tokens are tied to the
+ * address they were sent to, so they stop working if the account's email
+ * changes.
+ */
+
+import { getDb } from './database.js';
+import type { User, EmailToken, EmailTokenPurpose } from './database.js';
+import { getMailer } from './mailer.js';
+import { hashPassword, hashToken, generateOpaqueToken } from './auth.js';
+
+export const VERIFY_EMAIL_TTL_MS = 24 * 60 * 60 * 1000;
+export const RESET_PASSWORD_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * An email change can't complete because another account now has the address
+ */
+export class EmailInUseError extends Error {
+  constructor(email: string) {
+    super(`${email} is already registered`);
+    this.name = 'EmailInUseError';
+  }
+}
+
+/**
+ * Where the web app is served; email links open its Login page
+ */
+export function getAppBaseUrl(): string {
+  return (process.env.APP_BASE_URL || 'http://localhost:5173').replace(/\/+$/, '');
+}
+
+async function issueEmailToken(user: User, purpose: EmailTokenPurpose, ttlMs: number, email = user.email): Promise<string> {
+  const db = getDb();
+  const token = generateOpaqueToken();
+
+  // Only the most recent link works
+  await db.deleteEmailTokensByUser(user.id, purpose);
+  await db.createEmailToken({
+    id: hashToken(token),
+    userId: user.id,
+    purpose,
+    email,
+    expiresAt: new Date(Date.now() + ttlMs)
+  });
+
+  return token;
+}
+
+export async function sendVerificationEmail(user: User): Promise<void> {
+  const token = await issueEmailToken(user, 'verify-email', VERIFY_EMAIL_TTL_MS);
+  const link = `${getAppBaseUrl()}/login?verify=${encodeURIComponent(token)}`;
+
+  await getMailer().send({
+    to: user.email,
+    subject: 'Verify your NutritionAI email',
+    text: `Hi ${user.name},\n\nConfirm your email address by opening this link:\n\n${link}\n\nThe link expires in 24 hours. If you didn't create a NutritionAI account, you can ignore this email.\n`
+  });
+}
+
+export async function sendPasswordResetEmail(user: User): Promise<void> {
+  const token = await issueEmailToken(user, 'reset-password', RESET_PASSWORD_TTL_MS);
+  const link = `${getAppBaseUrl()}/login?reset=${encodeURIComponent(token)}`;
+
+  await getMailer().send({
+    to: user.email,
+    subject: 'Reset your NutritionAI password',
+    text: `Hi ${user.name},\n\nChoose a new password by opening this link:\n\n${link}\n\nThe link expires in 1 hour and works once. If you didn't ask to reset your password, you can ignore this email.\n`
+  });
+}
+
+/**
+ * Start moving an account to a new address. Nothing changes until the link
+ * sent there is followed; the current address is told about the request so
+ * an unexpected change can be noticed.
+ */
+export async function requestEmailChange(user: User, email: string): Promise<void> {
+  const token = await issueEmailToken(user, 'change-email', VERIFY_EMAIL_TTL_MS, email);
+  const link = `${getAppBaseUrl()}/login?verify=${encodeURIComponent(token)}`;
+  const mailer = getMailer();
+
+  await mailer.send({
+    to: email,
+    subject: 'Confirm your new NutritionAI email',
+    text: `Hi ${user.name},\n\nConfirm that you want to use this address for your NutritionAI account by opening this link:\n\n${link}\n\nThe link expires in 24 hours. If you didn't ask for this, you can ignore this email.\n`
+  });
+  await mailer.send({
+    to: user.email,
+    subject: 'Your NutritionAI email is being changed',
+    text: `Hi ${user.name},\n\nSomeone asked to change your NutritionAI account's email to ${email}. The change happens once the link sent to that address is followed.\n\nIf this wasn't you, change your password.\n`
+  });
+}
+
+/**
+ * Use up a token and return it with its user, or null when the token is
+ * unknown, expired or for another purpose. Checking the address the token
+ * was bound to is left to the caller.
+ */
+async function redeemEmailToken(token: string, purposes: EmailTokenPurpose[]): Promise<{ user: User; stored: EmailToken } | null> {
+  const db = getDb();
+  const stored = await db.consumeEmailToken(hashToken(token));
+
+  if (!stored || !purposes.includes(stored.purpose) || stored.expiresAt <= new Date()) {
+    return null;
+  }
+
+  const user = await db.findUserById(stored.userId);
+  return user ? { user, stored } : null;
+}
+
+/**
+ * Follow a verification link: either confirming the account's address, or
+ * confirming a new one, which then replaces it
+ */
+export async function verifyEmail(token: string): Promise<User | null> {
+  const redeemed = await redeemEmailToken(token, ['verify-email', 'change-email']);
+  if (!redeemed) return null;
+
+  const { user, stored } = redeemed;
+  const db = getDb();
+
+  if (stored.purpose === 'change-email') {
+    const owner = await db.findUserByEmail(stored.email);
+    if (owner && owner.id !== user.id) {
+      throw new EmailInUseError(stored.email);
+    }
+
+    console.log(`[AccountEmails] Changed email for user ${user.id}`);
+    return db.updateUser(user.id, { email: stored.email, emailVerified: true });
+  }
+
+  if (user.email !== stored.email) return null;
+
+  console.log(`[AccountEmails] Verified email for user ${user.id}`);
+  return db.updateUser(user.id, { emailVerified: true });
+}
+
+/**
+ * Set a new password from a reset link. Following the link proves the user
+ * owns the address, so it also counts as verifying it. Signs out every
+ * existing session.
+ */
+export async function resetPassword(token: string, password: string): Promise<User | null> {
+  const redeemed = await redeemEmailToken(token, ['reset-password']);
+  if (!redeemed || redeemed.user.email !== redeemed.stored.email) return null;
+
+  const { user } = redeemed;
+  const db = getDb();
+  const updated = await db.updateUser(user.id, {
+    passwordHash: await hashPassword(password),
+    emailVerified: true
+  });
+  await db.revokeRefreshTokensByUser(user.id);
+
+  console.log(`[AccountEmails] Reset password for user ${user.id}`);
+  return updated;
+}
+
+/**
+ * Scheduled task: drop email tokens that expired without being used
+ */
+export async function deleteExpiredEmailTokens(now: Date = new Date()): Promise<number> {
+  const deleted = await getDb().deleteExpiredEmailTokens(now);
+  console.log(`[AccountEmails] Deleted ${deleted} expired email tokens`);
+  return deleted;
+}
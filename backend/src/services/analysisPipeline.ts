@@ -0,0 +1,267 @@
+/**
+ * Analysis Pipeline Service
+ * Runs a NutritionAnalyzer, validates its output and re-prompts the model
+ * when the response cannot be parsed or fails validation.
+ */
+
+import { Buffer } from 'buffer';
+import sharp from 'sharp';
+import { getAnalyzer, AnalyzerConfigError, UnknownAnalyzerError } from './nutritionAnalyzer.js';
+import type { NutritionAnalyzer, AnalyzerImage } from './nutritionAnalyzer.js';
+import { createNutritionPrompt, createLabelPrompt } from './gemini.js';
+import { getDb } from './database.js';
+import { updateDailyProgress, resolveMealType } from './progressTracking.js';
+import { reconcileFoods, isReconciliationEnabled } from './foodReference.js';
+import type { AnalysisMode, NutritionPayload, RepairStep } from '../types/nutrition.js';
+import { parseNutritionResponse, parseLabelResponse, NutritionValidationError, LabelNotFoundError } from '../utils/nutritionValidation.js';
+import type { ValidatedNutrition } from '../utils/nutritionValidation.js';
+import type { MealType } from '../utils/mealTypes.js';
+
+export interface AnalyzeResponse extends NutritionPayload {
+  id?: string;
+  mealType?: MealType | null;
+  timestamp: string;
+}
+
+export interface AnalysisResult {
+  nutritionData: NutritionPayload;
+  attempts: number;
+  repairs: RepairStep[];
+}
+
+export class AnalysisParseError extends Error {
+  constructor(message: string, public readonly attempts: number, public readonly lastResponse: string) {
+    super(message);
+    this.name = 'AnalysisParseError';
+  }
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+function getMaxAttempts(): number {
+  const configured = parseInt(process.env.ANALYSIS_MAX_ATTEMPTS || '', 10);
+  return configured > 0 ? configured : DEFAULT_MAX_ATTEMPTS;
+}
+
+/**
+ * Build a follow-up prompt asking the model to fix its previous answer
+ */
+export function createRepairPrompt(originalPrompt: string, previousResponse: string, problem: string): string {
+  return `${originalPrompt}
+
+Your previous response could not be used: ${problem}.
+
+Previous response:
+${previousResponse.slice(0, 4000)}
+
+Return ONLY corrected JSON matching the schema above. All numeric values must be non-negative numbers.`;
+}
+
+/**
+ * Analyze images with bounded self-repair.
+ * Throws AnalysisParseError when every attempt returns unusable output;
+ * provider errors (quota, overload, auth) propagate unchanged.
+ */
+export async function runAnalysis(
+  analyzer: NutritionAnalyzer,
+  prompt: string,
+  images: AnalyzerImage[],
+  maxAttempts: number = getMaxAttempts(),
+  parse: (text: string) => ValidatedNutrition = parseNutritionResponse
+): Promise<AnalysisResult> {
+  const repairs: RepairStep[] = [];
+  let currentPrompt = prompt;
+  let lastResponse = '';
+  let lastProblem = '';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    lastResponse = await analyzer.generate({ prompt: currentPrompt, images });
+
+    try {
+      const validated = parse(lastResponse);
+      return {
+        nutritionData: validated.data,
+        attempts: attempt,
+        repairs: [...repairs, ...validated.repairs]
+      };
+    } catch (error) {
+      if (!(error instanceof NutritionValidationError)) throw error;
+
+      lastProblem = error.message;
+      if (attempt < maxAttempts) {
+        repairs.push({ type: 'reprompt', detail: `Attempt ${attempt} rejected: ${error.message}` });
+        currentPrompt = createRepairPrompt(prompt, lastResponse, error.message);
+      }
+    }
+  }
+
+  throw new AnalysisParseError(
+    `Model output failed validation after ${maxAttempts} attempts: ${lastProblem}`,
+    maxAttempts,
+    lastResponse
+  );
+}
+
+export interface AnalysisErrorResponse {
+  statusCode: number;
+  error: string;
+  code?: string;
+}
+
+/**
+ * Map a failed analysis to the HTTP status and client-facing error
+ */
+export function classifyAnalysisError(error: unknown): AnalysisErrorResponse {
+  if (error instanceof AnalysisParseError) {
+    return { statusCode: 500, error: 'Failed to analyze image - unable to parse nutrition data' };
+  }
+
+  if (error instanceof LabelNotFoundError) {
+    return { statusCode: 422, error: error.message, code: 'LABEL_NOT_FOUND' };
+  }
+
+  if (error instanceof UnknownAnalyzerError) {
+    return { statusCode: 400, error: error.message, code: 'UNKNOWN_MODEL_PROVIDER' };
+  }
+
+  if (error instanceof AnalyzerConfigError) {
+    return { statusCode: 500, error: 'API configuration error. Please contact support.', code: 'API_KEY_ERROR' };
+  }
+
+  if (error instanceof Error) {
+    const errorMessage = error.message || '';
+
+    // Check for quota exceeded
+    if (errorMessage.includes('429') || errorMessage.includes('quota') || errorMessage.includes('Too Many Requests')) {
+      return {
+        statusCode: 429,
+        error: 'API quota exceeded. Please try a different AI model in Settings, or wait and try again later.',
+        code: 'QUOTA_EXCEEDED'
+      };
+    }
+
+    // Check for model overload
+    if (errorMessage.includes('503') || errorMessage.includes('overloaded') || errorMessage.includes('Service Unavailable')) {
+      return {
+        statusCode: 503,
+        error: 'AI model is temporarily overloaded. Please try again in a few seconds.',
+        code: 'MODEL_OVERLOADED'
+      };
+    }
+
+    // Check for invalid API key
+    if (errorMessage.includes('401') || errorMessage.includes('API key')) {
+      return { statusCode: 500, error: 'API configuration error. Please contact support.', code: 'API_KEY_ERROR' };
+    }
+
+    return { statusCode: 500, error: 'Analysis failed - please try again' };
+  }
+
+  return { statusCode: 500, error: 'An unexpected error occurred' };
+}
+
+// Create a low-res thumbnail from the image buffer
+export async function createThumbnail(buffer: Buffer, mimetype: string): Promise<string> {
+  try {
+    const thumbnailBuffer = await sharp(buffer)
+      .resize(200, 200, { fit: 'cover' })
+      .jpeg({ quality: 60 })
+      .toBuffer();
+    
+    return `data:image/jpeg;base64,${thumbnailBuffer.toString('base64')}`;
+  } catch (error) {
+    console.error('Failed to create thumbnail:', error);
+    return '';
+  }
+}
+
+/**
+ * Analyze a meal from one or more photos and, for authenticated users, save it
+ * and refresh daily progress. Shared by the synchronous route and the job queue.
+ */
+export async function analyzeAndSave(input: {
+  images: AnalyzerImage[];
+  modelName?: string;
+  userId?: string | null;
+  mode?: AnalysisMode;
+  servings?: number;
+  mealType?: MealType;
+}): Promise<AnalyzeResponse> {
+  // Resolve the analysis provider from the client-provided model, if any
+  const analyzer = getAnalyzer(input.modelName);
+  const mode = input.mode || 'meal';
+
+  console.log(`Calling ${analyzer.provider} with model:`, analyzer.model, 'mode:', mode);
+  const analysis = mode === 'label'
+    ? await runAnalysis(analyzer, createLabelPrompt(), input.images, undefined, text => parseLabelResponse(text, input.servings ?? 1))
+    : await runAnalysis(analyzer, createNutritionPrompt(input.images.length), input.images);
+  let nutritionData = analysis.nutritionData;
+
+  // Correct photo estimates against the reference food database; label reads are already exact
+  if (mode === 'meal' && isReconciliationEnabled()) {
+    try {
+      const reconciled = await reconcileFoods(nutritionData);
+      nutritionData = reconciled.data;
+      analysis.repairs.push(...reconciled.repairs);
+    } catch (reconcileError) {
+      console.error('Failed to reconcile foods against reference data:', reconcileError);
+      // Continue with the model's values
+    }
+  }
+
+  if (analysis.repairs.length > 0) {
+    console.log('Model output repaired:', JSON.stringify(analysis.repairs));
+  }
+
+  // Only save to database for authenticated users (not guests)
+  let savedAnalysis;
+  if (input.userId) {
+    try {
+      const db = getDb();
+      // Create a thumbnail of every image for storage
+      const thumbnails = (await Promise.all(
+        input.images.map(image => createThumbnail(image.data, image.mimeType))
+      )).filter(thumbnail => thumbnail !== '');
+
+      savedAnalysis = await db.createMealAnalysis({
+        userId: input.userId,
+        imageUrl: '',
+        thumbnail: thumbnails[0],
+        thumbnails,
+        mealType: await resolveMealType(input.userId, new Date(), input.mealType),
+        nutritionData: {
+          ...nutritionData,
+          parsing: {
+            mode,
+            provider: analyzer.provider,
+            model: analyzer.model,
+            attempts: analysis.attempts,
+            repairs: analysis.repairs
+          }
+        },
+      });
+      console.log('Meal saved to database for user:', input.userId);
+
+      // Update daily progress for diet tracking
+      try {
+        await updateDailyProgress(input.userId);
+        console.log('Daily progress updated for user:', input.userId);
+      } catch (progressError) {
+        console.error('Failed to update daily progress:', progressError);
+        // Continue - progress tracking is not critical
+      }
+    } catch (dbError) {
+      console.error('Failed to save analysis to database:', dbError);
+      // Continue and return the analysis even if database save fails
+    }
+  } else {
+    console.log('Guest user - analysis not saved to database');
+  }
+
+  // Add analysis ID to response if saved
+  return {
+    ...nutritionData,
+    timestamp: new Date().toISOString(),
+    ...(savedAnalysis && { id: savedAnalysis.id, mealType: savedAnalysis.mealType }),
+  };
+}
@@ -0,0 +1,374 @@
+/**
+ * Analysis Job Queue
+ * Runs /api/analyze requests in the background so slow model calls don't
+ * time out the HTTP request. Jobs are retried with exponential backoff on
+ * QUOTA_EXCEEDED / MODEL_OVERLOADED, and can notify a webhook when finished.
+ *
+ * Jobs and their uploads are kept in process memory and pruned after
+ * ANALYSIS_JOB_TTL_MS; a restart drops unfinished jobs.
+ */
+
+import { randomUUID } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import type { AnalyzerImage } from './nutritionAnalyzer.js';
+import type { AnalysisMode } from '../types/nutrition.js';
+import type { MealType } from '../utils/mealTypes.js';
+import { analyzeAndSave, classifyAnalysisError } from './analysisPipeline.js';
+import { refundAnalysisQuota } from './usage.js';
+import type { AnalyzeResponse, AnalysisErrorResponse } from './analysisPipeline.js';
+
+export type AnalysisJobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export interface AnalysisJobInput {
+  userId: string | null;
+  images: AnalyzerImage[];
+  modelName?: string;
+  mode?: AnalysisMode;
+  servings?: number;
+  mealType?: MealType;
+  webhookUrl?: string;
+  chargedAt?: Date;      // When the job was counted against the user's quota
+}
+
+export interface AnalysisJob {
+  id: string;
+  userId: string | null;
+  status: AnalysisJobStatus;
+  attempts: number;
+  result: AnalyzeResponse | null;
+  error: Omit<AnalysisErrorResponse, 'statusCode'> | null;
+  webhookUrl: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  nextAttemptAt: Date | null;
+}
+
+export interface AnalysisQueueOptions {
+  concurrency?: number;
+  maxAttempts?: number;
+  retryDelayMs?: number;
+  jobTtlMs?: number;
+  webhookTimeoutMs?: number;
+  // Hosts allowed to receive webhooks even though they resolve to a private address
+  webhookAllowedHosts?: string[];
+  processor?: (input: AnalysisJobInput) => Promise<AnalyzeResponse>;
+}
+
+// Provider errors worth retrying; anything else fails the job immediately
+const RETRYABLE_CODES = ['QUOTA_EXCEEDED', 'MODEL_OVERLOADED'];
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved ranges
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const family = isIP(address);
+  if (family === 0) return true;
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Reject webhook URLs that aren't plain http(s)
+ */
+export function isValidWebhookUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Only deliver to http(s) URLs whose host resolves to public addresses, so a
+ * webhook can't be pointed at the server's own network or metadata endpoint.
+ * Checked when the job is submitted and again right before delivery.
+ */
+export async function isPublicWebhookUrl(value: string, allowedHosts: string[] = []): Promise<boolean> {
+  if (!isValidWebhookUrl(value)) return false;
+
+  const hostname = new URL(value).hostname.replace(/^\[|\]$/g, '');
+  if (allowedHosts.includes(hostname)) return true;
+
+  try {
+    const addresses = await lookup(hostname, { all: true, verbatim: true });
+    return addresses.length > 0 && addresses.every(({ address }) => !isPrivateAddress(address));
+  } catch {
+    return false;
+  }
+}
+
+export class AnalysisQueue {
+  private jobs = new Map<string, AnalysisJob>();
+  private inputs = new Map<string, AnalysisJobInput>();
+  private pending: string[] = [];
+  private running = new Map<string, Promise<void>>();
+  private timers = new Set<NodeJS.Timeout>();
+  private deliveries = new Set<Promise<void>>();
+  private idleWaiters: Array<() => void> = [];
+
+  private concurrency: number;
+  private maxAttempts: number;
+  private retryDelayMs: number;
+  private jobTtlMs: number;
+  private webhookTimeoutMs: number;
+  private webhookAllowedHosts: string[];
+  private processor: (input: AnalysisJobInput) => Promise<AnalyzeResponse>;
+
+  constructor(options: AnalysisQueueOptions = {}) {
+    this.concurrency = options.concurrency ?? 2;
+    this.maxAttempts = options.maxAttempts ?? 4;
+    this.retryDelayMs = options.retryDelayMs ?? 2000;
+    this.jobTtlMs = options.jobTtlMs ?? 60 * 60 * 1000;
+    this.webhookTimeoutMs = options.webhookTimeoutMs ?? 10000;
+    this.webhookAllowedHosts = options.webhookAllowedHosts ?? [];
+    this.processor = options.processor ?? analyzeAndSave;
+  }
+
+  enqueue(input: AnalysisJobInput): AnalysisJob {
+    this.prune();
+
+    const now = new Date();
+    const job: AnalysisJob = {
+      id: randomUUID(),
+      userId: input.userId,
+      status: 'queued',
+      attempts: 0,
+      result: null,
+      error: null,
+      webhookUrl: input.webhookUrl || null,
+      createdAt: now,
+      updatedAt: now,
+      nextAttemptAt: now
+    };
+
+    this.jobs.set(job.id, job);
+    this.inputs.set(job.id, input);
+    this.pending.push(job.id);
+    this.drain();
+
+    return { ...job };
+  }
+
+  /**
+   * Whether this queue would deliver to the webhook URL
+   */
+  acceptsWebhookUrl(value: string): Promise<boolean> {
+    return isPublicWebhookUrl(value, this.webhookAllowedHosts);
+  }
+
+  getJob(id: string): AnalysisJob | null {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  /**
+   * Resolve once no jobs are queued, running or waiting to retry, and no
+   * webhooks are being delivered
+   */
+  async onIdle(): Promise<void> {
+    if (this.isIdle()) return;
+    await new Promise<void>(resolve => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Drop a user's jobs (when their account is deleted). Queued jobs and jobs
+   * waiting to retry never run; resolves once any that are already running
+   * have finished, so nothing they save outlives the call.
+   */
+  async discardUserJobs(userId: string): Promise<void> {
+    const running: Promise<void>[] = [];
+
+    for (const [id, job] of this.jobs) {
+      if (job.userId !== userId) continue;
+      const settled = this.running.get(id);
+      if (settled) running.push(settled);
+      this.jobs.delete(id);
+      this.inputs.delete(id);
+    }
+    this.pending = this.pending.filter(id => this.jobs.has(id));
+
+    await Promise.all(running);
+  }
+
+  /**
+   * Cancel pending retries (used on shutdown and in tests)
+   */
+  stop(): void {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+    this.pending = [];
+  }
+
+  private isIdle(): boolean {
+    return this.running.size === 0 && this.pending.length === 0 && this.timers.size === 0 && this.deliveries.size === 0;
+  }
+
+  private wakeIdleWaiters(): void {
+    if (!this.isIdle()) return;
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  private drain(): void {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const id = this.pending.shift()!;
+      const settled = this.process(id).finally(() => {
+        this.running.delete(id);
+        this.drain();
+        this.wakeIdleWaiters();
+      });
+      this.running.set(id, settled);
+    }
+  }
+
+  private async process(id: string): Promise<void> {
+    const job = this.jobs.get(id);
+    const input = this.inputs.get(id);
+    if (!job || !input) return;
+
+    job.status = 'processing';
+    job.attempts++;
+    job.nextAttemptAt = null;
+    job.updatedAt = new Date();
+
+    try {
+      job.result = await this.processor(input);
+      job.status = 'completed';
+      job.error = null;
+    } catch (error) {
+      const { statusCode: _statusCode, ...classified } = classifyAnalysisError(error);
+      console.error(`[AnalysisQueue] Job ${id} attempt ${job.attempts} failed:`, error);
+
+      if (classified.code && RETRYABLE_CODES.includes(classified.code) && job.attempts < this.maxAttempts) {
+        this.scheduleRetry(job);
+        job.error = classified;
+        job.updatedAt = new Date();
+        return;
+      }
+
+      job.status = 'failed';
+      job.error = classified;
+      await this.refund(input);
+    }
+
+    job.updatedAt = new Date();
+    // Uploads are only needed until the job settles
+    this.inputs.delete(id);
+    this.deliver(job);
+  }
+
+  // A job that finally fails gives its analysis back, like a failed synchronous request
+  private async refund(input: AnalysisJobInput): Promise<void> {
+    if (!input.userId || !input.chargedAt) return;
+    try {
+      await refundAnalysisQuota(input.userId, input.chargedAt);
+    } catch (error) {
+      console.error('[AnalysisQueue] Failed to refund quota:', error);
+    }
+  }
+
+  private scheduleRetry(job: AnalysisJob): void {
+    const delay = this.retryDelayMs * 2 ** (job.attempts - 1);
+    job.status = 'queued';
+    job.nextAttemptAt = new Date(Date.now() + delay);
+
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      this.pending.push(job.id);
+      this.drain();
+    }, delay);
+    this.timers.add(timer);
+  }
+
+  /**
+   * Send the webhook outside the job's concurrency slot, so a slow receiver
+   * doesn't hold up other users' analyses
+   */
+  private deliver(job: AnalysisJob): void {
+    if (!job.webhookUrl) return;
+
+    const delivery = this.notify(job).finally(() => {
+      this.deliveries.delete(delivery);
+      this.wakeIdleWaiters();
+    });
+    this.deliveries.add(delivery);
+  }
+
+  private async notify(job: AnalysisJob): Promise<void> {
+    if (!job.webhookUrl) return;
+
+    try {
+      // The host may resolve differently than when the job was submitted
+      if (!(await this.acceptsWebhookUrl(job.webhookUrl))) {
+        console.error(`[AnalysisQueue] Webhook for job ${job.id} skipped: host is not public`);
+        return;
+      }
+
+      const response = await fetch(job.webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.webhookTimeoutMs),
+        body: JSON.stringify({
+          jobId: job.id,
+          status: job.status,
+          result: job.result,
+          error: job.error
+        })
+      });
+      if (!response.ok) {
+        console.error(`[AnalysisQueue] Webhook for job ${job.id} returned ${response.status}`);
+      }
+    } catch (error) {
+      // Clients can still poll; webhook delivery is best effort
+      console.error(`[AnalysisQueue] Webhook for job ${job.id} failed:`, error);
+    }
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.jobTtlMs;
+    for (const [id, job] of this.jobs) {
+      if ((job.status === 'completed' || job.status === 'failed') && job.updatedAt.getTime() < cutoff) {
+        this.jobs.delete(id);
+        this.inputs.delete(id);
+      }
+    }
+  }
+}
+
+// Singleton instance
+let queueInstance: AnalysisQueue | null = null;
+
+export function getAnalysisQueue(): AnalysisQueue {
+  if (!queueInstance) {
+    queueInstance = new AnalysisQueue({
+      concurrency: parseInt(process.env.ANALYSIS_QUEUE_CONCURRENCY || '2', 10),
+      maxAttempts: parseInt(process.env.ANALYSIS_JOB_MAX_ATTEMPTS || '4', 10),
+      retryDelayMs: parseInt(process.env.ANALYSIS_JOB_RETRY_DELAY_MS || '2000', 10),
+      jobTtlMs: parseInt(process.env.ANALYSIS_JOB_TTL_MS || String(60 * 60 * 1000), 10),
+      webhookTimeoutMs: parseInt(process.env.ANALYSIS_WEBHOOK_TIMEOUT_MS || '10000', 10)
+    });
+  }
+  return queueInstance;
+}
+
+/**
+ * Replace the singleton (tests inject a queue with short retry delays)
+ */
+export function setAnalysisQueue(queue: AnalysisQueue | null): void {
+  queueInstance?.stop();
+  queueInstance = queue;
+}
@@ -1,14 +1,72 @@
+/**
+ * Authentication
+ * Passwords are hashed with bcrypt. A session is a short-lived JWT access
+ * token plus an opaque refresh token; only the refresh token's hash is
+ * stored. Each refresh revokes the token it was given and issues a new one,
+ * and presenting an already revoked token revokes all of the user's sessions.
+ */
+
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
+import { createHash, randomBytes } from 'crypto';
+import { getDb } from './database.js';
+
+const DEFAULT_SECRET = 'default-secret-key';
+
+// Placeholders from .env.example and the docs, which must never sign production tokens
+const PLACEHOLDER_SECRETS = new Set([
+  DEFAULT_SECRET,
+  'your_jwt_secret_key_here',
+  'your_random_secret',
+  'your_secret_here',
+  'YOUR_SECRET'
+]);
 
-const JWT_SECRET = process.env.JWT_SECRET || 'default-secret-key';
-const TOKEN_EXPIRY = '30d';
+const MIN_PRODUCTION_SECRET_LENGTH = 32;
 
 interface TokenPayload {
   userId: string;
   email: string;
 }
 
+export interface AuthSession {
+  token: string;          // Access token (JWT)
+  refreshToken: string;
+  expiresIn: number;      // Access token lifetime in seconds
+}
+
+/**
+ * The JWT signing secret. Outside production a missing secret falls back to a
+ * development default; in production it must be set to a real secret.
+ */
+export function resolveJwtSecret(env: NodeJS.ProcessEnv = process.env): string {
+  const secret = env.JWT_SECRET;
+
+  if (env.NODE_ENV === 'production') {
+    if (!secret || PLACEHOLDER_SECRETS.has(secret)) {
+      throw new Error('JWT_SECRET must be set to a real secret in production (generate one with: openssl rand -base64 32)');
+    }
+    if (secret.length < MIN_PRODUCTION_SECRET_LENGTH) {
+      throw new Error(`JWT_SECRET must be at least ${MIN_PRODUCTION_SECRET_LENGTH} characters in production`);
+    }
+  }
+
+  return secret || DEFAULT_SECRET;
+}
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function getAccessTokenTtlSeconds(): number {
+  return positiveInt(process.env.ACCESS_TOKEN_TTL_SECONDS, 15 * 60);
+}
+
+export function getRefreshTokenTtlDays(): number {
+  return positiveInt(process.env.REFRESH_TOKEN_TTL_DAYS, 30);
+}
+
 export async function hashPassword(password: string): Promise<string> {
   return bcrypt.hash(password, 10);
 }
@@ -21,9 +79,104 @@ export async function verifyPassword(
 }
 
 export function generateToken(payload: TokenPayload): string {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: TOKEN_EXPIRY });
+  return jwt.sign(
+    { userId: payload.userId, email: payload.email },
+    resolveJwtSecret(),
+    { expiresIn: getAccessTokenTtlSeconds() }
+  );
 }
 
 export function verifyToken(token: string): TokenPayload {
-  return jwt.verify(token, JWT_SECRET) as TokenPayload;
+  return jwt.verify(token, resolveJwtSecret()) as TokenPayload;
+}
+
+/**
+ * Refresh and email tokens are stored by their SHA-256 hash
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * A random, URL-safe token for links and refresh tokens
+ */
+export function generateOpaqueToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Issue an access token and a new refresh token for a signed-in user
+ */
+export async function createSession(user: { id: string; email: string }): Promise<AuthSession> {
+  const refreshToken = generateOpaqueToken();
+
+  await getDb().createRefreshToken({
+    id: hashToken(refreshToken),
+    userId: user.id,
+    expiresAt: new Date(Date.now() + getRefreshTokenTtlDays() * 24 * 60 * 60 * 1000)
+  });
+
+  return {
+    token: generateToken({ userId: user.id, email: user.email }),
+    refreshToken,
+    expiresIn: getAccessTokenTtlSeconds()
+  };
+}
+
+/**
+ * Exchange a refresh token for a new session. Returns null when the token is
+ * unknown, expired or revoked, or its user no longer exists.
+ */
+export async function refreshSession(refreshToken: string): Promise<AuthSession | null> {
+  const db = getDb();
+  const stored = await db.findRefreshToken(hashToken(refreshToken));
+
+  if (!stored || stored.expiresAt <= new Date()) {
+    return null;
+  }
+
+  if (stored.revokedAt) {
+    // A rotated token came back, so it has leaked: end every session for the user
+    const revoked = await db.revokeRefreshTokensByUser(stored.userId);
+    console.log(`[Auth] Refresh token reused for user ${stored.userId}; revoked ${revoked} sessions`);
+    return null;
+  }
+
+  // Lost a race with a concurrent refresh of the same token
+  if (!(await db.revokeRefreshToken(stored.id))) {
+    return null;
+  }
+
+  const user = await db.findUserById(stored.userId);
+  if (!user) {
+    return null;
+  }
+
+  return createSession(user);
+}
+
+/**
+ * End the session a refresh token belongs to, or with `all` every session of
+ * the token's user. Unknown tokens are ignored so logging out is idempotent.
+ */
+export async function revokeSession(refreshToken: string, options: { all?: boolean } = {}): Promise<void> {
+  const db = getDb();
+  const stored = await db.findRefreshToken(hashToken(refreshToken));
+  if (!stored) return;
+
+  if (options.all) {
+    await db.revokeRefreshTokensByUser(stored.userId);
+  } else {
+    // Deleted rather than revoked so a stale copy in another tab doesn't look like reuse
+    await db.deleteRefreshToken(stored.id);
+  }
+}
+
+/**
+ * Scheduled task: drop refresh tokens that have expired, revoked or not
+ */
+export async function deleteExpiredRefreshTokens(now: Date = new Date()): Promise<number> {
+  const deleted = await getDb().deleteExpiredRefreshTokens(now);
+  console.log(`[Auth] Deleted ${deleted} expired refresh tokens`);
+  return deleted;
 }
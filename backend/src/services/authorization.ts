@@ -0,0 +1,124 @@
+/**
+ * Resource ownership
+ * Records that belong to a user are reached through the loaders here and
+ * checked with one policy, rather than each route comparing user ids itself.
+ * Lookups by id are where a user could reach someone else's data; routes
+ * that only ever read the caller's own records (profile, progress) query by
+ * `ownerId(request.user)` instead.
+ */
+
+import { getDb } from './database.js';
+import type { MealAnalysis, KetoneLog, BodyMeasurement, DietTemplate } from './database.js';
+import { getAnalysisQueue } from './analysisQueue.js';
+import type { AnalysisJob } from './analysisQueue.js';
+
+/**
+ * Who is asking: the signed-in user, or undefined for a guest
+ */
+export type Principal = { userId: string } | undefined;
+
+interface ResourcePolicy<T> {
+  label: string;                             // For error messages, e.g. "Meal"
+  load(id: string): Promise<T | null>;
+  ownerOf(resource: T): string | null;
+  // Records without an owner were created by a guest and are open to anyone holding the id
+  guestOwned?: boolean;
+  // Answer "not found" rather than "access denied", so ids can't be probed
+  concealFromOthers?: boolean;
+}
+
+export interface OwnedResources {
+  meal: MealAnalysis;
+  ketoneLog: KetoneLog;
+  bodyMeasurement: BodyMeasurement;
+  dietTemplate: DietTemplate;
+  analysisJob: AnalysisJob;
+}
+
+export type ResourceKind = keyof OwnedResources;
+
+const POLICIES: { [K in ResourceKind]: ResourcePolicy<OwnedResources[K]> } = {
+  meal: {
+    label: 'Meal',
+    load: id => getDb().findMealAnalysisById(id),
+    ownerOf: meal => meal.userId
+  },
+  ketoneLog: {
+    label: 'Log',
+    load: id => getDb().findKetoneLogById(id),
+    ownerOf: log => log.userId
+  },
+  bodyMeasurement: {
+    label: 'Measurement',
+    load: id => getDb().findBodyMeasurementById(id),
+    ownerOf: measurement => measurement.userId
+  },
+  // Looked up by diet type; global templates have no owner and are only changed by admins
+  dietTemplate: {
+    label: 'Diet template',
+    load: dietType => getDb().findDietTemplateByType(dietType),
+    ownerOf: template => template.userId
+  },
+  analysisJob: {
+    label: 'Job',
+    load: async id => getAnalysisQueue().getJob(id),
+    ownerOf: job => job.userId,
+    guestOwned: true,
+    concealFromOthers: true
+  }
+};
+
+export class ResourceNotFoundError extends Error {
+  constructor(label: string) {
+    super(`${label} not found`);
+    this.name = 'ResourceNotFoundError';
+  }
+}
+
+export class AccessDeniedError extends Error {
+  constructor() {
+    super('Access denied');
+    this.name = 'AccessDeniedError';
+  }
+}
+
+/**
+ * The user id that owner-scoped queries must use. Throws for guests, who own
+ * nothing stored.
+ */
+export function ownerId(principal: Principal): string {
+  if (!principal) {
+    throw new AccessDeniedError();
+  }
+  return principal.userId;
+}
+
+export function canAccess<K extends ResourceKind>(kind: K, resource: OwnedResources[K], principal: Principal): boolean {
+  const policy = POLICIES[kind];
+  const owner = policy.ownerOf(resource);
+
+  if (owner === null) {
+    return policy.guestOwned === true;
+  }
+  return owner === principal?.userId;
+}
+
+/**
+ * Load a record and check the principal may act on it. Throws
+ * ResourceNotFoundError or AccessDeniedError.
+ */
+export async function authorizeResource<K extends ResourceKind>(kind: K, id: string, principal: Principal): Promise<OwnedResources[K]> {
+  const policy = POLICIES[kind];
+  const resource = await policy.load(id);
+
+  if (!resource) {
+    throw new ResourceNotFoundError(policy.label);
+  }
+
+  if (!canAccess(kind, resource, principal)) {
+    console.log(`[Authorization] Refused ${kind} ${id} to ${principal ? `user ${principal.userId}` : 'guest'}`);
+    throw policy.concealFromOthers ? new ResourceNotFoundError(policy.label) : new AccessDeniedError();
+  }
+
+  return resource;
+}
@@ -0,0 +1,247 @@
+/**
+ * Body Measurements
+ * Weigh-ins, waist and body fat logged over time, and the weight trend drawn
+ * from them. Day-to-day weight swings with water and food, so the trend is an
+ * exponentially smoothed average of daily weights; the weekly rate and the
+ * projected date the goal weight is reached come from the trend, not the raw
+ * readings. The latest weigh-in is copied to the profile so goal calculations
+ * use a current weight.
+ */
+
+import { getDb } from './database.js';
+import type { BodyMeasurement } from './database.js';
+import { getUserTimeZone } from './progressTracking.js';
+import { localDay, addDays, toDateKey } from '../utils/timezone.js';
+
+// Share of each day's weight that moves the trend (as in The Hacker's Diet)
+export const TREND_SMOOTHING = 0.1;
+
+// The weekly rate is fitted to the trend over this many days
+export const RATE_WINDOW_DAYS = 28;
+
+// Slower than this (kg/week) counts as holding steady, with no projected goal date
+const MIN_PROJECTED_RATE = 0.05;
+
+// Projections further out than this aren't meaningful
+const MAX_PROJECTION_DAYS = 2 * 365;
+
+// Within this many kg of the goal weight counts as reaching it
+const GOAL_TOLERANCE = 0.25;
+
+const LIMITS = {
+  weight: { min: 20, max: 500, unit: 'kg' },
+  waist: { min: 30, max: 300, unit: 'cm' },
+  bodyFat: { min: 2, max: 75, unit: '%' }
+} as const;
+
+const MAX_NOTES_LENGTH = 500;
+
+export type MeasurementFields = Pick<BodyMeasurement, 'measuredAt' | 'weight' | 'waist' | 'bodyFat' | 'notes'>;
+
+export interface MeasurementInput {
+  measuredAt?: string;
+  weight?: number | null;
+  waist?: number | null;
+  bodyFat?: number | null;
+  notes?: string | null;
+}
+
+export interface TrendPoint {
+  date: string;            // YYYY-MM-DD in the user's time zone
+  weight: number;          // Average of the day's weigh-ins
+  trend: number;
+}
+
+export interface WeightTrend {
+  points: TrendPoint[];
+  latestWeight: number | null;
+  trendWeight: number | null;
+  weeklyRate: number | null;          // kg/week, negative when losing
+  goalWeight: number | null;
+  remaining: number | null;           // kg from the trend weight to the goal
+  goalReached: boolean;
+  projectedGoalDate: string | null;   // YYYY-MM-DD at the current rate
+}
+
+/**
+ * A measurement is missing, out of range or malformed
+ */
+export class MeasurementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MeasurementError';
+  }
+}
+
+function readMeasurement(name: keyof typeof LIMITS, value: unknown): number | null | undefined {
+  if (value === undefined || value === null) return value;
+  const { min, max, unit } = LIMITS[name];
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new MeasurementError(`${name} must be a number from ${min} to ${max} ${unit}`);
+  }
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Check a submitted measurement. New measurements need at least one value and
+ * default to now; for updates only the fields present are returned.
+ */
+export function parseMeasurementInput(input: MeasurementInput, existing?: BodyMeasurement): Partial<MeasurementFields> {
+  const fields: Partial<MeasurementFields> = {};
+
+  if (input.measuredAt !== undefined) {
+    const measuredAt = new Date(input.measuredAt);
+    if (typeof input.measuredAt !== 'string' || Number.isNaN(measuredAt.getTime())) {
+      throw new MeasurementError('measuredAt must be an ISO date');
+    }
+    if (measuredAt.getTime() > Date.now() + 24 * 60 * 60 * 1000) {
+      throw new MeasurementError('measuredAt can\'t be in the future');
+    }
+    fields.measuredAt = measuredAt;
+  } else if (!existing) {
+    fields.measuredAt = new Date();
+  }
+
+  for (const name of ['weight', 'waist', 'bodyFat'] as const) {
+    const value = readMeasurement(name, input[name]);
+    if (value !== undefined) fields[name] = value;
+    else if (!existing) fields[name] = null;
+  }
+
+  if (input.notes !== undefined) {
+    if (input.notes !== null && typeof input.notes !== 'string') {
+      throw new MeasurementError('notes must be a string');
+    }
+    const notes = input.notes?.trim() || null;
+    if (notes && notes.length > MAX_NOTES_LENGTH) {
+      throw new MeasurementError(`notes must be at most ${MAX_NOTES_LENGTH} characters`);
+    }
+    fields.notes = notes;
+  } else if (!existing) {
+    fields.notes = null;
+  }
+
+  const merged = { ...existing, ...fields };
+  if (merged.weight == null && merged.waist == null && merged.bodyFat == null) {
+    throw new MeasurementError('Provide weight, waist or bodyFat');
+  }
+
+  return fields;
+}
+
+const round = (value: number, places: number = 2): number => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Smooth weigh-ins into a trend and project when the goal weight is reached.
+ * Several weigh-ins on one day are averaged; across gaps the trend moves as
+ * far as it would have with that weight on each missing day.
+ */
+export function calculateWeightTrend(
+  measurements: BodyMeasurement[],
+  timeZone: string,
+  goalWeight: number | null
+): WeightTrend {
+  const days = new Map<number, number[]>();
+  for (const measurement of measurements) {
+    if (measurement.weight === null) continue;
+    const day = localDay(measurement.measuredAt, timeZone).getTime();
+    days.set(day, [...(days.get(day) || []), measurement.weight]);
+  }
+
+  const points: TrendPoint[] = [];
+  let trend: number | null = null;
+  let previousDay: number | null = null;
+  for (const day of Array.from(days.keys()).sort((a, b) => a - b)) {
+    const weights = days.get(day)!;
+    const weight = weights.reduce((sum, value) => sum + value, 0) / weights.length;
+
+    if (trend === null || previousDay === null) {
+      trend = weight;
+    } else {
+      const elapsed = Math.round((day - previousDay) / (24 * 60 * 60 * 1000));
+      trend += (1 - (1 - TREND_SMOOTHING) ** elapsed) * (weight - trend);
+    }
+    previousDay = day;
+    points.push({ date: toDateKey(new Date(day)), weight: round(weight), trend: round(trend) });
+  }
+
+  const latest = points[points.length - 1];
+  const weeklyRate = latest ? fitWeeklyRate(points, latest.date) : null;
+  const trendWeight = latest ? latest.trend : null;
+  const remaining = trendWeight !== null && goalWeight !== null ? round(goalWeight - trendWeight) : null;
+  const goalReached = remaining !== null && Math.abs(remaining) <= GOAL_TOLERANCE;
+
+  let projectedGoalDate: string | null = null;
+  if (latest && remaining !== null && weeklyRate !== null) {
+    if (goalReached) {
+      projectedGoalDate = latest.date;
+    } else if (Math.abs(weeklyRate) >= MIN_PROJECTED_RATE && Math.sign(weeklyRate) === Math.sign(remaining)) {
+      const daysToGoal = Math.ceil((remaining / weeklyRate) * 7);
+      if (daysToGoal <= MAX_PROJECTION_DAYS) {
+        projectedGoalDate = toDateKey(addDays(new Date(`${latest.date}T00:00:00.000Z`), daysToGoal));
+      }
+    }
+  }
+
+  return {
+    points,
+    latestWeight: latest ? latest.weight : null,
+    trendWeight,
+    weeklyRate,
+    goalWeight,
+    remaining,
+    goalReached,
+    projectedGoalDate
+  };
+}
+
+// Least-squares slope of the trend over the last RATE_WINDOW_DAYS, per week
+function fitWeeklyRate(points: TrendPoint[], lastDate: string): number | null {
+  const end = new Date(`${lastDate}T00:00:00.000Z`).getTime();
+  const start = end - (RATE_WINDOW_DAYS - 1) * 24 * 60 * 60 * 1000;
+  const window = points
+    .map(point => ({ x: (new Date(`${point.date}T00:00:00.000Z`).getTime() - start) / (24 * 60 * 60 * 1000), y: point.trend }))
+    .filter(point => point.x >= 0);
+
+  // A rate needs readings at least a week apart
+  if (window.length < 2 || window[window.length - 1].x - window[0].x < 7) return null;
+
+  const meanX = window.reduce((sum, point) => sum + point.x, 0) / window.length;
+  const meanY = window.reduce((sum, point) => sum + point.y, 0) / window.length;
+  let covariance = 0;
+  let variance = 0;
+  for (const point of window) {
+    covariance += (point.x - meanX) * (point.y - meanY);
+    variance += (point.x - meanX) ** 2;
+  }
+  return round((covariance / variance) * 7);
+}
+
+/**
+ * The user's weight trend, from all their weigh-ins
+ */
+export async function getWeightTrend(userId: string): Promise<WeightTrend> {
+  const db = getDb();
+  const [measurements, profile, timeZone] = await Promise.all([
+    db.findBodyMeasurementsByUser(userId),
+    db.findUserProfileByUserId(userId),
+    getUserTimeZone(userId)
+  ]);
+  return calculateWeightTrend(measurements, timeZone, profile?.goalWeight ?? null);
+}
+
+/**
+ * Copy the most recent weigh-in to the profile, after measurements change
+ */
+export async function syncProfileWeight(userId: string): Promise<void> {
+  const db = getDb();
+  const profile = await db.findUserProfileByUserId(userId);
+  if (!profile) return;
+
+  const measurements = await db.findBodyMeasurementsByUser(userId);
+  const latest = measurements.filter(measurement => measurement.weight !== null).pop();
+  if (latest && latest.weight !== profile.weight) {
+    await db.updateUserProfile(userId, { weight: latest.weight });
+    console.log(`[BodyMeasurements] Updated profile weight for user ${userId}`);
+  }
+}
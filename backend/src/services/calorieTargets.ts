@@ -0,0 +1,261 @@
+/**
+ * Calorie Targets
+ * Works out daily calorie and macro goals for a target rate of weight change:
+ * BMR from a chosen formula, times an activity multiplier for maintenance
+ * (TDEE), plus the deficit or surplus the rate needs. Protein is set per kg of
+ * lean mass rather than as a share of calories; the rest of the calories are
+ * split between carbs and fat in the diet's proportions. Floors keep calories
+ * and fat from going unsafely low, and each step is described so the user can
+ * see where the numbers came from.
+ */
+
+import type { DietTemplate, MacroGoals } from './dietCompliance.js';
+
+export type BmrFormula = 'mifflin-st-jeor' | 'harris-benedict' | 'katch-mcardle';
+export type Gender = 'male' | 'female' | 'other';
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
+
+// Energy in a kilogram of body weight change
+export const KCAL_PER_KG = 7700;
+
+export const BMR_FORMULAS: BmrFormula[] = ['mifflin-st-jeor', 'harris-benedict', 'katch-mcardle'];
+
+export const ACTIVITY_MULTIPLIERS: Record<ActivityLevel, number> = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  very_active: 1.9
+};
+
+export const DEFAULT_PROTEIN_PER_KG_LEAN_MASS = 2.0;
+export const PROTEIN_PER_KG_LEAN_MASS_RANGE = { min: 1.2, max: 3.3 };
+
+// Faster than this (kg/week, either way) isn't accepted at all
+export const MAX_WEEKLY_RATE = 1;
+
+// Losing more than this share of body weight a week costs muscle, so faster rates are slowed
+const MAX_WEEKLY_LOSS_SHARE = 0.01;
+
+// Calories never go below these, whatever the rate
+const CALORIE_FLOORS: Record<Gender, number> = { male: 1500, female: 1200, other: 1350 };
+
+// Fat needed for hormone production, per kg of body weight
+const FAT_FLOOR_PER_KG = 0.6;
+
+export interface CalorieTargetInput {
+  weight: number;             // kg
+  height: number;             // cm
+  age: number;
+  gender: Gender;
+  activityLevel: ActivityLevel;
+  formula: BmrFormula;
+  bodyFat?: number | null;    // %; needed for Katch-McArdle, otherwise used for lean mass
+  weeklyRate?: number;        // kg/week, negative to lose
+  proteinPerKgLeanMass?: number;
+}
+
+export interface CalculationStep {
+  key: 'leanMass' | 'bmr' | 'tdee' | 'adjustment' | 'calories' | 'protein' | 'fat' | 'carbs';
+  label: string;
+  value: number;
+  unit: string;
+  explanation: string;
+}
+
+export interface CalorieTargets {
+  goals: MacroGoals;
+  formula: BmrFormula;
+  bmr: number;
+  tdee: number;
+  leanMass: number;           // kg
+  weeklyRate: number;         // kg/week the goals aim for, after any adjustment
+  dailyAdjustment: number;    // kcal/day relative to TDEE
+  steps: CalculationStep[];
+  warnings: string[];
+}
+
+/**
+ * Inputs that can't produce a calculation
+ */
+export class CalorieTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalorieTargetError';
+  }
+}
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+// The value for an unspecified gender is halfway between the two
+function byGender(gender: Gender, male: number, female: number): number {
+  return gender === 'male' ? male : gender === 'female' ? female : (male + female) / 2;
+}
+
+function signed(value: number): string {
+  return `${value < 0 ? '−' : '+'} ${Math.abs(value)}`;
+}
+
+/**
+ * Lean body mass in kg: from body fat when known, otherwise the Boer estimate
+ */
+export function calculateLeanMass(
+  weight: number,
+  height: number,
+  gender: Gender,
+  bodyFat?: number | null
+): { leanMass: number; explanation: string } {
+  if (bodyFat !== undefined && bodyFat !== null) {
+    const leanMass = round1(weight * (1 - bodyFat / 100));
+    return { leanMass, explanation: `${weight} kg × (1 − ${bodyFat}% body fat) = ${leanMass} kg` };
+  }
+
+  const leanMass = round1(byGender(gender, 0.407 * weight + 0.267 * height - 19.2, 0.252 * weight + 0.473 * height - 48.3));
+  return { leanMass, explanation: `Estimated from weight and height with the Boer formula (enter body fat for a closer figure): ${leanMass} kg` };
+}
+
+/**
+ * Basal metabolic rate in kcal/day. Katch-McArdle works from lean mass and
+ * ignores gender and age; the others use weight, height and age.
+ */
+export function calculateBmr(
+  formula: BmrFormula,
+  metrics: { weight: number; height: number; age: number; gender: Gender; leanMass?: number }
+): { bmr: number; explanation: string } {
+  const { weight, height, age, gender } = metrics;
+
+  switch (formula) {
+    case 'katch-mcardle': {
+      if (metrics.leanMass === undefined) {
+        throw new CalorieTargetError('katch-mcardle needs lean mass');
+      }
+      const bmr = Math.round(370 + 21.6 * metrics.leanMass);
+      return { bmr, explanation: `Katch-McArdle: 370 + 21.6 × ${metrics.leanMass} kg lean mass = ${bmr} kcal` };
+    }
+    case 'harris-benedict': {
+      const bmr = Math.round(byGender(
+        gender,
+        88.362 + 13.397 * weight + 4.799 * height - 5.677 * age,
+        447.593 + 9.247 * weight + 3.098 * height - 4.330 * age
+      ));
+      return { bmr, explanation: `Harris-Benedict (revised) for ${weight} kg, ${height} cm, age ${age}: ${bmr} kcal` };
+    }
+    case 'mifflin-st-jeor': {
+      const constant = byGender(gender, 5, -161);
+      const bmr = Math.round(10 * weight + 6.25 * height - 5 * age + constant);
+      return { bmr, explanation: `Mifflin-St Jeor: 10 × ${weight} kg + 6.25 × ${height} cm − 5 × ${age} ${signed(constant)} = ${bmr} kcal` };
+    }
+  }
+}
+
+/**
+ * Daily calorie and macro goals for reaching a weight-change rate on a diet
+ */
+export function calculateCalorieTargets(input: CalorieTargetInput, template: DietTemplate): CalorieTargets {
+  const { weight, height, age, gender, activityLevel, formula } = input;
+  const steps: CalculationStep[] = [];
+  const warnings: string[] = [];
+
+  if (formula === 'katch-mcardle' && (input.bodyFat === undefined || input.bodyFat === null)) {
+    throw new CalorieTargetError('bodyFat is required for the katch-mcardle formula');
+  }
+
+  const lean = calculateLeanMass(weight, height, gender, input.bodyFat);
+  steps.push({ key: 'leanMass', label: 'Lean mass', value: lean.leanMass, unit: 'kg', explanation: lean.explanation });
+
+  const { bmr, explanation } = calculateBmr(formula, { weight, height, age, gender, leanMass: lean.leanMass });
+  steps.push({ key: 'bmr', label: 'Basal metabolic rate', value: bmr, unit: 'kcal', explanation });
+
+  const multiplier = ACTIVITY_MULTIPLIERS[activityLevel];
+  const tdee = Math.round(bmr * multiplier);
+  steps.push({
+    key: 'tdee',
+    label: 'Maintenance (TDEE)',
+    value: tdee,
+    unit: 'kcal',
+    explanation: `${bmr} kcal × ${multiplier} for ${activityLevel.replace('_', ' ')} activity = ${tdee} kcal`
+  });
+
+  let weeklyRate = input.weeklyRate ?? 0;
+  const maxLoss = round1(weight * MAX_WEEKLY_LOSS_SHARE);
+  if (weeklyRate < -maxLoss) {
+    warnings.push(`Losing ${Math.abs(weeklyRate)} kg a week risks losing muscle; slowed to ${maxLoss} kg, 1% of body weight`);
+    weeklyRate = -maxLoss;
+  }
+
+  let dailyAdjustment = Math.round((weeklyRate * KCAL_PER_KG) / 7);
+  steps.push({
+    key: 'adjustment',
+    label: weeklyRate < 0 ? 'Deficit' : weeklyRate > 0 ? 'Surplus' : 'Adjustment',
+    value: dailyAdjustment,
+    unit: 'kcal',
+    explanation: weeklyRate === 0
+      ? 'No weight change planned, so calories stay at maintenance'
+      : `${weeklyRate} kg/week × ${KCAL_PER_KG} kcal/kg ÷ 7 days = ${dailyAdjustment} kcal/day`
+  });
+
+  const floor = CALORIE_FLOORS[gender];
+  let calories = Math.round((tdee + dailyAdjustment) / 10) * 10;
+  let calorieExplanation = `${tdee} ${signed(dailyAdjustment)} kcal, rounded = ${calories} kcal`;
+  if (calories < floor) {
+    calories = floor;
+    dailyAdjustment = calories - tdee;
+    weeklyRate = Math.round(((dailyAdjustment * 7) / KCAL_PER_KG) * 100) / 100;
+    calorieExplanation = `Raised to the ${floor} kcal minimum, so expect about ${weeklyRate} kg/week`;
+    warnings.push(`Calories can't go below ${floor} kcal a day; the planned rate is slowed to ${weeklyRate} kg/week`);
+  }
+  steps.push({ key: 'calories', label: 'Daily calories', value: calories, unit: 'kcal', explanation: calorieExplanation });
+
+  const proteinPerKg = input.proteinPerKgLeanMass ?? DEFAULT_PROTEIN_PER_KG_LEAN_MASS;
+  const protein = Math.round(proteinPerKg * lean.leanMass);
+  steps.push({
+    key: 'protein',
+    label: 'Protein',
+    value: protein,
+    unit: 'g',
+    explanation: `${proteinPerKg} g × ${lean.leanMass} kg lean mass = ${protein} g (${protein * 4} kcal)`
+  });
+
+  // What's left after protein goes to carbs and fat in the diet's proportions
+  const remaining = Math.max(0, calories - protein * 4);
+  const fatShare = template.fatRatio / (template.fatRatio + template.carbsRatio);
+  const fatFloor = Math.round(FAT_FLOOR_PER_KG * weight);
+  let fat = Math.round((remaining * fatShare) / 9);
+  let fatExplanation = `${Math.round(fatShare * 100)}% of the remaining ${remaining} kcal, as in the ${template.name} diet = ${fat} g`;
+  if (fat < fatFloor) {
+    fat = fatFloor;
+    fatExplanation = `Raised to the minimum of ${FAT_FLOOR_PER_KG} g per kg of body weight = ${fat} g`;
+  }
+  steps.push({ key: 'fat', label: 'Fat', value: fat, unit: 'g', explanation: fatExplanation });
+
+  const carbs = Math.max(0, Math.round((remaining - fat * 9) / 4));
+  steps.push({
+    key: 'carbs',
+    label: 'Carbs',
+    value: carbs,
+    unit: 'g',
+    explanation: `The remaining ${Math.max(0, remaining - fat * 9)} kcal ÷ 4 kcal/g = ${carbs} g`
+  });
+  if (protein * 4 + fat * 9 > calories) {
+    warnings.push('Protein and the fat minimum already use up the calories; lower the protein target or the rate');
+  }
+
+  return {
+    goals: {
+      calories,
+      protein,
+      carbs,
+      fat,
+      fiber: template.fiberMinimum,
+      sugar: template.sugarMaximum
+    },
+    formula,
+    bmr,
+    tdee,
+    leanMass: lean.leanMass,
+    weeklyRate,
+    dailyAdjustment,
+    steps,
+    warnings
+  };
+}
@@ -0,0 +1,529 @@
+/**
+ * Data Export
+ * Packs a user's meals (with their thumbnails), profile, daily progress,
+ * ketone logs and body measurements into a zip of JSON and CSV files, and restores such an archive
+ * into any account. The JSON files are what gets imported; the CSV files are
+ * for spreadsheets. Importing is idempotent: records already in the account
+ * are skipped, so the same archive can be imported again safely.
+ */
+
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import type { Zippable } from 'fflate';
+import { getDb } from './database.js';
+import type { MealAnalysis, UserProfile, DailyProgress, KetoneLog, BodyMeasurement } from './database.js';
+import { LAST_DAY, getUserTimeZone, refreshDailyProgress } from './progressTracking.js';
+import { syncProfileWeight } from './bodyMeasurements.js';
+import { formatCsv } from '../utils/csv.js';
+import { mealMacro } from '../utils/mealQuery.js';
+import { isMealType } from '../utils/mealTypes.js';
+import { DEFAULT_TIME_ZONE, isValidTimeZone, localDay } from '../utils/timezone.js';
+import { mergeMicronutrientLimits } from '../utils/micronutrients.js';
+import { validateNutritionPayload, NutritionValidationError } from '../utils/nutritionValidation.js';
+import { findAvailableDietTemplate } from './dietTemplates.js';
+import type { MicronutrientValues } from '../types/nutrition.js';
+
+export const EXPORT_FORMAT = 'nutritionai-export';
+export const EXPORT_VERSION = 1;
+
+// findKetoneLogsByUser returns the latest 30 unless asked for more
+const ALL_KETONE_LOGS = 1_000_000;
+
+// Upper bound on an archive's unpacked size, so a small upload can't unpack into gigabytes
+export const MAX_UNPACKED_BYTES = 200 * 1024 * 1024;
+
+export interface ExportManifest {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  account: { email: string; name: string };
+  counts: { meals: number; dailyProgress: number; ketoneLogs: number; bodyMeasurements: number };
+}
+
+export interface ExportedMeal {
+  id: string;
+  createdAt: string;
+  mealType: string | null;
+  imageUrl: string;
+  nutritionData: any;
+  thumbnails: string[];   // Paths of image files in the archive
+}
+
+export type ExportedProfile = Omit<UserProfile, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+export type ExportedDailyProgress = Omit<DailyProgress, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+export type ExportedKetoneLog = Omit<KetoneLog, 'id' | 'userId' | 'createdAt'>;
+export type ExportedBodyMeasurement = Omit<BodyMeasurement, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+
+export interface ImportCounts {
+  imported: number;
+  skipped: number;      // Already in the account
+}
+
+export interface ImportSummary {
+  meals: ImportCounts;
+  dailyProgress: ImportCounts;
+  ketoneLogs: ImportCounts;
+  bodyMeasurements: ImportCounts;
+  profile: 'created' | 'updated' | null;
+}
+
+/**
+ * The archive can't be read or isn't an export
+ */
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+};
+
+function formatDay(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function mealFoodNames(nutritionData: any): string {
+  const foods: Array<{ name?: unknown }> = Array.isArray(nutritionData?.foods) ? nutritionData.foods : [];
+  return foods.map(food => (typeof food?.name === 'string' ? food.name : '')).filter(Boolean).join('; ');
+}
+
+// Meals, ketone readings and measurements count as already imported when one with the same time and values exists
+function mealKey(meal: { createdAt: Date; nutritionData: any }): string {
+  return `${meal.createdAt.getTime()}|${mealMacro(meal.nutritionData, 'calories')}`;
+}
+
+function ketoneKey(log: { timestamp: Date; ketoneLevel: number; measurementType: string }): string {
+  return `${log.timestamp.getTime()}|${log.ketoneLevel}|${log.measurementType}`;
+}
+
+function measurementKey(measurement: Pick<BodyMeasurement, 'measuredAt' | 'weight' | 'waist' | 'bodyFat'>): string {
+  return `${measurement.measuredAt.getTime()}|${measurement.weight}|${measurement.waist}|${measurement.bodyFat}`;
+}
+
+/**
+ * Build the export archive for a user
+ */
+export async function exportUserData(userId: string, now: Date = new Date()): Promise<Uint8Array> {
+  const db = getDb();
+  const user = await db.findUserById(userId);
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const [meals, profile, dailyProgress, ketoneLogs, bodyMeasurements] = await Promise.all([
+    db.findMealAnalysesByUserId(userId),
+    db.findUserProfileByUserId(userId),
+    db.findDailyProgressByUserAndDateRange(userId, new Date(0), LAST_DAY),
+    db.findKetoneLogsByUser(userId, ALL_KETONE_LOGS),
+    db.findBodyMeasurementsByUser(userId)
+  ]);
+
+  const files: Zippable = {};
+  const json = (value: unknown) => strToU8(JSON.stringify(value, null, 2));
+
+  // Thumbnails are stored as data URLs; the archive holds them as image files
+  const exportedMeals: ExportedMeal[] = meals.map(meal => {
+    const thumbnails: string[] = [];
+    meal.thumbnails.forEach((dataUrl, index) => {
+      const match = dataUrl.match(/^data:(image\/[a-z+]+);base64,(.*)$/);
+      if (!match) return;
+      const path = `thumbnails/${meal.id}-${index + 1}.${IMAGE_EXTENSIONS[match[1]] || 'bin'}`;
+      // Images are already compressed
+      files[path] = [new Uint8Array(Buffer.from(match[2], 'base64')), { level: 0 }];
+      thumbnails.push(path);
+    });
+
+    return {
+      id: meal.id,
+      createdAt: meal.createdAt.toISOString(),
+      mealType: meal.mealType,
+      imageUrl: meal.imageUrl,
+      nutritionData: meal.nutritionData,
+      thumbnails
+    };
+  });
+
+  const exportedProfile: ExportedProfile | null = profile
+    ? (({ id: _id, userId: _userId, createdAt: _createdAt, updatedAt: _updatedAt, ...rest }) => rest)(profile)
+    : null;
+  const exportedProgress: ExportedDailyProgress[] = dailyProgress.map(
+    ({ id: _id, userId: _userId, createdAt: _createdAt, updatedAt: _updatedAt, ...rest }) => rest
+  );
+  const exportedKetoneLogs: ExportedKetoneLog[] = ketoneLogs.map(
+    ({ id: _id, userId: _userId, createdAt: _createdAt, ...rest }) => rest
+  );
+  const exportedMeasurements: ExportedBodyMeasurement[] = bodyMeasurements.map(
+    ({ id: _id, userId: _userId, createdAt: _createdAt, updatedAt: _updatedAt, ...rest }) => rest
+  );
+
+  const manifest: ExportManifest = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    account: { email: user.email, name: user.name },
+    counts: {
+      meals: meals.length,
+      dailyProgress: dailyProgress.length,
+      ketoneLogs: ketoneLogs.length,
+      bodyMeasurements: bodyMeasurements.length
+    }
+  };
+
+  files['manifest.json'] = json(manifest);
+  files['meals.json'] = json(exportedMeals);
+  files['profile.json'] = json(exportedProfile);
+  files['daily-progress.json'] = json(exportedProgress);
+  files['ketone-logs.json'] = json(exportedKetoneLogs);
+  files['body-measurements.json'] = json(exportedMeasurements);
+
+  files['meals.csv'] = strToU8(formatCsv(
+    ['id', 'createdAt', 'mealType', 'calories', 'protein', 'carbs', 'fat', 'fiber', 'sugar', 'foods', 'thumbnails'],
+    exportedMeals.map(meal => [
+      meal.id,
+      meal.createdAt,
+      meal.mealType,
+      mealMacro(meal.nutritionData, 'calories'),
+      mealMacro(meal.nutritionData, 'protein'),
+      mealMacro(meal.nutritionData, 'carbs'),
+      mealMacro(meal.nutritionData, 'fat'),
+      Number(meal.nutritionData?.totals?.fiber) || 0,
+      Number(meal.nutritionData?.totals?.sugar) || 0,
+      mealFoodNames(meal.nutritionData),
+      meal.thumbnails.join(' ')
+    ])
+  ));
+
+  if (exportedProfile) {
+    const columns = Object.keys(exportedProfile) as Array<keyof ExportedProfile>;
+    files['profile.csv'] = strToU8(formatCsv(columns, [columns.map(column => {
+      const value = exportedProfile[column];
+      return Array.isArray(value) ? value.join('; ') : typeof value === 'object' && value !== null ? JSON.stringify(value) : value;
+    })]));
+  }
+
+  files['daily-progress.csv'] = strToU8(formatCsv(
+    ['date', 'totalCalories', 'totalProtein', 'totalCarbs', 'totalFat', 'totalFiber', 'totalSugar', 'mealCount',
+      'goalCalories', 'goalProtein', 'goalCarbs', 'goalFat', 'goalFiber', 'goalSugar', 'isOnTrack',
+      'carbsCompliance', 'proteinCompliance', 'fatCompliance', 'dietType'],
+    exportedProgress.map(day => [
+      formatDay(day.date), day.totalCalories, day.totalProtein, day.totalCarbs, day.totalFat, day.totalFiber, day.totalSugar,
+      day.mealCount, day.goalCalories, day.goalProtein, day.goalCarbs, day.goalFat, day.goalFiber, day.goalSugar,
+      day.isOnTrack, day.carbsCompliance, day.proteinCompliance, day.fatCompliance, day.dietType
+    ])
+  ));
+
+  files['ketone-logs.csv'] = strToU8(formatCsv(
+    ['timestamp', 'ketoneLevel', 'measurementType', 'notes'],
+    exportedKetoneLogs.map(log => [log.timestamp.toISOString(), log.ketoneLevel, log.measurementType, log.notes])
+  ));
+
+  files['body-measurements.csv'] = strToU8(formatCsv(
+    ['measuredAt', 'weight', 'waist', 'bodyFat', 'notes'],
+    exportedMeasurements.map(measurement => [
+      measurement.measuredAt.toISOString(), measurement.weight, measurement.waist, measurement.bodyFat, measurement.notes
+    ])
+  ));
+
+  console.log(`[DataExport] Exported ${meals.length} meals, ${dailyProgress.length} days, ${ketoneLogs.length} ketone logs and ${bodyMeasurements.length} measurements for user ${userId}`);
+  return zipSync(files, { mtime: now });
+}
+
+function readArchive(archive: Uint8Array): Record<string, Uint8Array> {
+  let unpacked = 0;
+  try {
+    return unzipSync(archive, {
+      filter: file => {
+        unpacked += file.originalSize;
+        if (unpacked > MAX_UNPACKED_BYTES) {
+          throw new ImportError('Archive is too large');
+        }
+        return true;
+      }
+    });
+  } catch (error) {
+    if (error instanceof ImportError) throw error;
+    throw new ImportError('File is not a zip archive');
+  }
+}
+
+function readJson<T>(files: Record<string, Uint8Array>, path: string): T {
+  const file = files[path];
+  if (!file) {
+    throw new ImportError(`Archive is missing ${path}`);
+  }
+  try {
+    return JSON.parse(strFromU8(file)) as T;
+  } catch {
+    throw new ImportError(`${path} is not valid JSON`);
+  }
+}
+
+function readDate(value: unknown, path: string): Date {
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new ImportError(`${path} has an invalid date: ${String(value)}`);
+  }
+  return date;
+}
+
+function readNumber(value: unknown, path: string): number {
+  const number = Number(value);
+  if (value === null || value === '' || !Number.isFinite(number)) {
+    throw new ImportError(`${path} has an invalid number: ${String(value)}`);
+  }
+  return number;
+}
+
+function readOptionalNumber(value: unknown, path: string): number | null {
+  return value === null || value === undefined ? null : readNumber(value, path);
+}
+
+function readOptionalString(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+function readMicronutrients(value: unknown): MicronutrientValues {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as MicronutrientValues : {};
+}
+
+// Checked like the profile route checks them, so a bad archive can't leave
+// the account with a time zone or limits the rest of the app chokes on
+function readProfile(value: any): ExportedProfile {
+  const path = 'profile.json';
+  if (typeof value?.dietType !== 'string') {
+    throw new ImportError(`${path} has no diet type`);
+  }
+  const timezone = value.timezone ?? DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(timezone)) {
+    throw new ImportError(`${path} has an invalid time zone: ${String(timezone)}`);
+  }
+  const micronutrientLimits = mergeMicronutrientLimits({}, value.micronutrientLimits ?? {});
+  if (typeof micronutrientLimits === 'string') {
+    throw new ImportError(`${path}: ${micronutrientLimits}`);
+  }
+  return {
+    dietType: value.dietType,
+    dailyCalorieGoal: readNumber(value.dailyCalorieGoal, path),
+    dailyProteinGoal: readNumber(value.dailyProteinGoal, path),
+    dailyCarbsGoal: readNumber(value.dailyCarbsGoal, path),
+    dailyFatGoal: readNumber(value.dailyFatGoal, path),
+    dailyFiberGoal: readOptionalNumber(value.dailyFiberGoal, path),
+    dailySugarLimit: readOptionalNumber(value.dailySugarLimit, path),
+    weight: readOptionalNumber(value.weight, path),
+    goalWeight: readOptionalNumber(value.goalWeight, path),
+    height: readOptionalNumber(value.height, path),
+    age: readOptionalNumber(value.age, path),
+    gender: readOptionalString(value.gender),
+    activityLevel: readOptionalString(value.activityLevel),
+    dietaryRestrictions: Array.isArray(value.dietaryRestrictions) ? value.dietaryRestrictions.map(String) : [],
+    micronutrientLimits,
+    timezone
+  };
+}
+
+function readDailyProgress(value: any): ExportedDailyProgress {
+  const path = 'daily-progress.json';
+  return {
+    date: readDate(value?.date, path),
+    totalCalories: readNumber(value.totalCalories, path),
+    totalProtein: readNumber(value.totalProtein, path),
+    totalCarbs: readNumber(value.totalCarbs, path),
+    totalFat: readNumber(value.totalFat, path),
+    totalFiber: readNumber(value.totalFiber ?? 0, path),
+    totalSugar: readNumber(value.totalSugar ?? 0, path),
+    totalMicronutrients: readMicronutrients(value.totalMicronutrients),
+    mealCount: readNumber(value.mealCount, path),
+    goalCalories: readNumber(value.goalCalories, path),
+    goalProtein: readNumber(value.goalProtein, path),
+    goalCarbs: readNumber(value.goalCarbs, path),
+    goalFat: readNumber(value.goalFat, path),
+    goalFiber: readOptionalNumber(value.goalFiber, path),
+    goalSugar: readOptionalNumber(value.goalSugar, path),
+    micronutrientLimits: readMicronutrients(value.micronutrientLimits),
+    isOnTrack: value.isOnTrack === true,
+    carbsCompliance: readNumber(value.carbsCompliance ?? 0, path),
+    proteinCompliance: readNumber(value.proteinCompliance ?? 0, path),
+    fatCompliance: readNumber(value.fatCompliance ?? 0, path),
+    dietType: typeof value.dietType === 'string' ? value.dietType : 'balanced'
+  };
+}
+
+// Meals go through the same checks as a model's answer; other fields saved
+// with the meal (description, parsing details) are kept as they are
+function readNutritionData(value: unknown, index: number): Record<string, unknown> {
+  try {
+    const { data } = validateNutritionPayload(value);
+    return { ...(value as Record<string, unknown>), ...data };
+  } catch (error) {
+    if (error instanceof NutritionValidationError) {
+      throw new ImportError(`meals.json item ${index + 1} has invalid nutrition data: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+function readArray<T>(files: Record<string, Uint8Array>, path: string): T[] {
+  const value = readJson<unknown>(files, path);
+  if (!Array.isArray(value)) {
+    throw new ImportError(`${path} should hold a list`);
+  }
+  return value as T[];
+}
+
+// Back to a data URL, the form meals store thumbnails in
+function readThumbnail(files: Record<string, Uint8Array>, path: string): string | null {
+  const file = files[path];
+  const extension = path.split('.').pop();
+  const mimeType = Object.keys(IMAGE_EXTENSIONS).find(type => IMAGE_EXTENSIONS[type] === extension);
+  if (!file || !mimeType) return null;
+  return `data:${mimeType};base64,${Buffer.from(file).toString('base64')}`;
+}
+
+/**
+ * Restore an export archive into a user's account. Meals, ketone readings,
+ * measurements and days keep their original times. A profile in the archive replaces the
+ * account's; days that already had progress are recalculated from the merged
+ * meals rather than overwritten.
+ */
+export async function importUserData(userId: string, archive: Uint8Array): Promise<ImportSummary> {
+  const files = readArchive(archive);
+
+  const manifest = readJson<Partial<ExportManifest>>(files, 'manifest.json');
+  if (manifest?.format !== EXPORT_FORMAT) {
+    throw new ImportError('Archive is not a NutritionAI export');
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > EXPORT_VERSION) {
+    throw new ImportError(`Unsupported export version: ${String(manifest.version)}`);
+  }
+
+  // Read and check everything before writing anything
+  const meals = readArray<ExportedMeal>(files, 'meals.json').map((meal, index) => ({
+    createdAt: readDate(meal?.createdAt, 'meals.json'),
+    mealType: isMealType(meal.mealType) ? meal.mealType : null,
+    imageUrl: typeof meal.imageUrl === 'string' ? meal.imageUrl : '',
+    nutritionData: readNutritionData(meal.nutritionData, index),
+    thumbnails: (Array.isArray(meal.thumbnails) ? meal.thumbnails : [])
+      .map(path => readThumbnail(files, String(path)))
+      .filter((thumbnail): thumbnail is string => thumbnail !== null)
+  }));
+  const storedProfile = readJson<unknown>(files, 'profile.json');
+  const profile = storedProfile === null ? null : readProfile(storedProfile);
+  const dailyProgress = readArray<unknown>(files, 'daily-progress.json').map(readDailyProgress);
+  const ketoneLogs = readArray<ExportedKetoneLog>(files, 'ketone-logs.json').map(log => ({
+    timestamp: readDate(log?.timestamp, 'ketone-logs.json'),
+    ketoneLevel: readNumber(log.ketoneLevel, 'ketone-logs.json'),
+    measurementType: String(log.measurementType),
+    notes: readOptionalString(log.notes)
+  }));
+  // Archives from before measurements were logged don't have the file
+  const bodyMeasurements = (files['body-measurements.json'] ? readArray<ExportedBodyMeasurement>(files, 'body-measurements.json') : [])
+    .map(measurement => ({
+      measuredAt: readDate(measurement?.measuredAt, 'body-measurements.json'),
+      weight: readOptionalNumber(measurement.weight, 'body-measurements.json'),
+      waist: readOptionalNumber(measurement.waist, 'body-measurements.json'),
+      bodyFat: readOptionalNumber(measurement.bodyFat, 'body-measurements.json'),
+      notes: readOptionalString(measurement.notes)
+    }));
+
+  const db = getDb();
+  const summary: ImportSummary = {
+    meals: { imported: 0, skipped: 0 },
+    dailyProgress: { imported: 0, skipped: 0 },
+    ketoneLogs: { imported: 0, skipped: 0 },
+    bodyMeasurements: { imported: 0, skipped: 0 },
+    profile: null
+  };
+
+  if (profile) {
+    // Custom templates aren't in the archive; a profile on one this account
+    // can't use moves to Balanced
+    if (!(await findAvailableDietTemplate(profile.dietType, userId))) {
+      profile.dietType = 'balanced';
+    }
+    if (await db.findUserProfileByUserId(userId)) {
+      await db.updateUserProfile(userId, profile);
+      summary.profile = 'updated';
+    } else {
+      await db.createUserProfile({ ...profile, userId });
+      summary.profile = 'created';
+    }
+  }
+
+  const existingDays = new Set(
+    (await db.findDailyProgressByUserAndDateRange(userId, new Date(0), LAST_DAY)).map(day => day.date.getTime())
+  );
+
+  const existingMeals = new Set((await db.findMealAnalysesByUserId(userId)).map(mealKey));
+  const importedMeals: MealAnalysis[] = [];
+  for (const meal of meals) {
+    const key = mealKey(meal);
+    if (existingMeals.has(key)) {
+      summary.meals.skipped++;
+      continue;
+    }
+    importedMeals.push(await db.createMealAnalysis({
+      userId,
+      imageUrl: meal.imageUrl,
+      thumbnail: meal.thumbnails[0],
+      thumbnails: meal.thumbnails,
+      nutritionData: meal.nutritionData,
+      mealType: meal.mealType,
+      createdAt: meal.createdAt
+    }));
+    existingMeals.add(key);
+    summary.meals.imported++;
+  }
+
+  // Stored days keep the goals they were tracked against
+  for (const day of dailyProgress) {
+    if (existingDays.has(day.date.getTime())) {
+      summary.dailyProgress.skipped++;
+      continue;
+    }
+    await db.createOrUpdateDailyProgress({ ...day, userId });
+    summary.dailyProgress.imported++;
+  }
+
+  // Days the account already tracked now have more meals
+  const timeZone = await getUserTimeZone(userId);
+  await refreshDailyProgress(
+    userId,
+    importedMeals
+      .map(meal => meal.createdAt)
+      .filter(createdAt => existingDays.has(localDay(createdAt, timeZone).getTime()))
+  );
+
+  const existingLogs = new Set((await db.findKetoneLogsByUser(userId, ALL_KETONE_LOGS)).map(ketoneKey));
+  for (const log of ketoneLogs) {
+    const key = ketoneKey(log);
+    if (existingLogs.has(key)) {
+      summary.ketoneLogs.skipped++;
+      continue;
+    }
+    await db.createKetoneLog({ ...log, userId });
+    existingLogs.add(key);
+    summary.ketoneLogs.imported++;
+  }
+
+  const existingMeasurements = new Set((await db.findBodyMeasurementsByUser(userId)).map(measurementKey));
+  for (const measurement of bodyMeasurements) {
+    const key = measurementKey(measurement);
+    if (existingMeasurements.has(key)) {
+      summary.bodyMeasurements.skipped++;
+      continue;
+    }
+    await db.createBodyMeasurement({ ...measurement, userId });
+    existingMeasurements.add(key);
+    summary.bodyMeasurements.imported++;
+  }
+  if (summary.bodyMeasurements.imported > 0) {
+    await syncProfileWeight(userId);
+  }
+
+  console.log(`[DataExport] Imported ${summary.meals.imported} meals, ${summary.dailyProgress.imported} days, ${summary.ketoneLogs.imported} ketone logs and ${summary.bodyMeasurements.imported} measurements for user ${userId}`);
+  return summary;
+}
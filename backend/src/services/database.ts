@@ -1,16 +1,36 @@
 /**
- * Database service using Firestore
+ * Database service
+ * Firestore is the production backend; SQLite/PostgreSQL and an in-memory
+ * store implement the same interface for self-hosting and tests.
  */
 
 import { getFirestoreDb, isFirebaseEnabled } from './firebase.js';
 import type { Firestore } from 'firebase-admin/firestore';
 import admin from 'firebase-admin';
+import { SqlDatabase, createSqliteDriver, createPostgresDriver } from './sqlDatabase.js';
+import { InMemoryDatabase } from './memoryDatabase.js';
+import type { MicronutrientValues, NutrientValues } from '../types/nutrition.js';
+import type { PortionMeasure } from '../utils/portions.js';
+import type { MealType } from '../utils/mealTypes.js';
+import { matchesMealQuery, toMealPage } from '../utils/mealQuery.js';
+import type { MealQuery, MealPage } from '../utils/mealQuery.js';
+import { searchTokens, matchesAllTokens } from '../utils/foodSearch.js';
+import { DEFAULT_TIME_ZONE } from '../utils/timezone.js';
+import { DEFAULT_DIET_RULES } from './dietCompliance.js';
+import type { DietRules } from './dietCompliance.js';
+
+/**
+ * Sets the account's daily AI analysis quota
+ */
+export type AccountTier = 'free' | 'premium';
 
 export interface User {
   id: string;
   email: string;
   passwordHash: string;
   name: string;
+  emailVerified: boolean;
+  tier: AccountTier;
   createdAt: Date;
 }
 
@@ -19,7 +39,9 @@ export interface MealAnalysis {
   userId: string | null;
   imageUrl: string;
   thumbnail: string | null;  // Base64 encoded thumbnail image
+  thumbnails: string[];      // All thumbnails for multi-image meals (first matches thumbnail)
   nutritionData: any;
+  mealType: MealType | null;
   createdAt: Date;
 }
 
@@ -33,19 +55,23 @@ export interface UserProfile {
   dailyFatGoal: number;
   dailyFiberGoal: number | null;
   dailySugarLimit: number | null;
-  weight: number | null;
+  weight: number | null;            // kg; the latest weigh-in when one is logged
+  goalWeight: number | null;        // kg
   height: number | null;
   age: number | null;
   gender: string | null;
   activityLevel: string | null;
   dietaryRestrictions: string[];
+  micronutrientLimits: MicronutrientValues;
+  timezone: string;  // IANA time zone that days and weeks are counted in
   createdAt: Date;
   updatedAt: Date;
 }
 
 export interface DietTemplate {
   id: string;
-  dietType: string;
+  userId: string | null;     // Null for global templates, which every user can choose
+  dietType: string;          // What profiles refer to the template by
   name: string;
   description: string;
   proteinRatio: number;
@@ -60,8 +86,13 @@ export interface DietTemplate {
   fatTolerance: number;
   fiberMinimum: number | null;
   sugarMaximum: number | null;
+  rules: DietRules;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
+export type DietTemplateFields = Omit<DietTemplate, 'id' | 'userId' | 'dietType' | 'createdAt' | 'updatedAt'>;
+
 export interface DailyProgress {
   id: string;
   userId: string;
@@ -72,6 +103,7 @@ export interface DailyProgress {
   totalFat: number;
   totalFiber: number;
   totalSugar: number;
+  totalMicronutrients: MicronutrientValues;
   mealCount: number;
   goalCalories: number;
   goalProtein: number;
@@ -79,6 +111,7 @@ export interface DailyProgress {
   goalFat: number;
   goalFiber: number | null;
   goalSugar: number | null;
+  micronutrientLimits: MicronutrientValues;
   isOnTrack: boolean;
   carbsCompliance: number;
   proteinCompliance: number;
@@ -115,32 +148,123 @@ export interface KetoneLog {
   createdAt: Date;
 }
 
+/**
+ * A weigh-in and/or body measurements taken at one time. Any of the
+ * measurements can be missing, but not all of them.
+ */
+export interface BodyMeasurement {
+  id: string;
+  userId: string;
+  measuredAt: Date;
+  weight: number | null;            // kg
+  waist: number | null;             // cm
+  bodyFat: number | null;           // Percent
+  notes: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RefreshToken {
+  id: string;                       // SHA-256 of the token; the token itself is never stored
+  userId: string;
+  expiresAt: Date;
+  revokedAt: Date | null;           // Set on rotation and when all sessions are revoked
+  createdAt: Date;
+}
+
+export type EmailTokenPurpose = 'verify-email' | 'reset-password' | 'change-email';
+
+/**
+ * Single-use token sent by email to verify an address or reset a password
+ */
+export interface EmailToken {
+  id: string;                       // SHA-256 of the token; the token itself is never stored
+  userId: string;
+  purpose: EmailTokenPurpose;
+  email: string;                    // Address the token was sent to
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+/**
+ * A third-party sign-in (Google, Apple) linked to a user
+ */
+export interface OAuthIdentity {
+  id: string;                       // `${provider}:${subject}`, so an identity links to one user
+  userId: string;
+  provider: string;
+  subject: string;                  // The provider's stable user id (`sub`)
+  email: string;                    // Verified address when the identity was linked
+  createdAt: Date;
+}
+
+/**
+ * How much of a metered resource (e.g. AI analyses) a user used on one UTC day
+ */
+export interface UsageCounter {
+  userId: string;
+  metric: string;
+  date: string;                     // YYYY-MM-DD (UTC)
+  count: number;
+}
+
+export interface FoodProduct {
+  barcode: string;                  // GTIN digits (EAN-13, UPC-A, EAN-8)
+  name: string;
+  brand: string | null;
+  servingSize: string | null;       // As printed, e.g. "1 bar (40 g)"
+  servingQuantity: number | null;   // Grams (or ml) per serving
+  nutrientsPer100g: NutrientValues; // Sodium in mg
+  source: string;                   // Catalog the product was imported from
+  updatedAt: Date;
+}
+
+export interface ReferenceFood {
+  id: string;                       // USDA FoodData Central fdc_id
+  description: string;
+  category: string | null;
+  dataType: string;                 // e.g. foundation_food, sr_legacy_food
+  nutrientsPer100g: NutrientValues; // Sodium in mg
+  portions: PortionMeasure[];       // Household measures with gram weights
+  source: string;
+  updatedAt: Date;
+}
+
 export interface DatabaseService {
   // User operations
   createUser(data: { email: string; passwordHash: string; name: string }): Promise<User>;
   findUserByEmail(email: string): Promise<User | null>;
   findUserById(id: string): Promise<User | null>;
+  updateUser(id: string, data: Partial<Pick<User, 'email' | 'passwordHash' | 'emailVerified' | 'tier'>>): Promise<User | null>;
+  deleteUser(id: string): Promise<void>; // Along with everything the user owns
 
   // Meal analysis operations
-  createMealAnalysis(data: { userId?: string; imageUrl: string; thumbnail?: string; nutritionData: any }): Promise<MealAnalysis>;
+  createMealAnalysis(data: { userId?: string; imageUrl: string; thumbnail?: string; thumbnails?: string[]; nutritionData: any; mealType?: MealType | null; createdAt?: Date }): Promise<MealAnalysis>;
   findMealAnalysesByUserId(userId: string): Promise<MealAnalysis[]>;
+  queryMealAnalyses(query: MealQuery): Promise<MealPage>;
   findMealAnalysisById(id: string): Promise<MealAnalysis | null>;
   deleteMealAnalysis(id: string): Promise<void>;
-  updateMealAnalysis(id: string, data: { nutritionData?: any; thumbnail?: string; createdAt?: Date }): Promise<MealAnalysis | null>;
+  updateMealAnalysis(id: string, data: { nutritionData?: any; thumbnail?: string; mealType?: MealType | null; createdAt?: Date }): Promise<MealAnalysis | null>;
 
   // User profile operations
   createUserProfile(data: Omit<UserProfile, 'id' | 'createdAt' | 'updatedAt'>): Promise<UserProfile>;
   findUserProfileByUserId(userId: string): Promise<UserProfile | null>;
+  findAllUserProfiles(): Promise<UserProfile[]>;
   updateUserProfile(userId: string, data: Partial<Omit<UserProfile, 'id' | 'userId' | 'createdAt' | 'updatedAt'>>): Promise<UserProfile>;
 
   // Diet template operations
+  createDietTemplate(data: Omit<DietTemplate, 'id' | 'createdAt' | 'updatedAt'>): Promise<DietTemplate>;
   findDietTemplateByType(dietType: string): Promise<DietTemplate | null>;
+  findDietTemplatesByUser(userId: string | null): Promise<DietTemplate[]>; // Null for the global ones
   findAllDietTemplates(): Promise<DietTemplate[]>;
+  updateDietTemplate(id: string, data: Partial<DietTemplateFields>): Promise<DietTemplate | null>;
+  deleteDietTemplate(id: string): Promise<void>;
 
   // Daily progress operations
   createOrUpdateDailyProgress(data: Omit<DailyProgress, 'id' | 'createdAt' | 'updatedAt'>): Promise<DailyProgress>;
   findDailyProgressByUserAndDate(userId: string, date: Date): Promise<DailyProgress | null>;
   findDailyProgressByUserAndDateRange(userId: string, startDate: Date, endDate: Date): Promise<DailyProgress[]>;
+  deleteDailyProgress(userId: string, date: Date): Promise<void>;
 
   // Weekly summary operations
   createWeeklySummary(data: Omit<WeeklySummary, 'id' | 'createdAt'>): Promise<WeeklySummary>;
@@ -150,12 +274,68 @@ export interface DatabaseService {
   createKetoneLog(data: Omit<KetoneLog, 'id' | 'createdAt'>): Promise<KetoneLog>;
   findKetoneLogsByUser(userId: string, limit?: number): Promise<KetoneLog[]>;
   findRecentKetoneLog(userId: string): Promise<KetoneLog | null>;
+  findKetoneLogById(id: string): Promise<KetoneLog | null>;
   deleteKetoneLog(id: string): Promise<void>;
 
+  // Body measurement operations
+  createBodyMeasurement(data: Omit<BodyMeasurement, 'id' | 'createdAt' | 'updatedAt'>): Promise<BodyMeasurement>;
+  findBodyMeasurementsByUser(userId: string, since?: Date): Promise<BodyMeasurement[]>; // Oldest first
+  findBodyMeasurementById(id: string): Promise<BodyMeasurement | null>;
+  updateBodyMeasurement(id: string, data: Partial<Pick<BodyMeasurement, 'measuredAt' | 'weight' | 'waist' | 'bodyFat' | 'notes'>>): Promise<BodyMeasurement | null>;
+  deleteBodyMeasurement(id: string): Promise<void>;
+
+  // Refresh token operations
+  createRefreshToken(data: Omit<RefreshToken, 'revokedAt' | 'createdAt'>): Promise<RefreshToken>;
+  findRefreshToken(id: string): Promise<RefreshToken | null>;
+  revokeRefreshToken(id: string): Promise<boolean>; // False when already revoked or missing
+  revokeRefreshTokensByUser(userId: string): Promise<number>;
+  deleteRefreshToken(id: string): Promise<void>;
+  deleteExpiredRefreshTokens(before: Date): Promise<number>;
+
+  // Email token operations
+  createEmailToken(data: Omit<EmailToken, 'createdAt'>): Promise<EmailToken>;
+  consumeEmailToken(id: string): Promise<EmailToken | null>;      // Deletes and returns it
+  deleteEmailTokensByUser(userId: string, purpose: EmailTokenPurpose): Promise<void>;
+  deleteExpiredEmailTokens(before: Date): Promise<number>;
+
+  // OAuth identity operations
+  createOAuthIdentity(data: Omit<OAuthIdentity, 'id' | 'createdAt'>): Promise<OAuthIdentity>;
+  findOAuthIdentity(provider: string, subject: string): Promise<OAuthIdentity | null>;
+  findOAuthIdentitiesByUser(userId: string): Promise<OAuthIdentity[]>;
+
+  // Usage counter operations
+  incrementUsage(userId: string, metric: string, date: string, amount?: number): Promise<number>; // The new count
+  findUsageByUser(userId: string, date: string): Promise<UsageCounter[]>;
+  deleteUsageBefore(date: string): Promise<number>;
+
+  // Food product catalog operations
+  upsertFoodProducts(products: Omit<FoodProduct, 'updatedAt'>[]): Promise<number>;
+  findFoodProductByBarcode(barcode: string): Promise<FoodProduct | null>;
+
+  // Reference food operations
+  upsertReferenceFoods(foods: Omit<ReferenceFood, 'updatedAt'>[]): Promise<number>;
+  findReferenceFoodById(id: string): Promise<ReferenceFood | null>;
+  searchReferenceFoods(query: string, limit?: number): Promise<ReferenceFood[]>;
+
   // Utility
   disconnect(): Promise<void>;
 }
 
+// Collections whose documents belong to a user through their userId field
+const USER_OWNED_COLLECTIONS = [
+  'mealAnalyses',
+  'userProfiles',
+  'dailyProgress',
+  'weeklySummaries',
+  'ketoneLogs',
+  'bodyMeasurements',
+  'dietTemplates',
+  'refreshTokens',
+  'emailTokens',
+  'oauthIdentities',
+  'usageCounters'
+];
+
 /**
  * Firestore implementation
  */
@@ -175,6 +355,8 @@ class FirestoreDatabase implements DatabaseService {
     const user: User = {
       id,
       ...data,
+      emailVerified: false,
+      tier: 'free',
       createdAt: new Date()
     };
 
@@ -195,14 +377,7 @@ class FirestoreDatabase implements DatabaseService {
     if (snapshot.empty) return null;
 
     const doc = snapshot.docs[0];
-    const data = doc.data();
-    return {
-      id: doc.id,
-      email: data.email,
-      passwordHash: data.passwordHash,
-      name: data.name,
-      createdAt: data.createdAt?.toDate() || new Date()
-    };
+    return this.toUser(doc.id, doc.data());
   }
 
   async findUserById(id: string): Promise<User | null> {
@@ -210,30 +385,66 @@ class FirestoreDatabase implements DatabaseService {
 
     if (!doc.exists) return null;
 
-    const data = doc.data()!;
+    return this.toUser(doc.id, doc.data()!);
+  }
+
+  async updateUser(id: string, data: Partial<Pick<User, 'email' | 'passwordHash' | 'emailVerified' | 'tier'>>): Promise<User | null> {
+    const ref = this.db.collection('users').doc(id);
+    const doc = await ref.get();
+
+    if (!doc.exists) return null;
+
+    await ref.update(data);
+    return this.toUser(id, { ...doc.data(), ...data });
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    // Owned records first, so a failure part way leaves the account in place to retry
+    for (const collection of USER_OWNED_COLLECTIONS) {
+      while (true) {
+        const snapshot = await this.db.collection(collection).where('userId', '==', id).limit(500).get();
+        if (snapshot.empty) break;
+
+        const batch = this.db.batch();
+        snapshot.docs.forEach(doc => batch.delete(doc.ref));
+        await batch.commit();
+      }
+    }
+
+    await this.db.collection('users').doc(id).delete();
+  }
+
+  private toUser(id: string, data: FirebaseFirestore.DocumentData): User {
     return {
-      id: doc.id,
+      id,
       email: data.email,
       passwordHash: data.passwordHash,
       name: data.name,
+      // Accounts created before verification existed have no flag
+      emailVerified: data.emailVerified === true,
+      tier: data.tier || 'free',
       createdAt: data.createdAt?.toDate() || new Date()
     };
   }
 
-  async createMealAnalysis(data: { userId?: string; imageUrl: string; thumbnail?: string; nutritionData: any }): Promise<MealAnalysis> {
+  async createMealAnalysis(data: { userId?: string; imageUrl: string; thumbnail?: string; thumbnails?: string[]; nutritionData: any; mealType?: MealType | null; createdAt?: Date }): Promise<MealAnalysis> {
     const id = this.generateId();
     const analysis: MealAnalysis = {
       id,
       userId: data.userId || null,
       imageUrl: data.imageUrl,
-      thumbnail: data.thumbnail || null,
+      thumbnail: data.thumbnail || data.thumbnails?.[0] || null,
+      thumbnails: data.thumbnails || (data.thumbnail ? [data.thumbnail] : []),
       nutritionData: data.nutritionData,
-      createdAt: new Date()
+      mealType: data.mealType ?? null,
+      createdAt: data.createdAt || new Date()
     };
 
     await this.db.collection('mealAnalyses').doc(id).set({
       ...analysis,
-      createdAt: admin.firestore.FieldValue.serverTimestamp()
+      createdAt: data.createdAt
+        ? admin.firestore.Timestamp.fromDate(data.createdAt)
+        : admin.firestore.FieldValue.serverTimestamp()
     });
 
     return analysis;
@@ -247,17 +458,7 @@ class FirestoreDatabase implements DatabaseService {
         .orderBy('createdAt', 'desc')
         .get();
 
-      return snapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          userId: data.userId,
-          imageUrl: data.imageUrl,
-          thumbnail: data.thumbnail || null,
-          nutritionData: data.nutritionData,
-          createdAt: data.createdAt?.toDate() || new Date()
-        };
-      });
+      return snapshot.docs.map(doc => this.toMealAnalysis(doc.id, doc.data()));
     } catch (error: any) {
       // If index not ready, fallback to no ordering (sort in memory)
       if (error.code === 9 || error.message?.includes('index')) {
@@ -266,17 +467,7 @@ class FirestoreDatabase implements DatabaseService {
           .where('userId', '==', userId)
           .get();
 
-        const meals = snapshot.docs.map(doc => {
-          const data = doc.data();
-          return {
-            id: doc.id,
-            userId: data.userId,
-            imageUrl: data.imageUrl,
-            thumbnail: data.thumbnail || null,
-            nutritionData: data.nutritionData,
-            createdAt: data.createdAt?.toDate() || new Date()
-          };
-        });
+        const meals = snapshot.docs.map(doc => this.toMealAnalysis(doc.id, doc.data()));
 
         // Sort in memory
         return meals.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
@@ -285,27 +476,66 @@ class FirestoreDatabase implements DatabaseService {
     }
   }
 
+  async queryMealAnalyses(query: MealQuery): Promise<MealPage> {
+    // Firestore takes the user, meal types and a range on the sort field; the
+    // remaining filters are checked on each batch. Search words are among
+    // them, since Firestore can't match part of a word the way SQL LIKE and
+    // the memory backend do. Meals without the sort field (legacy meals with
+    // no totals) are left out.
+    const field = query.sort === 'createdAt' ? 'createdAt' : `nutritionData.totals.${query.sort}`;
+    let base: FirebaseFirestore.Query = this.db.collection('mealAnalyses').where('userId', '==', query.userId);
+
+    if (query.mealTypes) {
+      base = base.where('mealType', 'in', query.mealTypes);
+    }
+    if (query.sort === 'createdAt') {
+      if (query.from) base = base.where('createdAt', '>=', admin.firestore.Timestamp.fromDate(query.from));
+      if (query.to) base = base.where('createdAt', '<', admin.firestore.Timestamp.fromDate(query.to));
+    } else {
+      const range = query.macros?.[query.sort];
+      if (range?.min !== undefined) base = base.where(field, '>=', range.min);
+      if (range?.max !== undefined) base = base.where(field, '<=', range.max);
+    }
+
+    base = base
+      .orderBy(field, query.order)
+      .orderBy(admin.firestore.FieldPath.documentId(), query.order);
+    if (query.cursor) {
+      const value = query.sort === 'createdAt' ? admin.firestore.Timestamp.fromMillis(query.cursor.value) : query.cursor.value;
+      base = base.startAfter(value, query.cursor.id);
+    }
+
+    // Read batches until there's one meal past the limit or no more meals
+    const batchSize = Math.max(query.limit + 1, 50);
+    const matching: MealAnalysis[] = [];
+    let batch = base.limit(batchSize);
+    while (matching.length <= query.limit) {
+      const snapshot = await batch.get();
+      for (const doc of snapshot.docs) {
+        const meal = this.toMealAnalysis(doc.id, doc.data());
+        if (matchesMealQuery(meal, query)) matching.push(meal);
+        if (matching.length > query.limit) break;
+      }
+      if (snapshot.size < batchSize) break;
+      batch = base.startAfter(snapshot.docs[snapshot.docs.length - 1]).limit(batchSize);
+    }
+
+    return toMealPage(matching, query);
+  }
+
   async findMealAnalysisById(id: string): Promise<MealAnalysis | null> {
     const doc = await this.db.collection('mealAnalyses').doc(id).get();
 
     if (!doc.exists) return null;
 
-    const data = doc.data()!;
-    return {
-      id: doc.id,
-      userId: data.userId,
-      imageUrl: data.imageUrl,
-      thumbnail: data.thumbnail || null,
-      nutritionData: data.nutritionData,
-      createdAt: data.createdAt?.toDate() || new Date()
-    };
+    return this.toMealAnalysis(doc.id, doc.data()!);
   }
 
   async deleteMealAnalysis(id: string): Promise<void> {
     await this.db.collection('mealAnalyses').doc(id).delete();
   }
 
-  async updateMealAnalysis(id: string, data: { nutritionData?: any; thumbnail?: string; createdAt?: Date }): Promise<MealAnalysis | null> {
+  async updateMealAnalysis(id: string, data: { nutritionData?: any; thumbnail?: string; mealType?: MealType | null; createdAt?: Date }): Promise<MealAnalysis | null> {
     const docRef = this.db.collection('mealAnalyses').doc(id);
     const doc = await docRef.get();
 
@@ -314,19 +544,25 @@ class FirestoreDatabase implements DatabaseService {
     const updateData: any = {};
     if (data.nutritionData) updateData.nutritionData = data.nutritionData;
     if (data.thumbnail) updateData.thumbnail = data.thumbnail;
+    if (data.mealType !== undefined) updateData.mealType = data.mealType;
     if (data.createdAt) updateData.createdAt = admin.firestore.Timestamp.fromDate(data.createdAt);
 
     await docRef.update(updateData);
 
     const updated = await docRef.get();
-    const updatedData = updated.data()!;
+    return this.toMealAnalysis(updated.id, updated.data()!);
+  }
+
+  private toMealAnalysis(id: string, data: FirebaseFirestore.DocumentData): MealAnalysis {
     return {
-      id: updated.id,
-      userId: updatedData.userId,
-      imageUrl: updatedData.imageUrl,
-      thumbnail: updatedData.thumbnail || null,
-      nutritionData: updatedData.nutritionData,
-      createdAt: updatedData.createdAt?.toDate() || new Date()
+      id,
+      userId: data.userId,
+      imageUrl: data.imageUrl,
+      thumbnail: data.thumbnail || null,
+      thumbnails: data.thumbnails || (data.thumbnail ? [data.thumbnail] : []),
+      nutritionData: data.nutritionData,
+      mealType: data.mealType || null,
+      createdAt: data.createdAt?.toDate() || new Date()
     };
   }
 
@@ -359,9 +595,17 @@ class FirestoreDatabase implements DatabaseService {
     if (snapshot.empty) return null;
 
     const doc = snapshot.docs[0];
-    const data = doc.data();
+    return this.toUserProfile(doc.id, doc.data());
+  }
+
+  async findAllUserProfiles(): Promise<UserProfile[]> {
+    const snapshot = await this.db.collection('userProfiles').get();
+    return snapshot.docs.map(doc => this.toUserProfile(doc.id, doc.data()));
+  }
+
+  private toUserProfile(id: string, data: FirebaseFirestore.DocumentData): UserProfile {
     return {
-      id: doc.id,
+      id,
       userId: data.userId,
       dietType: data.dietType,
       dailyCalorieGoal: data.dailyCalorieGoal,
@@ -371,11 +615,14 @@ class FirestoreDatabase implements DatabaseService {
       dailyFiberGoal: data.dailyFiberGoal || null,
       dailySugarLimit: data.dailySugarLimit || null,
       weight: data.weight || null,
+      goalWeight: data.goalWeight || null,
       height: data.height || null,
       age: data.age || null,
       gender: data.gender || null,
       activityLevel: data.activityLevel || null,
       dietaryRestrictions: data.dietaryRestrictions || [],
+      micronutrientLimits: data.micronutrientLimits || {},
+      timezone: data.timezone || DEFAULT_TIME_ZONE,
       createdAt: data.createdAt?.toDate() || new Date(),
       updatedAt: data.updatedAt?.toDate() || new Date()
     };
@@ -395,6 +642,25 @@ class FirestoreDatabase implements DatabaseService {
   }
 
   // Diet template operations
+  async createDietTemplate(data: Omit<DietTemplate, 'id' | 'createdAt' | 'updatedAt'>): Promise<DietTemplate> {
+    const id = this.generateId();
+    const now = new Date();
+    const template: DietTemplate = {
+      id,
+      ...data,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.db.collection('dietTemplates').doc(id).set({
+      ...template,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+
+    return template;
+  }
+
   async findDietTemplateByType(dietType: string): Promise<DietTemplate | null> {
     const snapshot = await this.db.collection('dietTemplates')
       .where('dietType', '==', dietType)
@@ -404,19 +670,51 @@ class FirestoreDatabase implements DatabaseService {
     if (snapshot.empty) return null;
 
     const doc = snapshot.docs[0];
-    const data = doc.data();
-    return {
-      id: doc.id,
-      ...data
-    } as DietTemplate;
+    return this.toDietTemplate(doc.id, doc.data());
+  }
+
+  async findDietTemplatesByUser(userId: string | null): Promise<DietTemplate[]> {
+    const snapshot = await this.db.collection('dietTemplates').where('userId', '==', userId).get();
+    return snapshot.docs
+      .map(doc => this.toDietTemplate(doc.id, doc.data()))
+      .sort((a, b) => a.name.localeCompare(b.name));
   }
 
   async findAllDietTemplates(): Promise<DietTemplate[]> {
     const snapshot = await this.db.collection('dietTemplates').get();
-    return snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data()
-    })) as DietTemplate[];
+    return snapshot.docs.map(doc => this.toDietTemplate(doc.id, doc.data()));
+  }
+
+  async updateDietTemplate(id: string, data: Partial<DietTemplateFields>): Promise<DietTemplate | null> {
+    const docRef = this.db.collection('dietTemplates').doc(id);
+    const doc = await docRef.get();
+
+    if (!doc.exists) return null;
+
+    await docRef.update({
+      ...data,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+
+    const updated = await docRef.get();
+    return this.toDietTemplate(updated.id, updated.data()!);
+  }
+
+  private toDietTemplate(id: string, data: FirebaseFirestore.DocumentData): DietTemplate {
+    return {
+      id,
+      ...data,
+      userId: data.userId ?? null,
+      fiberMinimum: data.fiberMinimum ?? null,
+      sugarMaximum: data.sugarMaximum ?? null,
+      rules: { ...DEFAULT_DIET_RULES, ...data.rules },
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date()
+    } as DietTemplate;
+  }
+
+  async deleteDietTemplate(id: string): Promise<void> {
+    await this.db.collection('dietTemplates').doc(id).delete();
   }
 
   // Daily progress operations
@@ -445,7 +743,7 @@ class FirestoreDatabase implements DatabaseService {
     return {
       id: docId,
       ...data,
-      createdAt: now,
+      createdAt: existing.exists ? existing.data()?.createdAt?.toDate() || now : now,
       updatedAt: now
     };
   }
@@ -461,6 +759,8 @@ class FirestoreDatabase implements DatabaseService {
     return {
       id: doc.id,
       ...data,
+      totalMicronutrients: data.totalMicronutrients || {},
+      micronutrientLimits: data.micronutrientLimits || {},
       date: data.date?.toDate() || date,
       createdAt: data.createdAt?.toDate() || new Date(),
       updatedAt: data.updatedAt?.toDate() || new Date()
@@ -480,6 +780,8 @@ class FirestoreDatabase implements DatabaseService {
       return {
         id: doc.id,
         ...data,
+        totalMicronutrients: data.totalMicronutrients || {},
+        micronutrientLimits: data.micronutrientLimits || {},
         date: data.date?.toDate() || new Date(),
         createdAt: data.createdAt?.toDate() || new Date(),
         updatedAt: data.updatedAt?.toDate() || new Date()
@@ -487,6 +789,11 @@ class FirestoreDatabase implements DatabaseService {
     });
   }
 
+  async deleteDailyProgress(userId: string, date: Date): Promise<void> {
+    const dateStr = date.toISOString().split('T')[0];
+    await this.db.collection('dailyProgress').doc(`${userId}_${dateStr}`).delete();
+  }
+
   // Weekly summary operations
   async createWeeklySummary(data: Omit<WeeklySummary, 'id' | 'createdAt'>): Promise<WeeklySummary> {
     const weekStr = data.weekStart.toISOString().split('T')[0];
@@ -553,15 +860,7 @@ class FirestoreDatabase implements DatabaseService {
       .limit(limit)
       .get();
 
-    return snapshot.docs.map(doc => {
-      const data = doc.data();
-      return {
-        id: doc.id,
-        ...data,
-        timestamp: data.timestamp?.toDate() || new Date(),
-        createdAt: data.createdAt?.toDate() || new Date()
-      } as KetoneLog;
-    });
+    return snapshot.docs.map(doc => this.toKetoneLog(doc.id, doc.data()));
   }
 
   async findRecentKetoneLog(userId: string): Promise<KetoneLog | null> {
@@ -569,25 +868,469 @@ class FirestoreDatabase implements DatabaseService {
     return logs.length > 0 ? logs[0] : null;
   }
 
+  async findKetoneLogById(id: string): Promise<KetoneLog | null> {
+    const doc = await this.db.collection('ketoneLogs').doc(id).get();
+    return doc.exists ? this.toKetoneLog(doc.id, doc.data()!) : null;
+  }
+
+  private toKetoneLog(id: string, data: FirebaseFirestore.DocumentData): KetoneLog {
+    return {
+      id,
+      ...data,
+      timestamp: data.timestamp?.toDate() || new Date(),
+      createdAt: data.createdAt?.toDate() || new Date()
+    } as KetoneLog;
+  }
+
   async deleteKetoneLog(id: string): Promise<void> {
     await this.db.collection('ketoneLogs').doc(id).delete();
   }
 
+  // Body measurement operations
+  async createBodyMeasurement(data: Omit<BodyMeasurement, 'id' | 'createdAt' | 'updatedAt'>): Promise<BodyMeasurement> {
+    const id = this.generateId();
+    const now = new Date();
+    const measurement: BodyMeasurement = {
+      id,
+      ...data,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.db.collection('bodyMeasurements').doc(id).set({
+      ...measurement,
+      measuredAt: admin.firestore.Timestamp.fromDate(data.measuredAt),
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+
+    return measurement;
+  }
+
+  async findBodyMeasurementsByUser(userId: string, since?: Date): Promise<BodyMeasurement[]> {
+    let query = this.db.collection('bodyMeasurements').where('userId', '==', userId);
+    if (since) {
+      query = query.where('measuredAt', '>=', admin.firestore.Timestamp.fromDate(since));
+    }
+    const snapshot = await query.orderBy('measuredAt', 'asc').get();
+
+    return snapshot.docs.map(doc => this.toBodyMeasurement(doc.id, doc.data()));
+  }
+
+  async findBodyMeasurementById(id: string): Promise<BodyMeasurement | null> {
+    const doc = await this.db.collection('bodyMeasurements').doc(id).get();
+    return doc.exists ? this.toBodyMeasurement(doc.id, doc.data()!) : null;
+  }
+
+  async updateBodyMeasurement(id: string, data: Partial<Pick<BodyMeasurement, 'measuredAt' | 'weight' | 'waist' | 'bodyFat' | 'notes'>>): Promise<BodyMeasurement | null> {
+    const docRef = this.db.collection('bodyMeasurements').doc(id);
+    const doc = await docRef.get();
+
+    if (!doc.exists) return null;
+
+    const updateData: any = { updatedAt: admin.firestore.FieldValue.serverTimestamp() };
+    for (const field of ['weight', 'waist', 'bodyFat', 'notes'] as const) {
+      if (data[field] !== undefined) updateData[field] = data[field];
+    }
+    if (data.measuredAt) updateData.measuredAt = admin.firestore.Timestamp.fromDate(data.measuredAt);
+
+    await docRef.update(updateData);
+
+    const updated = await docRef.get();
+    return this.toBodyMeasurement(updated.id, updated.data()!);
+  }
+
+  private toBodyMeasurement(id: string, data: FirebaseFirestore.DocumentData): BodyMeasurement {
+    return {
+      id,
+      userId: data.userId,
+      measuredAt: data.measuredAt?.toDate() || new Date(),
+      weight: data.weight ?? null,
+      waist: data.waist ?? null,
+      bodyFat: data.bodyFat ?? null,
+      notes: data.notes ?? null,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date()
+    };
+  }
+
+  async deleteBodyMeasurement(id: string): Promise<void> {
+    await this.db.collection('bodyMeasurements').doc(id).delete();
+  }
+
+  // Refresh token operations
+  async createRefreshToken(data: Omit<RefreshToken, 'revokedAt' | 'createdAt'>): Promise<RefreshToken> {
+    const token: RefreshToken = {
+      ...data,
+      revokedAt: null,
+      createdAt: new Date()
+    };
+
+    await this.db.collection('refreshTokens').doc(data.id).set({
+      userId: data.userId,
+      expiresAt: admin.firestore.Timestamp.fromDate(data.expiresAt),
+      revokedAt: null,
+      createdAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+
+    return token;
+  }
+
+  async findRefreshToken(id: string): Promise<RefreshToken | null> {
+    const doc = await this.db.collection('refreshTokens').doc(id).get();
+    return doc.exists ? this.toRefreshToken(doc.id, doc.data()!) : null;
+  }
+
+  async revokeRefreshToken(id: string): Promise<boolean> {
+    const ref = this.db.collection('refreshTokens').doc(id);
+
+    // In a transaction so only one of two concurrent rotations wins
+    return this.db.runTransaction(async transaction => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists || doc.data()?.revokedAt) return false;
+      transaction.update(ref, { revokedAt: admin.firestore.Timestamp.now() });
+      return true;
+    });
+  }
+
+  async revokeRefreshTokensByUser(userId: string): Promise<number> {
+    const snapshot = await this.db.collection('refreshTokens')
+      .where('userId', '==', userId)
+      .where('revokedAt', '==', null)
+      .get();
+
+    const revokedAt = admin.firestore.Timestamp.now();
+    for (let i = 0; i < snapshot.docs.length; i += 500) {
+      const batch = this.db.batch();
+      for (const doc of snapshot.docs.slice(i, i + 500)) {
+        batch.update(doc.ref, { revokedAt });
+      }
+      await batch.commit();
+    }
+
+    return snapshot.size;
+  }
+
+  async deleteRefreshToken(id: string): Promise<void> {
+    await this.db.collection('refreshTokens').doc(id).delete();
+  }
+
+  async deleteExpiredRefreshTokens(before: Date): Promise<number> {
+    let deleted = 0;
+
+    while (true) {
+      const snapshot = await this.db.collection('refreshTokens')
+        .where('expiresAt', '<', admin.firestore.Timestamp.fromDate(before))
+        .limit(500)
+        .get();
+      if (snapshot.empty) break;
+
+      const batch = this.db.batch();
+      snapshot.docs.forEach(doc => batch.delete(doc.ref));
+      await batch.commit();
+      deleted += snapshot.size;
+    }
+
+    return deleted;
+  }
+
+  // Email token operations
+  async createEmailToken(data: Omit<EmailToken, 'createdAt'>): Promise<EmailToken> {
+    const token: EmailToken = { ...data, createdAt: new Date() };
+
+    await this.db.collection('emailTokens').doc(data.id).set({
+      userId: data.userId,
+      purpose: data.purpose,
+      email: data.email,
+      expiresAt: admin.firestore.Timestamp.fromDate(data.expiresAt),
+      createdAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+
+    return token;
+  }
+
+  async consumeEmailToken(id: string): Promise<EmailToken | null> {
+    const ref = this.db.collection('emailTokens').doc(id);
+
+    // In a transaction so a token can only be used once
+    return this.db.runTransaction(async transaction => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists) return null;
+      transaction.delete(ref);
+
+      const data = doc.data()!;
+      return {
+        id,
+        userId: data.userId,
+        purpose: data.purpose,
+        email: data.email,
+        expiresAt: data.expiresAt?.toDate() || new Date(0),
+        createdAt: data.createdAt?.toDate() || new Date()
+      };
+    });
+  }
+
+  async deleteEmailTokensByUser(userId: string, purpose: EmailTokenPurpose): Promise<void> {
+    const snapshot = await this.db.collection('emailTokens')
+      .where('userId', '==', userId)
+      .where('purpose', '==', purpose)
+      .get();
+
+    const batch = this.db.batch();
+    snapshot.docs.forEach(doc => batch.delete(doc.ref));
+    await batch.commit();
+  }
+
+  async deleteExpiredEmailTokens(before: Date): Promise<number> {
+    let deleted = 0;
+
+    while (true) {
+      const snapshot = await this.db.collection('emailTokens')
+        .where('expiresAt', '<', admin.firestore.Timestamp.fromDate(before))
+        .limit(500)
+        .get();
+      if (snapshot.empty) break;
+
+      const batch = this.db.batch();
+      snapshot.docs.forEach(doc => batch.delete(doc.ref));
+      await batch.commit();
+      deleted += snapshot.size;
+    }
+
+    return deleted;
+  }
+
+  // OAuth identity operations
+  async createOAuthIdentity(data: Omit<OAuthIdentity, 'id' | 'createdAt'>): Promise<OAuthIdentity> {
+    const identity: OAuthIdentity = { ...data, id: `${data.provider}:${data.subject}`, createdAt: new Date() };
+
+    // create() fails if the identity is already linked
+    await this.db.collection('oauthIdentities').doc(identity.id).create({
+      userId: data.userId,
+      provider: data.provider,
+      subject: data.subject,
+      email: data.email,
+      createdAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+
+    return identity;
+  }
+
+  async findOAuthIdentity(provider: string, subject: string): Promise<OAuthIdentity | null> {
+    const doc = await this.db.collection('oauthIdentities').doc(`${provider}:${subject}`).get();
+    return doc.exists ? this.toOAuthIdentity(doc.id, doc.data()!) : null;
+  }
+
+  async findOAuthIdentitiesByUser(userId: string): Promise<OAuthIdentity[]> {
+    const snapshot = await this.db.collection('oauthIdentities')
+      .where('userId', '==', userId)
+      .get();
+
+    return snapshot.docs.map(doc => this.toOAuthIdentity(doc.id, doc.data()));
+  }
+
+  // Usage counter operations
+  async incrementUsage(userId: string, metric: string, date: string, amount: number = 1): Promise<number> {
+    const ref = this.db.collection('usageCounters').doc(`${userId}:${metric}:${date}`);
+
+    return this.db.runTransaction(async transaction => {
+      const doc = await transaction.get(ref);
+      const count = (doc.exists ? doc.data()!.count : 0) + amount;
+      transaction.set(ref, { userId, metric, date, count });
+      return count;
+    });
+  }
+
+  async findUsageByUser(userId: string, date: string): Promise<UsageCounter[]> {
+    const snapshot = await this.db.collection('usageCounters')
+      .where('userId', '==', userId)
+      .where('date', '==', date)
+      .get();
+
+    return snapshot.docs.map(doc => {
+      const data = doc.data();
+      return { userId: data.userId, metric: data.metric, date: data.date, count: data.count };
+    });
+  }
+
+  async deleteUsageBefore(date: string): Promise<number> {
+    let deleted = 0;
+
+    while (true) {
+      const snapshot = await this.db.collection('usageCounters')
+        .where('date', '<', date)
+        .limit(500)
+        .get();
+      if (snapshot.empty) break;
+
+      const batch = this.db.batch();
+      snapshot.docs.forEach(doc => batch.delete(doc.ref));
+      await batch.commit();
+      deleted += snapshot.size;
+    }
+
+    return deleted;
+  }
+
+  // Food product catalog operations
+  async upsertFoodProducts(products: Omit<FoodProduct, 'updatedAt'>[]): Promise<number> {
+    // Firestore batches are limited to 500 writes
+    for (let i = 0; i < products.length; i += 500) {
+      const batch = this.db.batch();
+      for (const product of products.slice(i, i + 500)) {
+        batch.set(this.db.collection('foodProducts').doc(product.barcode), {
+          ...product,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+      }
+      await batch.commit();
+    }
+    return products.length;
+  }
+
+  async findFoodProductByBarcode(barcode: string): Promise<FoodProduct | null> {
+    const doc = await this.db.collection('foodProducts').doc(barcode).get();
+    if (!doc.exists) return null;
+
+    const data = doc.data()!;
+    return {
+      ...data,
+      barcode: doc.id,
+      updatedAt: data.updatedAt?.toDate() || new Date()
+    } as FoodProduct;
+  }
+
+  // Reference food operations
+  async upsertReferenceFoods(foods: Omit<ReferenceFood, 'updatedAt'>[]): Promise<number> {
+    for (let i = 0; i < foods.length; i += 500) {
+      const batch = this.db.batch();
+      for (const food of foods.slice(i, i + 500)) {
+        batch.set(this.db.collection('referenceFoods').doc(food.id), {
+          ...food,
+          // Firestore has no substring search; queries match on these tokens
+          keywords: searchTokens(food.description),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+      }
+      await batch.commit();
+    }
+    return foods.length;
+  }
+
+  async findReferenceFoodById(id: string): Promise<ReferenceFood | null> {
+    const doc = await this.db.collection('referenceFoods').doc(id).get();
+    if (!doc.exists) return null;
+    return this.toReferenceFood(doc.id, doc.data()!);
+  }
+
+  async searchReferenceFoods(query: string, limit: number = 20): Promise<ReferenceFood[]> {
+    const tokens = searchTokens(query);
+    if (tokens.length === 0) return [];
+
+    // Narrow by the first token, then require the rest in memory
+    const snapshot = await this.db.collection('referenceFoods')
+      .where('keywords', 'array-contains', tokens[0])
+      .limit(200)
+      .get();
+
+    return snapshot.docs
+      .map(doc => this.toReferenceFood(doc.id, doc.data()))
+      .filter(food => matchesAllTokens(food.description, tokens))
+      // Shorter descriptions are the more generic foods ("Broccoli, raw")
+      .sort((a, b) => a.description.length - b.description.length || a.description.localeCompare(b.description))
+      .slice(0, limit);
+  }
+
+  private toRefreshToken(id: string, data: FirebaseFirestore.DocumentData): RefreshToken {
+    return {
+      id,
+      userId: data.userId,
+      expiresAt: data.expiresAt?.toDate() || new Date(0),
+      revokedAt: data.revokedAt?.toDate() || null,
+      createdAt: data.createdAt?.toDate() || new Date()
+    };
+  }
+
+  private toOAuthIdentity(id: string, data: FirebaseFirestore.DocumentData): OAuthIdentity {
+    return {
+      id,
+      userId: data.userId,
+      provider: data.provider,
+      subject: data.subject,
+      email: data.email,
+      createdAt: data.createdAt?.toDate() || new Date()
+    };
+  }
+
+  private toReferenceFood(id: string, data: FirebaseFirestore.DocumentData): ReferenceFood {
+    const { keywords: _keywords, ...rest } = data;
+    return {
+      ...rest,
+      id,
+      updatedAt: data.updatedAt?.toDate() || new Date()
+    } as ReferenceFood;
+  }
+
   async disconnect(): Promise<void> {
     // Firestore connections are managed by Firebase Admin SDK
     // No explicit disconnect needed
   }
 }
 
+export type DatabaseProvider = 'firestore' | 'sqlite' | 'postgres' | 'memory';
+
+/**
+ * Resolve which backend to use.
+ * DATABASE_PROVIDER wins when set; otherwise Firestore if configured,
+ * then PostgreSQL if DATABASE_URL is set, then a local SQLite file.
+ */
+export function resolveDatabaseProvider(): DatabaseProvider {
+  const configured = process.env.DATABASE_PROVIDER?.toLowerCase();
+  if (configured) {
+    if (!['firestore', 'sqlite', 'postgres', 'memory'].includes(configured)) {
+      throw new Error(`Unknown DATABASE_PROVIDER "${configured}". Use firestore, sqlite, postgres or memory.`);
+    }
+    return configured as DatabaseProvider;
+  }
+
+  if (isFirebaseEnabled()) return 'firestore';
+  if (process.env.DATABASE_URL) return 'postgres';
+  return 'sqlite';
+}
+
 /**
- * Get the database service (Firestore)
+ * Get the database service for the configured provider
  */
 export function getDatabaseService(): DatabaseService {
-  if (!isFirebaseEnabled()) {
-    throw new Error('Firebase is not configured. Set FIREBASE_PROJECT_ID environment variable.');
+  const provider = resolveDatabaseProvider();
+
+  switch (provider) {
+    case 'firestore':
+      if (!isFirebaseEnabled()) {
+        throw new Error('Firebase is not configured. Set FIREBASE_PROJECT_ID environment variable.');
+      }
+      console.log('🔥 Using Firestore database');
+      return new FirestoreDatabase();
+
+    case 'postgres': {
+      const connectionString = process.env.DATABASE_URL;
+      if (!connectionString) {
+        throw new Error('PostgreSQL is not configured. Set DATABASE_URL environment variable.');
+      }
+      console.log('🐘 Using PostgreSQL database');
+      return new SqlDatabase(() => createPostgresDriver(connectionString));
+    }
+
+    case 'sqlite': {
+      const filename = process.env.SQLITE_PATH || './data/nutrition.db';
+      console.log(`🗄️ Using SQLite database at ${filename}`);
+      return new SqlDatabase(() => createSqliteDriver(filename));
+    }
+
+    case 'memory':
+      console.log('🧪 Using in-memory database');
+      return new InMemoryDatabase();
   }
-  console.log('🔥 Using Firestore database');
-  return new FirestoreDatabase();
 }
 
 // Singleton instance
@@ -599,3 +1342,10 @@ export function getDb(): DatabaseService {
   }
   return dbInstance;
 }
+
+/**
+ * Replace the singleton (tests inject an InMemoryDatabase here)
+ */
+export function setDb(db: DatabaseService | null): void {
+  dbInstance = db;
+}
@@ -3,6 +3,28 @@
  * Handles diet-specific compliance calculations and recommendations
  */
 
+import type { MicronutrientKey, MicronutrientValues } from '../types/nutrition.js';
+import { getMicronutrient, isMicronutrientKey } from '../utils/micronutrients.js';
+import { calculateBmr, ACTIVITY_MULTIPLIERS } from './calorieTargets.js';
+import type { Gender, ActivityLevel } from './calorieTargets.js';
+
+/**
+ * Diet-specific handling beyond the ratios and tolerances
+ */
+export interface DietRules {
+  fatIsFuel: boolean;              // Fat over the goal isn't flagged, but under 70% of it is (keto)
+  countNetCarbs: boolean;          // Progress also shows carbs minus fiber
+  netCarbsMaximum: number | null;  // g; net carbs over this are flagged
+  mealIdeas: string[];             // Suggested whenever there's room left for a meal
+}
+
+export const DEFAULT_DIET_RULES: DietRules = {
+  fatIsFuel: false,
+  countNetCarbs: false,
+  netCarbsMaximum: null,
+  mealIdeas: []
+};
+
 export interface DietTemplate {
   dietType: string;
   name: string;
@@ -19,6 +41,7 @@ export interface DietTemplate {
   fatTolerance: number;
   fiberMinimum?: number;
   sugarMaximum?: number;
+  rules: DietRules;
 }
 
 export interface MacroGoals {
@@ -28,6 +51,7 @@ export interface MacroGoals {
   fat: number;
   fiber?: number;
   sugar?: number;
+  micronutrientLimits?: MicronutrientValues;
 }
 
 export interface MacroActuals {
@@ -37,6 +61,15 @@ export interface MacroActuals {
   fat: number;
   fiber?: number;
   sugar?: number;
+  micronutrients?: MicronutrientValues;
+}
+
+export interface MicronutrientCompliance {
+  nutrient: MicronutrientKey;
+  actual: number;
+  limit: number;
+  kind: 'limit' | 'target';
+  met: boolean;
 }
 
 export interface ComplianceResult {
@@ -46,6 +79,7 @@ export interface ComplianceResult {
   fatCompliance: number;
   caloriesCompliance: number;
   overallCompliance: number;
+  micronutrients: MicronutrientCompliance[];
   issues: string[];
   suggestions: string[];
 }
@@ -67,7 +101,8 @@ export const DIET_TEMPLATES: Record<string, DietTemplate> = {
     proteinTolerance: 30,
     fatTolerance: 30,
     fiberMinimum: 20,      // Important for gut health on keto
-    sugarMaximum: 10       // Very strict on sugar
+    sugarMaximum: 10,      // Very strict on sugar
+    rules: { ...DEFAULT_DIET_RULES, fatIsFuel: true, countNetCarbs: true }
   },
   paleo: {
     dietType: 'paleo',
@@ -84,7 +119,8 @@ export const DIET_TEMPLATES: Record<string, DietTemplate> = {
     proteinTolerance: 25,
     fatTolerance: 30,
     fiberMinimum: 30,
-    sugarMaximum: 30       // No added sugars, but natural sugars ok
+    sugarMaximum: 30,      // No added sugars, but natural sugars ok
+    rules: DEFAULT_DIET_RULES
   },
   vegan: {
     dietType: 'vegan',
@@ -101,7 +137,8 @@ export const DIET_TEMPLATES: Record<string, DietTemplate> = {
     proteinTolerance: 30,  // More flexible on protein since plant-based is harder
     fatTolerance: 30,
     fiberMinimum: 35,      // High fiber typical of vegan diet
-    sugarMaximum: 50
+    sugarMaximum: 50,
+    rules: DEFAULT_DIET_RULES
   },
   mediterranean: {
     dietType: 'mediterranean',
@@ -118,7 +155,8 @@ export const DIET_TEMPLATES: Record<string, DietTemplate> = {
     proteinTolerance: 30,
     fatTolerance: 30,
     fiberMinimum: 30,
-    sugarMaximum: 40
+    sugarMaximum: 40,
+    rules: DEFAULT_DIET_RULES
   },
   lowcarb: {
     dietType: 'lowcarb',
@@ -135,7 +173,8 @@ export const DIET_TEMPLATES: Record<string, DietTemplate> = {
     proteinTolerance: 30,
     fatTolerance: 30,
     fiberMinimum: 25,
-    sugarMaximum: 25
+    sugarMaximum: 25,
+    rules: DEFAULT_DIET_RULES
   },
   balanced: {
     dietType: 'balanced',
@@ -152,7 +191,8 @@ export const DIET_TEMPLATES: Record<string, DietTemplate> = {
     proteinTolerance: 35,
     fatTolerance: 35,
     fiberMinimum: 25,
-    sugarMaximum: 50
+    sugarMaximum: 50,
+    rules: DEFAULT_DIET_RULES
   }
 };
 
@@ -176,7 +216,7 @@ export function calculateMacroCompliance(
   // Check for issues
   if (actual.carbs > goals.carbs * (1 + template.carbsTolerance / 100)) {
     issues.push(`Carbs are ${Math.round(((actual.carbs / goals.carbs) - 1) * 100)}% over your goal`);
-    if (template.dietType === 'keto') {
+    if (template.rules.fatIsFuel) {
       suggestions.push('Consider reducing carbs to stay in ketosis');
     } else {
       suggestions.push('Try swapping some carbs for vegetables or protein');
@@ -188,17 +228,23 @@ export function calculateMacroCompliance(
     suggestions.push('Add lean protein like chicken, fish, eggs, or legumes');
   }
 
-  if (actual.fat > goals.fat * (1 + template.fatTolerance / 100) && template.dietType !== 'keto') {
+  if (actual.fat > goals.fat * (1 + template.fatTolerance / 100) && !template.rules.fatIsFuel) {
     issues.push(`Fat is ${Math.round(((actual.fat / goals.fat) - 1) * 100)}% over your goal`);
     suggestions.push('Consider reducing cooking oils and fatty meats');
   }
 
-  // Special handling for keto - check if under fat goal
-  if (template.dietType === 'keto' && actual.fat < goals.fat * 0.7) {
+  // Fat is the main fuel on keto-style diets, so check it isn't too low
+  if (template.rules.fatIsFuel && actual.fat < goals.fat * 0.7) {
     issues.push('Fat intake is low for keto');
     suggestions.push('Add healthy fats like avocado, olive oil, or nuts');
   }
 
+  const { netCarbsMaximum } = template.rules;
+  if (netCarbsMaximum !== null && calculateNetCarbs(actual.carbs, actual.fiber ?? 0) > netCarbsMaximum) {
+    issues.push(`Net carbs are over your ${netCarbsMaximum}g limit`);
+    suggestions.push('Swap starchy foods for leafy greens or other low-carb vegetables');
+  }
+
   // Check fiber and sugar if available
   if (actual.fiber !== undefined && template.fiberMinimum !== undefined) {
     if (actual.fiber < template.fiberMinimum * 0.7) {
@@ -214,6 +260,8 @@ export function calculateMacroCompliance(
     }
   }
 
+  const micronutrients = checkMicronutrients(actual.micronutrients || {}, goals.micronutrientLimits || {}, issues, suggestions);
+
   // Calculate overall compliance (weighted average)
   const overallCompliance = (
     caloriesCompliance * 0.25 +
@@ -232,11 +280,46 @@ export function calculateMacroCompliance(
     fatCompliance,
     caloriesCompliance,
     overallCompliance,
+    micronutrients,
     issues,
     suggestions
   };
 }
 
+/**
+ * Check intake against the user's micronutrient limits and targets.
+ * Nutrients without a reported intake are skipped, since photo estimates
+ * often leave them out.
+ */
+function checkMicronutrients(
+  actual: MicronutrientValues,
+  limits: MicronutrientValues,
+  issues: string[],
+  suggestions: string[]
+): MicronutrientCompliance[] {
+  const results: MicronutrientCompliance[] = [];
+
+  for (const [key, limit] of Object.entries(limits)) {
+    const intake = actual[key as MicronutrientKey];
+    if (!isMicronutrientKey(key) || limit === undefined || intake === undefined) continue;
+
+    const { label, unit, kind, suggestion } = getMicronutrient(key);
+    const met = kind === 'limit' ? intake <= limit : intake >= limit;
+    results.push({ nutrient: key, actual: intake, limit, kind, met });
+
+    if (kind === 'limit' && !met) {
+      issues.push(`${label} is over your ${limit}${unit} limit`);
+      suggestions.push(suggestion);
+    } else if (kind === 'target' && intake < limit * 0.7) {
+      // Same 70% threshold as fiber
+      issues.push(`${label} intake is low`);
+      suggestions.push(suggestion);
+    }
+  }
+
+  return results;
+}
+
 /**
  * Calculate compliance for a single macro (0-1 scale)
  */
@@ -261,42 +344,33 @@ function calculateSingleCompliance(actual: number, goal: number, tolerancePercen
 
 /**
  * Calculate recommended macro goals based on user profile
- * Uses Harris-Benedict equation for BMR and adjusts for activity level
+ * Maintenance calories from the Harris-Benedict BMR adjusted for activity level;
+ * calculateCalorieTargets covers other formulas and weight-change rates
  */
 export function calculateRecommendedGoals(
   weight: number,      // kg
   height: number,      // cm
   age: number,
-  gender: 'male' | 'female',
-  activityLevel: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active',
+  gender: Gender,
+  activityLevel: ActivityLevel,
   template: DietTemplate
 ): MacroGoals {
-  // Calculate BMR using Harris-Benedict equation
-  let bmr: number;
-  if (gender === 'male') {
-    bmr = 88.362 + (13.397 * weight) + (4.799 * height) - (5.677 * age);
-  } else {
-    bmr = 447.593 + (9.247 * weight) + (3.098 * height) - (4.330 * age);
-  }
+  const { bmr } = calculateBmr('harris-benedict', { weight, height, age, gender });
+  const tdee = Math.round(bmr * (ACTIVITY_MULTIPLIERS[activityLevel] || 1.55));
 
-  // Apply activity multiplier
-  const activityMultipliers: Record<string, number> = {
-    sedentary: 1.2,
-    light: 1.375,
-    moderate: 1.55,
-    active: 1.725,
-    very_active: 1.9
-  };
-
-  const tdee = Math.round(bmr * (activityMultipliers[activityLevel] || 1.55));
+  return goalsForCalories(tdee, template);
+}
 
-  // Calculate macros based on diet ratios
-  const protein = Math.round((tdee * template.proteinRatio / 100) / 4); // 4 cal per gram
-  const carbs = Math.round((tdee * template.carbsRatio / 100) / 4);     // 4 cal per gram
-  const fat = Math.round((tdee * template.fatRatio / 100) / 9);         // 9 cal per gram
+/**
+ * Split a daily calorie goal into macro goals using the diet's ratios
+ */
+export function goalsForCalories(calories: number, template: DietTemplate): MacroGoals {
+  const protein = Math.round((calories * template.proteinRatio / 100) / 4); // 4 cal per gram
+  const carbs = Math.round((calories * template.carbsRatio / 100) / 4);     // 4 cal per gram
+  const fat = Math.round((calories * template.fatRatio / 100) / 9);         // 9 cal per gram
 
   return {
-    calories: tdee,
+    calories,
     protein,
     carbs,
     fat,
@@ -313,10 +387,10 @@ export function getNextMealSuggestions(
   remainingProtein: number,
   remainingCarbs: number,
   remainingFat: number,
-  dietType: string
+  template: DietTemplate
 ): string[] {
   const suggestions: string[] = [];
-  const template = DIET_TEMPLATES[dietType] || DIET_TEMPLATES.balanced;
+  const { dietType } = template;
 
   // If over budget
   if (remainingCalories < 0) {
@@ -331,7 +405,7 @@ export function getNextMealSuggestions(
   }
 
   // Specific diet suggestions
-  if (dietType === 'keto') {
+  if (template.rules.fatIsFuel) {
     if (remainingCarbs > 10) {
       suggestions.push('You have some carb allowance left - consider some low-carb vegetables');
     }
@@ -362,6 +436,8 @@ export function getNextMealSuggestions(
     }
   }
 
+  suggestions.push(...template.rules.mealIdeas);
+
   return suggestions;
 }
 
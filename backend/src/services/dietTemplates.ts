@@ -0,0 +1,363 @@
+/**
+ * Diet Templates
+ * The built-in templates plus ones stored in the database: custom templates a
+ * user makes (from scratch or by cloning another), and global templates an
+ * admin loads with the diet-templates script, which every user can choose.
+ * Profiles refer to a template by its dietType; one that no longer exists
+ * reads as Balanced. Built-in and global templates can't be edited through
+ * the API, only cloned.
+ */
+
+import { randomUUID } from 'crypto';
+import { getDb } from './database.js';
+import type { DietTemplate as StoredDietTemplate, DietTemplateFields } from './database.js';
+import { DIET_TEMPLATES, DEFAULT_DIET_RULES } from './dietCompliance.js';
+import type { DietTemplate, DietRules } from './dietCompliance.js';
+
+export type DietTemplateSource = 'built-in' | 'global' | 'custom';
+
+export interface DietTemplateSummary extends DietTemplate {
+  source: DietTemplateSource;
+}
+
+export interface DietTemplateInput {
+  name?: string;
+  description?: string;
+  proteinRatio?: number;      // % of calories
+  carbsRatio?: number;
+  fatRatio?: number;
+  baselineCalories?: number;
+  carbsTolerance?: number;    // % either side of the goal
+  proteinTolerance?: number;
+  fatTolerance?: number;
+  fiberMinimum?: number | null;
+  sugarMaximum?: number | null;
+  rules?: Partial<DietRules>;
+}
+
+// Custom templates get generated diet types, so they never clash with built-in or global ones
+const CUSTOM_PREFIX = 'custom-';
+
+// Diet types an admin picks for global templates
+const GLOBAL_DIET_TYPE = /^[a-z][a-z0-9-]{1,39}$/;
+
+export const MAX_TEMPLATES_PER_USER = 20;
+
+const MAX_NAME_LENGTH = 60;
+const MAX_DESCRIPTION_LENGTH = 300;
+const MAX_MEAL_IDEAS = 10;
+const MAX_MEAL_IDEA_LENGTH = 120;
+
+const LIMITS = {
+  proteinRatio: { min: 0, max: 100, unit: '%' },
+  carbsRatio: { min: 0, max: 100, unit: '%' },
+  fatRatio: { min: 0, max: 100, unit: '%' },
+  baselineCalories: { min: 1000, max: 6000, unit: 'kcal' },
+  carbsTolerance: { min: 5, max: 100, unit: '%' },
+  proteinTolerance: { min: 5, max: 100, unit: '%' },
+  fatTolerance: { min: 5, max: 100, unit: '%' },
+  fiberMinimum: { min: 0, max: 100, unit: 'g' },
+  sugarMaximum: { min: 0, max: 300, unit: 'g' },
+  netCarbsMaximum: { min: 0, max: 300, unit: 'g' }
+} as const;
+
+/**
+ * A submitted template is missing a field, out of range or malformed
+ */
+export class DietTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DietTemplateError';
+  }
+}
+
+/**
+ * The user already has as many custom templates as allowed
+ */
+export class DietTemplateLimitError extends Error {
+  constructor() {
+    super(`You can have at most ${MAX_TEMPLATES_PER_USER} custom diet templates`);
+    this.name = 'DietTemplateLimitError';
+  }
+}
+
+function isBuiltIn(dietType: string): boolean {
+  return Object.prototype.hasOwnProperty.call(DIET_TEMPLATES, dietType);
+}
+
+/**
+ * A stored template in the form compliance and goal calculations take
+ */
+export function toDietTemplate(stored: StoredDietTemplate): DietTemplate {
+  return {
+    dietType: stored.dietType,
+    name: stored.name,
+    description: stored.description,
+    proteinRatio: stored.proteinRatio,
+    carbsRatio: stored.carbsRatio,
+    fatRatio: stored.fatRatio,
+    baselineCalories: stored.baselineCalories,
+    baselineProtein: stored.baselineProtein,
+    baselineCarbs: stored.baselineCarbs,
+    baselineFat: stored.baselineFat,
+    carbsTolerance: stored.carbsTolerance,
+    proteinTolerance: stored.proteinTolerance,
+    fatTolerance: stored.fatTolerance,
+    fiberMinimum: stored.fiberMinimum ?? undefined,
+    sugarMaximum: stored.sugarMaximum ?? undefined,
+    rules: stored.rules
+  };
+}
+
+function toFields(template: DietTemplate): DietTemplateFields {
+  return {
+    name: template.name,
+    description: template.description,
+    proteinRatio: template.proteinRatio,
+    carbsRatio: template.carbsRatio,
+    fatRatio: template.fatRatio,
+    baselineCalories: template.baselineCalories,
+    baselineProtein: template.baselineProtein,
+    baselineCarbs: template.baselineCarbs,
+    baselineFat: template.baselineFat,
+    carbsTolerance: template.carbsTolerance,
+    proteinTolerance: template.proteinTolerance,
+    fatTolerance: template.fatTolerance,
+    fiberMinimum: template.fiberMinimum ?? null,
+    sugarMaximum: template.sugarMaximum ?? null,
+    rules: structuredClone(template.rules)
+  };
+}
+
+function summarize(stored: StoredDietTemplate): DietTemplateSummary {
+  return { ...toDietTemplate(stored), source: stored.userId === null ? 'global' : 'custom' };
+}
+
+function readNumber(name: keyof typeof LIMITS, value: unknown): number {
+  const { min, max, unit } = LIMITS[name];
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new DietTemplateError(`${name} must be a number from ${min} to ${max} ${unit}`);
+  }
+  return value;
+}
+
+function readText(name: string, value: unknown, maxLength: number): string {
+  if (typeof value !== 'string') {
+    throw new DietTemplateError(`${name} must be a string`);
+  }
+  const text = value.trim();
+  if (text.length > maxLength) {
+    throw new DietTemplateError(`${name} must be at most ${maxLength} characters`);
+  }
+  return text;
+}
+
+function parseRules(input: unknown, base: DietRules): DietRules {
+  if (input === undefined) return base;
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new DietTemplateError('rules must be an object');
+  }
+
+  const rules = input as Partial<Record<keyof DietRules, unknown>>;
+  for (const flag of ['fatIsFuel', 'countNetCarbs'] as const) {
+    if (rules[flag] !== undefined && typeof rules[flag] !== 'boolean') {
+      throw new DietTemplateError(`rules.${flag} must be true or false`);
+    }
+  }
+
+  let mealIdeas = base.mealIdeas;
+  if (rules.mealIdeas !== undefined) {
+    if (!Array.isArray(rules.mealIdeas) || rules.mealIdeas.length > MAX_MEAL_IDEAS) {
+      throw new DietTemplateError(`rules.mealIdeas must be a list of at most ${MAX_MEAL_IDEAS} ideas`);
+    }
+    mealIdeas = rules.mealIdeas
+      .map(idea => readText('Each meal idea', idea, MAX_MEAL_IDEA_LENGTH))
+      .filter(idea => idea.length > 0);
+  }
+
+  return {
+    fatIsFuel: (rules.fatIsFuel as boolean | undefined) ?? base.fatIsFuel,
+    countNetCarbs: (rules.countNetCarbs as boolean | undefined) ?? base.countNetCarbs,
+    netCarbsMaximum: rules.netCarbsMaximum === undefined
+      ? base.netCarbsMaximum
+      : rules.netCarbsMaximum === null ? null : readNumber('netCarbsMaximum', rules.netCarbsMaximum),
+    mealIdeas
+  };
+}
+
+/**
+ * Check a submitted template. Fields left out keep their existing values, or
+ * for a new template the Balanced ones; a new template needs a name. The
+ * baseline macros follow from the baseline calories and the ratios.
+ */
+export function parseDietTemplateInput(input: DietTemplateInput, existing?: DietTemplateFields): DietTemplateFields {
+  const base = existing ?? toFields({ ...DIET_TEMPLATES.balanced, rules: DEFAULT_DIET_RULES });
+
+  const name = readText('name', input.name ?? existing?.name ?? '', MAX_NAME_LENGTH);
+  if (!name) {
+    throw new DietTemplateError('name is required');
+  }
+  const description = readText('description', input.description ?? base.description, MAX_DESCRIPTION_LENGTH);
+
+  const value = <K extends keyof DietTemplateInput & keyof DietTemplateFields>(key: K) =>
+    input[key] === undefined ? base[key] : input[key];
+
+  const proteinRatio = readNumber('proteinRatio', value('proteinRatio'));
+  const carbsRatio = readNumber('carbsRatio', value('carbsRatio'));
+  const fatRatio = readNumber('fatRatio', value('fatRatio'));
+  if (Math.abs(proteinRatio + carbsRatio + fatRatio - 100) > 0.5) {
+    throw new DietTemplateError('proteinRatio, carbsRatio and fatRatio must add up to 100');
+  }
+  // Calorie targets split what protein doesn't cover between carbs and fat
+  if (carbsRatio + fatRatio <= 0) {
+    throw new DietTemplateError('carbsRatio and fatRatio can\'t both be 0');
+  }
+
+  const baselineCalories = Math.round(readNumber('baselineCalories', value('baselineCalories')));
+  const fiberMinimum = value('fiberMinimum');
+  const sugarMaximum = value('sugarMaximum');
+
+  return {
+    name,
+    description,
+    proteinRatio,
+    carbsRatio,
+    fatRatio,
+    baselineCalories,
+    baselineProtein: Math.round((baselineCalories * proteinRatio / 100) / 4),
+    baselineCarbs: Math.round((baselineCalories * carbsRatio / 100) / 4),
+    baselineFat: Math.round((baselineCalories * fatRatio / 100) / 9),
+    carbsTolerance: readNumber('carbsTolerance', value('carbsTolerance')),
+    proteinTolerance: readNumber('proteinTolerance', value('proteinTolerance')),
+    fatTolerance: readNumber('fatTolerance', value('fatTolerance')),
+    fiberMinimum: fiberMinimum === null ? null : readNumber('fiberMinimum', fiberMinimum),
+    sugarMaximum: sugarMaximum === null ? null : readNumber('sugarMaximum', sugarMaximum),
+    rules: parseRules(input.rules, base.rules)
+  };
+}
+
+/**
+ * The template a profile's dietType names, or Balanced when it doesn't exist
+ */
+export async function resolveDietTemplate(dietType: string): Promise<DietTemplate> {
+  if (isBuiltIn(dietType)) return DIET_TEMPLATES[dietType];
+
+  const stored = await getDb().findDietTemplateByType(dietType);
+  return stored ? toDietTemplate(stored) : DIET_TEMPLATES.balanced;
+}
+
+/**
+ * A template the user may choose: built-in, global or their own. Null when
+ * there's no such template or it's someone else's.
+ */
+export async function findAvailableDietTemplate(dietType: string, userId: string | null): Promise<DietTemplateSummary | null> {
+  if (isBuiltIn(dietType)) return { ...DIET_TEMPLATES[dietType], source: 'built-in' };
+
+  const stored = await getDb().findDietTemplateByType(dietType);
+  if (!stored || (stored.userId !== null && stored.userId !== userId)) return null;
+  return summarize(stored);
+}
+
+/**
+ * Built-in, then global, then the user's own templates
+ */
+export async function listDietTemplates(userId: string | null): Promise<DietTemplateSummary[]> {
+  const db = getDb();
+  const [global, own] = await Promise.all([
+    db.findDietTemplatesByUser(null),
+    userId ? db.findDietTemplatesByUser(userId) : Promise.resolve([])
+  ]);
+
+  return [
+    ...Object.values(DIET_TEMPLATES).map(template => ({ ...template, source: 'built-in' as const })),
+    ...global.map(summarize),
+    ...own.map(summarize)
+  ];
+}
+
+async function checkTemplateLimit(userId: string): Promise<void> {
+  const own = await getDb().findDietTemplatesByUser(userId);
+  if (own.length >= MAX_TEMPLATES_PER_USER) {
+    throw new DietTemplateLimitError();
+  }
+}
+
+/**
+ * Save a new custom template for the user
+ */
+export async function createDietTemplate(userId: string, input: DietTemplateInput): Promise<DietTemplateSummary> {
+  const fields = parseDietTemplateInput(input);
+  await checkTemplateLimit(userId);
+
+  const template = await getDb().createDietTemplate({ ...fields, userId, dietType: `${CUSTOM_PREFIX}${randomUUID()}` });
+  console.log(`[DietTemplates] Created ${template.dietType} for user ${userId}`);
+  return summarize(template);
+}
+
+/**
+ * Copy any template the user may choose into a custom one they can edit.
+ * Null when the source isn't available to them.
+ */
+export async function cloneDietTemplate(userId: string, dietType: string): Promise<DietTemplateSummary | null> {
+  const source = await findAvailableDietTemplate(dietType, userId);
+  if (!source) return null;
+  await checkTemplateLimit(userId);
+
+  const fields = toFields(source);
+  const name = `${source.name} (copy)`.slice(0, MAX_NAME_LENGTH);
+  const template = await getDb().createDietTemplate({ ...fields, name, userId, dietType: `${CUSTOM_PREFIX}${randomUUID()}` });
+  console.log(`[DietTemplates] Cloned ${dietType} as ${template.dietType} for user ${userId}`);
+  return summarize(template);
+}
+
+/**
+ * Apply changes to a stored template. Profiles using it keep the goals they
+ * have; compliance and suggestions follow the new ratios and rules.
+ */
+export async function updateDietTemplate(stored: StoredDietTemplate, input: DietTemplateInput): Promise<DietTemplateSummary | null> {
+  const fields = parseDietTemplateInput(input, stored);
+  const updated = await getDb().updateDietTemplate(stored.id, fields);
+  return updated ? summarize(updated) : null;
+}
+
+/**
+ * Delete a stored template and move profiles that used it back to Balanced
+ */
+export async function deleteDietTemplate(stored: StoredDietTemplate): Promise<void> {
+  const db = getDb();
+  await db.deleteDietTemplate(stored.id);
+
+  const profiles = stored.userId === null
+    ? await db.findAllUserProfiles()
+    : [await db.findUserProfileByUserId(stored.userId)];
+  for (const profile of profiles) {
+    if (profile?.dietType === stored.dietType) {
+      await db.updateUserProfile(profile.userId, { dietType: 'balanced' });
+    }
+  }
+  console.log(`[DietTemplates] Deleted ${stored.dietType}`);
+}
+
+/**
+ * Create or update a global template under a diet type the admin chooses
+ */
+export async function saveGlobalDietTemplate(
+  dietType: string,
+  input: DietTemplateInput
+): Promise<{ template: DietTemplateSummary; created: boolean }> {
+  if (!GLOBAL_DIET_TYPE.test(dietType) || dietType.startsWith(CUSTOM_PREFIX) || isBuiltIn(dietType)) {
+    throw new DietTemplateError(
+      `dietType "${dietType}" must be lowercase letters, digits and dashes, not start with "${CUSTOM_PREFIX}" and not be a built-in diet`
+    );
+  }
+
+  const db = getDb();
+  const existing = await db.findDietTemplateByType(dietType);
+  if (existing) {
+    const updated = await db.updateDietTemplate(existing.id, parseDietTemplateInput(input, existing));
+    return { template: summarize(updated!), created: false };
+  }
+
+  const template = await db.createDietTemplate({ ...parseDietTemplateInput(input), userId: null, dietType });
+  return { template: summarize(template), created: true };
+}
@@ -0,0 +1,245 @@
+/**
+ * Energy Expenditure
+ * Estimates how many calories a user actually burns from what they log:
+ * over a window of days, intake minus the energy stored or lost as the weight
+ * trend moved is what was spent. Several overlapping windows are blended,
+ * favouring the most recent, and the estimate replaces the static formula as
+ * the basis for proposed calorie and macro goals once there is enough data.
+ */
+
+import { getDb } from './database.js';
+import type { DailyProgress, UserProfile } from './database.js';
+import { calculateWeightTrend } from './bodyMeasurements.js';
+import type { TrendPoint } from './bodyMeasurements.js';
+import { calculateRecommendedGoals, goalsForCalories } from './dietCompliance.js';
+import { resolveDietTemplate } from './dietTemplates.js';
+import { KCAL_PER_KG } from './calorieTargets.js';
+import type { Gender, ActivityLevel } from './calorieTargets.js';
+import type { DietTemplate, MacroGoals } from './dietCompliance.js';
+import { DEFAULT_TIME_ZONE, localDay, addDays, toDateKey } from '../utils/timezone.js';
+
+export const WINDOW_DAYS = 14;
+
+// Windows end this many days apart, so consecutive windows overlap by half
+const WINDOW_STEP_DAYS = 7;
+const WINDOW_COUNT = 4;
+
+// A window needs intake logged on this many of its days, and this many weigh-ins
+const MIN_LOGGED_DAYS = 10;
+const MIN_WEIGH_INS = 4;
+
+// The trend is carried forward at most this many days past the last weigh-in
+const MAX_TREND_CARRY_DAYS = 3;
+
+// Estimates outside this range mean meals went unlogged, not a real expenditure
+const PLAUSIBLE_TDEE = { min: 1000, max: 6000 };
+
+// Rates (kg/week) proposed goals aim for when a goal weight is set
+const LOSS_RATE = 0.5;
+const GAIN_RATE = 0.25;
+
+const MIN_CALORIE_GOAL = 1200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CalorieGoals = Pick<MacroGoals, 'calories' | 'protein' | 'carbs' | 'fat'>;
+
+export interface EstimateWindow {
+  start: string;           // YYYY-MM-DD, first day
+  end: string;             // YYYY-MM-DD, last day
+  loggedDays: number;
+  averageIntake: number;   // kcal/day over the logged days
+  weightChange: number;    // kg, trend at the end minus the start
+  tdee: number;            // kcal/day
+}
+
+export interface EnergyEstimate {
+  tdee: number;
+  confidence: 'low' | 'medium' | 'high';
+  windows: EstimateWindow[];    // Newest first
+}
+
+export interface AdaptiveGoals {
+  estimate: EnergyEstimate | null;
+  formulaTdee: number | null;       // From the profile's metrics, for comparison
+  direction: 'lose' | 'maintain' | 'gain';
+  dailyAdjustment: number;          // kcal/day added to the estimate to move toward the goal weight
+  currentGoals: CalorieGoals;
+  proposedGoals: CalorieGoals | null;
+}
+
+/**
+ * There isn't enough logged intake and weight yet to propose goals
+ */
+export class AdaptiveGoalsUnavailableError extends Error {
+  constructor() {
+    super(`Log meals on at least ${MIN_LOGGED_DAYS} of ${WINDOW_DAYS} days and weigh in at least ${MIN_WEIGH_INS} times to estimate your energy expenditure`);
+    this.name = 'AdaptiveGoalsUnavailableError';
+  }
+}
+
+const dayTime = (date: string): number => new Date(`${date}T00:00:00.000Z`).getTime();
+
+// The trend weight on the morning of a day, between weigh-ins read off the line joining them
+function trendAt(points: TrendPoint[], time: number): number | null {
+  if (points.length === 0 || time < dayTime(points[0].date)) return null;
+
+  for (let i = points.length - 1; i >= 0; i--) {
+    const pointTime = dayTime(points[i].date);
+    if (pointTime > time) continue;
+    if (i === points.length - 1) {
+      return time - pointTime <= MAX_TREND_CARRY_DAYS * DAY_MS ? points[i].trend : null;
+    }
+    const next = points[i + 1];
+    const share = (time - pointTime) / (dayTime(next.date) - pointTime);
+    return points[i].trend + share * (next.trend - points[i].trend);
+  }
+  return null;
+}
+
+/**
+ * Back-solve daily expenditure from logged intake and the weight trend, over
+ * windows ending yesterday (today's meals are still being logged). Days with
+ * no meals logged are left out of the intake average rather than counted as
+ * zero. Returns null until at least one window has enough data.
+ */
+export function estimateEnergyExpenditure(
+  intake: Pick<DailyProgress, 'date' | 'totalCalories' | 'mealCount'>[],
+  trend: TrendPoint[],
+  today: Date
+): EnergyEstimate | null {
+  const caloriesByDay = new Map<number, number>();
+  for (const day of intake) {
+    if (day.mealCount > 0) caloriesByDay.set(day.date.getTime(), day.totalCalories);
+  }
+
+  const windows: EstimateWindow[] = [];
+  const weights: number[] = [];
+  for (let i = 0; i < WINDOW_COUNT; i++) {
+    const end = addDays(today, -1 - i * WINDOW_STEP_DAYS);
+    const start = addDays(end, -(WINDOW_DAYS - 1));
+
+    const logged: number[] = [];
+    for (let day = 0; day < WINDOW_DAYS; day++) {
+      const calories = caloriesByDay.get(addDays(start, day).getTime());
+      if (calories !== undefined) logged.push(calories);
+    }
+
+    const morningAfter = addDays(end, 1).getTime();
+    const weighIns = trend.filter(point => dayTime(point.date) >= start.getTime() && dayTime(point.date) <= morningAfter);
+    const startTrend = trendAt(trend, start.getTime());
+    const endTrend = trendAt(trend, morningAfter);
+    if (logged.length < MIN_LOGGED_DAYS || weighIns.length < MIN_WEIGH_INS || startTrend === null || endTrend === null) {
+      continue;
+    }
+
+    const averageIntake = logged.reduce((sum, calories) => sum + calories, 0) / logged.length;
+    const weightChange = endTrend - startTrend;
+    const tdee = averageIntake - (weightChange * KCAL_PER_KG) / WINDOW_DAYS;
+    if (tdee < PLAUSIBLE_TDEE.min || tdee > PLAUSIBLE_TDEE.max) continue;
+
+    windows.push({
+      start: toDateKey(start),
+      end: toDateKey(end),
+      loggedDays: logged.length,
+      averageIntake: Math.round(averageIntake),
+      weightChange: Math.round(weightChange * 100) / 100,
+      tdee: Math.round(tdee)
+    });
+    weights.push(WINDOW_COUNT - i);
+  }
+
+  if (windows.length === 0) return null;
+
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const tdee = windows.reduce((sum, window, i) => sum + window.tdee * weights[i], 0) / totalWeight;
+
+  return {
+    tdee: Math.round(tdee),
+    confidence: windows.length >= 3 ? 'high' : windows.length === 2 ? 'medium' : 'low',
+    windows
+  };
+}
+
+function formulaTdeeFor(profile: UserProfile, template: DietTemplate): number | null {
+  const { weight, height, age, gender, activityLevel } = profile;
+  if (!weight || !height || !age || !gender || !activityLevel) return null;
+  // Stored as free text; unknown values count as unspecified gender and moderate activity
+  return calculateRecommendedGoals(weight, height, age, gender as Gender, activityLevel as ActivityLevel, template).calories;
+}
+
+async function buildAdaptiveGoals(profile: UserProfile, now: Date): Promise<AdaptiveGoals> {
+  const db = getDb();
+  const timeZone = profile.timezone || DEFAULT_TIME_ZONE;
+  const today = localDay(now, timeZone);
+  const firstDay = addDays(today, -((WINDOW_COUNT - 1) * WINDOW_STEP_DAYS + WINDOW_DAYS));
+
+  const [intake, measurements, template] = await Promise.all([
+    db.findDailyProgressByUserAndDateRange(profile.userId, firstDay, addDays(today, -1)),
+    db.findBodyMeasurementsByUser(profile.userId),
+    resolveDietTemplate(profile.dietType)
+  ]);
+  const trend = calculateWeightTrend(measurements, timeZone, profile.goalWeight);
+  const estimate = estimateEnergyExpenditure(intake, trend.points, today);
+
+  let direction: AdaptiveGoals['direction'] = 'maintain';
+  if (trend.remaining !== null && !trend.goalReached) {
+    direction = trend.remaining < 0 ? 'lose' : 'gain';
+  }
+  const dailyAdjustment = direction === 'lose'
+    ? -Math.round((LOSS_RATE * KCAL_PER_KG) / 7)
+    : direction === 'gain' ? Math.round((GAIN_RATE * KCAL_PER_KG) / 7) : 0;
+
+  let proposedGoals: CalorieGoals | null = null;
+  if (estimate) {
+    const calories = Math.max(MIN_CALORIE_GOAL, Math.round((estimate.tdee + dailyAdjustment) / 10) * 10);
+    const { protein, carbs, fat } = goalsForCalories(calories, template);
+    proposedGoals = { calories, protein, carbs, fat };
+  }
+
+  return {
+    estimate,
+    formulaTdee: formulaTdeeFor(profile, template),
+    direction,
+    dailyAdjustment,
+    currentGoals: {
+      calories: profile.dailyCalorieGoal,
+      protein: profile.dailyProteinGoal,
+      carbs: profile.dailyCarbsGoal,
+      fat: profile.dailyFatGoal
+    },
+    proposedGoals
+  };
+}
+
+/**
+ * The user's estimated expenditure and the goals it suggests, or null without a profile
+ */
+export async function getAdaptiveGoals(userId: string, now: Date = new Date()): Promise<AdaptiveGoals | null> {
+  const profile = await getDb().findUserProfileByUserId(userId);
+  return profile ? buildAdaptiveGoals(profile, now) : null;
+}
+
+/**
+ * Replace the profile's calorie and macro goals with the proposed ones.
+ * The proposal is worked out again here rather than taken from the client.
+ */
+export async function acceptAdaptiveGoals(userId: string, now: Date = new Date()): Promise<UserProfile | null> {
+  const db = getDb();
+  const profile = await db.findUserProfileByUserId(userId);
+  if (!profile) return null;
+
+  const { proposedGoals } = await buildAdaptiveGoals(profile, now);
+  if (!proposedGoals) {
+    throw new AdaptiveGoalsUnavailableError();
+  }
+
+  const updated = await db.updateUserProfile(userId, {
+    dailyCalorieGoal: proposedGoals.calories,
+    dailyProteinGoal: proposedGoals.protein,
+    dailyCarbsGoal: proposedGoals.carbs,
+    dailyFatGoal: proposedGoals.fat
+  });
+  console.log(`[EnergyExpenditure] Applied adaptive goals for user ${userId}: ${proposedGoals.calories} kcal`);
+  return updated;
+}
@@ -38,7 +38,7 @@ export function initializeFirebase() {
       console.log('✅ Firebase initialized successfully');
       return { app: firebaseApp, db };
     } else {
-      console.log('⚠️ Firebase not configured - using PostgreSQL');
+      console.log('⚠️ Firebase not configured - using SQL or in-memory database');
       return { app: null, db: null };
     }
   } catch (error) {
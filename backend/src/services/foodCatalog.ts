@@ -0,0 +1,235 @@
+/**
+ * Food Product Catalog Service
+ * Imports packaged-food catalogs (Open Food Facts dumps) into the database
+ * and turns barcode lookups into meal entries with exact label nutrition.
+ */
+
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { extname } from 'path';
+import { getDb } from './database.js';
+import type { DatabaseService, FoodProduct, MealAnalysis } from './database.js';
+import { updateDailyProgress, resolveMealType } from './progressTracking.js';
+import type { FoodItem, NutrientValues, NutritionPayload } from '../types/nutrition.js';
+import { barcodeCandidates } from '../utils/barcode.js';
+import { MICRONUTRIENTS, fromGrams } from '../utils/micronutrients.js';
+import type { MealType } from '../utils/mealTypes.js';
+
+export class ProductNotFoundError extends Error {
+  constructor(public readonly barcode: string) {
+    super(`No product found for barcode ${barcode}`);
+    this.name = 'ProductNotFoundError';
+  }
+}
+
+export type CatalogProduct = Omit<FoodProduct, 'updatedAt'>;
+
+export interface ImportSummary {
+  imported: number;
+  skipped: number;
+}
+
+const IMPORT_BATCH_SIZE = 1000;
+const KJ_PER_KCAL = 4.184;
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+function toText(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed === '' ? null : trimmed;
+}
+
+/**
+ * Map an Open Food Facts product to a catalog entry.
+ * Accepts both JSONL records (values under `nutriments`) and CSV rows
+ * (flat `*_100g` columns). Returns null for products without a barcode,
+ * a name or per-100g energy.
+ */
+export function parseOpenFoodFactsProduct(record: Record<string, unknown>): CatalogProduct | null {
+  const nutriments = (typeof record.nutriments === 'object' && record.nutriments !== null
+    ? record.nutriments
+    : record) as Record<string, unknown>;
+
+  const barcode = toText(record.code)?.replace(/\D/g, '');
+  const name = toText(record.product_name) || toText(record.generic_name);
+  if (!barcode || !name) return null;
+
+  const kcal = toNumber(nutriments['energy-kcal_100g']);
+  const kj = toNumber(nutriments['energy-kj_100g']) ?? toNumber(nutriments['energy_100g']);
+  const calories = kcal ?? (kj !== null ? kj / KJ_PER_KCAL : null);
+  if (calories === null) return null;
+
+  const nutrientsPer100g: NutrientValues = {
+    calories: round(calories),
+    protein: round(toNumber(nutriments['proteins_100g']) ?? 0),
+    carbs: round(toNumber(nutriments['carbohydrates_100g']) ?? 0),
+    fat: round(toNumber(nutriments['fat_100g']) ?? 0),
+    fiber: round(toNumber(nutriments['fiber_100g']) ?? 0),
+    sugar: round(toNumber(nutriments['sugars_100g']) ?? 0)
+  };
+
+  // Open Food Facts reports every micronutrient in grams
+  for (const nutrient of MICRONUTRIENTS) {
+    const grams = toNumber(nutriments[nutrient.openFoodFactsField]);
+    if (grams !== null) nutrientsPer100g[nutrient.key] = round(fromGrams(nutrient.key, grams));
+  }
+
+  const brands = toText(record.brands);
+
+  return {
+    barcode,
+    name,
+    brand: brands ? brands.split(',')[0].trim() : null,
+    servingSize: toText(record.serving_size),
+    servingQuantity: toNumber(record.serving_quantity),
+    nutrientsPer100g,
+    source: 'openfoodfacts'
+  };
+}
+
+/**
+ * Stream an Open Food Facts dump into the catalog.
+ * `.jsonl`/`.json` files hold one product per line; `.csv`/`.tsv` files are
+ * the tab-separated export with a header row.
+ */
+export async function importOpenFoodFacts(
+  filePath: string,
+  db: DatabaseService = getDb(),
+  onProgress?: (summary: ImportSummary) => void
+): Promise<ImportSummary> {
+  const extension = extname(filePath).toLowerCase();
+  const isDelimited = extension === '.csv' || extension === '.tsv';
+  const lines = createInterface({ input: createReadStream(filePath, 'utf8'), crlfDelay: Infinity });
+
+  const summary: ImportSummary = { imported: 0, skipped: 0 };
+  let header: string[] | null = null;
+  let batch: CatalogProduct[] = [];
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    summary.imported += await db.upsertFoodProducts(batch);
+    batch = [];
+    onProgress?.({ ...summary });
+  };
+
+  for await (const line of lines) {
+    if (line.trim() === '') continue;
+
+    let record: Record<string, unknown>;
+    if (isDelimited) {
+      const columns = line.split('\t');
+      if (!header) {
+        header = columns;
+        continue;
+      }
+      record = Object.fromEntries(header.map((name, index) => [name, columns[index]]));
+    } else {
+      try {
+        record = JSON.parse(line);
+      } catch {
+        summary.skipped++;
+        continue;
+      }
+    }
+
+    const product = parseOpenFoodFactsProduct(record);
+    if (!product) {
+      summary.skipped++;
+      continue;
+    }
+
+    batch.push(product);
+    if (batch.length >= IMPORT_BATCH_SIZE) {
+      await flush();
+    }
+  }
+
+  await flush();
+  return summary;
+}
+
+/**
+ * Find a product, trying the 12- and 13-digit forms of UPC codes
+ */
+export async function findProductByBarcode(barcode: string): Promise<FoodProduct | null> {
+  const db = getDb();
+  for (const candidate of barcodeCandidates(barcode)) {
+    const product = await db.findFoodProductByBarcode(candidate);
+    if (product) return product;
+  }
+  return null;
+}
+
+/**
+ * Nutrition for a number of servings of a product.
+ * Products without a known serving size are measured in 100 g servings.
+ */
+export function productNutrition(product: FoodProduct, servings: number): NutritionPayload {
+  const gramsPerServing = product.servingQuantity ?? 100;
+  const servingSize = product.servingQuantity ? (product.servingSize || `${gramsPerServing} g`) : '100 g';
+  const factor = (gramsPerServing / 100) * servings;
+
+  const nutrition = {} as NutrientValues;
+  for (const [key, value] of Object.entries(product.nutrientsPer100g) as Array<[keyof NutrientValues, number]>) {
+    nutrition[key] = round(value * factor);
+  }
+
+  const food: FoodItem = {
+    name: product.brand ? `${product.brand} ${product.name}` : product.name,
+    portion: servings === 1 ? servingSize : `${servings} × ${servingSize}`,
+    nutrition,
+    // Values come from the product's label data, not an estimate
+    confidence: 1
+  };
+
+  return { foods: [food], totals: { ...nutrition } };
+}
+
+/**
+ * Look up a barcode and log it as a meal for the user
+ */
+export async function logBarcodeMeal(input: {
+  userId: string;
+  barcode: string;
+  servings: number;
+  mealType?: MealType;
+}): Promise<{ meal: MealAnalysis; product: FoodProduct }> {
+  const product = await findProductByBarcode(input.barcode);
+  if (!product) {
+    throw new ProductNotFoundError(input.barcode);
+  }
+
+  const db = getDb();
+  const meal = await db.createMealAnalysis({
+    userId: input.userId,
+    imageUrl: '',
+    mealType: await resolveMealType(input.userId, new Date(), input.mealType),
+    nutritionData: {
+      ...productNutrition(product, input.servings),
+      barcode: {
+        code: product.barcode,
+        servings: input.servings,
+        source: product.source
+      }
+    }
+  });
+  console.log(`[Foods] Logged barcode ${product.barcode} for user ${input.userId}`);
+
+  try {
+    await updateDailyProgress(input.userId, meal.createdAt);
+  } catch (progressError) {
+    console.error('Failed to update daily progress:', progressError);
+    // Continue - progress tracking is not critical
+  }
+
+  return { meal, product };
+}
@@ -0,0 +1,319 @@
+/**
+ * Food Reference Service
+ * Imports USDA FoodData Central CSVs as reference foods and reconciles
+ * model-identified foods against them: each item's portion is converted
+ * to grams and its macros are recomputed from the matched reference.
+ */
+
+import { createReadStream, existsSync } from 'fs';
+import { createInterface } from 'readline';
+import { join } from 'path';
+import { getDb } from './database.js';
+import type { DatabaseService, ReferenceFood } from './database.js';
+import type { FoodItem, NutrientValues, NutritionData, NutritionPayload, RepairStep } from '../types/nutrition.js';
+import type { PortionMeasure } from '../utils/portions.js';
+import { portionToGrams } from '../utils/portions.js';
+import { parseCsvLine } from '../utils/csv.js';
+import { searchTokens, matchesAllWords } from '../utils/foodSearch.js';
+import { sumFoods } from '../utils/nutritionValidation.js';
+import { MICRONUTRIENTS } from '../utils/micronutrients.js';
+
+export type ReferenceFoodInput = Omit<ReferenceFood, 'updatedAt'>;
+
+export interface UsdaImportOptions {
+  dataTypes?: string[];
+  onProgress?: (imported: number) => void;
+}
+
+// Generic foods; branded_food is better served by the barcode catalog
+const DEFAULT_DATA_TYPES = ['foundation_food', 'sr_legacy_food', 'survey_fndds_food'];
+
+// FoodData Central nutrient ids, in order of preference; micronutrient ids live in utils/micronutrients.ts
+const USDA_NUTRIENTS: Record<keyof NutritionData | 'fiber' | 'sugar', number[]> = {
+  calories: [1008, 2047, 2048],
+  protein: [1003],
+  carbs: [1005, 1050],
+  fat: [1004, 1085],
+  fiber: [1079],
+  sugar: [2000, 1063]
+};
+
+const NUTRIENT_IDS = new Set([
+  ...Object.values(USDA_NUTRIENTS).flat(),
+  ...MICRONUTRIENTS.flatMap(nutrient => nutrient.usdaIds)
+]);
+const IMPORT_BATCH_SIZE = 1000;
+
+// Macros that reconciliation replaces and reports; micronutrients are filled in from the reference silently
+const RECONCILED_KEYS = ['calories', 'protein', 'carbs', 'fat', 'fiber', 'sugar'] as const;
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Stream a CSV file as records keyed by header name
+ */
+async function* readCsv(filePath: string): AsyncGenerator<Record<string, string>> {
+  const lines = createInterface({ input: createReadStream(filePath, 'utf8'), crlfDelay: Infinity });
+  let header: string[] | null = null;
+
+  for await (const line of lines) {
+    if (line.trim() === '') continue;
+    const fields = parseCsvLine(line);
+    if (!header) {
+      header = fields;
+      continue;
+    }
+    yield Object.fromEntries(header.map((name, index) => [name, fields[index] ?? '']));
+  }
+}
+
+/**
+ * Import a FoodData Central CSV download (the unzipped directory containing
+ * food.csv, food_nutrient.csv and optionally food_portion.csv,
+ * measure_unit.csv and food_category.csv).
+ */
+export async function importUsdaFoodData(
+  directory: string,
+  db: DatabaseService = getDb(),
+  options: UsdaImportOptions = {}
+): Promise<{ imported: number; skipped: number }> {
+  const dataTypes = new Set(options.dataTypes || DEFAULT_DATA_TYPES);
+  const file = (name: string) => join(directory, name);
+
+  if (!existsSync(file('food.csv')) || !existsSync(file('food_nutrient.csv'))) {
+    throw new Error(`${directory} must contain food.csv and food_nutrient.csv`);
+  }
+
+  const categories = new Map<string, string>();
+  if (existsSync(file('food_category.csv'))) {
+    for await (const row of readCsv(file('food_category.csv'))) {
+      categories.set(row.id, row.description);
+    }
+  }
+
+  const units = new Map<string, string>();
+  if (existsSync(file('measure_unit.csv'))) {
+    for await (const row of readCsv(file('measure_unit.csv'))) {
+      units.set(row.id, row.name);
+    }
+  }
+
+  const foods = new Map<string, { description: string; dataType: string; category: string | null }>();
+  for await (const row of readCsv(file('food.csv'))) {
+    if (!dataTypes.has(row.data_type)) continue;
+    foods.set(row.fdc_id, {
+      description: row.description,
+      dataType: row.data_type,
+      category: categories.get(row.food_category_id) || null
+    });
+  }
+
+  const nutrients = new Map<string, Map<number, number>>();
+  for await (const row of readCsv(file('food_nutrient.csv'))) {
+    const nutrientId = parseInt(row.nutrient_id, 10);
+    if (!foods.has(row.fdc_id) || !NUTRIENT_IDS.has(nutrientId)) continue;
+    const amount = parseFloat(row.amount);
+    if (!Number.isFinite(amount)) continue;
+    if (!nutrients.has(row.fdc_id)) nutrients.set(row.fdc_id, new Map());
+    nutrients.get(row.fdc_id)!.set(nutrientId, amount);
+  }
+
+  const portions = new Map<string, PortionMeasure[]>();
+  if (existsSync(file('food_portion.csv'))) {
+    for await (const row of readCsv(file('food_portion.csv'))) {
+      if (!foods.has(row.fdc_id)) continue;
+      const gramWeight = parseFloat(row.gram_weight);
+      if (!(gramWeight > 0)) continue;
+
+      // SR Legacy leaves the unit "undetermined" and puts it in the modifier ("cup, chopped")
+      const unitName = units.get(row.measure_unit_id);
+      const unit = unitName && unitName !== 'undetermined'
+        ? unitName
+        : (row.modifier || row.portion_description || 'serving').split(/[\s,]+/)[0];
+
+      const measure: PortionMeasure = {
+        unit,
+        amount: parseFloat(row.amount) || 1,
+        gramWeight,
+        description: [row.portion_description, row.modifier].filter(Boolean).join(' ') || undefined
+      };
+      if (!portions.has(row.fdc_id)) portions.set(row.fdc_id, []);
+      portions.get(row.fdc_id)!.push(measure);
+    }
+  }
+
+  let imported = 0;
+  let skipped = 0;
+  let batch: ReferenceFoodInput[] = [];
+
+  for (const [id, food] of foods) {
+    const values = nutrients.get(id);
+    const pick = (ids: number[]) => ids.map(nutrientId => values?.get(nutrientId)).find(value => value !== undefined);
+
+    const calories = pick(USDA_NUTRIENTS.calories);
+    if (calories === undefined) {
+      skipped++;
+      continue;
+    }
+
+    const nutrientsPer100g = {} as NutrientValues;
+    for (const [key, ids] of Object.entries(USDA_NUTRIENTS) as Array<[keyof typeof USDA_NUTRIENTS, number[]]>) {
+      nutrientsPer100g[key] = round(pick(ids) ?? 0);
+    }
+    // Micronutrients are only stored when the food lists them
+    for (const nutrient of MICRONUTRIENTS) {
+      const value = pick(nutrient.usdaIds);
+      if (value !== undefined) nutrientsPer100g[nutrient.key] = round(value);
+    }
+
+    batch.push({
+      id,
+      description: food.description,
+      category: food.category,
+      dataType: food.dataType,
+      nutrientsPer100g,
+      portions: portions.get(id) || [],
+      source: 'usda'
+    });
+
+    if (batch.length >= IMPORT_BATCH_SIZE) {
+      imported += await db.upsertReferenceFoods(batch);
+      batch = [];
+      options.onProgress?.(imported);
+    }
+  }
+
+  if (batch.length > 0) {
+    imported += await db.upsertReferenceFoods(batch);
+    options.onProgress?.(imported);
+  }
+
+  return { imported, skipped };
+}
+
+// Leading words of a model's food name that say how it was prepared or cut
+// rather than what it is; only these are dropped when looking for a match
+const PREPARATION_WORDS = new Set([
+  'steamed', 'grilled', 'fried', 'baked', 'roasted', 'boiled', 'poached', 'scrambled', 'sauteed', 'toasted',
+  'cooked', 'raw', 'sliced', 'chopped', 'diced', 'mashed', 'small', 'medium', 'large'
+]);
+
+// Search results checked for a whole-word match
+const MATCH_CANDIDATES = 25;
+
+// A reference value this many times above or below the model's calories is
+// more likely a wrong match than a better estimate
+const MAX_CALORIE_FACTOR = 2;
+// Differences this small (kcal) are accepted whatever the factor
+const CALORIE_SLACK = 25;
+
+/**
+ * Nutrient values for a weight of a reference food
+ */
+export function nutrientsForGrams(food: ReferenceFood, grams: number): NutrientValues {
+  const nutrients = {} as NutrientValues;
+  for (const [key, value] of Object.entries(food.nutrientsPer100g) as Array<[keyof NutrientValues, number]>) {
+    nutrients[key] = round((value * grams) / 100);
+  }
+  return nutrients;
+}
+
+/**
+ * Find the reference food for a model-identified name. Every word must
+ * appear as a whole word in the description; leading preparation words are
+ * dropped until something matches ("Steamed broccoli" -> "broccoli"), but
+ * words that name the food are not ("Pea soup" never becomes "soup").
+ */
+export async function matchReferenceFood(name: string, db: DatabaseService = getDb()): Promise<ReferenceFood | null> {
+  const tokens = searchTokens(name);
+
+  for (let start = 0; start < tokens.length; start++) {
+    if (start > 0 && !PREPARATION_WORDS.has(tokens[start - 1])) break;
+
+    const remaining = tokens.slice(start);
+    const candidates = await db.searchReferenceFoods(remaining.join(' '), MATCH_CANDIDATES);
+    const match = candidates.find(food => matchesAllWords(food.description, remaining));
+    if (match) return match;
+  }
+
+  return null;
+}
+
+function isPlausibleCorrection(estimate: number, reference: number): boolean {
+  if (Math.abs(estimate - reference) <= CALORIE_SLACK) return true;
+  return reference <= estimate * MAX_CALORIE_FACTOR && reference * MAX_CALORIE_FACTOR >= estimate;
+}
+
+/**
+ * Reconcile each food against the reference database and recompute totals.
+ * Foods without a reference match or a convertible portion are left as-is,
+ * as are foods whose reference calories are implausibly far from the model's.
+ */
+export async function reconcileFoods(
+  payload: NutritionPayload,
+  db: DatabaseService = getDb()
+): Promise<{ data: NutritionPayload; repairs: RepairStep[] }> {
+  const repairs: RepairStep[] = [];
+  const foods: FoodItem[] = [];
+
+  for (const [index, food] of payload.foods.entries()) {
+    const match = await matchReferenceFood(food.name, db);
+    const grams = match ? portionToGrams(food.portion, match.portions) : null;
+
+    if (!match || grams === null) {
+      foods.push(food);
+      continue;
+    }
+
+    const reference = nutrientsForGrams(match, grams);
+    if (!isPlausibleCorrection(food.nutrition.calories, reference.calories)) {
+      foods.push(food);
+      continue;
+    }
+
+    const nutrition = { ...food.nutrition };
+    for (const nutrient of MICRONUTRIENTS) {
+      if (reference[nutrient.key] !== undefined) nutrition[nutrient.key] = reference[nutrient.key];
+    }
+    const changed: string[] = [];
+    for (const key of RECONCILED_KEYS) {
+      if (Math.abs(nutrition[key] - reference[key]) > 1) {
+        changed.push(`${key} ${nutrition[key]} -> ${reference[key]}`);
+      }
+      nutrition[key] = reference[key];
+    }
+
+    if (changed.length > 0) {
+      repairs.push({
+        type: 'reconciled',
+        path: `foods[${index}].nutrition`,
+        detail: `Matched "${match.description}" (${round(grams)} g): ${changed.join(', ')}`
+      });
+    }
+
+    foods.push({
+      ...food,
+      nutrition,
+      reference: { id: match.id, description: match.description, grams: round(grams) }
+    });
+  }
+
+  if (!foods.some(food => food.reference)) {
+    return { data: { ...payload, foods }, repairs };
+  }
+
+  // Recomputed whenever a food matched, since its micronutrients may have been filled in
+  if (repairs.length > 0) {
+    repairs.push({ type: 'recomputed_totals', path: 'totals', detail: 'Totals recomputed after reconciliation' });
+  }
+  return { data: { ...payload, foods, totals: sumFoods(foods) }, repairs };
+}
+
+/**
+ * Opt-in with FOOD_RECONCILIATION=on while the matching is being tuned
+ */
+export function isReconciliationEnabled(): boolean {
+  return process.env.FOOD_RECONCILIATION === 'on';
+}
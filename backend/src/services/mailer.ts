@@ -0,0 +1,148 @@
+/**
+ * Mailer
+ * Sends account emails (verification, password reset). SMTP is used in
+ * production; for local development messages are written to files or the
+ * console instead so links can be followed without a mail server.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  readonly name: MailerProvider;
+  send(message: MailMessage): Promise<void>;
+}
+
+export type MailerProvider = 'smtp' | 'file' | 'console';
+
+const DEFAULT_FROM = 'NutritionAI <no-reply@localhost>';
+
+/**
+ * SMTP via nodemailer. Loaded lazily so deployments without SMTP never need it.
+ * Configured with SMTP_URL, or SMTP_HOST, SMTP_PORT, SMTP_USER and SMTP_PASS.
+ */
+export class SmtpMailer implements Mailer {
+  readonly name = 'smtp';
+  private transport: Promise<{ sendMail(options: object): Promise<unknown> }> | null = null;
+
+  constructor(private from: string = process.env.MAIL_FROM || DEFAULT_FROM) {}
+
+  private getTransport() {
+    if (!this.transport) {
+      this.transport = import('nodemailer').then(({ default: nodemailer }) => {
+        if (process.env.SMTP_URL) {
+          return nodemailer.createTransport(process.env.SMTP_URL);
+        }
+        const port = parseInt(process.env.SMTP_PORT || '587', 10);
+        return nodemailer.createTransport({
+          host: process.env.SMTP_HOST,
+          port,
+          secure: port === 465,
+          auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined
+        });
+      });
+    }
+    return this.transport;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const transport = await this.getTransport();
+    await transport.sendMail({ from: this.from, ...message });
+    console.log(`[Mailer] Sent "${message.subject}" to ${message.to}`);
+  }
+}
+
+/**
+ * Write each message to an .eml file in MAIL_DIR (default ./data/mail)
+ */
+export class FileMailer implements Mailer {
+  readonly name = 'file';
+
+  constructor(
+    private directory: string = process.env.MAIL_DIR || './data/mail',
+    private from: string = process.env.MAIL_FROM || DEFAULT_FROM
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const sentAt = new Date();
+    const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    const file = join(this.directory, `${sentAt.toISOString().replace(/[:.]/g, '-')}-${slug}.eml`);
+
+    await writeFile(file, [
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${sentAt.toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text
+    ].join('\r\n'));
+    console.log(`[Mailer] Wrote "${message.subject}" for ${message.to} to ${file}`);
+  }
+}
+
+/**
+ * Print each message to the log
+ */
+export class ConsoleMailer implements Mailer {
+  readonly name = 'console';
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[Mailer] To: ${message.to}\n[Mailer] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * MAIL_PROVIDER, or SMTP when it is configured and the console otherwise.
+ * In production the console is never picked implicitly: it would write live
+ * reset and verification links to the logs.
+ */
+export function resolveMailerProvider(): MailerProvider {
+  const configured = process.env.MAIL_PROVIDER;
+  if (configured === 'smtp' || configured === 'file' || configured === 'console') {
+    return configured;
+  }
+  if (process.env.SMTP_URL || process.env.SMTP_HOST) {
+    return 'smtp';
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SMTP must be configured in production (set SMTP_URL or SMTP_HOST, or MAIL_PROVIDER explicitly)');
+  }
+  return 'console';
+}
+
+export function createMailer(provider: MailerProvider = resolveMailerProvider()): Mailer {
+  switch (provider) {
+    case 'smtp':
+      return new SmtpMailer();
+    case 'file':
+      return new FileMailer();
+    case 'console':
+      return new ConsoleMailer();
+  }
+}
+
+// Singleton instance
+let mailerInstance: Mailer | null = null;
+
+export function getMailer(): Mailer {
+  if (!mailerInstance) {
+    mailerInstance = createMailer();
+  }
+  return mailerInstance;
+}
+
+/**
+ * Replace the singleton (tests capture messages with their own mailer)
+ */
+export function setMailer(mailer: Mailer | null): void {
+  mailerInstance = mailer;
+}
@@ -0,0 +1,193 @@
+/**
+ * Meal Logging Service
+ * Creates meals without a photo: from structured food items entered by the
+ * user, or from a free-text description estimated by the analysis provider.
+ */
+
+import { getDb } from './database.js';
+import type { MealAnalysis } from './database.js';
+import { getAnalyzer } from './nutritionAnalyzer.js';
+import { runAnalysis } from './analysisPipeline.js';
+import { createTextMealPrompt } from './gemini.js';
+import { updateDailyProgress, resolveMealType } from './progressTracking.js';
+import { nutrientsForGrams, reconcileFoods, isReconciliationEnabled } from './foodReference.js';
+import type { FoodItem, NutrientValues, RepairStep } from '../types/nutrition.js';
+import { validateNutritionPayload, sumFoods, NutritionValidationError } from '../utils/nutritionValidation.js';
+import { portionToGrams } from '../utils/portions.js';
+import type { MealType } from '../utils/mealTypes.js';
+
+/**
+ * A food entered by hand: either its nutrition, or a reference food id and
+ * portion to compute the nutrition from.
+ */
+export interface ManualFoodInput {
+  name?: string;
+  portion?: string;
+  nutrition?: Partial<NutrientValues>;
+  referenceId?: string;
+  confidence?: number;
+}
+
+export class ManualMealError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ManualMealError';
+  }
+}
+
+export const MAX_MANUAL_FOODS = 50;
+export const MAX_DESCRIPTION_LENGTH = 1000;
+
+// Reference foods without a portion are logged per 100 g
+const DEFAULT_REFERENCE_PORTION = '100 g';
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+async function resolveReferenceFood(input: ManualFoodInput, index: number): Promise<FoodItem> {
+  const food = await getDb().findReferenceFoodById(input.referenceId!);
+  if (!food) {
+    throw new ManualMealError(`foods[${index}].referenceId "${input.referenceId}" does not match a reference food`);
+  }
+
+  const portion = input.portion?.trim() || DEFAULT_REFERENCE_PORTION;
+  const grams = portionToGrams(portion, food.portions);
+  if (grams === null) {
+    throw new ManualMealError(`foods[${index}].portion "${portion}" can't be converted to grams for "${food.description}"`);
+  }
+
+  return {
+    name: input.name?.trim() || food.description,
+    portion,
+    nutrition: nutrientsForGrams(food, grams),
+    confidence: 1,
+    reference: { id: food.id, description: food.description, grams: round(grams) }
+  };
+}
+
+/**
+ * Turn user-entered food items into validated foods with totals.
+ * Items the user typed in are trusted, so confidence defaults to 1.
+ */
+export async function buildManualFoods(inputs: ManualFoodInput[]): Promise<{ foods: FoodItem[]; repairs: RepairStep[] }> {
+  if (inputs.length === 0) {
+    throw new ManualMealError('foods must contain at least one item');
+  }
+  if (inputs.length > MAX_MANUAL_FOODS) {
+    throw new ManualMealError(`A meal can have at most ${MAX_MANUAL_FOODS} foods`);
+  }
+
+  const foods: FoodItem[] = [];
+  const repairs: RepairStep[] = [];
+
+  for (const [index, input] of inputs.entries()) {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      throw new ManualMealError(`foods[${index}] must be an object`);
+    }
+    if (input.referenceId) {
+      foods.push(await resolveReferenceFood(input, index));
+      continue;
+    }
+
+    // Validated one at a time, so paths are rewritten to the submitted index
+    let validated;
+    try {
+      validated = validateNutritionPayload({ foods: [{ ...input, confidence: input.confidence ?? 1 }] });
+    } catch (error) {
+      if (error instanceof NutritionValidationError) {
+        throw new ManualMealError(error.message.replace(/^foods\[0\]/, `foods[${index}]`));
+      }
+      throw error;
+    }
+    foods.push(validated.data.foods[0]);
+    repairs.push(...validated.repairs
+      .filter(repair => repair.type !== 'recomputed_totals')
+      .map(repair => ({ ...repair, path: repair.path?.replace(/^foods\[0\]/, `foods[${index}]`) })));
+  }
+
+  return { foods, repairs };
+}
+
+async function saveMeal(userId: string, nutritionData: any, mealType?: MealType, createdAt?: Date): Promise<MealAnalysis> {
+  const meal = await getDb().createMealAnalysis({
+    userId,
+    imageUrl: '',
+    nutritionData,
+    mealType: await resolveMealType(userId, createdAt ?? new Date(), mealType),
+    createdAt
+  });
+
+  // Update daily progress for the day the meal was eaten, as the photo flow does
+  try {
+    await updateDailyProgress(userId, meal.createdAt);
+  } catch (progressError) {
+    console.error('Failed to update daily progress:', progressError);
+    // Continue - progress tracking is not critical
+  }
+
+  return meal;
+}
+
+/**
+ * Log a meal from user-entered food items
+ */
+export async function logManualMeal(input: {
+  userId: string;
+  foods: ManualFoodInput[];
+  mealType?: MealType;
+  createdAt?: Date;
+}): Promise<MealAnalysis> {
+  const { foods, repairs } = await buildManualFoods(input.foods);
+
+  const meal = await saveMeal(input.userId, {
+    foods,
+    totals: sumFoods(foods),
+    parsing: { mode: 'manual', repairs }
+  }, input.mealType, input.createdAt);
+  console.log(`[Meals] Logged manual meal ${meal.id} for user ${input.userId}`);
+  return meal;
+}
+
+/**
+ * Log a meal from a free-text description parsed by the analysis provider.
+ * Provider and validation errors propagate like a photo analysis.
+ */
+export async function logTextMeal(input: {
+  userId: string;
+  description: string;
+  modelName?: string;
+  mealType?: MealType;
+  createdAt?: Date;
+}): Promise<MealAnalysis> {
+  const analyzer = getAnalyzer(input.modelName);
+  console.log(`Calling ${analyzer.provider} with model:`, analyzer.model, 'mode: text');
+
+  const analysis = await runAnalysis(analyzer, createTextMealPrompt(input.description), []);
+  let nutritionData = analysis.nutritionData;
+
+  if (isReconciliationEnabled()) {
+    try {
+      const reconciled = await reconcileFoods(nutritionData);
+      nutritionData = reconciled.data;
+      analysis.repairs.push(...reconciled.repairs);
+    } catch (reconcileError) {
+      console.error('Failed to reconcile foods against reference data:', reconcileError);
+      // Continue with the model's values
+    }
+  }
+
+  const meal = await saveMeal(input.userId, {
+    ...nutritionData,
+    description: input.description,
+    parsing: {
+      mode: 'text',
+      provider: analyzer.provider,
+      model: analyzer.model,
+      attempts: analysis.attempts,
+      repairs: analysis.repairs
+    }
+  }, input.mealType, input.createdAt);
+  console.log(`[Meals] Logged text meal ${meal.id} for user ${input.userId}`);
+  return meal;
+}
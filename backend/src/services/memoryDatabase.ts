@@ -0,0 +1,545 @@
+/**
+ * In-memory database service
+ * Used by tests and local development when no persistent store is configured.
+ * Data lives only for the lifetime of the process.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  DatabaseService,
+  User,
+  MealAnalysis,
+  UserProfile,
+  DietTemplate,
+  DietTemplateFields,
+  DailyProgress,
+  WeeklySummary,
+  KetoneLog,
+  BodyMeasurement,
+  RefreshToken,
+  EmailToken,
+  EmailTokenPurpose,
+  OAuthIdentity,
+  UsageCounter,
+  FoodProduct,
+  ReferenceFood
+} from './database.js';
+import { searchTokens, matchesAllTokens } from '../utils/foodSearch.js';
+import type { MealType } from '../utils/mealTypes.js';
+import { matchesMealQuery, isAfterCursor, compareMeals, toMealPage } from '../utils/mealQuery.js';
+import type { MealQuery, MealPage } from '../utils/mealQuery.js';
+
+// Structured clone keeps callers from mutating stored records by reference
+function copy<T>(value: T): T {
+  return structuredClone(value);
+}
+
+function dateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export class InMemoryDatabase implements DatabaseService {
+  private users = new Map<string, User>();
+  private mealAnalyses = new Map<string, MealAnalysis>();
+  private userProfiles = new Map<string, UserProfile>();
+  private dietTemplates = new Map<string, DietTemplate>();
+  private dailyProgress = new Map<string, DailyProgress>();
+  private weeklySummaries = new Map<string, WeeklySummary>();
+  private ketoneLogs = new Map<string, KetoneLog>();
+  private bodyMeasurements = new Map<string, BodyMeasurement>();
+  private refreshTokens = new Map<string, RefreshToken>();
+  private emailTokens = new Map<string, EmailToken>();
+  private oauthIdentities = new Map<string, OAuthIdentity>();
+  private usageCounters = new Map<string, UsageCounter>();
+  private foodProducts = new Map<string, FoodProduct>();
+  private referenceFoods = new Map<string, ReferenceFood>();
+
+  async createUser(data: { email: string; passwordHash: string; name: string }): Promise<User> {
+    const user: User = {
+      id: randomUUID(),
+      ...data,
+      emailVerified: false,
+      tier: 'free',
+      createdAt: new Date()
+    };
+    this.users.set(user.id, user);
+    return copy(user);
+  }
+
+  async findUserByEmail(email: string): Promise<User | null> {
+    for (const user of this.users.values()) {
+      if (user.email === email) return copy(user);
+    }
+    return null;
+  }
+
+  async findUserById(id: string): Promise<User | null> {
+    const user = this.users.get(id);
+    return user ? copy(user) : null;
+  }
+
+  async updateUser(id: string, data: Partial<Pick<User, 'email' | 'passwordHash' | 'emailVerified' | 'tier'>>): Promise<User | null> {
+    const user = this.users.get(id);
+    if (!user) return null;
+    Object.assign(user, copy(data));
+    return copy(user);
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    const owned: Array<Map<string, { userId: string | null }>> = [
+      this.mealAnalyses,
+      this.userProfiles,
+      this.dailyProgress,
+      this.weeklySummaries,
+      this.ketoneLogs,
+      this.bodyMeasurements,
+      this.dietTemplates,
+      this.refreshTokens,
+      this.emailTokens,
+      this.oauthIdentities,
+      this.usageCounters
+    ];
+    for (const records of owned) {
+      for (const [key, record] of records) {
+        if (record.userId === id) records.delete(key);
+      }
+    }
+    this.users.delete(id);
+  }
+
+  async createMealAnalysis(data: { userId?: string; imageUrl: string; thumbnail?: string; thumbnails?: string[]; nutritionData: any; mealType?: MealType | null; createdAt?: Date }): Promise<MealAnalysis> {
+    const analysis: MealAnalysis = {
+      id: randomUUID(),
+      userId: data.userId || null,
+      imageUrl: data.imageUrl,
+      thumbnail: data.thumbnail || data.thumbnails?.[0] || null,
+      thumbnails: data.thumbnails || (data.thumbnail ? [data.thumbnail] : []),
+      nutritionData: data.nutritionData,
+      mealType: data.mealType ?? null,
+      createdAt: data.createdAt || new Date()
+    };
+    this.mealAnalyses.set(analysis.id, copy(analysis));
+    return analysis;
+  }
+
+  async findMealAnalysesByUserId(userId: string): Promise<MealAnalysis[]> {
+    return Array.from(this.mealAnalyses.values())
+      .filter(meal => meal.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(copy);
+  }
+
+  async queryMealAnalyses(query: MealQuery): Promise<MealPage> {
+    const matching = Array.from(this.mealAnalyses.values())
+      .filter(meal => matchesMealQuery(meal, query) && isAfterCursor(meal, query))
+      .sort((a, b) => compareMeals(a, b, query));
+    return toMealPage(matching.slice(0, query.limit + 1).map(copy), query);
+  }
+
+  async findMealAnalysisById(id: string): Promise<MealAnalysis | null> {
+    const analysis = this.mealAnalyses.get(id);
+    return analysis ? copy(analysis) : null;
+  }
+
+  async deleteMealAnalysis(id: string): Promise<void> {
+    this.mealAnalyses.delete(id);
+  }
+
+  async updateMealAnalysis(id: string, data: { nutritionData?: any; thumbnail?: string; mealType?: MealType | null; createdAt?: Date }): Promise<MealAnalysis | null> {
+    const existing = this.mealAnalyses.get(id);
+    if (!existing) return null;
+
+    const updated: MealAnalysis = {
+      ...existing,
+      ...(data.nutritionData && { nutritionData: copy(data.nutritionData) }),
+      ...(data.thumbnail && { thumbnail: data.thumbnail }),
+      ...(data.mealType !== undefined && { mealType: data.mealType }),
+      ...(data.createdAt && { createdAt: data.createdAt })
+    };
+    this.mealAnalyses.set(id, updated);
+    return copy(updated);
+  }
+
+  // User profile operations
+  async createUserProfile(data: Omit<UserProfile, 'id' | 'createdAt' | 'updatedAt'>): Promise<UserProfile> {
+    const now = new Date();
+    const profile: UserProfile = {
+      id: randomUUID(),
+      ...copy(data),
+      createdAt: now,
+      updatedAt: now
+    };
+    this.userProfiles.set(data.userId, profile);
+    return copy(profile);
+  }
+
+  async findUserProfileByUserId(userId: string): Promise<UserProfile | null> {
+    const profile = this.userProfiles.get(userId);
+    return profile ? copy(profile) : null;
+  }
+
+  async findAllUserProfiles(): Promise<UserProfile[]> {
+    return Array.from(this.userProfiles.values()).map(copy);
+  }
+
+  async updateUserProfile(userId: string, data: Partial<Omit<UserProfile, 'id' | 'userId' | 'createdAt' | 'updatedAt'>>): Promise<UserProfile> {
+    const existing = this.userProfiles.get(userId);
+    if (!existing) throw new Error('Profile not found');
+
+    const updated: UserProfile = {
+      ...existing,
+      ...copy(data),
+      updatedAt: new Date()
+    };
+    this.userProfiles.set(userId, updated);
+    return copy(updated);
+  }
+
+  // Diet template operations
+  async createDietTemplate(data: Omit<DietTemplate, 'id' | 'createdAt' | 'updatedAt'>): Promise<DietTemplate> {
+    const now = new Date();
+    const template: DietTemplate = {
+      id: randomUUID(),
+      ...copy(data),
+      createdAt: now,
+      updatedAt: now
+    };
+    this.dietTemplates.set(template.id, template);
+    return copy(template);
+  }
+
+  async findDietTemplateByType(dietType: string): Promise<DietTemplate | null> {
+    for (const template of this.dietTemplates.values()) {
+      if (template.dietType === dietType) return copy(template);
+    }
+    return null;
+  }
+
+  async findDietTemplatesByUser(userId: string | null): Promise<DietTemplate[]> {
+    return Array.from(this.dietTemplates.values())
+      .filter(template => template.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(copy);
+  }
+
+  async findAllDietTemplates(): Promise<DietTemplate[]> {
+    return Array.from(this.dietTemplates.values()).map(copy);
+  }
+
+  async updateDietTemplate(id: string, data: Partial<DietTemplateFields>): Promise<DietTemplate | null> {
+    const existing = this.dietTemplates.get(id);
+    if (!existing) return null;
+
+    const updated: DietTemplate = { ...existing, ...copy(data), updatedAt: new Date() };
+    this.dietTemplates.set(id, updated);
+    return copy(updated);
+  }
+
+  async deleteDietTemplate(id: string): Promise<void> {
+    this.dietTemplates.delete(id);
+  }
+
+  // Daily progress operations
+  async createOrUpdateDailyProgress(data: Omit<DailyProgress, 'id' | 'createdAt' | 'updatedAt'>): Promise<DailyProgress> {
+    const id = `${data.userId}_${dateKey(data.date)}`;
+    const now = new Date();
+    const existing = this.dailyProgress.get(id);
+
+    const progress: DailyProgress = {
+      id,
+      ...copy(data),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    };
+    this.dailyProgress.set(id, progress);
+    return copy(progress);
+  }
+
+  async findDailyProgressByUserAndDate(userId: string, date: Date): Promise<DailyProgress | null> {
+    const progress = this.dailyProgress.get(`${userId}_${dateKey(date)}`);
+    return progress ? copy(progress) : null;
+  }
+
+  async findDailyProgressByUserAndDateRange(userId: string, startDate: Date, endDate: Date): Promise<DailyProgress[]> {
+    return Array.from(this.dailyProgress.values())
+      .filter(day => day.userId === userId && day.date >= startDate && day.date <= endDate)
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .map(copy);
+  }
+
+  async deleteDailyProgress(userId: string, date: Date): Promise<void> {
+    this.dailyProgress.delete(`${userId}_${dateKey(date)}`);
+  }
+
+  // Weekly summary operations
+  async createWeeklySummary(data: Omit<WeeklySummary, 'id' | 'createdAt'>): Promise<WeeklySummary> {
+    const summary: WeeklySummary = {
+      id: `${data.userId}_${dateKey(data.weekStart)}`,
+      ...copy(data),
+      createdAt: new Date()
+    };
+    this.weeklySummaries.set(summary.id, summary);
+    return copy(summary);
+  }
+
+  async findWeeklySummariesByUser(userId: string, limit: number = 12): Promise<WeeklySummary[]> {
+    return Array.from(this.weeklySummaries.values())
+      .filter(summary => summary.userId === userId)
+      .sort((a, b) => b.weekStart.getTime() - a.weekStart.getTime())
+      .slice(0, limit)
+      .map(copy);
+  }
+
+  // Ketone log operations
+  async createKetoneLog(data: Omit<KetoneLog, 'id' | 'createdAt'>): Promise<KetoneLog> {
+    const log: KetoneLog = {
+      id: randomUUID(),
+      ...copy(data),
+      createdAt: new Date()
+    };
+    this.ketoneLogs.set(log.id, log);
+    return copy(log);
+  }
+
+  async findKetoneLogsByUser(userId: string, limit: number = 30): Promise<KetoneLog[]> {
+    return Array.from(this.ketoneLogs.values())
+      .filter(log => log.userId === userId)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(0, limit)
+      .map(copy);
+  }
+
+  async findRecentKetoneLog(userId: string): Promise<KetoneLog | null> {
+    const logs = await this.findKetoneLogsByUser(userId, 1);
+    return logs.length > 0 ? logs[0] : null;
+  }
+
+  async findKetoneLogById(id: string): Promise<KetoneLog | null> {
+    const log = this.ketoneLogs.get(id);
+    return log ? copy(log) : null;
+  }
+
+  async deleteKetoneLog(id: string): Promise<void> {
+    this.ketoneLogs.delete(id);
+  }
+
+  // Body measurement operations
+  async createBodyMeasurement(data: Omit<BodyMeasurement, 'id' | 'createdAt' | 'updatedAt'>): Promise<BodyMeasurement> {
+    const now = new Date();
+    const measurement: BodyMeasurement = {
+      id: randomUUID(),
+      ...copy(data),
+      createdAt: now,
+      updatedAt: now
+    };
+    this.bodyMeasurements.set(measurement.id, measurement);
+    return copy(measurement);
+  }
+
+  async findBodyMeasurementsByUser(userId: string, since?: Date): Promise<BodyMeasurement[]> {
+    return Array.from(this.bodyMeasurements.values())
+      .filter(measurement => measurement.userId === userId && (!since || measurement.measuredAt >= since))
+      .sort((a, b) => a.measuredAt.getTime() - b.measuredAt.getTime())
+      .map(copy);
+  }
+
+  async findBodyMeasurementById(id: string): Promise<BodyMeasurement | null> {
+    const measurement = this.bodyMeasurements.get(id);
+    return measurement ? copy(measurement) : null;
+  }
+
+  async updateBodyMeasurement(id: string, data: Partial<Pick<BodyMeasurement, 'measuredAt' | 'weight' | 'waist' | 'bodyFat' | 'notes'>>): Promise<BodyMeasurement | null> {
+    const existing = this.bodyMeasurements.get(id);
+    if (!existing) return null;
+
+    const updated: BodyMeasurement = {
+      ...existing,
+      ...(data.measuredAt && { measuredAt: data.measuredAt }),
+      ...(data.weight !== undefined && { weight: data.weight }),
+      ...(data.waist !== undefined && { waist: data.waist }),
+      ...(data.bodyFat !== undefined && { bodyFat: data.bodyFat }),
+      ...(data.notes !== undefined && { notes: data.notes }),
+      updatedAt: new Date()
+    };
+    this.bodyMeasurements.set(id, updated);
+    return copy(updated);
+  }
+
+  async deleteBodyMeasurement(id: string): Promise<void> {
+    this.bodyMeasurements.delete(id);
+  }
+
+  // Refresh token operations
+  async createRefreshToken(data: Omit<RefreshToken, 'revokedAt' | 'createdAt'>): Promise<RefreshToken> {
+    const token: RefreshToken = {
+      ...copy(data),
+      revokedAt: null,
+      createdAt: new Date()
+    };
+    this.refreshTokens.set(token.id, token);
+    return copy(token);
+  }
+
+  async findRefreshToken(id: string): Promise<RefreshToken | null> {
+    const token = this.refreshTokens.get(id);
+    return token ? copy(token) : null;
+  }
+
+  async revokeRefreshToken(id: string): Promise<boolean> {
+    const token = this.refreshTokens.get(id);
+    if (!token || token.revokedAt) return false;
+    token.revokedAt = new Date();
+    return true;
+  }
+
+  async revokeRefreshTokensByUser(userId: string): Promise<number> {
+    let revoked = 0;
+    for (const token of this.refreshTokens.values()) {
+      if (token.userId === userId && !token.revokedAt) {
+        token.revokedAt = new Date();
+        revoked++;
+      }
+    }
+    return revoked;
+  }
+
+  async deleteRefreshToken(id: string): Promise<void> {
+    this.refreshTokens.delete(id);
+  }
+
+  async deleteExpiredRefreshTokens(before: Date): Promise<number> {
+    let deleted = 0;
+    for (const [id, token] of this.refreshTokens) {
+      if (token.expiresAt < before) {
+        this.refreshTokens.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  // Email token operations
+  async createEmailToken(data: Omit<EmailToken, 'createdAt'>): Promise<EmailToken> {
+    const token: EmailToken = { ...copy(data), createdAt: new Date() };
+    this.emailTokens.set(token.id, token);
+    return copy(token);
+  }
+
+  async consumeEmailToken(id: string): Promise<EmailToken | null> {
+    const token = this.emailTokens.get(id);
+    if (!token) return null;
+    this.emailTokens.delete(id);
+    return token;
+  }
+
+  async deleteEmailTokensByUser(userId: string, purpose: EmailTokenPurpose): Promise<void> {
+    for (const [id, token] of this.emailTokens) {
+      if (token.userId === userId && token.purpose === purpose) {
+        this.emailTokens.delete(id);
+      }
+    }
+  }
+
+  async deleteExpiredEmailTokens(before: Date): Promise<number> {
+    let deleted = 0;
+    for (const [id, token] of this.emailTokens) {
+      if (token.expiresAt < before) {
+        this.emailTokens.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  // OAuth identity operations
+  async createOAuthIdentity(data: Omit<OAuthIdentity, 'id' | 'createdAt'>): Promise<OAuthIdentity> {
+    const id = `${data.provider}:${data.subject}`;
+    if (this.oauthIdentities.has(id)) {
+      throw new Error(`OAuth identity ${id} is already linked`);
+    }
+    const identity: OAuthIdentity = { ...copy(data), id, createdAt: new Date() };
+    this.oauthIdentities.set(id, identity);
+    return copy(identity);
+  }
+
+  async findOAuthIdentity(provider: string, subject: string): Promise<OAuthIdentity | null> {
+    const identity = this.oauthIdentities.get(`${provider}:${subject}`);
+    return identity ? copy(identity) : null;
+  }
+
+  async findOAuthIdentitiesByUser(userId: string): Promise<OAuthIdentity[]> {
+    return Array.from(this.oauthIdentities.values())
+      .filter(identity => identity.userId === userId)
+      .map(copy);
+  }
+
+  // Usage counter operations
+  async incrementUsage(userId: string, metric: string, date: string, amount: number = 1): Promise<number> {
+    const key = `${userId}:${metric}:${date}`;
+    const counter = this.usageCounters.get(key) ?? { userId, metric, date, count: 0 };
+    counter.count += amount;
+    this.usageCounters.set(key, counter);
+    return counter.count;
+  }
+
+  async findUsageByUser(userId: string, date: string): Promise<UsageCounter[]> {
+    return Array.from(this.usageCounters.values())
+      .filter(counter => counter.userId === userId && counter.date === date)
+      .map(copy);
+  }
+
+  async deleteUsageBefore(date: string): Promise<number> {
+    let deleted = 0;
+    for (const [key, counter] of this.usageCounters) {
+      if (counter.date < date) {
+        this.usageCounters.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  // Food product catalog operations
+  async upsertFoodProducts(products: Omit<FoodProduct, 'updatedAt'>[]): Promise<number> {
+    const now = new Date();
+    for (const product of products) {
+      this.foodProducts.set(product.barcode, { ...copy(product), updatedAt: now });
+    }
+    return products.length;
+  }
+
+  async findFoodProductByBarcode(barcode: string): Promise<FoodProduct | null> {
+    const product = this.foodProducts.get(barcode);
+    return product ? copy(product) : null;
+  }
+
+  // Reference food operations
+  async upsertReferenceFoods(foods: Omit<ReferenceFood, 'updatedAt'>[]): Promise<number> {
+    const now = new Date();
+    for (const food of foods) {
+      this.referenceFoods.set(food.id, { ...copy(food), updatedAt: now });
+    }
+    return foods.length;
+  }
+
+  async findReferenceFoodById(id: string): Promise<ReferenceFood | null> {
+    const food = this.referenceFoods.get(id);
+    return food ? copy(food) : null;
+  }
+
+  async searchReferenceFoods(query: string, limit: number = 20): Promise<ReferenceFood[]> {
+    const tokens = searchTokens(query);
+    if (tokens.length === 0) return [];
+
+    return Array.from(this.referenceFoods.values())
+      .filter(food => matchesAllTokens(food.description, tokens))
+      // Shorter descriptions are the more generic foods ("Broccoli, raw")
+      .sort((a, b) => a.description.length - b.description.length || a.description.localeCompare(b.description))
+      .slice(0, limit)
+      .map(copy);
+  }
+
+  async disconnect(): Promise<void> {
+    // Nothing to release
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Nutrition Analyzer Service
+ * Provider abstraction over the vision models used by /api/analyze.
+ *
+ * The `model` field sent by clients selects a provider and model:
+ * - "gemini-2.5-flash"        → Gemini (bare names use the default provider)
+ * - "openai:gpt-4o-mini"      → any OpenAI-compatible chat completions endpoint
+ * - "ollama:llava"            → local Ollama-style HTTP server
+ * - "stub" / "stub:<fixture>" → deterministic offline fixtures
+ */
+
+import { Buffer } from 'buffer';
+import { GeminiAnalyzer } from './gemini.js';
+import { OpenAICompatibleAnalyzer } from './openaiCompatible.js';
+import { OllamaAnalyzer } from './ollama.js';
+import { StubAnalyzer } from './stubAnalyzer.js';
+
+export interface AnalyzerImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface AnalyzerRequest {
+  prompt: string;
+  images: AnalyzerImage[];
+}
+
+export interface NutritionAnalyzer {
+  readonly provider: string;
+  readonly model: string;
+  /**
+   * Send the prompt and images to the model and return its raw text output
+   */
+  generate(request: AnalyzerRequest): Promise<string>;
+}
+
+export class AnalyzerConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnalyzerConfigError';
+  }
+}
+
+export class UnknownAnalyzerError extends Error {
+  constructor(provider: string) {
+    super(`Unknown analysis provider "${provider}"`);
+    this.name = 'UnknownAnalyzerError';
+  }
+}
+
+type AnalyzerFactory = (model?: string) => NutritionAnalyzer;
+
+const providers: Record<string, AnalyzerFactory> = {
+  gemini: (model) => new GeminiAnalyzer(model),
+  openai: (model) => new OpenAICompatibleAnalyzer(model),
+  ollama: (model) => new OllamaAnalyzer(model),
+  stub: (model) => new StubAnalyzer(model)
+};
+
+/**
+ * The stub answers with canned fixtures, so production clients can't pick it
+ * unless the deployment runs on it deliberately
+ */
+function isProviderEnabled(provider: string, env: NodeJS.ProcessEnv = process.env): boolean {
+  return provider !== 'stub' || env.ANALYZER_PROVIDER === 'stub' || env.NODE_ENV !== 'production';
+}
+
+/**
+ * Register an additional provider (or replace a built-in one)
+ */
+export function registerAnalyzer(provider: string, factory: AnalyzerFactory): void {
+  providers[provider] = factory;
+}
+
+export function getDefaultProvider(): string {
+  return process.env.ANALYZER_PROVIDER || 'gemini';
+}
+
+/**
+ * Split a client model string into provider and model name
+ */
+export function parseModelSpec(spec?: string): { provider: string; model?: string } {
+  const value = spec?.trim();
+  if (!value) {
+    return { provider: getDefaultProvider() };
+  }
+
+  const separator = value.indexOf(':');
+  if (separator !== -1) {
+    const model = value.slice(separator + 1).trim();
+    return { provider: value.slice(0, separator).toLowerCase(), model: model || undefined };
+  }
+
+  if (providers[value.toLowerCase()]) {
+    return { provider: value.toLowerCase() };
+  }
+
+  // Bare model names from existing clients ("gemini-2.5-flash") keep working
+  if (value.startsWith('gemini')) {
+    return { provider: 'gemini', model: value };
+  }
+
+  return { provider: getDefaultProvider(), model: value };
+}
+
+/**
+ * Resolve the analyzer for a client model string
+ */
+export function getAnalyzer(spec?: string): NutritionAnalyzer {
+  const { provider, model } = parseModelSpec(spec);
+  const factory = isProviderEnabled(provider) ? providers[provider] : undefined;
+
+  if (!factory) {
+    throw new UnknownAnalyzerError(provider);
+  }
+
+  return factory(model);
+}
@@ -0,0 +1,109 @@
+/**
+ * Third-party sign-in
+ * Signs users in with an ID token from Google or Apple. The first sign-in
+ * with a provider links it to the account with the same verified email, or
+ * creates an account when there is none; afterwards the provider's subject
+ * identifies the user even if either email changes. The result is an
+ * ordinary session, the same as a password login.
+ */
+
+import { getDb } from './database.js';
+import type { User } from './database.js';
+import { getOidcVerifier, OidcError } from './oidc.js';
+import { createSession, hashPassword, generateOpaqueToken } from './auth.js';
+import type { AuthSession } from './auth.js';
+
+export interface OAuthSignIn extends AuthSession {
+  user: User;
+  isNewUser: boolean;
+}
+
+// How recently an ID token must have been issued to stand in for a password
+const RECENT_SIGN_IN_SECONDS = 10 * 60;
+
+/**
+ * The token is valid but can't be tied to an account safely
+ */
+export class OAuthAccountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OAuthAccountError';
+  }
+}
+
+/**
+ * Verify an ID token and start a session for the user it identifies.
+ * `name` is used for new accounts when the token doesn't carry one (Apple
+ * only sends the name to the app, on the first sign-in).
+ */
+export async function signInWithIdToken(
+  provider: string,
+  idToken: string,
+  options: { name?: string; nonce?: string } = {}
+): Promise<OAuthSignIn> {
+  const identity = await getOidcVerifier().verify(provider, idToken, { nonce: options.nonce });
+  const db = getDb();
+
+  const linked = await db.findOAuthIdentity(provider, identity.subject);
+  if (linked) {
+    const user = await db.findUserById(linked.userId);
+    if (user) {
+      return { ...(await createSession(user)), user, isNewUser: false };
+    }
+  }
+
+  // Without a verified address anyone could claim someone else's account
+  if (!identity.email || !identity.emailVerified) {
+    throw new OAuthAccountError(`Your ${provider} account has no verified email`);
+  }
+
+  let user = await db.findUserByEmail(identity.email);
+  let isNewUser = false;
+
+  if (user) {
+    // Whoever registered the address never proved they own it, so it isn't theirs to merge into
+    if (!user.emailVerified) {
+      throw new OAuthAccountError('An account with this email exists but is not verified; sign in with your password and verify your email first');
+    }
+  } else {
+    user = await db.createUser({
+      email: identity.email,
+      // Nobody knows this password; a password can be set later with a reset link
+      passwordHash: await hashPassword(generateOpaqueToken()),
+      name: identity.name || options.name?.trim() || identity.email.split('@')[0]
+    });
+    user = (await db.updateUser(user.id, { emailVerified: true })) ?? user;
+    isNewUser = true;
+  }
+
+  await db.createOAuthIdentity({
+    userId: user.id,
+    provider,
+    subject: identity.subject,
+    email: identity.email
+  });
+  console.log(`[OAuth] Linked ${provider} to ${isNewUser ? 'new' : 'existing'} user ${user.id}`);
+
+  return { ...(await createSession(user)), user, isNewUser };
+}
+
+/**
+ * Confirm a sensitive change (deleting the account, changing the email or
+ * password) with a fresh ID token from one of the user's linked providers.
+ * Accounts created through third-party sign-in have a password nobody knows,
+ * so this is how they prove it's them. Throws OidcError otherwise.
+ */
+export async function verifyRecentSignIn(user: User, provider: unknown, idToken: unknown, now: Date = new Date()): Promise<void> {
+  if (typeof provider !== 'string' || !provider || typeof idToken !== 'string' || !idToken) {
+    throw new OidcError('provider and idToken are required');
+  }
+
+  const identity = await getOidcVerifier().verify(provider, idToken);
+  const linked = await getDb().findOAuthIdentity(provider, identity.subject);
+  if (!linked || linked.userId !== user.id) {
+    throw new OidcError(`This ${provider} account is not linked to yours`);
+  }
+  if (!identity.issuedAt || now.getTime() - identity.issuedAt.getTime() > RECENT_SIGN_IN_SECONDS * 1000) {
+    throw new OidcError(`Sign in with ${provider} again to confirm it's you`);
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * OpenID Connect ID tokens
+ * Verifies ID tokens from third-party sign-in (Google, Apple): the signature
+ * against the provider's published JWKS, then issuer, audience and expiry.
+ * Signing keys are cached and fetched again when they expire or a token is
+ * signed with a key we haven't seen, which is how providers rotate keys.
+ *
+ * A provider is enabled by configuring the client ids its tokens are issued
+ * to (GOOGLE_CLIENT_IDS, APPLE_CLIENT_IDS); issuer and JWKS URL can be
+ * overridden to point at another issuer.
+ */
+
+import jwt from 'jsonwebtoken';
+import type { Algorithm, JwtPayload } from 'jsonwebtoken';
+import { createPublicKey } from 'crypto';
+import type { KeyObject, webcrypto } from 'crypto';
+
+export interface OidcProvider {
+  name: string;
+  issuers: string[];        // Accepted `iss` values
+  jwksUri: string;
+  clientIds: string[];      // Accepted `aud` values
+}
+
+export interface IdTokenIdentity {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+  issuedAt: Date | null;
+}
+
+/**
+ * The ID token is malformed, forged, expired or meant for another client
+ */
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+const ALGORITHMS: Algorithm[] = ['RS256', 'ES256'];
+
+// Seconds of clock difference allowed between us and the issuer
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+const DEFAULT_JWKS_TTL_MS = 60 * 60 * 1000;
+
+// An unknown key id only triggers a fetch this often, so bogus tokens can't flood the issuer
+const MIN_REFETCH_INTERVAL_MS = 60 * 1000;
+
+const BUILT_IN_PROVIDERS: Record<string, Omit<OidcProvider, 'clientIds'>> = {
+  google: {
+    name: 'google',
+    issuers: ['https://accounts.google.com', 'accounts.google.com'],
+    jwksUri: 'https://www.googleapis.com/oauth2/v3/certs'
+  },
+  apple: {
+    name: 'apple',
+    issuers: ['https://appleid.apple.com'],
+    jwksUri: 'https://appleid.apple.com/auth/keys'
+  }
+};
+
+function list(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Providers with client ids configured: <NAME>_CLIENT_IDS (comma-separated),
+ * and optionally <NAME>_ISSUER and <NAME>_JWKS_URI
+ */
+export function resolveOidcProviders(env: NodeJS.ProcessEnv = process.env): OidcProvider[] {
+  return Object.values(BUILT_IN_PROVIDERS).flatMap(provider => {
+    const prefix = provider.name.toUpperCase();
+    const clientIds = list(env[`${prefix}_CLIENT_IDS`]);
+    if (clientIds.length === 0) return [];
+
+    const issuers = list(env[`${prefix}_ISSUER`]);
+    return [{
+      ...provider,
+      issuers: issuers.length > 0 ? issuers : provider.issuers,
+      jwksUri: env[`${prefix}_JWKS_URI`] || provider.jwksUri,
+      clientIds
+    }];
+  });
+}
+
+/**
+ * Signing keys published at a JWKS URL, by key id
+ */
+export class JwksCache {
+  private keys = new Map<string, KeyObject>();
+  private expiresAt = 0;
+  private fetchedAt = 0;
+  private fetching: Promise<void> | null = null;
+
+  constructor(private jwksUri: string) {}
+
+  async getKey(kid: string | undefined): Promise<KeyObject> {
+    const now = Date.now();
+    const stale = now >= this.expiresAt;
+    const unknown = kid !== undefined && !this.keys.has(kid);
+
+    if (stale || (unknown && now - this.fetchedAt >= MIN_REFETCH_INTERVAL_MS)) {
+      await this.refresh();
+    }
+
+    // Tokens without a key id are accepted when the issuer publishes a single key
+    const key = kid !== undefined
+      ? this.keys.get(kid)
+      : this.keys.size === 1 ? this.keys.values().next().value : undefined;
+    if (!key) {
+      throw new OidcError(`Unknown signing key: ${kid ?? '(none)'}`);
+    }
+    return key;
+  }
+
+  // Concurrent callers share one request
+  private refresh(): Promise<void> {
+    if (!this.fetching) {
+      this.fetching = this.load().finally(() => {
+        this.fetching = null;
+      });
+    }
+    return this.fetching;
+  }
+
+  private async load(): Promise<void> {
+    this.fetchedAt = Date.now();
+
+    let response: Response;
+    try {
+      response = await fetch(this.jwksUri);
+    } catch (error) {
+      throw new Error(`Failed to fetch JWKS from ${this.jwksUri}: ${(error as Error).message}`);
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch JWKS from ${this.jwksUri}: ${response.status}`);
+    }
+
+    const { keys } = await response.json() as { keys?: Array<webcrypto.JsonWebKey & { kid?: string; use?: string }> };
+    const loaded = new Map<string, KeyObject>();
+    for (const jwk of keys || []) {
+      if (!jwk.kid || (jwk.use && jwk.use !== 'sig')) continue;
+      try {
+        loaded.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+      } catch {
+        console.warn(`[OIDC] Skipping unusable key ${jwk.kid} from ${this.jwksUri}`);
+      }
+    }
+
+    const maxAge = response.headers.get('cache-control')?.match(/max-age=(\d+)/);
+    this.keys = loaded;
+    this.expiresAt = Date.now() + (maxAge ? parseInt(maxAge[1], 10) * 1000 : DEFAULT_JWKS_TTL_MS);
+    console.log(`[OIDC] Loaded ${loaded.size} signing keys from ${this.jwksUri}`);
+  }
+}
+
+export class OidcVerifier {
+  private providers = new Map<string, OidcProvider>();
+  private jwks = new Map<string, JwksCache>();
+
+  constructor(providers: OidcProvider[]) {
+    for (const provider of providers) {
+      this.providers.set(provider.name, provider);
+      this.jwks.set(provider.name, new JwksCache(provider.jwksUri));
+    }
+  }
+
+  getProvider(name: string): OidcProvider | null {
+    return this.providers.get(name) || null;
+  }
+
+  listProviders(): OidcProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Check an ID token from the named provider and return who it identifies.
+   * When a nonce is given the token must carry the same one.
+   */
+  async verify(providerName: string, idToken: string, options: { nonce?: string } = {}): Promise<IdTokenIdentity> {
+    const provider = this.providers.get(providerName);
+    const jwks = this.jwks.get(providerName);
+    if (!provider || !jwks) {
+      throw new OidcError(`Sign-in with ${providerName} is not configured`);
+    }
+
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new OidcError('Malformed ID token');
+    }
+    if (!ALGORITHMS.includes(decoded.header.alg as Algorithm)) {
+      throw new OidcError(`Unsupported signing algorithm: ${decoded.header.alg}`);
+    }
+
+    const key = await jwks.getKey(decoded.header.kid);
+
+    let claims: JwtPayload;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: ALGORITHMS,
+        issuer: provider.issuers as [string, ...string[]],
+        audience: provider.clientIds as [string, ...string[]],
+        clockTolerance: CLOCK_TOLERANCE_SECONDS
+      }) as JwtPayload;
+    } catch (error) {
+      throw new OidcError(`Invalid ID token: ${(error as Error).message}`);
+    }
+
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new OidcError('ID token has no subject');
+    }
+    if (options.nonce !== undefined && claims.nonce !== options.nonce) {
+      throw new OidcError('ID token nonce does not match');
+    }
+
+    return {
+      subject: claims.sub,
+      email: typeof claims.email === 'string' && claims.email ? claims.email : null,
+      // Apple sends the flag as a string
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      name: typeof claims.name === 'string' && claims.name ? claims.name : null,
+      issuedAt: typeof claims.iat === 'number' ? new Date(claims.iat * 1000) : null
+    };
+  }
+}
+
+// Singleton instance
+let verifierInstance: OidcVerifier | null = null;
+
+export function getOidcVerifier(): OidcVerifier {
+  if (!verifierInstance) {
+    verifierInstance = new OidcVerifier(resolveOidcProviders());
+  }
+  return verifierInstance;
+}
+
+/**
+ * Replace the singleton (tests point it at a mock issuer)
+ */
+export function setOidcVerifier(verifier: OidcVerifier | null): void {
+  verifierInstance = verifier;
+}
@@ -0,0 +1,42 @@
+/**
+ * Local Ollama-style provider
+ * Talks to a self-hosted multimodal model over Ollama's /api/generate endpoint.
+ */
+
+import type { NutritionAnalyzer, AnalyzerRequest } from './nutritionAnalyzer.js';
+
+export class OllamaAnalyzer implements NutritionAnalyzer {
+  readonly provider = 'ollama';
+  readonly model: string;
+  private baseUrl: string;
+
+  constructor(model?: string) {
+    this.model = model || process.env.OLLAMA_MODEL || 'llava';
+    this.baseUrl = (process.env.OLLAMA_BASE_URL || 'http://localhost:11434').replace(/\/$/, '');
+  }
+
+  async generate(request: AnalyzerRequest): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/api/generate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.model,
+        prompt: request.prompt,
+        images: request.images.map(image => image.data.toString('base64')),
+        format: 'json',
+        stream: false
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as { response?: string };
+    if (typeof data.response !== 'string') {
+      throw new Error('Ollama response did not include generated text');
+    }
+
+    return data.response;
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * OpenAI-compatible chat completions provider
+ * Works with OpenAI and any server exposing the same /chat/completions API
+ * (Azure proxies, vLLM, LM Studio, OpenRouter, ...).
+ */
+
+import { AnalyzerConfigError } from './nutritionAnalyzer.js';
+import type { NutritionAnalyzer, AnalyzerRequest } from './nutritionAnalyzer.js';
+
+export class OpenAICompatibleAnalyzer implements NutritionAnalyzer {
+  readonly provider = 'openai';
+  readonly model: string;
+  private baseUrl: string;
+
+  constructor(model?: string) {
+    this.model = model || process.env.OPENAI_MODEL || 'gpt-4o-mini';
+    this.baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+  }
+
+  async generate(request: AnalyzerRequest): Promise<string> {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey && !process.env.OPENAI_BASE_URL) {
+      throw new AnalyzerConfigError('OPENAI_API_KEY environment variable is required');
+    }
+
+    const content = [
+      { type: 'text', text: request.prompt },
+      ...request.images.map(image => ({
+        type: 'image_url',
+        image_url: { url: `data:${image.mimeType};base64,${image.data.toString('base64')}` }
+      }))
+    ];
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` })
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content }],
+        response_format: { type: 'json_object' }
+      })
+    });
+
+    if (!response.ok) {
+      // Status code in the message lets the route classify quota/overload errors
+      throw new Error(`OpenAI-compatible request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+    const text = data.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new Error('OpenAI-compatible response did not include message content');
+    }
+
+    return text;
+  }
+}
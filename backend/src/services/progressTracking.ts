@@ -4,7 +4,15 @@
  */
 
 import { getDb } from './database.js';
-import { calculateMacroCompliance, DIET_TEMPLATES } from './dietCompliance.js';
+import type { DailyProgress, MealAnalysis, UserProfile } from './database.js';
+import { calculateMacroCompliance } from './dietCompliance.js';
+import type { DietTemplate } from './dietCompliance.js';
+import { resolveDietTemplate } from './dietTemplates.js';
+import type { MicronutrientValues } from '../types/nutrition.js';
+import { MICRONUTRIENTS } from '../utils/micronutrients.js';
+import { DEFAULT_TIME_ZONE, localDay, localWeekStart, addDays } from '../utils/timezone.js';
+import { inferMealType } from '../utils/mealTypes.js';
+import type { MealType } from '../utils/mealTypes.js';
 
 export interface DailyProgressData {
   userId: string;
@@ -15,6 +23,7 @@ export interface DailyProgressData {
   totalFat: number;
   totalFiber: number;
   totalSugar: number;
+  totalMicronutrients: MicronutrientValues;
   mealCount: number;
   goalCalories: number;
   goalProtein: number;
@@ -22,6 +31,7 @@ export interface DailyProgressData {
   goalFat: number;
   goalFiber: number | null;
   goalSugar: number | null;
+  micronutrientLimits: MicronutrientValues;
   isOnTrack: boolean;
   carbsCompliance: number;
   proteinCompliance: number;
@@ -30,31 +40,56 @@ export interface DailyProgressData {
 }
 
 /**
- * Update daily progress after a meal is logged
- * Recalculates totals from all meals for the day
+ * The IANA time zone a user's days are counted in
  */
-export async function updateDailyProgress(userId: string): Promise<DailyProgressData | null> {
-  const db = getDb();
+export async function getUserTimeZone(userId: string): Promise<string> {
+  const profile = await getDb().findUserProfileByUserId(userId);
+  return profile?.timezone || DEFAULT_TIME_ZONE;
+}
 
-  // Get user profile for goals
-  const profile = await db.findUserProfileByUserId(userId);
-  if (!profile) {
-    // User hasn't set up a profile yet, skip progress tracking
-    return null;
-  }
+/**
+ * The meal type to save: the user's choice, or inferred from the local time the meal was eaten
+ */
+export async function resolveMealType(userId: string, eatenAt: Date, requested?: MealType | null): Promise<MealType> {
+  return requested || inferMealType(eatenAt, await getUserTimeZone(userId));
+}
 
-  // Get today's date (start of day in UTC)
-  const today = new Date();
-  today.setUTCHours(0, 0, 0, 0);
+type DailyGoals = Pick<DailyProgressData,
+  'goalCalories' | 'goalProtein' | 'goalCarbs' | 'goalFat' | 'goalFiber' | 'goalSugar' | 'micronutrientLimits' | 'dietType'>;
 
-  // Get all meals for today
-  const meals = await db.findMealAnalysesByUserId(userId);
-  const todaysMeals = meals.filter(meal => {
-    const mealDate = new Date(meal.createdAt);
-    mealDate.setUTCHours(0, 0, 0, 0);
-    return mealDate.getTime() === today.getTime();
-  });
+// Far enough out to cover every stored day
+export const LAST_DAY = new Date(Date.UTC(9999, 11, 31));
+
+function goalsFromProfile(profile: UserProfile): DailyGoals {
+  return {
+    goalCalories: profile.dailyCalorieGoal,
+    goalProtein: profile.dailyProteinGoal,
+    goalCarbs: profile.dailyCarbsGoal,
+    goalFat: profile.dailyFatGoal,
+    goalFiber: profile.dailyFiberGoal,
+    goalSugar: profile.dailySugarLimit,
+    micronutrientLimits: profile.micronutrientLimits || {},
+    dietType: profile.dietType
+  };
+}
+
+function goalsFromProgress(progress: DailyProgress): DailyGoals {
+  return {
+    goalCalories: progress.goalCalories,
+    goalProtein: progress.goalProtein,
+    goalCarbs: progress.goalCarbs,
+    goalFat: progress.goalFat,
+    goalFiber: progress.goalFiber,
+    goalSugar: progress.goalSugar,
+    micronutrientLimits: progress.micronutrientLimits || {},
+    dietType: progress.dietType
+  };
+}
 
+/**
+ * Total a day's meals and check them against the goals
+ */
+function buildDailyProgress(userId: string, day: Date, meals: MealAnalysis[], goals: DailyGoals, template: DietTemplate): DailyProgressData {
   // Calculate totals from all meals
   let totalCalories = 0;
   let totalProtein = 0;
@@ -63,7 +98,9 @@ export async function updateDailyProgress(userId: string): Promise<DailyProgress
   let totalFiber = 0;
   let totalSugar = 0;
 
-  for (const meal of todaysMeals) {
+  const totalMicronutrients: MicronutrientValues = {};
+
+  for (const meal of meals) {
     const data = meal.nutritionData;
     if (data?.totals) {
       totalCalories += data.totals.calories || 0;
@@ -72,11 +109,21 @@ export async function updateDailyProgress(userId: string): Promise<DailyProgress
       totalFat += data.totals.fat || 0;
       totalFiber += data.totals.fiber || 0;
       totalSugar += data.totals.sugar || 0;
+
+      // Only micronutrients some meal reported are totalled
+      for (const { key } of MICRONUTRIENTS) {
+        if (typeof data.totals[key] === 'number') {
+          totalMicronutrients[key] = (totalMicronutrients[key] || 0) + data.totals[key];
+        }
+      }
     }
   }
 
-  // Get diet template for compliance calculation
-  const template = DIET_TEMPLATES[profile.dietType] || DIET_TEMPLATES.balanced;
+  for (const { key } of MICRONUTRIENTS) {
+    if (totalMicronutrients[key] !== undefined) {
+      totalMicronutrients[key] = Math.round(totalMicronutrients[key]! * 10) / 10;
+    }
+  }
 
   // Calculate compliance
   const compliance = calculateMacroCompliance(
@@ -86,48 +133,141 @@ export async function updateDailyProgress(userId: string): Promise<DailyProgress
       carbs: totalCarbs,
       fat: totalFat,
       fiber: totalFiber,
-      sugar: totalSugar
+      sugar: totalSugar,
+      micronutrients: totalMicronutrients
     },
     {
-      calories: profile.dailyCalorieGoal,
-      protein: profile.dailyProteinGoal,
-      carbs: profile.dailyCarbsGoal,
-      fat: profile.dailyFatGoal,
-      fiber: profile.dailyFiberGoal || undefined,
-      sugar: profile.dailySugarLimit || undefined
+      calories: goals.goalCalories,
+      protein: goals.goalProtein,
+      carbs: goals.goalCarbs,
+      fat: goals.goalFat,
+      fiber: goals.goalFiber || undefined,
+      sugar: goals.goalSugar || undefined,
+      micronutrientLimits: goals.micronutrientLimits
     },
     template
   );
 
-  const progressData: DailyProgressData = {
+  return {
     userId,
-    date: today,
+    date: day,
     totalCalories: Math.round(totalCalories),
     totalProtein: Math.round(totalProtein),
     totalCarbs: Math.round(totalCarbs),
     totalFat: Math.round(totalFat),
     totalFiber: Math.round(totalFiber),
     totalSugar: Math.round(totalSugar),
-    mealCount: todaysMeals.length,
-    goalCalories: profile.dailyCalorieGoal,
-    goalProtein: profile.dailyProteinGoal,
-    goalCarbs: profile.dailyCarbsGoal,
-    goalFat: profile.dailyFatGoal,
-    goalFiber: profile.dailyFiberGoal,
-    goalSugar: profile.dailySugarLimit,
+    totalMicronutrients,
+    mealCount: meals.length,
+    ...goals,
     isOnTrack: compliance.isOnTrack,
     carbsCompliance: compliance.carbsCompliance,
     proteinCompliance: compliance.proteinCompliance,
-    fatCompliance: compliance.fatCompliance,
-    dietType: profile.dietType
+    fatCompliance: compliance.fatCompliance
   };
+}
+
+/**
+ * Recalculate and store one local day from its meals.
+ * Today is checked against the current profile goals; earlier days keep the
+ * goals they were recorded with. A day left with no meals is removed.
+ */
+async function saveDayProgress(profile: UserProfile, day: Date, meals: MealAnalysis[]): Promise<DailyProgressData> {
+  const db = getDb();
+  const timeZone = profile.timezone || DEFAULT_TIME_ZONE;
+  const isToday = day.getTime() === localDay(new Date(), timeZone).getTime();
+
+  const stored = isToday ? null : await db.findDailyProgressByUserAndDate(profile.userId, day);
+  const goals = stored ? goalsFromProgress(stored) : goalsFromProfile(profile);
+  const template = await resolveDietTemplate(goals.dietType);
+  const progressData = buildDailyProgress(profile.userId, day, meals, goals, template);
 
-  // Save or update daily progress
-  await db.createOrUpdateDailyProgress(progressData);
+  if (meals.length === 0) {
+    await db.deleteDailyProgress(profile.userId, day);
+  } else {
+    await db.createOrUpdateDailyProgress(progressData);
+  }
 
   return progressData;
 }
 
+/**
+ * Update daily progress after a meal is logged, edited or deleted
+ * Recalculates totals from all meals for the user's local day containing
+ * `date` (today by default)
+ */
+export async function updateDailyProgress(userId: string, date: Date = new Date()): Promise<DailyProgressData | null> {
+  const db = getDb();
+
+  // Get user profile for goals
+  const profile = await db.findUserProfileByUserId(userId);
+  if (!profile) {
+    // User hasn't set up a profile yet, skip progress tracking
+    return null;
+  }
+
+  // The day in the user's time zone
+  const timeZone = profile.timezone || DEFAULT_TIME_ZONE;
+  const day = localDay(date, timeZone);
+
+  const meals = await db.findMealAnalysesByUserId(userId);
+  const daysMeals = meals.filter(meal => localDay(meal.createdAt, timeZone).getTime() === day.getTime());
+
+  return saveDayProgress(profile, day, daysMeals);
+}
+
+/**
+ * Recalculate every local day touched by the given meal times, once each.
+ * Used when a meal moves between days or is deleted.
+ */
+export async function refreshDailyProgress(userId: string, dates: Date[]): Promise<void> {
+  const timeZone = await getUserTimeZone(userId);
+  const seen = new Set<number>();
+
+  for (const date of dates) {
+    const day = localDay(date, timeZone).getTime();
+    if (seen.has(day)) continue;
+    seen.add(day);
+    await updateDailyProgress(userId, date);
+  }
+}
+
+/**
+ * Rebuild all of a user's daily progress from their meals, removing days
+ * that no longer have any. Returns null when the user has no profile.
+ */
+export async function rebuildDailyProgress(userId: string): Promise<{ daysUpdated: number; daysRemoved: number } | null> {
+  const db = getDb();
+
+  const profile = await db.findUserProfileByUserId(userId);
+  if (!profile) {
+    return null;
+  }
+
+  const timeZone = profile.timezone || DEFAULT_TIME_ZONE;
+  const mealsByDay = new Map<number, MealAnalysis[]>();
+  for (const meal of await db.findMealAnalysesByUserId(userId)) {
+    const day = localDay(meal.createdAt, timeZone).getTime();
+    mealsByDay.set(day, [...(mealsByDay.get(day) || []), meal]);
+  }
+
+  for (const [day, meals] of mealsByDay) {
+    await saveDayProgress(profile, new Date(day), meals);
+  }
+
+  // Days whose meals were all deleted or moved elsewhere
+  let daysRemoved = 0;
+  for (const stored of await db.findDailyProgressByUserAndDateRange(userId, new Date(0), LAST_DAY)) {
+    if (!mealsByDay.has(stored.date.getTime())) {
+      await db.deleteDailyProgress(userId, stored.date);
+      daysRemoved++;
+    }
+  }
+
+  console.log(`[Progress] Rebuilt ${mealsByDay.size} days for user ${userId}, removed ${daysRemoved}`);
+  return { daysUpdated: mealsByDay.size, daysRemoved };
+}
+
 /**
  * Get progress data for a date range
  */
@@ -160,8 +300,7 @@ export async function calculateWeeklySummary(
   const db = getDb();
 
   // Calculate week end (7 days from start)
-  const weekEnd = new Date(weekStart);
-  weekEnd.setDate(weekEnd.getDate() + 6);
+  const weekEnd = addDays(weekStart, 6);
 
   // Get all daily progress for the week
   const dailyProgress = await db.findDailyProgressByUserAndDateRange(userId, weekStart, weekEnd);
@@ -211,15 +350,10 @@ export async function calculateWeeklySummary(
 }
 
 /**
- * Get the start of the current week (Monday)
+ * Get the start of the current week (Monday) in the user's time zone
  */
-export function getWeekStart(date: Date = new Date()): Date {
-  const d = new Date(date);
-  const day = d.getDay();
-  const diff = d.getDate() - day + (day === 0 ? -6 : 1); // Adjust when day is Sunday
-  d.setDate(diff);
-  d.setUTCHours(0, 0, 0, 0);
-  return d;
+export function getWeekStart(date: Date = new Date(), timeZone: string = DEFAULT_TIME_ZONE): Date {
+  return localWeekStart(date, timeZone);
 }
 
 /**
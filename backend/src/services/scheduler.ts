@@ -0,0 +1,115 @@
+/**
+ * Task Scheduler
+ * Runs registered background tasks whenever its trigger fires. The default
+ * trigger is an in-process interval; on hosts that scale to zero (Cloud Run)
+ * use the external trigger and call POST /api/scheduler/run from a cron
+ * service instead.
+ *
+ * A task that is still running when the trigger fires again is skipped for
+ * that tick rather than run twice.
+ */
+
+export type ScheduledTask = (now: Date) => Promise<unknown>;
+
+/**
+ * Decides when tasks run: calls `fire` on each tick and returns a function
+ * that stops it
+ */
+export type ScheduleTrigger = (fire: () => void) => () => void;
+
+export type SchedulerTriggerKind = 'interval' | 'external';
+
+/**
+ * Fire every `intervalMs`, without keeping the process alive
+ */
+export function intervalTrigger(intervalMs: number): ScheduleTrigger {
+  return fire => {
+    const timer = setInterval(fire, intervalMs);
+    timer.unref();
+    return () => clearInterval(timer);
+  };
+}
+
+/**
+ * Never fire on its own; tasks only run through runAll()
+ */
+export const externalTrigger: ScheduleTrigger = () => () => {};
+
+export class Scheduler {
+  private tasks = new Map<string, ScheduledTask>();
+  private running = new Map<string, Promise<void>>();
+  private stopTrigger: (() => void) | null = null;
+
+  constructor(private trigger: ScheduleTrigger = externalTrigger) {}
+
+  register(name: string, task: ScheduledTask): void {
+    this.tasks.set(name, task);
+  }
+
+  start(): void {
+    if (this.stopTrigger) return;
+    this.stopTrigger = this.trigger(() => {
+      void this.runAll();
+    });
+  }
+
+  /**
+   * Stop the trigger (used on shutdown and in tests); running tasks finish
+   */
+  stop(): void {
+    this.stopTrigger?.();
+    this.stopTrigger = null;
+  }
+
+  /**
+   * Run every registered task once and wait for them. Returns the names of
+   * the tasks that ran; tasks already in progress are skipped.
+   */
+  async runAll(now: Date = new Date()): Promise<string[]> {
+    const started: string[] = [];
+    for (const name of this.tasks.keys()) {
+      if (this.running.has(name)) continue;
+      this.running.set(name, this.run(name, now));
+      started.push(name);
+    }
+    await Promise.all(started.map(name => this.running.get(name)));
+    return started;
+  }
+
+  private async run(name: string, now: Date): Promise<void> {
+    const started = Date.now();
+    try {
+      await this.tasks.get(name)!(now);
+      console.log(`[Scheduler] ${name} finished in ${Date.now() - started}ms`);
+    } catch (error) {
+      // Tasks are retried on the next tick
+      console.error(`[Scheduler] ${name} failed:`, error);
+    } finally {
+      this.running.delete(name);
+    }
+  }
+}
+
+// Singleton instance
+let schedulerInstance: Scheduler | null = null;
+
+export function getSchedulerTriggerKind(): SchedulerTriggerKind {
+  return process.env.SCHEDULER_TRIGGER === 'external' ? 'external' : 'interval';
+}
+
+export function getScheduler(): Scheduler {
+  if (!schedulerInstance) {
+    schedulerInstance = new Scheduler(getSchedulerTriggerKind() === 'external'
+      ? externalTrigger
+      : intervalTrigger(parseInt(process.env.SCHEDULER_INTERVAL_MS || String(60 * 60 * 1000), 10)));
+  }
+  return schedulerInstance;
+}
+
+/**
+ * Replace the singleton (tests inject a scheduler with their own trigger)
+ */
+export function setScheduler(scheduler: Scheduler | null): void {
+  schedulerInstance?.stop();
+  schedulerInstance = scheduler;
+}
@@ -0,0 +1,1459 @@
+/**
+ * Database service using SQL (SQLite or PostgreSQL)
+ * Both dialects share one schema and one set of queries; the driver
+ * translates placeholders and column types where they differ.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  DatabaseService,
+  User,
+  MealAnalysis,
+  UserProfile,
+  DietTemplate,
+  DietTemplateFields,
+  DailyProgress,
+  WeeklySummary,
+  KetoneLog,
+  BodyMeasurement,
+  RefreshToken,
+  EmailToken,
+  EmailTokenPurpose,
+  OAuthIdentity,
+  UsageCounter,
+  FoodProduct,
+  ReferenceFood
+} from './database.js';
+import { searchTokens } from '../utils/foodSearch.js';
+import type { MealType } from '../utils/mealTypes.js';
+import { MEAL_MACROS, mealMacro, mealSearchText, toMealPage } from '../utils/mealQuery.js';
+import type { MealQuery, MealPage } from '../utils/mealQuery.js';
+import { DEFAULT_TIME_ZONE } from '../utils/timezone.js';
+import { DEFAULT_DIET_RULES } from './dietCompliance.js';
+
+export type SqlDialect = 'sqlite' | 'postgres';
+
+export interface SqlDriver {
+  dialect: SqlDialect;
+  query(sql: string, params?: unknown[]): Promise<any[]>;
+  execute(sql: string, params?: unknown[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * SQLite driver (better-sqlite3). Loaded lazily so Firestore
+ * deployments never need the native module.
+ */
+export async function createSqliteDriver(filename: string): Promise<SqlDriver> {
+  const { default: Database } = await import('better-sqlite3');
+  if (filename !== ':memory:') {
+    const { mkdirSync } = await import('fs');
+    const { dirname } = await import('path');
+    mkdirSync(dirname(filename), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  return {
+    dialect: 'sqlite',
+    async query(sql, params = []) {
+      return db.prepare(sql).all(...params);
+    },
+    async execute(sql, params = []) {
+      db.prepare(sql).run(...params);
+    },
+    async close() {
+      db.close();
+    }
+  };
+}
+
+/**
+ * PostgreSQL driver (node-postgres). Queries are written with `?`
+ * placeholders and rewritten to `$1, $2, ...` here.
+ */
+export async function createPostgresDriver(connectionString: string): Promise<SqlDriver> {
+  const { default: pg } = await import('pg');
+  const pool = new pg.Pool({ connectionString });
+
+  const toPositional = (sql: string) => {
+    let index = 0;
+    return sql.replace(/\?/g, () => `$${++index}`);
+  };
+
+  return {
+    dialect: 'postgres',
+    async query(sql, params = []) {
+      const result = await pool.query(toPositional(sql), params);
+      return result.rows;
+    },
+    async execute(sql, params = []) {
+      await pool.query(toPositional(sql), params);
+    },
+    async close() {
+      await pool.end();
+    }
+  };
+}
+
+function schema(dialect: SqlDialect): string[] {
+  const timestamp = dialect === 'postgres' ? 'TIMESTAMPTZ' : 'TEXT';
+  const json = dialect === 'postgres' ? 'JSONB' : 'TEXT';
+  const bool = dialect === 'postgres' ? 'BOOLEAN' : 'INTEGER';
+  const real = dialect === 'postgres' ? 'DOUBLE PRECISION' : 'REAL';
+
+  return [
+    `CREATE TABLE IF NOT EXISTS users (
+      id TEXT PRIMARY KEY,
+      email TEXT NOT NULL UNIQUE,
+      password_hash TEXT NOT NULL,
+      name TEXT NOT NULL,
+      email_verified ${bool},
+      tier TEXT,
+      created_at ${timestamp} NOT NULL
+    )`,
+    `CREATE TABLE IF NOT EXISTS meal_analyses (
+      id TEXT PRIMARY KEY,
+      user_id TEXT,
+      image_url TEXT NOT NULL,
+      thumbnail TEXT,
+      thumbnails ${json},
+      nutrition_data ${json} NOT NULL,
+      meal_type TEXT,
+      calories ${real},
+      protein ${real},
+      carbs ${real},
+      fat ${real},
+      search_text TEXT,
+      created_at ${timestamp} NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_meal_analyses_user_created ON meal_analyses (user_id, created_at)`,
+    `CREATE TABLE IF NOT EXISTS user_profiles (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL UNIQUE,
+      diet_type TEXT NOT NULL,
+      daily_calorie_goal ${real} NOT NULL,
+      daily_protein_goal ${real} NOT NULL,
+      daily_carbs_goal ${real} NOT NULL,
+      daily_fat_goal ${real} NOT NULL,
+      daily_fiber_goal ${real},
+      daily_sugar_limit ${real},
+      weight ${real},
+      goal_weight ${real},
+      height ${real},
+      age INTEGER,
+      gender TEXT,
+      activity_level TEXT,
+      dietary_restrictions ${json} NOT NULL,
+      micronutrient_limits ${json},
+      timezone TEXT,
+      created_at ${timestamp} NOT NULL,
+      updated_at ${timestamp} NOT NULL
+    )`,
+    `CREATE TABLE IF NOT EXISTS diet_templates (
+      id TEXT PRIMARY KEY,
+      diet_type TEXT NOT NULL,
+      data ${json} NOT NULL
+    )`,
+    `CREATE TABLE IF NOT EXISTS daily_progress (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      date ${timestamp} NOT NULL,
+      total_calories ${real} NOT NULL,
+      total_protein ${real} NOT NULL,
+      total_carbs ${real} NOT NULL,
+      total_fat ${real} NOT NULL,
+      total_fiber ${real} NOT NULL,
+      total_sugar ${real} NOT NULL,
+      total_micronutrients ${json},
+      meal_count INTEGER NOT NULL,
+      goal_calories ${real} NOT NULL,
+      goal_protein ${real} NOT NULL,
+      goal_carbs ${real} NOT NULL,
+      goal_fat ${real} NOT NULL,
+      goal_fiber ${real},
+      goal_sugar ${real},
+      micronutrient_limits ${json},
+      is_on_track ${bool} NOT NULL,
+      carbs_compliance ${real} NOT NULL,
+      protein_compliance ${real} NOT NULL,
+      fat_compliance ${real} NOT NULL,
+      diet_type TEXT NOT NULL,
+      created_at ${timestamp} NOT NULL,
+      updated_at ${timestamp} NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_daily_progress_user_date ON daily_progress (user_id, date)`,
+    `CREATE TABLE IF NOT EXISTS weekly_summaries (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      week_start ${timestamp} NOT NULL,
+      week_end ${timestamp} NOT NULL,
+      avg_calories ${real} NOT NULL,
+      avg_protein ${real} NOT NULL,
+      avg_carbs ${real} NOT NULL,
+      avg_fat ${real} NOT NULL,
+      avg_fiber ${real} NOT NULL,
+      avg_sugar ${real} NOT NULL,
+      total_meals INTEGER NOT NULL,
+      days_tracked INTEGER NOT NULL,
+      compliance_rate ${real} NOT NULL,
+      created_at ${timestamp} NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_weekly_summaries_user_week ON weekly_summaries (user_id, week_start)`,
+    `CREATE TABLE IF NOT EXISTS ketone_logs (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      timestamp ${timestamp} NOT NULL,
+      ketone_level ${real} NOT NULL,
+      measurement_type TEXT NOT NULL,
+      notes TEXT,
+      created_at ${timestamp} NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_ketone_logs_user_timestamp ON ketone_logs (user_id, timestamp)`,
+    `CREATE TABLE IF NOT EXISTS body_measurements (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      measured_at ${timestamp} NOT NULL,
+      weight ${real},
+      waist ${real},
+      body_fat ${real},
+      notes TEXT,
+      created_at ${timestamp} NOT NULL,
+      updated_at ${timestamp} NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_body_measurements_user_measured ON body_measurements (user_id, measured_at)`,
+    `CREATE TABLE IF NOT EXISTS refresh_tokens (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      expires_at ${timestamp} NOT NULL,
+      revoked_at ${timestamp},
+      created_at ${timestamp} NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user ON refresh_tokens (user_id)`,
+    `CREATE INDEX IF NOT EXISTS idx_refresh_tokens_expires ON refresh_tokens (expires_at)`,
+    `CREATE TABLE IF NOT EXISTS email_tokens (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      purpose TEXT NOT NULL,
+      email TEXT NOT NULL,
+      expires_at ${timestamp} NOT NULL,
+      created_at ${timestamp} NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_email_tokens_user ON email_tokens (user_id, purpose)`,
+    `CREATE TABLE IF NOT EXISTS oauth_identities (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      email TEXT NOT NULL,
+      created_at ${timestamp} NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_oauth_identities_user ON oauth_identities (user_id)`,
+    `CREATE TABLE IF NOT EXISTS usage_counters (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      metric TEXT NOT NULL,
+      date TEXT NOT NULL,
+      count INTEGER NOT NULL
+    )`,
+    `CREATE INDEX IF NOT EXISTS idx_usage_counters_user ON usage_counters (user_id, date)`,
+    `CREATE INDEX IF NOT EXISTS idx_usage_counters_date ON usage_counters (date)`,
+    `CREATE TABLE IF NOT EXISTS food_products (
+      barcode TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      brand TEXT,
+      serving_size TEXT,
+      serving_quantity ${real},
+      nutrients_per_100g ${json} NOT NULL,
+      source TEXT NOT NULL,
+      updated_at ${timestamp} NOT NULL
+    )`,
+    `CREATE TABLE IF NOT EXISTS reference_foods (
+      id TEXT PRIMARY KEY,
+      description TEXT NOT NULL,
+      category TEXT,
+      data_type TEXT NOT NULL,
+      nutrients_per_100g ${json} NOT NULL,
+      portions ${json} NOT NULL,
+      source TEXT NOT NULL,
+      updated_at ${timestamp} NOT NULL
+    )`
+  ];
+}
+
+// Column values as they come back from either driver
+const toDate = (value: unknown): Date => value instanceof Date ? value : new Date(value as string);
+const toJson = (value: unknown): any => typeof value === 'string' ? JSON.parse(value) : value;
+const dateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+// Columns added after a table's first release; existing databases gain them on startup
+function addedColumns(dialect: SqlDialect): Array<{ table: string; column: string; type: string }> {
+  const json = dialect === 'postgres' ? 'JSONB' : 'TEXT';
+  const real = dialect === 'postgres' ? 'DOUBLE PRECISION' : 'REAL';
+  const bool = dialect === 'postgres' ? 'BOOLEAN' : 'INTEGER';
+
+  return [
+    { table: 'meal_analyses', column: 'thumbnails', type: json },
+    { table: 'user_profiles', column: 'micronutrient_limits', type: json },
+    { table: 'daily_progress', column: 'total_micronutrients', type: json },
+    { table: 'daily_progress', column: 'micronutrient_limits', type: json },
+    { table: 'meal_analyses', column: 'meal_type', type: 'TEXT' },
+    { table: 'user_profiles', column: 'timezone', type: 'TEXT' },
+    ...MEAL_MACROS.map(column => ({ table: 'meal_analyses', column, type: real })),
+    { table: 'meal_analyses', column: 'search_text', type: 'TEXT' },
+    { table: 'users', column: 'email_verified', type: bool },
+    { table: 'users', column: 'tier', type: 'TEXT' },
+    { table: 'user_profiles', column: 'goal_weight', type: real },
+    { table: 'diet_templates', column: 'user_id', type: 'TEXT' }
+  ];
+}
+
+// Macro totals and food names copied out of nutrition_data so meal queries can filter on them
+function mealQueryColumns(nutritionData: any): unknown[] {
+  return [...MEAL_MACROS.map(macro => mealMacro(nutritionData, macro)), mealSearchText(nutritionData)];
+}
+
+/**
+ * Fill the meal query columns for meals saved before they existed
+ */
+async function backfillMealQueryColumns(driver: SqlDriver): Promise<void> {
+  const rows = await driver.query('SELECT id, nutrition_data FROM meal_analyses WHERE search_text IS NULL');
+  for (const row of rows) {
+    await driver.execute(
+      `UPDATE meal_analyses SET ${MEAL_MACROS.map(macro => `${macro} = ?`).join(', ')}, search_text = ? WHERE id = ?`,
+      [...mealQueryColumns(toJson(row.nutrition_data)), row.id]
+    );
+  }
+}
+
+async function addColumnIfMissing(driver: SqlDriver, table: string, column: string, type: string): Promise<void> {
+  if (driver.dialect === 'postgres') {
+    await driver.execute(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS ${column} ${type}`);
+    return;
+  }
+
+  const columns = await driver.query(`PRAGMA table_info(${table})`);
+  if (!columns.some(info => info.name === column)) {
+    await driver.execute(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+}
+
+function rowToUser(row: any): User {
+  return {
+    id: row.id,
+    email: row.email,
+    passwordHash: row.password_hash,
+    name: row.name,
+    emailVerified: Boolean(row.email_verified),
+    tier: row.tier || 'free',
+    createdAt: toDate(row.created_at)
+  };
+}
+
+function rowToMealAnalysis(row: any): MealAnalysis {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    imageUrl: row.image_url,
+    thumbnail: row.thumbnail || null,
+    thumbnails: row.thumbnails ? toJson(row.thumbnails) : (row.thumbnail ? [row.thumbnail] : []),
+    nutritionData: toJson(row.nutrition_data),
+    mealType: row.meal_type ?? null,
+    createdAt: toDate(row.created_at)
+  };
+}
+
+function rowToUserProfile(row: any): UserProfile {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    dietType: row.diet_type,
+    dailyCalorieGoal: row.daily_calorie_goal,
+    dailyProteinGoal: row.daily_protein_goal,
+    dailyCarbsGoal: row.daily_carbs_goal,
+    dailyFatGoal: row.daily_fat_goal,
+    dailyFiberGoal: row.daily_fiber_goal ?? null,
+    dailySugarLimit: row.daily_sugar_limit ?? null,
+    weight: row.weight ?? null,
+    goalWeight: row.goal_weight ?? null,
+    height: row.height ?? null,
+    age: row.age ?? null,
+    gender: row.gender ?? null,
+    activityLevel: row.activity_level ?? null,
+    dietaryRestrictions: toJson(row.dietary_restrictions) || [],
+    micronutrientLimits: toJson(row.micronutrient_limits) || {},
+    timezone: row.timezone || DEFAULT_TIME_ZONE,
+    createdAt: toDate(row.created_at),
+    updatedAt: toDate(row.updated_at)
+  };
+}
+
+function rowToDailyProgress(row: any): DailyProgress {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    date: toDate(row.date),
+    totalCalories: row.total_calories,
+    totalProtein: row.total_protein,
+    totalCarbs: row.total_carbs,
+    totalFat: row.total_fat,
+    totalFiber: row.total_fiber,
+    totalSugar: row.total_sugar,
+    totalMicronutrients: toJson(row.total_micronutrients) || {},
+    mealCount: row.meal_count,
+    goalCalories: row.goal_calories,
+    goalProtein: row.goal_protein,
+    goalCarbs: row.goal_carbs,
+    goalFat: row.goal_fat,
+    goalFiber: row.goal_fiber ?? null,
+    goalSugar: row.goal_sugar ?? null,
+    micronutrientLimits: toJson(row.micronutrient_limits) || {},
+    isOnTrack: Boolean(row.is_on_track),
+    carbsCompliance: row.carbs_compliance,
+    proteinCompliance: row.protein_compliance,
+    fatCompliance: row.fat_compliance,
+    dietType: row.diet_type,
+    createdAt: toDate(row.created_at),
+    updatedAt: toDate(row.updated_at)
+  };
+}
+
+function rowToWeeklySummary(row: any): WeeklySummary {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    weekStart: toDate(row.week_start),
+    weekEnd: toDate(row.week_end),
+    avgCalories: row.avg_calories,
+    avgProtein: row.avg_protein,
+    avgCarbs: row.avg_carbs,
+    avgFat: row.avg_fat,
+    avgFiber: row.avg_fiber,
+    avgSugar: row.avg_sugar,
+    totalMeals: row.total_meals,
+    daysTracked: row.days_tracked,
+    complianceRate: row.compliance_rate,
+    createdAt: toDate(row.created_at)
+  };
+}
+
+function rowToKetoneLog(row: any): KetoneLog {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    timestamp: toDate(row.timestamp),
+    ketoneLevel: row.ketone_level,
+    measurementType: row.measurement_type,
+    notes: row.notes ?? null,
+    createdAt: toDate(row.created_at)
+  };
+}
+
+function rowToBodyMeasurement(row: any): BodyMeasurement {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    measuredAt: toDate(row.measured_at),
+    weight: row.weight ?? null,
+    waist: row.waist ?? null,
+    bodyFat: row.body_fat ?? null,
+    notes: row.notes ?? null,
+    createdAt: toDate(row.created_at),
+    updatedAt: toDate(row.updated_at)
+  };
+}
+
+// Everything but the id, owner and diet type lives in the data column
+function rowToDietTemplate(row: any): DietTemplate {
+  const data = toJson(row.data) || {};
+  return {
+    ...data,
+    id: row.id,
+    userId: row.user_id ?? null,
+    dietType: row.diet_type,
+    fiberMinimum: data.fiberMinimum ?? null,
+    sugarMaximum: data.sugarMaximum ?? null,
+    rules: { ...DEFAULT_DIET_RULES, ...data.rules },
+    createdAt: data.createdAt ? toDate(data.createdAt) : new Date(0),
+    updatedAt: data.updatedAt ? toDate(data.updatedAt) : new Date(0)
+  };
+}
+
+function dietTemplateData(template: DietTemplate): string {
+  const { id: _id, userId: _userId, dietType: _dietType, ...data } = template;
+  return JSON.stringify(data);
+}
+
+function rowToRefreshToken(row: any): RefreshToken {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    expiresAt: toDate(row.expires_at),
+    revokedAt: row.revoked_at ? toDate(row.revoked_at) : null,
+    createdAt: toDate(row.created_at)
+  };
+}
+
+function rowToEmailToken(row: any): EmailToken {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    purpose: row.purpose,
+    email: row.email,
+    expiresAt: toDate(row.expires_at),
+    createdAt: toDate(row.created_at)
+  };
+}
+
+function rowToOAuthIdentity(row: any): OAuthIdentity {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    provider: row.provider,
+    subject: row.subject,
+    email: row.email,
+    createdAt: toDate(row.created_at)
+  };
+}
+
+function rowToFoodProduct(row: any): FoodProduct {
+  return {
+    barcode: row.barcode,
+    name: row.name,
+    brand: row.brand ?? null,
+    servingSize: row.serving_size ?? null,
+    servingQuantity: row.serving_quantity ?? null,
+    nutrientsPer100g: toJson(row.nutrients_per_100g),
+    source: row.source,
+    updatedAt: toDate(row.updated_at)
+  };
+}
+
+function rowToReferenceFood(row: any): ReferenceFood {
+  return {
+    id: row.id,
+    description: row.description,
+    category: row.category ?? null,
+    dataType: row.data_type,
+    nutrientsPer100g: toJson(row.nutrients_per_100g),
+    portions: toJson(row.portions),
+    source: row.source,
+    updatedAt: toDate(row.updated_at)
+  };
+}
+
+// Rows per multi-row INSERT when importing product catalogs and reference foods
+const PRODUCT_BATCH_SIZE = 200;
+
+// camelCase profile fields to their column names, for partial updates
+const PROFILE_COLUMNS: Record<string, string> = {
+  dietType: 'diet_type',
+  dailyCalorieGoal: 'daily_calorie_goal',
+  dailyProteinGoal: 'daily_protein_goal',
+  dailyCarbsGoal: 'daily_carbs_goal',
+  dailyFatGoal: 'daily_fat_goal',
+  dailyFiberGoal: 'daily_fiber_goal',
+  dailySugarLimit: 'daily_sugar_limit',
+  weight: 'weight',
+  goalWeight: 'goal_weight',
+  height: 'height',
+  age: 'age',
+  gender: 'gender',
+  activityLevel: 'activity_level',
+  dietaryRestrictions: 'dietary_restrictions',
+  micronutrientLimits: 'micronutrient_limits',
+  timezone: 'timezone'
+};
+
+// Tables whose rows belong to a user through their user_id column
+const USER_OWNED_TABLES = [
+  'meal_analyses',
+  'user_profiles',
+  'daily_progress',
+  'weekly_summaries',
+  'ketone_logs',
+  'body_measurements',
+  'diet_templates',
+  'refresh_tokens',
+  'email_tokens',
+  'oauth_identities',
+  'usage_counters'
+];
+
+// Profile columns stored as JSON
+const PROFILE_JSON_FIELDS = new Set(['dietaryRestrictions', 'micronutrientLimits']);
+
+/**
+ * SQL implementation
+ */
+export class SqlDatabase implements DatabaseService {
+  private ready: Promise<SqlDriver>;
+
+  constructor(connect: () => Promise<SqlDriver>) {
+    this.ready = connect().then(async driver => {
+      for (const statement of schema(driver.dialect)) {
+        await driver.execute(statement);
+      }
+      for (const { table, column, type } of addedColumns(driver.dialect)) {
+        await addColumnIfMissing(driver, table, column, type);
+      }
+      await backfillMealQueryColumns(driver);
+      return driver;
+    });
+    // Connecting starts before anything awaits it; a failure is reported to
+    // callers through driver() instead of crashing the process as unhandled
+    this.ready.catch(() => {});
+  }
+
+  private async driver(): Promise<SqlDriver> {
+    return this.ready;
+  }
+
+  async createUser(data: { email: string; passwordHash: string; name: string }): Promise<User> {
+    const sql = await this.driver();
+    const user: User = {
+      id: randomUUID(),
+      ...data,
+      emailVerified: false,
+      tier: 'free',
+      createdAt: new Date()
+    };
+
+    await sql.execute(
+      'INSERT INTO users (id, email, password_hash, name, email_verified, tier, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [user.id, user.email, user.passwordHash, user.name, 0, user.tier, user.createdAt.toISOString()]
+    );
+
+    return user;
+  }
+
+  async findUserByEmail(email: string): Promise<User | null> {
+    const sql = await this.driver();
+    const rows = await sql.query('SELECT * FROM users WHERE email = ? LIMIT 1', [email]);
+    return rows.length > 0 ? rowToUser(rows[0]) : null;
+  }
+
+  async findUserById(id: string): Promise<User | null> {
+    const sql = await this.driver();
+    const rows = await sql.query('SELECT * FROM users WHERE id = ?', [id]);
+    return rows.length > 0 ? rowToUser(rows[0]) : null;
+  }
+
+  async updateUser(id: string, data: Partial<Pick<User, 'email' | 'passwordHash' | 'emailVerified' | 'tier'>>): Promise<User | null> {
+    const sql = await this.driver();
+    const assignments: string[] = [];
+    const params: unknown[] = [];
+
+    if (data.email !== undefined) {
+      assignments.push('email = ?');
+      params.push(data.email);
+    }
+    if (data.passwordHash !== undefined) {
+      assignments.push('password_hash = ?');
+      params.push(data.passwordHash);
+    }
+    if (data.emailVerified !== undefined) {
+      assignments.push('email_verified = ?');
+      params.push(data.emailVerified ? 1 : 0);
+    }
+    if (data.tier !== undefined) {
+      assignments.push('tier = ?');
+      params.push(data.tier);
+    }
+
+    if (assignments.length > 0) {
+      await sql.execute(`UPDATE users SET ${assignments.join(', ')} WHERE id = ?`, [...params, id]);
+    }
+    return this.findUserById(id);
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    const sql = await this.driver();
+    // Owned rows first, so a failure part way leaves the account in place to retry
+    for (const table of USER_OWNED_TABLES) {
+      await sql.execute(`DELETE FROM ${table} WHERE user_id = ?`, [id]);
+    }
+    await sql.execute('DELETE FROM users WHERE id = ?', [id]);
+  }
+
+  async createMealAnalysis(data: { userId?: string; imageUrl: string; thumbnail?: string; thumbnails?: string[]; nutritionData: any; mealType?: MealType | null; createdAt?: Date }): Promise<MealAnalysis> {
+    const sql = await this.driver();
+    const analysis: MealAnalysis = {
+      id: randomUUID(),
+      userId: data.userId || null,
+      imageUrl: data.imageUrl,
+      thumbnail: data.thumbnail || data.thumbnails?.[0] || null,
+      thumbnails: data.thumbnails || (data.thumbnail ? [data.thumbnail] : []),
+      nutritionData: data.nutritionData,
+      mealType: data.mealType ?? null,
+      createdAt: data.createdAt || new Date()
+    };
+
+    await sql.execute(
+      `INSERT INTO meal_analyses (
+        id, user_id, image_url, thumbnail, thumbnails, nutrition_data, meal_type,
+        calories, protein, carbs, fat, search_text, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        analysis.id,
+        analysis.userId,
+        analysis.imageUrl,
+        analysis.thumbnail,
+        JSON.stringify(analysis.thumbnails),
+        JSON.stringify(analysis.nutritionData),
+        analysis.mealType,
+        ...mealQueryColumns(analysis.nutritionData),
+        analysis.createdAt.toISOString()
+      ]
+    );
+
+    return analysis;
+  }
+
+  async findMealAnalysesByUserId(userId: string): Promise<MealAnalysis[]> {
+    const sql = await this.driver();
+    const rows = await sql.query(
+      'SELECT * FROM meal_analyses WHERE user_id = ? ORDER BY created_at DESC',
+      [userId]
+    );
+    return rows.map(rowToMealAnalysis);
+  }
+
+  async queryMealAnalyses(query: MealQuery): Promise<MealPage> {
+    const sql = await this.driver();
+    const conditions = ['user_id = ?'];
+    const params: unknown[] = [query.userId];
+
+    if (query.from) {
+      conditions.push('created_at >= ?');
+      params.push(query.from.toISOString());
+    }
+    if (query.to) {
+      conditions.push('created_at < ?');
+      params.push(query.to.toISOString());
+    }
+    if (query.mealTypes) {
+      conditions.push(`meal_type IN (${query.mealTypes.map(() => '?').join(', ')})`);
+      params.push(...query.mealTypes);
+    }
+    for (const macro of MEAL_MACROS) {
+      const range = query.macros?.[macro];
+      if (range?.min !== undefined) {
+        conditions.push(`${macro} >= ?`);
+        params.push(range.min);
+      }
+      if (range?.max !== undefined) {
+        conditions.push(`${macro} <= ?`);
+        params.push(range.max);
+      }
+    }
+    for (const token of searchTokens(query.search || '')) {
+      conditions.push('search_text LIKE ?');
+      params.push(`%${token}%`);
+    }
+
+    // Keyset pagination: rows after the cursor's (sort value, id)
+    const column = query.sort === 'createdAt' ? 'created_at' : query.sort;
+    const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+    if (query.cursor) {
+      const comparison = query.order === 'asc' ? '>' : '<';
+      const value = query.sort === 'createdAt' ? new Date(query.cursor.value).toISOString() : query.cursor.value;
+      conditions.push(`(${column} ${comparison} ? OR (${column} = ? AND id ${comparison} ?))`);
+      params.push(value, value, query.cursor.id);
+    }
+
+    const rows = await sql.query(
+      `SELECT * FROM meal_analyses WHERE ${conditions.join(' AND ')} ORDER BY ${column} ${direction}, id ${direction} LIMIT ?`,
+      [...params, query.limit + 1]
+    );
+    return toMealPage(rows.map(rowToMealAnalysis), query);
+  }
+
+  async findMealAnalysisById(id: string): Promise<MealAnalysis | null> {
+    const sql = await this.driver();
+    const rows = await sql.query('SELECT * FROM meal_analyses WHERE id = ?', [id]);
+    return rows.length > 0 ? rowToMealAnalysis(rows[0]) : null;
+  }
+
+  async deleteMealAnalysis(id: string): Promise<void> {
+    const sql = await this.driver();
+    await sql.execute('DELETE FROM meal_analyses WHERE id = ?', [id]);
+  }
+
+  async updateMealAnalysis(id: string, data: { nutritionData?: any; thumbnail?: string; mealType?: MealType | null; createdAt?: Date }): Promise<MealAnalysis | null> {
+    const sql = await this.driver();
+    const existing = await this.findMealAnalysisById(id);
+    if (!existing) return null;
+
+    const assignments: string[] = [];
+    const params: unknown[] = [];
+    if (data.nutritionData) {
+      assignments.push('nutrition_data = ?', ...MEAL_MACROS.map(macro => `${macro} = ?`), 'search_text = ?');
+      params.push(JSON.stringify(data.nutritionData), ...mealQueryColumns(data.nutritionData));
+    }
+    if (data.thumbnail) {
+      assignments.push('thumbnail = ?');
+      params.push(data.thumbnail);
+    }
+    if (data.mealType !== undefined) {
+      assignments.push('meal_type = ?');
+      params.push(data.mealType);
+    }
+    if (data.createdAt) {
+      assignments.push('created_at = ?');
+      params.push(data.createdAt.toISOString());
+    }
+
+    if (assignments.length > 0) {
+      await sql.execute(`UPDATE meal_analyses SET ${assignments.join(', ')} WHERE id = ?`, [...params, id]);
+    }
+
+    return this.findMealAnalysisById(id);
+  }
+
+  // User profile operations
+  async createUserProfile(data: Omit<UserProfile, 'id' | 'createdAt' | 'updatedAt'>): Promise<UserProfile> {
+    const sql = await this.driver();
+    const now = new Date();
+    const profile: UserProfile = {
+      id: randomUUID(),
+      ...data,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await sql.execute(
+      `INSERT INTO user_profiles (
+        id, user_id, diet_type, daily_calorie_goal, daily_protein_goal, daily_carbs_goal, daily_fat_goal,
+        daily_fiber_goal, daily_sugar_limit, weight, goal_weight, height, age, gender, activity_level,
+        dietary_restrictions, micronutrient_limits, timezone, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        profile.id,
+        profile.userId,
+        profile.dietType,
+        profile.dailyCalorieGoal,
+        profile.dailyProteinGoal,
+        profile.dailyCarbsGoal,
+        profile.dailyFatGoal,
+        profile.dailyFiberGoal,
+        profile.dailySugarLimit,
+        profile.weight,
+        profile.goalWeight ?? null,
+        profile.height,
+        profile.age,
+        profile.gender,
+        profile.activityLevel,
+        JSON.stringify(profile.dietaryRestrictions),
+        JSON.stringify(profile.micronutrientLimits || {}),
+        profile.timezone || DEFAULT_TIME_ZONE,
+        now.toISOString(),
+        now.toISOString()
+      ]
+    );
+
+    return profile;
+  }
+
+  async findUserProfileByUserId(userId: string): Promise<UserProfile | null> {
+    const sql = await this.driver();
+    const rows = await sql.query('SELECT * FROM user_profiles WHERE user_id = ? LIMIT 1', [userId]);
+    return rows.length > 0 ? rowToUserProfile(rows[0]) : null;
+  }
+
+  async findAllUserProfiles(): Promise<UserProfile[]> {
+    const sql = await this.driver();
+    const rows = await sql.query('SELECT * FROM user_profiles ORDER BY user_id ASC');
+    return rows.map(rowToUserProfile);
+  }
+
+  async updateUserProfile(userId: string, data: Partial<Omit<UserProfile, 'id' | 'userId' | 'createdAt' | 'updatedAt'>>): Promise<UserProfile> {
+    const sql = await this.driver();
+    const existing = await this.findUserProfileByUserId(userId);
+    if (!existing) throw new Error('Profile not found');
+
+    const assignments: string[] = [];
+    const params: unknown[] = [];
+    for (const [key, value] of Object.entries(data)) {
+      const column = PROFILE_COLUMNS[key];
+      if (!column || value === undefined) continue;
+      assignments.push(`${column} = ?`);
+      params.push(PROFILE_JSON_FIELDS.has(key) ? JSON.stringify(value) : value);
+    }
+    assignments.push('updated_at = ?');
+    params.push(new Date().toISOString());
+
+    await sql.execute(`UPDATE user_profiles SET ${assignments.join(', ')} WHERE user_id = ?`, [...params, userId]);
+
+    const updated = await this.findUserProfileByUserId(userId);
+    return updated!;
+  }
+
+  // Diet template operations
+  async createDietTemplate(data: Omit<DietTemplate, 'id' | 'createdAt' | 'updatedAt'>): Promise<DietTemplate> {
+    const sql = await this.driver();
+    const now = new Date();
+    const template: DietTemplate = {
+      id: randomUUID(),
+      ...data,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await sql.execute(
+      'INSERT INTO diet_templates (id, user_id, diet_type, data) VALUES (?, ?, ?, ?)',
+      [template.id, template.userId, template.dietType, dietTemplateData(template)]
+    );
+
+    return template;
+  }
+
+  async findDietTemplateByType(dietType: string): Promise<DietTemplate | null> {
+    const sql = await this.driver();
+    const rows = await sql.query('SELECT * FROM diet_templates WHERE diet_type = ? LIMIT 1', [dietType]);
+    return rows.length > 0 ? rowToDietTemplate(rows[0]) : null;
+  }
+
+  async findDietTemplatesByUser(userId: string | null): Promise<DietTemplate[]> {
+    const sql = await this.driver();
+    const rows = userId === null
+      ? await sql.query('SELECT * FROM diet_templates WHERE user_id IS NULL')
+      : await sql.query('SELECT * FROM diet_templates WHERE user_id = ?', [userId]);
+    return rows.map(rowToDietTemplate).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async findAllDietTemplates(): Promise<DietTemplate[]> {
+    const sql = await this.driver();
+    const rows = await sql.query('SELECT * FROM diet_templates');
+    return rows.map(rowToDietTemplate);
+  }
+
+  async updateDietTemplate(id: string, data: Partial<DietTemplateFields>): Promise<DietTemplate | null> {
+    const sql = await this.driver();
+    const rows = await sql.query('SELECT * FROM diet_templates WHERE id = ?', [id]);
+    if (rows.length === 0) return null;
+
+    const updated: DietTemplate = { ...rowToDietTemplate(rows[0]), ...data, updatedAt: new Date() };
+    await sql.execute('UPDATE diet_templates SET data = ? WHERE id = ?', [dietTemplateData(updated), id]);
+    return updated;
+  }
+
+  async deleteDietTemplate(id: string): Promise<void> {
+    const sql = await this.driver();
+    await sql.execute('DELETE FROM diet_templates WHERE id = ?', [id]);
+  }
+
+  // Daily progress operations
+  async createOrUpdateDailyProgress(data: Omit<DailyProgress, 'id' | 'createdAt' | 'updatedAt'>): Promise<DailyProgress> {
+    const sql = await this.driver();
+    const id = `${data.userId}_${dateKey(data.date)}`;
+    const now = new Date();
+
+    const rows = await sql.query(
+      `INSERT INTO daily_progress (
+        id, user_id, date, total_calories, total_protein, total_carbs, total_fat, total_fiber, total_sugar,
+        total_micronutrients, meal_count, goal_calories, goal_protein, goal_carbs, goal_fat, goal_fiber, goal_sugar,
+        micronutrient_limits, is_on_track, carbs_compliance, protein_compliance, fat_compliance, diet_type,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        date = excluded.date,
+        total_calories = excluded.total_calories,
+        total_protein = excluded.total_protein,
+        total_carbs = excluded.total_carbs,
+        total_fat = excluded.total_fat,
+        total_fiber = excluded.total_fiber,
+        total_sugar = excluded.total_sugar,
+        total_micronutrients = excluded.total_micronutrients,
+        meal_count = excluded.meal_count,
+        goal_calories = excluded.goal_calories,
+        goal_protein = excluded.goal_protein,
+        goal_carbs = excluded.goal_carbs,
+        goal_fat = excluded.goal_fat,
+        goal_fiber = excluded.goal_fiber,
+        goal_sugar = excluded.goal_sugar,
+        micronutrient_limits = excluded.micronutrient_limits,
+        is_on_track = excluded.is_on_track,
+        carbs_compliance = excluded.carbs_compliance,
+        protein_compliance = excluded.protein_compliance,
+        fat_compliance = excluded.fat_compliance,
+        diet_type = excluded.diet_type,
+        updated_at = excluded.updated_at
+      RETURNING created_at`,
+      [
+        id,
+        data.userId,
+        data.date.toISOString(),
+        data.totalCalories,
+        data.totalProtein,
+        data.totalCarbs,
+        data.totalFat,
+        data.totalFiber,
+        data.totalSugar,
+        JSON.stringify(data.totalMicronutrients || {}),
+        data.mealCount,
+        data.goalCalories,
+        data.goalProtein,
+        data.goalCarbs,
+        data.goalFat,
+        data.goalFiber,
+        data.goalSugar,
+        JSON.stringify(data.micronutrientLimits || {}),
+        data.isOnTrack ? 1 : 0,
+        data.carbsCompliance,
+        data.proteinCompliance,
+        data.fatCompliance,
+        data.dietType,
+        now.toISOString(),
+        now.toISOString()
+      ]
+    );
+
+    // An update keeps the row's original created_at
+    return {
+      id,
+      ...data,
+      createdAt: toDate(rows[0].created_at),
+      updatedAt: now
+    };
+  }
+
+  async findDailyProgressByUserAndDate(userId: string, date: Date): Promise<DailyProgress | null> {
+    const sql = await this.driver();
+    const rows = await sql.query('SELECT * FROM daily_progress WHERE id = ?', [`${userId}_${dateKey(date)}`]);
+    return rows.length > 0 ? rowToDailyProgress(rows[0]) : null;
+  }
+
+  async findDailyProgressByUserAndDateRange(userId: string, startDate: Date, endDate: Date): Promise<DailyProgress[]> {
+    const sql = await this.driver();
+    const rows = await sql.query(
+      'SELECT * FROM daily_progress WHERE user_id = ? AND date >= ? AND date <= ? ORDER BY date ASC',
+      [userId, startDate.toISOString(), endDate.toISOString()]
+    );
+    return rows.map(rowToDailyProgress);
+  }
+
+  async deleteDailyProgress(userId: string, date: Date): Promise<void> {
+    const sql = await this.driver();
+    await sql.execute('DELETE FROM daily_progress WHERE id = ?', [`${userId}_${dateKey(date)}`]);
+  }
+
+  // Weekly summary operations
+  async createWeeklySummary(data: Omit<WeeklySummary, 'id' | 'createdAt'>): Promise<WeeklySummary> {
+    const sql = await this.driver();
+    const id = `${data.userId}_${dateKey(data.weekStart)}`;
+    const now = new Date();
+
+    await sql.execute(
+      `INSERT INTO weekly_summaries (
+        id, user_id, week_start, week_end, avg_calories, avg_protein, avg_carbs, avg_fat, avg_fiber, avg_sugar,
+        total_meals, days_tracked, compliance_rate, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        week_end = excluded.week_end,
+        avg_calories = excluded.avg_calories,
+        avg_protein = excluded.avg_protein,
+        avg_carbs = excluded.avg_carbs,
+        avg_fat = excluded.avg_fat,
+        avg_fiber = excluded.avg_fiber,
+        avg_sugar = excluded.avg_sugar,
+        total_meals = excluded.total_meals,
+        days_tracked = excluded.days_tracked,
+        compliance_rate = excluded.compliance_rate,
+        created_at = excluded.created_at`,
+      [
+        id,
+        data.userId,
+        data.weekStart.toISOString(),
+        data.weekEnd.toISOString(),
+        data.avgCalories,
+        data.avgProtein,
+        data.avgCarbs,
+        data.avgFat,
+        data.avgFiber,
+        data.avgSugar,
+        data.totalMeals,
+        data.daysTracked,
+        data.complianceRate,
+        now.toISOString()
+      ]
+    );
+
+    return {
+      id,
+      ...data,
+      createdAt: now
+    };
+  }
+
+  async findWeeklySummariesByUser(userId: string, limit: number = 12): Promise<WeeklySummary[]> {
+    const sql = await this.driver();
+    const rows = await sql.query(
+      'SELECT * FROM weekly_summaries WHERE user_id = ? ORDER BY week_start DESC LIMIT ?',
+      [userId, limit]
+    );
+    return rows.map(rowToWeeklySummary);
+  }
+
+  // Ketone log operations
+  async createKetoneLog(data: Omit<KetoneLog, 'id' | 'createdAt'>): Promise<KetoneLog> {
+    const sql = await this.driver();
+    const log: KetoneLog = {
+      id: randomUUID(),
+      ...data,
+      createdAt: new Date()
+    };
+
+    await sql.execute(
+      'INSERT INTO ketone_logs (id, user_id, timestamp, ketone_level, measurement_type, notes, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [
+        log.id,
+        log.userId,
+        log.timestamp.toISOString(),
+        log.ketoneLevel,
+        log.measurementType,
+        log.notes,
+        log.createdAt.toISOString()
+      ]
+    );
+
+    return log;
+  }
+
+  async findKetoneLogsByUser(userId: string, limit: number = 30): Promise<KetoneLog[]> {
+    const sql = await this.driver();
+    const rows = await sql.query(
+      'SELECT * FROM ketone_logs WHERE user_id = ? ORDER BY timestamp DESC LIMIT ?',
+      [userId, limit]
+    );
+    return rows.map(rowToKetoneLog);
+  }
+
+  async findRecentKetoneLog(userId: string): Promise<KetoneLog | null> {
+    const logs = await this.findKetoneLogsByUser(userId, 1);
+    return logs.length > 0 ? logs[0] : null;
+  }
+
+  async findKetoneLogById(id: string): Promise<KetoneLog | null> {
+    const sql = await this.driver();
+    const rows = await sql.query('SELECT * FROM ketone_logs WHERE id = ?', [id]);
+    return rows.length > 0 ? rowToKetoneLog(rows[0]) : null;
+  }
+
+  async deleteKetoneLog(id: string): Promise<void> {
+    const sql = await this.driver();
+    await sql.execute('DELETE FROM ketone_logs WHERE id = ?', [id]);
+  }
+
+  // Body measurement operations
+  async createBodyMeasurement(data: Omit<BodyMeasurement, 'id' | 'createdAt' | 'updatedAt'>): Promise<BodyMeasurement> {
+    const sql = await this.driver();
+    const now = new Date();
+    const measurement: BodyMeasurement = {
+      id: randomUUID(),
+      ...data,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await sql.execute(
+      `INSERT INTO body_measurements (id, user_id, measured_at, weight, waist, body_fat, notes, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        measurement.id,
+        measurement.userId,
+        measurement.measuredAt.toISOString(),
+        measurement.weight,
+        measurement.waist,
+        measurement.bodyFat,
+        measurement.notes,
+        now.toISOString(),
+        now.toISOString()
+      ]
+    );
+
+    return measurement;
+  }
+
+  async findBodyMeasurementsByUser(userId: string, since?: Date): Promise<BodyMeasurement[]> {
+    const sql = await this.driver();
+    const rows = since
+      ? await sql.query(
+        'SELECT * FROM body_measurements WHERE user_id = ? AND measured_at >= ? ORDER BY measured_at ASC',
+        [userId, since.toISOString()]
+      )
+      : await sql.query('SELECT * FROM body_measurements WHERE user_id = ? ORDER BY measured_at ASC', [userId]);
+    return rows.map(rowToBodyMeasurement);
+  }
+
+  async findBodyMeasurementById(id: string): Promise<BodyMeasurement | null> {
+    const sql = await this.driver();
+    const rows = await sql.query('SELECT * FROM body_measurements WHERE id = ?', [id]);
+    return rows.length > 0 ? rowToBodyMeasurement(rows[0]) : null;
+  }
+
+  async updateBodyMeasurement(id: string, data: Partial<Pick<BodyMeasurement, 'measuredAt' | 'weight' | 'waist' | 'bodyFat' | 'notes'>>): Promise<BodyMeasurement | null> {
+    const sql = await this.driver();
+    const assignments: string[] = ['updated_at = ?'];
+    const params: unknown[] = [new Date().toISOString()];
+
+    if (data.measuredAt) {
+      assignments.push('measured_at = ?');
+      params.push(data.measuredAt.toISOString());
+    }
+    for (const [field, column] of [['weight', 'weight'], ['waist', 'waist'], ['bodyFat', 'body_fat'], ['notes', 'notes']] as const) {
+      if (data[field] !== undefined) {
+        assignments.push(`${column} = ?`);
+        params.push(data[field]);
+      }
+    }
+
+    await sql.execute(`UPDATE body_measurements SET ${assignments.join(', ')} WHERE id = ?`, [...params, id]);
+    return this.findBodyMeasurementById(id);
+  }
+
+  async deleteBodyMeasurement(id: string): Promise<void> {
+    const sql = await this.driver();
+    await sql.execute('DELETE FROM body_measurements WHERE id = ?', [id]);
+  }
+
+  // Refresh token operations
+  async createRefreshToken(data: Omit<RefreshToken, 'revokedAt' | 'createdAt'>): Promise<RefreshToken> {
+    const sql = await this.driver();
+    const token: RefreshToken = {
+      ...data,
+      revokedAt: null,
+      createdAt: new Date()
+    };
+
+    await sql.execute(
+      'INSERT INTO refresh_tokens (id, user_id, expires_at, revoked_at, created_at) VALUES (?, ?, ?, ?, ?)',
+      [token.id, token.userId, token.expiresAt.toISOString(), null, token.createdAt.toISOString()]
+    );
+
+    return token;
+  }
+
+  async findRefreshToken(id: string): Promise<RefreshToken | null> {
+    const sql = await this.driver();
+    const rows = await sql.query('SELECT * FROM refresh_tokens WHERE id = ?', [id]);
+    return rows.length > 0 ? rowToRefreshToken(rows[0]) : null;
+  }
+
+  async revokeRefreshToken(id: string): Promise<boolean> {
+    const sql = await this.driver();
+    // RETURNING tells us whether this statement, rather than a concurrent one, revoked it
+    const rows = await sql.query(
+      'UPDATE refresh_tokens SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL RETURNING id',
+      [new Date().toISOString(), id]
+    );
+    return rows.length > 0;
+  }
+
+  async revokeRefreshTokensByUser(userId: string): Promise<number> {
+    const sql = await this.driver();
+    const rows = await sql.query(
+      'UPDATE refresh_tokens SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL RETURNING id',
+      [new Date().toISOString(), userId]
+    );
+    return rows.length;
+  }
+
+  async deleteRefreshToken(id: string): Promise<void> {
+    const sql = await this.driver();
+    await sql.execute('DELETE FROM refresh_tokens WHERE id = ?', [id]);
+  }
+
+  async deleteExpiredRefreshTokens(before: Date): Promise<number> {
+    const sql = await this.driver();
+    const rows = await sql.query('DELETE FROM refresh_tokens WHERE expires_at < ? RETURNING id', [before.toISOString()]);
+    return rows.length;
+  }
+
+  // Email token operations
+  async createEmailToken(data: Omit<EmailToken, 'createdAt'>): Promise<EmailToken> {
+    const sql = await this.driver();
+    const token: EmailToken = { ...data, createdAt: new Date() };
+
+    await sql.execute(
+      'INSERT INTO email_tokens (id, user_id, purpose, email, expires_at, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [token.id, token.userId, token.purpose, token.email, token.expiresAt.toISOString(), token.createdAt.toISOString()]
+    );
+
+    return token;
+  }
+
+  async consumeEmailToken(id: string): Promise<EmailToken | null> {
+    const sql = await this.driver();
+    // A single DELETE, so two requests can't both use the token
+    const rows = await sql.query('DELETE FROM email_tokens WHERE id = ? RETURNING *', [id]);
+    return rows.length > 0 ? rowToEmailToken(rows[0]) : null;
+  }
+
+  async deleteEmailTokensByUser(userId: string, purpose: EmailTokenPurpose): Promise<void> {
+    const sql = await this.driver();
+    await sql.execute('DELETE FROM email_tokens WHERE user_id = ? AND purpose = ?', [userId, purpose]);
+  }
+
+  async deleteExpiredEmailTokens(before: Date): Promise<number> {
+    const sql = await this.driver();
+    const rows = await sql.query('DELETE FROM email_tokens WHERE expires_at < ? RETURNING id', [before.toISOString()]);
+    return rows.length;
+  }
+
+  // OAuth identity operations
+  async createOAuthIdentity(data: Omit<OAuthIdentity, 'id' | 'createdAt'>): Promise<OAuthIdentity> {
+    const sql = await this.driver();
+    const identity: OAuthIdentity = { ...data, id: `${data.provider}:${data.subject}`, createdAt: new Date() };
+
+    await sql.execute(
+      'INSERT INTO oauth_identities (id, user_id, provider, subject, email, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [identity.id, identity.userId, identity.provider, identity.subject, identity.email, identity.createdAt.toISOString()]
+    );
+
+    return identity;
+  }
+
+  async findOAuthIdentity(provider: string, subject: string): Promise<OAuthIdentity | null> {
+    const sql = await this.driver();
+    const rows = await sql.query('SELECT * FROM oauth_identities WHERE id = ?', [`${provider}:${subject}`]);
+    return rows.length > 0 ? rowToOAuthIdentity(rows[0]) : null;
+  }
+
+  async findOAuthIdentitiesByUser(userId: string): Promise<OAuthIdentity[]> {
+    const sql = await this.driver();
+    const rows = await sql.query('SELECT * FROM oauth_identities WHERE user_id = ? ORDER BY created_at', [userId]);
+    return rows.map(rowToOAuthIdentity);
+  }
+
+  // Usage counter operations
+  async incrementUsage(userId: string, metric: string, date: string, amount: number = 1): Promise<number> {
+    const sql = await this.driver();
+    // A single upsert, so concurrent increments can't lose counts
+    const rows = await sql.query(
+      `INSERT INTO usage_counters (id, user_id, metric, date, count) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET count = usage_counters.count + excluded.count
+       RETURNING count`,
+      [`${userId}:${metric}:${date}`, userId, metric, date, amount]
+    );
+    return Number(rows[0].count);
+  }
+
+  async findUsageByUser(userId: string, date: string): Promise<UsageCounter[]> {
+    const sql = await this.driver();
+    const rows = await sql.query('SELECT * FROM usage_counters WHERE user_id = ? AND date = ?', [userId, date]);
+    return rows.map(row => ({ userId: row.user_id, metric: row.metric, date: row.date, count: Number(row.count) }));
+  }
+
+  async deleteUsageBefore(date: string): Promise<number> {
+    const sql = await this.driver();
+    const rows = await sql.query('DELETE FROM usage_counters WHERE date < ? RETURNING id', [date]);
+    return rows.length;
+  }
+
+  // Food product catalog operations
+  async upsertFoodProducts(products: Omit<FoodProduct, 'updatedAt'>[]): Promise<number> {
+    const sql = await this.driver();
+    const updatedAt = new Date().toISOString();
+
+    for (let i = 0; i < products.length; i += PRODUCT_BATCH_SIZE) {
+      const batch = products.slice(i, i + PRODUCT_BATCH_SIZE);
+      const params = batch.flatMap(product => [
+        product.barcode,
+        product.name,
+        product.brand,
+        product.servingSize,
+        product.servingQuantity,
+        JSON.stringify(product.nutrientsPer100g),
+        product.source,
+        updatedAt
+      ]);
+
+      await sql.execute(
+        `INSERT INTO food_products (barcode, name, brand, serving_size, serving_quantity, nutrients_per_100g, source, updated_at)
+         VALUES ${batch.map(() => '(?, ?, ?, ?, ?, ?, ?, ?)').join(', ')}
+         ON CONFLICT (barcode) DO UPDATE SET
+           name = excluded.name,
+           brand = excluded.brand,
+           serving_size = excluded.serving_size,
+           serving_quantity = excluded.serving_quantity,
+           nutrients_per_100g = excluded.nutrients_per_100g,
+           source = excluded.source,
+           updated_at = excluded.updated_at`,
+        params
+      );
+    }
+
+    return products.length;
+  }
+
+  async findFoodProductByBarcode(barcode: string): Promise<FoodProduct | null> {
+    const sql = await this.driver();
+    const rows = await sql.query('SELECT * FROM food_products WHERE barcode = ?', [barcode]);
+    return rows.length > 0 ? rowToFoodProduct(rows[0]) : null;
+  }
+
+  // Reference food operations
+  async upsertReferenceFoods(foods: Omit<ReferenceFood, 'updatedAt'>[]): Promise<number> {
+    const sql = await this.driver();
+    const updatedAt = new Date().toISOString();
+
+    for (let i = 0; i < foods.length; i += PRODUCT_BATCH_SIZE) {
+      const batch = foods.slice(i, i + PRODUCT_BATCH_SIZE);
+      const params = batch.flatMap(food => [
+        food.id,
+        food.description,
+        food.category,
+        food.dataType,
+        JSON.stringify(food.nutrientsPer100g),
+        JSON.stringify(food.portions),
+        food.source,
+        updatedAt
+      ]);
+
+      await sql.execute(
+        `INSERT INTO reference_foods (id, description, category, data_type, nutrients_per_100g, portions, source, updated_at)
+         VALUES ${batch.map(() => '(?, ?, ?, ?, ?, ?, ?, ?)').join(', ')}
+         ON CONFLICT (id) DO UPDATE SET
+           description = excluded.description,
+           category = excluded.category,
+           data_type = excluded.data_type,
+           nutrients_per_100g = excluded.nutrients_per_100g,
+           portions = excluded.portions,
+           source = excluded.source,
+           updated_at = excluded.updated_at`,
+        params
+      );
+    }
+
+    return foods.length;
+  }
+
+  async findReferenceFoodById(id: string): Promise<ReferenceFood | null> {
+    const sql = await this.driver();
+    const rows = await sql.query('SELECT * FROM reference_foods WHERE id = ?', [id]);
+    return rows.length > 0 ? rowToReferenceFood(rows[0]) : null;
+  }
+
+  async searchReferenceFoods(query: string, limit: number = 20): Promise<ReferenceFood[]> {
+    const tokens = searchTokens(query);
+    if (tokens.length === 0) return [];
+
+    const sql = await this.driver();
+    const rows = await sql.query(
+      `SELECT * FROM reference_foods
+       WHERE ${tokens.map(() => 'LOWER(description) LIKE ?').join(' AND ')}
+       ORDER BY LENGTH(description), description
+       LIMIT ?`,
+      [...tokens.map(token => `%${token}%`), limit]
+    );
+    return rows.map(rowToReferenceFood);
+  }
+
+  async disconnect(): Promise<void> {
+    const sql = await this.driver();
+    await sql.close();
+  }
+}
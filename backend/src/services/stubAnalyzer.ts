@@ -0,0 +1,107 @@
+/**
+ * Deterministic offline provider
+ * Returns canned model output so the analyze pipeline can be developed and
+ * tested without an API key or network. Select a fixture with "stub:<name>".
+ * Additional fixtures are read from STUB_FIXTURES_DIR/<name>.json when set.
+ */
+
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { AnalyzerConfigError } from './nutritionAnalyzer.js';
+import type { NutritionAnalyzer, AnalyzerRequest } from './nutritionAnalyzer.js';
+
+const BUILT_IN_FIXTURES: Record<string, string> = {
+  default: JSON.stringify({
+    foods: [
+      {
+        name: 'Grilled chicken breast',
+        portion: '6 oz',
+        nutrition: { calories: 280, protein: 53, carbs: 0, fat: 6, fiber: 0, sugar: 0 },
+        confidence: 0.9
+      },
+      {
+        name: 'Steamed broccoli',
+        portion: '1 cup',
+        nutrition: { calories: 55, protein: 4, carbs: 11, fat: 0.5, fiber: 5, sugar: 2 },
+        confidence: 0.85
+      }
+    ],
+    totals: { calories: 335, protein: 57, carbs: 11, fat: 6.5, fiber: 5, sugar: 2 }
+  }),
+  empty: JSON.stringify({
+    foods: [],
+    totals: { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sugar: 0 }
+  }),
+  fenced: '```json\n' + JSON.stringify({
+    foods: [
+      {
+        name: 'Banana',
+        portion: '1 medium',
+        nutrition: { calories: 105, protein: 1.3, carbs: 27, fat: 0.4, fiber: 3.1, sugar: 14 },
+        confidence: 0.95
+      }
+    ],
+    totals: { calories: 105, protein: 1.3, carbs: 27, fat: 0.4, fiber: 3.1, sugar: 14 }
+  }) + '\n```',
+  // Estimate for the text description "2 eggs, toast with butter, black coffee"
+  breakfast: JSON.stringify({
+    foods: [
+      {
+        name: 'Scrambled eggs',
+        portion: '2 large eggs',
+        nutrition: { calories: 182, protein: 12.6, carbs: 1.6, fat: 13.4, fiber: 0, sugar: 1.4 },
+        confidence: 0.9
+      },
+      {
+        name: 'Toast with butter',
+        portion: '1 slice',
+        nutrition: { calories: 110, protein: 2.6, carbs: 13.8, fat: 5, fiber: 0.8, sugar: 1.5 },
+        confidence: 0.8
+      },
+      {
+        name: 'Black coffee',
+        portion: '8 fl oz',
+        nutrition: { calories: 2, protein: 0.3, carbs: 0, fat: 0, fiber: 0, sugar: 0 },
+        confidence: 0.95
+      }
+    ],
+    totals: { calories: 294, protein: 15.5, carbs: 15.4, fat: 18.4, fiber: 0.8, sugar: 2.9 }
+  }),
+  malformed: 'I see a plate of food but cannot produce JSON right now.',
+  // Nutrition Facts label reads (use with mode=label)
+  label: JSON.stringify({
+    labelFound: true,
+    productName: 'Plain Greek Yogurt',
+    servingSize: '170 g',
+    servingsPerContainer: 4,
+    perServing: { calories: 100, protein: 17, carbs: 6, fat: 0.5, fiber: 0, sugar: 4, sodium: 65 },
+    confidence: 0.98
+  }),
+  nolabel: JSON.stringify({ labelFound: false })
+};
+
+export class StubAnalyzer implements NutritionAnalyzer {
+  readonly provider = 'stub';
+  readonly model: string;
+
+  constructor(model?: string) {
+    this.model = model || 'default';
+  }
+
+  async generate(_request: AnalyzerRequest): Promise<string> {
+    const fixturesDir = process.env.STUB_FIXTURES_DIR;
+    if (fixturesDir && /^[\w-]+$/.test(this.model)) {
+      try {
+        return await readFile(join(fixturesDir, `${this.model}.json`), 'utf8');
+      } catch {
+        // Fall through to built-in fixtures
+      }
+    }
+
+    const fixture = BUILT_IN_FIXTURES[this.model];
+    if (fixture === undefined) {
+      throw new AnalyzerConfigError(`Unknown stub fixture "${this.model}"`);
+    }
+    return fixture;
+  }
+}
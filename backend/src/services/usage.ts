@@ -0,0 +1,122 @@
+/**
+ * AI usage quotas
+ * Each account may run a limited number of AI analyses per UTC day, set by
+ * its tier. Usage is counted in the database so the quota holds across
+ * server instances; the request rate limits in middleware/rateLimit.ts only
+ * smooth out bursts.
+ */
+
+import { getDb } from './database.js';
+import type { AccountTier } from './database.js';
+
+export const ANALYSIS_METRIC = 'analyses';
+
+export const ACCOUNT_TIERS: AccountTier[] = ['free', 'premium'];
+
+const DEFAULT_DAILY_ANALYSES: Record<AccountTier, number> = {
+  free: 20,
+  premium: 200
+};
+
+// Days of usage history kept for GET /api/usage and support questions
+const USAGE_RETENTION_DAYS = 30;
+
+export interface QuotaUsage {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+export interface UsageReport {
+  tier: AccountTier;
+  date: string;           // UTC day the counts are for
+  resetsAt: string;       // Next UTC midnight
+  analyses: QuotaUsage;
+}
+
+/**
+ * The account has used up its daily AI analyses
+ */
+export class QuotaExceededError extends Error {
+  constructor(public limit: number, public resetsAt: Date) {
+    super(`Daily limit of ${limit} AI analyses reached`);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export function isAccountTier(value: unknown): value is AccountTier {
+  return ACCOUNT_TIERS.includes(value as AccountTier);
+}
+
+/**
+ * AI analyses per day for a tier: AI_DAILY_QUOTA_FREE / AI_DAILY_QUOTA_PREMIUM
+ */
+export function getDailyAnalysisQuota(tier: AccountTier, env: NodeJS.ProcessEnv = process.env): number {
+  const parsed = parseInt(env[`AI_DAILY_QUOTA_${tier.toUpperCase()}`] || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_DAILY_ANALYSES[tier];
+}
+
+export function usageDate(now: Date): string {
+  return now.toISOString().split('T')[0];
+}
+
+function nextUtcMidnight(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
+
+async function findTier(userId: string): Promise<AccountTier> {
+  const user = await getDb().findUserById(userId);
+  return user?.tier ?? 'free';
+}
+
+/**
+ * Count one AI analysis against the user's quota, or throw
+ * QuotaExceededError. Counting first and checking after keeps concurrent
+ * requests from both taking the last analysis.
+ */
+export async function consumeAnalysisQuota(userId: string, now: Date = new Date()): Promise<QuotaUsage> {
+  const db = getDb();
+  const limit = getDailyAnalysisQuota(await findTier(userId));
+  const date = usageDate(now);
+
+  const used = await db.incrementUsage(userId, ANALYSIS_METRIC, date);
+  if (used > limit) {
+    await db.incrementUsage(userId, ANALYSIS_METRIC, date, -1);
+    throw new QuotaExceededError(limit, nextUtcMidnight(now));
+  }
+
+  return { used, limit, remaining: limit - used };
+}
+
+/**
+ * Give back an analysis that failed before producing a result
+ */
+export async function refundAnalysisQuota(userId: string, now: Date = new Date()): Promise<void> {
+  await getDb().incrementUsage(userId, ANALYSIS_METRIC, usageDate(now), -1);
+}
+
+export async function getUsageReport(userId: string, now: Date = new Date()): Promise<UsageReport> {
+  const tier = await findTier(userId);
+  const date = usageDate(now);
+  const counters = await getDb().findUsageByUser(userId, date);
+
+  const used = counters.find(counter => counter.metric === ANALYSIS_METRIC)?.count ?? 0;
+  const limit = getDailyAnalysisQuota(tier);
+
+  return {
+    tier,
+    date,
+    resetsAt: nextUtcMidnight(now).toISOString(),
+    analyses: { used, limit, remaining: Math.max(0, limit - used) }
+  };
+}
+
+/**
+ * Scheduled task: drop usage counts older than the retention window
+ */
+export async function deleteOldUsage(now: Date = new Date()): Promise<number> {
+  const cutoff = usageDate(new Date(now.getTime() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+  const deleted = await getDb().deleteUsageBefore(cutoff);
+  console.log(`[Usage] Deleted ${deleted} usage counts from before ${cutoff}`);
+  return deleted;
+}
@@ -0,0 +1,104 @@
+/**
+ * Weekly Summaries
+ * Closes out each user's week once it has ended in their time zone and
+ * persists the summary, and compares each stored week with the one before it.
+ * Runs as a scheduled task; closing a week again overwrites its summary.
+ */
+
+import { getDb } from './database.js';
+import type { WeeklySummary } from './database.js';
+import { calculateWeeklySummary, getWeekStart } from './progressTracking.js';
+import { DEFAULT_TIME_ZONE, addDays } from '../utils/timezone.js';
+
+// How many finished weeks a first close-out (or one after downtime) looks back over
+export const MAX_CATCH_UP_WEEKS = 12;
+
+export type WeeklyStats = Pick<WeeklySummary,
+  'avgCalories' | 'avgProtein' | 'avgCarbs' | 'avgFat' | 'avgFiber' | 'avgSugar' | 'totalMeals' | 'daysTracked' | 'complianceRate'>;
+
+/**
+ * Week-over-week differences: this week minus the previous one
+ */
+export type WeeklyChange = WeeklyStats;
+
+export interface WeeklySummaryWithChange extends WeeklySummary {
+  change: WeeklyChange | null;
+}
+
+/**
+ * Calculate and store the summary for one week. Weeks without any tracked
+ * days are not stored.
+ */
+export async function closeOutWeek(userId: string, weekStart: Date): Promise<WeeklySummary | null> {
+  const summary = await calculateWeeklySummary(userId, weekStart);
+  if (!summary) return null;
+
+  return getDb().createWeeklySummary({
+    userId,
+    weekStart,
+    weekEnd: addDays(weekStart, 6),
+    ...summary
+  });
+}
+
+/**
+ * Close out every finished week since each user's last stored summary
+ */
+export async function closeOutCompletedWeeks(now: Date = new Date()): Promise<{ users: number; weeksClosed: number }> {
+  const db = getDb();
+  const profiles = await db.findAllUserProfiles();
+  let weeksClosed = 0;
+
+  for (const profile of profiles) {
+    try {
+      // The most recent week that has ended in the user's time zone
+      const lastWeek = addDays(getWeekStart(now, profile.timezone || DEFAULT_TIME_ZONE), -7);
+      const earliest = addDays(lastWeek, -7 * (MAX_CATCH_UP_WEEKS - 1));
+
+      const [latest] = await db.findWeeklySummariesByUser(profile.userId, 1);
+      let weekStart = latest ? addDays(latest.weekStart, 7) : earliest;
+      if (weekStart < earliest) weekStart = earliest;
+
+      for (; weekStart <= lastWeek; weekStart = addDays(weekStart, 7)) {
+        if (await closeOutWeek(profile.userId, weekStart)) {
+          weeksClosed++;
+        }
+      }
+    } catch (error) {
+      // One user's failure shouldn't hold up everyone else; retried on the next run
+      console.error(`[WeeklySummaries] Failed to close out weeks for user ${profile.userId}:`, error);
+    }
+  }
+
+  console.log(`[WeeklySummaries] Closed ${weeksClosed} weeks for ${profiles.length} users`);
+  return { users: profiles.length, weeksClosed };
+}
+
+export function compareWeeks(current: WeeklyStats, previous: WeeklyStats): WeeklyChange {
+  return {
+    avgCalories: current.avgCalories - previous.avgCalories,
+    avgProtein: current.avgProtein - previous.avgProtein,
+    avgCarbs: current.avgCarbs - previous.avgCarbs,
+    avgFat: current.avgFat - previous.avgFat,
+    avgFiber: current.avgFiber - previous.avgFiber,
+    avgSugar: current.avgSugar - previous.avgSugar,
+    totalMeals: current.totalMeals - previous.totalMeals,
+    daysTracked: current.daysTracked - previous.daysTracked,
+    complianceRate: Math.round((current.complianceRate - previous.complianceRate) * 100) / 100
+  };
+}
+
+/**
+ * Stored summaries, newest first, each with its change from the week before.
+ * `change` is null when the previous week has no summary.
+ */
+export async function getWeeklySummaryHistory(userId: string, limit: number = 12): Promise<WeeklySummaryWithChange[]> {
+  // One extra week so the oldest returned week can be compared too
+  const weeks = await getDb().findWeeklySummariesByUser(userId, limit + 1);
+
+  return weeks.slice(0, limit).map((week, index) => {
+    const previous = weeks[index + 1];
+    const isPreviousWeek = previous && addDays(previous.weekStart, 7).getTime() === week.weekStart.getTime();
+    return { ...week, change: isPreviousWeek ? compareWeeks(week, previous) : null };
+  });
+}
@@ -4,3 +4,67 @@ export interface NutritionData {
   carbs: number;
   fat: number;
 }
+
+// Micronutrients tracked alongside the macros; units and sources are defined in utils/micronutrients.ts
+export type MicronutrientKey =
+  | 'sodium'
+  | 'potassium'
+  | 'saturatedFat'
+  | 'transFat'
+  | 'cholesterol'
+  | 'calcium'
+  | 'iron'
+  | 'magnesium'
+  | 'vitaminC'
+  | 'vitaminD';
+
+// Only the micronutrients that are known; a missing key means "not reported", not zero
+export type MicronutrientValues = Partial<Record<MicronutrientKey, number>>;
+
+export interface NutrientValues extends NutritionData, MicronutrientValues {
+  fiber: number;
+  sugar: number;
+}
+
+export interface FoodItem {
+  name: string;
+  portion: string;
+  nutrition: NutrientValues;
+  confidence: number;
+  reference?: FoodReferenceMatch;
+}
+
+// Reference food an item was reconciled against
+export interface FoodReferenceMatch {
+  id: string;
+  description: string;
+  grams: number;
+}
+
+export interface NutritionPayload {
+  foods: FoodItem[];
+  totals: NutrientValues;
+}
+
+export type AnalysisMode = 'meal' | 'label';
+
+// Nutrition Facts panel as read from a package, per serving
+export interface NutritionLabel {
+  productName: string;
+  servingSize: string;
+  servingsPerContainer: number | null;
+  perServing: NutrientValues & { sodium: number };
+  servingsConsumed: number;
+}
+
+export interface LabelNutritionPayload extends NutritionPayload {
+  label: NutritionLabel;
+}
+
+export type RepairStepType = 'reprompt' | 'coerced' | 'defaulted' | 'clamped' | 'recomputed_totals' | 'reconciled';
+
+export interface RepairStep {
+  type: RepairStepType;
+  path?: string;
+  detail: string;
+}
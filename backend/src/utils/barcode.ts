@@ -0,0 +1,123 @@
+import { Buffer } from 'buffer';
+import sharp from 'sharp';
+import {
+  MultiFormatReader,
+  BarcodeFormat,
+  DecodeHintType,
+  RGBLuminanceSource,
+  BinaryBitmap,
+  HybridBinarizer
+} from '@zxing/library';
+import type { Result } from '@zxing/library';
+
+export class BarcodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BarcodeError';
+  }
+}
+
+// Retail product codes: EAN-8, UPC-A, EAN-13, GTIN-14
+const GTIN_LENGTHS = [8, 12, 13, 14];
+
+// Larger images are scaled down before decoding; barcodes stay readable well below this
+const MAX_DECODE_WIDTH = 1600;
+
+/**
+ * Strip spaces and dashes from a scanned or typed code
+ */
+export function normalizeBarcode(value: string): string {
+  return value.replace(/[\s-]/g, '');
+}
+
+/**
+ * Check a GTIN's length and mod-10 check digit
+ */
+export function isValidBarcode(code: string): boolean {
+  if (!/^\d+$/.test(code) || !GTIN_LENGTHS.includes(code.length)) {
+    return false;
+  }
+
+  const digits = code.split('').map(Number);
+  const checkDigit = digits.pop()!;
+  // Weights alternate 3,1,3... starting from the digit next to the check digit
+  const sum = digits.reverse().reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === checkDigit;
+}
+
+/**
+ * Codes to try when looking a product up. Catalogs disagree on whether
+ * UPC-A codes are stored as 12 digits or zero-padded to EAN-13.
+ */
+export function barcodeCandidates(code: string): string[] {
+  const candidates = [code];
+  if (code.length === 12) {
+    candidates.push(`0${code}`);
+  } else if (code.length === 13 && code.startsWith('0')) {
+    candidates.push(code.slice(1));
+  }
+  return candidates;
+}
+
+/**
+ * Expand an 8-digit UPC-E code to its 12-digit UPC-A form
+ */
+export function expandUpcE(code: string): string {
+  const [system, d1, d2, d3, d4, d5, d6, check] = code.split('');
+  let body: string;
+  if (d6 === '0' || d6 === '1' || d6 === '2') {
+    body = `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+  } else if (d6 === '3') {
+    body = `${d1}${d2}${d3}00000${d4}${d5}`;
+  } else if (d6 === '4') {
+    body = `${d1}${d2}${d3}${d4}00000${d5}`;
+  } else {
+    body = `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  }
+  return `${system}${body}${check}`;
+}
+
+/**
+ * Decode a retail barcode from a photo.
+ * Throws BarcodeError when no barcode can be found.
+ */
+export async function decodeBarcodeImage(buffer: Buffer): Promise<string> {
+  let luminance: { data: Buffer; info: sharp.OutputInfo };
+  try {
+    luminance = await sharp(buffer)
+      .rotate() // Respect EXIF orientation from phone cameras
+      .resize({ width: MAX_DECODE_WIDTH, withoutEnlargement: true })
+      .greyscale()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+  } catch {
+    throw new BarcodeError('Could not read image');
+  }
+
+  const hints = new Map<DecodeHintType, unknown>();
+  hints.set(DecodeHintType.POSSIBLE_FORMATS, [
+    BarcodeFormat.EAN_13,
+    BarcodeFormat.EAN_8,
+    BarcodeFormat.UPC_A,
+    BarcodeFormat.UPC_E
+  ]);
+  hints.set(DecodeHintType.TRY_HARDER, true);
+
+  const reader = new MultiFormatReader();
+  reader.setHints(hints);
+
+  const { data, info } = luminance;
+  const source = new RGBLuminanceSource(new Uint8ClampedArray(data), info.width, info.height);
+
+  let result: Result;
+  try {
+    result = reader.decode(new BinaryBitmap(new HybridBinarizer(source)));
+  } catch {
+    throw new BarcodeError('No barcode found in image');
+  }
+
+  // Catalogs key small-package UPC-E codes by their UPC-A form
+  return result.getBarcodeFormat() === BarcodeFormat.UPC_E
+    ? expandUpcE(result.getText())
+    : result.getText();
+}
@@ -0,0 +1,55 @@
+/**
+ * Split one CSV line into fields, honouring double-quoted fields and
+ * escaped quotes (""). Fields containing newlines are not supported;
+ * the USDA FoodData Central exports don't use them.
+ */
+export function parseCsvLine(line: string, delimiter: string = ','): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Format one CSV line, quoting fields that contain the delimiter, quotes or
+ * line breaks. null and undefined become empty fields.
+ */
+export function formatCsvLine(fields: unknown[], delimiter: string = ','): string {
+  return fields
+    .map(value => {
+      const text = value === null || value === undefined ? '' : String(value);
+      return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(delimiter);
+}
+
+/**
+ * A header line and one line per row, with CRLF line endings
+ */
+export function formatCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows].map(fields => formatCsvLine(fields)).join('\r\n') + '\r\n';
+}
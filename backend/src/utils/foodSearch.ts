@@ -0,0 +1,36 @@
+/**
+ * Search helpers shared by the reference food backends and reconciliation
+ */
+
+// Generic words in model food names that USDA descriptions rarely contain
+const STOP_WORDS = new Set(['and', 'with', 'the', 'of', 'a', 'an', 'in', 'on', 'fresh', 'homemade', 'plain']);
+
+/**
+ * Lowercase search tokens with simple plural stripping ("Eggs" -> "egg").
+ * Search matches tokens as substrings, so "apple" also finds "Apples, raw".
+ */
+export function searchTokens(text: string): string[] {
+  const tokens = text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length >= 2 && !STOP_WORDS.has(token))
+    .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+  return Array.from(new Set(tokens));
+}
+
+/**
+ * True when every query token is a whole word of the description, so "egg"
+ * doesn't match "Eggplant, raw"
+ */
+export function matchesAllWords(description: string, tokens: string[]): boolean {
+  const words = new Set(searchTokens(description));
+  return tokens.every(token => words.has(token));
+}
+
+/**
+ * True when the description contains every query token
+ */
+export function matchesAllTokens(description: string, tokens: string[]): boolean {
+  const lower = description.toLowerCase();
+  return tokens.every(token => lower.includes(token));
+}
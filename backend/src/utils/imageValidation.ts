@@ -7,6 +7,7 @@ export class ImageValidationError extends Error {
 
 const ALLOWED_MIME_TYPES = ['image/jpeg', 'image/jpg', 'image/png'];
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB in bytes
+export const MAX_IMAGES_PER_REQUEST = 4;
 
 export interface ImageValidationOptions {
   maxSizeInMB?: number;
@@ -36,6 +37,14 @@ export function validateImageSize(sizeInBytes: number, options?: ImageValidation
   }
 }
 
+export function validateImageCount(count: number, maxImages: number = MAX_IMAGES_PER_REQUEST): void {
+  if (count > maxImages) {
+    throw new ImageValidationError(
+      `Too many images. Maximum is ${maxImages} per meal`
+    );
+  }
+}
+
 export function validateImage(
   mimetype: string, 
   sizeInBytes: number, 
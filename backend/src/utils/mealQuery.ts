@@ -0,0 +1,148 @@
+/**
+ * Meal history queries
+ * Filters, sort orders and cursors for paging through a user's meals. Each
+ * database backend pushes as much of a query into the database as it can
+ * and uses these helpers for the rest.
+ */
+
+import type { MealAnalysis } from '../services/database.js';
+import type { MealType } from './mealTypes.js';
+import { searchTokens, matchesAllTokens } from './foodSearch.js';
+
+export const MEAL_MACROS = ['calories', 'protein', 'carbs', 'fat'] as const;
+
+export type MealMacro = typeof MEAL_MACROS[number];
+
+export const MEAL_SORT_FIELDS = ['createdAt', ...MEAL_MACROS] as const;
+
+export type MealSortField = typeof MEAL_SORT_FIELDS[number];
+
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Where the previous page ended: its last meal's sort value (createdAt in
+ * milliseconds, or the macro total) and id, which breaks ties
+ */
+export interface MealCursor {
+  value: number;
+  id: string;
+}
+
+export interface MealQuery {
+  userId: string;
+  from?: Date;                // Inclusive
+  to?: Date;                  // Exclusive
+  mealTypes?: MealType[];
+  macros?: Partial<Record<MealMacro, NumberRange>>;
+  search?: string;            // Every word must appear in some food's name
+  sort: MealSortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor?: MealCursor;
+}
+
+export interface MealPage {
+  meals: MealAnalysis[];
+  nextCursor: MealCursor | null;
+}
+
+export function mealMacro(nutritionData: any, macro: MealMacro): number {
+  return Number(nutritionData?.totals?.[macro]) || 0;
+}
+
+export function mealSortValue(meal: MealAnalysis, sort: MealSortField): number {
+  return sort === 'createdAt' ? meal.createdAt.getTime() : mealMacro(meal.nutritionData, sort);
+}
+
+/**
+ * Lowercased food names, which the search filter matches against
+ */
+export function mealSearchText(nutritionData: any): string {
+  const foods: Array<{ name?: unknown }> = Array.isArray(nutritionData?.foods) ? nutritionData.foods : [];
+  return foods
+    .map(food => (typeof food?.name === 'string' ? food.name.toLowerCase() : ''))
+    .filter(Boolean)
+    .join(' | ');
+}
+
+/**
+ * True when the meal passes every filter in the query (the cursor aside)
+ */
+export function matchesMealQuery(meal: MealAnalysis, query: MealQuery): boolean {
+  if (meal.userId !== query.userId) return false;
+  if (query.from && meal.createdAt < query.from) return false;
+  if (query.to && meal.createdAt >= query.to) return false;
+  if (query.mealTypes && (!meal.mealType || !query.mealTypes.includes(meal.mealType))) return false;
+
+  for (const macro of MEAL_MACROS) {
+    const range = query.macros?.[macro];
+    if (!range) continue;
+    const value = mealMacro(meal.nutritionData, macro);
+    if (range.min !== undefined && value < range.min) return false;
+    if (range.max !== undefined && value > range.max) return false;
+  }
+
+  if (query.search) {
+    const tokens = searchTokens(query.search);
+    if (tokens.length > 0 && !matchesAllTokens(mealSearchText(meal.nutritionData), tokens)) return false;
+  }
+
+  return true;
+}
+
+// Code unit order, the same as SQL and Firestore document ids
+function compareIds(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Order meals by the sort field, then id, in the query's direction
+ */
+export function compareMeals(a: MealAnalysis, b: MealAnalysis, query: MealQuery): number {
+  const difference = mealSortValue(a, query.sort) - mealSortValue(b, query.sort) || compareIds(a.id, b.id);
+  return query.order === 'asc' ? difference : -difference;
+}
+
+export function isAfterCursor(meal: MealAnalysis, query: MealQuery): boolean {
+  if (!query.cursor) return true;
+  const value = mealSortValue(meal, query.sort);
+  const difference = value - query.cursor.value || compareIds(meal.id, query.cursor.id);
+  return query.order === 'asc' ? difference > 0 : difference < 0;
+}
+
+/**
+ * Cut a page from sorted, filtered meals that may include one extra meal
+ * past the limit, which tells us there is a next page
+ */
+export function toMealPage(sorted: MealAnalysis[], query: MealQuery): MealPage {
+  const meals = sorted.slice(0, query.limit);
+  const last = meals[meals.length - 1];
+  return {
+    meals,
+    nextCursor: sorted.length > query.limit && last
+      ? { value: mealSortValue(last, query.sort), id: last.id }
+      : null
+  };
+}
+
+/**
+ * Cursors are opaque to clients
+ */
+export function encodeMealCursor(cursor: MealCursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString('base64url');
+}
+
+export function decodeMealCursor(text: string): MealCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(text, 'base64url').toString('utf8'));
+    if (Array.isArray(decoded) && typeof decoded[0] === 'number' && Number.isFinite(decoded[0]) && typeof decoded[1] === 'string') {
+      return { value: decoded[0], id: decoded[1] };
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
@@ -0,0 +1,26 @@
+/**
+ * Meal types
+ * Meals are tagged breakfast, lunch, dinner or snack. When the user doesn't
+ * pick one it is inferred from the local time the meal was eaten.
+ */
+
+import { localParts } from './timezone.js';
+
+export const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+
+export type MealType = typeof MEAL_TYPES[number];
+
+export function isMealType(value: unknown): value is MealType {
+  return typeof value === 'string' && (MEAL_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Breakfast 5-10:59, lunch 11-14:59, dinner 17-21:59; anything else is a snack
+ */
+export function inferMealType(date: Date, timeZone: string): MealType {
+  const { hour } = localParts(date, timeZone);
+  if (hour >= 5 && hour < 11) return 'breakfast';
+  if (hour >= 11 && hour < 15) return 'lunch';
+  if (hour >= 17 && hour < 22) return 'dinner';
+  return 'snack';
+}
@@ -0,0 +1,133 @@
+/**
+ * Micronutrient definitions
+ * Every tracked micronutrient is listed here once; validation, totals,
+ * imports, prompts and compliance checks iterate this list, so adding a
+ * nutrient only needs a new entry (and its key in MicronutrientKey).
+ */
+
+import type { MicronutrientKey, MicronutrientValues } from '../types/nutrition.js';
+
+export interface MicronutrientDefinition {
+  key: MicronutrientKey;
+  label: string;
+  unit: 'g' | 'mg' | 'mcg';
+  // "limit": stay under it (sodium); "target": reach it (potassium)
+  kind: 'limit' | 'target';
+  // USDA FoodData Central nutrient ids, in order of preference
+  usdaIds: number[];
+  // Open Food Facts per-100g field, always reported in grams
+  openFoodFactsField: string;
+  suggestion: string;
+}
+
+export const MICRONUTRIENTS: MicronutrientDefinition[] = [
+  {
+    key: 'sodium', label: 'Sodium', unit: 'mg', kind: 'limit', usdaIds: [1093], openFoodFactsField: 'sodium_100g',
+    suggestion: 'Cut back on processed foods, sauces and salty snacks'
+  },
+  {
+    key: 'potassium', label: 'Potassium', unit: 'mg', kind: 'target', usdaIds: [1092], openFoodFactsField: 'potassium_100g',
+    suggestion: 'Add potatoes, beans, bananas or leafy greens'
+  },
+  {
+    key: 'saturatedFat', label: 'Saturated fat', unit: 'g', kind: 'limit', usdaIds: [1258], openFoodFactsField: 'saturated-fat_100g',
+    suggestion: 'Swap butter and fatty meats for olive oil, fish or nuts'
+  },
+  {
+    key: 'transFat', label: 'Trans fat', unit: 'g', kind: 'limit', usdaIds: [1257], openFoodFactsField: 'trans-fat_100g',
+    suggestion: 'Avoid fried foods and products with partially hydrogenated oils'
+  },
+  {
+    key: 'cholesterol', label: 'Cholesterol', unit: 'mg', kind: 'limit', usdaIds: [1253], openFoodFactsField: 'cholesterol_100g',
+    suggestion: 'Limit egg yolks, organ meats and full-fat dairy'
+  },
+  {
+    key: 'calcium', label: 'Calcium', unit: 'mg', kind: 'target', usdaIds: [1087], openFoodFactsField: 'calcium_100g',
+    suggestion: 'Add dairy, fortified plant milk, tofu or leafy greens'
+  },
+  {
+    key: 'iron', label: 'Iron', unit: 'mg', kind: 'target', usdaIds: [1089], openFoodFactsField: 'iron_100g',
+    suggestion: 'Add red meat, lentils, spinach or fortified cereals'
+  },
+  {
+    key: 'magnesium', label: 'Magnesium', unit: 'mg', kind: 'target', usdaIds: [1090], openFoodFactsField: 'magnesium_100g',
+    suggestion: 'Add nuts, seeds, whole grains or dark chocolate'
+  },
+  {
+    key: 'vitaminC', label: 'Vitamin C', unit: 'mg', kind: 'target', usdaIds: [1162], openFoodFactsField: 'vitamin-c_100g',
+    suggestion: 'Add citrus fruits, berries, peppers or broccoli'
+  },
+  {
+    key: 'vitaminD', label: 'Vitamin D', unit: 'mcg', kind: 'target', usdaIds: [1114], openFoodFactsField: 'vitamin-d_100g',
+    suggestion: 'Add fatty fish, eggs or fortified milk'
+  }
+];
+
+export const MICRONUTRIENT_KEYS: MicronutrientKey[] = MICRONUTRIENTS.map(nutrient => nutrient.key);
+
+// Multipliers from grams to each unit
+const GRAMS_TO_UNIT: Record<MicronutrientDefinition['unit'], number> = { g: 1, mg: 1000, mcg: 1_000_000 };
+
+export function isMicronutrientKey(key: string): key is MicronutrientKey {
+  return (MICRONUTRIENT_KEYS as string[]).includes(key);
+}
+
+export function getMicronutrient(key: MicronutrientKey): MicronutrientDefinition {
+  return MICRONUTRIENTS.find(nutrient => nutrient.key === key)!;
+}
+
+/**
+ * Convert a value in grams to the nutrient's unit
+ */
+export function fromGrams(key: MicronutrientKey, grams: number): number {
+  return grams * GRAMS_TO_UNIT[getMicronutrient(key).unit];
+}
+
+/**
+ * The micronutrient keys present in a set of values
+ */
+export function pickMicronutrients(values: MicronutrientValues): MicronutrientValues {
+  const picked: MicronutrientValues = {};
+  for (const key of MICRONUTRIENT_KEYS) {
+    const value = values[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      picked[key] = value;
+    }
+  }
+  return picked;
+}
+
+/**
+ * Merge submitted micronutrient limits into the existing ones; null clears a limit.
+ * Returns an error message for unknown nutrients or invalid values.
+ */
+export function mergeMicronutrientLimits(
+  existing: MicronutrientValues,
+  updates: Record<string, number | null>
+): MicronutrientValues | string {
+  if (typeof updates !== 'object' || updates === null || Array.isArray(updates)) {
+    return 'micronutrientLimits must be an object';
+  }
+
+  const merged: MicronutrientValues = { ...existing };
+  for (const [key, value] of Object.entries(updates)) {
+    if (!isMicronutrientKey(key)) {
+      return `Unknown micronutrient "${key}"`;
+    }
+    if (value === null) {
+      delete merged[key];
+    } else if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+      merged[key] = value;
+    } else {
+      return `micronutrientLimits.${key} must be a positive number or null`;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Prompt lines describing the micronutrient fields and their units
+ */
+export function micronutrientPromptFields(indent: string): string {
+  return MICRONUTRIENTS.map(nutrient => `${indent}"${nutrient.key}": number (${nutrient.unit})`).join(',\n');
+}
@@ -0,0 +1,319 @@
+import type { FoodItem, NutrientValues, NutritionPayload, NutritionLabel, LabelNutritionPayload, RepairStep } from '../types/nutrition.js';
+import { MICRONUTRIENT_KEYS } from './micronutrients.js';
+
+export class NutritionValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NutritionValidationError';
+  }
+}
+
+/**
+ * The model reported that the image has no readable nutrition label
+ */
+export class LabelNotFoundError extends Error {
+  constructor(message: string = 'No nutrition facts label found in the image') {
+    super(message);
+    this.name = 'LabelNotFoundError';
+  }
+}
+
+export interface ValidatedNutrition<T extends NutritionPayload = NutritionPayload> {
+  data: T;
+  repairs: RepairStep[];
+}
+
+const REQUIRED_NUTRIENTS = ['calories', 'protein', 'carbs', 'fat'] as const;
+const OPTIONAL_NUTRIENTS = ['fiber', 'sugar'] as const;
+const NUTRIENT_KEYS = [...REQUIRED_NUTRIENTS, ...OPTIONAL_NUTRIENTS];
+
+// Confidence given to a label read when the model doesn't report one
+const DEFAULT_LABEL_CONFIDENCE = 0.95;
+
+// Totals within this margin of the summed foods are treated as rounding
+const TOTALS_ABSOLUTE_TOLERANCE = 1;
+const TOTALS_RELATIVE_TOLERANCE = 0.02;
+
+/**
+ * Pull the JSON object out of raw model text (code fences, leading prose)
+ */
+export function extractJson(text: string): unknown {
+  const cleanText = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+
+  try {
+    return JSON.parse(cleanText);
+  } catch {
+    const start = cleanText.indexOf('{');
+    const end = cleanText.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      try {
+        return JSON.parse(cleanText.slice(start, end + 1));
+      } catch {
+        // Reported below
+      }
+    }
+    throw new NutritionValidationError('Response is not valid JSON');
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Coerce a numeric field, accepting strings such as "12" or "12 g"
+ */
+function toNumber(value: unknown, path: string, repairs: RepairStep[]): number {
+  let result: number;
+
+  if (typeof value === 'number') {
+    result = value;
+  } else if (typeof value === 'string') {
+    const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*(?:g|mg|mcg|µg|ug|kcal|cal|calories)?$/i);
+    if (!match) {
+      throw new NutritionValidationError(`${path} must be a number, got "${value}"`);
+    }
+    result = parseFloat(match[1]);
+    repairs.push({ type: 'coerced', path, detail: `Converted "${value}" to ${result}` });
+  } else {
+    throw new NutritionValidationError(`${path} must be a number`);
+  }
+
+  if (!Number.isFinite(result)) {
+    throw new NutritionValidationError(`${path} must be a finite number`);
+  }
+  if (result < 0) {
+    throw new NutritionValidationError(`${path} must not be negative`);
+  }
+
+  return result;
+}
+
+function validateNutrients(value: unknown, path: string, repairs: RepairStep[]): NutrientValues {
+  if (!isRecord(value)) {
+    throw new NutritionValidationError(`${path} must be an object`);
+  }
+
+  const nutrients = {} as NutrientValues;
+  for (const key of REQUIRED_NUTRIENTS) {
+    if (value[key] === undefined || value[key] === null) {
+      throw new NutritionValidationError(`${path}.${key} is required`);
+    }
+    nutrients[key] = toNumber(value[key], `${path}.${key}`, repairs);
+  }
+  for (const key of OPTIONAL_NUTRIENTS) {
+    if (value[key] === undefined || value[key] === null) {
+      nutrients[key] = 0;
+      repairs.push({ type: 'defaulted', path: `${path}.${key}`, detail: 'Missing value set to 0' });
+    } else {
+      nutrients[key] = toNumber(value[key], `${path}.${key}`, repairs);
+    }
+  }
+  // Micronutrients are optional and only kept when reported
+  for (const key of MICRONUTRIENT_KEYS) {
+    if (value[key] !== undefined && value[key] !== null) {
+      nutrients[key] = toNumber(value[key], `${path}.${key}`, repairs);
+    }
+  }
+
+  return nutrients;
+}
+
+function validateFood(value: unknown, index: number, repairs: RepairStep[]): FoodItem {
+  const path = `foods[${index}]`;
+  if (!isRecord(value)) {
+    throw new NutritionValidationError(`${path} must be an object`);
+  }
+
+  if (typeof value.name !== 'string' || value.name.trim() === '') {
+    throw new NutritionValidationError(`${path}.name is required`);
+  }
+
+  let portion: string;
+  if (typeof value.portion === 'string' && value.portion.trim() !== '') {
+    portion = value.portion.trim();
+  } else if (typeof value.portion === 'number') {
+    portion = String(value.portion);
+    repairs.push({ type: 'coerced', path: `${path}.portion`, detail: `Converted ${value.portion} to text` });
+  } else {
+    portion = '1 serving';
+    repairs.push({ type: 'defaulted', path: `${path}.portion`, detail: 'Missing portion set to "1 serving"' });
+  }
+
+  let confidence: number;
+  if (value.confidence === undefined || value.confidence === null) {
+    confidence = 0.5;
+    repairs.push({ type: 'defaulted', path: `${path}.confidence`, detail: 'Missing confidence set to 0.5' });
+  } else {
+    const raw = typeof value.confidence === 'string' ? parseFloat(value.confidence) : value.confidence;
+    if (typeof raw !== 'number' || Number.isNaN(raw)) {
+      throw new NutritionValidationError(`${path}.confidence must be a number`);
+    }
+    confidence = Math.min(1, Math.max(0, raw));
+    if (confidence !== raw) {
+      repairs.push({ type: 'clamped', path: `${path}.confidence`, detail: `Clamped ${raw} to ${confidence}` });
+    }
+  }
+
+  return {
+    name: value.name.trim(),
+    portion,
+    nutrition: validateNutrients(value.nutrition, `${path}.nutrition`, repairs),
+    confidence
+  };
+}
+
+/**
+ * Sum the nutrients of every food item
+ */
+export function sumFoods(foods: FoodItem[]): NutrientValues {
+  const totals: NutrientValues = { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sugar: 0 };
+  for (const food of foods) {
+    for (const key of NUTRIENT_KEYS) {
+      totals[key] += food.nutrition[key];
+    }
+  }
+  for (const key of NUTRIENT_KEYS) {
+    totals[key] = round(totals[key]);
+  }
+  // A micronutrient is totalled when any food reports it
+  for (const key of MICRONUTRIENT_KEYS) {
+    if (foods.some(food => food.nutrition[key] !== undefined)) {
+      totals[key] = round(foods.reduce((sum, food) => sum + (food.nutrition[key] ?? 0), 0));
+    }
+  }
+  return totals;
+}
+
+/**
+ * Validate and normalize a model's nutrition payload.
+ * Throws NutritionValidationError for data that cannot be repaired.
+ */
+export function validateNutritionPayload(raw: unknown): ValidatedNutrition {
+  const repairs: RepairStep[] = [];
+
+  if (!isRecord(raw)) {
+    throw new NutritionValidationError('Response must be a JSON object');
+  }
+  if (!Array.isArray(raw.foods)) {
+    throw new NutritionValidationError('foods must be an array');
+  }
+
+  const foods = raw.foods.map((food, index) => validateFood(food, index, repairs));
+  const summed = sumFoods(foods);
+
+  let totals: NutrientValues;
+  if (raw.totals === undefined || raw.totals === null) {
+    totals = summed;
+    repairs.push({ type: 'recomputed_totals', path: 'totals', detail: 'Missing totals computed from foods' });
+  } else {
+    totals = validateNutrients(raw.totals, 'totals', repairs);
+    const mismatched = NUTRIENT_KEYS.filter(key =>
+      Math.abs(totals[key] - summed[key]) > Math.max(TOTALS_ABSOLUTE_TOLERANCE, summed[key] * TOTALS_RELATIVE_TOLERANCE)
+    );
+    if (mismatched.length > 0) {
+      repairs.push({
+        type: 'recomputed_totals',
+        path: 'totals',
+        detail: `Totals disagreed with foods for ${mismatched.join(', ')}`
+      });
+      totals = summed;
+    }
+  }
+
+  return { data: { foods, totals }, repairs };
+}
+
+/**
+ * Parse raw model text into a validated nutrition payload
+ */
+export function parseNutritionResponse(text: string): ValidatedNutrition {
+  return validateNutritionPayload(extractJson(text));
+}
+
+/**
+ * Validate a Nutrition Facts label read and scale it to the servings consumed.
+ * The result has the same foods/totals shape as a meal photo analysis.
+ */
+export function validateLabelPayload(raw: unknown, servingsConsumed: number = 1): ValidatedNutrition<LabelNutritionPayload> {
+  const repairs: RepairStep[] = [];
+
+  if (!isRecord(raw)) {
+    throw new NutritionValidationError('Response must be a JSON object');
+  }
+  if (raw.labelFound === false) {
+    throw new LabelNotFoundError();
+  }
+
+  const perServing = validateNutrients(raw.perServing, 'perServing', repairs);
+  if (perServing.sodium === undefined) {
+    perServing.sodium = 0;
+    repairs.push({ type: 'defaulted', path: 'perServing.sodium', detail: 'Missing value set to 0' });
+  }
+
+  let servingSize: string;
+  if (typeof raw.servingSize === 'string' && raw.servingSize.trim() !== '') {
+    servingSize = raw.servingSize.trim();
+  } else {
+    servingSize = '1 serving';
+    repairs.push({ type: 'defaulted', path: 'servingSize', detail: 'Missing serving size set to "1 serving"' });
+  }
+
+  const productName = typeof raw.productName === 'string' && raw.productName.trim() !== ''
+    ? raw.productName.trim()
+    : 'Packaged food';
+
+  const servingsPerContainer = raw.servingsPerContainer === undefined || raw.servingsPerContainer === null
+    ? null
+    : toNumber(raw.servingsPerContainer, 'servingsPerContainer', repairs);
+
+  let confidence: number;
+  if (raw.confidence === undefined || raw.confidence === null) {
+    confidence = DEFAULT_LABEL_CONFIDENCE;
+    repairs.push({ type: 'defaulted', path: 'confidence', detail: `Missing confidence set to ${DEFAULT_LABEL_CONFIDENCE}` });
+  } else {
+    const reported = toNumber(raw.confidence, 'confidence', repairs);
+    confidence = Math.min(1, reported);
+    if (confidence !== reported) {
+      repairs.push({ type: 'clamped', path: 'confidence', detail: `Clamped ${reported} to ${confidence}` });
+    }
+  }
+
+  const consumed = {} as NutrientValues;
+  for (const key of NUTRIENT_KEYS) {
+    consumed[key] = round(perServing[key] * servingsConsumed);
+  }
+  for (const key of MICRONUTRIENT_KEYS) {
+    if (perServing[key] !== undefined) {
+      consumed[key] = round(perServing[key] * servingsConsumed);
+    }
+  }
+
+  const label: NutritionLabel = {
+    productName,
+    servingSize,
+    servingsPerContainer,
+    perServing: perServing as NutritionLabel['perServing'],
+    servingsConsumed
+  };
+
+  const food: FoodItem = {
+    name: productName,
+    portion: servingsConsumed === 1 ? servingSize : `${servingsConsumed} × ${servingSize}`,
+    nutrition: consumed,
+    confidence
+  };
+
+  return { data: { foods: [food], totals: { ...consumed }, label }, repairs };
+}
+
+/**
+ * Parse raw model text from a label read
+ */
+export function parseLabelResponse(text: string, servingsConsumed: number = 1): ValidatedNutrition<LabelNutritionPayload> {
+  return validateLabelPayload(extractJson(text), servingsConsumed);
+}
@@ -0,0 +1,185 @@
+/**
+ * Portion parsing
+ * Turns free-text portions from the model ("6 oz", "1 1/2 cups", "2 slices")
+ * into a quantity and unit, and converts them to grams using fixed mass and
+ * volume factors or a reference food's measured portions.
+ */
+
+export type PortionUnitKind = 'mass' | 'volume' | 'count';
+
+export interface ParsedPortion {
+  quantity: number;
+  unit: string;
+  kind: PortionUnitKind;
+}
+
+// A household measure with its weight, as listed for a reference food
+export interface PortionMeasure {
+  unit: string;
+  amount: number;
+  gramWeight: number;
+  description?: string;
+}
+
+// Grams per unit
+const MASS_UNITS: Record<string, number> = {
+  g: 1,
+  mg: 0.001,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592
+};
+
+// Milliliters per unit
+const VOLUME_UNITS: Record<string, number> = {
+  ml: 1,
+  l: 1000,
+  cup: 240,
+  tbsp: 15,
+  tsp: 5,
+  'fl oz': 29.5735,
+  pint: 473.176
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  gram: 'g', grams: 'g', gr: 'g', gm: 'g',
+  milligram: 'mg', milligrams: 'mg',
+  kilogram: 'kg', kilograms: 'kg', kgs: 'kg',
+  ounce: 'oz', ounces: 'oz',
+  pound: 'lb', pounds: 'lb', lbs: 'lb',
+  milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  cups: 'cup', c: 'cup',
+  tablespoon: 'tbsp', tablespoons: 'tbsp', tbs: 'tbsp', tbsps: 'tbsp',
+  teaspoon: 'tsp', teaspoons: 'tsp', tsps: 'tsp',
+  'fluid ounce': 'fl oz', 'fluid ounces': 'fl oz', 'fl. oz': 'fl oz',
+  pints: 'pint', pt: 'pint',
+  pieces: 'piece', pc: 'piece', pcs: 'piece',
+  slices: 'slice',
+  servings: 'serving'
+};
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': ' 1/2', '⅓': ' 1/3', '⅔': ' 2/3', '¼': ' 1/4', '¾': ' 3/4', '⅛': ' 1/8'
+};
+
+// Words that carry no unit information ("1 medium banana" -> unit "medium")
+const FILLER_WORDS = new Set(['of', 'a', 'an', 'about', 'approx', 'approximately', 'roughly', '~']);
+
+/**
+ * Map a unit word to its canonical form ("Cups" -> "cup", "spears" -> "spear")
+ */
+export function normalizeUnit(word: string): string {
+  const lower = word.toLowerCase().replace(/\.$/, '').trim();
+  if (UNIT_ALIASES[lower]) return UNIT_ALIASES[lower];
+  if (lower in MASS_UNITS || lower in VOLUME_UNITS) return lower;
+  return lower.length > 3 && lower.endsWith('s') && !lower.endsWith('ss') ? lower.slice(0, -1) : lower;
+}
+
+function unitKind(unit: string): PortionUnitKind {
+  if (unit in MASS_UNITS) return 'mass';
+  if (unit in VOLUME_UNITS) return 'volume';
+  return 'count';
+}
+
+function parseQuantity(text: string): number | null {
+  const range = text.match(/^(\d*\.?\d+)\s*(?:-|to)\s*(\d*\.?\d+)$/);
+  if (range) {
+    // Ranges ("2-3 slices") use the midpoint
+    return (parseFloat(range[1]) + parseFloat(range[2])) / 2;
+  }
+  const mixed = text.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    return parseInt(mixed[1], 10) + parseInt(mixed[2], 10) / parseInt(mixed[3], 10);
+  }
+  const fraction = text.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    return parseInt(fraction[1], 10) / parseInt(fraction[2], 10);
+  }
+  const value = parseFloat(text);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Parse a portion string into quantity and unit.
+ * A weight in parentheses wins over the household measure ("1 bar (40 g)").
+ * Returns null when no quantity or unit can be found.
+ */
+export function parsePortion(text: string): ParsedPortion | null {
+  let normalized = text.toLowerCase().trim();
+  for (const [symbol, replacement] of Object.entries(UNICODE_FRACTIONS)) {
+    normalized = normalized.split(symbol).join(replacement);
+  }
+
+  const parenthetical = normalized.match(/\(([^)]*)\)/);
+  if (parenthetical) {
+    const inner = parsePortion(parenthetical[1]);
+    if (inner && inner.kind === 'mass') return inner;
+    normalized = normalized.replace(parenthetical[0], ' ');
+  }
+
+  normalized = normalized.replace(/,/g, ' ').replace(/\s+/g, ' ').trim();
+
+  const match = normalized.match(
+    /^(\d+\s+\d+\/\d+|\d+\/\d+|\d*\.?\d+\s*(?:-|to)\s*\d*\.?\d+|\d*\.?\d+)\s*(.*)$/
+  );
+
+  let quantity: number | null;
+  let rest: string;
+  if (match) {
+    quantity = parseQuantity(match[1].trim());
+    rest = match[2];
+  } else {
+    // "a cup of rice", "slice of toast"
+    quantity = 1;
+    rest = normalized;
+  }
+  if (quantity === null || quantity <= 0) return null;
+
+  const words = rest.split(' ').filter(word => word && !FILLER_WORDS.has(word));
+  if (words.length === 0) return null;
+
+  // Two-word units first ("fl oz", "fluid ounces")
+  const twoWord = normalizeUnit(`${words[0]} ${words[1] || ''}`);
+  const unit = twoWord in VOLUME_UNITS ? twoWord : normalizeUnit(words[0]);
+
+  return { quantity, unit, kind: unitKind(unit) };
+}
+
+function findMeasure(unit: string, measures: PortionMeasure[]): PortionMeasure | undefined {
+  return measures.find(measure => normalizeUnit(measure.unit) === unit)
+    || measures.find(measure => measure.description?.toLowerCase().split(/[\s,]+/).map(normalizeUnit).includes(unit));
+}
+
+/**
+ * Convert a portion to grams.
+ * Mass units convert directly. Volume units use the reference food's density
+ * when it lists a volume measure, otherwise water density. Count units
+ * ("slice", "medium") need a matching reference measure.
+ * Returns null when the portion can't be converted.
+ */
+export function portionToGrams(text: string, measures: PortionMeasure[] = []): number | null {
+  const portion = parsePortion(text);
+  if (!portion) return null;
+
+  if (portion.kind === 'mass') {
+    return portion.quantity * MASS_UNITS[portion.unit];
+  }
+
+  if (portion.kind === 'volume') {
+    const milliliters = portion.quantity * VOLUME_UNITS[portion.unit];
+    const volumeMeasure = findMeasure(portion.unit, measures)
+      || measures.find(measure => unitKind(normalizeUnit(measure.unit)) === 'volume');
+    if (volumeMeasure) {
+      const measureMl = volumeMeasure.amount * VOLUME_UNITS[normalizeUnit(volumeMeasure.unit)];
+      return milliliters * (volumeMeasure.gramWeight / measureMl);
+    }
+    return milliliters;
+  }
+
+  const countMeasure = findMeasure(portion.unit, measures);
+  if (countMeasure && countMeasure.amount > 0) {
+    return portion.quantity * (countMeasure.gramWeight / countMeasure.amount);
+  }
+  return null;
+}
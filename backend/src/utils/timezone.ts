@@ -0,0 +1,106 @@
+/**
+ * Time zone helpers
+ * Days are counted in the user's IANA time zone. A local calendar day is
+ * represented as UTC midnight of that date, which is how daily progress
+ * rows are keyed.
+ */
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || timeZone === '') return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock fields of an instant in a time zone
+ */
+export function localParts(date: Date, timeZone: string): {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+} {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+}
+
+// Milliseconds the zone is ahead of UTC at the given instant
+function offsetAt(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = localParts(date, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The local calendar day containing an instant, as UTC midnight of that date
+ */
+export function localDay(date: Date, timeZone: string): Date {
+  const { year, month, day } = localParts(date, timeZone);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * The instant a local calendar day (from localDay) begins in the time zone
+ */
+export function startOfLocalDay(day: Date, timeZone: string): Date {
+  // Check the offset again at the first guess, in case a DST change falls between
+  const guess = day.getTime() - offsetAt(day, timeZone);
+  return new Date(day.getTime() - offsetAt(new Date(guess), timeZone));
+}
+
+export function addDays(day: Date, days: number): Date {
+  return new Date(day.getTime() + days * DAY_MS);
+}
+
+/**
+ * Monday of the local week containing an instant, as UTC midnight
+ */
+export function localWeekStart(date: Date, timeZone: string): Date {
+  const day = localDay(date, timeZone);
+  // getUTCDay: 0 is Sunday, which belongs to the week that started six days earlier
+  return addDays(day, -((day.getUTCDay() + 6) % 7));
+}
+
+export function toDateKey(day: Date): string {
+  return day.toISOString().split('T')[0];
+}
@@ -1,4 +1,4 @@
-import { BrowserRouter, Routes, Route, useNavigate, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, useNavigate, useLocation, Navigate } from 'react-router-dom';
 import { useEffect } from 'react';
 import './App.css';
 import Home from './pages/Home';
@@ -7,10 +7,12 @@ import Analyze from './pages/Analyze';
 import History from './pages/History';
 import MealDetail from './pages/MealDetail';
 import MealEdit from './pages/MealEdit';
+import LogMeal from './pages/LogMeal';
 import Settings from './pages/Settings';
 import Login from './pages/Login';
 import Profile from './pages/Profile';
 import Progress from './pages/Progress';
+import Weight from './pages/Weight';
 import Ketones from './pages/Ketones';
 import Navbar from './components/Navbar';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
@@ -18,8 +20,12 @@ import { setApiUnauthorizedHandler } from './services/api';
 
 function AppContent() {
   const navigate = useNavigate();
+  const location = useLocation();
   const { logout, isAuthenticated, isGuest, isLoading } = useAuth();
 
+  // Verification and reset links open Login even for a signed-in user
+  const isEmailLink = /[?&](verify|reset)=/.test(location.search);
+
   useEffect(() => {
     // Handle 401 responses by clearing session and routing to Login
     setApiUnauthorizedHandler(() => {
@@ -42,7 +48,7 @@ function AppContent() {
       <main>
         <Routes>
           <Route path="/login" element={
-            isAuthenticated || isGuest ? <Navigate to="/" replace /> : <Login />
+            (isAuthenticated || isGuest) && !isEmailLink ? <Navigate to="/" replace /> : <Login />
           } />
           <Route path="/" element={
             requiresAuth ? <Navigate to="/login" replace /> : <Home />
@@ -53,6 +59,9 @@ function AppContent() {
           <Route path="/camera/analyze" element={
             requiresAuth ? <Navigate to="/login" replace /> : <Analyze />
           } />
+          <Route path="/log" element={
+            requiresAuth ? <Navigate to="/login" replace /> : <LogMeal />
+          } />
           <Route path="/history" element={
             requiresAuth ? <Navigate to="/login" replace /> : <History />
           } />
@@ -71,6 +80,9 @@ function AppContent() {
           <Route path="/progress" element={
             requiresAuth ? <Navigate to="/login" replace /> : <Progress />
           } />
+          <Route path="/weight" element={
+            requiresAuth ? <Navigate to="/login" replace /> : <Weight />
+          } />
           <Route path="/ketones" element={
             requiresAuth ? <Navigate to="/login" replace /> : <Ketones />
           } />
@@ -73,6 +73,13 @@ export default function Navbar({ isAuthenticated, isGuest }: NavbarProps) {
             <span className="navbar-link-icon">📊</span>
             <span className="navbar-link-text">Progress</span>
           </Link>
+          <Link 
+            to="/weight" 
+            className={`navbar-link ${isActive('/weight') ? 'navbar-link-active' : ''}`}
+          >
+            <span className="navbar-link-icon">⚖️</span>
+            <span className="navbar-link-text">Weight</span>
+          </Link>
           <Link 
             to="/camera" 
             className={`navbar-link ${isActive('/camera') ? 'navbar-link-active' : ''}`}
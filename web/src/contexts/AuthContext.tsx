@@ -1,6 +1,7 @@
-import { createContext, useContext, useState, useEffect } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import type { FC, ReactNode } from 'react';
-import { authApi } from '../services/api';
+import { authApi, accountApi, setApiSessionRefreshedHandler } from '../services/api';
+import type { AuthSession, OAuthProviderName } from '../services/api';
 
 interface AuthState {
   token: string | null;
@@ -12,7 +13,10 @@ interface AuthState {
 interface AuthContextValue extends AuthState {
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string, name: string) => Promise<void>;
+  loginWithIdToken: (provider: OAuthProviderName, idToken: string) => Promise<void>;
   logout: () => void;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  deleteAccount: (password: string) => Promise<void>;
   enterGuestMode: () => void;
   exitGuestMode: () => void;
 }
@@ -20,6 +24,7 @@ interface AuthContextValue extends AuthState {
 const AuthContext = createContext<AuthContextValue | undefined>(undefined);
 
 const TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
 const GUEST_MODE_KEY = 'guestMode';
 
 export const AuthProvider: FC<{ children: ReactNode }> = ({ children }) => {
@@ -41,13 +46,16 @@ export const AuthProvider: FC<{ children: ReactNode }> = ({ children }) => {
       isGuest: guestMode,
       isLoading: false,
     });
+
+    // The API client refreshes expired access tokens; keep state in step
+    setApiSessionRefreshedHandler(session => {
+      setState(prev => ({ ...prev, token: session.token }));
+    });
   }, []);
 
-  const login = async (email: string, password: string) => {
-    const response = await authApi.login({ email, password });
-    const { token } = response;
-    
+  const startSession = ({ token, refreshToken }: AuthSession) => {
     localStorage.setItem(TOKEN_KEY, token);
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
     localStorage.removeItem(GUEST_MODE_KEY);
     
     setState({
@@ -58,23 +66,22 @@ export const AuthProvider: FC<{ children: ReactNode }> = ({ children }) => {
     });
   };
 
+  const login = async (email: string, password: string) => {
+    startSession(await authApi.login({ email, password }));
+  };
+
   const register = async (email: string, password: string, name: string) => {
-    const response = await authApi.register({ email, password, name });
-    const { token } = response;
-    
-    localStorage.setItem(TOKEN_KEY, token);
-    localStorage.removeItem(GUEST_MODE_KEY);
-    
-    setState({
-      token,
-      isAuthenticated: true,
-      isGuest: false,
-      isLoading: false,
-    });
+    startSession(await authApi.register({ email, password, name }));
   };
 
-  const logout = () => {
+  // Sign in with an ID token from Google or Apple, creating the account on first use
+  const loginWithIdToken = async (provider: OAuthProviderName, idToken: string) => {
+    startSession(await authApi.oauthLogin(provider, idToken));
+  };
+
+  const endSession = () => {
     localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
     localStorage.removeItem(GUEST_MODE_KEY);
     
     setState({
@@ -85,8 +92,30 @@ export const AuthProvider: FC<{ children: ReactNode }> = ({ children }) => {
     });
   };
 
+  const logout = useCallback(() => {
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (refreshToken) {
+      // Revoke the session server-side; signing out locally doesn't wait on it
+      authApi.logout(refreshToken).catch(() => {});
+    }
+
+    endSession();
+  }, []);
+
+  // Other sessions are signed out; this one carries on with the new tokens
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    startSession(await authApi.changePassword(currentPassword, newPassword));
+  };
+
+  // The server already dropped every session along with the account
+  const deleteAccount = async (password: string) => {
+    await accountApi.deleteAccount(password);
+    endSession();
+  };
+
   const enterGuestMode = () => {
     localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
     localStorage.setItem(GUEST_MODE_KEY, 'true');
     
     setState({
@@ -99,6 +128,7 @@ export const AuthProvider: FC<{ children: ReactNode }> = ({ children }) => {
 
   const exitGuestMode = () => {
     localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
     localStorage.removeItem(GUEST_MODE_KEY);
     
     setState({
@@ -115,7 +145,10 @@ export const AuthProvider: FC<{ children: ReactNode }> = ({ children }) => {
         ...state,
         login,
         register,
+        loginWithIdToken,
         logout,
+        changePassword,
+        deleteAccount,
         enterGuestMode,
         exitGuestMode,
       }}
@@ -1,8 +1,16 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
-import { Button, Card, SectionHeader } from '../components/ui';
+import { Button, Card, Input, SectionHeader } from '../components/ui';
 import { mealApi } from '../services/api';
-import type { AnalysisResult, ApiError } from '../services/api';
+import type { AnalysisMode, AnalysisResult, ApiError } from '../services/api';
+
+// Matches the backend's MAX_IMAGES_PER_REQUEST
+const MAX_IMAGES = 4;
+
+interface ExtraImage {
+  file: File;
+  preview: string;
+}
 
 export default function Analyze() {
   const location = useLocation();
@@ -12,6 +20,26 @@ export default function Analyze() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [extraImages, setExtraImages] = useState<ExtraImage[]>([]);
+  const [mode, setMode] = useState<AnalysisMode>('meal');
+  const [servings, setServings] = useState('1');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAddImage = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (event) => {
+        setExtraImages(prev => [...prev, { file, preview: event.target?.result as string }]);
+      };
+      reader.readAsDataURL(file);
+    }
+  };
+
+  const removeImage = (index: number) => {
+    setExtraImages(prev => prev.filter((_, i) => i !== index));
+  };
 
   const submitAnalysis = async () => {
     if (!imageFile) {
@@ -19,12 +47,22 @@ export default function Analyze() {
       return;
     }
 
+    const servingCount = parseFloat(servings);
+    if (mode === 'label' && !(servingCount > 0)) {
+      setError('Servings must be greater than 0');
+      return;
+    }
+
     setLoading(true);
     setError(null);
 
     try {
       const selectedModel = localStorage.getItem('selectedModel') || undefined;
-      const data = await mealApi.analyze(imageFile, selectedModel);
+      const data = await mealApi.analyze(
+        [imageFile, ...extraImages.map(image => image.file)],
+        selectedModel,
+        mode === 'label' ? { mode, servings: servingCount } : undefined
+      );
       setResult(data);
     } catch (err) {
       const apiError = err as ApiError;
@@ -65,6 +103,19 @@ export default function Analyze() {
           />
         )}
 
+        {result.label && (
+          <Card style={{ marginBottom: 'var(--spacing-lg)', padding: 'var(--spacing-md)' }}>
+            <h3 style={{ marginTop: 0, marginBottom: 'var(--spacing-sm)' }}>{result.label.productName}</h3>
+            <p style={{ margin: 0, fontSize: 'var(--font-size-sm)', opacity: 0.7 }}>
+              Serving size {result.label.servingSize} · {Math.round(result.label.perServing.calories)} kcal per serving
+              · {result.label.servingsConsumed} serving{result.label.servingsConsumed === 1 ? '' : 's'} eaten
+            </p>
+            <p style={{ margin: 0, fontSize: 'var(--font-size-sm)', opacity: 0.7 }}>
+              Sodium {Math.round(result.totals.sodium ?? 0)}mg
+            </p>
+          </Card>
+        )}
+
         <SectionHeader>Totals</SectionHeader>
         <div className="stats-grid" style={{ marginBottom: 'var(--spacing-xl)' }}>
           <Card gradient={1}>
@@ -141,6 +192,75 @@ export default function Analyze() {
         />
       )}
 
+      <div className="quick-actions" style={{ marginBottom: 'var(--spacing-lg)' }}>
+        <Button variant={mode === 'meal' ? 'primary' : 'secondary'} fullWidth onClick={() => setMode('meal')} disabled={loading}>
+          🍽️ Meal photo
+        </Button>
+        <Button variant={mode === 'label' ? 'primary' : 'secondary'} fullWidth onClick={() => setMode('label')} disabled={loading}>
+          🏷️ Nutrition label
+        </Button>
+      </div>
+
+      {mode === 'label' && (
+        <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+          <label style={{ display: 'block', marginBottom: 'var(--spacing-xs)', fontSize: 'var(--font-size-sm)', opacity: 0.7 }}>
+            Servings eaten
+          </label>
+          <Input
+            type="number"
+            min="0.25"
+            step="0.25"
+            value={servings}
+            onChange={(e) => setServings(e.target.value)}
+            disabled={loading}
+            style={{ width: '100%' }}
+          />
+        </div>
+      )}
+
+      {extraImages.length > 0 && (
+        <div style={{ display: 'flex', gap: 'var(--spacing-sm)', flexWrap: 'wrap', marginBottom: 'var(--spacing-lg)' }}>
+          {extraImages.map((image, idx) => (
+            <div key={idx} style={{ position: 'relative' }}>
+              <img
+                src={image.preview}
+                alt={`Extra view ${idx + 1}`}
+                style={{ width: '80px', height: '80px', objectFit: 'cover', borderRadius: 'var(--border-radius-md)' }}
+              />
+              <button
+                type="button"
+                aria-label={`Remove extra view ${idx + 1}`}
+                onClick={() => removeImage(idx)}
+                disabled={loading}
+                style={{ position: 'absolute', top: 2, right: 2, border: 'none', borderRadius: '50%', cursor: 'pointer' }}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!loading && 1 + extraImages.length < MAX_IMAGES && (
+        <>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            onChange={handleAddImage}
+            style={{ display: 'none' }}
+          />
+          <Button
+            variant="secondary"
+            fullWidth
+            onClick={() => fileInputRef.current?.click()}
+            style={{ marginBottom: 'var(--spacing-lg)' }}
+          >
+            ➕ Add another angle or label
+          </Button>
+        </>
+      )}
+
       {error && (
         <Card style={{ marginBottom: 'var(--spacing-lg)', padding: 'var(--spacing-lg)', backgroundColor: 'var(--color-error)', color: 'white' }}>
           <p style={{ margin: 0 }}>{error}</p>
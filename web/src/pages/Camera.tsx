@@ -1,6 +1,10 @@
 import { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Button } from '../components/ui';
+import { Button, Card, Input } from '../components/ui';
+import { foodApi } from '../services/api';
+import type { ApiError } from '../services/api';
+
+type ScanMode = 'meal' | 'barcode';
 
 export default function Camera() {
   const navigate = useNavigate();
@@ -11,6 +15,11 @@ export default function Camera() {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [scanMode, setScanMode] = useState<ScanMode>('meal');
+  const [barcodeInput, setBarcodeInput] = useState('');
+  const [servings, setServings] = useState('1');
+  const [lookingUp, setLookingUp] = useState(false);
+  const [barcodeError, setBarcodeError] = useState<string | null>(null);
 
   useEffect(() => {
     startCamera();
@@ -89,9 +98,79 @@ export default function Camera() {
     }
   };
 
+  // Barcode mode logs the product straight away and opens the new meal
+  const lookupBarcode = async (source: { barcode: string } | { image: File }) => {
+    const servingCount = parseFloat(servings);
+    if (!(servingCount > 0)) {
+      setBarcodeError('Servings must be greater than 0');
+      return;
+    }
+
+    setLookingUp(true);
+    setBarcodeError(null);
+    try {
+      const meal = await foodApi.logBarcode(source, servingCount);
+      navigate(`/history/${meal.id}`, { state: { meal } });
+    } catch (err) {
+      const apiError = err as ApiError;
+      setBarcodeError(apiError.message || 'Barcode lookup failed');
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
   return (
     <div className="container">
-      <h1>Capture Meal</h1>
+      <h1>{scanMode === 'barcode' ? 'Scan Barcode' : 'Capture Meal'}</h1>
+
+      <div className="quick-actions" style={{ marginBottom: 'var(--spacing-lg)' }}>
+        <Button variant={scanMode === 'meal' ? 'primary' : 'secondary'} fullWidth onClick={() => setScanMode('meal')}>
+          🍽️ Meal
+        </Button>
+        <Button variant={scanMode === 'barcode' ? 'primary' : 'secondary'} fullWidth onClick={() => setScanMode('barcode')}>
+          🔖 Barcode
+        </Button>
+        <Button variant="secondary" fullWidth onClick={() => navigate('/log')}>
+          ✍️ Type
+        </Button>
+      </div>
+
+      {scanMode === 'barcode' && (
+        <div style={{ marginBottom: 'var(--spacing-lg)' }}>
+          <div style={{ display: 'flex', gap: 'var(--spacing-sm)', marginBottom: 'var(--spacing-sm)' }}>
+            <Input
+              type="text"
+              inputMode="numeric"
+              placeholder="Type a barcode"
+              value={barcodeInput}
+              onChange={(e) => setBarcodeInput(e.target.value)}
+              style={{ flex: 2 }}
+            />
+            <Input
+              type="number"
+              min="0.25"
+              step="0.25"
+              aria-label="Servings"
+              value={servings}
+              onChange={(e) => setServings(e.target.value)}
+              style={{ flex: 1 }}
+            />
+          </div>
+          <Button
+            variant="secondary"
+            fullWidth
+            disabled={lookingUp || barcodeInput.trim() === ''}
+            onClick={() => lookupBarcode({ barcode: barcodeInput.trim() })}
+          >
+            Log Barcode
+          </Button>
+          {barcodeError && (
+            <Card style={{ marginTop: 'var(--spacing-md)', padding: 'var(--spacing-md)', backgroundColor: 'var(--color-error)', color: 'white' }}>
+              <p style={{ margin: 0 }}>{barcodeError}</p>
+            </Card>
+          )}
+        </div>
+      )}
       
       {capturedImage ? (
         <div>
@@ -110,9 +189,20 @@ export default function Camera() {
             <Button variant="secondary" fullWidth onClick={retake}>
               ↻ Retake
             </Button>
-            <Button variant="primary" fullWidth onClick={continueToAnalyze}>
-              Continue →
-            </Button>
+            {scanMode === 'barcode' ? (
+              <Button
+                variant="primary"
+                fullWidth
+                disabled={lookingUp || !selectedFile}
+                onClick={() => selectedFile && lookupBarcode({ image: selectedFile })}
+              >
+                {lookingUp ? 'Looking up...' : 'Look Up Barcode →'}
+              </Button>
+            ) : (
+              <Button variant="primary" fullWidth onClick={continueToAnalyze}>
+                Continue →
+              </Button>
+            )}
           </div>
         </div>
       ) : (
@@ -1,39 +1,137 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, Button } from '../components/ui';
 import { useAuth } from '../contexts/AuthContext';
 import { mealApi } from '../services/api';
-import type { Meal, ApiError } from '../services/api';
+import type { Meal, MealFilters, MealSortField, MealType, ApiError } from '../services/api';
+import { MEAL_TYPES, mealTypeLabel } from '../services/mealTypes';
+
+const SORT_OPTIONS: Array<{ value: string; label: string; sort: MealSortField; order: 'asc' | 'desc' }> = [
+  { value: 'newest', label: 'Newest first', sort: 'createdAt', order: 'desc' },
+  { value: 'oldest', label: 'Oldest first', sort: 'createdAt', order: 'asc' },
+  { value: 'calories-desc', label: 'Most calories', sort: 'calories', order: 'desc' },
+  { value: 'calories-asc', label: 'Fewest calories', sort: 'calories', order: 'asc' },
+  { value: 'protein-desc', label: 'Most protein', sort: 'protein', order: 'desc' },
+];
+
+const inputStyle = {
+  width: '100%',
+  padding: 'var(--spacing-sm)',
+  borderRadius: 'var(--border-radius-sm)',
+  border: '1px solid var(--color-surface-secondary)',
+  backgroundColor: 'var(--color-surface-primary)',
+  color: 'var(--color-text-primary)',
+  boxSizing: 'border-box' as const,
+};
+
+const labelStyle = { display: 'block', marginBottom: 'var(--spacing-xs)', fontSize: 'var(--font-size-xs)', opacity: 0.7 };
+
+function hasFilters(filters: MealFilters): boolean {
+  return Object.entries(filters).some(([key, value]) =>
+    key !== 'sort' && key !== 'order' && value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0));
+}
 
 export default function History() {
   const navigate = useNavigate();
   const { isGuest } = useAuth();
   const [meals, setMeals] = useState<Meal[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [filters, setFilters] = useState<MealFilters>({});
+  const [search, setSearch] = useState('');
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Responses for earlier filters are ignored once the filters change
+  const requestId = useRef(0);
 
-  const fetchMeals = async () => {
+  const fetchMeals = useCallback(async () => {
     if (isGuest) {
       return;
     }
 
+    const id = ++requestId.current;
     setLoading(true);
     setError(null);
 
     try {
-      const data = await mealApi.getMeals();
-      setMeals(data);
+      const page = await mealApi.getMeals(filters);
+      if (id !== requestId.current) return;
+      setMeals(page.meals);
+      setNextCursor(page.nextCursor);
     } catch (err) {
+      if (id !== requestId.current) return;
       const apiError = err as ApiError;
       setError(apiError.message || 'Failed to load meal history');
     } finally {
-      setLoading(false);
+      if (id === requestId.current) setLoading(false);
     }
-  };
+  }, [isGuest, filters]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loading || loadingMore) {
+      return;
+    }
+
+    const id = requestId.current;
+    setLoadingMore(true);
+
+    try {
+      const page = await mealApi.getMeals(filters, nextCursor);
+      if (id !== requestId.current) return;
+      setMeals(prev => [...prev, ...page.meals]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      if (id !== requestId.current) return;
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to load more meals');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [filters, nextCursor, loading, loadingMore]);
 
   useEffect(() => {
     fetchMeals();
-  }, [isGuest]);
+  }, [fetchMeals]);
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const q = search.trim() || undefined;
+      setFilters(prev => (prev.q === q ? prev : { ...prev, q }));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0]?.isIntersecting) loadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore]);
+
+  const updateFilter = <K extends keyof MealFilters>(key: K, value: MealFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const numberValue = (value: string) => (value === '' ? undefined : Math.max(0, Number(value)));
+
+  const sortValue = SORT_OPTIONS.find(option =>
+    option.sort === (filters.sort ?? 'createdAt') && option.order === (filters.order ?? 'desc'))?.value ?? 'newest';
+
+  const clearFilters = () => {
+    setSearch('');
+    setFilters({ sort: filters.sort, order: filters.order });
+  };
+
+  const filtered = hasFilters(filters);
 
   const formatDate = (timestamp: string) => {
     const date = new Date(timestamp);
@@ -65,6 +163,98 @@ export default function History() {
         </Card>
       )}
 
+      {!isGuest && (
+        <Card style={{ marginBottom: 'var(--spacing-lg)', padding: 'var(--spacing-md)' }}>
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search foods, e.g. chicken salad"
+            aria-label="Search foods"
+            style={{ ...inputStyle, marginBottom: 'var(--spacing-sm)' }}
+          />
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: 'var(--spacing-sm)' }}>
+            <div>
+              <label style={labelStyle} htmlFor="history-meal-type">Meal type</label>
+              <select
+                id="history-meal-type"
+                value={filters.mealTypes?.[0] ?? ''}
+                onChange={(e) => updateFilter('mealTypes', e.target.value ? [e.target.value as MealType] : undefined)}
+                style={inputStyle}
+              >
+                <option value="">All meals</option>
+                {MEAL_TYPES.map(type => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label style={labelStyle} htmlFor="history-sort">Sort</label>
+              <select
+                id="history-sort"
+                value={sortValue}
+                onChange={(e) => {
+                  const option = SORT_OPTIONS.find(o => o.value === e.target.value) ?? SORT_OPTIONS[0];
+                  setFilters(prev => ({ ...prev, sort: option.sort, order: option.order }));
+                }}
+                style={inputStyle}
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label style={labelStyle} htmlFor="history-from">From</label>
+              <input
+                id="history-from"
+                type="date"
+                value={filters.from ?? ''}
+                onChange={(e) => updateFilter('from', e.target.value || undefined)}
+                style={inputStyle}
+              />
+            </div>
+            <div>
+              <label style={labelStyle} htmlFor="history-to">To</label>
+              <input
+                id="history-to"
+                type="date"
+                value={filters.to ?? ''}
+                onChange={(e) => updateFilter('to', e.target.value || undefined)}
+                style={inputStyle}
+              />
+            </div>
+            <div>
+              <label style={labelStyle} htmlFor="history-min-calories">Min calories</label>
+              <input
+                id="history-min-calories"
+                type="number"
+                min={0}
+                value={filters.minCalories ?? ''}
+                onChange={(e) => updateFilter('minCalories', numberValue(e.target.value))}
+                style={inputStyle}
+              />
+            </div>
+            <div>
+              <label style={labelStyle} htmlFor="history-max-calories">Max calories</label>
+              <input
+                id="history-max-calories"
+                type="number"
+                min={0}
+                value={filters.maxCalories ?? ''}
+                onChange={(e) => updateFilter('maxCalories', numberValue(e.target.value))}
+                style={inputStyle}
+              />
+            </div>
+          </div>
+          {filtered && (
+            <Button variant="secondary" onClick={clearFilters} style={{ marginTop: 'var(--spacing-sm)' }}>
+              Clear filters
+            </Button>
+          )}
+        </Card>
+      )}
+
       {error && (
         <Card style={{ marginBottom: 'var(--spacing-xl)', padding: 'var(--spacing-lg)', backgroundColor: 'var(--color-error)', color: 'white' }}>
           <p style={{ margin: 0, marginBottom: 'var(--spacing-md)' }}>{error}</p>
@@ -80,7 +270,13 @@ export default function History() {
         </div>
       )}
 
-      {!isGuest && !loading && meals.length === 0 && !error && (
+      {!isGuest && !loading && meals.length === 0 && !error && filtered && (
+        <Card style={{ padding: 'var(--spacing-xl)', textAlign: 'center' }}>
+          <p style={{ opacity: 0.6, margin: 0 }}>No meals match these filters</p>
+        </Card>
+      )}
+
+      {!isGuest && !loading && meals.length === 0 && !error && !filtered && (
         <Card style={{ padding: 'var(--spacing-xl)', textAlign: 'center' }}>
           <p style={{ opacity: 0.6, marginBottom: 'var(--spacing-md)' }}>No meals yet</p>
           <Button variant="primary" onClick={() => navigate('/camera')}>
@@ -127,6 +323,7 @@ export default function History() {
                 </div>
                 <div style={{ flex: 1, minWidth: 0 }}>
                   <div style={{ fontSize: 'var(--font-size-sm)', opacity: 0.6, marginBottom: 'var(--spacing-xs)' }}>
+                    {mealTypeLabel(meal.mealType) && `${mealTypeLabel(meal.mealType)} · `}
                     {formatDate(meal.timestamp)}
                   </div>
                   <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 'var(--spacing-sm)', fontSize: 'var(--font-size-sm)' }}>
@@ -158,6 +355,14 @@ export default function History() {
           ))}
         </div>
       )}
+
+      {nextCursor && (
+        <div ref={sentinelRef} style={{ textAlign: 'center', padding: 'var(--spacing-lg)' }}>
+          <Button variant="secondary" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, SectionHeader, Button, Input } from '../components/ui';
+import { mealApi } from '../services/api';
+import type { MealCreateRequest, MealType, ApiError } from '../services/api';
+import { MEAL_TYPES } from '../services/mealTypes';
+
+type EntryMode = 'describe' | 'foods';
+
+interface EntryFood {
+  id: string;
+  name: string;
+  portion: string;
+  calories: string;
+  protein: string;
+  carbs: string;
+  fat: string;
+}
+
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+function emptyFood(): EntryFood {
+  return { id: `food-${Date.now()}`, name: '', portion: '', calories: '', protein: '', carbs: '', fat: '' };
+}
+
+export default function LogMeal() {
+  const navigate = useNavigate();
+  const [mode, setMode] = useState<EntryMode>('describe');
+  const [description, setDescription] = useState('');
+  const [foods, setFoods] = useState<EntryFood[]>([emptyFood()]);
+  // Empty lets the backend infer it from the time of day
+  const [mealType, setMealType] = useState<MealType | ''>('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFoodChange = (foodId: string, field: keyof EntryFood, value: string) => {
+    setFoods(prev => prev.map(food => (food.id === foodId ? { ...food, [field]: value } : food)));
+  };
+
+  const removeFood = (foodId: string) => {
+    setFoods(prev => prev.filter(food => food.id !== foodId));
+  };
+
+  const canSave = mode === 'describe'
+    ? description.trim() !== ''
+    : foods.length > 0 && foods.every(food => food.name.trim() !== '');
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const request: MealCreateRequest = mode === 'describe'
+        ? { text: description.trim(), model: localStorage.getItem('selectedModel') || undefined }
+        : {
+            foods: foods.map(food => ({
+              name: food.name.trim(),
+              portion: food.portion.trim() || '1 serving',
+              nutrition: {
+                calories: parseFloat(food.calories) || 0,
+                protein: parseFloat(food.protein) || 0,
+                carbs: parseFloat(food.carbs) || 0,
+                fat: parseFloat(food.fat) || 0,
+              },
+            })),
+          };
+
+      if (mealType) request.mealType = mealType;
+
+      const meal = await mealApi.createMeal(request);
+      navigate(`/history/${meal.id}`, { state: { meal }, replace: true });
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to log meal');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="container">
+      <div className="page-header">
+        <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--spacing-md)' }}>
+          <Button variant="secondary" onClick={() => navigate(-1)}>
+            ← Back
+          </Button>
+          <h1 style={{ margin: 0 }}>Log Meal</h1>
+        </div>
+      </div>
+
+      <div className="quick-actions" style={{ marginBottom: 'var(--spacing-lg)' }}>
+        <Button variant={mode === 'describe' ? 'primary' : 'secondary'} fullWidth onClick={() => setMode('describe')}>
+          💬 Describe
+        </Button>
+        <Button variant={mode === 'foods' ? 'primary' : 'secondary'} fullWidth onClick={() => setMode('foods')}>
+          📝 Enter Foods
+        </Button>
+      </div>
+
+      {error && (
+        <Card style={{ marginBottom: 'var(--spacing-lg)', padding: 'var(--spacing-md)', backgroundColor: 'var(--color-error)', color: 'white' }}>
+          <p style={{ margin: 0 }}>{error}</p>
+        </Card>
+      )}
+
+      <Card style={{ padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-lg)' }}>
+        <label style={{ display: 'block', marginBottom: 'var(--spacing-xs)', fontSize: 'var(--font-size-sm)' }}>
+          Meal type
+        </label>
+        <select
+          value={mealType}
+          onChange={(e) => setMealType(e.target.value as MealType | '')}
+          style={{
+            width: '100%',
+            padding: 'var(--spacing-sm)',
+            borderRadius: 'var(--border-radius-sm)',
+            border: '1px solid var(--color-surface-secondary)',
+            backgroundColor: 'var(--color-surface-primary)',
+            color: 'var(--color-text-primary)',
+          }}
+        >
+          <option value="">Auto (from the time)</option>
+          {MEAL_TYPES.map(type => (
+            <option key={type.value} value={type.value}>{type.label}</option>
+          ))}
+        </select>
+      </Card>
+
+      {mode === 'describe' ? (
+        <Card style={{ padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-lg)' }}>
+          <label style={{ display: 'block', marginBottom: 'var(--spacing-xs)', fontSize: 'var(--font-size-sm)' }}>
+            What did you eat?
+          </label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="e.g., 2 eggs, toast with butter, black coffee"
+            maxLength={MAX_DESCRIPTION_LENGTH}
+            rows={4}
+            style={{
+              width: '100%',
+              padding: 'var(--spacing-sm)',
+              borderRadius: 'var(--border-radius-sm)',
+              border: '1px solid var(--color-surface-secondary)',
+              backgroundColor: 'var(--color-surface-primary)',
+              color: 'var(--color-text-primary)',
+              resize: 'vertical'
+            }}
+          />
+          <p style={{ margin: 'var(--spacing-xs) 0 0', fontSize: 'var(--font-size-xs)', opacity: 0.6 }}>
+            Include amounts where you can - the AI estimates the nutrition.
+          </p>
+        </Card>
+      ) : (
+        <>
+          <SectionHeader>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', width: '100%' }}>
+              <span>🍽️ Food Items</span>
+              <Button variant="secondary" onClick={() => setFoods(prev => [...prev, emptyFood()])}>
+                + Add Item
+              </Button>
+            </div>
+          </SectionHeader>
+
+          {foods.map((food) => (
+            <Card key={food.id} style={{ marginBottom: 'var(--spacing-md)', padding: 'var(--spacing-md)' }}>
+              <div style={{ display: 'flex', gap: 'var(--spacing-sm)', marginBottom: 'var(--spacing-sm)' }}>
+                <Input
+                  type="text"
+                  value={food.name}
+                  onChange={(e) => handleFoodChange(food.id, 'name', e.target.value)}
+                  placeholder="Food name"
+                  style={{ flex: 2, fontWeight: 600 }}
+                />
+                <Input
+                  type="text"
+                  value={food.portion}
+                  onChange={(e) => handleFoodChange(food.id, 'portion', e.target.value)}
+                  placeholder="Portion"
+                  style={{ flex: 1 }}
+                />
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 'var(--spacing-sm)' }}>
+                {(['calories', 'protein', 'carbs', 'fat'] as const).map(field => (
+                  <Input
+                    key={field}
+                    type="number"
+                    min="0"
+                    aria-label={field}
+                    placeholder={field === 'calories' ? 'kcal' : `${field} (g)`}
+                    value={food[field]}
+                    onChange={(e) => handleFoodChange(food.id, field, e.target.value)}
+                  />
+                ))}
+              </div>
+              {foods.length > 1 && (
+                <Button
+                  variant="secondary"
+                  onClick={() => removeFood(food.id)}
+                  style={{ marginTop: 'var(--spacing-sm)', fontSize: 'var(--font-size-sm)' }}
+                >
+                  🗑️ Remove
+                </Button>
+              )}
+            </Card>
+          ))}
+        </>
+      )}
+
+      <Button variant="primary" fullWidth onClick={handleSave} disabled={saving || !canSave}>
+        {saving ? (mode === 'describe' ? 'Estimating...' : 'Saving...') : '💾 Log Meal'}
+      </Button>
+    </div>
+  );
+}
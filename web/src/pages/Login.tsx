@@ -1,19 +1,74 @@
-import { useState } from 'react';
-import type { FormEvent } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect, useRef } from 'react';
+import type { FormEvent, ReactNode } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { authApi } from '../services/api';
+import type { ApiError } from '../services/api';
 import { Button } from '../components/ui';
 import './Login.css';
 
+interface GoogleIdentityServices {
+  accounts: {
+    id: {
+      initialize(options: { client_id: string; callback: (response: { credential: string }) => void }): void;
+      renderButton(parent: HTMLElement, options: Record<string, string | number>): void;
+    };
+  };
+}
+
+declare global {
+  interface Window {
+    google?: GoogleIdentityServices;
+  }
+}
+
+const GOOGLE_IDENTITY_SCRIPT = 'https://accounts.google.com/gsi/client';
+let googleIdentityServices: Promise<GoogleIdentityServices> | null = null;
+
+/**
+ * Load Google Identity Services once, on the first Login page that needs it
+ */
+function loadGoogleIdentityServices(): Promise<GoogleIdentityServices> {
+  if (!googleIdentityServices) {
+    googleIdentityServices = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = GOOGLE_IDENTITY_SCRIPT;
+      script.async = true;
+      script.onload = () => window.google ? resolve(window.google) : reject(new Error('Google sign-in is unavailable'));
+      script.onerror = () => {
+        googleIdentityServices = null;
+        reject(new Error('Google sign-in is unavailable'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return googleIdentityServices;
+}
+
 export default function Login() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
   const [showRegister, setShowRegister] = useState(false);
-  const { login, enterGuestMode } = useAuth();
+  const [showForgotPassword, setShowForgotPassword] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [googleClientId, setGoogleClientId] = useState<string | null>(null);
+  const { login, loginWithIdToken, enterGuestMode } = useAuth();
   const navigate = useNavigate();
 
+  // Offer Google sign-in when the backend accepts it; the web client id is listed first
+  useEffect(() => {
+    authApi.oauthProviders()
+      .then(({ providers }) => setGoogleClientId(providers.find(p => p.name === 'google')?.clientIds[0] ?? null))
+      .catch(() => {});
+  }, []);
+
+  // Links from verification and password reset emails
+  const verifyToken = searchParams.get('verify');
+  const resetToken = searchParams.get('reset');
+  const clearEmailLink = () => setSearchParams({}, { replace: true });
+
   const validateEmail = (email: string): string => {
     if (!email) return 'Email is required';
     if (!/\S+@\S+\.\S+/.test(email)) return 'Invalid email format';
@@ -53,11 +108,36 @@ export default function Login() {
     }
   };
 
+  const handleGoogleCredential = async (idToken: string) => {
+    setErrorMessage('');
+    setIsLoading(true);
+    try {
+      await loginWithIdToken('google', idToken);
+      navigate('/');
+    } catch (err) {
+      setErrorMessage((err as ApiError).message || 'Google sign-in failed. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleGuestMode = () => {
     enterGuestMode();
     navigate('/');
   };
 
+  if (resetToken) {
+    return <ResetPassword token={resetToken} onDone={clearEmailLink} />;
+  }
+
+  if (verifyToken) {
+    return <VerifyEmail token={verifyToken} onDone={clearEmailLink} />;
+  }
+
+  if (showForgotPassword) {
+    return <ForgotPassword onBack={() => setShowForgotPassword(false)} />;
+  }
+
   if (showRegister) {
     return <Register onBack={() => setShowRegister(false)} />;
   }
@@ -119,6 +199,14 @@ export default function Login() {
                 />
               </div>
 
+              <button
+                type="button"
+                className="login-forgot-link"
+                onClick={() => setShowForgotPassword(true)}
+              >
+                Forgot password?
+              </button>
+
               {errorMessage && (
                 <div className="login-error">
                   <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
@@ -141,6 +229,10 @@ export default function Login() {
                 )}
               </Button>
 
+              {googleClientId && (
+                <GoogleSignInButton clientId={googleClientId} onCredential={handleGoogleCredential} onError={setErrorMessage} />
+              )}
+
               <button
                 type="button"
                 className="login-register-link"
@@ -370,3 +462,305 @@ function Register({ onBack }: { onBack: () => void }) {
     </div>
   );
 }
+
+/**
+ * Google's own sign-in button; hands back the ID token it gets
+ */
+function GoogleSignInButton({ clientId, onCredential, onError }: {
+  clientId: string;
+  onCredential: (idToken: string) => void;
+  onError: (message: string) => void;
+}) {
+  const container = useRef<HTMLDivElement>(null);
+  const callbacks = useRef({ onCredential, onError });
+
+  useEffect(() => {
+    callbacks.current = { onCredential, onError };
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadGoogleIdentityServices()
+      .then(google => {
+        if (cancelled || !container.current) return;
+        google.accounts.id.initialize({
+          client_id: clientId,
+          callback: response => callbacks.current.onCredential(response.credential),
+        });
+        google.accounts.id.renderButton(container.current, {
+          theme: 'outline',
+          size: 'large',
+          shape: 'pill',
+          text: 'continue_with',
+          width: container.current.offsetWidth || 320,
+        });
+      })
+      .catch((err: Error) => {
+        if (!cancelled) callbacks.current.onError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [clientId]);
+
+  return <div ref={container} className="login-oauth" />;
+}
+
+function ErrorMessage({ message }: { message: string }) {
+  return (
+    <div className="login-error">
+      <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+        <path d="M8 0a8 8 0 1 0 0 16A8 8 0 0 0 8 0zM7 4h2v5H7V4zm0 6h2v2H7v-2z"/>
+      </svg>
+      <span>{message}</span>
+    </div>
+  );
+}
+
+/**
+ * Layout shared by the password and verification screens
+ */
+function AccountScreen({ title, subtitle, onClose, children }: {
+  title: string;
+  subtitle: string;
+  onClose: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <div className="login-page register-page">
+      <div className="login-gradient register-gradient"></div>
+
+      <div className="login-content">
+        <button className="register-close" onClick={onClose}>
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="none">
+            <circle cx="12" cy="12" r="10" fill="white" fillOpacity="0.8"/>
+            <path d="M8 8l8 8M16 8l-8 8" stroke="currentColor" strokeWidth="2"/>
+          </svg>
+        </button>
+
+        <div className="login-header register-header">
+          <h1 className="login-title">{title}</h1>
+          <p className="login-subtitle">{subtitle}</p>
+        </div>
+
+        <div className="login-card register-card">
+          <div className="login-form">
+            {children}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ForgotPassword({ onBack }: { onBack: () => void }) {
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [sentMessage, setSentMessage] = useState('');
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setErrorMessage('');
+
+    if (!/\S+@\S+\.\S+/.test(email)) {
+      setErrorMessage('Enter the email you signed up with');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await authApi.forgotPassword(email);
+      setSentMessage(response.message);
+    } catch (err) {
+      setErrorMessage((err as ApiError).message || 'Could not send the reset email. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <AccountScreen title="Reset Password" subtitle="We'll email you a link to choose a new one" onClose={onBack}>
+      {sentMessage ? (
+        <>
+          <p className="login-success">{sentMessage}. The link expires in 1 hour.</p>
+          <Button type="button" variant="primary" onClick={onBack}>Back to Sign In</Button>
+        </>
+      ) : (
+        <form onSubmit={handleSubmit} className="login-form">
+          <div className="login-input-group">
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none">
+              <path d="M4 4h16c1.1 0 2 .9 2 2v12c0 1.1-.9 2-2 2H4c-1.1 0-2-.9-2-2V6c0-1.1.9-2 2-2z" stroke="currentColor" strokeWidth="2"/>
+              <path d="m22 6-10 7L2 6" stroke="currentColor" strokeWidth="2"/>
+            </svg>
+            <input
+              type="email"
+              placeholder="Email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={isLoading}
+              autoComplete="email"
+            />
+          </div>
+
+          {errorMessage && <ErrorMessage message={errorMessage} />}
+
+          <Button type="submit" variant="primary" disabled={isLoading}>
+            {isLoading ? <span className="login-loading">Sending...</span> : 'Send Reset Link'}
+          </Button>
+        </form>
+      )}
+    </AccountScreen>
+  );
+}
+
+function ResetPassword({ token, onDone }: { token: string; onDone: () => void }) {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  const [isReset, setIsReset] = useState(false);
+  const { isAuthenticated, logout } = useAuth();
+
+  // Resetting signs out every session, this one included
+  const finish = () => {
+    if (isAuthenticated) logout();
+    onDone();
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setErrorMessage('');
+
+    if (password.length < 8) {
+      setErrorMessage('Password must be at least 8 characters');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setErrorMessage('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await authApi.resetPassword(token, password);
+      setIsReset(true);
+    } catch (err) {
+      setErrorMessage((err as ApiError).message || 'Could not reset your password. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <AccountScreen title="Choose a New Password" subtitle="Enter a new password for your account" onClose={finish}>
+      {isReset ? (
+        <>
+          <p className="login-success">Your password has been changed. Sign in with your new password.</p>
+          <Button type="button" variant="primary" onClick={finish}>Back to Sign In</Button>
+        </>
+      ) : (
+        <form onSubmit={handleSubmit} className="login-form">
+          <div className="login-input-group">
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none">
+              <rect x="5" y="11" width="14" height="10" rx="2" stroke="currentColor" strokeWidth="2"/>
+              <path d="M7 11V7a5 5 0 0 1 10 0v4" stroke="currentColor" strokeWidth="2"/>
+            </svg>
+            <input
+              type="password"
+              placeholder="New Password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={isLoading}
+              autoComplete="new-password"
+            />
+          </div>
+
+          <div className="login-input-group">
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none">
+              <rect x="5" y="11" width="14" height="10" rx="2" stroke="currentColor" strokeWidth="2"/>
+              <path d="M7 11V7a5 5 0 0 1 10 0v4" stroke="currentColor" strokeWidth="2"/>
+              <circle cx="12" cy="16" r="1" fill="currentColor"/>
+            </svg>
+            <input
+              type="password"
+              placeholder="Confirm New Password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              disabled={isLoading}
+              autoComplete="new-password"
+            />
+          </div>
+
+          {errorMessage && <ErrorMessage message={errorMessage} />}
+
+          <Button type="submit" variant="primary" disabled={isLoading}>
+            {isLoading ? <span className="login-loading">Saving...</span> : 'Set Password'}
+          </Button>
+        </form>
+      )}
+    </AccountScreen>
+  );
+}
+
+function VerifyEmail({ token, onDone }: { token: string; onDone: () => void }) {
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [errorMessage, setErrorMessage] = useState('');
+  const [resendMessage, setResendMessage] = useState('');
+  const { isAuthenticated } = useAuth();
+  const requested = useRef(false);
+
+  useEffect(() => {
+    // The token works once, so don't send it again when effects re-run
+    if (requested.current) return;
+    requested.current = true;
+
+    authApi.verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch((err: ApiError) => {
+        setErrorMessage(err.message || 'This verification link is invalid or has expired.');
+        setStatus('failed');
+      });
+  }, [token]);
+
+  const handleResend = async () => {
+    try {
+      await authApi.resendVerification();
+      setResendMessage('We sent a new link. Check your inbox.');
+    } catch (err) {
+      setResendMessage((err as ApiError).message || 'Could not send a new link. Please try again.');
+    }
+  };
+
+  return (
+    <AccountScreen title="Verify Email" subtitle="Confirming your email address" onClose={onDone}>
+      {status === 'verifying' && <p className="login-success">Verifying...</p>}
+
+      {status === 'verified' && (
+        <>
+          <p className="login-success">Your email address is verified.</p>
+          <Button type="button" variant="primary" onClick={onDone}>Continue</Button>
+        </>
+      )}
+
+      {status === 'failed' && (
+        <>
+          <ErrorMessage message={errorMessage} />
+          {isAuthenticated ? (
+            resendMessage ? (
+              <p className="login-success">{resendMessage}</p>
+            ) : (
+              <Button type="button" variant="primary" onClick={handleResend}>Send a New Link</Button>
+            )
+          ) : (
+            <p className="login-success">Sign in to request a new verification link.</p>
+          )}
+          <Button type="button" variant="secondary" onClick={onDone}>Continue</Button>
+        </>
+      )}
+    </AccountScreen>
+  );
+}
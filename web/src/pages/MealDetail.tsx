@@ -3,6 +3,8 @@ import { useLocation, useNavigate, useParams } from 'react-router-dom';
 import { Card, SectionHeader, Button } from '../components/ui';
 import { mealApi } from '../services/api';
 import type { Meal, ApiError } from '../services/api';
+import { MICRONUTRIENTS, formatMicronutrient } from '../services/micronutrients';
+import { mealTypeLabel } from '../services/mealTypes';
 
 export default function MealDetail() {
   const location = useLocation();
@@ -148,7 +150,21 @@ export default function MealDetail() {
         />
       )}
 
+      {meal.thumbnails && meal.thumbnails.length > 1 && (
+        <div style={{ display: 'flex', gap: 'var(--spacing-sm)', flexWrap: 'wrap', marginBottom: 'var(--spacing-md)' }}>
+          {meal.thumbnails.slice(1).map((thumbnail, idx) => (
+            <img
+              key={idx}
+              src={thumbnail}
+              alt={`Meal view ${idx + 2}`}
+              style={{ width: '80px', height: '80px', objectFit: 'cover', borderRadius: 'var(--border-radius-md)' }}
+            />
+          ))}
+        </div>
+      )}
+
       <p style={{ fontSize: 'var(--font-size-sm)', opacity: 0.6, marginBottom: 'var(--spacing-xl)' }}>
+        {mealTypeLabel(meal.mealType) && `${mealTypeLabel(meal.mealType)} · `}
         {formatDate(meal.timestamp)}
       </p>
 
@@ -172,6 +188,25 @@ export default function MealDetail() {
         </Card>
       </div>
 
+      {(() => {
+        // Only what the analysis, label or reference food reported
+        const reported = MICRONUTRIENTS.filter(({ key }) => meal.totals[key] !== undefined);
+        if (reported.length === 0) return null;
+
+        return (
+          <Card style={{ marginBottom: 'var(--spacing-xl)', padding: 'var(--spacing-md)' }}>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(110px, 1fr))', gap: 'var(--spacing-sm)', fontSize: 'var(--font-size-sm)' }}>
+              {reported.map(({ key, label, unit }) => (
+                <div key={key}>
+                  <div style={{ opacity: 0.6 }}>{label}</div>
+                  <div style={{ fontWeight: 600 }}>{formatMicronutrient(meal.totals[key]!, unit)}</div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        );
+      })()}
+
       <SectionHeader>Items</SectionHeader>
       {(() => {
         // Handle both 'foods' (from backend) and 'items' (legacy)
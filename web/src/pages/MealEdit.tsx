@@ -2,7 +2,9 @@ import { useState, useEffect } from 'react';
 import { useLocation, useNavigate, useParams } from 'react-router-dom';
 import { Card, SectionHeader, Button, Input } from '../components/ui';
 import { mealApi } from '../services/api';
-import type { Meal, MealUpdateRequest, ApiError } from '../services/api';
+import type { Meal, MealType, MealUpdateRequest, MicronutrientValues, ApiError } from '../services/api';
+import { MEAL_TYPES } from '../services/mealTypes';
+import { pickMicronutrients, sumMicronutrients } from '../services/micronutrients';
 
 interface EditableFood {
   id: string;
@@ -12,6 +14,8 @@ interface EditableFood {
   protein: number;
   carbs: number;
   fat: number;
+  // Not editable here, but kept so saving doesn't drop them
+  micronutrients: MicronutrientValues;
   confidence?: number;
   isExpanded: boolean;
 }
@@ -24,6 +28,7 @@ export default function MealEdit() {
 
   const [mealDate, setMealDate] = useState('');
   const [mealTime, setMealTime] = useState('');
+  const [mealType, setMealType] = useState<MealType | ''>('');
   const [foods, setFoods] = useState<EditableFood[]>([]);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -34,6 +39,7 @@ export default function MealEdit() {
       const date = new Date(originalMeal.timestamp);
       setMealDate(date.toISOString().split('T')[0]);
       setMealTime(date.toTimeString().slice(0, 5));
+      setMealType(originalMeal.mealType ?? '');
 
       // Convert foods to editable format
       const mealFoods = originalMeal.foods || [];
@@ -46,6 +52,7 @@ export default function MealEdit() {
           protein: food.nutrition.protein,
           carbs: food.nutrition.carbs,
           fat: food.nutrition.fat,
+          micronutrients: pickMicronutrients(food.nutrition),
           confidence: food.confidence,
           isExpanded: false,
         }))
@@ -95,6 +102,7 @@ export default function MealEdit() {
       protein: 0,
       carbs: 0,
       fat: 0,
+      micronutrients: {},
       confidence: 0.8,
       isExpanded: true,
     };
@@ -118,6 +126,7 @@ export default function MealEdit() {
           name: f.name,
           portion: f.portion,
           nutrition: {
+            ...f.micronutrients,
             calories: f.calories,
             protein: f.protein,
             carbs: f.carbs,
@@ -126,6 +135,7 @@ export default function MealEdit() {
           confidence: f.confidence || 0.8,
         })),
         totals: {
+          ...sumMicronutrients(foods.map(f => f.micronutrients)),
           calories: totalCalories,
           protein: totalProtein,
           carbs: totalCarbs,
@@ -133,6 +143,7 @@ export default function MealEdit() {
         },
         timestamp,
       };
+      if (mealType) updateData.mealType = mealType;
 
       const updatedMeal = await mealApi.updateMeal(id, updateData);
       navigate(`/history/${id}`, { state: { meal: updatedMeal }, replace: true });
@@ -206,6 +217,26 @@ export default function MealEdit() {
             />
           </div>
         </div>
+        <label style={{ display: 'block', margin: 'var(--spacing-md) 0 var(--spacing-xs)', fontSize: 'var(--font-size-sm)', opacity: 0.7 }}>
+          Meal type
+        </label>
+        <select
+          value={mealType}
+          onChange={(e) => setMealType(e.target.value as MealType | '')}
+          style={{
+            width: '100%',
+            padding: 'var(--spacing-sm)',
+            borderRadius: 'var(--border-radius-sm)',
+            border: '1px solid var(--color-surface-secondary)',
+            backgroundColor: 'var(--color-surface-primary)',
+            color: 'var(--color-text-primary)',
+          }}
+        >
+          {!mealType && <option value="">Not set</option>}
+          {MEAL_TYPES.map(type => (
+            <option key={type.value} value={type.value}>{type.label}</option>
+          ))}
+        </select>
       </Card>
 
       {/* Totals (auto-calculated) */}
@@ -3,15 +3,116 @@ import { useNavigate } from 'react-router-dom';
 import { Card, SectionHeader, Button } from '../components/ui';
 import { profileApi } from '../services/api';
 import type {
-  DietTemplate,
+  DietTemplateSummary,
+  DietTemplateInput,
   UserProfile,
   ProfileUpdateData,
   CalculateGoalsResponse,
+  BmrFormula,
+  MicronutrientKey,
   ApiError
 } from '../services/api';
+import { MICRONUTRIENTS } from '../services/micronutrients';
 
 type Step = 'diet' | 'metrics' | 'goals' | 'complete';
 
+const inputStyle = {
+  width: '100%',
+  padding: 'var(--spacing-sm)',
+  borderRadius: 'var(--border-radius-sm)',
+  border: '1px solid var(--color-surface-secondary)',
+  backgroundColor: 'var(--color-surface-primary)',
+  color: 'var(--color-text-primary)'
+};
+
+const labelStyle = {
+  display: 'block',
+  marginBottom: 'var(--spacing-xs)',
+  fontSize: 'var(--font-size-sm)'
+};
+
+// Template editor inputs, kept as text; blank fiber, sugar or net carb limits mean none
+interface TemplateForm {
+  name: string;
+  description: string;
+  proteinRatio: string;
+  carbsRatio: string;
+  fatRatio: string;
+  baselineCalories: string;
+  carbsTolerance: string;
+  proteinTolerance: string;
+  fatTolerance: string;
+  fiberMinimum: string;
+  sugarMaximum: string;
+  netCarbsMaximum: string;
+  fatIsFuel: boolean;
+  countNetCarbs: boolean;
+  mealIdeas: string;    // One per line
+}
+
+const NUMBER_FIELDS: Array<{ key: keyof TemplateForm & keyof DietTemplateInput; label: string }> = [
+  { key: 'proteinRatio', label: 'Protein (% of calories)' },
+  { key: 'carbsRatio', label: 'Carbs (% of calories)' },
+  { key: 'fatRatio', label: 'Fat (% of calories)' },
+  { key: 'baselineCalories', label: 'Default Calories (kcal)' },
+  { key: 'proteinTolerance', label: 'Protein Tolerance (±%)' },
+  { key: 'carbsTolerance', label: 'Carbs Tolerance (±%)' },
+  { key: 'fatTolerance', label: 'Fat Tolerance (±%)' },
+  { key: 'fiberMinimum', label: 'Fiber Minimum (g)' },
+  { key: 'sugarMaximum', label: 'Sugar Maximum (g)' }
+];
+
+const optionalText = (value: number | null | undefined): string => (value === null || value === undefined ? '' : String(value));
+
+function toTemplateForm(template: DietTemplateSummary): TemplateForm {
+  return {
+    name: template.name,
+    description: template.description,
+    proteinRatio: String(template.proteinRatio),
+    carbsRatio: String(template.carbsRatio),
+    fatRatio: String(template.fatRatio),
+    baselineCalories: String(template.baselineCalories),
+    carbsTolerance: String(template.carbsTolerance),
+    proteinTolerance: String(template.proteinTolerance),
+    fatTolerance: String(template.fatTolerance),
+    fiberMinimum: optionalText(template.fiberMinimum),
+    sugarMaximum: optionalText(template.sugarMaximum),
+    netCarbsMaximum: optionalText(template.rules.netCarbsMaximum),
+    fatIsFuel: template.rules.fatIsFuel,
+    countNetCarbs: template.rules.countNetCarbs,
+    mealIdeas: template.rules.mealIdeas.join('\n')
+  };
+}
+
+function toTemplateInput(form: TemplateForm): DietTemplateInput {
+  const optional = (value: string) => (value.trim() === '' ? null : Number(value));
+  return {
+    name: form.name,
+    description: form.description,
+    proteinRatio: Number(form.proteinRatio),
+    carbsRatio: Number(form.carbsRatio),
+    fatRatio: Number(form.fatRatio),
+    baselineCalories: Number(form.baselineCalories),
+    carbsTolerance: Number(form.carbsTolerance),
+    proteinTolerance: Number(form.proteinTolerance),
+    fatTolerance: Number(form.fatTolerance),
+    fiberMinimum: optional(form.fiberMinimum),
+    sugarMaximum: optional(form.sugarMaximum),
+    rules: {
+      fatIsFuel: form.fatIsFuel,
+      countNetCarbs: form.countNetCarbs,
+      netCarbsMaximum: optional(form.netCarbsMaximum),
+      mealIdeas: form.mealIdeas.split('\n').map(idea => idea.trim()).filter(Boolean)
+    }
+  };
+}
+
+const SOURCE_LABELS: Record<DietTemplateSummary['source'], string | null> = {
+  'built-in': null,
+  global: 'Shared',
+  custom: 'Yours'
+};
+
 export default function Profile() {
   const navigate = useNavigate();
   const [step, setStep] = useState<Step>('diet');
@@ -20,7 +121,11 @@ export default function Profile() {
   const [error, setError] = useState<string | null>(null);
 
   // Diet templates
-  const [templates, setTemplates] = useState<DietTemplate[]>([]);
+  const [templates, setTemplates] = useState<DietTemplateSummary[]>([]);
+
+  // Template being created (dietType null) or edited
+  const [editingTemplate, setEditingTemplate] = useState<{ dietType: string | null; form: TemplateForm } | null>(null);
+  const [savingTemplate, setSavingTemplate] = useState(false);
 
   // Existing profile
   const [existingProfile, setExistingProfile] = useState<UserProfile | null>(null);
@@ -30,9 +135,15 @@ export default function Profile() {
   const [weight, setWeight] = useState<number | ''>('');
   const [height, setHeight] = useState<number | ''>('');
   const [age, setAge] = useState<number | ''>('');
-  const [gender, setGender] = useState<'male' | 'female'>('male');
+  const [gender, setGender] = useState<'male' | 'female' | 'other'>('male');
   const [activityLevel, setActivityLevel] = useState<'sedentary' | 'light' | 'moderate' | 'active' | 'very_active'>('moderate');
 
+  // Goal calculator options
+  const [formula, setFormula] = useState<BmrFormula>('mifflin-st-jeor');
+  const [bodyFat, setBodyFat] = useState<number | ''>('');
+  const [weeklyRate, setWeeklyRate] = useState<number>(0);
+  const [proteinPerKg, setProteinPerKg] = useState<number>(2.0);
+
   // Goals (can be calculated or manual)
   const [dailyCalorieGoal, setDailyCalorieGoal] = useState<number>(2000);
   const [dailyProteinGoal, setDailyProteinGoal] = useState<number>(100);
@@ -40,6 +151,9 @@ export default function Profile() {
   const [dailyFatGoal, setDailyFatGoal] = useState<number>(67);
   const [calculatedGoals, setCalculatedGoals] = useState<CalculateGoalsResponse | null>(null);
 
+  // Optional micronutrient limits, kept as input text; blank means no limit
+  const [micronutrientLimits, setMicronutrientLimits] = useState<Partial<Record<MicronutrientKey, string>>>({});
+
   useEffect(() => {
     loadData();
   }, []);
@@ -67,6 +181,9 @@ export default function Profile() {
         setDailyProteinGoal(profile.dailyProteinGoal);
         setDailyCarbsGoal(profile.dailyCarbsGoal);
         setDailyFatGoal(profile.dailyFatGoal);
+        setMicronutrientLimits(Object.fromEntries(
+          Object.entries(profile.micronutrientLimits ?? {}).map(([key, value]) => [key, String(value)])
+        ));
         // If profile exists, start at diet step for editing
         setStep('diet');
       } catch {
@@ -80,20 +197,90 @@ export default function Profile() {
     }
   };
 
+  const applyTemplateGoals = (template: DietTemplateSummary) => {
+    setDietType(template.dietType);
+    setDailyCalorieGoal(template.baselineCalories);
+    setDailyProteinGoal(template.baselineProtein);
+    setDailyCarbsGoal(template.baselineCarbs);
+    setDailyFatGoal(template.baselineFat);
+  };
+
   const handleDietSelect = (type: string) => {
-    setDietType(type);
     const template = templates.find(t => t.dietType === type);
     if (template) {
-      setDailyCalorieGoal(template.baselineCalories);
-      setDailyProteinGoal(template.baselineProtein);
-      setDailyCarbsGoal(template.baselineCarbs);
-      setDailyFatGoal(template.baselineFat);
+      applyTemplateGoals(template);
+    } else {
+      setDietType(type);
+    }
+  };
+
+  const reloadTemplates = async () => {
+    const { templates: loadedTemplates } = await profileApi.getDietTemplates();
+    setTemplates(loadedTemplates);
+  };
+
+  const handleNewTemplate = () => {
+    const base = templates.find(t => t.dietType === dietType) ?? templates.find(t => t.dietType === 'balanced');
+    if (!base) return;
+    setEditingTemplate({ dietType: null, form: { ...toTemplateForm(base), name: '', description: '' } });
+  };
+
+  const handleCloneTemplate = async (template: DietTemplateSummary) => {
+    setError(null);
+    try {
+      const { template: clone } = await profileApi.cloneDietTemplate(template.dietType);
+      await reloadTemplates();
+      setEditingTemplate({ dietType: clone.dietType, form: toTemplateForm(clone) });
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to copy template');
+    }
+  };
+
+  const handleDeleteTemplate = async (template: DietTemplateSummary) => {
+    if (!window.confirm(`Delete the ${template.name} template?`)) return;
+
+    setError(null);
+    try {
+      await profileApi.deleteDietTemplate(template.dietType);
+      if (editingTemplate?.dietType === template.dietType) setEditingTemplate(null);
+      if (dietType === template.dietType) setDietType('balanced');
+      await reloadTemplates();
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to delete template');
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!editingTemplate) return;
+
+    setSavingTemplate(true);
+    setError(null);
+    try {
+      const input = toTemplateInput(editingTemplate.form);
+      const { template } = editingTemplate.dietType
+        ? await profileApi.updateDietTemplate(editingTemplate.dietType, input)
+        : await profileApi.createDietTemplate(input);
+      await reloadTemplates();
+      applyTemplateGoals(template);
+      setEditingTemplate(null);
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Failed to save template');
+    } finally {
+      setSavingTemplate(false);
     }
   };
 
+  const updateTemplateForm = (changes: Partial<TemplateForm>) => {
+    setEditingTemplate(prev => (prev ? { ...prev, form: { ...prev.form, ...changes } } : prev));
+  };
+
   const handleCalculateGoals = async () => {
     if (!weight || !height || !age) return;
 
+    setError(null);
     try {
       const result = await profileApi.calculateGoals({
         weight: Number(weight),
@@ -101,7 +288,11 @@ export default function Profile() {
         age: Number(age),
         gender,
         activityLevel,
-        dietType
+        dietType,
+        formula,
+        bodyFat: bodyFat === '' ? null : Number(bodyFat),
+        weeklyRate,
+        proteinPerKgLeanMass: proteinPerKg
       });
       setCalculatedGoals(result);
       setDailyCalorieGoal(result.goals.calories);
@@ -132,6 +323,14 @@ export default function Profile() {
       if (age) data.age = Number(age);
       data.gender = gender;
       data.activityLevel = activityLevel;
+      // Days and weeks are counted in the browser's time zone
+      data.timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+      // Send every nutrient so cleared limits are removed
+      data.micronutrientLimits = Object.fromEntries(MICRONUTRIENTS.map(({ key }) => {
+        const value = parseFloat(micronutrientLimits[key] ?? '');
+        return [key, value > 0 ? value : null];
+      }));
 
       await profileApi.updateProfile(data);
       setStep('complete');
@@ -144,6 +343,9 @@ export default function Profile() {
   };
 
   const selectedTemplate = templates.find(t => t.dietType === dietType);
+  const ratioTotal = editingTemplate
+    ? Number(editingTemplate.form.proteinRatio) + Number(editingTemplate.form.carbsRatio) + Number(editingTemplate.form.fatRatio)
+    : 100;
 
   if (loading) {
     return (
@@ -198,17 +400,138 @@ export default function Profile() {
                 }}
                 onClick={() => handleDietSelect(template.dietType)}
               >
-                <h3 style={{ margin: '0 0 var(--spacing-xs) 0' }}>{template.name}</h3>
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: 'var(--spacing-sm)' }}>
+                  <h3 style={{ margin: '0 0 var(--spacing-xs) 0' }}>{template.name}</h3>
+                  {SOURCE_LABELS[template.source] && (
+                    <span style={{ fontSize: 'var(--font-size-xs)', opacity: 0.6 }}>{SOURCE_LABELS[template.source]}</span>
+                  )}
+                </div>
                 <p style={{ margin: 0, fontSize: 'var(--font-size-sm)', opacity: 0.7 }}>
                   {template.description}
                 </p>
                 <div style={{ marginTop: 'var(--spacing-sm)', fontSize: 'var(--font-size-xs)', opacity: 0.5 }}>
-                  Protein {Math.round(template.proteinRatio * 100)}% | Carbs {Math.round(template.carbsRatio * 100)}% | Fat {Math.round(template.fatRatio * 100)}%
+                  Protein {Math.round(template.proteinRatio)}% | Carbs {Math.round(template.carbsRatio)}% | Fat {Math.round(template.fatRatio)}%
+                </div>
+                <div style={{ display: 'flex', gap: 'var(--spacing-sm)', marginTop: 'var(--spacing-sm)' }} onClick={(e) => e.stopPropagation()}>
+                  <Button variant="ghost" size="sm" onClick={() => handleCloneTemplate(template)}>
+                    Copy
+                  </Button>
+                  {template.source === 'custom' && (
+                    <>
+                      <Button variant="ghost" size="sm" onClick={() => setEditingTemplate({ dietType: template.dietType, form: toTemplateForm(template) })}>
+                        Edit
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteTemplate(template)}>
+                        Delete
+                      </Button>
+                    </>
+                  )}
                 </div>
               </Card>
             ))}
           </div>
 
+          {editingTemplate ? (
+            <Card style={{ padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-xl)' }}>
+              <h3 style={{ marginTop: 0 }}>{editingTemplate.dietType ? 'Edit Template' : 'New Template'}</h3>
+              <div style={{ display: 'grid', gap: 'var(--spacing-md)' }}>
+                <div>
+                  <label style={labelStyle}>Name</label>
+                  <input
+                    type="text"
+                    value={editingTemplate.form.name}
+                    onChange={(e) => updateTemplateForm({ name: e.target.value })}
+                    maxLength={60}
+                    style={inputStyle}
+                  />
+                </div>
+                <div>
+                  <label style={labelStyle}>Description</label>
+                  <textarea
+                    value={editingTemplate.form.description}
+                    onChange={(e) => updateTemplateForm({ description: e.target.value })}
+                    maxLength={300}
+                    rows={2}
+                    style={{ ...inputStyle, resize: 'vertical' }}
+                  />
+                </div>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 'var(--spacing-md)' }}>
+                  {NUMBER_FIELDS.map(({ key, label }) => (
+                    <div key={key}>
+                      <label style={labelStyle}>{label}</label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={editingTemplate.form[key]}
+                        onChange={(e) => updateTemplateForm({ [key]: e.target.value })}
+                        style={inputStyle}
+                      />
+                    </div>
+                  ))}
+                </div>
+                {Math.abs(ratioTotal - 100) > 0.5 && (
+                  <p style={{ margin: 0, fontSize: 'var(--font-size-sm)', color: 'var(--color-error)' }}>
+                    Protein, carbs and fat add up to {ratioTotal}%; they need to add up to 100%.
+                  </p>
+                )}
+                <label style={{ display: 'flex', gap: 'var(--spacing-sm)', fontSize: 'var(--font-size-sm)' }}>
+                  <input
+                    type="checkbox"
+                    checked={editingTemplate.form.fatIsFuel}
+                    onChange={(e) => updateTemplateForm({ fatIsFuel: e.target.checked })}
+                  />
+                  Fat is the main fuel: don't flag going over the fat goal, flag falling well short of it (keto)
+                </label>
+                <label style={{ display: 'flex', gap: 'var(--spacing-sm)', fontSize: 'var(--font-size-sm)' }}>
+                  <input
+                    type="checkbox"
+                    checked={editingTemplate.form.countNetCarbs}
+                    onChange={(e) => updateTemplateForm({ countNetCarbs: e.target.checked })}
+                  />
+                  Show net carbs (carbs minus fiber) on the Progress page
+                </label>
+                <div>
+                  <label style={labelStyle}>Net Carbs Maximum (g, optional)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={editingTemplate.form.netCarbsMaximum}
+                    onChange={(e) => updateTemplateForm({ netCarbsMaximum: e.target.value })}
+                    style={inputStyle}
+                  />
+                </div>
+                <div>
+                  <label style={labelStyle}>Meal Ideas (one per line, shown with your suggestions)</label>
+                  <textarea
+                    value={editingTemplate.form.mealIdeas}
+                    onChange={(e) => updateTemplateForm({ mealIdeas: e.target.value })}
+                    rows={3}
+                    style={{ ...inputStyle, resize: 'vertical' }}
+                  />
+                </div>
+                <div style={{ display: 'flex', gap: 'var(--spacing-md)' }}>
+                  <Button variant="secondary" fullWidth onClick={() => setEditingTemplate(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="primary"
+                    fullWidth
+                    onClick={handleSaveTemplate}
+                    disabled={savingTemplate || !editingTemplate.form.name.trim() || Math.abs(ratioTotal - 100) > 0.5}
+                  >
+                    {savingTemplate ? 'Saving...' : 'Save Template'}
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ) : (
+            <div style={{ marginBottom: 'var(--spacing-xl)' }}>
+              <Button variant="secondary" fullWidth onClick={handleNewTemplate}>
+                Create Your Own Template
+              </Button>
+            </div>
+          )}
+
           <Button variant="primary" fullWidth onClick={() => setStep('metrics')}>
             Continue
           </Button>
@@ -290,7 +613,7 @@ export default function Profile() {
                 </label>
                 <select
                   value={gender}
-                  onChange={(e) => setGender(e.target.value as 'male' | 'female')}
+                  onChange={(e) => setGender(e.target.value as typeof gender)}
                   style={{
                     width: '100%',
                     padding: 'var(--spacing-sm)',
@@ -302,6 +625,7 @@ export default function Profile() {
                 >
                   <option value="male">Male</option>
                   <option value="female">Female</option>
+                  <option value="other">Prefer not to say</option>
                 </select>
               </div>
 
@@ -328,6 +652,99 @@ export default function Profile() {
                   <option value="very_active">Very Active (intense daily exercise)</option>
                 </select>
               </div>
+
+              <div>
+                <label style={{ display: 'block', marginBottom: 'var(--spacing-xs)', fontSize: 'var(--font-size-sm)' }}>
+                  Body Fat (%, optional)
+                </label>
+                <input
+                  type="number"
+                  step="0.5"
+                  min="2"
+                  max="75"
+                  value={bodyFat}
+                  onChange={(e) => setBodyFat(e.target.value ? Number(e.target.value) : '')}
+                  placeholder="Improves the lean mass and protein estimate"
+                  style={{
+                    width: '100%',
+                    padding: 'var(--spacing-sm)',
+                    borderRadius: 'var(--border-radius-sm)',
+                    border: '1px solid var(--color-surface-secondary)',
+                    backgroundColor: 'var(--color-surface-primary)',
+                    color: 'var(--color-text-primary)',
+                  }}
+                />
+              </div>
+
+              <div>
+                <label style={{ display: 'block', marginBottom: 'var(--spacing-xs)', fontSize: 'var(--font-size-sm)' }}>
+                  Goal
+                </label>
+                <select
+                  value={weeklyRate}
+                  onChange={(e) => setWeeklyRate(Number(e.target.value))}
+                  style={{
+                    width: '100%',
+                    padding: 'var(--spacing-sm)',
+                    borderRadius: 'var(--border-radius-sm)',
+                    border: '1px solid var(--color-surface-secondary)',
+                    backgroundColor: 'var(--color-surface-primary)',
+                    color: 'var(--color-text-primary)',
+                  }}
+                >
+                  <option value={-1}>Lose 1 kg/week (aggressive)</option>
+                  <option value={-0.75}>Lose 0.75 kg/week</option>
+                  <option value={-0.5}>Lose 0.5 kg/week (recommended)</option>
+                  <option value={-0.25}>Lose 0.25 kg/week</option>
+                  <option value={0}>Maintain weight</option>
+                  <option value={0.25}>Gain 0.25 kg/week</option>
+                  <option value={0.5}>Gain 0.5 kg/week</option>
+                </select>
+              </div>
+
+              <div>
+                <label style={{ display: 'block', marginBottom: 'var(--spacing-xs)', fontSize: 'var(--font-size-sm)' }}>
+                  BMR Formula
+                </label>
+                <select
+                  value={formula}
+                  onChange={(e) => setFormula(e.target.value as BmrFormula)}
+                  style={{
+                    width: '100%',
+                    padding: 'var(--spacing-sm)',
+                    borderRadius: 'var(--border-radius-sm)',
+                    border: '1px solid var(--color-surface-secondary)',
+                    backgroundColor: 'var(--color-surface-primary)',
+                    color: 'var(--color-text-primary)',
+                  }}
+                >
+                  <option value="mifflin-st-jeor">Mifflin-St Jeor (recommended)</option>
+                  <option value="harris-benedict">Harris-Benedict</option>
+                  <option value="katch-mcardle" disabled={bodyFat === ''}>Katch-McArdle (needs body fat)</option>
+                </select>
+              </div>
+
+              <div>
+                <label style={{ display: 'block', marginBottom: 'var(--spacing-xs)', fontSize: 'var(--font-size-sm)' }}>
+                  Protein (g per kg of lean mass)
+                </label>
+                <input
+                  type="number"
+                  step="0.1"
+                  min="1.2"
+                  max="3.3"
+                  value={proteinPerKg}
+                  onChange={(e) => setProteinPerKg(Number(e.target.value))}
+                  style={{
+                    width: '100%',
+                    padding: 'var(--spacing-sm)',
+                    borderRadius: 'var(--border-radius-sm)',
+                    border: '1px solid var(--color-surface-secondary)',
+                    backgroundColor: 'var(--color-surface-primary)',
+                    color: 'var(--color-text-primary)',
+                  }}
+                />
+              </div>
             </div>
 
             {weight && height && age && (
@@ -357,11 +774,34 @@ export default function Profile() {
         <>
           <SectionHeader>Your Daily Goals</SectionHeader>
           {calculatedGoals && (
-            <Card style={{ padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-lg)', backgroundColor: 'var(--color-success)', color: 'white' }}>
-              <p style={{ margin: 0, fontSize: 'var(--font-size-sm)' }}>
-                Goals calculated based on your metrics and {calculatedGoals.template.name} diet.
-              </p>
-            </Card>
+            <>
+              <Card style={{ padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-lg)', backgroundColor: 'var(--color-success)', color: 'white' }}>
+                <p style={{ margin: 0, fontSize: 'var(--font-size-sm)' }}>
+                  Goals calculated based on your metrics and {calculatedGoals.template.name} diet.
+                </p>
+              </Card>
+
+              {calculatedGoals.warnings.map(warning => (
+                <Card key={warning} style={{ padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-lg)' }}>
+                  <p style={{ margin: 0, fontSize: 'var(--font-size-sm)' }}>⚠️ {warning}</p>
+                </Card>
+              ))}
+
+              <Card style={{ padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-lg)' }}>
+                <h3 style={{ margin: '0 0 var(--spacing-md) 0' }}>How These Were Worked Out</h3>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)' }}>
+                  {calculatedGoals.steps.map(calculationStep => (
+                    <div key={calculationStep.key}>
+                      <div style={{ display: 'flex', justifyContent: 'space-between', fontWeight: 'var(--font-weight-medium)' }}>
+                        <span>{calculationStep.label}</span>
+                        <span>{calculationStep.value} {calculationStep.unit}</span>
+                      </div>
+                      <div style={{ fontSize: 'var(--font-size-sm)', opacity: 0.6 }}>{calculationStep.explanation}</div>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            </>
           )}
 
           {selectedTemplate && (
@@ -450,6 +890,36 @@ export default function Profile() {
             </div>
           </Card>
 
+          <SectionHeader>Micronutrient Limits (Optional)</SectionHeader>
+          <p style={{ opacity: 0.7, marginBottom: 'var(--spacing-lg)', fontSize: 'var(--font-size-sm)' }}>
+            Maximums for sodium, fats and cholesterol; daily targets for vitamins and minerals. Leave blank to skip.
+          </p>
+          <Card style={{ padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-xl)' }}>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: 'var(--spacing-md)' }}>
+              {MICRONUTRIENTS.map(({ key, label, unit, kind }) => (
+                <div key={key}>
+                  <label style={{ display: 'block', marginBottom: 'var(--spacing-xs)', fontSize: 'var(--font-size-sm)' }}>
+                    {label} ({unit}{kind === 'limit' ? ' max' : ''})
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={micronutrientLimits[key] ?? ''}
+                    onChange={(e) => setMicronutrientLimits(prev => ({ ...prev, [key]: e.target.value }))}
+                    style={{
+                      width: '100%',
+                      padding: 'var(--spacing-sm)',
+                      borderRadius: 'var(--border-radius-sm)',
+                      border: '1px solid var(--color-surface-secondary)',
+                      backgroundColor: 'var(--color-surface-primary)',
+                      color: 'var(--color-text-primary)',
+                    }}
+                  />
+                </div>
+              ))}
+            </div>
+          </Card>
+
           <div style={{ display: 'flex', gap: 'var(--spacing-md)' }}>
             <Button variant="secondary" fullWidth onClick={() => setStep('metrics')}>
               Back
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, SectionHeader, Button } from '../components/ui';
 import { progressApi } from '../services/api';
+import { MICRONUTRIENTS, formatMicronutrient } from '../services/micronutrients';
 import type {
   TodayProgressResponse,
   WeekProgressResponse,
@@ -57,6 +58,57 @@ function MacroCard({ label, current, goal, unit, color }: { label: string; curre
   );
 }
 
+// "+120 vs last week", green when the change is an improvement
+function WeekChange({ value, text, higherIsBetter }: { value: number; text: string; higherIsBetter?: boolean }) {
+  const color = value === 0 || higherIsBetter === undefined ? 'inherit' :
+    (value > 0) === higherIsBetter ? '#4CAF50' : '#F44336';
+
+  return (
+    <div style={{ fontSize: 'var(--font-size-sm)', color, opacity: color === 'inherit' ? 0.6 : 1 }}>
+      {value > 0 ? '+' : ''}{text} vs last week
+    </div>
+  );
+}
+
+function MicronutrientRows({ progress }: { progress: DailyProgress }) {
+  const totals = progress.totalMicronutrients ?? {};
+  const limits = progress.micronutrientLimits ?? {};
+  // Nutrients with a limit, or that some meal today reported
+  const rows = MICRONUTRIENTS.filter(({ key }) => totals[key] !== undefined || limits[key] !== undefined);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <>
+      <SectionHeader>Micronutrients</SectionHeader>
+      <Card style={{ padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-xl)' }}>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-md)' }}>
+          {rows.map(({ key, label, unit, kind }) => {
+            const current = totals[key];
+            const limit = limits[key];
+            return (
+              <div key={key}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 'var(--spacing-xs)', fontSize: 'var(--font-size-sm)' }}>
+                  <span style={{ fontWeight: 'var(--font-weight-medium)' }}>{label}</span>
+                  <span style={{ opacity: 0.7 }}>
+                    {current === undefined ? 'Not reported' : formatMicronutrient(current, unit)}
+                    {limit !== undefined && ` / ${formatMicronutrient(limit, unit)} ${kind === 'limit' ? 'max' : 'target'}`}
+                  </span>
+                </div>
+                {limit !== undefined && current !== undefined && (
+                  kind === 'limit'
+                    ? <ProgressBar value={current} max={limit} color="#4CAF50" />
+                    : <ProgressBar value={Math.min(current, limit)} max={limit} color="#2196F3" />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </Card>
+    </>
+  );
+}
+
 export default function Progress() {
   const navigate = useNavigate();
   const [tab, setTab] = useState<Tab>('today');
@@ -181,6 +233,8 @@ export default function Progress() {
             />
           </div>
 
+          <MicronutrientRows progress={todayData.progress} />
+
           {/* Compliance Status */}
           <SectionHeader>Status</SectionHeader>
           <Card style={{
@@ -265,6 +319,9 @@ export default function Progress() {
                 <div style={{ fontSize: 'var(--font-size-xl)', fontWeight: 'var(--font-weight-bold)' }}>
                   {Math.round(weekData.summary.avgCalories)}
                 </div>
+                {weekData.change && (
+                  <WeekChange value={weekData.change.avgCalories} text={String(weekData.change.avgCalories)} />
+                )}
               </div>
               <div>
                 <div style={{ fontSize: 'var(--font-size-sm)', opacity: 0.6 }}>Total Meals</div>
@@ -283,6 +340,13 @@ export default function Progress() {
                 <div style={{ fontSize: 'var(--font-size-xl)', fontWeight: 'var(--font-weight-bold)' }}>
                   {Math.round(weekData.summary.complianceRate * 100)}%
                 </div>
+                {weekData.change && (
+                  <WeekChange
+                    value={weekData.change.complianceRate}
+                    text={`${Math.round(weekData.change.complianceRate * 100)}%`}
+                    higherIsBetter
+                  />
+                )}
               </div>
             </div>
           </Card>
@@ -368,6 +432,13 @@ export default function Progress() {
                     <div style={{ fontSize: 'var(--font-size-sm)', opacity: 0.6 }}>
                       {week.totalMeals} meals | Avg {Math.round(week.avgCalories)} cal/day
                     </div>
+                    {week.change && (
+                      <WeekChange
+                        value={week.change.complianceRate}
+                        text={`${Math.round(week.change.complianceRate * 100)}% compliance`}
+                        higherIsBetter
+                      />
+                    )}
                   </div>
                   <div style={{
                     width: '50px',
@@ -1,9 +1,10 @@
 import { useState, useEffect } from 'react';
+import type { FormEvent, ChangeEvent } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Card, SectionHeader, Button } from '../components/ui';
+import { Card, SectionHeader, Button, Input } from '../components/ui';
 import { useAuth } from '../contexts/AuthContext';
-import { profileApi } from '../services/api';
-import type { UserProfile } from '../services/api';
+import { profileApi, accountApi, authApi, usageApi } from '../services/api';
+import type { UserProfile, Account, Usage, ApiError } from '../services/api';
 
 type Theme = 'system' | 'light' | 'dark';
 
@@ -25,6 +26,8 @@ export default function Settings() {
   const [showApiOverride, setShowApiOverride] = useState(false);
   const [apiBaseUrl, setApiBaseUrl] = useState('');
   const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [account, setAccount] = useState<Account | null>(null);
+  const [usage, setUsage] = useState<Usage | null>(null);
 
   useEffect(() => {
     const savedTheme = localStorage.getItem('theme') as Theme | null;
@@ -46,9 +49,11 @@ export default function Settings() {
       setApiBaseUrl(savedUrl);
     }
 
-    // Load user profile if authenticated
+    // Load user profile and account if authenticated
     if (isAuthenticated) {
       loadProfile();
+      accountApi.getAccount().then(setAccount).catch(() => {});
+      usageApi.getUsage().then(setUsage).catch(() => {});
     }
   }, [isAuthenticated]);
 
@@ -231,14 +236,43 @@ export default function Settings() {
         </>
       )}
 
+      {isAuthenticated && (
+        <>
+          <SectionHeader>Your Data</SectionHeader>
+          <DataTransferCard />
+        </>
+      )}
+
       {isAuthenticated && (
         <>
           <SectionHeader>Account</SectionHeader>
-          <Card style={{ padding: 'var(--spacing-md)' }}>
+          {account && (
+            <Card style={{ padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-md)' }}>
+              <h3 style={{ marginTop: 0, marginBottom: 'var(--spacing-xs)' }}>{account.name}</h3>
+              <div style={{ fontSize: 'var(--font-size-sm)', opacity: 0.7 }}>
+                {account.email}{account.emailVerified ? '' : ' (not verified)'}
+              </div>
+              {account.linkedProviders.length > 0 && (
+                <div style={{ fontSize: 'var(--font-size-sm)', opacity: 0.7, marginTop: 'var(--spacing-xs)' }}>
+                  Signs in with {account.linkedProviders.map(provider => provider === 'google' ? 'Google' : 'Apple').join(' and ')}
+                </div>
+              )}
+              {usage && (
+                <div style={{ fontSize: 'var(--font-size-sm)', opacity: 0.7, marginTop: 'var(--spacing-xs)' }}>
+                  {usage.tier === 'premium' ? 'Premium' : 'Free'} plan: {usage.analyses.used} of {usage.analyses.limit} AI analyses used today
+                </div>
+              )}
+            </Card>
+          )}
+          {account && account.linkedProviders.length > 0 && <SetPasswordCard email={account.email} />}
+          <ChangePasswordForm />
+          <ChangeEmailForm />
+          <Card style={{ padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-md)' }}>
             <Button variant="secondary" fullWidth onClick={handleLogout}>
               Sign Out
             </Button>
           </Card>
+          <DeleteAccountForm onDeleted={() => navigate('/login')} />
         </>
       )}
 
@@ -258,3 +292,308 @@ export default function Settings() {
     </div>
   );
 }
+
+const formStyle = { display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)' } as const;
+
+function FormMessage({ error, success }: { error: string; success: string }) {
+  if (error) {
+    return <p role="alert" style={{ margin: 0, color: 'var(--color-error)', fontSize: 'var(--font-size-sm)' }}>{error}</p>;
+  }
+  if (success) {
+    return <p role="status" style={{ margin: 0, fontSize: 'var(--font-size-sm)', opacity: 0.8 }}>{success}</p>;
+  }
+  return null;
+}
+
+function DataTransferCard() {
+  const [busy, setBusy] = useState<'export' | 'import' | null>(null);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const handleExport = async () => {
+    setError('');
+    setSuccess('');
+    setBusy('export');
+
+    try {
+      const archive = await accountApi.exportData();
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `nutritionai-export-${new Date().toISOString().split('T')[0]}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError((err as ApiError).message || 'Could not export your data. Please try again.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const archive = e.target.files?.[0];
+    e.target.value = '';  // Let the same file be chosen again
+    if (!archive) return;
+
+    setError('');
+    setSuccess('');
+    setBusy('import');
+
+    try {
+      const { meals, ketoneLogs, dailyProgress } = await accountApi.importData(archive);
+      setSuccess(
+        `Imported ${meals.imported} meals, ${dailyProgress.imported} days of progress and ${ketoneLogs.imported} ketone readings` +
+        (meals.skipped + ketoneLogs.skipped > 0 ? ` (${meals.skipped + ketoneLogs.skipped} already here were skipped).` : '.')
+      );
+    } catch (err) {
+      setError((err as ApiError).message || 'Could not import that file. Please try again.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card style={{ padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-xl)' }}>
+      <p style={{ margin: '0 0 var(--spacing-md) 0', opacity: 0.7, fontSize: 'var(--font-size-sm)' }}>
+        Download your meals, photos, profile, progress and ketone logs as a zip of JSON and CSV files, or restore one into this account.
+      </p>
+      <div style={formStyle}>
+        <Button variant="secondary" onClick={handleExport} disabled={busy !== null}>
+          {busy === 'export' ? 'Preparing...' : 'Export My Data'}
+        </Button>
+        <label className="button button-secondary button-md" style={{ textAlign: 'center', cursor: busy ? 'not-allowed' : 'pointer' }}>
+          {busy === 'import' ? 'Importing...' : 'Import From Export'}
+          <input type="file" accept=".zip,application/zip" onChange={handleImport} disabled={busy !== null} hidden />
+        </label>
+        <FormMessage error={error} success={success} />
+      </div>
+    </Card>
+  );
+}
+
+// Accounts created through Google or Apple have a password nobody knows, and
+// the forms below ask for it
+function SetPasswordCard({ email }: { email: string }) {
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const handleSend = async () => {
+    setError('');
+    setSuccess('');
+    setSending(true);
+
+    try {
+      await authApi.forgotPassword(email);
+      setSuccess(`Follow the link sent to ${email} to set a password.`);
+    } catch (err) {
+      setError((err as ApiError).message || 'Could not send the link. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Card style={{ padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-md)' }}>
+      <p style={{ margin: '0 0 var(--spacing-md) 0', opacity: 0.7, fontSize: 'var(--font-size-sm)' }}>
+        Signed up with Google or Apple? Set a password first to change your email or password or to delete your account.
+      </p>
+      <div style={formStyle}>
+        <Button variant="secondary" onClick={handleSend} disabled={sending}>
+          {sending ? 'Sending...' : 'Email Me a Link to Set a Password'}
+        </Button>
+        <FormMessage error={error} success={success} />
+      </div>
+    </Card>
+  );
+}
+
+function ChangePasswordForm() {
+  const { changePassword } = useAuth();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+
+    if (newPassword.length < 8) {
+      setError('New password must be at least 8 characters');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await changePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setSuccess('Password changed. Other devices have been signed out.');
+    } catch (err) {
+      setError((err as ApiError).message || 'Could not change your password. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card style={{ padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-md)' }}>
+      <h3 style={{ marginTop: 0, marginBottom: 'var(--spacing-md)' }}>Change Password</h3>
+      <form onSubmit={handleSubmit} style={formStyle}>
+        <Input
+          type="password"
+          placeholder="Current password"
+          autoComplete="current-password"
+          value={currentPassword}
+          onChange={(e) => setCurrentPassword(e.target.value)}
+          disabled={saving}
+          required
+        />
+        <Input
+          type="password"
+          placeholder="New password"
+          autoComplete="new-password"
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+          disabled={saving}
+          required
+        />
+        <Input
+          type="password"
+          placeholder="Confirm new password"
+          autoComplete="new-password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          disabled={saving}
+          required
+        />
+        <FormMessage error={error} success={success} />
+        <Button type="submit" variant="secondary" disabled={saving}>
+          {saving ? 'Saving...' : 'Change Password'}
+        </Button>
+      </form>
+    </Card>
+  );
+}
+
+function ChangeEmailForm() {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess('');
+    setSaving(true);
+
+    try {
+      const { message } = await authApi.changeEmail(email.trim(), password);
+      setEmail('');
+      setPassword('');
+      setSuccess(message);
+    } catch (err) {
+      setError((err as ApiError).message || 'Could not change your email. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card style={{ padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-md)' }}>
+      <h3 style={{ marginTop: 0, marginBottom: 'var(--spacing-md)' }}>Change Email</h3>
+      <form onSubmit={handleSubmit} style={formStyle}>
+        <Input
+          type="email"
+          placeholder="New email"
+          autoComplete="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          disabled={saving}
+          required
+        />
+        <Input
+          type="password"
+          placeholder="Current password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          disabled={saving}
+          required
+        />
+        <FormMessage error={error} success={success} />
+        <Button type="submit" variant="secondary" disabled={saving}>
+          {saving ? 'Sending...' : 'Send Confirmation Link'}
+        </Button>
+      </form>
+    </Card>
+  );
+}
+
+function DeleteAccountForm({ onDeleted }: { onDeleted: () => void }) {
+  const { deleteAccount } = useAuth();
+  const [confirming, setConfirming] = useState(false);
+  const [password, setPassword] = useState('');
+  const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setDeleting(true);
+
+    try {
+      await deleteAccount(password);
+      onDeleted();
+    } catch (err) {
+      setError((err as ApiError).message || 'Could not delete your account. Please try again.');
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <Card style={{ padding: 'var(--spacing-md)' }}>
+      <h3 style={{ marginTop: 0, marginBottom: 'var(--spacing-xs)' }}>Delete Account</h3>
+      <p style={{ margin: '0 0 var(--spacing-md) 0', opacity: 0.7, fontSize: 'var(--font-size-sm)' }}>
+        Permanently erases your account, meals, photos, profile, progress and ketone logs. This cannot be undone.
+      </p>
+      {confirming ? (
+        <form onSubmit={handleSubmit} style={formStyle}>
+          <Input
+            type="password"
+            placeholder="Enter your password to confirm"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            disabled={deleting}
+            required
+          />
+          <FormMessage error={error} success="" />
+          <div style={{ display: 'flex', gap: 'var(--spacing-md)', justifyContent: 'flex-end' }}>
+            <Button type="button" variant="secondary" onClick={() => setConfirming(false)} disabled={deleting}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={deleting} style={{ backgroundColor: 'var(--color-error)' }}>
+              {deleting ? 'Deleting...' : 'Delete Everything'}
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <Button variant="secondary" fullWidth onClick={() => setConfirming(true)} style={{ color: 'var(--color-error)' }}>
+          Delete Account
+        </Button>
+      )}
+    </Card>
+  );
+}
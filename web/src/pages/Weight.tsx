@@ -0,0 +1,511 @@
+import { useState, useEffect } from 'react';
+import type { FormEvent } from 'react';
+import { Card, SectionHeader, Button } from '../components/ui';
+import { measurementApi, profileApi } from '../services/api';
+import type {
+  AdaptiveGoals,
+  BodyMeasurement,
+  WeightTrend,
+  WeightTrendPoint,
+  ApiError
+} from '../services/api';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 220;
+const CHART_PADDING = { top: 16, right: 16, bottom: 28, left: 44 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inputStyle = {
+  width: '100%',
+  padding: 'var(--spacing-sm)',
+  borderRadius: 'var(--border-radius-sm)',
+  border: '1px solid var(--color-surface-secondary)',
+  backgroundColor: 'var(--color-surface-primary)',
+  color: 'var(--color-text-primary)'
+};
+
+const labelStyle = {
+  display: 'block',
+  marginBottom: 'var(--spacing-xs)',
+  fontSize: 'var(--font-size-sm)'
+};
+
+// Today as YYYY-MM-DD in the browser's time zone
+function todayKey(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+function formatRate(rate: number | null): string {
+  if (rate === null) return '—';
+  return `${rate > 0 ? '+' : ''}${rate} kg/week`;
+}
+
+function parseOptional(value: string): number | undefined {
+  return value ? parseFloat(value) : undefined;
+}
+
+// Daily weights as dots, the smoothed trend as a line and the goal as a dashed line
+function TrendChart({ points, goalWeight }: { points: WeightTrendPoint[]; goalWeight: number | null }) {
+  const times = points.map(point => Date.parse(`${point.date}T00:00:00Z`));
+  const first = times[0];
+  const span = Math.max(times[times.length - 1] - first, DAY_MS);
+
+  const values = points.flatMap(point => [point.weight, point.trend]);
+  if (goalWeight !== null) values.push(goalWeight);
+  const min = Math.floor(Math.min(...values) - 0.5);
+  const max = Math.ceil(Math.max(...values) + 0.5);
+
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const x = (time: number) => points.length === 1
+    ? CHART_PADDING.left + plotWidth / 2
+    : CHART_PADDING.left + ((time - first) / span) * plotWidth;
+  const y = (weight: number) => CHART_PADDING.top + ((max - weight) / (max - min)) * plotHeight;
+
+  const gridLines = [min, (min + max) / 2, max];
+  const trendLine = points.map((point, i) => `${x(times[i]).toFixed(1)},${y(point.trend).toFixed(1)}`).join(' ');
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      width="100%"
+      role="img"
+      aria-label="Weight trend chart"
+      style={{ display: 'block' }}
+    >
+      {gridLines.map(value => (
+        <g key={value}>
+          <line
+            x1={CHART_PADDING.left}
+            x2={CHART_WIDTH - CHART_PADDING.right}
+            y1={y(value)}
+            y2={y(value)}
+            stroke="currentColor"
+            strokeOpacity={0.1}
+          />
+          <text x={CHART_PADDING.left - 6} y={y(value) + 4} textAnchor="end" fontSize={11} fill="currentColor" opacity={0.6}>
+            {Math.round(value * 10) / 10}
+          </text>
+        </g>
+      ))}
+
+      {goalWeight !== null && (
+        <line
+          x1={CHART_PADDING.left}
+          x2={CHART_WIDTH - CHART_PADDING.right}
+          y1={y(goalWeight)}
+          y2={y(goalWeight)}
+          stroke="#4CAF50"
+          strokeWidth={1.5}
+          strokeDasharray="6 4"
+        />
+      )}
+
+      {points.map((point, i) => (
+        <circle key={point.date} cx={x(times[i])} cy={y(point.weight)} r={3} fill="currentColor" opacity={0.35} />
+      ))}
+
+      <polyline
+        points={trendLine}
+        fill="none"
+        stroke="var(--color-primary-gradient-start)"
+        strokeWidth={2.5}
+        strokeLinejoin="round"
+      />
+
+      <text x={CHART_PADDING.left} y={CHART_HEIGHT - 8} fontSize={11} fill="currentColor" opacity={0.6}>
+        {formatDay(points[0].date)}
+      </text>
+      {points.length > 1 && (
+        <text x={CHART_WIDTH - CHART_PADDING.right} y={CHART_HEIGHT - 8} textAnchor="end" fontSize={11} fill="currentColor" opacity={0.6}>
+          {formatDay(points[points.length - 1].date)}
+        </text>
+      )}
+    </svg>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <div style={{ fontSize: 'var(--font-size-sm)', opacity: 0.6 }}>{label}</div>
+      <div style={{ fontSize: 'var(--font-size-xl)', fontWeight: 'var(--font-weight-bold)' }}>{value}</div>
+    </div>
+  );
+}
+
+export default function Weight() {
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [trend, setTrend] = useState<WeightTrend | null>(null);
+  const [measurements, setMeasurements] = useState<BodyMeasurement[]>([]);
+
+  // Bumped after every change so the trend is fetched again
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // New entry form
+  const [showForm, setShowForm] = useState(false);
+  const [date, setDate] = useState(todayKey());
+  const [weight, setWeight] = useState('');
+  const [waist, setWaist] = useState('');
+  const [bodyFat, setBodyFat] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Goal weight form
+  const [goalInput, setGoalInput] = useState('');
+  const [savingGoal, setSavingGoal] = useState(false);
+
+  // Goals from measured energy expenditure
+  const [adaptive, setAdaptive] = useState<AdaptiveGoals | null>(null);
+  const [applyingGoals, setApplyingGoals] = useState(false);
+  const [goalsApplied, setGoalsApplied] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([measurementApi.getTrend(), measurementApi.list()])
+      .then(([loadedTrend, { measurements: loaded }]) => {
+        if (cancelled) return;
+        setTrend(loadedTrend);
+        setMeasurements(loaded);
+        setGoalInput(loadedTrend.goalWeight !== null ? String(loadedTrend.goalWeight) : '');
+      })
+      .catch((err) => {
+        if (!cancelled) setError((err as ApiError).message || 'Failed to load weight data');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    // Needs a profile; the card is left out without one
+    profileApi.getAdaptiveGoals()
+      .then((goals) => {
+        if (!cancelled) setAdaptive(goals);
+      })
+      .catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!weight && !waist && !bodyFat) return;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      await measurementApi.log({
+        // Past days are logged at midday so they land on that day in any nearby time zone
+        measuredAt: date === todayKey() ? undefined : new Date(`${date}T12:00:00`).toISOString(),
+        weight: parseOptional(weight),
+        waist: parseOptional(waist),
+        bodyFat: parseOptional(bodyFat),
+        notes: notes || undefined
+      });
+
+      setWeight('');
+      setWaist('');
+      setBodyFat('');
+      setNotes('');
+      setDate(todayKey());
+      setShowForm(false);
+      setReloadKey(key => key + 1);
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to save measurement');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleGoalSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    setSavingGoal(true);
+    setError(null);
+
+    try {
+      await profileApi.updateProfile({ goalWeight: goalInput ? parseFloat(goalInput) : null });
+      setReloadKey(key => key + 1);
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to save goal weight');
+    } finally {
+      setSavingGoal(false);
+    }
+  };
+
+  const handleApplyGoals = async () => {
+    setApplyingGoals(true);
+    setError(null);
+
+    try {
+      await profileApi.acceptAdaptiveGoals();
+      setGoalsApplied(true);
+      setReloadKey(key => key + 1);
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to update goals');
+    } finally {
+      setApplyingGoals(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this measurement?')) return;
+
+    try {
+      await measurementApi.delete(id);
+      setMeasurements(measurements.filter(m => m.id !== id));
+      setReloadKey(key => key + 1);
+    } catch (err) {
+      setError((err as ApiError).message || 'Failed to delete measurement');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container">
+        <div style={{ textAlign: 'center', padding: 'var(--spacing-xl)', opacity: 0.6 }}>
+          Loading...
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container">
+      <div className="page-header">
+        <h1>Weight</h1>
+        <Button variant="primary" onClick={() => setShowForm(!showForm)}>
+          {showForm ? 'Cancel' : '+ Log Weigh-in'}
+        </Button>
+      </div>
+
+      {error && (
+        <Card style={{ marginBottom: 'var(--spacing-xl)', padding: 'var(--spacing-lg)', backgroundColor: 'var(--color-error)', color: 'white' }}>
+          <p style={{ margin: 0 }}>{error}</p>
+        </Card>
+      )}
+
+      {/* New Entry Form */}
+      {showForm && (
+        <Card style={{ padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-xl)' }}>
+          <form onSubmit={handleSubmit}>
+            <h3 style={{ margin: '0 0 var(--spacing-md) 0' }}>Log Measurement</h3>
+
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: 'var(--spacing-md)', marginBottom: 'var(--spacing-md)' }}>
+              <div>
+                <label style={labelStyle}>Weight (kg)</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  min="20"
+                  max="500"
+                  value={weight}
+                  onChange={(e) => setWeight(e.target.value)}
+                  placeholder="e.g., 72.4"
+                  style={{ ...inputStyle, fontSize: 'var(--font-size-lg)' }}
+                />
+              </div>
+              <div>
+                <label style={labelStyle}>Date</label>
+                <input
+                  type="date"
+                  value={date}
+                  max={todayKey()}
+                  onChange={(e) => setDate(e.target.value)}
+                  required
+                  style={inputStyle}
+                />
+              </div>
+              <div>
+                <label style={labelStyle}>Waist (cm, optional)</label>
+                <input
+                  type="number"
+                  step="0.5"
+                  min="30"
+                  max="300"
+                  value={waist}
+                  onChange={(e) => setWaist(e.target.value)}
+                  style={inputStyle}
+                />
+              </div>
+              <div>
+                <label style={labelStyle}>Body Fat (%, optional)</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  min="2"
+                  max="75"
+                  value={bodyFat}
+                  onChange={(e) => setBodyFat(e.target.value)}
+                  style={inputStyle}
+                />
+              </div>
+            </div>
+
+            <div style={{ marginBottom: 'var(--spacing-md)' }}>
+              <label style={labelStyle}>Notes (optional)</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="e.g., after a long run, morning before breakfast"
+                rows={2}
+                maxLength={500}
+                style={{ ...inputStyle, resize: 'vertical' }}
+              />
+            </div>
+
+            <Button variant="primary" fullWidth disabled={saving || (!weight && !waist && !bodyFat)}>
+              {saving ? 'Saving...' : 'Save Measurement'}
+            </Button>
+          </form>
+        </Card>
+      )}
+
+      {/* Trend */}
+      <SectionHeader>Trend</SectionHeader>
+      <Card style={{ padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-xl)' }}>
+        {trend && trend.points.length > 0 ? (
+          <>
+            <TrendChart points={trend.points} goalWeight={trend.goalWeight} />
+            <p style={{ margin: 'var(--spacing-sm) 0 var(--spacing-md) 0', fontSize: 'var(--font-size-sm)', opacity: 0.6 }}>
+              Dots are daily weigh-ins; the line smooths out day-to-day water swings.
+            </p>
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: 'var(--spacing-md)' }}>
+              <Stat label="Trend Weight" value={trend.trendWeight !== null ? `${trend.trendWeight} kg` : '—'} />
+              <Stat label="Weekly Rate" value={formatRate(trend.weeklyRate)} />
+              <Stat
+                label="To Goal"
+                value={trend.goalReached ? 'Goal reached!' : trend.remaining !== null ? `${trend.remaining > 0 ? '+' : ''}${trend.remaining} kg` : '—'}
+              />
+              <Stat
+                label="Projected"
+                value={trend.projectedGoalDate && !trend.goalReached
+                  ? new Date(`${trend.projectedGoalDate}T00:00:00`).toLocaleDateString()
+                  : '—'}
+              />
+            </div>
+          </>
+        ) : (
+          <p style={{ margin: 0, textAlign: 'center', opacity: 0.6 }}>
+            Log your weight to start a trend. Weighing in most mornings gives the steadiest line.
+          </p>
+        )}
+
+        <form onSubmit={handleGoalSubmit} style={{ display: 'flex', gap: 'var(--spacing-sm)', alignItems: 'flex-end', marginTop: 'var(--spacing-lg)' }}>
+          <div style={{ flex: 1 }}>
+            <label style={labelStyle}>Goal Weight (kg)</label>
+            <input
+              type="number"
+              step="0.1"
+              min="20"
+              max="500"
+              value={goalInput}
+              onChange={(e) => setGoalInput(e.target.value)}
+              placeholder="No goal set"
+              style={inputStyle}
+            />
+          </div>
+          <Button variant="secondary" disabled={savingGoal}>
+            {savingGoal ? 'Saving...' : 'Save Goal'}
+          </Button>
+        </form>
+      </Card>
+
+      {/* Energy Expenditure */}
+      {adaptive && (
+        <>
+          <SectionHeader>Energy Expenditure</SectionHeader>
+          <Card style={{ padding: 'var(--spacing-md)', marginBottom: 'var(--spacing-xl)' }}>
+            {adaptive.estimate && adaptive.proposedGoals ? (
+              <>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: 'var(--spacing-md)', marginBottom: 'var(--spacing-md)' }}>
+                  <Stat label="Measured" value={`${adaptive.estimate.tdee} kcal/day`} />
+                  <Stat label="Formula" value={adaptive.formulaTdee !== null ? `${adaptive.formulaTdee} kcal/day` : '—'} />
+                </div>
+                <p style={{ margin: '0 0 var(--spacing-md) 0', fontSize: 'var(--font-size-sm)', opacity: 0.6 }}>
+                  Worked out from what you logged and how your weight trend moved ({adaptive.estimate.confidence} confidence).
+                  {adaptive.direction !== 'maintain' && ` Goals below ${adaptive.direction === 'lose' ? 'subtract' : 'add'} ${Math.abs(adaptive.dailyAdjustment)} kcal/day to ${adaptive.direction} weight.`}
+                </p>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 'var(--spacing-sm)', fontSize: 'var(--font-size-sm)', marginBottom: 'var(--spacing-md)' }}>
+                  <span />
+                  <strong>Current</strong>
+                  <strong>Proposed</strong>
+                  {(['calories', 'protein', 'carbs', 'fat'] as const).map((key) => (
+                    <div key={key} style={{ display: 'contents' }}>
+                      <span style={{ textTransform: 'capitalize', opacity: 0.7 }}>{key}</span>
+                      <span>{adaptive.currentGoals[key]}{key === 'calories' ? ' kcal' : 'g'}</span>
+                      <span>{adaptive.proposedGoals![key]}{key === 'calories' ? ' kcal' : 'g'}</span>
+                    </div>
+                  ))}
+                </div>
+                <Button variant="primary" fullWidth onClick={handleApplyGoals} disabled={applyingGoals}>
+                  {applyingGoals ? 'Updating...' : goalsApplied ? 'Goals Updated' : 'Use Proposed Goals'}
+                </Button>
+              </>
+            ) : (
+              <p style={{ margin: 0, textAlign: 'center', opacity: 0.6 }}>
+                Log your meals on most days and weigh in a few times a week. After two weeks your goals can be fitted to what you actually burn.
+              </p>
+            )}
+          </Card>
+        </>
+      )}
+
+      {/* Recent Measurements */}
+      <SectionHeader>Measurements</SectionHeader>
+      {measurements.length === 0 ? (
+        <Card style={{ padding: 'var(--spacing-xl)', textAlign: 'center' }}>
+          <p style={{ margin: 0, opacity: 0.6 }}>No measurements yet. Log your first weigh-in!</p>
+        </Card>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-sm)' }}>
+          {measurements.map((measurement) => (
+            <Card key={measurement.id} style={{ padding: 'var(--spacing-md)' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+                <div>
+                  <div style={{ fontSize: 'var(--font-size-lg)', fontWeight: 'var(--font-weight-bold)' }}>
+                    {[
+                      measurement.weight !== null ? `${measurement.weight} kg` : null,
+                      measurement.waist !== null ? `${measurement.waist} cm waist` : null,
+                      measurement.bodyFat !== null ? `${measurement.bodyFat}% body fat` : null
+                    ].filter(Boolean).join(' • ')}
+                  </div>
+                  <div style={{ fontSize: 'var(--font-size-sm)', opacity: 0.6 }}>
+                    {new Date(measurement.measuredAt).toLocaleString()}
+                  </div>
+                  {measurement.notes && (
+                    <div style={{ fontSize: 'var(--font-size-sm)', marginTop: 'var(--spacing-xs)', opacity: 0.7 }}>
+                      {measurement.notes}
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={() => handleDelete(measurement.id)}
+                  aria-label="Delete measurement"
+                  style={{
+                    background: 'none',
+                    border: 'none',
+                    cursor: 'pointer',
+                    opacity: 0.5,
+                    fontSize: 'var(--font-size-lg)'
+                  }}
+                >
+                  ×
+                </button>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,10 +6,18 @@ interface ApiError {
 }
 
 type UnauthorizedHandler = () => void;
+type SessionHandler = (session: AuthSession) => void;
+
+const TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+const REFRESH_LOCK = 'nutritionai-session-refresh';
+const SIGN_IN_ENDPOINTS = ['/api/auth/login', '/api/auth/register', '/api/auth/oauth/google', '/api/auth/oauth/apple'];
 
 class ApiClient {
   private baseUrl: string;
   private onUnauthorized?: UnauthorizedHandler;
+  private onSessionRefreshed?: SessionHandler;
+  private refreshing: Promise<boolean> | null = null;
 
   constructor(baseUrl: string = API_BASE_URL) {
     this.baseUrl = baseUrl;
@@ -19,8 +27,12 @@ class ApiClient {
     this.onUnauthorized = handler;
   }
 
+  setSessionRefreshedHandler(handler: SessionHandler) {
+    this.onSessionRefreshed = handler;
+  }
+
   private getAuthHeaders(includeContentType: boolean = true): HeadersInit {
-    const token = localStorage.getItem('authToken');
+    const token = localStorage.getItem(TOKEN_KEY);
     const headers: HeadersInit = {};
     
     if (includeContentType) {
@@ -34,6 +46,66 @@ class ApiClient {
     return headers;
   }
 
+  /**
+   * Exchange the stored refresh token for a new session. Concurrent callers
+   * share one request, since each refresh token only works once. Other tabs
+   * share the tokens too, so they take turns through a Web Lock, and a tab
+   * that finds the access token already replaced uses the new one instead of
+   * presenting the spent refresh token, which would sign out every session.
+   */
+  private refreshSession(rejectedToken: string): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = (async () => {
+        const refresh = () => this.exchangeRefreshToken(rejectedToken);
+        return navigator.locks ? await navigator.locks.request(REFRESH_LOCK, refresh) : refresh();
+      })().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async exchangeRefreshToken(rejectedToken: string): Promise<boolean> {
+    const token = localStorage.getItem(TOKEN_KEY);
+    if (token && token !== rejectedToken) return true;
+
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (!refreshToken) return false;
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken }),
+      });
+      if (!response.ok) return false;
+
+      const session: AuthSession = await response.json();
+      localStorage.setItem(TOKEN_KEY, session.token);
+      localStorage.setItem(REFRESH_TOKEN_KEY, session.refreshToken);
+      this.onSessionRefreshed?.(session);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Send a request; on a 401 for a signed-in user, refresh the session and
+   * retry once with the new access token
+   */
+  private async send(endpoint: string, init: () => RequestInit): Promise<Response> {
+    const token = localStorage.getItem(TOKEN_KEY);
+    const response = await fetch(`${this.baseUrl}${endpoint}`, init());
+
+    // Sign-in answers 401 for bad credentials, which refreshing can't fix
+    if (response.status === 401 && token && !SIGN_IN_ENDPOINTS.includes(endpoint) && await this.refreshSession(token)) {
+      return fetch(`${this.baseUrl}${endpoint}`, init());
+    }
+
+    return response;
+  }
+
   private async handleResponse<T>(response: Response): Promise<T> {
     if (!response.ok) {
       if (response.status === 401 && this.onUnauthorized) {
@@ -64,56 +136,65 @@ class ApiClient {
   }
 
   async get<T>(endpoint: string): Promise<T> {
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+    const response = await this.send(endpoint, () => ({
       method: 'GET',
       headers: this.getAuthHeaders(),
-    });
+    }));
     
     return this.handleResponse<T>(response);
   }
 
+  /**
+   * GET a file download, such as a zip
+   */
+  async getBlob(endpoint: string): Promise<Blob> {
+    const response = await this.send(endpoint, () => ({
+      method: 'GET',
+      headers: this.getAuthHeaders(false),
+    }));
+
+    if (!response.ok) {
+      return this.handleResponse<never>(response);  // Throws the API error
+    }
+    return response.blob();
+  }
+
   async post<T>(endpoint: string, data?: unknown): Promise<T> {
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+    const response = await this.send(endpoint, () => ({
       method: 'POST',
       headers: this.getAuthHeaders(),
       body: data ? JSON.stringify(data) : undefined,
-    });
+    }));
     
     return this.handleResponse<T>(response);
   }
 
   async postFormData<T>(endpoint: string, formData: FormData): Promise<T> {
-    const token = localStorage.getItem('authToken');
-    const headers: HeadersInit = {};
-
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+    const response = await this.send(endpoint, () => ({
       method: 'POST',
-      headers,
+      headers: this.getAuthHeaders(false),  // The browser sets the multipart boundary
       body: formData,
-    });
+    }));
 
     return this.handleResponse<T>(response);
   }
 
-  async delete<T>(endpoint: string): Promise<T> {
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+  async delete<T>(endpoint: string, data?: unknown): Promise<T> {
+    const response = await this.send(endpoint, () => ({
       method: 'DELETE',
-      headers: this.getAuthHeaders(false),  // No Content-Type for DELETE without body
-    });
+      headers: this.getAuthHeaders(data !== undefined),  // No Content-Type for DELETE without body
+      body: data !== undefined ? JSON.stringify(data) : undefined,
+    }));
 
     return this.handleResponse<T>(response);
   }
 
   async put<T>(endpoint: string, data?: unknown): Promise<T> {
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+    const response = await this.send(endpoint, () => ({
       method: 'PUT',
       headers: this.getAuthHeaders(),
       body: data ? JSON.stringify(data) : undefined,
-    });
+    }));
 
     return this.handleResponse<T>(response);
   }
@@ -125,6 +206,13 @@ export function setApiUnauthorizedHandler(handler: () => void) {
   api.setUnauthorizedHandler(handler);
 }
 
+/**
+ * Called after a transparent refresh stores a new session
+ */
+export function setApiSessionRefreshedHandler(handler: (session: AuthSession) => void) {
+  api.setSessionRefreshedHandler(handler);
+}
+
 export interface RegisterRequest {
   email: string;
   password: string;
@@ -136,9 +224,78 @@ export interface LoginRequest {
   password: string;
 }
 
-export interface AuthResponse {
-  token: string;
-  userId: string;
+export interface AuthSession {
+  token: string;          // Short-lived access token
+  refreshToken: string;
+  expiresIn: number;      // Seconds until the access token expires
+}
+
+export interface AuthResponse extends AuthSession {
+  user: {
+    id: string;
+    email: string;
+    name: string;
+    emailVerified: boolean;
+  };
+}
+
+export interface OAuthResponse extends AuthResponse {
+  isNewUser: boolean;
+}
+
+export type OAuthProviderName = 'google' | 'apple';
+
+export interface OAuthProvider {
+  name: OAuthProviderName;
+  clientIds: string[];
+}
+
+export interface ChangePasswordResponse extends AuthSession {
+  success: boolean;
+}
+
+export interface Account {
+  id: string;
+  email: string;
+  name: string;
+  emailVerified: boolean;
+  createdAt: string;
+  linkedProviders: OAuthProviderName[];
+}
+
+export interface QuotaUsage {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+export interface RateLimitBudget {
+  max: number;
+  timeWindow: number;
+}
+
+export interface Usage {
+  tier: 'free' | 'premium';
+  date: string;
+  resetsAt: string;
+  analyses: QuotaUsage;
+  rateLimits: {
+    default: RateLimitBudget;
+    analyze: RateLimitBudget;
+  };
+}
+
+export interface ImportCounts {
+  imported: number;
+  skipped: number;
+}
+
+export interface ImportSummary {
+  success: boolean;
+  meals: ImportCounts;
+  dailyProgress: ImportCounts;
+  ketoneLogs: ImportCounts;
+  profile: 'created' | 'updated' | null;
 }
 
 export interface UserStats {
@@ -191,19 +348,50 @@ export interface UserStats {
 }
 
 // Diet Profile Types
+export interface DietRules {
+  fatIsFuel: boolean;              // Fat over the goal isn't flagged, but under 70% of it is (keto)
+  countNetCarbs: boolean;
+  netCarbsMaximum: number | null;  // g
+  mealIdeas: string[];
+}
+
 export interface DietTemplate {
   dietType: string;
   name: string;
   description: string;
-  proteinRatio: number;
+  proteinRatio: number;   // % of calories
   carbsRatio: number;
   fatRatio: number;
   baselineCalories: number;
   baselineProtein: number;
   baselineCarbs: number;
   baselineFat: number;
+  carbsTolerance: number;
+  proteinTolerance: number;
+  fatTolerance: number;
   fiberMinimum?: number;
   sugarMaximum?: number;
+  rules: DietRules;
+}
+
+// Custom templates are the user's own and the only ones they can edit
+export interface DietTemplateSummary extends DietTemplate {
+  source: 'built-in' | 'global' | 'custom';
+}
+
+export interface DietTemplateInput {
+  name?: string;
+  description?: string;
+  proteinRatio?: number;
+  carbsRatio?: number;
+  fatRatio?: number;
+  baselineCalories?: number;
+  carbsTolerance?: number;
+  proteinTolerance?: number;
+  fatTolerance?: number;
+  fiberMinimum?: number | null;
+  sugarMaximum?: number | null;
+  rules?: Partial<DietRules>;
 }
 
 export interface UserProfile {
@@ -217,11 +405,14 @@ export interface UserProfile {
   dailyFiberGoal?: number;
   dailySugarLimit?: number;
   weight?: number;
+  goalWeight?: number | null;
   height?: number;
   age?: number;
-  gender?: 'male' | 'female';
+  gender?: 'male' | 'female' | 'other';
   activityLevel?: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
   dietaryRestrictions: string[];
+  micronutrientLimits: MicronutrientValues;
+  timezone: string;
 }
 
 export interface ProfileResponse {
@@ -244,20 +435,41 @@ export interface ProfileUpdateData {
   dailyFiberGoal?: number;
   dailySugarLimit?: number;
   weight?: number;
+  // null clears the goal
+  goalWeight?: number | null;
   height?: number;
   age?: number;
-  gender?: 'male' | 'female';
+  gender?: 'male' | 'female' | 'other';
   activityLevel?: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
   dietaryRestrictions?: string[];
+  // null removes a limit
+  micronutrientLimits?: Partial<Record<MicronutrientKey, number | null>>;
+  timezone?: string;
 }
 
+export type BmrFormula = 'mifflin-st-jeor' | 'harris-benedict' | 'katch-mcardle';
+
 export interface CalculateGoalsRequest {
   weight: number;
   height: number;
   age: number;
-  gender: 'male' | 'female';
+  gender?: 'male' | 'female' | 'other';
   activityLevel: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
   dietType: string;
+  // Defaults to Mifflin-St Jeor; Katch-McArdle needs bodyFat
+  formula?: BmrFormula;
+  bodyFat?: number | null;
+  // kg/week, negative to lose
+  weeklyRate?: number;
+  proteinPerKgLeanMass?: number;
+}
+
+export interface CalculationStep {
+  key: 'leanMass' | 'bmr' | 'tdee' | 'adjustment' | 'calories' | 'protein' | 'fat' | 'carbs';
+  label: string;
+  value: number;
+  unit: string;
+  explanation: string;
 }
 
 export interface CalculateGoalsResponse {
@@ -267,12 +479,49 @@ export interface CalculateGoalsResponse {
     carbs: number;
     fat: number;
   };
+  formula: BmrFormula;
+  bmr: number;
+  tdee: number;
+  leanMass: number;
+  weeklyRate: number;
+  dailyAdjustment: number;
+  steps: CalculationStep[];
+  warnings: string[];
   template: {
     name: string;
     description: string;
   };
 }
 
+export interface CalorieGoals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+export interface EnergyEstimateWindow {
+  start: string;
+  end: string;
+  loggedDays: number;
+  averageIntake: number;
+  weightChange: number;
+  tdee: number;
+}
+
+export interface AdaptiveGoals {
+  estimate: {
+    tdee: number;
+    confidence: 'low' | 'medium' | 'high';
+    windows: EnergyEstimateWindow[];
+  } | null;
+  formulaTdee: number | null;
+  direction: 'lose' | 'maintain' | 'gain';
+  dailyAdjustment: number;
+  currentGoals: CalorieGoals;
+  proposedGoals: CalorieGoals | null;
+}
+
 // Progress Types
 export interface DailyProgress {
   id: string;
@@ -283,12 +532,14 @@ export interface DailyProgress {
   totalFat: number;
   totalFiber: number;
   totalSugar: number;
+  totalMicronutrients: MicronutrientValues;
   goalCalories: number;
   goalProtein: number;
   goalCarbs: number;
   goalFat: number;
   goalFiber?: number;
   goalSugar?: number;
+  micronutrientLimits: MicronutrientValues;
   mealCount: number;
   carbsCompliance: number;
   proteinCompliance: number;
@@ -323,9 +574,23 @@ export interface TodayProgressResponse {
   template: DietTemplate;
 }
 
+// This week minus the previous one
+export interface WeeklyChange {
+  avgCalories: number;
+  avgProtein: number;
+  avgCarbs: number;
+  avgFat: number;
+  avgFiber: number;
+  avgSugar: number;
+  totalMeals: number;
+  daysTracked: number;
+  complianceRate: number;
+}
+
 export interface WeeklySummary {
   id: string;
   weekStart: string;
+  weekEnd?: string;
   avgCalories: number;
   avgProtein: number;
   avgCarbs: number;
@@ -335,6 +600,7 @@ export interface WeeklySummary {
   complianceRate: number;
   bestDay?: string;
   worstDay?: string;
+  change?: WeeklyChange | null;
 }
 
 export interface WeekProgressResponse {
@@ -342,6 +608,7 @@ export interface WeekProgressResponse {
   weekEnd: string;
   days: DailyProgress[];
   summary: WeeklySummary;
+  change: WeeklyChange | null;
   dietType: string;
 }
 
@@ -390,6 +657,41 @@ export interface KetoneRecentResponse {
   stats: KetoneStats;
 }
 
+// Weights in kg, waist in cm, body fat in %
+export interface BodyMeasurement {
+  id: string;
+  measuredAt: string;
+  weight: number | null;
+  waist: number | null;
+  bodyFat: number | null;
+  notes: string | null;
+}
+
+export interface MeasurementInput {
+  measuredAt?: string;
+  weight?: number | null;
+  waist?: number | null;
+  bodyFat?: number | null;
+  notes?: string | null;
+}
+
+export interface WeightTrendPoint {
+  date: string;
+  weight: number;
+  trend: number;
+}
+
+export interface WeightTrend {
+  points: WeightTrendPoint[];
+  latestWeight: number | null;
+  trendWeight: number | null;
+  weeklyRate: number | null;
+  goalWeight: number | null;
+  remaining: number | null;
+  goalReached: boolean;
+  projectedGoalDate: string | null;
+}
+
 export interface MealItem {
   name: string;
   calories: number;
@@ -398,10 +700,25 @@ export interface MealItem {
   fat: number;
 }
 
+export type MicronutrientKey =
+  | 'sodium'
+  | 'potassium'
+  | 'saturatedFat'
+  | 'transFat'
+  | 'cholesterol'
+  | 'calcium'
+  | 'iron'
+  | 'magnesium'
+  | 'vitaminC'
+  | 'vitaminD';
+
+// Only nutrients the source reported are present
+export type MicronutrientValues = Partial<Record<MicronutrientKey, number>>;
+
 export interface FoodItem {
   name: string;
   portion: string;
-  nutrition: {
+  nutrition: MicronutrientValues & {
     calories: number;
     protein: number;
     carbs: number;
@@ -410,36 +727,55 @@ export interface FoodItem {
   confidence: number;
 }
 
+export type AnalysisMode = 'meal' | 'label';
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+export interface NutritionLabel {
+  productName: string;
+  servingSize: string;
+  servingsPerContainer: number | null;
+  perServing: {
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+    fiber: number;
+    sugar: number;
+    sodium: number;
+  };
+  servingsConsumed: number;
+}
+
 export interface AnalysisResult {
   id?: string;
+  mealType?: MealType | null;
   timestamp: string;
   foods: FoodItem[];
-  totals: {
+  totals: MicronutrientValues & {
     calories: number;
     protein: number;
     carbs: number;
     fat: number;
   };
+  label?: NutritionLabel;
+}
+
+export interface AnalyzeOptions {
+  mode?: AnalysisMode;
+  servings?: number;
 }
 
 export interface Meal {
   id: string;
+  mealType?: MealType | null;
   timestamp: string;
   thumbnail?: string | null;
+  thumbnails?: string[];
   imageUrl?: string;
-  foods?: Array<{
-    name: string;
-    portion: string;
-    nutrition: {
-      calories: number;
-      protein: number;
-      carbs: number;
-      fat: number;
-    };
-    confidence: number;
-  }>;
+  foods?: FoodItem[];
   items?: MealItem[];
-  totals: {
+  totals: MicronutrientValues & {
     calories: number;
     protein: number;
     carbs: number;
@@ -447,8 +783,29 @@ export interface Meal {
   };
 }
 
-interface MealsResponse {
+export type MealSortField = 'createdAt' | 'calories' | 'protein' | 'carbs' | 'fat';
+
+// GET /api/meals filters; dates are YYYY-MM-DD days in the profile's time zone
+export interface MealFilters {
+  from?: string;
+  to?: string;
+  mealTypes?: MealType[];
+  q?: string;
+  minCalories?: number;
+  maxCalories?: number;
+  minProtein?: number;
+  maxProtein?: number;
+  minCarbs?: number;
+  maxCarbs?: number;
+  minFat?: number;
+  maxFat?: number;
+  sort?: MealSortField;
+  order?: 'asc' | 'desc';
+}
+
+export interface MealsPage {
   meals: Meal[];
+  nextCursor: string | null;
 }
 
 export const authApi = {
@@ -457,6 +814,55 @@ export const authApi = {
   
   login: (data: LoginRequest): Promise<AuthResponse> => 
     api.post<AuthResponse>('/api/auth/login', data),
+
+  oauthProviders: (): Promise<{ providers: OAuthProvider[] }> =>
+    api.get<{ providers: OAuthProvider[] }>('/api/auth/oauth/providers'),
+
+  oauthLogin: (provider: OAuthProviderName, idToken: string, name?: string): Promise<OAuthResponse> =>
+    api.post<OAuthResponse>(`/api/auth/oauth/${provider}`, { idToken, name }),
+
+  logout: (refreshToken: string): Promise<{ success: boolean }> =>
+    api.post<{ success: boolean }>('/api/auth/logout', { refreshToken }),
+
+  verifyEmail: (token: string): Promise<{ success: boolean; email: string }> =>
+    api.post<{ success: boolean; email: string }>('/api/auth/verify-email', { token }),
+
+  resendVerification: (): Promise<{ success: boolean }> =>
+    api.post<{ success: boolean }>('/api/auth/resend-verification'),
+
+  forgotPassword: (email: string): Promise<{ success: boolean; message: string }> =>
+    api.post<{ success: boolean; message: string }>('/api/auth/forgot-password', { email }),
+
+  resetPassword: (token: string, password: string): Promise<{ success: boolean }> =>
+    api.post<{ success: boolean }>('/api/auth/reset-password', { token, password }),
+
+  changePassword: (currentPassword: string, newPassword: string): Promise<ChangePasswordResponse> =>
+    api.put<ChangePasswordResponse>('/api/auth/password', { currentPassword, newPassword }),
+
+  changeEmail: (email: string, password: string): Promise<{ success: boolean; message: string }> =>
+    api.put<{ success: boolean; message: string }>('/api/auth/email', { email, password }),
+};
+
+export const accountApi = {
+  getAccount: (): Promise<Account> =>
+    api.get<Account>('/api/account'),
+
+  deleteAccount: (password: string): Promise<{ success: boolean }> =>
+    api.delete<{ success: boolean }>('/api/account', { password }),
+
+  exportData: (): Promise<Blob> =>
+    api.getBlob('/api/export'),
+
+  importData: (archive: File): Promise<ImportSummary> => {
+    const formData = new FormData();
+    formData.append('archive', archive);
+    return api.postFormData<ImportSummary>('/api/import', formData);
+  },
+};
+
+export const usageApi = {
+  getUsage: (): Promise<Usage> =>
+    api.get<Usage>('/api/usage'),
 };
 
 export const userApi = {
@@ -471,11 +877,29 @@ export const profileApi = {
   updateProfile: (data: ProfileUpdateData): Promise<ProfileResponse> =>
     api.post<ProfileResponse>('/api/profile', data),
 
-  getDietTemplates: (): Promise<{ templates: DietTemplate[] }> =>
-    api.get<{ templates: DietTemplate[] }>('/api/diet-templates'),
+  getDietTemplates: (): Promise<{ templates: DietTemplateSummary[] }> =>
+    api.get<{ templates: DietTemplateSummary[] }>('/api/diet-templates'),
+
+  createDietTemplate: (data: DietTemplateInput): Promise<{ template: DietTemplateSummary }> =>
+    api.post<{ template: DietTemplateSummary }>('/api/diet-templates', data),
+
+  cloneDietTemplate: (dietType: string): Promise<{ template: DietTemplateSummary }> =>
+    api.post<{ template: DietTemplateSummary }>(`/api/diet-templates/${encodeURIComponent(dietType)}/clone`),
+
+  updateDietTemplate: (dietType: string, data: DietTemplateInput): Promise<{ template: DietTemplateSummary }> =>
+    api.put<{ template: DietTemplateSummary }>(`/api/diet-templates/${encodeURIComponent(dietType)}`, data),
+
+  deleteDietTemplate: (dietType: string): Promise<{ success: boolean }> =>
+    api.delete<{ success: boolean }>(`/api/diet-templates/${encodeURIComponent(dietType)}`),
 
   calculateGoals: (data: CalculateGoalsRequest): Promise<CalculateGoalsResponse> =>
     api.post<CalculateGoalsResponse>('/api/profile/calculate-goals', data),
+
+  getAdaptiveGoals: (): Promise<AdaptiveGoals> =>
+    api.get<AdaptiveGoals>('/api/profile/adaptive-goals'),
+
+  acceptAdaptiveGoals: (): Promise<{ profile: UserProfile }> =>
+    api.post<{ profile: UserProfile }>('/api/profile/adaptive-goals'),
 };
 
 export const progressApi = {
@@ -488,6 +912,9 @@ export const progressApi = {
   getMonthly: (): Promise<MonthlyProgressResponse> =>
     api.get<MonthlyProgressResponse>('/api/progress/monthly'),
 
+  getWeeks: (limit?: number): Promise<{ weeks: WeeklySummary[] }> =>
+    api.get<{ weeks: WeeklySummary[] }>(`/api/progress/weeks${limit ? `?limit=${limit}` : ''}`),
+
   getRange: (start: string, end: string): Promise<{ days: DailyProgress[] }> =>
     api.get<{ days: DailyProgress[] }>(`/api/progress/range?start=${start}&end=${end}`),
 };
@@ -506,11 +933,28 @@ export const ketoneApi = {
     api.delete<{ success: boolean }>(`/api/ketone/${id}`),
 };
 
+export const measurementApi = {
+  list: (from?: string): Promise<{ measurements: BodyMeasurement[] }> =>
+    api.get<{ measurements: BodyMeasurement[] }>(`/api/measurements${from ? `?from=${encodeURIComponent(from)}` : ''}`),
+
+  log: (data: MeasurementInput): Promise<BodyMeasurement> =>
+    api.post<BodyMeasurement>('/api/measurements', data),
+
+  update: (id: string, data: MeasurementInput): Promise<BodyMeasurement> =>
+    api.put<BodyMeasurement>(`/api/measurements/${id}`, data),
+
+  delete: (id: string): Promise<{ success: boolean }> =>
+    api.delete<{ success: boolean }>(`/api/measurements/${id}`),
+
+  getTrend: (): Promise<WeightTrend> =>
+    api.get<WeightTrend>('/api/measurements/trend'),
+};
+
 export interface MealUpdateRequest {
   foods?: Array<{
     name: string;
     portion: string;
-    nutrition: {
+    nutrition: MicronutrientValues & {
       calories: number;
       protein: number;
       carbs: number;
@@ -518,28 +962,99 @@ export interface MealUpdateRequest {
     };
     confidence?: number;
   }>;
-  totals?: {
+  totals?: MicronutrientValues & {
     calories: number;
     protein: number;
     carbs: number;
     fat: number;
   };
+  mealType?: MealType;
   timestamp?: string;
 }
 
+// Either typed food items or a free-text description for the model to estimate
+export interface MealCreateRequest {
+  foods?: Array<{
+    name: string;
+    portion: string;
+    nutrition: {
+      calories: number;
+      protein: number;
+      carbs: number;
+      fat: number;
+    };
+  }>;
+  text?: string;
+  model?: string;
+  mealType?: MealType;
+  timestamp?: string;
+}
+
+export interface BarcodeMealResult {
+  id: string;
+  barcode: string;
+  product: {
+    name: string;
+    brand: string | null;
+    servingSize: string | null;
+  };
+  foods: FoodItem[];
+  totals: AnalysisResult['totals'];
+  timestamp: string;
+}
+
+export const foodApi = {
+  // Look up a barcode (typed, or decoded server-side from a photo) and log it as a meal
+  logBarcode: (source: { barcode: string } | { image: File }, servings: number = 1): Promise<BarcodeMealResult> => {
+    if ('barcode' in source) {
+      return api.post<BarcodeMealResult>('/api/foods/barcode', { barcode: source.barcode, servings });
+    }
+    const formData = new FormData();
+    formData.append('image', source.image);
+    formData.append('servings', String(servings));
+    return api.postFormData<BarcodeMealResult>('/api/foods/barcode', formData);
+  },
+};
+
 export const mealApi = {
-  analyze: (imageFile: File, model?: string): Promise<AnalysisResult> => {
+  // Several images (angles of one plate, or a meal plus its label) are analyzed as one meal
+  analyze: (images: File | File[], model?: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> => {
     const formData = new FormData();
-    formData.append('image', imageFile);
+    for (const image of Array.isArray(images) ? images : [images]) {
+      formData.append('image', image);
+    }
     if (model) {
       formData.append('model', model);
     }
+    // Label mode reads a Nutrition Facts panel instead of estimating from the food
+    if (options.mode) {
+      formData.append('mode', options.mode);
+    }
+    if (options.servings !== undefined) {
+      formData.append('servings', String(options.servings));
+    }
     return api.postFormData<AnalysisResult>('/api/analyze', formData);
   },
   
-  getMeals: async (): Promise<Meal[]> => {
-    const response = await api.get<MealsResponse>('/api/meals');
-    return response.meals || [];
+  // Log a meal without a photo
+  createMeal: (data: MealCreateRequest): Promise<Meal> =>
+    api.post<Meal>('/api/meals', data),
+
+  getMeals: async (filters: MealFilters = {}, cursor?: string | null, limit: number = 20): Promise<MealsPage> => {
+    const params = new URLSearchParams({ limit: String(limit) });
+    for (const [key, value] of Object.entries(filters)) {
+      if (value === undefined || value === '') continue;
+      if (key === 'mealTypes') {
+        if ((value as MealType[]).length > 0) params.set('mealType', (value as MealType[]).join(','));
+      } else {
+        params.set(key, String(value));
+      }
+    }
+    if (cursor) {
+      params.set('cursor', cursor);
+    }
+    const response = await api.get<MealsPage>(`/api/meals?${params}`);
+    return { meals: response.meals || [], nextCursor: response.nextCursor ?? null };
   },
 
   deleteMeal: (id: string): Promise<{ success: boolean; message?: string }> =>
@@ -0,0 +1,12 @@
+import type { MealType } from './api';
+
+export const MEAL_TYPES: Array<{ value: MealType; label: string }> = [
+  { value: 'breakfast', label: '🌅 Breakfast' },
+  { value: 'lunch', label: '🥪 Lunch' },
+  { value: 'dinner', label: '🍝 Dinner' },
+  { value: 'snack', label: '🍎 Snack' },
+];
+
+export function mealTypeLabel(mealType: MealType | null | undefined): string | null {
+  return MEAL_TYPES.find(type => type.value === mealType)?.label ?? null;
+}
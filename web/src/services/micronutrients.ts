@@ -0,0 +1,50 @@
+import type { MicronutrientKey, MicronutrientValues } from './api';
+
+export interface MicronutrientInfo {
+  key: MicronutrientKey;
+  label: string;
+  unit: 'g' | 'mg' | 'mcg';
+  // "limit": stay under it; "target": reach it
+  kind: 'limit' | 'target';
+}
+
+// Same order and units as the backend
+export const MICRONUTRIENTS: MicronutrientInfo[] = [
+  { key: 'sodium', label: 'Sodium', unit: 'mg', kind: 'limit' },
+  { key: 'potassium', label: 'Potassium', unit: 'mg', kind: 'target' },
+  { key: 'saturatedFat', label: 'Saturated fat', unit: 'g', kind: 'limit' },
+  { key: 'transFat', label: 'Trans fat', unit: 'g', kind: 'limit' },
+  { key: 'cholesterol', label: 'Cholesterol', unit: 'mg', kind: 'limit' },
+  { key: 'calcium', label: 'Calcium', unit: 'mg', kind: 'target' },
+  { key: 'iron', label: 'Iron', unit: 'mg', kind: 'target' },
+  { key: 'magnesium', label: 'Magnesium', unit: 'mg', kind: 'target' },
+  { key: 'vitaminC', label: 'Vitamin C', unit: 'mg', kind: 'target' },
+  { key: 'vitaminD', label: 'Vitamin D', unit: 'mcg', kind: 'target' },
+];
+
+// Copy out just the micronutrients from a nutrition object
+export function pickMicronutrients(values: MicronutrientValues): MicronutrientValues {
+  const picked: MicronutrientValues = {};
+  for (const { key } of MICRONUTRIENTS) {
+    if (typeof values[key] === 'number') picked[key] = values[key];
+  }
+  return picked;
+}
+
+// Sum the micronutrients any of the items reported
+export function sumMicronutrients(items: MicronutrientValues[]): MicronutrientValues {
+  const totals: MicronutrientValues = {};
+  for (const item of items) {
+    for (const { key } of MICRONUTRIENTS) {
+      if (typeof item[key] === 'number') {
+        totals[key] = Math.round(((totals[key] || 0) + item[key]) * 10) / 10;
+      }
+    }
+  }
+  return totals;
+}
+
+export function formatMicronutrient(value: number, unit: MicronutrientInfo['unit']): string {
+  const rounded = value >= 10 ? Math.round(value) : Math.round(value * 10) / 10;
+  return `${rounded}${unit}`;
+}
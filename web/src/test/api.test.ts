@@ -50,6 +50,30 @@ describe('API Client', () => {
     expect(global.fetch).toBeDefined();
   });
 
+  it('should use a session another tab already refreshed instead of spending the refresh token again', async () => {
+    localStorage.setItem('authToken', 'expired-token');
+    localStorage.setItem('refreshToken', 'spent-refresh-token');
+
+    const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+      const authorization = (init.headers as Record<string, string>)['Authorization'];
+      if (authorization === 'Bearer expired-token') {
+        // Another tab refreshes while this request is in flight
+        localStorage.setItem('authToken', 'fresh-token');
+        localStorage.setItem('refreshToken', 'fresh-refresh-token');
+        return { ok: false, status: 401, json: async () => ({ error: 'Token has expired' }) };
+      }
+      return { ok: true, status: 200, json: async () => ({ url }) };
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const { userApi } = await import('../services/api');
+    await userApi.getStats();
+
+    const urls = fetchMock.mock.calls.map(([url]) => url);
+    expect(urls.some(url => url.endsWith('/api/auth/refresh'))).toBe(false);
+    expect(urls).toHaveLength(2);
+  });
+
   it('should handle network errors gracefully', async () => {
     (global.fetch as any).mockRejectedValue(new Error('Network error'));
 
@@ -16,10 +16,11 @@ vi.mock('../services/api', () => ({
     })
   },
   mealApi: {
-    getMeals: vi.fn().mockResolvedValue([]),
+    getMeals: vi.fn().mockResolvedValue({ meals: [], nextCursor: null }),
     analyze: vi.fn()
   },
-  setApiUnauthorizedHandler: vi.fn()
+  setApiUnauthorizedHandler: vi.fn(),
+  setApiSessionRefreshedHandler: vi.fn()
 }));
 
 const renderWithRouter = (component: React.ReactElement) => {